@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceCodecService } from '@/lib/device-codec-service';
+import { framingSchema } from '@/lib/payload-framing';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 编解码器验证模式
+const codecSchema = z.object({
+  port: z.number().int().min(1, '端口须在1~65535之间').max(65535, '端口须在1~65535之间'),
+  framing: framingSchema,
+  script: z.string().min(1, '编解码脚本不能为空').max(64 * 1024, '编解码脚本不能超过64KB'),
+  enabled: z.boolean().default(true),
+});
+
+// 获取设备类的编解码器
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!deviceClass.isPublic && !(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备类' }, { status: 403 });
+    }
+
+    const codec = await deviceCodecService.getCodec(deviceClass.id);
+    if (!codec) {
+      return NextResponse.json({ error: '该设备类未配置编解码器' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: codec });
+  } catch (error) {
+    console.error('获取编解码器失败:', error);
+    return NextResponse.json({ error: '获取编解码器失败' }, { status: 500 });
+  }
+}
+
+// 创建或更新设备类的编解码器
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备类' }, { status: 403 });
+    }
+
+    if (deviceClass.protocol !== ProtocolType.TCP && deviceClass.protocol !== ProtocolType.UDP) {
+      return NextResponse.json({ error: '仅TCP/UDP接入协议的设备类支持编解码器' }, { status: 400 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = codecSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const scriptError = deviceCodecService.validateScript(validationResult.data.script);
+    if (scriptError) {
+      return NextResponse.json({ error: scriptError }, { status: 400 });
+    }
+
+    if (await deviceCodecService.isPortInUse(validationResult.data.port, deviceClass.protocol, deviceClass.id)) {
+      return NextResponse.json({ error: `${deviceClass.protocol}端口 ${validationResult.data.port} 已被其他设备类使用` }, { status: 409 });
+    }
+
+    const existing = await deviceCodecService.getCodec(deviceClass.id);
+    const codec = await deviceCodecService.saveCodec(deviceClass.id, validationResult.data);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceCodec',
+      resourceId: deviceClass.id,
+      description: `${existing ? 'Updated' : 'Created'} codec for device class: ${deviceClass.name}`,
+      details: {
+        port: codec.port,
+        framing: validationResult.data.framing.type,
+        enabled: codec.enabled,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: codec }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('保存编解码器失败:', error);
+    return NextResponse.json({ error: '保存编解码器失败' }, { status: 500 });
+  }
+}
+
+// 删除设备类的编解码器
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备类' }, { status: 403 });
+    }
+
+    const codec = await deviceCodecService.getCodec(deviceClass.id);
+    if (!codec) {
+      return NextResponse.json({ error: '该设备类未配置编解码器' }, { status: 404 });
+    }
+
+    await deviceCodecService.deleteCodec(deviceClass.id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'DeviceCodec',
+      resourceId: deviceClass.id,
+      description: `Deleted codec for device class: ${deviceClass.name}`,
+      details: { port: codec.port },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: '编解码器已成功删除' });
+  } catch (error) {
+    console.error('删除编解码器失败:', error);
+    return NextResponse.json({ error: '删除编解码器失败' }, { status: 500 });
+  }
+}
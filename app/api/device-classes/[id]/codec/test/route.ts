@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceCodecService, CodecScriptError } from '@/lib/device-codec-service';
+import { framingSchema } from '@/lib/payload-framing';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 测试解码验证模式，未提供分帧配置或脚本时使用已保存的编解码器
+const testDecodeSchema = z.object({
+  hex: z.string()
+    .transform(value => value.replace(/\s+/g, ''))
+    .pipe(z.string().min(2, '样本不能为空').max(128 * 1024, '样本不能超过64KB').regex(/^([0-9a-fA-F]{2})+$/, '样本须为十六进制字符串')),
+  framing: framingSchema.optional(),
+  script: z.string().min(1).max(64 * 1024, '编解码脚本不能超过64KB').optional(),
+  port: z.number().int().min(1).max(65535).optional(),
+  deviceId: z.string().optional(),
+});
+
+/**
+ * 以十六进制样本测试编解码器的分帧和解码
+ * 请求体：{ hex: 十六进制样本, framing?: 分帧配置, script?: 编解码脚本, port?: 端口, deviceId?: 设备ID }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备类' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = testDecodeSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { hex, port, deviceId } = validationResult.data;
+    let { framing, script } = validationResult.data;
+
+    const codec = await deviceCodecService.getCodec(deviceClass.id);
+    if (!framing || !script) {
+      if (!codec) {
+        return NextResponse.json({ error: '该设备类未配置编解码器，请提供分帧配置和编解码脚本' }, { status: 400 });
+      }
+
+      if (!framing) {
+        const saved = framingSchema.safeParse(codec.framing);
+        if (!saved.success) {
+          return NextResponse.json({ error: '已保存的分帧配置无效' }, { status: 400 });
+        }
+        framing = saved.data;
+      }
+      script = script || codec.script;
+    }
+
+    const result = deviceCodecService.testDecode(hex, framing, script, {
+      protocol: deviceClass.protocol === ProtocolType.UDP ? 'UDP' : 'TCP',
+      port: port || codec?.port || 0,
+      deviceId,
+    });
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    if (error instanceof CodecScriptError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('测试解码失败:', error);
+    return NextResponse.json({ error: '测试解码失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { otaService } from '@/lib/ota-service';
+
+// 获取固件包详情
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; firmwareId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const firmware = await otaService.getFirmwareById(params.firmwareId);
+    if (!firmware || firmware.deviceClassId !== params.id) {
+      return NextResponse.json({ error: '固件包不存在' }, { status: 404 });
+    }
+
+    if (!firmware.deviceClass.isPublic && !(await canAccessOrganization(user, firmware.deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权查看此固件包' }, { status: 403 });
+    }
+
+    const { filePath, ...data } = firmware;
+
+    return NextResponse.json({ data });
+  } catch (error) {
+    console.error('获取固件包详情失败:', error);
+    return NextResponse.json({ error: '获取固件包详情失败' }, { status: 500 });
+  }
+}
+
+// 删除固件包
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; firmwareId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const firmware = await otaService.getFirmwareById(params.firmwareId);
+    if (!firmware || firmware.deviceClassId !== params.id) {
+      return NextResponse.json({ error: '固件包不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, firmware.deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权删除此固件包' }, { status: 403 });
+    }
+
+    // 已被升级活动使用的固件包不允许删除
+    if (firmware._count.campaigns > 0) {
+      return NextResponse.json({ error: '该固件包已被升级活动使用，无法删除' }, { status: 409 });
+    }
+
+    await otaService.deleteFirmware(firmware.id, { userId: user.id, username: user.username, ...getRequestInfo(req) });
+
+    return NextResponse.json({ message: '固件包已成功删除' });
+  } catch (error) {
+    console.error('删除固件包失败:', error);
+    return NextResponse.json({ error: '删除固件包失败' }, { status: 500 });
+  }
+}
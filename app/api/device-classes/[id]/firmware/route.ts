@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { otaService } from '@/lib/ota-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 固件包大小上限（字节），默认100MB
+const FIRMWARE_MAX_SIZE = Number(process.env.FIRMWARE_MAX_SIZE || 100 * 1024 * 1024);
+
+// 固件包上传验证模式
+const uploadFirmwareSchema = z.object({
+  version: z.string().min(1, '固件版本不能为空').max(50, '固件版本不能超过50个字符'),
+  description: z.string().max(500, '描述不能超过500个字符').optional().nullable(),
+});
+
+// 获取设备类的固件包列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    // 公开设备类对所有组织可见
+    if (!deviceClass.isPublic && !(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备类' }, { status: 403 });
+    }
+
+    const firmwares = await otaService.getFirmwares(deviceClass.id);
+
+    return NextResponse.json({ data: firmwares });
+  } catch (error) {
+    console.error('获取固件包列表失败:', error);
+    return NextResponse.json({ error: '获取固件包列表失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 上传固件包
+ * multipart/form-data：file 固件文件，version 固件版本，description 描述
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备类' }, { status: 403 });
+    }
+
+    // 解析表单
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: '请上传固件文件' }, { status: 400 });
+    }
+    if (file.size > FIRMWARE_MAX_SIZE) {
+      return NextResponse.json({ error: `固件文件不能超过${Math.floor(FIRMWARE_MAX_SIZE / 1024 / 1024)}MB` }, { status: 400 });
+    }
+
+    // 验证请求数据
+    const validationResult = uploadFirmwareSchema.safeParse({
+      version: formData.get('version'),
+      description: formData.get('description'),
+    });
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { version, description } = validationResult.data;
+
+    const existing = await otaService.getFirmwares(deviceClass.id);
+    if (existing.some(firmware => firmware.version === version)) {
+      return NextResponse.json({ error: '该设备类下已存在相同版本的固件包' }, { status: 409 });
+    }
+
+    const firmware = await otaService.createFirmware(
+      {
+        deviceClassId: deviceClass.id,
+        version,
+        fileName: file.name,
+        data: Buffer.from(await file.arrayBuffer()),
+        description,
+      },
+      { userId: user.id, username: user.username, ...getRequestInfo(req) }
+    );
+
+    const { filePath, ...data } = firmware;
+
+    return NextResponse.json({ data }, { status: 201 });
+  } catch (error) {
+    console.error('上传固件包失败:', error);
+    return NextResponse.json({ error: '上传固件包失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { modbusService, registerMapSchema } from '@/lib/modbus-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 寄存器映射验证模式
+const saveRegisterMapSchema = z.object({
+  registers: registerMapSchema,
+});
+
+// 获取设备类的Modbus寄存器映射
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!deviceClass.isPublic && !(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备类' }, { status: 403 });
+    }
+
+    const registerMap = await modbusService.getRegisterMap(deviceClass.id);
+    if (!registerMap) {
+      return NextResponse.json({ error: '该设备类未配置Modbus寄存器映射' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: registerMap });
+  } catch (error) {
+    console.error('获取Modbus寄存器映射失败:', error);
+    return NextResponse.json({ error: '获取Modbus寄存器映射失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 创建或更新设备类的Modbus寄存器映射
+ * 请求体：{ registers: [{ property, functionCode, address, dataType, scale, offset, byteOrder, writable }] }
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备类' }, { status: 403 });
+    }
+
+    if (deviceClass.protocol !== ProtocolType.MODBUS) {
+      return NextResponse.json({ error: '仅Modbus接入协议的设备类支持寄存器映射' }, { status: 400 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = saveRegisterMapSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { registers } = validationResult.data;
+    const existing = await modbusService.getRegisterMap(deviceClass.id);
+    const registerMap = await modbusService.saveRegisterMap(deviceClass.id, registers);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'ModbusRegisterMap',
+      resourceId: deviceClass.id,
+      description: `${existing ? 'Updated' : 'Created'} Modbus register map for device class: ${deviceClass.name}`,
+      details: {
+        registers: registers.length,
+        writable: registers.filter(register => register.writable).length,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: registerMap }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('保存Modbus寄存器映射失败:', error);
+    return NextResponse.json({ error: '保存Modbus寄存器映射失败' }, { status: 500 });
+  }
+}
+
+// 删除设备类的Modbus寄存器映射
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备类' }, { status: 403 });
+    }
+
+    const registerMap = await modbusService.getRegisterMap(deviceClass.id);
+    if (!registerMap) {
+      return NextResponse.json({ error: '该设备类未配置Modbus寄存器映射' }, { status: 404 });
+    }
+
+    await modbusService.deleteRegisterMap(deviceClass.id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'ModbusRegisterMap',
+      resourceId: deviceClass.id,
+      description: `Deleted Modbus register map for device class: ${deviceClass.name}`,
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: 'Modbus寄存器映射已成功删除' });
+  } catch (error) {
+    console.error('删除Modbus寄存器映射失败:', error);
+    return NextResponse.json({ error: '删除Modbus寄存器映射失败' }, { status: 500 });
+  }
+}
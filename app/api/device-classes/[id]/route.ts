@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigType, DeviceType, Prisma, ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { thingModelService, thingModelSchema } from '@/lib/thing-model-service';
+import { otaService } from '@/lib/ota-service';
+import { deviceCodecService } from '@/lib/device-codec-service';
+import { modbusService } from '@/lib/modbus-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备类更新验证模式
+const updateDeviceClassSchema = z.object({
+  name: z.string().min(1, '产品名称不能为空').max(100, '产品名称不能超过100个字符').optional(),
+  image: z.string().url('请输入有效的图片URL').optional().nullable(),
+  category: z.string().min(1, '产品品类不能为空').max(50, '产品品类不能超过50个字符').optional(),
+  type: z.nativeEnum(DeviceType).optional(),
+  configType: z.nativeEnum(ConfigType).optional(),
+  protocol: z.nativeEnum(ProtocolType).optional(),
+  defaultConfig: z.record(z.any()).optional(),
+  thingModel: thingModelSchema.optional().nullable(),
+  description: z.string().max(500, '描述不能超过500个字符').optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isPublic: z.boolean().optional(),
+});
+
+// 获取设备类详情
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(params.id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    // 公开设备类对所有组织可见
+    if (!deviceClass.isPublic && !(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备类' }, { status: 403 });
+    }
+
+    const deviceCount = await deviceService.countDevices(undefined, { deviceClassId: deviceClass.id });
+
+    return NextResponse.json({ data: { ...deviceClass, deviceCount } });
+  } catch (error) {
+    console.error('获取设备类详情失败:', error);
+    return NextResponse.json({ error: '获取设备类详情失败' }, { status: 500 });
+  }
+}
+
+// 更新设备类
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { id } = params;
+
+    const deviceClass = await deviceService.getDeviceClassById(id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备类' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = updateDeviceClassSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { defaultConfig, thingModel, ...data } = validationResult.data;
+    const updateData: Prisma.DeviceClassUpdateInput = { ...data };
+
+    if (defaultConfig) {
+      updateData.defaultConfig = defaultConfig as Prisma.InputJsonObject;
+    }
+
+    if (thingModel !== undefined) {
+      updateData.thingModel = thingModel === null ? Prisma.JsonNull : (thingModel as unknown as Prisma.InputJsonObject);
+    }
+
+    const updatedDeviceClass = await deviceService.updateDeviceClass(id, updateData);
+
+    if (thingModel !== undefined) {
+      thingModelService.invalidateCache();
+    }
+
+    // 接入协议变更后编解码器按新协议重新监听，Modbus轮询随之启停
+    if (data.protocol && data.protocol !== deviceClass.protocol) {
+      await deviceCodecService.reload(id);
+      await modbusService.reloadDeviceClass(id);
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceClass',
+      resourceId: id,
+      description: `Updated device class: ${updatedDeviceClass.name}`,
+      details: { changes: Object.keys(validationResult.data) },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: updatedDeviceClass });
+  } catch (error) {
+    console.error('更新设备类失败:', error);
+    return NextResponse.json({ error: '更新设备类失败' }, { status: 500 });
+  }
+}
+
+// 删除设备类
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { id } = params;
+
+    const deviceClass = await deviceService.getDeviceClassById(id);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, deviceClass.organizationId))) {
+      return NextResponse.json({ error: '无权删除此设备类' }, { status: 403 });
+    }
+
+    // 仍有设备使用该设备类时不允许删除
+    const deviceCount = await deviceService.countDevices(undefined, { deviceClassId: id });
+    if (deviceCount > 0) {
+      return NextResponse.json({ error: '该设备类下仍有设备，无法删除' }, { status: 409 });
+    }
+
+    // 仍有固件包时不允许删除，需先删除固件包
+    const firmwares = await otaService.getFirmwares(id);
+    if (firmwares.length > 0) {
+      return NextResponse.json({ error: '该设备类下仍有固件包，无法删除' }, { status: 409 });
+    }
+
+    await deviceService.deleteDeviceClass(id);
+    // 编解码器和寄存器映射随设备类级联删除，关闭其端口
+    await deviceCodecService.reload(id);
+    await modbusService.reloadDeviceClass(id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_DELETE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'DeviceClass',
+      resourceId: id,
+      description: `Deleted device class: ${deviceClass.name}`,
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: '设备类已成功删除' }, { status: 200 });
+  } catch (error) {
+    console.error('删除设备类失败:', error);
+    return NextResponse.json({ error: '删除设备类失败' }, { status: 500 });
+  }
+}
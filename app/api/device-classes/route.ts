@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConfigType, DeviceType, Prisma, ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, getAccessibleOrganizationIds, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { thingModelSchema } from '@/lib/thing-model-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备类创建验证模式
+const createDeviceClassSchema = z.object({
+  name: z.string().min(1, '产品名称不能为空').max(100, '产品名称不能超过100个字符'),
+  image: z.string().url('请输入有效的图片URL').optional().nullable(),
+  category: z.string().min(1, '产品品类不能为空').max(50, '产品品类不能超过50个字符'),
+  type: z.nativeEnum(DeviceType),
+  configType: z.nativeEnum(ConfigType).default(ConfigType.DEFAULT),
+  protocol: z.nativeEnum(ProtocolType),
+  defaultConfig: z.record(z.any()).default({}),
+  thingModel: thingModelSchema.optional().nullable(),
+  description: z.string().max(500, '描述不能超过500个字符').optional().nullable(),
+  isDefault: z.boolean().optional(),
+  isPublic: z.boolean().optional(),
+  organizationId: z.string().uuid('请输入有效的组织ID'),
+});
+
+// 获取设备类列表
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const organizationId = url.searchParams.get('organizationId');
+    const protocol = url.searchParams.get('protocol');
+    const type = url.searchParams.get('type');
+    const category = url.searchParams.get('category');
+    const search = url.searchParams.get('search');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const conditions: Prisma.DeviceClassWhereInput[] = [];
+
+    if (protocol) {
+      if (!Object.values(ProtocolType).includes(protocol as ProtocolType)) {
+        return NextResponse.json({ error: '无效的接入协议' }, { status: 400 });
+      }
+      conditions.push({ protocol: protocol as ProtocolType });
+    }
+
+    if (type) {
+      if (!Object.values(DeviceType).includes(type as DeviceType)) {
+        return NextResponse.json({ error: '无效的设备类型' }, { status: 400 });
+      }
+      conditions.push({ type: type as DeviceType });
+    }
+
+    if (category) {
+      conditions.push({ category });
+    }
+
+    if (search) {
+      conditions.push({ name: { contains: search, mode: 'insensitive' } });
+    }
+
+    // 非系统管理员只能查看自己所在组织及其子组织的设备类以及公开设备类
+    const allowedOrgIds = await getAccessibleOrganizationIds(user);
+    if (organizationId) {
+      if (allowedOrgIds && !allowedOrgIds.includes(organizationId)) {
+        return NextResponse.json({ error: '无权查看此组织的设备类' }, { status: 403 });
+      }
+      conditions.push({ organizationId });
+    } else if (allowedOrgIds) {
+      conditions.push({
+        OR: [
+          { organizationId: { in: allowedOrgIds } },
+          { isPublic: true },
+        ],
+      });
+    }
+
+    const where: Prisma.DeviceClassWhereInput = conditions.length > 0 ? { AND: conditions } : {};
+
+    const [total, deviceClasses] = await Promise.all([
+      deviceService.countDeviceClasses(undefined, where),
+      deviceService.getAllDeviceClasses(undefined, { where, skip, take: pageSize }),
+    ]);
+
+    return NextResponse.json({
+      data: deviceClasses,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备类列表失败:', error);
+    return NextResponse.json({ error: '获取设备类列表失败' }, { status: 500 });
+  }
+}
+
+// 创建设备类
+export async function POST(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createDeviceClassSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { organizationId, defaultConfig, thingModel, ...data } = validationResult.data;
+
+    // 只能在自己所在组织及其子组织下创建设备类
+    if (!(await canAccessOrganization(user, organizationId))) {
+      return NextResponse.json({ error: '无权在此组织下创建设备类' }, { status: 403 });
+    }
+
+    const deviceClass = await deviceService.createDeviceClass({
+      ...data,
+      defaultConfig: defaultConfig as Prisma.InputJsonObject,
+      ...(thingModel ? { thingModel: thingModel as unknown as Prisma.InputJsonObject } : {}),
+      organization: { connect: { id: organizationId } },
+    });
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_CREATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceClass',
+      resourceId: deviceClass.id,
+      description: `Created device class: ${deviceClass.name}`,
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: deviceClass }, { status: 201 });
+  } catch (error) {
+    console.error('创建设备类失败:', error);
+    return NextResponse.json({ error: '创建设备类失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AlarmLevel, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备告警创建验证模式
+const createAlarmSchema = z.object({
+  level: z.nativeEnum(AlarmLevel),
+  content: z.string().min(1, '告警详情不能为空').max(1000, '告警详情不能超过1000个字符'),
+  sceneId: z.string().uuid('请输入有效的场景ID').optional().nullable(),
+});
+
+// 获取设备告警列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const level = url.searchParams.get('level');
+    const isConfirmed = url.searchParams.get('isConfirmed');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const where: Prisma.DeviceAlarmWhereInput = {};
+
+    if (level) {
+      if (!Object.values(AlarmLevel).includes(level as AlarmLevel)) {
+        return NextResponse.json({ error: '无效的告警级别' }, { status: 400 });
+      }
+      where.level = level as AlarmLevel;
+    }
+
+    if (isConfirmed !== null) {
+      where.isConfirmed = isConfirmed === 'true';
+    }
+
+    const [total, alarms] = await Promise.all([
+      deviceService.countDeviceAlarms(device.id, where),
+      deviceService.getDeviceAlarms(device.id, { where, skip, take: pageSize }),
+    ]);
+
+    return NextResponse.json({
+      data: alarms,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备告警列表失败:', error);
+    return NextResponse.json({ error: '获取设备告警列表失败' }, { status: 500 });
+  }
+}
+
+// 创建设备告警
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createAlarmSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { level, content, sceneId } = validationResult.data;
+
+    // 告警创建后由DeviceService触发alarm_created事件，推送至/alerts命名空间
+    const alarm = await deviceService.createDeviceAlarm({
+      level,
+      content,
+      device: { connect: { id: device.id } },
+      ...(sceneId ? { scene: { connect: { id: sceneId } } } : {}),
+    });
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_ALARM,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceAlarm',
+      resourceId: alarm.id,
+      description: `Raised ${level} alarm for device: ${device.name}`,
+      details: { deviceId: device.id },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: alarm }, { status: 201 });
+  } catch (error) {
+    console.error('创建设备告警失败:', error);
+    return NextResponse.json({ error: '创建设备告警失败' }, { status: 500 });
+  }
+}
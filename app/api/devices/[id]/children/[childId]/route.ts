@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { gatewayService } from '@/lib/gateway-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 从网关移除子设备
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; childId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const gateway = await gatewayService.getGateway(params.id);
+    if (!gateway) {
+      return NextResponse.json({ error: '网关不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, gateway.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    const result = await gatewayService.removeChildren(gateway.id, [params.childId]);
+    if (result.devices.length === 0) {
+      return NextResponse.json({ error: '子设备不存在' }, { status: 404 });
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      resourceId: gateway.id,
+      description: `Removed child device ${result.devices[0].name} from gateway: ${gateway.name}`,
+      details: { childId: params.childId },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: '子设备已成功移除' });
+  } catch (error) {
+    console.error('移除子设备失败:', error);
+    return NextResponse.json({ error: '移除子设备失败' }, { status: 500 });
+  }
+}
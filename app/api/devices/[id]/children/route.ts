@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { gatewayService } from '@/lib/gateway-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 挂载子设备验证模式
+const addChildrenSchema = z.object({
+  deviceIds: z.array(z.string().uuid('请输入有效的设备ID')).min(1, '子设备不能为空').max(100, '单次最多挂载100个子设备'),
+});
+
+// 获取网关子设备列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const gateway = await gatewayService.getGateway(params.id);
+    if (!gateway) {
+      return NextResponse.json({ error: '网关不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, gateway.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    const children = await gatewayService.getChildren(gateway.id);
+
+    return NextResponse.json({ data: children });
+  } catch (error) {
+    console.error('获取网关子设备失败:', error);
+    return NextResponse.json({ error: '获取网关子设备失败' }, { status: 500 });
+  }
+}
+
+// 挂载子设备到网关
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const gateway = await gatewayService.getGateway(params.id);
+    if (!gateway) {
+      return NextResponse.json({ error: '网关不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, gateway.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = addChildrenSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const result = await gatewayService.addChildren(gateway.id, validationResult.data.deviceIds);
+    if (result.errors.length > 0 && result.devices.length === 0) {
+      return NextResponse.json({ error: '挂载子设备失败', errors: result.errors }, { status: 400 });
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      resourceId: gateway.id,
+      description: `Added ${result.devices.length} child devices to gateway: ${gateway.name}`,
+      details: { childIds: result.devices.map(device => device.id) },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: result.devices, errors: result.errors });
+  } catch (error) {
+    console.error('挂载子设备失败:', error);
+    return NextResponse.json({ error: '挂载子设备失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CommandStatus } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { thingModelService } from '@/lib/thing-model-service';
+import { deviceCommandDispatcher } from '@/lib/device-command-dispatcher';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 命令状态更新验证模式
+const updateCommandSchema = z.object({
+  status: z.nativeEnum(CommandStatus),
+  responseContent: z.any().optional(),
+});
+
+// 获取设备命令详情
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; commandId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    const command = await deviceService.getDeviceCommandById(params.commandId);
+    if (!command || command.deviceId !== device.id) {
+      return NextResponse.json({ error: '命令不存在' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: command });
+  } catch (error) {
+    console.error('获取设备命令详情失败:', error);
+    return NextResponse.json({ error: '获取设备命令详情失败' }, { status: 500 });
+  }
+}
+
+// 更新设备命令状态
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string; commandId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    const command = await deviceService.getDeviceCommandById(params.commandId);
+    if (!command || command.deviceId !== device.id) {
+      return NextResponse.json({ error: '命令不存在' }, { status: 404 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = updateCommandSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { status, responseContent } = validationResult.data;
+
+    const updatedCommand = await deviceService.updateDeviceCommandStatus(command.id, status, responseContent);
+
+    // 手动置为终态后不再等待设备应答
+    if (status === CommandStatus.EXECUTED || status === CommandStatus.FAILED) {
+      deviceCommandDispatcher.release(command.id);
+    }
+
+    // 服务响应不符合物模型输出参数时标记为数据异常
+    await thingModelService.checkDeviceCommandResponse(device.id, command.type, responseContent);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_COMMAND,
+      level: status === CommandStatus.FAILED ? AuditLogLevel.WARNING : AuditLogLevel.INFO,
+      resourceType: 'DeviceCommand',
+      resourceId: command.id,
+      description: `Updated command ${command.type} status to ${status} for device: ${device.name}`,
+      details: { deviceId: device.id },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: updatedCommand });
+  } catch (error) {
+    console.error('更新设备命令状态失败:', error);
+    return NextResponse.json({ error: '更新设备命令状态失败' }, { status: 500 });
+  }
+}
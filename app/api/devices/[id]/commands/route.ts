@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CommandStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { thingModelService, ThingMethod } from '@/lib/thing-model-service';
+import { deviceShadowService } from '@/lib/device-shadow-service';
+import { deviceCommandDispatcher } from '@/lib/device-command-dispatcher';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备命令创建验证模式
+const createCommandSchema = z.object({
+  type: z.string().min(1, '命令类型不能为空').max(100, '命令类型不能超过100个字符'),
+  content: z.record(z.any()).default({}),
+  responseType: z.string().max(100, '响应类型不能超过100个字符').optional().nullable(),
+  maxRetries: z.number().int().min(0).max(10).optional(),
+  ackTimeout: z.number().int().min(1000).max(120000).optional(),
+  executionTimeout: z.number().int().min(1000).max(3600000).optional(),
+});
+
+// 获取设备命令列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status');
+    const type = url.searchParams.get('type');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const where: Prisma.DeviceCommandWhereInput = {};
+
+    if (status) {
+      if (!Object.values(CommandStatus).includes(status as CommandStatus)) {
+        return NextResponse.json({ error: '无效的命令状态' }, { status: 400 });
+      }
+      where.status = status as CommandStatus;
+    }
+
+    if (type) {
+      where.type = type;
+    }
+
+    const [total, commands] = await Promise.all([
+      deviceService.countDeviceCommands(device.id, where),
+      deviceService.getDeviceCommands(device.id, { where, skip, take: pageSize }),
+    ]);
+
+    return NextResponse.json({
+      data: commands,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备命令列表失败:', error);
+    return NextResponse.json({ error: '获取设备命令列表失败' }, { status: 500 });
+  }
+}
+
+// 创建设备命令
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createCommandSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { type, content, responseType, maxRetries, ackTimeout, executionTimeout } = validationResult.data;
+
+    // 命令内容须符合设备类的物模型定义（属性设置或服务输入参数）
+    const thingModelResult = await thingModelService.validateDeviceCommand(device.id, type, content);
+    if (!thingModelResult.valid) {
+      return NextResponse.json(
+        { error: '命令内容不符合物模型定义', violations: thingModelResult.violations },
+        { status: 400 }
+      );
+    }
+
+    const command = await deviceService.createDeviceCommand({
+      type,
+      content: content as Prisma.InputJsonObject,
+      responseType,
+      device: { connect: { id: device.id } },
+    });
+
+    // 按设备接入协议下发，应答、超时和重试在后台处理
+    await deviceCommandDispatcher.dispatch(command.id, { maxRetries, ackTimeout, executionTimeout });
+
+    // 属性设置同时写入影子期望状态，设备离线错过命令时在重新上线后补发
+    if (type === ThingMethod.PROPERTY_SET) {
+      await deviceShadowService.updateDesired(device.id, content, { sync: false });
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_COMMAND,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceCommand',
+      resourceId: command.id,
+      description: `Sent command ${type} to device: ${device.name}`,
+      details: { deviceId: device.id },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: command }, { status: 201 });
+  } catch (error) {
+    console.error('创建设备命令失败:', error);
+    return NextResponse.json({ error: '创建设备命令失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+
+// 获取设备连接记录
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    const [total, connections] = await Promise.all([
+      deviceService.countDeviceConnections(device.id),
+      deviceService.getDeviceConnections(device.id, { skip, take: pageSize }),
+    ]);
+
+    return NextResponse.json({
+      data: connections,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备连接记录失败:', error);
+    return NextResponse.json({ error: '获取设备连接记录失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeviceCredentialType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceCredentialService, IssuedCredential } from '@/lib/device-credential-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 凭证轮换验证模式
+const rotateCredentialSchema = z.object({
+  type: z.nativeEnum(DeviceCredentialType).default(DeviceCredentialType.SECRET),
+  // 证书认证时的X.509客户端证书（PEM格式）
+  certificate: z.string().max(20000, '证书内容过长').optional(),
+}).refine(
+  data => data.type !== DeviceCredentialType.CERTIFICATE || !!data.certificate,
+  { message: '证书认证须提供设备证书', path: ['certificate'] }
+);
+
+// 获取设备凭证信息（不含密钥）
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    const credential = await deviceCredentialService.getCredential(device.id);
+    if (!credential) {
+      return NextResponse.json({ error: '设备尚未签发凭证' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: credential });
+  } catch (error) {
+    console.error('获取设备凭证失败:', error);
+    return NextResponse.json({ error: '获取设备凭证失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 签发或轮换设备凭证
+ * 轮换后旧凭证立即失效，新密钥明文仅在响应中返回一次
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权修改此设备' }, { status: 403 });
+    }
+
+    // 解析请求体，允许空请求体（默认轮换设备密钥）
+    const body = await req.json().catch(() => ({}));
+
+    // 验证请求数据
+    const validationResult = rotateCredentialSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { type, certificate } = validationResult.data;
+    const previous = await deviceCredentialService.getCredential(device.id);
+
+    let credential: IssuedCredential;
+    if (type === DeviceCredentialType.CERTIFICATE) {
+      const parsedCertificate = deviceCredentialService.parseCertificate(certificate!);
+      if (!parsedCertificate) {
+        return NextResponse.json({ error: '无效的设备证书，证书须在有效期内且由受信任的CA签发' }, { status: 400 });
+      }
+      if (await deviceCredentialService.isFingerprintInUse(parsedCertificate.fingerprint, device.id)) {
+        return NextResponse.json({ error: '该证书已被其他设备使用' }, { status: 409 });
+      }
+      credential = await deviceCredentialService.registerCertificate(device.id, parsedCertificate);
+    } else {
+      credential = await deviceCredentialService.issueSecret(device.id);
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'DeviceCredential',
+      resourceId: device.id,
+      description: previous
+        ? `Rotated device credential: ${device.name}`
+        : `Issued device credential: ${device.name}`,
+      details: {
+        type: credential.type,
+        version: credential.version,
+        previousType: previous?.type,
+        fingerprint: credential.fingerprint,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: credential }, { status: previous ? 200 : 201 });
+  } catch (error) {
+    console.error('轮换设备凭证失败:', error);
+    return NextResponse.json({ error: '轮换设备凭证失败' }, { status: 500 });
+  }
+}
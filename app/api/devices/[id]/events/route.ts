@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备事件创建验证模式
+const createEventSchema = z.object({
+  identifier: z.string().min(1, '事件标识符不能为空').max(100, '事件标识符不能超过100个字符'),
+  name: z.string().min(1, '事件名称不能为空').max(100, '事件名称不能超过100个字符'),
+  type: z.string().min(1, '事件类型不能为空').max(50, '事件类型不能超过50个字符'),
+  params: z.record(z.any()).default({}),
+});
+
+// 获取设备事件列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const type = url.searchParams.get('type');
+    const identifier = url.searchParams.get('identifier');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const where: Prisma.DeviceEventWhereInput = {};
+
+    if (type) {
+      where.type = type;
+    }
+
+    if (identifier) {
+      where.identifier = identifier;
+    }
+
+    const [total, events] = await Promise.all([
+      deviceService.countDeviceEvents(device.id, where),
+      deviceService.getDeviceEvents(device.id, { where, skip, take: pageSize }),
+    ]);
+
+    return NextResponse.json({
+      data: events,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备事件列表失败:', error);
+    return NextResponse.json({ error: '获取设备事件列表失败' }, { status: 500 });
+  }
+}
+
+// 上报设备事件
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createEventSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { params: eventParams, ...data } = validationResult.data;
+
+    const event = await deviceService.createDeviceEvent({
+      ...data,
+      params: eventParams as Prisma.InputJsonObject,
+      device: { connect: { id: device.id } },
+    });
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DATA_CREATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceEvent',
+      resourceId: event.id,
+      description: `Reported event ${event.identifier} for device: ${device.name}`,
+      details: { deviceId: device.id },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: event }, { status: 201 });
+  } catch (error) {
+    console.error('上报设备事件失败:', error);
+    return NextResponse.json({ error: '上报设备事件失败' }, { status: 500 });
+  }
+}
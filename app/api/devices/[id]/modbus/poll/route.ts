@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { modbusService } from '@/lib/modbus-service';
+import { ModbusError } from '@/lib/modbus-protocol';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 立即轮询设备，返回读取到的属性值和失败的寄存器块
+ * 轮询计划未启用时也可手动轮询，用于调试寄存器映射
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    const result = await modbusService.pollNow(device.id);
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    if (error instanceof ModbusError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Modbus轮询失败:', error);
+    return NextResponse.json({ error: 'Modbus轮询失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ModbusTransportMode, ProtocolType } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { modbusService } from '@/lib/modbus-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 轮询计划验证模式
+const pollScheduleSchema = z.object({
+  host: z.string().min(1, '从站地址不能为空').max(255),
+  port: z.number().int().min(1, '端口须在1~65535之间').max(65535, '端口须在1~65535之间').default(502),
+  unitId: z.number().int().min(0, '单元标识须在0~255之间').max(255, '单元标识须在0~255之间').default(1),
+  mode: z.nativeEnum(ModbusTransportMode).default(ModbusTransportMode.TCP),
+  pollInterval: z.number().int().min(1000, '轮询周期不能小于1秒').max(3600000, '轮询周期不能大于1小时').default(10000),
+  timeout: z.number().int().min(100, '响应超时不能小于100毫秒').max(60000, '响应超时不能大于60秒').default(3000),
+  enabled: z.boolean().default(true),
+}).refine(
+  data => data.timeout < data.pollInterval,
+  { message: '响应超时须小于轮询周期', path: ['timeout'] }
+);
+
+// 获取设备的Modbus轮询计划和轮询状态
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    const schedule = await modbusService.getPollSchedule(device.id);
+    if (!schedule) {
+      return NextResponse.json({ error: '设备未配置Modbus轮询计划' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      data: {
+        ...schedule,
+        status: modbusService.getPollStatus(device.id),
+      },
+    });
+  } catch (error) {
+    console.error('获取Modbus轮询计划失败:', error);
+    return NextResponse.json({ error: '获取Modbus轮询计划失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 创建或更新设备的Modbus轮询计划，保存后立即按新计划轮询
+ * 请求体：{ host, port?, unitId?, mode?: TCP | RTU_OVER_TCP, pollInterval?, timeout?, enabled? }
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权修改此设备' }, { status: 403 });
+    }
+
+    const deviceClass = await deviceService.getDeviceClassById(device.deviceClassId);
+    if (deviceClass?.protocol !== ProtocolType.MODBUS) {
+      return NextResponse.json({ error: '仅Modbus接入协议的设备支持轮询计划' }, { status: 400 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = pollScheduleSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const existing = await modbusService.getPollSchedule(device.id);
+    const schedule = await modbusService.savePollSchedule(device.id, validationResult.data);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'ModbusPollSchedule',
+      resourceId: device.id,
+      description: `${existing ? 'Updated' : 'Created'} Modbus poll schedule for device: ${device.name}`,
+      details: {
+        host: schedule.host,
+        port: schedule.port,
+        unitId: schedule.unitId,
+        mode: schedule.mode,
+        pollInterval: schedule.pollInterval,
+        enabled: schedule.enabled,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: schedule }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('保存Modbus轮询计划失败:', error);
+    return NextResponse.json({ error: '保存Modbus轮询计划失败' }, { status: 500 });
+  }
+}
+
+// 删除设备的Modbus轮询计划，停止轮询
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权修改此设备' }, { status: 403 });
+    }
+
+    const schedule = await modbusService.getPollSchedule(device.id);
+    if (!schedule) {
+      return NextResponse.json({ error: '设备未配置Modbus轮询计划' }, { status: 404 });
+    }
+
+    await modbusService.deletePollSchedule(device.id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'ModbusPollSchedule',
+      resourceId: device.id,
+      description: `Deleted Modbus poll schedule for device: ${device.name}`,
+      details: { host: schedule.host, port: schedule.port, unitId: schedule.unitId },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: 'Modbus轮询计划已成功删除' });
+  } catch (error) {
+    console.error('删除Modbus轮询计划失败:', error);
+    return NextResponse.json({ error: '删除Modbus轮询计划失败' }, { status: 500 });
+  }
+}
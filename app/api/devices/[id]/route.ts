@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeviceStatus, DeviceType, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { thingModelService } from '@/lib/thing-model-service';
+import { gatewayService } from '@/lib/gateway-service';
+import { modbusService } from '@/lib/modbus-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+// 设备更新验证模式
+const updateDeviceSchema = z.object({
+  name: z.string().min(1, '设备名称不能为空').max(100, '设备名称不能超过100个字符').optional(),
+  alias: z.string().max(100, '设备别名不能超过100个字符').optional().nullable(),
+  status: z.nativeEnum(DeviceStatus).optional(),
+  config: z.record(z.any()).optional(),
+  isPublic: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+  deviceClassId: z.string().uuid('请输入有效的设备类ID').optional(),
+  parentId: z.string().uuid('请输入有效的父设备ID').optional().nullable(),
+});
+
+// 获取设备详情
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id, {
+      deviceClass: true,
+      organization: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      parent: {
+        select: {
+          id: true,
+          name: true,
+        },
+      },
+      children: {
+        select: {
+          id: true,
+          name: true,
+          status: true,
+        },
+      },
+    });
+
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    return NextResponse.json({ data: device });
+  } catch (error) {
+    console.error('获取设备详情失败:', error);
+    return NextResponse.json({ error: '获取设备详情失败' }, { status: 500 });
+  }
+}
+
+// 更新设备
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { id } = params;
+
+    const device = await deviceService.getDeviceById(id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权更新此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = updateDeviceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { deviceClassId, parentId, config, ...data } = validationResult.data;
+    const updateData: Prisma.DeviceUpdateInput = { ...data };
+
+    if (config) {
+      updateData.config = config as Prisma.InputJsonObject;
+    }
+
+    // 如果要更新设备类，检查设备类是否存在，且属于同一组织或为公开设备类
+    const deviceClass = await deviceService.getDeviceClassById(deviceClassId || device.deviceClassId);
+    if (deviceClassId) {
+      if (!deviceClass || (deviceClass.organizationId !== device.organizationId && !deviceClass.isPublic)) {
+        return NextResponse.json({ error: '设备类不存在' }, { status: 400 });
+      }
+
+      // 网关子设备不能再挂载子设备，挂载在网关下的设备只能是网关子设备
+      if (deviceClassId !== device.deviceClassId) {
+        if (deviceClass.type === DeviceType.GATEWAY_CHILD && (await gatewayService.getChildren(id)).length > 0) {
+          return NextResponse.json({ error: '设备存在子设备，不能更换为网关子设备类' }, { status: 400 });
+        }
+        if (deviceClass.type !== DeviceType.GATEWAY_CHILD && parentId === undefined && device.parentId) {
+          return NextResponse.json({ error: '设备已挂载到网关，只能更换为网关子设备类' }, { status: 400 });
+        }
+      }
+      updateData.deviceClass = { connect: { id: deviceClassId } };
+    }
+
+    // 如果要更新父设备，检查父设备是否为同一组织的网关，且设备为网关子设备
+    if (parentId !== undefined) {
+      if (parentId === null) {
+        updateData.parent = { disconnect: true };
+      } else {
+        if (parentId === id) {
+          return NextResponse.json({ error: '不能将设备自身设为父设备' }, { status: 400 });
+        }
+
+        const parentError = await gatewayService.validateParent(parentId, device.organizationId, deviceClass!.type);
+        if (parentError) {
+          return NextResponse.json({ error: parentError }, { status: 400 });
+        }
+
+        // 检查是否形成循环引用
+        if (await deviceService.isDescendantDevice(parentId, id)) {
+          return NextResponse.json({ error: '不能将设备的子设备设为父设备' }, { status: 400 });
+        }
+
+        updateData.parent = { connect: { id: parentId } };
+      }
+    }
+
+    const updatedDevice = await deviceService.updateDevice(id, updateData);
+
+    // 更换设备类后设备适用的物模型和Modbus寄存器映射随之变化
+    if (deviceClassId && deviceClassId !== device.deviceClassId) {
+      thingModelService.invalidateCache();
+      await modbusService.reloadDevice(id);
+    }
+
+    // 更换父设备后网关代理的子设备归属随之变化
+    if (parentId !== undefined && parentId !== device.parentId) {
+      gatewayService.invalidateCache();
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      resourceId: id,
+      description: `Updated device: ${updatedDevice.name}`,
+      details: { changes: Object.keys(validationResult.data) },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: updatedDevice });
+  } catch (error) {
+    console.error('更新设备失败:', error);
+    return NextResponse.json({ error: '更新设备失败' }, { status: 500 });
+  }
+}
+
+// 删除设备
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { id } = params;
+
+    const device = await deviceService.getDeviceById(id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权删除此设备' }, { status: 403 });
+    }
+
+    await deviceService.deleteDevice(id);
+    // 轮询计划随设备级联删除，停止轮询
+    await modbusService.reloadDevice(id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_DELETE,
+      level: AuditLogLevel.WARNING,
+      resourceType: 'Device',
+      resourceId: id,
+      description: `Deleted device: ${device.name}`,
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: '设备已成功删除' }, { status: 200 });
+  } catch (error) {
+    console.error('删除设备失败:', error);
+    return NextResponse.json({ error: '删除设备失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceShadowService } from '@/lib/device-shadow-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 设备影子修改验证模式
+const updateShadowSchema = z.object({
+  desired: z.record(z.any()).refine(value => Object.keys(value).length > 0, '期望状态不能为空'),
+  version: z.number().int().min(0).optional(),
+});
+
+// 获取设备影子
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    const shadow = await deviceShadowService.getShadow(device.id);
+
+    return NextResponse.json({ data: shadow });
+  } catch (error) {
+    console.error('获取设备影子失败:', error);
+    return NextResponse.json({ error: '获取设备影子失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 修改设备期望状态
+ * 属性值为null时删除该属性；指定version时按期望状态版本号做乐观锁校验
+ * 期望状态与上报状态不一致的部分立即下发，设备离线时在重新上线后下发
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权操作此设备' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = updateShadowSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { desired, version } = validationResult.data;
+
+    // 期望状态须符合设备类物模型的可写属性定义
+    const thingModelResult = await deviceShadowService.validateDesired(device.id, desired);
+    if (!thingModelResult.valid) {
+      return NextResponse.json(
+        { error: '期望状态不符合物模型定义', violations: thingModelResult.violations },
+        { status: 400 }
+      );
+    }
+
+    const shadow = await deviceShadowService.updateDesired(device.id, desired, { version });
+    if (!shadow) {
+      return NextResponse.json({ error: '设备影子版本冲突，请获取最新版本后重试' }, { status: 409 });
+    }
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceShadow',
+      resourceId: device.id,
+      description: `Updated desired state for device: ${device.name}`,
+      details: { desired, desiredVersion: shadow.desiredVersion },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: shadow });
+  } catch (error) {
+    console.error('修改设备影子失败:', error);
+    return NextResponse.json({ error: '修改设备影子失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceTelemetryService, MAX_TELEMETRY_POINTS } from '@/lib/device-telemetry-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 遥测查询参数验证模式
+const telemetryQuerySchema = z.object({
+  property: z.string().min(1, '属性标识符不能为空').max(100),
+  from: z.coerce.date({ invalid_type_error: '请输入有效的开始时间' }).optional(),
+  to: z.coerce.date({ invalid_type_error: '请输入有效的结束时间' }).optional(),
+  interval: z.string().regex(/^(raw|[1-9]\d{0,3}[mhd])$/, '时间间隔须为raw或数字加单位（m/h/d），如5m、1h、1d').optional(),
+  agg: z.enum(['avg', 'min', 'max', 'last']).default('avg'),
+});
+
+/**
+ * 查询设备遥测数据
+ * 未指定时间范围时查询最近1小时；未指定间隔时按时间范围自动选择原始数据或1m/1h/1d降采样
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const device = await deviceService.getDeviceById(params.id);
+    if (!device) {
+      return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, device.organizationId))) {
+      return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+    }
+
+    // 验证查询参数
+    const searchParams = Object.fromEntries(new URL(req.url).searchParams);
+    const validationResult = telemetryQuerySchema.safeParse(searchParams);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { property, agg } = validationResult.data;
+    const to = validationResult.data.to || new Date();
+    const from = validationResult.data.from || new Date(to.getTime() - 60 * 60 * 1000);
+
+    if (from >= to) {
+      return NextResponse.json({ error: '开始时间必须早于结束时间' }, { status: 400 });
+    }
+
+    const { interval, intervalMs } = deviceTelemetryService.resolveInterval(from, to, validationResult.data.interval);
+    if (intervalMs > 0 && (to.getTime() - from.getTime()) / intervalMs > MAX_TELEMETRY_POINTS) {
+      return NextResponse.json({ error: '时间范围过大，请增大时间间隔' }, { status: 400 });
+    }
+
+    const points = await deviceTelemetryService.queryTelemetry({
+      deviceId: device.id,
+      property,
+      from,
+      to,
+      interval,
+      agg,
+    });
+
+    return NextResponse.json({
+      data: {
+        property,
+        from,
+        to,
+        interval,
+        agg,
+        points,
+      },
+    });
+  } catch (error) {
+    console.error('查询设备遥测数据失败:', error);
+    return NextResponse.json({ error: '查询设备遥测数据失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, getRequestInfo } from '@/lib/api-middleware';
+import prisma from '@/lib/db-prisma';
+import deviceService from '@/lib/device-prisma';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 确认设备告警
+ * 确认后通过/alerts命名空间推送alertConfirmed，视频墙清除对应的告警画面
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['alert:confirm']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const alarm = await prisma.deviceAlarm.findUnique({
+      where: { id: params.id },
+      select: { isConfirmed: true, deviceId: true },
+    });
+
+    if (!alarm) {
+      return NextResponse.json({ error: 'Device alarm not found' }, { status: 404 });
+    }
+
+    if (alarm.isConfirmed) {
+      return NextResponse.json({ error: 'Device alarm has already been confirmed' }, { status: 409 });
+    }
+
+    const confirmed = await deviceService.confirmDeviceAlarm(params.id, user.id);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_ALARM,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceAlarm',
+      resourceId: params.id,
+      description: 'Confirmed device alarm',
+      details: { deviceId: alarm.deviceId },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json(confirmed);
+  } catch (error) {
+    console.error('Error confirming device alarm:', error);
+    return NextResponse.json({ error: 'Failed to confirm device alarm' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { deviceCredentialService } from '@/lib/device-credential-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 比较两个字符串是否相等（恒定时间）
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * MQTT Broker连接认证回调
+ * 供外部Broker的HTTP认证插件调用，请求体：{ clientid, username, password, peerhost }
+ * 返回 { result: 'allow' | 'deny' }，平台自身的MQTT连接（MQTT_USERNAME/MQTT_PASSWORD）作为超级用户放行
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // 配置了MQTT_AUTH_HOOK_TOKEN时，须携带 Authorization: Bearer <token>
+    const hookToken = process.env.MQTT_AUTH_HOOK_TOKEN;
+    if (hookToken) {
+      const token = req.headers.get('authorization')?.replace('Bearer ', '') || '';
+      if (!safeEqual(token, hookToken)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+      }
+    }
+
+    const body = await req.json().catch(() => null);
+    if (!body || typeof body.clientid !== 'string') {
+      return NextResponse.json({ result: 'deny' });
+    }
+
+    const username = typeof body.username === 'string' ? body.username : undefined;
+    const password = typeof body.password === 'string' ? body.password : undefined;
+
+    if (
+      process.env.MQTT_USERNAME &&
+      process.env.MQTT_PASSWORD &&
+      username === process.env.MQTT_USERNAME &&
+      safeEqual(password || '', process.env.MQTT_PASSWORD)
+    ) {
+      return NextResponse.json({ result: 'allow', is_superuser: true });
+    }
+
+    const deviceId = await deviceCredentialService.authenticateMqtt(body.clientid, username, password, {
+      ipAddress: typeof body.peerhost === 'string' ? body.peerhost : undefined,
+    });
+
+    return NextResponse.json({ result: deviceId ? 'allow' : 'deny', is_superuser: false });
+  } catch (error) {
+    console.error('MQTT连接认证失败:', error);
+    return NextResponse.json({ result: 'deny' });
+  }
+}
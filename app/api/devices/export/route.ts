@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, getRequestInfo, getAccessibleOrganizationIds } from '@/lib/api-middleware';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+import deviceService from '@/lib/device-prisma';
+import { deviceImportService, DeviceImportError } from '@/lib/device-import-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// 导出设备，筛选条件与设备列表相同
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const url = new URL(req.url);
+    const format = url.searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: '导出格式仅支持csv或xlsx' }, { status: 400 });
+    }
+
+    const filter = deviceService.buildListFilter(url.searchParams, await getAccessibleOrganizationIds(user));
+    if ('error' in filter) {
+      return NextResponse.json({ error: filter.error }, { status: filter.status });
+    }
+
+    const { data, count } = await deviceImportService.export(filter.where, format);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DATA_EXPORT,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      description: `Exported ${count} devices as ${format}`,
+      details: { format, count, filters: Object.fromEntries(url.searchParams) },
+      ...getRequestInfo(req),
+    });
+
+    const fileName = `devices-${new Date().toISOString().slice(0, 10)}.${format}`;
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(fileName)}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof DeviceImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('导出设备失败:', error);
+    return NextResponse.json({ error: '导出设备失败' }, { status: 500 });
+  }
+}
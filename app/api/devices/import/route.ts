@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+import { deviceImportService, DeviceImportError } from '@/lib/device-import-service';
+import { detectFormat, SpreadsheetError } from '@/lib/spreadsheet-parser';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 导入文件大小上限（字节），默认5MB
+const IMPORT_MAX_SIZE = Number(process.env.DEVICE_IMPORT_MAX_SIZE || 5 * 1024 * 1024);
+
+// 导入选项验证模式
+const importOptionsSchema = z.object({
+  dryRun: z.enum(['true', 'false']).default('false'),
+  organizationId: z.string().uuid('请输入有效的组织ID').optional(),
+  mapping: z.string().optional()
+    .transform((value, ctx) => {
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: '列映射必须为JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.string().nullable()).optional()),
+});
+
+// 批量导入设备，dryRun=true 时仅校验并返回逐行错误报告
+export async function POST(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 解析表单
+    const formData = await req.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File) || file.size === 0) {
+      return NextResponse.json({ error: '请上传CSV或XLSX文件' }, { status: 400 });
+    }
+    if (file.size > IMPORT_MAX_SIZE) {
+      return NextResponse.json({ error: `导入文件不能超过${Math.floor(IMPORT_MAX_SIZE / 1024 / 1024)}MB` }, { status: 400 });
+    }
+
+    // 验证请求数据
+    const validationResult = importOptionsSchema.safeParse({
+      dryRun: formData.get('dryRun') ?? undefined,
+      organizationId: formData.get('organizationId') || undefined,
+      mapping: formData.get('mapping') || undefined,
+    });
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { dryRun, organizationId, mapping } = validationResult.data;
+
+    if (organizationId && !(await canAccessOrganization(user, organizationId))) {
+      return NextResponse.json({ error: '无权在此组织下创建设备' }, { status: 403 });
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const format = detectFormat(file.name, data);
+    if (!format) {
+      return NextResponse.json({ error: '仅支持CSV或XLSX文件' }, { status: 400 });
+    }
+
+    if (dryRun === 'true') {
+      const report = await deviceImportService.dryRun(data, format, user, { mapping, organizationId });
+      return NextResponse.json({ data: report });
+    }
+
+    const result = await deviceImportService.import(data, format, user, { mapping, organizationId });
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DATA_CREATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      description: `Imported ${result.created.length} devices from ${file.name}`,
+      details: {
+        fileName: file.name,
+        format,
+        totalRows: result.total,
+        createdRows: result.created.length,
+        deviceIds: result.created.map(device => device.id),
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: result }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DeviceImportError) {
+      return NextResponse.json({ error: error.message, data: error.report }, { status: 400 });
+    }
+    if (error instanceof SpreadsheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('批量导入设备失败:', error);
+    return NextResponse.json({ error: '批量导入设备失败' }, { status: 500 });
+  }
+}
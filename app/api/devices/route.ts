@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DeviceStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, canAccessOrganization, getRequestInfo, getAccessibleOrganizationIds } from '@/lib/api-middleware';
+import prisma from '@/lib/db-prisma';
+import deviceService from '@/lib/device-prisma';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+import { deviceCredentialService } from '@/lib/device-credential-service';
+import { gatewayService } from '@/lib/gateway-service';
+
+// 设备创建验证模式
+const createDeviceSchema = z.object({
+  name: z.string().min(1, '设备名称不能为空').max(100, '设备名称不能超过100个字符'),
+  alias: z.string().max(100, '设备别名不能超过100个字符').optional().nullable(),
+  status: z.nativeEnum(DeviceStatus).optional(),
+  config: z.record(z.any()).default({}),
+  isPublic: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+  deviceClassId: z.string().uuid('请输入有效的设备类ID'),
+  organizationId: z.string().uuid('请输入有效的组织ID'),
+  parentId: z.string().uuid('请输入有效的父设备ID').optional().nullable(),
+  // 设备X.509客户端证书（PEM格式），不提供时签发设备密钥
+  certificate: z.string().max(20000, '证书内容过长').optional(),
+});
+
+// 获取设备列表
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件，非系统管理员只能查看自己所在组织及其子组织的设备
+    const filter = deviceService.buildListFilter(url.searchParams, await getAccessibleOrganizationIds(user));
+    if ('error' in filter) {
+      return NextResponse.json({ error: filter.error }, { status: filter.status });
+    }
+    const { where } = filter;
+
+    const [total, devices] = await Promise.all([
+      deviceService.countDevices(undefined, where),
+      deviceService.getAllDevices(undefined, {
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { name: 'asc' },
+        include: {
+          deviceClass: {
+            select: {
+              id: true,
+              name: true,
+              protocol: true,
+            },
+          },
+          organization: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: devices,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取设备列表失败:', error);
+    return NextResponse.json({ error: '获取设备列表失败' }, { status: 500 });
+  }
+}
+
+// 创建设备
+export async function POST(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:edit']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createDeviceSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { deviceClassId, organizationId, parentId, config, certificate, ...data } = validationResult.data;
+
+    // 只能在自己所在组织及其子组织下创建设备
+    if (!(await canAccessOrganization(user, organizationId))) {
+      return NextResponse.json({ error: '无权在此组织下创建设备' }, { status: 403 });
+    }
+
+    // 检查设备类是否存在，且属于同一组织或为公开设备类
+    const deviceClass = await deviceService.getDeviceClassById(deviceClassId);
+    if (!deviceClass || (deviceClass.organizationId !== organizationId && !deviceClass.isPublic)) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 400 });
+    }
+
+    // 检查父设备是否为同一组织的网关，且设备为网关子设备
+    if (parentId) {
+      const parentError = await gatewayService.validateParent(parentId, organizationId, deviceClass.type);
+      if (parentError) {
+        return NextResponse.json({ error: parentError }, { status: 400 });
+      }
+    }
+
+    // 检查设备证书
+    const parsedCertificate = certificate ? deviceCredentialService.parseCertificate(certificate) : null;
+    if (certificate) {
+      if (!parsedCertificate) {
+        return NextResponse.json({ error: '无效的设备证书，证书须在有效期内且由受信任的CA签发' }, { status: 400 });
+      }
+      if (await deviceCredentialService.isFingerprintInUse(parsedCertificate.fingerprint)) {
+        return NextResponse.json({ error: '该证书已被其他设备使用' }, { status: 409 });
+      }
+    }
+
+    // 设备与凭证在同一事务中创建，签发失败时不留下无凭证的设备
+    const { device, credential } = await prisma.$transaction(async tx => {
+      const device = await tx.device.create({
+        data: {
+          ...data,
+          config: config as Prisma.InputJsonObject,
+          deviceClass: { connect: { id: deviceClassId } },
+          organization: { connect: { id: organizationId } },
+          ...(parentId ? { parent: { connect: { id: parentId } } } : {}),
+        },
+      });
+
+      // 签发设备凭证，密钥明文仅在此返回一次
+      const credential = parsedCertificate
+        ? await deviceCredentialService.registerCertificate(device.id, parsedCertificate, tx)
+        : await deviceCredentialService.issueSecret(device.id, tx);
+
+      return { device, credential };
+    });
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.DEVICE_CREATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'Device',
+      resourceId: device.id,
+      description: `Created device: ${device.name}`,
+      details: { credentialType: credential.type },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: { ...device, credential } }, { status: 201 });
+  } catch (error) {
+    console.error('创建设备失败:', error);
+    return NextResponse.json({ error: '创建设备失败' }, { status: 500 });
+  }
+}
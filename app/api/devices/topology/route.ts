@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getAccessibleOrganizationIds } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { gatewayService } from '@/lib/gateway-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取设备拓扑树
+ * 指定rootId时返回以该设备为根的子树，否则返回所有网关及其子设备
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['device:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const rootId = url.searchParams.get('rootId');
+    const organizationId = url.searchParams.get('organizationId');
+
+    let organizationIds = await getAccessibleOrganizationIds(user);
+
+    if (organizationId) {
+      if (!(await canAccessOrganization(user, organizationId))) {
+        return NextResponse.json({ error: '无权查看此组织的设备' }, { status: 403 });
+      }
+      organizationIds = [organizationId];
+    }
+
+    if (rootId) {
+      const root = await deviceService.getDeviceById(rootId);
+      if (!root) {
+        return NextResponse.json({ error: '设备不存在' }, { status: 404 });
+      }
+      if (!(await canAccessOrganization(user, root.organizationId))) {
+        return NextResponse.json({ error: '无权查看此设备' }, { status: 403 });
+      }
+    }
+
+    const topology = await gatewayService.getTopology(organizationIds, rootId || undefined);
+
+    return NextResponse.json({ data: topology });
+  } catch (error) {
+    console.error('获取设备拓扑失败:', error);
+    return NextResponse.json({ error: '获取设备拓扑失败' }, { status: 500 });
+  }
+}
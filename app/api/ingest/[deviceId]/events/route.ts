@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestInfo } from '@/lib/api-middleware';
+import { deviceIngestService, IngestError } from '@/lib/device-ingest-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 设备通过HTTP事件上报
+ * 请求体：{ identifier, params?, timestamp? }，批量补传时为 { events: [...] } 或数组
+ * 返回：{ data: { received, anomalies: [{ index, violations }] } }
+ * 认证：Authorization: Bearer {设备访问令牌}，不接受用户令牌
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { deviceId: string } }
+) {
+  try {
+    const { ipAddress } = getRequestInfo(req);
+
+    await deviceIngestService.authenticate(params.deviceId, req.headers.get('authorization'), { ipAddress });
+    deviceIngestService.checkRateLimit(params.deviceId);
+
+    const body = await deviceIngestService.readBody(req);
+    const result = await deviceIngestService.ingestEvents(params.deviceId, body, { ipAddress });
+
+    return NextResponse.json({ data: result });
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined }
+      );
+    }
+    console.error('处理设备事件上报失败:', error);
+    return NextResponse.json({ error: '处理设备事件上报失败' }, { status: 500 });
+  }
+}
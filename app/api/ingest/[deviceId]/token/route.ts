@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getRequestInfo } from '@/lib/api-middleware';
+import { deviceCredentialService } from '@/lib/device-credential-service';
+import { deviceIngestService, IngestError } from '@/lib/device-ingest-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 令牌请求验证模式
+const tokenRequestSchema = z.object({
+  timestamp: z.union([z.number(), z.string()]),
+  sign: z.string().min(1, '签名不能为空'),
+});
+
+/**
+ * 设备以签名换取访问令牌
+ * 请求体：{ timestamp, sign }，sign = HMAC-SHA256(设备密钥, "deviceId={deviceId}&timestamp={timestamp}")
+ * 返回：{ data: { token, expiresIn } }
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { deviceId: string } }
+) {
+  try {
+    const { ipAddress } = getRequestInfo(req);
+
+    // 签名认证失败次数单独限制，防止暴力尝试，且不影响设备的上报频率
+    deviceIngestService.checkAuthFailures(params.deviceId);
+
+    const body = await deviceIngestService.readBody(req);
+
+    // 验证请求数据
+    const validationResult = tokenRequestSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const { timestamp, sign } = validationResult.data;
+    const valid = await deviceCredentialService.verifySignature(params.deviceId, timestamp, sign, {
+      protocol: 'HTTP',
+      ipAddress,
+    });
+    if (!valid) {
+      deviceIngestService.recordAuthFailure(params.deviceId);
+      return NextResponse.json({ error: '设备认证失败' }, { status: 401 });
+    }
+
+    const accessToken = await deviceCredentialService.issueAccessToken(params.deviceId);
+
+    return NextResponse.json({ data: accessToken });
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status, headers: error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : undefined }
+      );
+    }
+    console.error('签发设备访问令牌失败:', error);
+    return NextResponse.json({ error: '签发设备访问令牌失败' }, { status: 500 });
+  }
+}
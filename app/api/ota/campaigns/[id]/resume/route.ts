@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { otaService } from '@/lib/ota-service';
+
+// 恢复升级活动
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const campaign = await otaService.getCampaignById(params.id);
+    if (!campaign) {
+      return NextResponse.json({ error: '升级活动不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, campaign.organizationId))) {
+      return NextResponse.json({ error: '无权操作此升级活动' }, { status: 403 });
+    }
+
+    const actor = { userId: user.id, username: user.username, ...getRequestInfo(req) };
+    const updated = await otaService.resumeCampaign(campaign.id, actor);
+    if (!updated) {
+      return NextResponse.json({ error: '只有已暂停的升级活动可以恢复' }, { status: 409 });
+    }
+
+    return NextResponse.json({ data: updated });
+  } catch (error) {
+    console.error('恢复升级活动失败:', error);
+    return NextResponse.json({ error: '恢复升级活动失败' }, { status: 500 });
+  }
+}
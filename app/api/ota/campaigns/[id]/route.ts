@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { otaService } from '@/lib/ota-service';
+
+// 获取升级活动详情及统计
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const campaign = await otaService.getCampaignById(params.id);
+    if (!campaign) {
+      return NextResponse.json({ error: '升级活动不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, campaign.organizationId))) {
+      return NextResponse.json({ error: '无权查看此升级活动' }, { status: 403 });
+    }
+
+    const stats = await otaService.getCampaignStats(campaign);
+    const { filePath, ...firmware } = campaign.firmware;
+
+    return NextResponse.json({ data: { ...campaign, firmware, stats } });
+  } catch (error) {
+    console.error('获取升级活动详情失败:', error);
+    return NextResponse.json({ error: '获取升级活动详情失败' }, { status: 500 });
+  }
+}
+
+// 删除升级活动
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const campaign = await otaService.getCampaignById(params.id);
+    if (!campaign) {
+      return NextResponse.json({ error: '升级活动不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, campaign.organizationId))) {
+      return NextResponse.json({ error: '无权删除此升级活动' }, { status: 403 });
+    }
+
+    // 进行中或已暂停的活动须先取消
+    const deleted = await otaService.deleteCampaign(campaign.id, { userId: user.id, username: user.username, ...getRequestInfo(req) });
+    if (!deleted) {
+      return NextResponse.json({ error: '进行中或已暂停的升级活动须先取消才能删除' }, { status: 409 });
+    }
+
+    return NextResponse.json({ message: '升级活动已成功删除' });
+  } catch (error) {
+    console.error('删除升级活动失败:', error);
+    return NextResponse.json({ error: '删除升级活动失败' }, { status: 500 });
+  }
+}
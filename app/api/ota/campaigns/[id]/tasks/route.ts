@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OtaTaskStatus, Prisma } from '@prisma/client';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import prisma from '@/lib/db-prisma';
+import { otaService } from '@/lib/ota-service';
+
+// 获取升级活动的设备任务列表
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const campaign = await otaService.getCampaignById(params.id);
+    if (!campaign) {
+      return NextResponse.json({ error: '升级活动不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, campaign.organizationId))) {
+      return NextResponse.json({ error: '无权查看此升级活动' }, { status: 403 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const status = url.searchParams.get('status');
+    const stage = url.searchParams.get('stage');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '20') || 20));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const where: Prisma.OtaTaskWhereInput = { campaignId: campaign.id };
+
+    if (status) {
+      if (!Object.values(OtaTaskStatus).includes(status as OtaTaskStatus)) {
+        return NextResponse.json({ error: '无效的任务状态' }, { status: 400 });
+      }
+      where.status = status as OtaTaskStatus;
+    }
+
+    if (stage !== null && stage !== '') {
+      const stageIndex = parseInt(stage);
+      if (isNaN(stageIndex) || stageIndex < 0) {
+        return NextResponse.json({ error: '无效的发布批次' }, { status: 400 });
+      }
+      where.stage = stageIndex;
+    }
+
+    const [total, tasks] = await Promise.all([
+      prisma.otaTask.count({ where }),
+      prisma.otaTask.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: [{ stage: 'asc' }, { createdAt: 'asc' }],
+        include: {
+          device: {
+            select: {
+              id: true,
+              name: true,
+              alias: true,
+              status: true,
+            },
+          },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: tasks,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取升级任务列表失败:', error);
+    return NextResponse.json({ error: '获取升级任务列表失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OtaCampaignStatus, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { validateRequest, getAccessibleOrganizationIds, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import prisma from '@/lib/db-prisma';
+import { otaService } from '@/lib/ota-service';
+
+// 升级活动创建验证模式
+const createCampaignSchema = z.object({
+  name: z.string().min(1, '活动名称不能为空').max(100, '活动名称不能超过100个字符'),
+  description: z.string().max(500, '描述不能超过500个字符').optional().nullable(),
+  firmwareId: z.string().uuid('请输入有效的固件包ID'),
+  organizationId: z.string().uuid('请输入有效的组织ID'),
+  // 不指定时为组织内该设备类的全部设备
+  deviceIds: z.array(z.string().uuid('请输入有效的设备ID')).min(1, '目标设备不能为空').optional(),
+  // 分批发布的累计百分比，须严格递增且最后一批为100
+  rolloutStages: z.array(z.number().int().min(1).max(100))
+    .min(1, '发布批次不能为空')
+    .max(20, '发布批次不能超过20个')
+    .refine(stages => stages.every((percent, i) => i === 0 || percent > stages[i - 1]), '发布批次百分比须严格递增')
+    .refine(stages => stages[stages.length - 1] === 100, '最后一批须为100%')
+    .default([100]),
+  failureThreshold: z.number().min(0).max(1).optional(),
+});
+
+// 获取升级活动列表
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 获取查询参数
+    const url = new URL(req.url);
+    const organizationId = url.searchParams.get('organizationId');
+    const firmwareId = url.searchParams.get('firmwareId');
+    const status = url.searchParams.get('status');
+    const page = Math.max(1, parseInt(url.searchParams.get('page') || '1') || 1);
+    const pageSize = Math.min(100, Math.max(1, parseInt(url.searchParams.get('pageSize') || '10') || 10));
+    const skip = (page - 1) * pageSize;
+
+    // 构建查询条件
+    const where: Prisma.OtaCampaignWhereInput = {};
+
+    if (firmwareId) {
+      where.firmwareId = firmwareId;
+    }
+
+    if (status) {
+      if (!Object.values(OtaCampaignStatus).includes(status as OtaCampaignStatus)) {
+        return NextResponse.json({ error: '无效的活动状态' }, { status: 400 });
+      }
+      where.status = status as OtaCampaignStatus;
+    }
+
+    // 非系统管理员只能查看自己所在组织及其子组织的升级活动
+    const allowedOrgIds = await getAccessibleOrganizationIds(user);
+    if (organizationId) {
+      if (allowedOrgIds && !allowedOrgIds.includes(organizationId)) {
+        return NextResponse.json({ error: '无权查看此组织的升级活动' }, { status: 403 });
+      }
+      where.organizationId = organizationId;
+    } else if (allowedOrgIds) {
+      where.organizationId = { in: allowedOrgIds };
+    }
+
+    const [total, campaigns] = await Promise.all([
+      prisma.otaCampaign.count({ where }),
+      prisma.otaCampaign.findMany({
+        where,
+        skip,
+        take: pageSize,
+        orderBy: { createdAt: 'desc' },
+        include: {
+          firmware: {
+            select: {
+              id: true,
+              version: true,
+              deviceClassId: true,
+            },
+          },
+          organization: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
+          _count: { select: { tasks: true } },
+        },
+      }),
+    ]);
+
+    return NextResponse.json({
+      data: campaigns,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    console.error('获取升级活动列表失败:', error);
+    return NextResponse.json({ error: '获取升级活动列表失败' }, { status: 500 });
+  }
+}
+
+// 创建升级活动
+export async function POST(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['ota:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = createCampaignSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const data = validationResult.data;
+
+    if (!(await canAccessOrganization(user, data.organizationId))) {
+      return NextResponse.json({ error: '无权为此组织创建升级活动' }, { status: 403 });
+    }
+
+    const firmware = await otaService.getFirmwareById(data.firmwareId);
+    if (!firmware) {
+      return NextResponse.json({ error: '固件包不存在' }, { status: 404 });
+    }
+
+    // 固件包须属于本组织或公开的设备类
+    if (!firmware.deviceClass.isPublic && firmware.deviceClass.organizationId !== data.organizationId) {
+      return NextResponse.json({ error: '固件包所属设备类不属于此组织' }, { status: 400 });
+    }
+
+    // 目标设备须为组织内固件包所属设备类的设备
+    const devices = await prisma.device.findMany({
+      where: {
+        organizationId: data.organizationId,
+        deviceClassId: firmware.deviceClassId,
+        ...(data.deviceIds ? { id: { in: data.deviceIds } } : {}),
+      },
+      select: { id: true },
+    });
+
+    if (data.deviceIds) {
+      const found = new Set(devices.map(device => device.id));
+      const invalid = data.deviceIds.filter(id => !found.has(id));
+      if (invalid.length > 0) {
+        return NextResponse.json(
+          { error: '部分设备不存在或不属于该固件包的设备类', deviceIds: invalid },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (devices.length === 0) {
+      return NextResponse.json({ error: '没有可升级的目标设备' }, { status: 400 });
+    }
+
+    const campaign = await otaService.createCampaign(
+      {
+        name: data.name,
+        description: data.description,
+        firmwareId: firmware.id,
+        organizationId: data.organizationId,
+        deviceIds: devices.map(device => device.id),
+        rolloutStages: data.rolloutStages,
+        failureThreshold: data.failureThreshold,
+      },
+      { userId: user.id, username: user.username, ...getRequestInfo(req) }
+    );
+
+    return NextResponse.json({ data: campaign }, { status: 201 });
+  } catch (error) {
+    console.error('创建升级活动失败:', error);
+    return NextResponse.json({ error: '创建升级活动失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { otaService } from '@/lib/ota-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 设备下载固件包
+ * 使用升级通知中的签名令牌鉴权，支持Range请求以便断点续传
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const token = new URL(req.url).searchParams.get('token');
+    const firmware = await otaService.getDownloadFirmware(params.id, token);
+    if (!firmware) {
+      return NextResponse.json({ error: '下载地址无效或已过期' }, { status: 403 });
+    }
+
+    let size: number;
+    try {
+      size = (await fs.stat(firmware.filePath)).size;
+    } catch {
+      return NextResponse.json({ error: '固件文件不存在' }, { status: 404 });
+    }
+
+    await otaService.markDownloading(params.id);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/octet-stream',
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(firmware.fileName)}"`,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-store',
+      ETag: `"${firmware.checksum}"`,
+    };
+
+    // 续传时文件已变化则返回完整内容
+    const ifRange = req.headers.get('if-range');
+    const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get('range') || '');
+    if (!range || (!range[1] && !range[2]) || (ifRange && ifRange !== headers.ETag)) {
+      const stream = createReadStream(firmware.filePath);
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+        headers: { ...headers, 'Content-Length': String(size) },
+      });
+    }
+
+    // bytes=-N 表示最后N个字节
+    const start = range[1] ? parseInt(range[1], 10) : Math.max(size - parseInt(range[2], 10), 0);
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+    if (start >= size || start > end) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const stream = createReadStream(firmware.filePath, { start, end });
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        'Content-Range': `bytes ${start}-${end}/${size}`,
+      },
+    });
+  } catch (error) {
+    console.error('下载固件包失败:', error);
+    return NextResponse.json({ error: '下载固件包失败' }, { status: 500 });
+  }
+}
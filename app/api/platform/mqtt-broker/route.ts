@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, getAccessibleOrganizationIds } from '@/lib/api-middleware';
+import { mqttBrokerService } from '@/lib/mqtt-broker-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 获取内置MQTT Broker状态及各客户端收发统计
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:read']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 非系统管理员只能查看自己所在组织及其子组织的设备客户端
+    const allowedOrgIds = await getAccessibleOrganizationIds(user);
+    const clients = mqttBrokerService.getClientStats().filter(client =>
+      !allowedOrgIds || (client.organizationId !== null && allowedOrgIds.includes(client.organizationId))
+    );
+
+    const totals = clients.reduce(
+      (sum, client) => ({
+        messagesReceived: sum.messagesReceived + client.messagesReceived,
+        messagesSent: sum.messagesSent + client.messagesSent,
+        bytesReceived: sum.bytesReceived + client.bytesReceived,
+        bytesSent: sum.bytesSent + client.bytesSent,
+      }),
+      { messagesReceived: 0, messagesSent: 0, bytesReceived: 0, bytesSent: 0 }
+    );
+
+    return NextResponse.json({
+      data: {
+        running: mqttBrokerService.isRunning(),
+        port: mqttBrokerService.getPort(),
+        clientCount: clients.length,
+        totals,
+        clients,
+      },
+    });
+  } catch (error) {
+    console.error('获取MQTT Broker状态失败:', error);
+    return NextResponse.json({ error: '获取MQTT Broker状态失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import { deviceSimulatorService, faultSchema, SimulatorError } from '@/lib/device-simulator-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 向模拟会话注入故障
+ * 请求体：{ type: disconnect | malformed | heartbeat_loss, deviceIds?, ratio?, duration?, count? }
+ * 返回受影响的设备ID
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:update']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const simulation = deviceSimulatorService.getSimulation(params.id);
+    if (!simulation) {
+      return NextResponse.json({ error: '模拟会话不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, simulation.organizationId))) {
+      return NextResponse.json({ error: '无权操作此模拟会话' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = faultSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const fault = validationResult.data;
+    const deviceIds = deviceSimulatorService.injectFault(params.id, fault);
+    if (!deviceIds) {
+      return NextResponse.json({ error: '模拟会话不存在' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: { type: fault.type, deviceIds } });
+  } catch (error) {
+    if (error instanceof SimulatorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('注入模拟故障失败:', error);
+    return NextResponse.json({ error: '注入模拟故障失败' }, { status: 500 });
+  }
+}
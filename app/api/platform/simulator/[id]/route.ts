@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getRequestInfo } from '@/lib/api-middleware';
+import { deviceSimulatorService } from '@/lib/device-simulator-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 获取设备模拟会话及各模拟设备的状态
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:read']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const simulation = deviceSimulatorService.getSimulation(params.id);
+    if (!simulation) {
+      return NextResponse.json({ error: '模拟会话不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, simulation.organizationId))) {
+      return NextResponse.json({ error: '无权查看此模拟会话' }, { status: 403 });
+    }
+
+    return NextResponse.json({ data: simulation });
+  } catch (error) {
+    console.error('获取设备模拟会话失败:', error);
+    return NextResponse.json({ error: '获取设备模拟会话失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 停止设备模拟会话
+ * 查询参数 removeDevices=true 时同时删除模拟设备，否则保留供下次模拟复用
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:update']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const simulation = deviceSimulatorService.getSimulation(params.id);
+    if (!simulation) {
+      return NextResponse.json({ error: '模拟会话不存在' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, simulation.organizationId))) {
+      return NextResponse.json({ error: '无权停止此模拟会话' }, { status: 403 });
+    }
+
+    const removeDevices = new URL(req.url).searchParams.get('removeDevices') === 'true';
+    await deviceSimulatorService.stopSimulation(params.id, removeDevices);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.CONFIG_CHANGE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceSimulation',
+      resourceId: params.id,
+      description: `Stopped device simulation for device class: ${simulation.deviceClassName}`,
+      details: {
+        count: simulation.count,
+        removeDevices,
+        stats: simulation.stats,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ message: '模拟会话已成功停止' });
+  } catch (error) {
+    console.error('停止设备模拟会话失败:', error);
+    return NextResponse.json({ error: '停止设备模拟会话失败' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, getAccessibleOrganizationIds, getRequestInfo } from '@/lib/api-middleware';
+import deviceService from '@/lib/device-prisma';
+import { deviceSimulatorService, simulationSchema, SimulatorError } from '@/lib/device-simulator-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from '@/lib/audit-log-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 获取运行中的设备模拟会话
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:read']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 非系统管理员只能查看自己所在组织及其子组织的模拟会话
+    const allowedOrgIds = await getAccessibleOrganizationIds(user);
+    const simulations = deviceSimulatorService.getSimulations().filter(simulation =>
+      !allowedOrgIds || allowedOrgIds.includes(simulation.organizationId)
+    );
+
+    return NextResponse.json({
+      data: {
+        enabled: deviceSimulatorService.isEnabled(),
+        simulations,
+      },
+    });
+  } catch (error) {
+    console.error('获取设备模拟会话失败:', error);
+    return NextResponse.json({ error: '获取设备模拟会话失败' }, { status: 500 });
+  }
+}
+
+/**
+ * 启动设备模拟会话
+ * 请求体：{ deviceClassId, count, protocol?, organizationId?, interval?, target?: { host, port },
+ *          properties?: { [属性]: 波形 }, events?: [{ identifier, params, probability }], commands?: { delay, failureRate } }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['platform:update']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    if (!deviceSimulatorService.isEnabled()) {
+      return NextResponse.json({ error: '设备模拟器未启用' }, { status: 403 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = simulationSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const config = validationResult.data;
+    const deviceClass = await deviceService.getDeviceClassById(config.deviceClassId);
+    if (!deviceClass) {
+      return NextResponse.json({ error: '设备类不存在' }, { status: 404 });
+    }
+
+    // 模拟设备创建在设备类所属组织或指定组织下
+    const organizationId = config.organizationId || deviceClass.organizationId;
+    if (!(await canAccessOrganization(user, organizationId))) {
+      return NextResponse.json({ error: '无权在该组织下创建模拟设备' }, { status: 403 });
+    }
+
+    const simulation = await deviceSimulatorService.startSimulation(config);
+
+    await auditLogService.log({
+      userId: user.id,
+      username: user.username,
+      eventType: AuditEventType.CONFIG_CHANGE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'DeviceSimulation',
+      resourceId: simulation.id,
+      description: `Started device simulation for device class: ${deviceClass.name}`,
+      details: {
+        deviceClassId: deviceClass.id,
+        organizationId,
+        protocol: simulation.protocol,
+        count: simulation.count,
+        interval: simulation.interval,
+      },
+      ...getRequestInfo(req),
+    });
+
+    return NextResponse.json({ data: simulation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SimulatorError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('启动设备模拟会话失败:', error);
+    return NextResponse.json({ error: '启动设备模拟会话失败' }, { status: 500 });
+  }
+}
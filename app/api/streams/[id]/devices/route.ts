@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { validateRequest } from '@/lib/api-middleware';
+import { videoStreamService } from '@/lib/video-stream-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 联动设备验证模式
+const deviceLinksSchema = z.object({
+  deviceIds: z.array(z.string().uuid()).max(100),
+});
+
+/**
+ * 获取摄像头的联动设备（同组织全部设备及是否已联动）
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const devices = await videoStreamService.getDeviceLinks(params.id);
+
+    if (!devices) {
+      return NextResponse.json({ error: 'Video configuration not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(devices);
+  } catch (error) {
+    console.error('Error getting video device links:', error);
+    return NextResponse.json({ error: 'Failed to get video device links' }, { status: 500 });
+  }
+}
+
+/**
+ * 设置摄像头的联动设备，联动设备产生告警时视频墙自动弹出该摄像头
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const validationResult = deviceLinksSchema.safeParse(await req.json());
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    let deviceIds;
+    try {
+      deviceIds = await videoStreamService.setDeviceLinks(params.id, validationResult.data.deviceIds, user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid devices' },
+        { status: 400 }
+      );
+    }
+
+    if (!deviceIds) {
+      return NextResponse.json({ error: 'Video configuration not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ deviceIds });
+  } catch (error) {
+    console.error('Error updating video device links:', error);
+    return NextResponse.json({ error: 'Failed to update video device links' }, { status: 500 });
+  }
+}
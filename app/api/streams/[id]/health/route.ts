@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { streamHealthMonitor } from '@/lib/stream-health-monitor';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取视频流健康状态及检测记录
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const id = params.id;
+    const { searchParams } = new URL(req.url);
+    const startTime = searchParams.get('startTime');
+    const endTime = searchParams.get('endTime');
+    const limit = searchParams.get('limit');
+
+    const history = await streamHealthMonitor.getHistory(id, {
+      startTime: startTime ? new Date(startTime) : undefined,
+      endTime: endTime ? new Date(endTime) : undefined,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return NextResponse.json({
+      status: streamHealthMonitor.getStatus(id) || null,
+      history,
+    });
+  } catch (error) {
+    console.error('Error getting video health:', error);
+    return NextResponse.json({ error: 'Failed to get video health' }, { status: 500 });
+  }
+}
+
+/**
+ * 立即检测视频流健康状态
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const status = await streamHealthMonitor.checkStreamById(params.id);
+
+    if (!status) {
+      return NextResponse.json({ error: 'Video stream not found or disabled' }, { status: 404 });
+    }
+
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('Error checking video health:', error);
+    return NextResponse.json({ error: 'Failed to check video health' }, { status: 500 });
+  }
+}
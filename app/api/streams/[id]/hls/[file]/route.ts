@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import { streamHlsService } from '@/lib/stream-hls-service';
+import { streamTokenService } from '@/lib/stream-token-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PLAYLIST_CONTENT_TYPE = 'application/vnd.apple.mpegurl';
+
+/**
+ * 获取HLS播放列表和片段
+ * index.m3u8需携带由 /api/streams/{id}/play 签发的播放令牌（?token=），返回带会话ID的媒体播放列表地址；
+ * live.m3u8和片段凭会话ID（?sid=）访问
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; file: string } }
+) {
+  const { id, file } = params;
+  const searchParams = new URL(req.url).searchParams;
+
+  if (streamHlsService.isMasterPlaylist(file)) {
+    if (!streamTokenService.verify(searchParams.get('token'), id)) {
+      return NextResponse.json({ error: 'Invalid or expired playback token' }, { status: 401 });
+    }
+
+    return new NextResponse(streamHlsService.openSession(id), {
+      headers: {
+        'Content-Type': PLAYLIST_CONTENT_TYPE,
+        'Cache-Control': 'no-cache, no-store',
+      },
+    });
+  }
+
+  const sessionId = searchParams.get('sid');
+  if (!streamHlsService.touchSession(id, sessionId)) {
+    return NextResponse.json({ error: 'Invalid or expired HLS session' }, { status: 401 });
+  }
+
+  if (streamHlsService.isMediaPlaylist(file)) {
+    try {
+      const playlist = await streamHlsService.getMediaPlaylist(id, sessionId!);
+      return new NextResponse(playlist, {
+        headers: {
+          'Content-Type': PLAYLIST_CONTENT_TYPE,
+          'Cache-Control': 'no-cache, no-store',
+        },
+      });
+    } catch (error) {
+      console.error('Error getting HLS playlist:', error);
+      return NextResponse.json({ error: 'HLS stream is not available' }, { status: 503 });
+    }
+  }
+
+  try {
+    const segment = await streamHlsService.getSegmentFile(id, file);
+    if (!segment) {
+      return NextResponse.json({ error: 'HLS segment not found' }, { status: 404 });
+    }
+
+    const data = await fs.readFile(segment.filePath);
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': segment.contentType,
+        'Content-Length': String(data.length),
+        'Cache-Control': 'private, max-age=60',
+      },
+    });
+  } catch (error) {
+    // 片段可能在读取前已被滚动删除
+    console.error('Error reading HLS segment:', error);
+    return NextResponse.json({ error: 'HLS segment not found' }, { status: 404 });
+  }
+}
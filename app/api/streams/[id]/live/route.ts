@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamIngestService, LiveViewer } from '@/lib/stream-ingest-service';
+import { streamTokenService } from '@/lib/stream-token-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取HTTP-FLV直播流
+ * 摄像头流经接入网关转封装后在此输出；WS-FLV在独立端口（STREAM_WS_PORT）以同一路径提供
+ * 需携带由 /api/streams/{id}/play 签发的播放令牌（?token=）
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const id = params.id;
+
+  const token = new URL(req.url).searchParams.get('token');
+  if (!streamTokenService.verify(token, id)) {
+    return NextResponse.json({ error: 'Invalid or expired playback token' }, { status: 401 });
+  }
+
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+
+  const release = () => {
+    closed = true;
+    if (unsubscribe) {
+      unsubscribe();
+      unsubscribe = null;
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    start: async (controller) => {
+      const viewer: LiveViewer = {
+        id: streamIngestService.generateViewerId('http'),
+        write: (chunk) => {
+          if (!closed) {
+            controller.enqueue(new Uint8Array(chunk));
+          }
+        },
+        close: () => {
+          if (!closed) {
+            release();
+            controller.close();
+          }
+        },
+        // 客户端消费过慢时视为拥塞
+        isCongested: () => (controller.desiredSize ?? 0) < 0,
+      };
+
+      try {
+        unsubscribe = await streamIngestService.subscribe(id, viewer);
+        if (closed) {
+          release();
+        }
+      } catch (error) {
+        console.error('Error opening live stream:', error);
+        closed = true;
+        controller.error(error);
+      }
+    },
+    cancel: release,
+  }, { highWaterMark: 2 * 1024 * 1024, size: (chunk) => chunk?.byteLength ?? 0 });
+
+  req.signal.addEventListener('abort', release);
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': 'video/x-flv',
+      'Cache-Control': 'no-cache, no-store',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import { videoStreamService } from '@/lib/video-stream-service';
+import prisma from '@/lib/db-prisma';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取视频播放地址
+ * 签发短期有效的播放令牌，返回接入网关的直播地址；
+ * 传入recordingId时签发该录像片段的录像令牌，返回录像播放地址
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 只为用户可访问组织的视频流签发播放令牌
+    const videoConfig = await prisma.videoConfig.findUnique({
+      where: { id: params.id },
+      select: { organizationId: true },
+    });
+
+    if (!videoConfig) {
+      return NextResponse.json({ error: 'Video stream not found or disabled' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, videoConfig.organizationId))) {
+      return NextResponse.json({ error: 'No permission to access this video stream' }, { status: 403 });
+    }
+
+    const requestInfo = {
+      ipAddress: req.headers.get('x-forwarded-for') || req.headers.get('x-real-ip') || undefined,
+      userAgent: req.headers.get('user-agent') || undefined,
+    };
+
+    const recordingId = new URL(req.url).searchParams.get('recordingId');
+    if (recordingId) {
+      const recordingPlayback = await videoStreamService.getRecordingPlayback(params.id, recordingId, user.id, requestInfo);
+      if (!recordingPlayback) {
+        return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+      }
+
+      return NextResponse.json(recordingPlayback, {
+        headers: { 'Cache-Control': 'no-store' },
+      });
+    }
+
+    const streamConfig = await videoStreamService.getStreamConfig(params.id, user.id, requestInfo);
+
+    if (!streamConfig) {
+      return NextResponse.json({ error: 'Video stream not found or disabled' }, { status: 404 });
+    }
+
+    return NextResponse.json(streamConfig, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    console.error('Error getting playback url:', error);
+    return NextResponse.json({ error: 'Failed to get playback url' }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { onvifPtzService } from '@/lib/onvif-ptz-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 检测摄像头云台能力并保存到视频配置
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:control']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    let capabilities;
+    try {
+      capabilities = await onvifPtzService.discover(params.id, user.id);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'ONVIF request failed' },
+        { status: 502 }
+      );
+    }
+
+    if (capabilities === null) {
+      return NextResponse.json({ capabilities: null, message: 'No PTZ capability detected' });
+    }
+
+    return NextResponse.json({ capabilities });
+  } catch (error) {
+    console.error('Error discovering PTZ capabilities:', error);
+    return NextResponse.json({ error: 'Failed to discover PTZ capabilities' }, { status: 500 });
+  }
+}
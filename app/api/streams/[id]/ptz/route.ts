@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { onvifPtzService, PtzCommand } from '@/lib/onvif-ptz-service';
+import prisma from '@/lib/db-prisma';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取云台能力和预置位列表
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const videoConfig = await prisma.videoConfig.findUnique({
+      where: { id: params.id },
+      select: { organizationId: true, onvifUrl: true, ptzCapabilities: true },
+    });
+
+    if (!videoConfig) {
+      return NextResponse.json({ error: 'Video configuration not found' }, { status: 404 });
+    }
+
+    if (!(await canAccessOrganization(user, videoConfig.organizationId))) {
+      return NextResponse.json({ error: 'No permission to access this video stream' }, { status: 403 });
+    }
+
+    let presets = null;
+    if (videoConfig.ptzCapabilities) {
+      try {
+        presets = await onvifPtzService.getPresets(params.id);
+      } catch (error) {
+        // 预置位获取失败时仍返回云台能力，控制面板仍可使用
+        console.warn('Error getting PTZ presets:', error);
+      }
+    }
+
+    return NextResponse.json({
+      onvifUrl: videoConfig.onvifUrl,
+      capabilities: videoConfig.ptzCapabilities,
+      presets: presets || [],
+    });
+  } catch (error) {
+    console.error('Error getting PTZ info:', error);
+    return NextResponse.json({ error: 'Failed to get PTZ info' }, { status: 500 });
+  }
+}
+
+/**
+ * 执行云台操作（移动、变倍、停止、调用/保存预置位）
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:control']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const command: PtzCommand = await req.json();
+    const validationError = onvifPtzService.validateCommand(command);
+
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    let result;
+    try {
+      result = await onvifPtzService.control(params.id, command, user.id);
+    } catch (error) {
+      // 摄像头返回错误或无法连接
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'PTZ request failed' },
+        { status: 502 }
+      );
+    }
+
+    if (!result) {
+      return NextResponse.json({ error: 'PTZ is not available for this video stream' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error controlling PTZ:', error);
+    return NextResponse.json({ error: 'Failed to control PTZ' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { streamRecordingService } from '@/lib/stream-recording-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取录像计划
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const plan = await streamRecordingService.getPlan(params.id);
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error getting recording plan:', error);
+    return NextResponse.json({ error: 'Failed to get recording plan' }, { status: 500 });
+  }
+}
+
+/**
+ * 保存录像计划
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const id = params.id;
+    const data = await req.json();
+
+    const validationError = streamRecordingService.validatePlan(data);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const plan = await streamRecordingService.savePlan(id, data);
+    return NextResponse.json(plan);
+  } catch (error) {
+    console.error('Error saving recording plan:', error);
+    return NextResponse.json({ error: 'Failed to save recording plan' }, { status: 500 });
+  }
+}
+
+/**
+ * 删除录像计划并停止录像
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const deleted = await streamRecordingService.deletePlan(params.id);
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Recording plan not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting recording plan:', error);
+    return NextResponse.json({ error: 'Failed to delete recording plan' }, { status: 500 });
+  }
+}
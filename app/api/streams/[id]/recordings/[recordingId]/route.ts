@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createReadStream, promises as fs } from 'fs';
+import { Readable } from 'stream';
+import { streamRecordingService } from '@/lib/stream-recording-service';
+import { streamTokenService } from '@/lib/stream-token-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 播放录像片段
+ * 需携带由 /api/streams/{id}/play?recordingId= 签发的录像令牌（?token=），令牌绑定视频配置和录像片段；
+ * 支持Range请求，便于浏览器拖动进度
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; recordingId: string } }
+) {
+  if (!streamTokenService.verify(new URL(req.url).searchParams.get('token'), params.id, params.recordingId)) {
+    return NextResponse.json({ error: 'Invalid or expired playback token' }, { status: 401 });
+  }
+
+  try {
+    const file = await streamRecordingService.getRecordingFile(params.id, params.recordingId);
+    if (!file) {
+      return NextResponse.json({ error: 'Recording not found' }, { status: 404 });
+    }
+
+    let size: number;
+    try {
+      size = (await fs.stat(file.filePath)).size;
+    } catch {
+      return NextResponse.json({ error: 'Recording file not found' }, { status: 404 });
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'video/mp4',
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, max-age=3600',
+    };
+
+    const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.get('range') || '');
+    if (!range || (!range[1] && !range[2])) {
+      const stream = createReadStream(file.filePath);
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+        headers: { ...headers, 'Content-Length': String(size) },
+      });
+    }
+
+    // bytes=-N 表示最后N个字节
+    const start = range[1] ? parseInt(range[1], 10) : Math.max(size - parseInt(range[2], 10), 0);
+    const end = range[1] && range[2] ? Math.min(parseInt(range[2], 10), size - 1) : size - 1;
+
+    if (start >= size || start > end) {
+      return new NextResponse(null, {
+        status: 416,
+        headers: { 'Content-Range': `bytes */${size}` },
+      });
+    }
+
+    const stream = createReadStream(file.filePath, { start, end });
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      status: 206,
+      headers: {
+        ...headers,
+        'Content-Length': String(end - start + 1),
+        'Content-Range': `bytes ${start}-${end}/${size}`,
+      },
+    });
+  } catch (error) {
+    console.error('Error streaming recording:', error);
+    return NextResponse.json({ error: 'Failed to stream recording' }, { status: 500 });
+  }
+}
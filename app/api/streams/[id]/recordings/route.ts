@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { streamRecordingService } from '@/lib/stream-recording-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 按时间范围获取录像片段
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const id = params.id;
+    const { searchParams } = new URL(req.url);
+    const startTime = searchParams.get('startTime');
+    const endTime = searchParams.get('endTime');
+    const limit = searchParams.get('limit');
+
+    const start = startTime ? new Date(startTime) : undefined;
+    const end = endTime ? new Date(endTime) : undefined;
+    if ((start && isNaN(start.getTime())) || (end && isNaN(end.getTime()))) {
+      return NextResponse.json({ error: 'Invalid time range' }, { status: 400 });
+    }
+
+    const recordings = await streamRecordingService.getRecordings(id, {
+      startTime: start,
+      endTime: end,
+      limit: limit ? parseInt(limit, 10) : undefined,
+    });
+
+    return NextResponse.json({
+      recording: streamRecordingService.getRecorder(id) || null,
+      recordings,
+    });
+  } catch (error) {
+    console.error('Error getting recordings:', error);
+    return NextResponse.json({ error: 'Failed to get recordings' }, { status: 500 });
+  }
+}
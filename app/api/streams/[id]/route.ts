@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
 import { videoStreamService } from '@/lib/video-stream-service';
 import { StreamType } from '@prisma/client';
 
@@ -10,7 +11,18 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
     const id = params.id;
+    const accessError = await checkVideoConfigAccess(user, id);
+    if (accessError) {
+      return accessError;
+    }
+
     const videoConfig = await videoStreamService.getVideoConfig(id);
     return NextResponse.json(videoConfig);
   } catch (error) {
@@ -27,7 +39,18 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
     const id = params.id;
+    const accessError = await checkVideoConfigAccess(user, id);
+    if (accessError) {
+      return accessError;
+    }
+
     const data = await req.json();
     
     // 验证必填字段
@@ -46,8 +69,7 @@ export async function PUT(
       return NextResponse.json({ error: testResult.message }, { status: 400 });
     }
 
-    const userId = 'system'; // 应该从session中获取，这里简化处理
-    const videoConfig = await videoStreamService.updateVideoConfig(id, data, userId);
+    const videoConfig = await videoStreamService.updateVideoConfig(id, data, user.id);
     return NextResponse.json(videoConfig);
   } catch (error) {
     console.error('Error updating video config:', error);
@@ -63,9 +85,19 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
     const id = params.id;
-    const userId = 'system'; // 应该从session中获取，这里简化处理
-    await videoStreamService.deleteVideoConfig(id, userId);
+    const accessError = await checkVideoConfigAccess(user, id);
+    if (accessError) {
+      return accessError;
+    }
+
+    await videoStreamService.deleteVideoConfig(id, user.id);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Error deleting video config:', error);
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { promises as fs } from 'fs';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { streamSnapshotService } from '@/lib/stream-snapshot-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取截图图片
+ * 用作视频封面，截图生成后内容不再变化；需带认证令牌读取
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string; snapshotId: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const file = await streamSnapshotService.getSnapshotFile(params.id, params.snapshotId);
+    if (!file) {
+      return NextResponse.json({ error: 'Snapshot not found' }, { status: 404 });
+    }
+
+    let image: Buffer;
+    try {
+      image = await fs.readFile(file.filePath);
+    } catch {
+      return NextResponse.json({ error: 'Snapshot file not found' }, { status: 404 });
+    }
+
+    return new NextResponse(new Uint8Array(image), {
+      headers: {
+        'Content-Type': 'image/jpeg',
+        'Content-Length': String(image.length),
+        'Cache-Control': 'private, max-age=86400, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Error getting snapshot:', error);
+    return NextResponse.json({ error: 'Failed to get snapshot' }, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
+import { streamSnapshotService } from '@/lib/stream-snapshot-service';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取视频截图记录
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const { searchParams } = new URL(req.url);
+    const limit = searchParams.get('limit');
+
+    const snapshots = await streamSnapshotService.getSnapshots(params.id, limit ? parseInt(limit, 10) : undefined);
+
+    return NextResponse.json(snapshots.map((snapshot) => ({
+      ...snapshot,
+      url: streamSnapshotService.getSnapshotUrl(params.id, snapshot.id),
+    })));
+  } catch (error) {
+    console.error('Error getting snapshots:', error);
+    return NextResponse.json({ error: 'Failed to get snapshots' }, { status: 500 });
+  }
+}
+
+/**
+ * 服务端截取视频流当前画面
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const accessError = await checkVideoConfigAccess(user, params.id);
+    if (accessError) {
+      return accessError;
+    }
+
+    const snapshot = await streamSnapshotService.capture(params.id, user.id);
+
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Video stream not found or disabled' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      ...snapshot,
+      url: streamSnapshotService.getSnapshotUrl(params.id, snapshot.id),
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error capturing snapshot:', error);
+    return NextResponse.json({ error: 'Failed to capture snapshot' }, { status: 500 });
+  }
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, checkVideoConfigAccess } from '@/lib/api-middleware';
 import { videoStreamService } from '@/lib/video-stream-service';
 
 /**
@@ -9,15 +10,25 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
     const id = params.id;
+    const accessError = await checkVideoConfigAccess(user, id);
+    if (accessError) {
+      return accessError;
+    }
+
     const data = await req.json();
     
     if (data.status === undefined) {
       return NextResponse.json({ error: 'Status is required' }, { status: 400 });
     }
 
-    const userId = 'system'; // 应该从session中获取，这里简化处理
-    const videoConfig = await videoStreamService.updateVideoStatus(id, data.status, userId);
+    const videoConfig = await videoStreamService.updateVideoStatus(id, data.status, user.id);
     return NextResponse.json(videoConfig);
   } catch (error) {
     console.error('Error updating video status:', error);
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
+import { streamHealthMonitor } from '@/lib/stream-health-monitor';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * 获取组织下所有视频流的健康状态
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const organizationId = searchParams.get('organizationId');
+
+    if (!organizationId) {
+      return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
+    }
+
+    if (!(await canAccessOrganization(user, organizationId))) {
+      return NextResponse.json({ error: 'No permission to access this organization' }, { status: 403 });
+    }
+
+    return NextResponse.json(streamHealthMonitor.getStatuses(organizationId));
+  } catch (error) {
+    console.error('Error getting video health statuses:', error);
+    return NextResponse.json({ error: 'Failed to get video health statuses' }, { status: 500 });
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import prisma from '@/lib/db-prisma';
+import { validateRequest } from '@/lib/api-middleware';
+
+// 视频墙布局保存在用户偏好的大屏布局配置中，使用独立的键避免覆盖其他大屏配置
+const LAYOUT_KEY = 'videoWall';
+
+// 布局验证模式
+const layoutSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().min(1, '布局名称不能为空').max(50, '布局名称不能超过50个字符'),
+  mode: z.enum(['1', '4', '9', '16', '25', '1+5', '1+7']),
+  // 每个格子固定显示的视频配置ID，null表示由轮巡自动填充
+  tiles: z.array(z.string().uuid().nullable()).max(25),
+  tour: z.object({
+    enabled: z.boolean(),
+    interval: z.number().int().min(5, '轮巡间隔不能少于5秒').max(3600, '轮巡间隔不能超过3600秒'),
+  }),
+});
+
+// 视频墙布局配置验证模式
+const videoWallSchema = z.object({
+  layouts: z.array(layoutSchema).max(20, '最多保存20个布局'),
+  activeLayoutId: z.string().nullable(),
+});
+
+/**
+ * 读取用户的视频墙布局配置
+ * @param userId 用户ID
+ */
+async function getVideoWall(userId: string) {
+  const preference = await prisma.userPreference.findUnique({
+    where: { userId },
+    select: { dashboardLayout: true },
+  });
+
+  const dashboardLayout = (preference?.dashboardLayout || {}) as Record<string, unknown>;
+  const parsed = videoWallSchema.safeParse(dashboardLayout[LAYOUT_KEY]);
+
+  return {
+    dashboardLayout,
+    videoWall: parsed.success ? parsed.data : { layouts: [], activeLayoutId: null },
+  };
+}
+
+// 获取当前用户保存的视频墙布局
+export async function GET(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    const { videoWall } = await getVideoWall(user.id);
+
+    return NextResponse.json({ data: videoWall });
+  } catch (error) {
+    console.error('获取视频墙布局失败:', error);
+    return NextResponse.json({ error: '获取视频墙布局失败' }, { status: 500 });
+  }
+}
+
+// 保存当前用户的视频墙布局
+export async function PUT(req: NextRequest) {
+  try {
+    const { isAuthorized, user, error } = await validateRequest(req, ['video:view']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
+    // 解析请求体
+    const body = await req.json();
+
+    // 验证请求数据
+    const validationResult = videoWallSchema.safeParse(body);
+    if (!validationResult.success) {
+      return NextResponse.json({ error: validationResult.error.errors }, { status: 400 });
+    }
+
+    const videoWall = validationResult.data;
+    if (videoWall.activeLayoutId && !videoWall.layouts.some((layout) => layout.id === videoWall.activeLayoutId)) {
+      return NextResponse.json({ error: '当前布局不存在' }, { status: 400 });
+    }
+
+    const { dashboardLayout } = await getVideoWall(user.id);
+    const data = { ...dashboardLayout, [LAYOUT_KEY]: videoWall } as Prisma.InputJsonObject;
+
+    await prisma.userPreference.upsert({
+      where: { userId: user.id },
+      update: { dashboardLayout: data },
+      create: { userId: user.id, dashboardLayout: data },
+    });
+
+    return NextResponse.json({ data: videoWall });
+  } catch (error) {
+    console.error('保存视频墙布局失败:', error);
+    return NextResponse.json({ error: '保存视频墙布局失败' }, { status: 500 });
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/app/api/auth/[...nextauth]/route';
+import { validateRequest, canAccessOrganization } from '@/lib/api-middleware';
 import { videoStreamService } from '@/lib/video-stream-service';
 import { StreamType } from '@prisma/client';
 
 /**
  * 获取视频流配置列表
+ * 默认不返回摄像头源地址；配置管理时传入 includeSource=true，需具备视频配置管理权限及该组织的访问权限
  */
 export async function GET(req: NextRequest) {
   try {
@@ -21,7 +23,18 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: 'Organization ID is required' }, { status: 400 });
     }
 
-    const videoConfigs = await videoStreamService.getVideoConfigs(organizationId);
+    const includeSource = searchParams.get('includeSource') === 'true';
+    if (includeSource) {
+      const { isAuthorized, user, error } = await validateRequest(req, ['video:manage']);
+      if (!isAuthorized) {
+        return NextResponse.json({ error }, { status: 401 });
+      }
+      if (!(await canAccessOrganization(user, organizationId))) {
+        return NextResponse.json({ error: 'No permission to access this organization' }, { status: 403 });
+      }
+    }
+
+    const videoConfigs = await videoStreamService.getVideoConfigs(organizationId, includeSource);
     return NextResponse.json(videoConfigs);
   } catch (error) {
     console.error('Error getting video configs:', error);
@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateRequest } from '@/lib/api-middleware';
 import { videoStreamService } from '@/lib/video-stream-service';
 import { StreamType } from '@prisma/client';
 
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
 /**
  * 测试视频流地址
+ * 实际连接视频流，返回编码、分辨率、帧率、音频和首帧耗时等探测信息
  */
 export async function POST(req: NextRequest) {
   try {
+    // 测试会由服务端连接任意地址，仅允许视频配置管理员使用
+    const { isAuthorized, error } = await validateRequest(req, ['video:manage']);
+
+    if (!isAuthorized) {
+      return NextResponse.json({ error }, { status: 401 });
+    }
+
     const data = await req.json();
     
     if (!data.url || !data.type) {
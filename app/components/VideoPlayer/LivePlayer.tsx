@@ -0,0 +1,33 @@
+'use client';
+
+import { usePlaybackUrl } from './hooks';
+import { VideoPlayerProps } from './types';
+import VideoPlayer from './VideoPlayer';
+
+interface LivePlayerProps extends Omit<VideoPlayerProps, 'url' | 'type' | 'hlsUrl'> {
+  videoConfigId: string;
+}
+
+/**
+ * 实时视频组件
+ * 向服务端获取带播放令牌的接入网关地址后播放，浏览器不接触摄像头源地址
+ * EasyPlayer-pro无法播放时回退到接入网关的HLS输出
+ */
+const LivePlayer = ({ videoConfigId, ...playerProps }: LivePlayerProps) => {
+  const { playback, error } = usePlaybackUrl(videoConfigId);
+
+  if (!playback) {
+    return (
+      <div
+        className="flex items-center justify-center bg-black text-sm text-gray-400"
+        style={{ width: playerProps.width ?? '100%', height: playerProps.height ?? '100%' }}
+      >
+        {error ? `无法获取播放地址: ${error}` : '加载中...'}
+      </div>
+    );
+  }
+
+  return <VideoPlayer url={playback.url} type={playback.type} hlsUrl={playback.hlsUrl} {...playerProps} />;
+};
+
+export default LivePlayer;
@@ -0,0 +1,142 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { usePtzControl } from './hooks';
+import { PtzCapabilities } from './types';
+
+// 默认云台速度
+const SPEED = 0.5;
+
+// 八个方向按钮：[名称, 水平速度方向, 垂直速度方向]
+const DIRECTIONS: Array<[string, number, number] | null> = [
+  ['↖', -1, 1], ['↑', 0, 1], ['↗', 1, 1],
+  ['←', -1, 0], null, ['→', 1, 0],
+  ['↙', -1, -1], ['↓', 0, -1], ['↘', 1, -1],
+];
+
+interface PtzControlProps {
+  videoConfigId: string;
+  capabilities: PtzCapabilities;
+}
+
+/**
+ * 云台控制组件
+ * 叠加在实时画面上，按住方向键或变倍键时转动，松开后停止；支持调用和保存预置位
+ */
+const PtzControl = ({ videoConfigId, capabilities }: PtzControlProps) => {
+  const { send, presets, error } = usePtzControl(videoConfigId);
+  const moving = useRef(false);
+  const [showPresets, setShowPresets] = useState(false);
+  const [presetName, setPresetName] = useState('');
+
+  const start = (command: { action: 'move' | 'zoom'; pan?: number; tilt?: number; zoom?: number }) => {
+    moving.current = true;
+    send(command);
+  };
+
+  const stop = () => {
+    if (!moving.current) return;
+    moving.current = false;
+    send({ action: 'stop' });
+  };
+
+  // 按下开始转动，松开或移出按钮时停止
+  const holdHandlers = (command: { action: 'move' | 'zoom'; pan?: number; tilt?: number; zoom?: number }) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      e.preventDefault();
+      start(command);
+    },
+    onPointerUp: stop,
+    onPointerLeave: stop,
+    onPointerCancel: stop,
+  });
+
+  const savePreset = async () => {
+    if (!presetName.trim()) return;
+    if (await send({ action: 'savePreset', presetName: presetName.trim() })) {
+      setPresetName('');
+    }
+  };
+
+  const buttonClass = 'w-8 h-8 flex items-center justify-center rounded bg-black/50 text-white hover:bg-black/70 select-none touch-none';
+
+  return (
+    <div className="absolute right-3 bottom-3 flex flex-col items-end space-y-2">
+      {showPresets && capabilities.presets && (
+        <div className="bg-black/70 text-white text-sm rounded p-2 w-48">
+          <div className="max-h-40 overflow-y-auto space-y-1">
+            {presets.length === 0 && <div className="text-gray-300">暂无预置位</div>}
+            {presets.map((preset) => (
+              <button
+                key={preset.token}
+                onClick={() => send({ action: 'gotoPreset', presetToken: preset.token })}
+                className="block w-full text-left px-2 py-1 rounded hover:bg-white/20 truncate"
+              >
+                {preset.name || preset.token}
+              </button>
+            ))}
+          </div>
+          <div className="flex mt-2 space-x-1">
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="预置位名称"
+              className="flex-1 min-w-0 px-2 py-1 rounded text-black"
+            />
+            <button onClick={savePreset} className="px-2 py-1 bg-blue-500 rounded">
+              保存
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="bg-red-600/80 text-white text-xs rounded px-2 py-1 max-w-xs">{error}</div>}
+
+      <div className="flex items-end space-x-2">
+        {(capabilities.pan || capabilities.tilt) && (
+          <div className="grid grid-cols-3 gap-1">
+            {DIRECTIONS.map((direction, index) =>
+              direction ? (
+                <button
+                  key={index}
+                  title="按住转动"
+                  className={buttonClass}
+                  {...holdHandlers({
+                    action: 'move',
+                    pan: capabilities.pan ? direction[1] * SPEED : 0,
+                    tilt: capabilities.tilt ? direction[2] * SPEED : 0,
+                  })}
+                >
+                  {direction[0]}
+                </button>
+              ) : (
+                <button
+                  key={index}
+                  title="预置位"
+                  disabled={!capabilities.presets}
+                  onClick={() => setShowPresets(!showPresets)}
+                  className={`${buttonClass} disabled:opacity-30`}
+                >
+                  ●
+                </button>
+              )
+            )}
+          </div>
+        )}
+
+        {capabilities.zoom && (
+          <div className="flex flex-col space-y-1">
+            <button title="放大" className={buttonClass} {...holdHandlers({ action: 'zoom', zoom: SPEED })}>
+              +
+            </button>
+            <button title="缩小" className={buttonClass} {...holdHandlers({ action: 'zoom', zoom: -SPEED })}>
+              −
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PtzControl;
@@ -0,0 +1,219 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { RecordingMode } from '@prisma/client';
+import { useRecordings, useRecordingUrl } from './hooks';
+import { VideoRecordingInfo } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 录像模式名称
+const MODE_LABELS: Record<RecordingMode, string> = {
+  [RecordingMode.CONTINUOUS]: '连续录像',
+  [RecordingMode.SCHEDULE]: '定时录像',
+  [RecordingMode.ALARM]: '告警录像',
+};
+
+interface RecordingPlayerProps {
+  videoConfigId: string;
+}
+
+/**
+ * 格式化为本地日期（yyyy-MM-dd）
+ */
+const formatDate = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * 格式化为本地时间（HH:mm:ss）
+ */
+const formatTime = (time: number) => new Date(time).toLocaleTimeString('zh-CN', { hour12: false });
+
+/**
+ * 录像回放组件
+ * 按天展示录像时间轴，拖动或点击时间轴定位播放，片段播放结束后自动续播下一段
+ */
+const RecordingPlayer = ({ videoConfigId }: RecordingPlayerProps) => {
+  const [day, setDay] = useState(() => formatDate(new Date()));
+  const dayStart = useMemo(() => new Date(`${day}T00:00:00`), [day]);
+  const dayEnd = useMemo(() => new Date(dayStart.getTime() + DAY_MS), [dayStart]);
+  const { recordings, recorder, loading, error, refresh } = useRecordings(videoConfigId, dayStart, dayEnd);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const pendingSeek = useRef(0);
+  const [current, setCurrent] = useState<VideoRecordingInfo | null>(null);
+  const [position, setPosition] = useState<number | null>(null);
+  const [dragValue, setDragValue] = useState<number | null>(null);
+  // 录像文件需凭录像令牌访问，切换片段时重新获取
+  const { url: currentUrl, error: urlError } = useRecordingUrl(videoConfigId, current?.id ?? null);
+
+  const segments = useMemo(() => recordings.map((recording) => ({
+    recording,
+    start: new Date(recording.startTime).getTime(),
+    end: new Date(recording.endTime).getTime(),
+  })), [recordings]);
+
+  const toPercent = (time: number) => Math.min(Math.max((time - dayStart.getTime()) / DAY_MS, 0), 1) * 100;
+
+  /**
+   * 定位到指定时间播放，该时间无录像时跳到之后最近的片段
+   */
+  const seekTo = (time: number) => {
+    const target = segments.find((segment) => time >= segment.start && time < segment.end)
+      || segments.find((segment) => segment.start >= time);
+    if (!target) {
+      return;
+    }
+
+    const playAt = Math.max(time, target.start);
+    const offset = (playAt - target.start) / 1000;
+    setPosition(playAt);
+
+    if (current?.id === target.recording.id && videoRef.current) {
+      videoRef.current.currentTime = offset;
+      videoRef.current.play().catch(() => undefined);
+    } else {
+      pendingSeek.current = offset;
+      setCurrent(target.recording);
+    }
+  };
+
+  const handleTimelineClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = timelineRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const ratio = (event.clientX - rect.left) / rect.width;
+    seekTo(dayStart.getTime() + ratio * DAY_MS);
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = pendingSeek.current;
+    video.play().catch(() => undefined);
+  };
+
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || !current || dragValue !== null) return;
+    setPosition(new Date(current.startTime).getTime() + video.currentTime * 1000);
+  };
+
+  const handleEnded = () => {
+    if (!current) return;
+    const index = recordings.findIndex((recording) => recording.id === current.id);
+    const next = recordings[index + 1];
+    if (next) {
+      pendingSeek.current = 0;
+      setCurrent(next);
+    }
+  };
+
+  const commitDrag = () => {
+    if (dragValue !== null) {
+      seekTo(dayStart.getTime() + dragValue);
+      setDragValue(null);
+    }
+  };
+
+  const changeDay = (value: string) => {
+    setDay(value);
+    setCurrent(null);
+    setPosition(null);
+  };
+
+  const scrubValue = dragValue ?? (position !== null ? position - dayStart.getTime() : 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="bg-black aspect-video flex items-center justify-center">
+        {current && currentUrl ? (
+          <video
+            ref={videoRef}
+            src={currentUrl}
+            className="w-full h-full"
+            controls
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={handleTimeUpdate}
+            onEnded={handleEnded}
+          />
+        ) : (
+          <div className="text-gray-400 text-sm">
+            {current ? (urlError || '加载中...') : segments.length > 0 ? '点击时间轴选择回放时间' : '当天无录像'}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <div className="flex items-center space-x-2">
+          <input
+            type="date"
+            value={day}
+            max={formatDate(new Date())}
+            onChange={(e) => e.target.value && changeDay(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md"
+          />
+          <button onClick={refresh} className="px-3 py-1 bg-gray-200 rounded">
+            刷新
+          </button>
+          {loading && <span className="text-gray-500">加载中...</span>}
+          {error && <span className="text-red-500">{error}</span>}
+        </div>
+        <div className="flex items-center space-x-3">
+          {recorder && (
+            <span className="text-red-600">● 录像中（{MODE_LABELS[recorder.mode]}）</span>
+          )}
+          <span className="text-gray-600">{position !== null ? formatTime(position) : '--:--:--'}</span>
+        </div>
+      </div>
+
+      {/* 时间轴 */}
+      <div>
+        <div
+          ref={timelineRef}
+          onClick={handleTimelineClick}
+          className="relative h-8 bg-gray-200 rounded cursor-pointer overflow-hidden"
+        >
+          {segments.map(({ recording, start, end }) => (
+            <div
+              key={recording.id}
+              className={`absolute top-0 bottom-0 ${recording.alarmId ? 'bg-red-500' : 'bg-blue-400'}`}
+              style={{ left: `${toPercent(start)}%`, width: `${Math.max(toPercent(end) - toPercent(start), 0.05)}%` }}
+              title={`${formatTime(start)} - ${formatTime(end)} ${MODE_LABELS[recording.mode]}`}
+            />
+          ))}
+          {position !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-black pointer-events-none"
+              style={{ left: `${toPercent(position)}%` }}
+            />
+          )}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={DAY_MS - 1000}
+          step={1000}
+          value={scrubValue}
+          onChange={(e) => setDragValue(Number(e.target.value))}
+          onPointerUp={commitDrag}
+          onKeyUp={commitDrag}
+          className="w-full"
+        />
+        <div className="flex justify-between text-xs text-gray-500">
+          {Array.from({ length: 13 }).map((_, index) => (
+            <span key={index}>{String(index * 2).padStart(2, '0')}:00</span>
+          ))}
+        </div>
+        <div className="flex space-x-4 text-xs text-gray-500 mt-1">
+          <span><span className="inline-block w-3 h-3 bg-blue-400 mr-1 align-middle" />录像</span>
+          <span><span className="inline-block w-3 h-3 bg-red-500 mr-1 align-middle" />告警录像</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
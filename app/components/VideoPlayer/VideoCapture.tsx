@@ -3,27 +3,35 @@
 import { useState, useRef } from 'react';
 import { StreamType } from '@prisma/client';
 import VideoPlayer from './VideoPlayer';
+import { useServerSnapshot, useSnapshotImages } from './hooks';
 
 interface VideoCaptureProps {
   url: string;
   type: StreamType;
+  // 视频配置ID，传入时支持服务端截图
+  videoConfigId?: string;
   width?: number | string;
   height?: number | string;
 }
 
 /**
  * 视频截图组件
- * 提供视频播放和截图功能
+ * 提供视频播放和截图功能，浏览器截图仅在本地，服务端截图会保存并更新视频封面
  */
 const VideoCapture = ({
   url,
   type,
+  videoConfigId,
   width = '100%',
   height = '360px',
 }: VideoCaptureProps) => {
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [capturing, setCapturing] = useState(false);
   const videoRef = useRef<HTMLDivElement>(null);
+  const serverSnapshot = useServerSnapshot(videoConfigId || null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  // 服务端截图需带认证读取，浏览器截图的dataURL原样显示
+  const capturedSrc = useSnapshotImages([capturedImage])[capturedImage ?? ''];
 
   // 截取视频画面
   const captureFrame = () => {
@@ -59,6 +67,7 @@ const VideoCapture = ({
       // 转换为图像数据URL
       const dataUrl = canvas.toDataURL('image/png');
       setCapturedImage(dataUrl);
+      setSavedAt(null);
     } catch (err) {
       console.error('Error capturing video frame:', err);
     } finally {
@@ -66,12 +75,21 @@ const VideoCapture = ({
     }
   };
 
+  // 服务端截图
+  const captureOnServer = async () => {
+    const snapshot = await serverSnapshot.capture();
+    if (snapshot) {
+      setCapturedImage(snapshot.url);
+      setSavedAt(snapshot.createdAt);
+    }
+  };
+
   // 下载截图
   const downloadImage = () => {
-    if (!capturedImage) return;
+    if (!capturedSrc) return;
     
     const link = document.createElement('a');
-    link.href = capturedImage;
+    link.href = capturedSrc;
     link.download = `video-capture-${new Date().getTime()}.png`;
     document.body.appendChild(link);
     link.click();
@@ -81,6 +99,7 @@ const VideoCapture = ({
   // 清除截图
   const clearCapture = () => {
     setCapturedImage(null);
+    setSavedAt(null);
   };
 
   return (
@@ -98,7 +117,19 @@ const VideoCapture = ({
             >
               {capturing ? '截图中...' : '截取画面'}
             </button>
+            {videoConfigId && (
+              <button
+                onClick={captureOnServer}
+                disabled={serverSnapshot.loading}
+                className="ml-2 px-4 py-2 bg-indigo-500 text-white rounded-md disabled:opacity-50"
+              >
+                {serverSnapshot.loading ? '保存中...' : '服务器截图'}
+              </button>
+            )}
           </div>
+          {serverSnapshot.error && (
+            <div className="text-center text-sm text-red-500 mt-1">{serverSnapshot.error}</div>
+          )}
         </div>
         
         <div>
@@ -106,9 +137,9 @@ const VideoCapture = ({
             className="bg-gray-100 flex items-center justify-center mb-2"
             style={{ width, height }}
           >
-            {capturedImage ? (
+            {capturedSrc ? (
               <img
-                src={capturedImage}
+                src={capturedSrc}
                 alt="Captured frame"
                 style={{ maxWidth: '100%', maxHeight: '100%' }}
               />
@@ -116,10 +147,15 @@ const VideoCapture = ({
               <div className="text-gray-500">尚未截取画面</div>
             )}
           </div>
+          {savedAt && (
+            <div className="text-center text-sm text-gray-500">
+              已保存到服务器并设为封面（{new Date(savedAt).toLocaleString()}）
+            </div>
+          )}
           <div className="flex justify-center space-x-2 mt-2">
             <button
               onClick={downloadImage}
-              disabled={!capturedImage}
+              disabled={!capturedSrc}
               className="px-4 py-2 bg-green-500 text-white rounded-md disabled:opacity-50"
             >
               下载截图
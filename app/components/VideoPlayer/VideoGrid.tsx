@@ -1,21 +1,131 @@
 'use client';
 
-import { useState } from 'react';
-import { useVideoConfigs } from './hooks';
-import VideoPlayer from './index';
+import { useEffect, useRef, useState } from 'react';
+import { VideoHealthState } from '@prisma/client';
+import { useDeviceAlarms, useSnapshotImages, useVideoConfigs, useVideoHealth, useVideoLayouts } from './hooks';
+import { LAYOUTS, LAYOUT_MODES } from './layouts';
+import { DeviceAlarmAlert, SavedVideoLayout, VideoConfigInfo, VideoLayoutMode } from './types';
+import LivePlayer from './LivePlayer';
+
+// 健康状态标签样式
+const HEALTH_BADGE: Record<VideoHealthState, { label: string; className: string }> = {
+  [VideoHealthState.UNKNOWN]: { label: '检测中', className: 'bg-gray-500' },
+  [VideoHealthState.ONLINE]: { label: '在线', className: 'bg-green-600' },
+  [VideoHealthState.DEGRADED]: { label: '降级', className: 'bg-yellow-500' },
+  [VideoHealthState.OFFLINE]: { label: '离线', className: 'bg-red-600' },
+};
+
+// 告警级别标签样式
+const ALARM_LEVEL_BADGE: Record<DeviceAlarmAlert['level'], { label: string; className: string }> = {
+  INFO: { label: '信息', className: 'bg-blue-600' },
+  WARNING: { label: '警告', className: 'bg-yellow-500' },
+  SEVERE: { label: '严重', className: 'bg-orange-600' },
+  FATAL: { label: '致命', className: 'bg-red-600' },
+};
+
+// 拖放数据类型
+const DRAG_TYPE = 'application/x-video-config';
+
+// 默认轮巡间隔（秒）
+const DEFAULT_TOUR_INTERVAL = 30;
 
 interface VideoGridProps {
   organizationId: string;
 }
 
+/**
+ * 调整固定格子数组长度以匹配布局格子数
+ */
+const resizeTiles = (tiles: Array<string | null>, count: number) =>
+  Array.from({ length: count }, (_, index) => tiles[index] ?? null);
+
 /**
  * 视频网格组件
- * 支持单屏、四宫格和九宫格展示
+ * 支持等分和非对称布局、拖放摄像头到格子、定时轮巡，布局可按用户保存并在刷新后恢复
+ * 拖入的摄像头固定在格子中，其余格子按页自动填充，轮巡时翻页
+ * 联动设备产生告警时，摄像头弹出到最前面的格子并高亮显示告警，确认告警后恢复原布局
  */
 const VideoGrid = ({ organizationId }: VideoGridProps) => {
   const { videoConfigs, loading, error } = useVideoConfigs(organizationId);
-  const [gridMode, setGridMode] = useState<1 | 4 | 9>(4); // 默认四宫格
+  const healthStatuses = useVideoHealth(organizationId);
+  const { videoWall, save: saveVideoWall, error: layoutError } = useVideoLayouts();
+  const { alarms, confirm: confirmAlarm, error: alarmError } = useDeviceAlarms(organizationId);
+
+  const [mode, setMode] = useState<VideoLayoutMode>('4'); // 默认四宫格
+  const [pinned, setPinned] = useState<Array<string | null>>(() => resizeTiles([], LAYOUTS['4'].tiles.length));
   const [currentPage, setCurrentPage] = useState(0);
+  const [tour, setTour] = useState({ enabled: false, interval: DEFAULT_TOUR_INTERVAL });
+  const [activeLayoutId, setActiveLayoutId] = useState<string | null>(null);
+  const [layoutName, setLayoutName] = useState('');
+  const restored = useRef(false);
+
+  const layout = LAYOUTS[mode];
+  const enabledVideos = videoConfigs.filter((video) => video.status); // 只显示启用的视频
+  const videoMap = new Map(enabledVideos.map((video) => [video.id, video]));
+  const covers = useSnapshotImages(enabledVideos.map((video) => video.cover));
+
+  // 告警联动的摄像头按告警先后（最新在前）依次占用前面的格子，不改变固定的摄像头
+  const alarmVideos: Array<{ alarm: DeviceAlarmAlert; video: VideoConfigInfo }> = [];
+  for (const alarm of alarms) {
+    for (const id of alarm.videoConfigIds) {
+      const video = videoMap.get(id);
+      if (video && !alarmVideos.some((item) => item.video.id === id)) {
+        alarmVideos.push({ alarm, video });
+      }
+    }
+  }
+  const alarmTiles = alarmVideos.slice(0, pinned.length);
+  const alarmVideoIds = new Set(alarmTiles.map((item) => item.video.id));
+
+  // 未固定的格子按页自动填充其余摄像头
+  const pinnedIds = new Set(pinned.filter((id): id is string => !!id && videoMap.has(id)));
+  const autoVideos = enabledVideos.filter((video) => !pinnedIds.has(video.id) && !alarmVideoIds.has(video.id));
+  const autoSlots = pinned.filter((id, index) => index >= alarmTiles.length && (!id || !videoMap.has(id))).length;
+  const totalPages = autoSlots > 0 ? Math.max(1, Math.ceil(autoVideos.length / autoSlots)) : 1;
+  const page = Math.min(currentPage, totalPages - 1);
+
+  let autoIndex = page * autoSlots;
+  const tileVideos: Array<{ video: VideoConfigInfo | null; isPinned: boolean; alarm?: DeviceAlarmAlert }> = pinned.map((id, index) => {
+    if (alarmTiles[index]) {
+      return { ...alarmTiles[index], isPinned: false };
+    }
+    const pinnedVideo = id ? videoMap.get(id) : undefined;
+    if (pinnedVideo) {
+      return { video: pinnedVideo, isPinned: true };
+    }
+    return { video: autoVideos[autoIndex++] || null, isPinned: false };
+  });
+
+  const applyLayout = (saved: SavedVideoLayout) => {
+    setMode(saved.mode);
+    setPinned(resizeTiles(saved.tiles, LAYOUTS[saved.mode].tiles.length));
+    setTour(saved.tour);
+    setCurrentPage(0);
+    setActiveLayoutId(saved.id);
+    setLayoutName(saved.name);
+  };
+
+  // 页面加载后恢复上次使用的布局
+  useEffect(() => {
+    if (!videoWall || restored.current) return;
+    restored.current = true;
+
+    const saved = videoWall.layouts.find((item) => item.id === videoWall.activeLayoutId);
+    if (saved) {
+      applyLayout(saved);
+    }
+  }, [videoWall]);
+
+  // 定时轮巡
+  useEffect(() => {
+    if (!tour.enabled || totalPages <= 1) return;
+
+    const timer = setInterval(() => {
+      setCurrentPage((prev) => (prev + 1) % totalPages);
+    }, tour.interval * 1000);
+
+    return () => clearInterval(timer);
+  }, [tour.enabled, tour.interval, totalPages]);
 
   if (loading) {
     return <div className="p-4 text-center">加载中...</div>;
@@ -29,87 +139,305 @@ const VideoGrid = ({ organizationId }: VideoGridProps) => {
     return <div className="p-4 text-center">暂无视频配置</div>;
   }
 
-  // 计算分页
-  const itemsPerPage = gridMode;
-  const totalPages = Math.ceil(videoConfigs.length / itemsPerPage);
-  const startIndex = currentPage * itemsPerPage;
-  const displayedVideos = videoConfigs
-    .filter((video) => video.status) // 只显示启用的视频
-    .slice(startIndex, startIndex + itemsPerPage);
+  const changeMode = (value: VideoLayoutMode) => {
+    setMode(value);
+    setPinned((prev) => resizeTiles(prev, LAYOUTS[value].tiles.length));
+    setCurrentPage(0);
+  };
+
+  const handleDragStart = (e: React.DragEvent, videoId: string, fromTile: number | null) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ videoId, fromTile }));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // 拖入格子后固定该摄像头；从其他格子拖入时交换两个格子
+  const handleDrop = (e: React.DragEvent, tileIndex: number) => {
+    e.preventDefault();
+    const raw = e.dataTransfer.getData(DRAG_TYPE);
+    if (!raw) return;
+
+    const { videoId, fromTile } = JSON.parse(raw) as { videoId: string; fromTile: number | null };
+    if (fromTile === tileIndex) return;
+
+    setPinned((prev) => {
+      const next = prev.map((id) => (id === videoId ? null : id));
+      if (fromTile !== null) {
+        const target = tileVideos[tileIndex];
+        next[fromTile] = target.isPinned && target.video ? target.video.id : null;
+      }
+      next[tileIndex] = videoId;
+      return next;
+    });
+  };
+
+  const unpin = (tileIndex: number) => {
+    setPinned((prev) => prev.map((id, index) => (index === tileIndex ? null : id)));
+  };
+
+  // 按名称保存布局，同名布局覆盖
+  const saveLayout = async () => {
+    const name = layoutName.trim();
+    if (!name || !videoWall) return;
+
+    const existing = videoWall.layouts.find((item) => item.name === name);
+    const saved: SavedVideoLayout = {
+      id: existing?.id || `layout-${Date.now().toString(36)}`,
+      name,
+      mode,
+      tiles: pinned.map((id) => (id && videoMap.has(id) ? id : null)),
+      tour,
+    };
 
-  // 根据模式设置网格列数
-  const gridCols = gridMode === 1 ? 'grid-cols-1' : gridMode === 4 ? 'grid-cols-2' : 'grid-cols-3';
+    const layouts = existing
+      ? videoWall.layouts.map((item) => (item.id === saved.id ? saved : item))
+      : [...videoWall.layouts, saved];
+
+    if (await saveVideoWall({ layouts, activeLayoutId: saved.id })) {
+      setActiveLayoutId(saved.id);
+    }
+  };
+
+  const selectLayout = (id: string) => {
+    if (!videoWall) return;
+
+    const saved = videoWall.layouts.find((item) => item.id === id);
+    if (saved) {
+      applyLayout(saved);
+      saveVideoWall({ ...videoWall, activeLayoutId: saved.id });
+    }
+  };
+
+  const deleteLayout = async () => {
+    if (!videoWall || !activeLayoutId) return;
+
+    const layouts = videoWall.layouts.filter((item) => item.id !== activeLayoutId);
+    if (await saveVideoWall({ layouts, activeLayoutId: null })) {
+      setActiveLayoutId(null);
+      setLayoutName('');
+    }
+  };
 
   return (
     <div className="space-y-4">
-      <div className="flex justify-between items-center">
-        <div className="font-semibold">视频监控 ({videoConfigs.filter(v => v.status).length}个)</div>
-        <div className="flex space-x-2">
-          <button
-            onClick={() => setGridMode(1)}
-            className={`px-3 py-1 rounded ${
-              gridMode === 1 ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            单屏
-          </button>
-          <button
-            onClick={() => setGridMode(4)}
-            className={`px-3 py-1 rounded ${
-              gridMode === 4 ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            四宫格
-          </button>
-          <button
-            onClick={() => setGridMode(9)}
-            className={`px-3 py-1 rounded ${
-              gridMode === 9 ? 'bg-blue-500 text-white' : 'bg-gray-200'
-            }`}
-          >
-            九宫格
-          </button>
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="font-semibold">视频监控 ({enabledVideos.length}个)</div>
+        <div className="flex flex-wrap gap-2">
+          {LAYOUT_MODES.map((value) => (
+            <button
+              key={value}
+              onClick={() => changeMode(value)}
+              className={`px-3 py-1 rounded ${
+                mode === value ? 'bg-blue-500 text-white' : 'bg-gray-200'
+              }`}
+            >
+              {LAYOUTS[value].label}
+            </button>
+          ))}
         </div>
       </div>
 
-      <div className={`grid ${gridCols} gap-2 aspect-[16/9]`}>
-        {displayedVideos.map((video) => (
-          <div key={video.id} className="bg-black relative">
-            <VideoPlayer
-              url={video.streamUrl}
-              type={video.streamType}
-              width="100%"
-              height="100%"
-            />
-            <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white p-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          value={activeLayoutId || ''}
+          onChange={(e) => e.target.value && selectLayout(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        >
+          <option value="">选择已保存布局</option>
+          {videoWall?.layouts.map((item) => (
+            <option key={item.id} value={item.id}>{item.name}</option>
+          ))}
+        </select>
+        <input
+          value={layoutName}
+          onChange={(e) => setLayoutName(e.target.value)}
+          placeholder="布局名称"
+          maxLength={50}
+          className="px-2 py-1 border border-gray-300 rounded-md"
+        />
+        <button
+          onClick={saveLayout}
+          disabled={!layoutName.trim() || !videoWall}
+          className="px-3 py-1 bg-blue-500 text-white rounded disabled:opacity-50"
+        >
+          保存布局
+        </button>
+        <button
+          onClick={deleteLayout}
+          disabled={!activeLayoutId}
+          className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+        >
+          删除布局
+        </button>
+        <label className="flex items-center ml-4">
+          <input
+            type="checkbox"
+            checked={tour.enabled}
+            onChange={(e) => setTour({ ...tour, enabled: e.target.checked })}
+            className="h-4 w-4 mr-1"
+          />
+          轮巡
+        </label>
+        <input
+          type="number"
+          min={5}
+          max={3600}
+          value={tour.interval}
+          onChange={(e) => setTour({ ...tour, interval: Math.min(3600, Math.max(5, Number(e.target.value) || DEFAULT_TOUR_INTERVAL)) })}
+          className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+        />
+        <span>秒</span>
+        {layoutError && <span className="text-red-500">{layoutError}</span>}
+      </div>
+
+      {alarms.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-red-600">
+          <span>未确认告警 {alarms.length} 条</span>
+          {alarmVideos.length > alarmTiles.length && (
+            <span>（{alarmVideos.length - alarmTiles.length} 个联动画面超出格子数未显示）</span>
+          )}
+          {alarmError && <span>确认失败: {alarmError}</span>}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {/* 摄像头列表，可拖入格子 */}
+        <div className="w-44 flex-shrink-0 bg-gray-100 rounded p-2 space-y-1 max-h-[70vh] overflow-y-auto">
+          {enabledVideos.map((video) => (
+            <div
+              key={video.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, video.id, null)}
+              className={`px-2 py-1 rounded text-sm cursor-move truncate ${
+                pinnedIds.has(video.id) ? 'bg-blue-100' : 'bg-white hover:bg-gray-200'
+              }`}
+              title={`${video.name}（拖入格子固定显示）`}
+            >
               {video.name}
             </div>
-          </div>
-        ))}
-        {/* 填充空白格子 */}
-        {Array.from({ length: itemsPerPage - displayedVideos.length }).map((_, index) => (
-          <div key={`empty-${index}`} className="bg-gray-800 flex items-center justify-center text-gray-500">
-            无视频
-          </div>
-        ))}
+          ))}
+        </div>
+
+        <div
+          className="flex-1 grid gap-2 aspect-[16/9]"
+          style={{
+            gridTemplateColumns: `repeat(${layout.size}, minmax(0, 1fr))`,
+            gridTemplateRows: `repeat(${layout.size}, minmax(0, 1fr))`,
+          }}
+        >
+          {layout.tiles.map((tile, index) => {
+            const { video, isPinned, alarm } = tileVideos[index];
+            const style = {
+              gridColumn: `${tile.col} / span ${tile.colSpan || 1}`,
+              gridRow: `${tile.row} / span ${tile.rowSpan || 1}`,
+            };
+            const dropHandlers = {
+              onDragOver: (e: React.DragEvent) => e.preventDefault(),
+              onDrop: (e: React.DragEvent) => handleDrop(e, index),
+            };
+
+            if (!video) {
+              return (
+                <div
+                  key={`empty-${index}`}
+                  style={style}
+                  {...dropHandlers}
+                  className="bg-gray-800 flex items-center justify-center text-gray-500"
+                >
+                  无视频
+                </div>
+              );
+            }
+
+            const health = healthStatuses[video.id];
+            const healthState = health?.state || video.healthState || VideoHealthState.UNKNOWN;
+            const badge = HEALTH_BADGE[healthState];
+
+            return (
+              <div
+                key={`${index}-${video.id}`}
+                style={style}
+                {...dropHandlers}
+                draggable={!alarm}
+                onDragStart={(e) => handleDragStart(e, video.id, index)}
+                className={`bg-black relative min-h-0 ${alarm ? 'ring-4 ring-red-600 animate-pulse' : ''}`}
+              >
+                <LivePlayer
+                  videoConfigId={video.id}
+                  width="100%"
+                  height="100%"
+                />
+                <div
+                  className={`absolute top-1 left-1 px-2 py-0.5 rounded text-white text-xs ${badge.className}`}
+                  title={health?.message}
+                >
+                  {badge.label}
+                </div>
+                {isPinned && (
+                  <button
+                    onClick={() => unpin(index)}
+                    className="absolute top-1 right-1 px-1.5 py-0.5 rounded bg-black bg-opacity-50 text-white text-xs"
+                    title="取消固定"
+                  >
+                    固定 ×
+                  </button>
+                )}
+                {healthState === VideoHealthState.OFFLINE && (
+                  <div
+                    className="absolute inset-0 flex items-center justify-center bg-black bg-opacity-60 bg-cover bg-center bg-blend-darken text-red-400 text-sm pointer-events-none"
+                    style={video.cover && covers[video.cover] ? { backgroundImage: `url(${covers[video.cover]})` } : undefined}
+                  >
+                    摄像头离线
+                  </div>
+                )}
+                {alarm && (
+                  <div className="absolute top-8 left-1 right-1 bg-red-700 bg-opacity-80 text-white text-xs rounded p-2 space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`px-1.5 py-0.5 rounded ${ALARM_LEVEL_BADGE[alarm.level].className}`}>
+                        {ALARM_LEVEL_BADGE[alarm.level].label}
+                      </span>
+                      <span className="truncate flex-1">{alarm.deviceName}</span>
+                      <span>{new Date(alarm.createdAt).toLocaleTimeString()}</span>
+                    </div>
+                    <div className="line-clamp-2">{alarm.content}</div>
+                    <button
+                      onClick={() => confirmAlarm(alarm.id)}
+                      className="px-2 py-0.5 bg-white text-red-700 rounded"
+                    >
+                      确认告警
+                    </button>
+                  </div>
+                )}
+                <div className="absolute bottom-0 left-0 right-0 bg-black bg-opacity-50 text-white p-1 text-xs flex justify-between">
+                  <span>{video.name}</span>
+                  {health && healthState !== VideoHealthState.OFFLINE && (
+                    <span>
+                      {health.frameRate !== undefined && `${health.frameRate} fps`}
+                      {health.bitrate !== undefined && ` · ${health.bitrate} kbps`}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </div>
 
       {/* 分页控制 */}
       {totalPages > 1 && (
         <div className="flex justify-center space-x-2 mt-4">
           <button
-            onClick={() => setCurrentPage((prev) => Math.max(0, prev - 1))}
-            disabled={currentPage === 0}
+            onClick={() => setCurrentPage(Math.max(0, page - 1))}
+            disabled={page === 0}
             className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
           >
             上一页
           </button>
           <div className="px-3 py-1">
-            {currentPage + 1} / {totalPages}
+            {page + 1} / {totalPages}
           </div>
           <button
-            onClick={() => setCurrentPage((prev) => Math.min(totalPages - 1, prev + 1))}
-            disabled={currentPage === totalPages - 1}
+            onClick={() => setCurrentPage(Math.min(totalPages - 1, page + 1))}
+            disabled={page === totalPages - 1}
             className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
           >
             下一页
@@ -120,4 +448,4 @@ const VideoGrid = ({ organizationId }: VideoGridProps) => {
   );
 };
 
-export default VideoGrid; 
\ No newline at end of file
+export default VideoGrid;
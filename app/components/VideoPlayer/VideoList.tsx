@@ -1,9 +1,9 @@
 'use client';
 
 import { useState } from 'react';
-import { useVideoConfigs } from './hooks';
+import { useSnapshotImages, useVideoConfigs } from './hooks';
 import { VideoConfigInfo } from './types';
-import VideoPlayer from './index';
+import LivePlayer from './LivePlayer';
 
 interface VideoListProps {
   organizationId: string;
@@ -16,6 +16,7 @@ interface VideoListProps {
 const VideoList = ({ organizationId }: VideoListProps) => {
   const { videoConfigs, loading, error } = useVideoConfigs(organizationId);
   const [selectedVideo, setSelectedVideo] = useState<VideoConfigInfo | null>(null);
+  const covers = useSnapshotImages(videoConfigs.map((video) => video.cover));
 
   if (loading) {
     return <div className="p-4 text-center">加载中...</div>;
@@ -44,15 +45,25 @@ const VideoList = ({ organizationId }: VideoListProps) => {
               }`}
               onClick={() => setSelectedVideo(video)}
             >
-              <div className="font-medium">{video.name}</div>
-              <div className="text-sm text-gray-500">
-                摄像头编号: {video.cameraCode}
-              </div>
-              <div className="text-xs text-gray-400 flex justify-between mt-1">
-                <span>类型: {video.streamType}</span>
-                <span className={video.status ? 'text-green-500' : 'text-red-500'}>
-                  {video.status ? '已启用' : '已停用'}
-                </span>
+              <div className="flex space-x-3">
+                {/* 封面由服务端定时截图刷新 */}
+                <div className="w-24 aspect-video bg-gray-800 flex-shrink-0 rounded overflow-hidden">
+                  {video.cover && covers[video.cover] && (
+                    <img src={covers[video.cover]} alt={video.name} className="w-full h-full object-cover" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium">{video.name}</div>
+                  <div className="text-sm text-gray-500">
+                    摄像头编号: {video.cameraCode}
+                  </div>
+                  <div className="text-xs text-gray-400 flex justify-between mt-1">
+                    <span>类型: {video.streamType}</span>
+                    <span className={video.status ? 'text-green-500' : 'text-red-500'}>
+                      {video.status ? '已启用' : '已停用'}
+                    </span>
+                  </div>
+                </div>
               </div>
             </div>
           ))}
@@ -66,9 +77,9 @@ const VideoList = ({ organizationId }: VideoListProps) => {
         {selectedVideo ? (
           <div>
             <div className="bg-black aspect-video mb-3">
-              <VideoPlayer
-                url={selectedVideo.streamUrl}
-                type={selectedVideo.streamType}
+              <LivePlayer
+                key={selectedVideo.id}
+                videoConfigId={selectedVideo.id}
                 height="100%"
               />
             </div>
@@ -91,10 +102,6 @@ const VideoList = ({ organizationId }: VideoListProps) => {
                   {new Date(selectedVideo.createdAt).toLocaleString()}
                 </div>
               </div>
-              <div className="mt-2 text-sm">
-                <span className="font-medium">流地址:</span>{' '}
-                <span className="text-gray-500 break-all">{selectedVideo.streamUrl}</span>
-              </div>
             </div>
           </div>
         ) : (
@@ -1,15 +1,30 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { VideoPlayerProps } from './types';
+import { PlaybackEngine, VideoPlayerProps } from './types';
+
+/**
+ * 浏览器是否具备EasyPlayer-pro所需的解码能力（MSE或WebCodecs）
+ */
+const canRunEasyPlayer = () =>
+  typeof window !== 'undefined' && (typeof window.MediaSource !== 'undefined' || 'VideoDecoder' in window);
+
+/**
+ * 浏览器是否支持原生HLS播放
+ */
+const canPlayNativeHls = () =>
+  typeof document !== 'undefined' && document.createElement('video').canPlayType('application/vnd.apple.mpegurl') !== '';
 
 /**
  * 视频播放器组件
  * 基于EasyPlayer-pro实现，支持WebSocket和HTTP流
+ * EasyPlayer-pro无法加载、初始化或播放失败时，如提供了HLS地址且浏览器支持，回退到原生HLS播放
  */
 const VideoPlayer = ({
   url,
   type,
+  hlsUrl,
+  onEngineChange,
   width = '100%',
   height = '100%',
   autoPlay = true,
@@ -25,17 +40,39 @@ const VideoPlayer = ({
   const playerRef = useRef<HTMLDivElement>(null);
   const playerInstance = useRef<any>(null);
   const [isLoaded, setIsLoaded] = useState(false);
+  const [engine, setEngine] = useState<PlaybackEngine>('easyplayer');
   const [error, setError] = useState<string | null>(null);
 
+  // 回退到原生HLS，不支持时显示错误
+  const fallbackToHls = (reason: string) => {
+    if (hlsUrl && canPlayNativeHls()) {
+      console.warn(`${reason}, falling back to native HLS`);
+      setError(null);
+      setEngine('native-hls');
+    } else {
+      setError(reason);
+    }
+  };
+
+  // 上报实际使用的播放引擎
+  useEffect(() => {
+    onEngineChange?.(engine);
+  }, [engine]);
+
   // 初始化播放器
   useEffect(() => {
+    if (!canRunEasyPlayer()) {
+      fallbackToHls('Browser does not support MSE or WebCodecs');
+      return;
+    }
+
     // 确保EasyPlayer-pro脚本已加载
     if (typeof window !== 'undefined' && !window.EasyPlayerPro) {
       const script = document.createElement('script');
       script.src = '/js/player/EasyPlayer-pro.js';
       script.async = true;
       script.onload = () => setIsLoaded(true);
-      script.onerror = () => setError('Failed to load player script');
+      script.onerror = () => fallbackToHls('Failed to load player script');
       document.body.appendChild(script);
     } else {
       setIsLoaded(true);
@@ -44,7 +81,7 @@ const VideoPlayer = ({
 
   // 创建播放器实例并播放
   useEffect(() => {
-    if (!isLoaded || !playerRef.current || !url) return;
+    if (engine !== 'easyplayer' || !isLoaded || !playerRef.current || !url) return;
 
     const createPlayer = () => {
       try {
@@ -57,14 +94,14 @@ const VideoPlayer = ({
         }
       } catch (err) {
         console.error('Error creating player:', err);
-        setError('Failed to create player');
+        fallbackToHls('Failed to create player');
       }
     };
 
     const initPlayer = () => {
       try {
         if (!window.EasyPlayerPro) {
-          setError('Player not loaded');
+          fallbackToHls('Player not loaded');
           return;
         }
 
@@ -77,13 +114,18 @@ const VideoPlayer = ({
           hasAudio: config.hasAudio,
           watermark: config.watermark || { text: { content: 'IoT Platform' }, right: 10, top: 10 },
         });
+        // 播放过程中解码失败等错误同样回退
+        playerInstance.current.on?.('error', (err: any) => {
+          console.error('Player error:', err);
+          fallbackToHls('Player error');
+        });
 
         if (autoPlay) {
           playVideo();
         }
       } catch (err) {
         console.error('Error initializing player:', err);
-        setError('Failed to initialize player');
+        fallbackToHls('Failed to initialize player');
       }
     };
 
@@ -98,7 +140,7 @@ const VideoPlayer = ({
         })
         .catch((err: any) => {
           console.error('Error playing video:', err);
-          setError('Failed to play video stream');
+          fallbackToHls('Failed to play video stream');
         });
     };
 
@@ -114,10 +156,10 @@ const VideoPlayer = ({
         }
       }
     };
-  }, [isLoaded, url, autoPlay, config]);
+  }, [engine, isLoaded, url, hlsUrl, autoPlay, config]);
 
   return (
-    <div className="video-player-container">
+    <div className="video-player-container" data-engine={engine}>
       <div
         ref={playerRef}
         style={{
@@ -127,6 +169,19 @@ const VideoPlayer = ({
           position: 'relative',
         }}
       >
+        {engine === 'native-hls' && hlsUrl && (
+          <video
+            src={hlsUrl}
+            autoPlay={autoPlay}
+            // 移动端浏览器仅允许静音自动播放
+            muted
+            playsInline
+            controls
+            onPlaying={() => setError(null)}
+            onError={() => setError('Failed to play HLS stream')}
+            style={{ width: '100%', height: '100%', objectFit: config.stretch ? 'fill' : 'contain' }}
+          />
+        )}
         {error && (
           <div
             style={{
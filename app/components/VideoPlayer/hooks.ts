@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
-import { VideoConfigInfo } from './types';
+import { io } from 'socket.io-client';
+import { VideoConfigInfo, StreamTestResult, VideoHealthStatus, VideoRecordingInfo, RecorderStatus, VideoSnapshotInfo, PtzCommand, PtzPreset, StreamPlaybackInfo, VideoWallConfig, DeviceAlarmAlert, LinkedDeviceInfo } from './types';
+import { toLiveUrl, toSocketUrl } from './utils';
 import { StreamType } from '@prisma/client';
 
 /**
@@ -80,15 +82,63 @@ export function useVideoConfigs(organizationId: string | null) {
   return { videoConfigs, loading, error };
 }
 
+/**
+ * 获取视频播放地址钩子函数
+ * 服务端签发短期有效的播放令牌，令牌仅在建立连接时校验，重连前需调用refresh重新获取
+ * @param id 视频配置ID
+ */
+export function usePlaybackUrl(id: string | null) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<StreamPlaybackInfo | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const fetchPlaybackUrl = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/streams/${id}/play`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to get playback url: ${response.statusText}`);
+        }
+
+        const data: StreamPlaybackInfo = await response.json();
+        setPlayback({ ...data, url: toLiveUrl(data.url), hlsUrl: data.hlsUrl && toLiveUrl(data.hlsUrl) });
+      } catch (err) {
+        console.error('Error getting playback url:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPlaybackUrl();
+  }, [id, version]);
+
+  const refresh = () => setVersion((v) => v + 1);
+
+  return { playback, loading, error, refresh };
+}
+
 /**
  * 测试视频流地址钩子函数
+ * 服务端实际连接视频流，结果包含编码、分辨率、帧率、音频和首帧耗时
  */
 export function useTestVideoStream() {
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [result, setResult] = useState<StreamTestResult | null>(null);
 
-  const testStream = async (url: string, type: StreamType) => {
+  const testStream = async (url: string, type: StreamType): Promise<StreamTestResult> => {
     setLoading(true);
     setError(null);
     setResult(null);
@@ -98,6 +148,7 @@ export function useTestVideoStream() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
         },
         body: JSON.stringify({ url, type }),
       });
@@ -106,7 +157,7 @@ export function useTestVideoStream() {
         throw new Error(`Failed to test stream: ${response.statusText}`);
       }
       
-      const data = await response.json();
+      const data: StreamTestResult = await response.json();
       setResult(data);
       return data;
     } catch (err) {
@@ -119,5 +170,584 @@ export function useTestVideoStream() {
     }
   };
 
-  return { testStream, loading, error, result };
-} 
\ No newline at end of file
+  // 清除测试结果（地址或类型变化后旧结果不再有效）
+  const reset = () => {
+    setResult(null);
+    setError(null);
+  };
+
+  return { testStream, reset, loading, error, result };
+}
+
+/**
+ * 视频流健康状态钩子函数
+ * 先拉取当前状态，再通过WebSocket接收健康监测推送的实时状态
+ * @param organizationId 组织ID
+ */
+export function useVideoHealth(organizationId: string | null) {
+  const [statuses, setStatuses] = useState<Record<string, VideoHealthStatus>>({});
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    let cancelled = false;
+
+    const fetchStatuses = async () => {
+      try {
+        const response = await fetch(`/api/streams/health?organizationId=${organizationId}`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch video health: ${response.statusText}`);
+        }
+
+        const data: VideoHealthStatus[] = await response.json();
+        if (!cancelled) {
+          // 合并而非覆盖，避免丢弃请求期间推送的新状态
+          setStatuses((prev) => {
+            const next = { ...prev };
+            for (const status of data) {
+              if (!next[status.videoConfigId] || next[status.videoConfigId].checkedAt < status.checkedAt) {
+                next[status.videoConfigId] = status;
+              }
+            }
+            return next;
+          });
+        }
+      } catch (err) {
+        console.error('Error fetching video health:', err);
+      }
+    };
+
+    const socket = io(toSocketUrl('/videos'), {
+      path: '/api/ws',
+      auth: { token: localStorage.getItem('token') },
+    });
+
+    socket.on('connect', () => {
+      socket.emit('subscribe', { organizationId });
+    });
+
+    socket.on('videoStatus', (status: VideoHealthStatus) => {
+      setStatuses((prev) => ({ ...prev, [status.videoConfigId]: status }));
+    });
+
+    fetchStatuses();
+
+    return () => {
+      cancelled = true;
+      socket.disconnect();
+    };
+  }, [organizationId]);
+
+  return statuses;
+}
+
+/**
+ * 按时间范围获取录像片段钩子函数
+ * @param id 视频配置ID
+ * @param startTime 开始时间
+ * @param endTime 结束时间
+ */
+export function useRecordings(id: string | null, startTime: Date, endTime: Date) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recordings, setRecordings] = useState<VideoRecordingInfo[]>([]);
+  const [recorder, setRecorder] = useState<RecorderStatus | null>(null);
+  const [version, setVersion] = useState(0);
+
+  const start = startTime.toISOString();
+  const end = endTime.toISOString();
+
+  useEffect(() => {
+    if (!id) return;
+
+    let cancelled = false;
+
+    const fetchRecordings = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const query = new URLSearchParams({ startTime: start, endTime: end, limit: '2000' });
+        const response = await fetch(`/api/streams/${id}/recordings?${query}`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch recordings: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setRecordings(data.recordings);
+          setRecorder(data.recording);
+        }
+      } catch (err) {
+        console.error('Error fetching recordings:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRecordings();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, start, end, version]);
+
+  // 重新加载（录像进行中时新片段会持续入库）
+  const refresh = () => setVersion((v) => v + 1);
+
+  return { recordings, recorder, loading, error, refresh };
+}
+
+/**
+ * 获取录像片段播放地址钩子函数
+ * 服务端签发绑定该录像片段的录像令牌，令牌在录像播放期间的每次请求中校验
+ * @param id 视频配置ID
+ * @param recordingId 录像片段ID
+ */
+export function useRecordingUrl(id: string | null, recordingId: string | null) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUrl(null);
+    if (!id || !recordingId) return;
+
+    let cancelled = false;
+
+    const fetchRecordingUrl = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const query = new URLSearchParams({ recordingId });
+        const response = await fetch(`/api/streams/${id}/play?${query}`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to get recording url: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+        if (!cancelled) {
+          setUrl(data.url);
+        }
+      } catch (err) {
+        console.error('Error getting recording url:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchRecordingUrl();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, recordingId]);
+
+  return { url, loading, error };
+}
+
+/**
+ * 服务端截图钩子函数
+ * 截图保存在服务端并记录截图用户，同时作为视频封面
+ * @param id 视频配置ID
+ */
+export function useServerSnapshot(id: string | null) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [snapshot, setSnapshot] = useState<VideoSnapshotInfo | null>(null);
+
+  const capture = async (): Promise<VideoSnapshotInfo | null> => {
+    if (!id) return null;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/streams/${id}/snapshot`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to capture snapshot: ${response.statusText}`);
+      }
+
+      const data: VideoSnapshotInfo = await response.json();
+      setSnapshot(data);
+      return data;
+    } catch (err) {
+      console.error('Error capturing snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { capture, snapshot, loading, error };
+}
+
+/**
+ * 截图图片钩子函数
+ * 服务端截图需携带认证令牌读取，转换为本地对象URL供img使用；其他地址原样返回
+ * @param urls 图片地址列表
+ * @returns 图片地址到可显示地址的映射，加载中或加载失败的截图不在映射中
+ */
+export function useSnapshotImages(urls: Array<string | null | undefined>) {
+  const [images, setImages] = useState<Record<string, string>>({});
+  const key = urls.filter(Boolean).join('\n');
+
+  useEffect(() => {
+    const list = Array.from(new Set(key ? key.split('\n') : []));
+    const objectUrls: string[] = [];
+    let cancelled = false;
+
+    const loadImages = async () => {
+      const entries = await Promise.all(list.map(async (url): Promise<[string, string] | null> => {
+        if (!url.startsWith('/api/')) {
+          return [url, url];
+        }
+
+        try {
+          const response = await fetch(url, {
+            headers: {
+              Authorization: `Bearer ${localStorage.getItem('token')}`,
+            },
+          });
+
+          if (!response.ok) {
+            throw new Error(`Failed to get snapshot: ${response.statusText}`);
+          }
+
+          const objectUrl = URL.createObjectURL(await response.blob());
+          objectUrls.push(objectUrl);
+          return [url, objectUrl];
+        } catch (err) {
+          console.error('Error getting snapshot image:', err);
+          return null;
+        }
+      }));
+
+      if (cancelled) {
+        objectUrls.forEach((objectUrl) => URL.revokeObjectURL(objectUrl));
+        return;
+      }
+
+      setImages(Object.fromEntries(entries.filter((entry): entry is [string, string] => entry !== null)));
+    };
+
+    loadImages();
+
+    return () => {
+      cancelled = true;
+      objectUrls.forEach((objectUrl) => URL.revokeObjectURL(objectUrl));
+    };
+  }, [key]);
+
+  return images;
+}
+
+/**
+ * 云台控制钩子函数
+ * @param id 视频配置ID
+ */
+export function usePtzControl(id: string | null) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [presets, setPresets] = useState<PtzPreset[]>([]);
+
+  const fetchPresets = async () => {
+    if (!id) return;
+
+    try {
+      const response = await fetch(`/api/streams/${id}/ptz`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch PTZ presets: ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      setPresets(data.presets || []);
+    } catch (err) {
+      console.error('Error fetching PTZ presets:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+  };
+
+  useEffect(() => {
+    fetchPresets();
+  }, [id]);
+
+  const send = async (command: PtzCommand): Promise<boolean> => {
+    if (!id) return false;
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/streams/${id}/ptz`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `PTZ control failed: ${response.statusText}`);
+      }
+
+      if (command.action === 'savePreset') {
+        await fetchPresets();
+      }
+      return true;
+    } catch (err) {
+      console.error('Error controlling PTZ:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return { send, presets, loading, error, refreshPresets: fetchPresets };
+}
+
+/**
+ * 视频墙布局钩子函数
+ * 布局按用户保存在服务端，刷新页面后恢复
+ */
+export function useVideoLayouts() {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [videoWall, setVideoWall] = useState<VideoWallConfig | null>(null);
+
+  useEffect(() => {
+    const fetchLayouts = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch('/api/streams/layouts', {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch layouts: ${response.statusText}`);
+        }
+
+        const { data } = await response.json();
+        setVideoWall(data);
+      } catch (err) {
+        console.error('Error fetching layouts:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+        setVideoWall({ layouts: [], activeLayoutId: null });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLayouts();
+  }, []);
+
+  const save = async (config: VideoWallConfig): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch('/api/streams/layouts', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify(config),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to save layouts: ${response.statusText}`);
+      }
+
+      const { data } = await response.json();
+      setVideoWall(data);
+      return true;
+    } catch (err) {
+      console.error('Error saving layouts:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  };
+
+  return { videoWall, save, loading, error };
+}
+
+/**
+ * 设备告警钩子函数
+ * 订阅/alerts命名空间，保留未确认的告警；告警在任一客户端确认后移除
+ * @param organizationId 组织ID
+ */
+export function useDeviceAlarms(organizationId: string | null) {
+  const [alarms, setAlarms] = useState<DeviceAlarmAlert[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!organizationId) return;
+
+    const socket = io(toSocketUrl('/alerts'), {
+      path: '/api/ws',
+      auth: { token: localStorage.getItem('token') },
+    });
+
+    socket.on('connect', () => {
+      socket.emit('subscribe', { organizationId });
+    });
+
+    socket.on('newAlert', (alarm: DeviceAlarmAlert) => {
+      // 最新的告警排在最前面
+      setAlarms((prev) => [alarm, ...prev.filter((item) => item.id !== alarm.id)]);
+    });
+
+    socket.on('alertConfirmed', (alarm: DeviceAlarmAlert) => {
+      setAlarms((prev) => prev.filter((item) => item.id !== alarm.id));
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [organizationId]);
+
+  const confirm = async (id: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/devices/alarms/${id}/confirm`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      // 已被其他客户端确认时同样移除
+      if (!response.ok && response.status !== 409) {
+        throw new Error(`Failed to confirm alarm: ${response.statusText}`);
+      }
+
+      setAlarms((prev) => prev.filter((item) => item.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Error confirming alarm:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  };
+
+  return { alarms, confirm, error };
+}
+
+/**
+ * 摄像头联动设备钩子函数
+ * @param id 视频配置ID
+ */
+export function useDeviceLinks(id: string | null) {
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<LinkedDeviceInfo[]>([]);
+
+  useEffect(() => {
+    if (!id) {
+      setDevices([]);
+      return;
+    }
+
+    const fetchDevices = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const response = await fetch(`/api/streams/${id}/devices`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch linked devices: ${response.statusText}`);
+        }
+
+        setDevices(await response.json());
+      } catch (err) {
+        console.error('Error fetching linked devices:', err);
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDevices();
+  }, [id]);
+
+  const save = async (deviceIds: string[]): Promise<boolean> => {
+    if (!id) return false;
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/streams/${id}/devices`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+        body: JSON.stringify({ deviceIds }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to save linked devices: ${response.statusText}`);
+      }
+
+      const linked = new Set(deviceIds);
+      setDevices((prev) => prev.map((device) => ({ ...device, linked: linked.has(device.id) })));
+      return true;
+    } catch (err) {
+      console.error('Error saving linked devices:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      return false;
+    }
+  };
+
+  return { devices, save, loading, error };
+}
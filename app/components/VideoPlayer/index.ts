@@ -1,20 +1,57 @@
 import VideoPlayer from './VideoPlayer';
+import LivePlayer from './LivePlayer';
 import VideoList from './VideoList';
 import VideoGrid from './VideoGrid';
 import VideoCapture from './VideoCapture';
-import { useVideoConfig, useVideoConfigs, useTestVideoStream } from './hooks';
-import type { VideoPlayerProps, VideoConfigInfo } from './types';
+import RecordingPlayer from './RecordingPlayer';
+import PtzControl from './PtzControl';
+import { useVideoConfig, useVideoConfigs, useTestVideoStream, useVideoHealth, useRecordings, useRecordingUrl, useServerSnapshot, useSnapshotImages, usePtzControl, usePlaybackUrl, useVideoLayouts, useDeviceAlarms, useDeviceLinks } from './hooks';
+import { toLiveUrl } from './utils';
+import { LAYOUTS, LAYOUT_MODES } from './layouts';
+import type { VideoPlayerProps, VideoConfigInfo, StreamProbeInfo, StreamTestResult, StreamPlaybackInfo, VideoHealthStatus, VideoRecordingInfo, RecorderStatus, VideoSnapshotInfo, PtzCapabilities, PtzPreset, PtzCommand, VideoLayoutMode, SavedVideoLayout, PlaybackEngine, VideoWallConfig, DeviceAlarmAlert, LinkedDeviceInfo } from './types';
 
 export {
   VideoPlayer,
+  LivePlayer,
   VideoList,
   VideoGrid,
   VideoCapture,
+  RecordingPlayer,
+  PtzControl,
   useVideoConfig,
   useVideoConfigs,
   useTestVideoStream,
+  useVideoHealth,
+  useRecordings,
+  useRecordingUrl,
+  useServerSnapshot,
+  useSnapshotImages,
+  usePtzControl,
+  usePlaybackUrl,
+  useVideoLayouts,
+  useDeviceAlarms,
+  useDeviceLinks,
+  toLiveUrl,
+  LAYOUTS,
+  LAYOUT_MODES,
   type VideoPlayerProps,
+  type PlaybackEngine,
   type VideoConfigInfo,
+  type StreamProbeInfo,
+  type StreamTestResult,
+  type StreamPlaybackInfo,
+  type VideoHealthStatus,
+  type VideoRecordingInfo,
+  type RecorderStatus,
+  type VideoSnapshotInfo,
+  type PtzCapabilities,
+  type PtzPreset,
+  type PtzCommand,
+  type VideoLayoutMode,
+  type SavedVideoLayout,
+  type VideoWallConfig,
+  type DeviceAlarmAlert,
+  type LinkedDeviceInfo,
 };
 
 export default VideoPlayer; 
\ No newline at end of file
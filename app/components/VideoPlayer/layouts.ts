@@ -0,0 +1,68 @@
+import { VideoLayoutMode } from './types';
+
+/**
+ * 布局中的格子位置（从1开始的网格行列）
+ */
+export interface LayoutTile {
+  col: number;
+  row: number;
+  colSpan?: number;
+  rowSpan?: number;
+}
+
+/**
+ * 视频墙布局定义
+ */
+export interface LayoutDefinition {
+  label: string;
+  // 网格列数（行数与列数相同）
+  size: number;
+  tiles: LayoutTile[];
+}
+
+/**
+ * 生成等分布局的格子
+ * @param size 每行格子数
+ */
+const uniformTiles = (size: number): LayoutTile[] =>
+  Array.from({ length: size * size }, (_, index) => ({
+    col: (index % size) + 1,
+    row: Math.floor(index / size) + 1,
+  }));
+
+// 视频墙布局，非对称布局的第一个格子为大画面
+export const LAYOUTS: Record<VideoLayoutMode, LayoutDefinition> = {
+  '1': { label: '单屏', size: 1, tiles: uniformTiles(1) },
+  '4': { label: '四宫格', size: 2, tiles: uniformTiles(2) },
+  '9': { label: '九宫格', size: 3, tiles: uniformTiles(3) },
+  '16': { label: '十六宫格', size: 4, tiles: uniformTiles(4) },
+  '25': { label: '二十五宫格', size: 5, tiles: uniformTiles(5) },
+  '1+5': {
+    label: '1大5小',
+    size: 3,
+    tiles: [
+      { col: 1, row: 1, colSpan: 2, rowSpan: 2 },
+      { col: 3, row: 1 },
+      { col: 3, row: 2 },
+      { col: 1, row: 3 },
+      { col: 2, row: 3 },
+      { col: 3, row: 3 },
+    ],
+  },
+  '1+7': {
+    label: '1大7小',
+    size: 4,
+    tiles: [
+      { col: 1, row: 1, colSpan: 3, rowSpan: 3 },
+      { col: 4, row: 1 },
+      { col: 4, row: 2 },
+      { col: 4, row: 3 },
+      { col: 1, row: 4 },
+      { col: 2, row: 4 },
+      { col: 3, row: 4 },
+      { col: 4, row: 4 },
+    ],
+  },
+};
+
+export const LAYOUT_MODES = Object.keys(LAYOUTS) as VideoLayoutMode[];
@@ -1,4 +1,9 @@
-import { StreamType } from '@prisma/client';
+import { RecordingMode, StreamType, VideoHealthState } from '@prisma/client';
+
+/**
+ * 播放引擎：EasyPlayer-pro或浏览器原生HLS
+ */
+export type PlaybackEngine = 'easyplayer' | 'native-hls';
 
 /**
  * 视频播放器属性
@@ -6,6 +11,10 @@ import { StreamType } from '@prisma/client';
 export interface VideoPlayerProps {
   url: string;
   type: StreamType;
+  // HLS地址，EasyPlayer-pro无法播放时回退到浏览器原生HLS
+  hlsUrl?: string;
+  // 实际使用的播放引擎变化时回调
+  onEngineChange?: (engine: PlaybackEngine) => void;
   width?: number | string;
   height?: number | string;
   autoPlay?: boolean;
@@ -32,14 +41,195 @@ export interface VideoConfigInfo {
   name: string;
   cover?: string;
   cameraCode: string;
-  streamUrl: string;
+  // 摄像头源地址，仅配置管理接口返回
+  streamUrl?: string;
   streamType: StreamType;
   status: boolean;
+  healthState?: VideoHealthState;
+  onvifUrl?: string | null;
+  onvifUsername?: string | null;
+  ptzCapabilities?: PtzCapabilities | null;
   organizationId: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * 视频播放地址（带短期有效的播放令牌）
+ */
+export interface StreamPlaybackInfo {
+  url: string;
+  type: StreamType;
+  // HLS回退地址
+  hlsUrl?: string;
+  expiresAt: string;
+}
+
+/**
+ * 视频流健康状态（由服务端健康监测推送）
+ */
+export interface VideoHealthStatus {
+  videoConfigId: string;
+  organizationId: string;
+  state: VideoHealthState;
+  bitrate?: number;
+  frameRate?: number;
+  timeToFirstFrame?: number;
+  message: string;
+  checkedAt: string;
+  since: string;
+}
+
+/**
+ * 视频流探测信息
+ */
+export interface StreamProbeInfo {
+  protocol: 'HTTP-FLV' | 'WS-FLV' | 'HLS' | 'RTSP' | 'RTMP';
+  videoCodec?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  bitrate?: number;
+  hasAudio: boolean;
+  audioCodec?: string;
+  connectTime?: number;
+  timeToFirstFrame?: number;
+}
+
+/**
+ * 视频流测试结果
+ */
+export interface StreamTestResult {
+  success: boolean;
+  message: string;
+  info?: StreamProbeInfo;
+}
+
+/**
+ * 录像片段
+ */
+export interface VideoRecordingInfo {
+  id: string;
+  mode: RecordingMode;
+  startTime: string;
+  endTime: string;
+  duration: number;
+  fileSize: number;
+  alarmId?: string | null;
+}
+
+/**
+ * 录像任务状态
+ */
+export interface RecorderStatus {
+  mode: RecordingMode;
+  startedAt: string;
+  segmentCount: number;
+  activeAlarms: number;
+}
+
+/**
+ * 服务端视频截图
+ */
+export interface VideoSnapshotInfo {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  width?: number | null;
+  height?: number | null;
+  isScheduled: boolean;
+  createdBy?: string | null;
+  createdAt: string;
+  url: string;
+}
+
+/**
+ * 云台能力（由服务端ONVIF检测得到）
+ */
+export interface PtzCapabilities {
+  pan: boolean;
+  tilt: boolean;
+  zoom: boolean;
+  presets: boolean;
+  maxPresets?: number;
+}
+
+/**
+ * 云台预置位
+ */
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+/**
+ * 云台操作命令
+ */
+export interface PtzCommand {
+  action: 'move' | 'zoom' | 'stop' | 'gotoPreset' | 'savePreset';
+  pan?: number;
+  tilt?: number;
+  zoom?: number;
+  presetToken?: string;
+  presetName?: string;
+}
+
+/**
+ * 视频墙布局模式
+ */
+export type VideoLayoutMode = '1' | '4' | '9' | '16' | '25' | '1+5' | '1+7';
+
+/**
+ * 保存的视频墙布局
+ */
+export interface SavedVideoLayout {
+  id: string;
+  name: string;
+  mode: VideoLayoutMode;
+  // 每个格子固定显示的视频配置ID，null表示由轮巡自动填充
+  tiles: Array<string | null>;
+  tour: {
+    enabled: boolean;
+    // 轮巡间隔（秒）
+    interval: number;
+  };
+}
+
+/**
+ * 用户的视频墙布局配置
+ */
+export interface VideoWallConfig {
+  layouts: SavedVideoLayout[];
+  activeLayoutId: string | null;
+}
+
+/**
+ * 设备告警推送（/alerts命名空间）
+ */
+export interface DeviceAlarmAlert {
+  id: string;
+  level: 'INFO' | 'WARNING' | 'SEVERE' | 'FATAL';
+  content: string;
+  createdAt: string;
+  isConfirmed: boolean;
+  deviceId: string;
+  deviceName: string;
+  organizationId: string;
+  // 联动摄像头的视频配置ID
+  videoConfigIds: string[];
+}
+
+/**
+ * 摄像头联动设备
+ */
+export interface LinkedDeviceInfo {
+  id: string;
+  name: string;
+  alias: string | null;
+  status: string;
+  linked: boolean;
+}
+
 /**
  * 扩展Window接口以支持EasyPlayerPro
  */
@@ -0,0 +1,31 @@
+/**
+ * 将接入网关的直播路径转换为完整地址
+ * EasyPlayer-pro需要完整地址
+ * @param path 直播路径（含播放令牌）
+ * @param transport 接入网关输出方式：HTTP-FLV或WS-FLV
+ */
+export function toLiveUrl(path: string, transport: 'http' | 'ws' = 'http'): string {
+  if (typeof window === 'undefined') {
+    return path;
+  }
+
+  const { protocol, host } = window.location;
+  if (transport === 'ws') {
+    return `${protocol === 'https:' ? 'wss:' : 'ws:'}//${host}${path}`;
+  }
+  return `${protocol}//${host}${path}`;
+}
+
+/**
+ * 获取WebSocket服务地址
+ * WebSocket服务在独立端口监听，按当前页面主机名连接
+ * @param namespace Socket.IO命名空间
+ */
+export function toSocketUrl(namespace: string): string {
+  if (typeof window === 'undefined') {
+    return namespace;
+  }
+
+  const { protocol, hostname } = window.location;
+  return `${protocol}//${hostname}:${process.env.NEXT_PUBLIC_WEBSOCKET_PORT || '3001'}${namespace}`;
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+
+// 拓扑树节点
+interface TopologyNode {
+  id: string;
+  name: string;
+  alias: string | null;
+  status: 'ONLINE' | 'OFFLINE' | 'ERROR';
+  connectionStatus: 'ONLINE' | 'OFFLINE' | 'INACTIVE' | 'ERROR' | null;
+  deviceClass: {
+    id: string;
+    name: string;
+    type: 'DIRECT_DEVICE' | 'GATEWAY_CHILD';
+    protocol: string;
+  };
+  lastConnected: string | null;
+  children: TopologyNode[];
+}
+
+// 各状态的显示样式
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  ONLINE: { label: '在线', className: 'bg-green-500' },
+  OFFLINE: { label: '离线', className: 'bg-gray-400' },
+  INACTIVE: { label: '不活跃', className: 'bg-yellow-500' },
+  ERROR: { label: '异常', className: 'bg-red-500' },
+};
+
+/**
+ * 拓扑树节点组件
+ */
+function TopologyTreeNode({ node, depth }: { node: TopologyNode; depth: number }) {
+  const [expanded, setExpanded] = useState(depth === 0);
+  const status = STATUS_STYLES[node.connectionStatus || node.status] || STATUS_STYLES.OFFLINE;
+  const onlineChildren = node.children.filter(child => (child.connectionStatus || child.status) === 'ONLINE').length;
+
+  return (
+    <li>
+      <div
+        className="flex items-center gap-3 rounded-md px-3 py-2 hover:bg-gray-100"
+        style={{ paddingLeft: `${depth * 24 + 12}px` }}
+      >
+        {node.children.length > 0 ? (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="w-5 h-5 text-gray-500"
+            aria-label={expanded ? '收起' : '展开'}
+          >
+            {expanded ? '▾' : '▸'}
+          </button>
+        ) : (
+          <span className="w-5 h-5" />
+        )}
+        <span className={`w-2.5 h-2.5 rounded-full ${status.className}`} title={status.label} />
+        <span className="font-medium">{node.alias || node.name}</span>
+        <span className="text-sm text-gray-500">{node.deviceClass.name}</span>
+        <span className="text-xs text-gray-400">{node.deviceClass.protocol}</span>
+        {node.children.length > 0 && (
+          <span className="ml-auto text-sm text-gray-500">
+            子设备 {onlineChildren}/{node.children.length} 在线
+          </span>
+        )}
+      </div>
+      {expanded && node.children.length > 0 && (
+        <ul>
+          {node.children.map(child => (
+            <TopologyTreeNode key={child.id} node={child} depth={depth + 1} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * 设备拓扑页面
+ * 展示网关及其子设备的树形结构和在线状态
+ */
+export default function DeviceTopologyPage() {
+  const [topology, setTopology] = useState<TopologyNode[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 加载设备拓扑
+  const fetchTopology = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/devices/topology', {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || `获取设备拓扑失败: ${response.statusText}`);
+      }
+
+      const { data } = await response.json();
+      setTopology(data);
+    } catch (err) {
+      console.error('Error fetching device topology:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTopology();
+  }, [fetchTopology]);
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">设备拓扑</h1>
+        <button
+          onClick={fetchTopology}
+          disabled={loading}
+          className="px-4 py-2 rounded-md bg-blue-500 text-white disabled:opacity-50"
+        >
+          {loading ? '加载中...' : '刷新'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 rounded-md bg-red-100 px-4 py-3 text-red-700">{error}</div>
+      )}
+
+      {!loading && !error && topology.length === 0 ? (
+        <div className="text-center text-gray-500 py-12">暂无网关设备</div>
+      ) : (
+        <ul className="rounded-md border border-gray-200 bg-white py-2">
+          {topology.map(node => (
+            <TopologyTreeNode key={node.id} node={node} depth={0} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
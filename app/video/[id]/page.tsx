@@ -1,12 +1,12 @@
 'use client';
 
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { StreamType } from '@prisma/client';
-import { VideoPlayer, useVideoConfig } from '@/app/components/VideoPlayer';
+import { LivePlayer, RecordingPlayer, PtzControl, useVideoConfig } from '@/app/components/VideoPlayer';
 
 /**
  * 视频详情页面
- * 用于查看单个视频流
+ * 用于查看单个视频流的实时画面和录像回放
  */
 export default function VideoDetailPage({ 
   params 
@@ -16,6 +16,7 @@ export default function VideoDetailPage({
   const router = useRouter();
   const videoId = params.id;
   const { videoConfig, loading, error } = useVideoConfig(videoId);
+  const [viewMode, setViewMode] = useState<'live' | 'playback'>('live');
 
   if (loading) {
     return (
@@ -63,14 +64,38 @@ export default function VideoDetailPage({
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="md:col-span-2">
-          <div className="bg-black aspect-video">
-            <VideoPlayer
-              url={videoConfig.streamUrl}
-              type={videoConfig.streamType as StreamType}
-              width="100%"
-              height="100%"
-            />
+          <div className="flex space-x-2 mb-2">
+            <button
+              onClick={() => setViewMode('live')}
+              className={`px-3 py-1 rounded ${
+                viewMode === 'live' ? 'bg-blue-500 text-white' : 'bg-gray-200'
+              }`}
+            >
+              实时
+            </button>
+            <button
+              onClick={() => setViewMode('playback')}
+              className={`px-3 py-1 rounded ${
+                viewMode === 'playback' ? 'bg-blue-500 text-white' : 'bg-gray-200'
+              }`}
+            >
+              回放
+            </button>
           </div>
+          {viewMode === 'live' ? (
+            <div className="relative bg-black aspect-video">
+              <LivePlayer
+                videoConfigId={videoId}
+                width="100%"
+                height="100%"
+              />
+              {videoConfig.ptzCapabilities && (
+                <PtzControl videoConfigId={videoId} capabilities={videoConfig.ptzCapabilities} />
+              )}
+            </div>
+          ) : (
+            <RecordingPlayer videoConfigId={videoId} />
+          )}
         </div>
         
         <div>
@@ -104,13 +129,6 @@ export default function VideoDetailPage({
                 <div className="text-sm font-medium text-gray-500">更新时间</div>
                 <div>{new Date(videoConfig.updatedAt).toLocaleString()}</div>
               </div>
-              
-              <div>
-                <div className="text-sm font-medium text-gray-500">视频流地址</div>
-                <div className="text-sm break-all bg-gray-50 p-2 rounded">
-                  {videoConfig.streamUrl}
-                </div>
-              </div>
             </div>
             
             <div className="mt-6 flex space-x-2">
@@ -2,8 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { StreamType } from '@prisma/client';
-import { VideoCapture, useVideoConfig } from '@/app/components/VideoPlayer';
+import { VideoCapture, useVideoConfig, usePlaybackUrl } from '@/app/components/VideoPlayer';
 
 /**
  * 视频截图页面
@@ -17,6 +16,7 @@ export default function VideoCaptureScreen({
   const router = useRouter();
   const videoId = searchParams.id;
   const { videoConfig, loading, error } = useVideoConfig(videoId || null);
+  const { playback, error: playbackError } = usePlaybackUrl(videoId || null);
 
   if (!videoId) {
     return (
@@ -76,18 +76,26 @@ export default function VideoCaptureScreen({
           <div className="text-sm text-gray-500">视频流类型: {videoConfig.streamType}</div>
         </div>
 
-        <VideoCapture
-          url={videoConfig.streamUrl}
-          type={videoConfig.streamType as StreamType}
-          width="100%"
-          height="400px"
-        />
+        {playback ? (
+          <VideoCapture
+            url={playback.url}
+            type={playback.type}
+            videoConfigId={videoConfig.id}
+            width="100%"
+            height="400px"
+          />
+        ) : (
+          <div className="bg-black h-[400px] flex items-center justify-center text-sm text-gray-400">
+            {playbackError ? `无法获取播放地址: ${playbackError}` : '加载中...'}
+          </div>
+        )}
 
         <div className="mt-6 text-sm text-gray-500">
           <p>使用说明:</p>
           <ol className="list-decimal ml-5 mt-2 space-y-1">
             <li>点击"截取画面"按钮捕获当前视频帧</li>
             <li>截图成功后可以查看预览</li>
+            <li>点击"服务器截图"由服务端抓取画面并保存，同时更新视频封面</li>
             <li>点击"下载截图"保存图片到本地</li>
             <li>点击"清除截图"可以重新截取</li>
           </ol>
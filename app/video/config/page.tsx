@@ -3,7 +3,16 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { StreamType } from '@prisma/client';
-import { useTestVideoStream } from '@/app/components/VideoPlayer';
+import { useDeviceLinks, useTestVideoStream } from '@/app/components/VideoPlayer';
+
+// 各视频流类型的地址前缀提示
+const STREAM_URL_PREFIX: Record<StreamType, string> = {
+  [StreamType.WEBSOCKET]: 'ws://',
+  [StreamType.HTTP]: 'http://',
+  [StreamType.RTSP]: 'rtsp://',
+  [StreamType.RTMP]: 'rtmp://',
+  [StreamType.HLS]: 'http://',
+};
 
 /**
  * 视频配置页面
@@ -13,7 +22,7 @@ export default function VideoConfigPage() {
   const router = useRouter();
   // 假设当前组织ID，实际应从用户会话或上下文获取
   const organizationId = 'org123';
-  const { testStream, loading: testLoading, result: testResult } = useTestVideoStream();
+  const { testStream, reset: resetTest, loading: testLoading, result: testResult } = useTestVideoStream();
   
   const [videoConfigs, setVideoConfigs] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
@@ -29,7 +38,13 @@ export default function VideoConfigPage() {
     status: true,
     cover: '',
     organizationId: organizationId,
+    onvifUrl: '',
+    onvifUsername: '',
+    onvifPassword: '',
   });
+  const [ptzMessage, setPtzMessage] = useState<string | null>(null);
+  const [ptzDetecting, setPtzDetecting] = useState(false);
+  const { devices: linkedDevices, save: saveDeviceLinks, error: deviceLinkError } = useDeviceLinks(editingConfig?.id || null);
 
   // 加载视频配置列表
   useEffect(() => {
@@ -38,7 +53,12 @@ export default function VideoConfigPage() {
       setError(null);
       
       try {
-        const response = await fetch(`/api/streams?organizationId=${organizationId}`);
+        // 配置管理需要编辑摄像头源地址
+        const response = await fetch(`/api/streams?organizationId=${organizationId}&includeSource=true`, {
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem('token')}`,
+          },
+        });
         
         if (!response.ok) {
           throw new Error(`Failed to fetch video configs: ${response.statusText}`);
@@ -68,6 +88,11 @@ export default function VideoConfigPage() {
     } else {
       setFormData({ ...formData, [name]: value });
     }
+
+    // 地址或类型变化后需要重新测试
+    if (name === 'streamUrl' || name === 'streamType') {
+      resetTest();
+    }
   };
 
   // 测试视频流
@@ -110,7 +135,11 @@ export default function VideoConfigPage() {
       }
       
       // 重新加载视频配置列表
-      const listResponse = await fetch(`/api/streams?organizationId=${organizationId}`);
+      const listResponse = await fetch(`/api/streams?organizationId=${organizationId}&includeSource=true`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
       const data = await listResponse.json();
       setVideoConfigs(data);
       
@@ -154,6 +183,7 @@ export default function VideoConfigPage() {
 
   // 编辑视频配置
   const handleEdit = (config: any) => {
+    resetTest();
     setEditingConfig(config);
     setFormData({
       name: config.name,
@@ -163,7 +193,12 @@ export default function VideoConfigPage() {
       status: config.status,
       cover: config.cover || '',
       organizationId: config.organizationId,
+      onvifUrl: config.onvifUrl || '',
+      onvifUsername: config.onvifUsername || '',
+      // 密码不回显，留空表示不修改
+      onvifPassword: '',
     });
+    setPtzMessage(config.ptzCapabilities ? '已检测到云台能力' : null);
     setIsCreating(true);
   };
 
@@ -177,6 +212,7 @@ export default function VideoConfigPage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
         },
         body: JSON.stringify({ status: !status }),
       });
@@ -201,6 +237,7 @@ export default function VideoConfigPage() {
 
   // 重置表单
   const resetForm = () => {
+    resetTest();
     setFormData({
       name: '',
       cameraCode: '',
@@ -209,7 +246,51 @@ export default function VideoConfigPage() {
       status: true,
       cover: '',
       organizationId: organizationId,
+      onvifUrl: '',
+      onvifUsername: '',
+      onvifPassword: '',
     });
+    setPtzMessage(null);
+  };
+
+  // 检测云台能力（需先保存ONVIF配置）
+  const handleDetectPtz = async () => {
+    if (!editingConfig) return;
+
+    setPtzDetecting(true);
+    setPtzMessage(null);
+
+    try {
+      const response = await fetch(`/api/streams/${editingConfig.id}/ptz/discover`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `检测失败: ${response.statusText}`);
+      }
+
+      const capabilities = data.capabilities;
+      setPtzMessage(capabilities
+        ? `支持${[capabilities.pan && '平移', capabilities.tilt && '俯仰', capabilities.zoom && '变倍', capabilities.presets && '预置位'].filter(Boolean).join('、')}`
+        : '未检测到云台能力');
+    } catch (err) {
+      console.error('Error detecting PTZ capabilities:', err);
+      setPtzMessage(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setPtzDetecting(false);
+    }
+  };
+
+  // 切换联动设备，立即保存
+  const handleToggleDeviceLink = (deviceId: string) => {
+    const deviceIds = linkedDevices
+      .filter(device => device.id === deviceId ? !device.linked : device.linked)
+      .map(device => device.id);
+    saveDeviceLinks(deviceIds);
   };
 
   return (
@@ -307,6 +388,9 @@ export default function VideoConfigPage() {
                 >
                   <option value={StreamType.WEBSOCKET}>WebSocket</option>
                   <option value={StreamType.HTTP}>HTTP</option>
+                  <option value={StreamType.RTSP}>RTSP</option>
+                  <option value={StreamType.RTMP}>RTMP</option>
+                  <option value={StreamType.HLS}>HLS</option>
                 </select>
               </div>
               <div className="md:col-span-2">
@@ -321,7 +405,7 @@ export default function VideoConfigPage() {
                     onChange={handleInputChange}
                     required
                     className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md"
-                    placeholder={`输入${formData.streamType === StreamType.WEBSOCKET ? 'ws://' : 'http://'}地址`}
+                    placeholder={`输入${STREAM_URL_PREFIX[formData.streamType]}地址`}
                   />
                   <button
                     type="button"
@@ -329,7 +413,7 @@ export default function VideoConfigPage() {
                     disabled={testLoading || !formData.streamUrl}
                     className="px-4 py-2 bg-gray-200 text-gray-700 rounded-r-md disabled:opacity-50"
                   >
-                    测试
+                    {testLoading ? '测试中...' : '测试'}
                   </button>
                 </div>
                 {testResult && (
@@ -337,7 +421,124 @@ export default function VideoConfigPage() {
                     {testResult.message}
                   </div>
                 )}
+                {testResult?.info && (
+                  <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-2 text-sm bg-gray-50 border border-gray-200 rounded-md p-3">
+                    <div>
+                      <span className="text-gray-500">协议：</span>
+                      {testResult.info.protocol}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">视频编码：</span>
+                      {testResult.info.videoCodec || '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">分辨率：</span>
+                      {testResult.info.width && testResult.info.height
+                        ? `${testResult.info.width}×${testResult.info.height}`
+                        : '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">帧率：</span>
+                      {testResult.info.frameRate ? `${testResult.info.frameRate} fps` : '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">音频：</span>
+                      {testResult.info.hasAudio ? testResult.info.audioCodec || '有' : '无'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">码率：</span>
+                      {testResult.info.bitrate ? `${testResult.info.bitrate} kbps` : '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">连接耗时：</span>
+                      {testResult.info.connectTime !== undefined ? `${testResult.info.connectTime} ms` : '-'}
+                    </div>
+                    <div>
+                      <span className="text-gray-500">首帧耗时：</span>
+                      {testResult.info.timeToFirstFrame !== undefined ? `${testResult.info.timeToFirstFrame} ms` : '-'}
+                    </div>
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  ONVIF设备地址
+                </label>
+                <div className="flex space-x-2">
+                  <input
+                    type="text"
+                    name="onvifUrl"
+                    value={formData.onvifUrl}
+                    onChange={handleInputChange}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="http://摄像头IP/onvif/device_service（可选，用于云台控制）"
+                  />
+                  {editingConfig && (
+                    <button
+                      type="button"
+                      onClick={handleDetectPtz}
+                      disabled={ptzDetecting || !editingConfig.onvifUrl}
+                      title={editingConfig.onvifUrl ? '' : '请先保存ONVIF设备地址'}
+                      className="px-4 py-2 bg-green-500 text-white rounded-md whitespace-nowrap disabled:opacity-50"
+                    >
+                      {ptzDetecting ? '检测中...' : '检测云台'}
+                    </button>
+                  )}
+                </div>
+                {ptzMessage && <div className="mt-1 text-sm text-gray-600">{ptzMessage}</div>}
               </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    ONVIF用户名
+                  </label>
+                  <input
+                    type="text"
+                    name="onvifUsername"
+                    value={formData.onvifUsername}
+                    onChange={handleInputChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder="用户名"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    ONVIF密码
+                  </label>
+                  <input
+                    type="password"
+                    name="onvifPassword"
+                    value={formData.onvifPassword}
+                    onChange={handleInputChange}
+                    autoComplete="new-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    placeholder={editingConfig ? '留空表示不修改' : '密码'}
+                  />
+                </div>
+              </div>
+              {editingConfig && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    联动设备（设备告警时在视频墙弹出该摄像头）
+                  </label>
+                  <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-md p-2 space-y-1">
+                    {linkedDevices.length === 0 && <div className="text-sm text-gray-500">暂无设备</div>}
+                    {linkedDevices.map(device => (
+                      <label key={device.id} className="flex items-center text-sm">
+                        <input
+                          type="checkbox"
+                          checked={device.linked}
+                          onChange={() => handleToggleDeviceLink(device.id)}
+                          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                        />
+                        <span className="ml-2">{device.name}</span>
+                        <span className="ml-2 text-gray-400">{device.alias}</span>
+                      </label>
+                    ))}
+                  </div>
+                  {deviceLinkError && <div className="mt-1 text-sm text-red-500">{deviceLinkError}</div>}
+                </div>
+              )}
               <div>
                 <label className="flex items-center">
                   <input
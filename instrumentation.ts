@@ -0,0 +1,74 @@
+/**
+ * 服务启动钩子
+ * Next.js服务端启动时执行一次，用于启动后台服务
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  // 播放令牌、设备凭证和OTA服务在生产环境缺少令牌密钥时抛出异常，不捕获以阻止服务启动
+  await import('./lib/stream-token-service');
+  await import('./lib/ota-service');
+  const { deviceCredentialService } = await import('./lib/device-credential-service');
+  // TCP认证器须在任何TCP服务监听前注册
+  deviceCredentialService.registerTcpAuthenticator();
+
+  try {
+    const { websocketService } = await import('./lib/websocket-service');
+    const { streamHealthMonitor } = await import('./lib/stream-health-monitor');
+    const { streamIngestService } = await import('./lib/stream-ingest-service');
+    const { streamRecordingService } = await import('./lib/stream-recording-service');
+    const { streamSnapshotService } = await import('./lib/stream-snapshot-service');
+    const { deviceTelemetryService } = await import('./lib/device-telemetry-service');
+    const { otaService } = await import('./lib/ota-service');
+    const { mqttBrokerService } = await import('./lib/mqtt-broker-service');
+    const { coapService } = await import('./lib/coap-service');
+    const { deviceCodecService } = await import('./lib/device-codec-service');
+    const { modbusService } = await import('./lib/modbus-service');
+    // 加载通知服务以注册摄像头状态、设备告警和命令状态等事件监听
+    await import('./lib/device-notification-service');
+    // 加载设备影子服务以同步属性上报，并在设备上线时下发期望状态
+    await import('./lib/device-shadow-service');
+    // 加载网关服务以处理子设备拓扑管理和消息代理
+    await import('./lib/gateway-service');
+
+    // 内置MQTT Broker默认关闭，使用外部Broker时无需启用
+    if (process.env.MQTT_BROKER === 'true') {
+      await mqttBrokerService.start();
+    }
+    // CoAP服务默认关闭，接入受限设备时启用
+    if (process.env.COAP_SERVER === 'true') {
+      await coapService.start();
+    }
+    if (process.env.WEBSOCKET_SERVER !== 'false') {
+      await websocketService.start();
+    }
+    if (process.env.STREAM_WS_FLV !== 'false') {
+      await streamIngestService.startWebSocketServer();
+    }
+    if (process.env.STREAM_HEALTH_MONITOR !== 'false') {
+      streamHealthMonitor.start();
+    }
+    if (process.env.STREAM_RECORDING !== 'false') {
+      streamRecordingService.start();
+    }
+    if (process.env.SNAPSHOT_COVER_REFRESH !== 'false') {
+      streamSnapshotService.start();
+    }
+    if (process.env.DEVICE_TELEMETRY !== 'false') {
+      await deviceTelemetryService.start();
+    }
+    if (process.env.OTA_SERVICE !== 'false') {
+      otaService.start();
+    }
+    if (process.env.DEVICE_CODEC !== 'false') {
+      await deviceCodecService.start();
+    }
+    if (process.env.MODBUS_MASTER !== 'false') {
+      await modbusService.start();
+    }
+  } catch (error) {
+    console.error('Error starting background services:', error);
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { AuthService, TokenPayload } from './auth';
 import { PermissionService } from './permission-service';
+import prisma from './db-prisma';
 
 /**
  * 认证中间件
@@ -281,4 +282,77 @@ export function getCurrentUser(request: NextRequest): Partial<TokenPayload> | nu
   } catch (error) {
     return null;
   }
-} 
\ No newline at end of file
+} 
+
+/**
+ * 获取请求的客户端信息（用于审计）
+ * @param request 请求对象
+ * @returns IP地址和用户代理
+ */
+export function getRequestInfo(request: NextRequest): { ipAddress?: string; userAgent?: string } {
+  return {
+    ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+  };
+}
+
+/**
+ * 获取用户可访问的组织ID
+ * 系统管理员可访问所有组织，其他用户只能访问自己所在组织及其子组织
+ * @param user 当前用户
+ * @returns 组织ID列表，系统管理员返回null表示不限制
+ */
+export async function getAccessibleOrganizationIds(user: any): Promise<string[] | null> {
+  if (user.role === 'SYSTEM_ADMIN') {
+    return null;
+  }
+
+  const userOrg = await prisma.organization.findUnique({
+    where: { id: user.organizationId },
+    include: {
+      children: {
+        select: { id: true },
+      },
+    },
+  });
+
+  if (!userOrg) {
+    return [];
+  }
+
+  return [userOrg.id, ...userOrg.children.map((child: { id: string }) => child.id)];
+}
+
+/**
+ * 检查用户是否可以访问指定组织的资源
+ * @param user 当前用户
+ * @param organizationId 组织ID
+ * @returns 是否可以访问
+ */
+export async function canAccessOrganization(user: any, organizationId: string): Promise<boolean> {
+  const allowedOrgIds = await getAccessibleOrganizationIds(user);
+  return allowedOrgIds === null || allowedOrgIds.includes(organizationId);
+}
+
+/**
+ * 检查视频配置是否存在且属于用户可访问的组织
+ * @param user 当前用户
+ * @param videoConfigId 视频配置ID
+ * @returns 错误响应，检查通过时返回null
+ */
+export async function checkVideoConfigAccess(user: any, videoConfigId: string): Promise<NextResponse | null> {
+  const videoConfig = await prisma.videoConfig.findUnique({
+    where: { id: videoConfigId },
+    select: { organizationId: true },
+  });
+
+  if (!videoConfig) {
+    return NextResponse.json({ error: 'Video configuration not found' }, { status: 404 });
+  }
+
+  if (!(await canAccessOrganization(user, videoConfig.organizationId))) {
+    return NextResponse.json({ error: 'No permission to access this video stream' }, { status: 403 });
+  }
+
+  return null;
+}
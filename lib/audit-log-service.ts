@@ -47,6 +47,8 @@ export enum AuditEventType {
   DEVICE_DELETE = 'device_delete',
   DEVICE_ONLINE = 'device_online',
   DEVICE_OFFLINE = 'device_offline',
+  DEVICE_COMMAND = 'device_command',
+  DEVICE_ALARM = 'device_alarm',
   
   // 数据访问事件
   DATA_READ = 'data_read',
@@ -63,7 +65,19 @@ export enum AuditEventType {
   // 安全事件
   SECURITY_ALERT = 'security_alert',
   ACCESS_DENIED = 'access_denied',
-  SUSPICIOUS_ACTIVITY = 'suspicious_activity'
+  SUSPICIOUS_ACTIVITY = 'suspicious_activity',
+
+  // 通知事件
+  NOTIFICATION_SENT = 'notification_sent',
+
+  // 视频事件
+  VIDEO_PTZ_CONTROL = 'video_ptz_control',
+  VIDEO_TOKEN_ISSUED = 'video_token_issued',
+
+  // OTA升级事件
+  OTA_FIRMWARE = 'ota_firmware',
+  OTA_CAMPAIGN = 'ota_campaign',
+  OTA_TASK = 'ota_task'
 }
 
 /**
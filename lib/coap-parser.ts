@@ -0,0 +1,348 @@
+/**
+ * CoAP报文解析工具 - CoAP（RFC 7252）报文的解析与序列化
+ *
+ * 该模块实现了以下功能：
+ * 1. CoAP报文头、令牌、选项和负载的解析与序列化
+ * 2. 选项值的无符号整数和字符串编解码
+ * 3. Block1/Block2块传输选项（RFC 7959）编解码
+ */
+
+/**
+ * CoAP报文类型
+ */
+export enum CoapType {
+  CON = 0,
+  NON = 1,
+  ACK = 2,
+  RST = 3
+}
+
+/**
+ * CoAP方法码和响应码（class << 5 | detail）
+ */
+export const CoapCode = {
+  EMPTY: 0x00,
+  GET: 0x01,
+  POST: 0x02,
+  PUT: 0x03,
+  DELETE: 0x04,
+  CREATED: 0x41, // 2.01
+  DELETED: 0x42, // 2.02
+  VALID: 0x43, // 2.03
+  CHANGED: 0x44, // 2.04
+  CONTENT: 0x45, // 2.05
+  CONTINUE: 0x5f, // 2.31
+  BAD_REQUEST: 0x80, // 4.00
+  UNAUTHORIZED: 0x81, // 4.01
+  BAD_OPTION: 0x82, // 4.02
+  FORBIDDEN: 0x83, // 4.03
+  NOT_FOUND: 0x84, // 4.04
+  METHOD_NOT_ALLOWED: 0x85, // 4.05
+  REQUEST_ENTITY_INCOMPLETE: 0x88, // 4.08
+  REQUEST_ENTITY_TOO_LARGE: 0x8d, // 4.13
+  UNSUPPORTED_CONTENT_FORMAT: 0x8f, // 4.15
+  INTERNAL_SERVER_ERROR: 0xa0, // 5.00
+  SERVICE_UNAVAILABLE: 0xa3, // 5.03
+} as const;
+
+/**
+ * CoAP选项编号
+ */
+export const CoapOption = {
+  IF_MATCH: 1,
+  URI_HOST: 3,
+  ETAG: 4,
+  IF_NONE_MATCH: 5,
+  OBSERVE: 6,
+  URI_PORT: 7,
+  LOCATION_PATH: 8,
+  URI_PATH: 11,
+  CONTENT_FORMAT: 12,
+  MAX_AGE: 14,
+  URI_QUERY: 15,
+  ACCEPT: 17,
+  LOCATION_QUERY: 20,
+  BLOCK2: 23,
+  BLOCK1: 27,
+  SIZE2: 28,
+  PROXY_URI: 35,
+  PROXY_SCHEME: 39,
+  SIZE1: 60,
+} as const;
+
+/**
+ * 内容格式编号
+ */
+export const CoapContentFormat = {
+  TEXT_PLAIN: 0,
+  OCTET_STREAM: 42,
+  JSON: 50,
+} as const;
+
+/**
+ * CoAP选项
+ */
+export interface CoapOptionValue {
+  // 选项编号
+  number: number;
+  // 选项值
+  value: Buffer;
+}
+
+/**
+ * CoAP报文
+ */
+export interface CoapMessage {
+  // 报文类型
+  type: CoapType;
+  // 方法码或响应码
+  code: number;
+  // 报文ID
+  messageId: number;
+  // 令牌（0~8字节）
+  token: Buffer;
+  // 选项，按编号升序
+  options: CoapOptionValue[];
+  // 负载
+  payload: Buffer;
+}
+
+/**
+ * 块传输选项
+ */
+export interface CoapBlock {
+  // 块序号
+  num: number;
+  // 是否还有后续块
+  more: boolean;
+  // 块大小指数，块大小 = 2^(szx + 4)
+  szx: number;
+}
+
+// CoAP协议版本
+const COAP_VERSION = 1;
+// 负载标记
+const PAYLOAD_MARKER = 0xff;
+
+/**
+ * 解析选项增量或长度的扩展字节
+ * @param nibble 4位值
+ * @param data 报文
+ * @param offset 当前偏移
+ * @returns 实际值和新偏移，格式错误时返回null
+ */
+function readOptionNibble(nibble: number, data: Buffer, offset: number): { value: number; offset: number } | null {
+  if (nibble < 13) {
+    return { value: nibble, offset };
+  }
+  if (nibble === 13) {
+    if (offset + 1 > data.length) return null;
+    return { value: data[offset] + 13, offset: offset + 1 };
+  }
+  if (nibble === 14) {
+    if (offset + 2 > data.length) return null;
+    return { value: data.readUInt16BE(offset) + 269, offset: offset + 2 };
+  }
+  // 15为保留值
+  return null;
+}
+
+/**
+ * 编码选项增量或长度
+ * @param value 实际值
+ * @returns 4位值和扩展字节
+ */
+function writeOptionNibble(value: number): { nibble: number; extended: Buffer } {
+  if (value < 13) {
+    return { nibble: value, extended: Buffer.alloc(0) };
+  }
+  if (value < 269) {
+    return { nibble: 13, extended: Buffer.from([value - 13]) };
+  }
+  const extended = Buffer.alloc(2);
+  extended.writeUInt16BE(value - 269);
+  return { nibble: 14, extended };
+}
+
+/**
+ * 解析CoAP报文
+ * @param data UDP数据报
+ * @returns CoAP报文，格式错误时返回null
+ */
+export function parseCoapMessage(data: Buffer): CoapMessage | null {
+  if (data.length < 4) {
+    return null;
+  }
+
+  const version = data[0] >> 6;
+  const type = (data[0] >> 4) & 0x03;
+  const tokenLength = data[0] & 0x0f;
+  if (version !== COAP_VERSION || tokenLength > 8 || data.length < 4 + tokenLength) {
+    return null;
+  }
+
+  const code = data[1];
+  const messageId = data.readUInt16BE(2);
+  const token = Buffer.from(data.subarray(4, 4 + tokenLength));
+  const options: CoapOptionValue[] = [];
+  let offset = 4 + tokenLength;
+  let optionNumber = 0;
+
+  while (offset < data.length && data[offset] !== PAYLOAD_MARKER) {
+    const header = data[offset++];
+    const delta = readOptionNibble(header >> 4, data, offset);
+    if (!delta) return null;
+    const length = readOptionNibble(header & 0x0f, data, delta.offset);
+    if (!length) return null;
+
+    offset = length.offset;
+    if (offset + length.value > data.length) {
+      return null;
+    }
+
+    optionNumber += delta.value;
+    options.push({ number: optionNumber, value: Buffer.from(data.subarray(offset, offset + length.value)) });
+    offset += length.value;
+  }
+
+  let payload = Buffer.alloc(0);
+  if (offset < data.length) {
+    // 负载标记后必须有负载
+    if (offset + 1 === data.length) {
+      return null;
+    }
+    payload = Buffer.from(data.subarray(offset + 1));
+  }
+
+  // 空报文不能包含令牌、选项和负载
+  if (code === CoapCode.EMPTY && (tokenLength > 0 || options.length > 0 || payload.length > 0)) {
+    return null;
+  }
+
+  return { type, code, messageId, token, options, payload };
+}
+
+/**
+ * 序列化CoAP报文
+ * @param message CoAP报文
+ * @returns UDP数据报
+ */
+export function serializeCoapMessage(message: CoapMessage): Buffer {
+  const parts: Buffer[] = [];
+  const header = Buffer.alloc(4);
+  header[0] = (COAP_VERSION << 6) | ((message.type & 0x03) << 4) | (message.token.length & 0x0f);
+  header[1] = message.code;
+  header.writeUInt16BE(message.messageId & 0xffff, 2);
+  parts.push(header, message.token);
+
+  let previous = 0;
+  const options = [...message.options].sort((a, b) => a.number - b.number);
+  for (const option of options) {
+    const delta = writeOptionNibble(option.number - previous);
+    const length = writeOptionNibble(option.value.length);
+    parts.push(Buffer.from([(delta.nibble << 4) | length.nibble]), delta.extended, length.extended, option.value);
+    previous = option.number;
+  }
+
+  if (message.payload.length > 0) {
+    parts.push(Buffer.from([PAYLOAD_MARKER]), message.payload);
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * 编码无符号整数选项值（最短字节数，0编码为空）
+ * @param value 整数值
+ * @returns 选项值
+ */
+export function encodeUintOption(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining = Math.floor(remaining / 256);
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * 解码无符号整数选项值
+ * @param value 选项值
+ * @returns 整数值
+ */
+export function decodeUintOption(value: Buffer): number {
+  let result = 0;
+  for (const byte of value) {
+    result = result * 256 + byte;
+  }
+  return result;
+}
+
+/**
+ * 获取第一个指定编号的选项值
+ * @param message CoAP报文
+ * @param number 选项编号
+ * @returns 选项值，不存在时返回undefined
+ */
+export function getOption(message: CoapMessage, number: number): Buffer | undefined {
+  return message.options.find(option => option.number === number)?.value;
+}
+
+/**
+ * 获取所有指定编号的字符串选项值（如Uri-Path、Uri-Query）
+ * @param message CoAP报文
+ * @param number 选项编号
+ * @returns 选项值列表
+ */
+export function getStringOptions(message: CoapMessage, number: number): string[] {
+  return message.options.filter(option => option.number === number).map(option => option.value.toString('utf8'));
+}
+
+/**
+ * 解码块传输选项
+ * @param value 选项值
+ * @returns 块传输选项，块大小指数为保留值7时返回null
+ */
+export function decodeBlockOption(value: Buffer): CoapBlock | null {
+  const raw = decodeUintOption(value);
+  const szx = raw & 0x07;
+  if (szx === 7) {
+    return null;
+  }
+  return { num: Math.floor(raw / 16), more: (raw & 0x08) !== 0, szx };
+}
+
+/**
+ * 编码块传输选项
+ * @param block 块传输选项
+ * @returns 选项值
+ */
+export function encodeBlockOption(block: CoapBlock): Buffer {
+  return encodeUintOption(block.num * 16 + (block.more ? 0x08 : 0) + block.szx);
+}
+
+/**
+ * 块大小指数对应的块大小
+ * @param szx 块大小指数
+ * @returns 块大小（字节）
+ */
+export function blockSize(szx: number): number {
+  return 1 << (szx + 4);
+}
+
+/**
+ * 判断方法码是否为请求
+ * @param code 方法码
+ */
+export function isRequestCode(code: number): boolean {
+  return code >= 0x01 && code <= 0x1f;
+}
+
+/**
+ * 格式化方法码或响应码，如 "2.05"
+ * @param code 方法码或响应码
+ */
+export function formatCoapCode(code: number): string {
+  return `${code >> 5}.${String(code & 0x1f).padStart(2, '0')}`;
+}
@@ -0,0 +1,861 @@
+/**
+ * CoAP服务 - 基于UDP服务为受限设备提供CoAP（RFC 7252）接入
+ *
+ * 该服务实现了以下功能：
+ * 1. CoAP服务端（COAP_PORT，默认5683），支持可确认（CON）和不可确认（NON）报文，按报文ID去重
+ * 2. 设备认证：POST /auth 负载 { "deviceId", "timestamp", "sign" }（签名方式见device-credential-service），返回访问令牌，
+ *    后续请求通过URI查询参数 token={访问令牌} 携带
+ * 3. 设备上报：POST 与MQTT主题同名的URI路径（如 /devices/{deviceId}/thing/property/post、/devices/{deviceId}/command/reply），
+ *    负载同MQTT，进入与MQTT相同的物模型和命令应答处理流程
+ * 4. 命令下发：设备以Observe方式 GET /devices/{deviceId}/command，命令以可确认通知下发，未收到确认时按指数退避重传
+ * 5. 块传输（RFC 7959）：Block1接收分块上报，Block2分块下发超过块大小的通知
+ * 6. 设备请求时更新DeviceConnectionService中的设备状态，长时间无请求由心跳检测置为不活跃
+ */
+
+import * as crypto from 'crypto';
+import { ProtocolType } from '@prisma/client';
+import { udpService } from './tcp-udp-service';
+import {
+  CoapBlock,
+  CoapCode,
+  CoapContentFormat,
+  CoapMessage,
+  CoapOption,
+  CoapOptionValue,
+  CoapType,
+  blockSize,
+  decodeBlockOption,
+  decodeUintOption,
+  encodeBlockOption,
+  encodeUintOption,
+  getOption,
+  getStringOptions,
+  isRequestCode,
+  parseCoapMessage,
+  serializeCoapMessage,
+} from './coap-parser';
+import { cryptoService } from './crypto-service';
+import { deviceCredentialService } from './device-credential-service';
+import { deviceConnectionService, DeviceConnectionStatus, DeviceProtocol } from './device-connection-service';
+import { deviceCommandDispatcher } from './device-command-dispatcher';
+import { thingModelService } from './thing-model-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 远端地址
+ */
+interface CoapEndpoint {
+  // 地址
+  address: string;
+  // 端口
+  port: number;
+}
+
+/**
+ * 访问令牌
+ */
+interface AccessToken {
+  // 设备ID
+  deviceId: string;
+  // 过期时间（毫秒时间戳）
+  expiresAt: number;
+}
+
+/**
+ * 已处理的请求，用于重复报文直接重发响应
+ */
+interface Exchange {
+  // 序列化后的响应，处理中为null
+  response: Buffer | null;
+  // 过期时间（毫秒时间戳）
+  expiresAt: number;
+}
+
+/**
+ * Block1分块上报
+ */
+interface BlockUpload {
+  // 已接收的块
+  chunks: Buffer[];
+  // 已接收字节数
+  size: number;
+  // 过期时间（毫秒时间戳）
+  expiresAt: number;
+}
+
+/**
+ * 命令资源观察者
+ */
+interface CoapObserver extends CoapEndpoint {
+  // 设备ID
+  deviceId: string;
+  // 注册请求的令牌，通知沿用此令牌
+  token: Buffer;
+  // 通知序号（24位）
+  sequence: number;
+  // 块大小指数
+  szx: number;
+  // 最近一次通知的完整负载，用于Block2后续块请求
+  lastPayload: Buffer | null;
+}
+
+/**
+ * 待确认的通知
+ */
+interface PendingConfirmable {
+  // 设备ID
+  deviceId: string;
+  // 观察者令牌
+  token: Buffer;
+  // 序列化后的报文
+  data: Buffer;
+  // 远端地址
+  endpoint: CoapEndpoint;
+  // 已重传次数
+  retransmissions: number;
+  // 当前超时时间（毫秒）
+  timeout: number;
+  // 重传定时器
+  timer: NodeJS.Timeout;
+}
+
+// RFC 7252 传输参数
+const ACK_TIMEOUT = 2000;
+const ACK_RANDOM_FACTOR = 1.5;
+const MAX_RETRANSMIT = 4;
+const EXCHANGE_LIFETIME = 247000;
+
+// 上报负载允许的内容格式
+const UPLINK_CONTENT_FORMATS: number[] = [CoapContentFormat.JSON, CoapContentFormat.TEXT_PLAIN];
+
+/**
+ * 请求处理错误，转换为对应响应码的响应
+ */
+class CoapRequestError extends Error {
+  constructor(public readonly code: number, message: string, public readonly options: CoapOptionValue[] = []) {
+    super(message);
+  }
+}
+
+/**
+ * CoAP服务类
+ */
+export class CoapService {
+  private static instance: CoapService;
+  private running = false;
+  private messageId = crypto.randomInt(0x10000);
+  private tokens: Map<string, AccessToken> = new Map();
+  private exchanges: Map<string, Exchange> = new Map();
+  private uploads: Map<string, BlockUpload> = new Map();
+  // 命令资源观察者：设备ID -> 观察者
+  private observers: Map<string, CoapObserver> = new Map();
+  // 待确认的通知：远端地址#报文ID -> 通知
+  private confirmables: Map<string, PendingConfirmable> = new Map();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private readonly PORT = Number(process.env.COAP_PORT || 5683);
+  private readonly HOST = process.env.COAP_HOST || '0.0.0.0';
+  private readonly TOKEN_TTL = Number(process.env.COAP_TOKEN_TTL || 86400) * 1000; // 默认24小时
+  private readonly MAX_BODY_SIZE = Number(process.env.COAP_MAX_BODY_SIZE || 64 * 1024);
+  private readonly DEFAULT_SZX = 6; // 1024字节
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.handleDatagram = this.handleDatagram.bind(this);
+    this.registerCommandTransport();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): CoapService {
+    if (!CoapService.instance) {
+      CoapService.instance = new CoapService();
+    }
+    return CoapService.instance;
+  }
+
+  /**
+   * 启动CoAP服务
+   */
+  public async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    udpService.on('message', this.handleDatagram);
+    try {
+      await udpService.createServer({ port: this.PORT, host: this.HOST });
+    } catch (error) {
+      udpService.off('message', this.handleDatagram);
+      throw error;
+    }
+
+    this.running = true;
+    this.cleanupTimer = setInterval(() => this.cleanup(), 60000);
+    console.log(`CoAP服务已启动，监听 ${this.HOST}:${this.PORT}`);
+  }
+
+  /**
+   * 停止CoAP服务
+   */
+  public async stop(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
+    udpService.off('message', this.handleDatagram);
+    udpService.closeServer(this.PORT);
+
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    for (const pending of this.confirmables.values()) {
+      clearTimeout(pending.timer);
+    }
+
+    this.confirmables.clear();
+    this.observers.clear();
+    this.exchanges.clear();
+    this.uploads.clear();
+    console.log('CoAP服务已停止');
+  }
+
+  /**
+   * CoAP服务是否运行中
+   */
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 获取监听端口
+   */
+  public getPort(): number {
+    return this.PORT;
+  }
+
+  /**
+   * 设备是否已观察命令资源
+   * @param deviceId 设备ID
+   */
+  public isObserving(deviceId: string): boolean {
+    return this.observers.has(deviceId);
+  }
+
+  /**
+   * 向观察命令资源的设备发送通知
+   * @param deviceId 设备ID
+   * @param payload 通知负载
+   * @returns 是否已发送，设备未观察命令资源时返回false
+   */
+  public async notify(deviceId: string, payload: Buffer): Promise<boolean> {
+    const observer = this.observers.get(deviceId);
+    if (!this.running || !observer) {
+      return false;
+    }
+
+    observer.sequence = (observer.sequence + 1) & 0xffffff;
+    const options: CoapOptionValue[] = [
+      { number: CoapOption.OBSERVE, value: encodeUintOption(observer.sequence) },
+      { number: CoapOption.CONTENT_FORMAT, value: encodeUintOption(CoapContentFormat.JSON) },
+    ];
+
+    // 超过块大小时只发送第一块，设备以Block2继续获取后续块
+    let body = payload;
+    observer.lastPayload = null;
+    if (payload.length > blockSize(observer.szx)) {
+      observer.lastPayload = payload;
+      body = payload.subarray(0, blockSize(observer.szx));
+      options.push(
+        { number: CoapOption.ETAG, value: this.etag(observer.sequence) },
+        { number: CoapOption.BLOCK2, value: encodeBlockOption({ num: 0, more: true, szx: observer.szx }) },
+        { number: CoapOption.SIZE2, value: encodeUintOption(payload.length) }
+      );
+    }
+
+    const message: CoapMessage = {
+      type: CoapType.CON,
+      code: CoapCode.CONTENT,
+      messageId: this.nextMessageId(),
+      token: observer.token,
+      options,
+      payload: body,
+    };
+
+    this.sendConfirmable(observer, message);
+    return true;
+  }
+
+  /**
+   * 处理UDP数据报，非CoAP端口的数据报忽略
+   * @param port 服务端口
+   * @param data 数据报
+   * @param rinfo 来源地址
+   */
+  private handleDatagram(port: number, data: Buffer, rinfo: CoapEndpoint): void {
+    if (!this.running || port !== this.PORT) {
+      return;
+    }
+
+    // 无法解析的报文静默丢弃
+    const message = parseCoapMessage(data);
+    if (!message) {
+      return;
+    }
+
+    const endpoint = { address: rinfo.address, port: rinfo.port };
+
+    if (message.type === CoapType.ACK || message.type === CoapType.RST) {
+      this.handleAcknowledgement(endpoint, message);
+      return;
+    }
+
+    // 空CON报文为CoAP ping，以RST应答；非请求报文同样拒绝
+    if (message.code === CoapCode.EMPTY || !isRequestCode(message.code)) {
+      if (message.type === CoapType.CON) {
+        this.send(endpoint, { type: CoapType.RST, code: CoapCode.EMPTY, messageId: message.messageId, token: Buffer.alloc(0), options: [], payload: Buffer.alloc(0) });
+      }
+      return;
+    }
+
+    // 重复报文：已有响应则重发，处理中则忽略
+    const exchangeKey = `${this.endpointKey(endpoint)}#${message.messageId}`;
+    const exchange = this.exchanges.get(exchangeKey);
+    if (exchange) {
+      if (exchange.response) {
+        this.sendRaw(endpoint, exchange.response);
+      }
+      return;
+    }
+
+    const current: Exchange = { response: null, expiresAt: Date.now() + EXCHANGE_LIFETIME };
+    this.exchanges.set(exchangeKey, current);
+
+    this.handleRequest(endpoint, message)
+      .catch(error => {
+        if (error instanceof CoapRequestError) {
+          return this.createResponse(message, error.code, Buffer.from(error.message), error.options);
+        }
+        console.error(`处理CoAP请求失败 ${this.endpointKey(endpoint)}:`, error);
+        return this.createResponse(message, CoapCode.INTERNAL_SERVER_ERROR);
+      })
+      .then(response => {
+        current.response = serializeCoapMessage(response);
+        this.sendRaw(endpoint, current.response);
+      });
+  }
+
+  /**
+   * 处理CoAP请求
+   * @param endpoint 远端地址
+   * @param request 请求
+   * @returns 响应
+   */
+  private async handleRequest(endpoint: CoapEndpoint, request: CoapMessage): Promise<CoapMessage> {
+    const path = getStringOptions(request, CoapOption.URI_PATH);
+
+    if (path.length === 1 && path[0] === 'auth') {
+      this.assertMethod(request, CoapCode.POST);
+      return this.handleAuth(endpoint, request);
+    }
+
+    if (path.length < 3 || path[0] !== 'devices') {
+      throw new CoapRequestError(CoapCode.NOT_FOUND, 'Resource not found');
+    }
+
+    const deviceId = path[1];
+    const query = this.parseQuery(request);
+    const token = query.token ? this.tokens.get(query.token) : undefined;
+    if (!token || token.expiresAt <= Date.now()) {
+      throw new CoapRequestError(CoapCode.UNAUTHORIZED, 'Invalid or expired token');
+    }
+    if (token.deviceId !== deviceId) {
+      this.recordAccessViolation(endpoint, token.deviceId, path.join('/'));
+      throw new CoapRequestError(CoapCode.FORBIDDEN, 'Resource not allowed');
+    }
+
+    await this.markActive(deviceId, endpoint);
+
+    const resource = path.slice(2).join('/');
+    if (resource === 'command') {
+      this.assertMethod(request, CoapCode.GET);
+      return this.handleCommandResource(endpoint, deviceId, request);
+    }
+
+    this.assertMethod(request, CoapCode.POST);
+    return this.handleUplink(endpoint, deviceId, path.join('/'), request);
+  }
+
+  /**
+   * 设备认证，签发访问令牌
+   * @param endpoint 远端地址
+   * @param request 请求
+   * @returns 响应，负载为 { "token", "expiresIn" }
+   */
+  private async handleAuth(endpoint: CoapEndpoint, request: CoapMessage): Promise<CoapMessage> {
+    const body = this.parseJson(request.payload);
+    if (!body) {
+      throw new CoapRequestError(CoapCode.BAD_REQUEST, 'Payload must be a JSON object');
+    }
+
+    const verified = await deviceCredentialService.verifySignature(body.deviceId, body.timestamp, body.sign, {
+      protocol: 'COAP',
+      ipAddress: endpoint.address,
+      clientId: this.endpointKey(endpoint),
+    });
+    if (!verified) {
+      throw new CoapRequestError(CoapCode.UNAUTHORIZED, 'Authentication failed');
+    }
+
+    const deviceId: string = body.deviceId;
+
+    // 每个设备只保留最新签发的令牌
+    for (const [value, token] of this.tokens.entries()) {
+      if (token.deviceId === deviceId) {
+        this.tokens.delete(value);
+      }
+    }
+
+    const value = cryptoService.generateRandomString(32);
+    this.tokens.set(value, { deviceId, expiresAt: Date.now() + this.TOKEN_TTL });
+
+    await this.markActive(deviceId, endpoint);
+
+    return this.createResponse(
+      request,
+      CoapCode.CREATED,
+      Buffer.from(JSON.stringify({ token: value, expiresIn: Math.floor(this.TOKEN_TTL / 1000) })),
+      [{ number: CoapOption.CONTENT_FORMAT, value: encodeUintOption(CoapContentFormat.JSON) }]
+    );
+  }
+
+  /**
+   * 处理设备上报，按URI路径转换为MQTT主题后交给物模型和命令应答处理
+   * @param endpoint 远端地址
+   * @param deviceId 设备ID
+   * @param topic 与URI路径同名的MQTT主题
+   * @param request 请求
+   * @returns 响应
+   */
+  private handleUplink(endpoint: CoapEndpoint, deviceId: string, topic: string, request: CoapMessage): CoapMessage {
+    const contentFormat = getOption(request, CoapOption.CONTENT_FORMAT);
+    if (contentFormat && !UPLINK_CONTENT_FORMATS.includes(decodeUintOption(contentFormat))) {
+      throw new CoapRequestError(CoapCode.UNSUPPORTED_CONTENT_FORMAT, 'Payload must be JSON');
+    }
+
+    const upload = this.receiveBlock(endpoint, topic, request);
+    if ('response' in upload) {
+      return upload.response;
+    }
+
+    const handled =
+      thingModelService.handleMqttMessage(topic, upload.payload, 'COAP') ||
+      deviceCommandDispatcher.handleMqttMessage(topic, upload.payload);
+    if (!handled) {
+      throw new CoapRequestError(CoapCode.NOT_FOUND, 'Resource not found');
+    }
+
+    const options = upload.block
+      ? [{ number: CoapOption.BLOCK1, value: encodeBlockOption(upload.block) }]
+      : [];
+    return this.createResponse(request, CoapCode.CHANGED, undefined, options);
+  }
+
+  /**
+   * 接收Block1分块上报
+   * @param endpoint 远端地址
+   * @param topic 上报主题
+   * @param request 请求
+   * @returns 完整负载；未接收完时返回2.31 Continue响应
+   */
+  private receiveBlock(
+    endpoint: CoapEndpoint,
+    topic: string,
+    request: CoapMessage
+  ): { payload: Buffer; block?: CoapBlock } | { response: CoapMessage } {
+    const tooLarge = new CoapRequestError(CoapCode.REQUEST_ENTITY_TOO_LARGE, 'Payload too large', [
+      { number: CoapOption.SIZE1, value: encodeUintOption(this.MAX_BODY_SIZE) },
+    ]);
+
+    const option = getOption(request, CoapOption.BLOCK1);
+    if (!option) {
+      if (request.payload.length > this.MAX_BODY_SIZE) {
+        throw tooLarge;
+      }
+      return { payload: request.payload };
+    }
+
+    const block = decodeBlockOption(option);
+    if (!block) {
+      throw new CoapRequestError(CoapCode.BAD_REQUEST, 'Invalid Block1 option');
+    }
+
+    // 非最后一块的大小必须等于块大小
+    if (block.more && request.payload.length !== blockSize(block.szx)) {
+      throw new CoapRequestError(CoapCode.BAD_REQUEST, 'Invalid block size');
+    }
+
+    const key = `${this.endpointKey(endpoint)}|${topic}`;
+    if (block.num === 0) {
+      this.uploads.set(key, { chunks: [], size: 0, expiresAt: 0 });
+    }
+
+    // 按字节偏移校验块顺序，兼容传输过程中块大小变化
+    const upload = this.uploads.get(key);
+    if (!upload || block.num * blockSize(block.szx) !== upload.size) {
+      this.uploads.delete(key);
+      throw new CoapRequestError(CoapCode.REQUEST_ENTITY_INCOMPLETE, 'Block out of order');
+    }
+
+    upload.chunks.push(request.payload);
+    upload.size += request.payload.length;
+    upload.expiresAt = Date.now() + EXCHANGE_LIFETIME;
+    if (upload.size > this.MAX_BODY_SIZE) {
+      this.uploads.delete(key);
+      throw tooLarge;
+    }
+
+    if (block.more) {
+      return {
+        response: this.createResponse(request, CoapCode.CONTINUE, undefined, [
+          { number: CoapOption.BLOCK1, value: encodeBlockOption(block) },
+        ]),
+      };
+    }
+
+    this.uploads.delete(key);
+    return { payload: Buffer.concat(upload.chunks), block };
+  }
+
+  /**
+   * 处理命令资源请求：Observe注册/注销，以及获取通知的后续块
+   * 命令仅以通知下发，命令资源本身的表示为空
+   * @param endpoint 远端地址
+   * @param deviceId 设备ID
+   * @param request 请求
+   * @returns 响应
+   */
+  private handleCommandResource(endpoint: CoapEndpoint, deviceId: string, request: CoapMessage): CoapMessage {
+    const contentFormat = { number: CoapOption.CONTENT_FORMAT, value: encodeUintOption(CoapContentFormat.JSON) };
+    const block2 = getOption(request, CoapOption.BLOCK2);
+    const block = block2 ? decodeBlockOption(block2) : null;
+    if (block2 && !block) {
+      throw new CoapRequestError(CoapCode.BAD_REQUEST, 'Invalid Block2 option');
+    }
+
+    // 通知的后续块
+    if (block && block.num > 0) {
+      const observer = this.observers.get(deviceId);
+      if (!observer?.lastPayload) {
+        throw new CoapRequestError(CoapCode.NOT_FOUND, 'No notification to continue');
+      }
+
+      const size = blockSize(block.szx);
+      const offset = block.num * size;
+      if (offset >= observer.lastPayload.length) {
+        throw new CoapRequestError(CoapCode.BAD_OPTION, 'Block out of range');
+      }
+
+      const more = offset + size < observer.lastPayload.length;
+      return this.createResponse(request, CoapCode.CONTENT, observer.lastPayload.subarray(offset, offset + size), [
+        contentFormat,
+        { number: CoapOption.ETAG, value: this.etag(observer.sequence) },
+        { number: CoapOption.BLOCK2, value: encodeBlockOption({ num: block.num, more, szx: block.szx }) },
+      ]);
+    }
+
+    const observe = getOption(request, CoapOption.OBSERVE);
+    if (observe && decodeUintOption(observe) === 0) {
+      const existing = this.observers.get(deviceId);
+      const observer: CoapObserver = {
+        deviceId,
+        address: endpoint.address,
+        port: endpoint.port,
+        token: request.token,
+        sequence: existing?.sequence ?? 0,
+        szx: Math.min(block?.szx ?? this.DEFAULT_SZX, this.DEFAULT_SZX),
+        lastPayload: null,
+      };
+      this.observers.set(deviceId, observer);
+
+      return this.createResponse(request, CoapCode.CONTENT, undefined, [
+        contentFormat,
+        { number: CoapOption.OBSERVE, value: encodeUintOption(observer.sequence) },
+      ]);
+    }
+
+    // Observe=1 注销观察
+    if (observe && decodeUintOption(observe) === 1) {
+      const observer = this.observers.get(deviceId);
+      if (observer && observer.token.equals(request.token)) {
+        this.observers.delete(deviceId);
+      }
+    }
+
+    return this.createResponse(request, CoapCode.CONTENT, undefined, [contentFormat]);
+  }
+
+  /**
+   * 处理ACK/RST：停止重传，RST表示设备不再观察
+   * @param endpoint 远端地址
+   * @param message ACK或RST报文
+   */
+  private handleAcknowledgement(endpoint: CoapEndpoint, message: CoapMessage): void {
+    const key = `${this.endpointKey(endpoint)}#${message.messageId}`;
+    const pending = this.confirmables.get(key);
+    if (!pending) {
+      return;
+    }
+
+    clearTimeout(pending.timer);
+    this.confirmables.delete(key);
+
+    if (message.type === CoapType.RST) {
+      this.removeObserver(pending.deviceId, pending.token);
+    }
+  }
+
+  /**
+   * 发送可确认通知，未收到确认时按指数退避重传，超过最大重传次数后移除观察者
+   * @param observer 观察者
+   * @param message 通知
+   */
+  private sendConfirmable(observer: CoapObserver, message: CoapMessage): void {
+    const endpoint = { address: observer.address, port: observer.port };
+    const key = `${this.endpointKey(endpoint)}#${message.messageId}`;
+    // 初始超时时间在 [ACK_TIMEOUT, ACK_TIMEOUT * ACK_RANDOM_FACTOR] 内随机
+    const timeout = ACK_TIMEOUT * (1 + Math.random() * (ACK_RANDOM_FACTOR - 1));
+    const pending: PendingConfirmable = {
+      deviceId: observer.deviceId,
+      token: observer.token,
+      data: serializeCoapMessage(message),
+      endpoint,
+      retransmissions: 0,
+      timeout,
+      timer: setTimeout(() => this.retransmit(key), timeout),
+    };
+
+    this.confirmables.set(key, pending);
+    this.sendRaw(endpoint, pending.data);
+  }
+
+  /**
+   * 重传可确认通知
+   * @param key 远端地址#报文ID
+   */
+  private retransmit(key: string): void {
+    const pending = this.confirmables.get(key);
+    if (!pending) {
+      return;
+    }
+
+    if (pending.retransmissions >= MAX_RETRANSMIT) {
+      this.confirmables.delete(key);
+      console.warn(`CoAP设备 ${pending.deviceId} 未确认通知，已移除观察`);
+      this.removeObserver(pending.deviceId, pending.token);
+      return;
+    }
+
+    pending.retransmissions++;
+    pending.timeout *= 2;
+    pending.timer = setTimeout(() => this.retransmit(key), pending.timeout);
+    this.sendRaw(pending.endpoint, pending.data);
+  }
+
+  /**
+   * 移除观察者，观察者已被新的注册替换时不处理
+   * @param deviceId 设备ID
+   * @param token 观察者令牌
+   */
+  private removeObserver(deviceId: string, token: Buffer): void {
+    const observer = this.observers.get(deviceId);
+    if (observer && observer.token.equals(token)) {
+      this.observers.delete(deviceId);
+    }
+  }
+
+  /**
+   * 设备请求时更新连接状态，未在线时置为在线
+   * @param deviceId 设备ID
+   * @param endpoint 远端地址
+   */
+  private async markActive(deviceId: string, endpoint: CoapEndpoint): Promise<void> {
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+    if (connection?.status === DeviceConnectionStatus.ONLINE && connection.protocol === DeviceProtocol.COAP) {
+      await deviceConnectionService.updateDeviceActivity(deviceId, { address: endpoint.address, port: endpoint.port });
+      return;
+    }
+
+    // 状态更新失败不影响本次请求
+    try {
+      await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.ONLINE, DeviceProtocol.COAP, {
+        address: endpoint.address,
+        port: endpoint.port,
+      });
+    } catch (error) {
+      console.error(`更新CoAP设备 ${deviceId} 在线状态失败:`, error);
+    }
+  }
+
+  /**
+   * 注册CoAP命令下发通道：命令以Observe通知下发
+   */
+  private registerCommandTransport(): void {
+    deviceCommandDispatcher.registerTransport(ProtocolType.COAP, (deviceId, payload) => this.notify(deviceId, payload));
+  }
+
+  /**
+   * 创建请求的响应：CON请求以ACK携带响应，NON请求以NON响应
+   * @param request 请求
+   * @param code 响应码
+   * @param payload 负载
+   * @param options 选项
+   * @returns 响应
+   */
+  private createResponse(
+    request: CoapMessage,
+    code: number,
+    payload: Buffer = Buffer.alloc(0),
+    options: CoapOptionValue[] = []
+  ): CoapMessage {
+    const confirmable = request.type === CoapType.CON;
+    return {
+      type: confirmable ? CoapType.ACK : CoapType.NON,
+      code,
+      messageId: confirmable ? request.messageId : this.nextMessageId(),
+      token: request.token,
+      options,
+      payload,
+    };
+  }
+
+  /**
+   * 校验请求方法
+   * @param request 请求
+   * @param method 允许的方法
+   */
+  private assertMethod(request: CoapMessage, method: number): void {
+    if (request.code !== method) {
+      throw new CoapRequestError(CoapCode.METHOD_NOT_ALLOWED, 'Method not allowed');
+    }
+  }
+
+  /**
+   * 记录越权访问其他设备资源的安全事件
+   * @param endpoint 远端地址
+   * @param deviceId 令牌所属设备ID
+   * @param path 请求路径
+   */
+  private recordAccessViolation(endpoint: CoapEndpoint, deviceId: string, path: string): void {
+    auditLogService.logSecurityEvent(
+      AuditEventType.SUSPICIOUS_ACTIVITY,
+      AuditLogLevel.WARNING,
+      'CoAP request denied for resource of another device',
+      undefined,
+      endpoint.address,
+      {
+        endpoint: this.endpointKey(endpoint),
+        deviceId,
+        path,
+      }
+    ).catch(console.error);
+  }
+
+  /**
+   * 清理过期的令牌、请求记录和未完成的分块上报
+   */
+  private cleanup(): void {
+    const now = Date.now();
+    for (const map of [this.tokens, this.exchanges, this.uploads] as Map<string, { expiresAt: number }>[]) {
+      for (const [key, item] of map.entries()) {
+        if (item.expiresAt <= now) {
+          map.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * 发送CoAP报文
+   * @param endpoint 远端地址
+   * @param message 报文
+   */
+  private send(endpoint: CoapEndpoint, message: CoapMessage): void {
+    this.sendRaw(endpoint, serializeCoapMessage(message));
+  }
+
+  /**
+   * 发送序列化后的报文
+   * @param endpoint 远端地址
+   * @param data 数据报
+   */
+  private sendRaw(endpoint: CoapEndpoint, data: Buffer): void {
+    udpService.sendFromServer(this.PORT, data, endpoint.port, endpoint.address).catch(error => {
+      console.error(`发送CoAP报文到 ${this.endpointKey(endpoint)} 失败:`, error);
+    });
+  }
+
+  /**
+   * 解析URI查询参数
+   * @param request 请求
+   * @returns 参数名 -> 参数值
+   */
+  private parseQuery(request: CoapMessage): Record<string, string> {
+    const query: Record<string, string> = {};
+    for (const item of getStringOptions(request, CoapOption.URI_QUERY)) {
+      const index = item.indexOf('=');
+      if (index > 0) {
+        query[item.slice(0, index)] = item.slice(index + 1);
+      }
+    }
+    return query;
+  }
+
+  /**
+   * 解析JSON负载
+   * @param payload 负载
+   * @returns JSON对象，解析失败返回null
+   */
+  private parseJson(payload: Buffer): Record<string, any> | null {
+    try {
+      const value = JSON.parse(payload.toString('utf8'));
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 通知序号对应的ETag，用于设备判断分块是否属于同一通知
+   * @param sequence 通知序号
+   */
+  private etag(sequence: number): Buffer {
+    const value = encodeUintOption(sequence);
+    return value.length > 0 ? value : Buffer.from([0]);
+  }
+
+  /**
+   * 生成报文ID
+   */
+  private nextMessageId(): number {
+    this.messageId = (this.messageId + 1) & 0xffff;
+    return this.messageId;
+  }
+
+  /**
+   * 远端地址标识
+   * @param endpoint 远端地址
+   */
+  private endpointKey(endpoint: CoapEndpoint): string {
+    return `${endpoint.address}:${endpoint.port}`;
+  }
+}
+
+// 导出单例实例
+export const coapService = CoapService.getInstance();
+
+export default coapService;
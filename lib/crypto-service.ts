@@ -4,7 +4,7 @@
  * 该服务实现了以下功能：
  * 1. 对称加密（AES）
  * 2. 非对称加密（RSA）
- * 3. 哈希函数（SHA-256、SHA-512、MD5）
+ * 3. 哈希函数（SHA-1、SHA-256、SHA-512、MD5）
  * 4. 数字签名
  * 5. 安全密钥管理
  */
@@ -25,6 +25,7 @@ export enum EncryptionAlgorithm {
  * 哈希算法类型
  */
 export enum HashAlgorithm {
+  SHA1 = 'sha1',
   SHA256 = 'sha256',
   SHA512 = 'sha512',
   MD5 = 'md5'
@@ -0,0 +1,1065 @@
+/**
+ * 设备编解码服务 - 为私有TCP/UDP协议设备提供分帧和报文编解码
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备类配置编解码器：监听端口、分帧方式（见payload-framing）和编解码脚本
+ * 2. 按设备类接入协议在编解码器端口上创建TCP或UDP服务器，TCP连接按分帧方式处理粘包和拆包
+ * 3. 编解码脚本在沙箱中执行（独立上下文、禁止动态生成代码、执行超时），输入输出仅以JSON数据传递
+ * 4. 解码结果进入物模型校验流程（属性上报、事件上报）和命令应答处理
+ * 5. 命令以编码脚本转换为设备报文，按分帧方式封装后下发到设备最近一次上报的连接或地址
+ * 6. 以十六进制样本测试解码
+ *
+ * 编解码脚本以function声明定义以下函数：
+ * - decode(bytes: Uint8Array, context) 返回 { deviceId?, properties?, events?: [{ identifier, params }], reply? }，返回null时忽略该帧
+ * - encode(message, context) 可选，message为命令下行消息 { messageId, type, params, timestamp }，返回字节数组或十六进制字符串
+ * - authenticate(bytes: Uint8Array, context) 可选，从登录帧中取出 { deviceId, timestamp, sign }（签名算法同设备密钥认证），返回null表示不是登录帧
+ * context为 { protocol: 'TCP' | 'UDP', port, deviceId? }
+ *
+ * 设备认证：只处理已认证设备的报文，解码结果中的deviceId须与认证的设备一致，设备须属于编解码器所属设备类
+ * - 未定义authenticate时，TCP连接须先发送JSON认证消息（{"method":"auth","deviceId","timestamp","sign"} 加换行），之后再发送二进制帧；UDP报文无法认证，全部丢弃
+ * - 定义authenticate时，TCP连接的首帧须为登录帧，认证失败时断开连接；UDP按来源地址认证，登录帧认证通过后该地址的报文归属该设备（CODEC_UDP_SESSION_TTL秒内有效，默认600）
+ * - 登录帧只用于认证，不进入解码流程；服务端不回复登录结果
+ */
+
+import * as vm from 'vm';
+import { z } from 'zod';
+import { DeviceCodec, ProtocolType } from '@prisma/client';
+import prisma from './db-prisma';
+import { tcpService, udpService } from './tcp-udp-service';
+import { FrameDecoder, FramingConfig, FramingError, encodeFrame, framingSchema, splitFrames } from './payload-framing';
+import { thingModelService, ThingMethod } from './thing-model-service';
+import { deviceCommandDispatcher } from './device-command-dispatcher';
+import { deviceConnectionService, DeviceConnectionStatus, DeviceProtocol } from './device-connection-service';
+import { deviceCredentialService } from './device-credential-service';
+
+/**
+ * 编解码器支持的接入协议
+ */
+export type CodecProtocol = 'TCP' | 'UDP';
+
+/**
+ * 编解码脚本上下文
+ */
+export interface CodecScriptContext {
+  // 接入协议
+  protocol: CodecProtocol;
+  // 编解码器端口
+  port: number;
+  // 设备ID（已知时）
+  deviceId?: string;
+}
+
+/**
+ * 编解码器配置
+ */
+export interface DeviceCodecInput {
+  // 监听端口
+  port: number;
+  // 分帧配置
+  framing: FramingConfig;
+  // 编解码脚本
+  script: string;
+  // 是否启用
+  enabled: boolean;
+}
+
+/**
+ * 测试解码结果
+ */
+export interface CodecTestResult {
+  // 分帧错误
+  error?: string;
+  // 各帧解码结果
+  frames: {
+    // 帧数据（十六进制）
+    hex: string;
+    // 解码结果
+    result?: CodecDecodeResult | null;
+    // 解码错误
+    error?: string;
+  }[];
+}
+
+// 解码结果验证模式
+const decodeResultSchema = z.object({
+  deviceId: z.string().min(1).optional(),
+  properties: z.record(z.any()).optional(),
+  events: z.array(
+    z.object({
+      identifier: z.string().min(1),
+      params: z.record(z.any()).default({}),
+    })
+  ).optional(),
+  reply: z.object({
+    messageId: z.string().min(1),
+    status: z.enum(['RECEIVED', 'EXECUTED', 'FAILED']),
+    data: z.any().optional(),
+    message: z.string().optional(),
+  }).optional(),
+});
+
+/**
+ * 解码结果
+ */
+export type CodecDecodeResult = z.infer<typeof decodeResultSchema>;
+
+// 编码结果验证模式：字节数组或十六进制字符串
+const encodeResultSchema = z.union([
+  z.array(z.number().int().min(0).max(255)),
+  z.string().regex(/^([0-9a-fA-F]{2})*$/, '须为十六进制字符串'),
+]);
+
+// 登录帧认证信息验证模式
+const authResultSchema = z.object({
+  deviceId: z.string().min(1),
+  timestamp: z.union([z.number(), z.string()]),
+  sign: z.string().min(1),
+});
+
+/**
+ * 登录帧认证信息
+ */
+type CodecAuthResult = z.infer<typeof authResultSchema>;
+
+// 沙箱调用入口：输入以JSON字符串传入，结果和异常以JSON字符串返回，沙箱不接触宿主对象
+const DECODE_ENTRY = new vm.Script(`(function () {
+  try {
+    var input = JSON.parse(__input);
+    var result = decode(Uint8Array.from(input.bytes), input.context);
+    return JSON.stringify({ result: result === undefined ? null : result });
+  } catch (error) {
+    return JSON.stringify({ error: String((error && error.message) || error) });
+  }
+})()`);
+
+const ENCODE_ENTRY = new vm.Script(`(function () {
+  try {
+    var input = JSON.parse(__input);
+    if (typeof encode !== 'function') {
+      return JSON.stringify({ error: '编解码脚本未定义encode函数' });
+    }
+    var result = encode(input.message, input.context);
+    if (result instanceof Uint8Array) {
+      result = Array.from(result);
+    }
+    return JSON.stringify({ result: result === undefined ? null : result });
+  } catch (error) {
+    return JSON.stringify({ error: String((error && error.message) || error) });
+  }
+})()`);
+
+const AUTHENTICATE_ENTRY = new vm.Script(`(function () {
+  try {
+    var input = JSON.parse(__input);
+    var result = authenticate(Uint8Array.from(input.bytes), input.context);
+    return JSON.stringify({ result: result === undefined ? null : result });
+  } catch (error) {
+    return JSON.stringify({ error: String((error && error.message) || error) });
+  }
+})()`);
+
+/**
+ * 编解码脚本错误
+ */
+export class CodecScriptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CodecScriptError';
+  }
+}
+
+/**
+ * 已加载的编解码器
+ */
+interface LoadedCodec {
+  // 设备类ID
+  deviceClassId: string;
+  // 接入协议
+  protocol: CodecProtocol;
+  // 监听端口
+  port: number;
+  // 分帧配置
+  framing: FramingConfig;
+  // 脚本沙箱上下文
+  context: vm.Context;
+  // 脚本是否定义了认证钩子
+  authenticate: boolean;
+}
+
+/**
+ * 设备下行路由
+ */
+type CodecRoute =
+  | { deviceClassId: string; protocol: 'TCP'; port: number; connectionId: string }
+  | { deviceClassId: string; protocol: 'UDP'; port: number; address: string; remotePort: number };
+
+/**
+ * 设备编解码服务类
+ */
+export class DeviceCodecService {
+  private static instance: DeviceCodecService;
+  private started = false;
+  // 已加载的编解码器：设备类ID -> 编解码器
+  private codecs: Map<string, LoadedCodec> = new Map();
+  // 端口占用：协议:端口 -> 设备类ID
+  private ports: Map<string, string> = new Map();
+  // TCP连接的分帧器
+  private decoders: Map<string, FrameDecoder> = new Map();
+  // 经认证钩子认证的TCP连接：连接ID -> 认证结果（设备ID，失败为null）
+  private connectionAuth: Map<string, Promise<string | null>> = new Map();
+  // 经认证钩子认证的UDP来源地址：端口:地址:来源端口 -> 设备ID
+  private endpointDevices: Map<string, { deviceId: string; expiresAt: number }> = new Map();
+  // 设备下行路由：设备ID -> 路由
+  private routes: Map<string, CodecRoute> = new Map();
+  // 设备所属设备类缓存
+  private deviceClassCache: Map<string, { deviceClassId: string; expiresAt: number }> = new Map();
+  private readonly HOST = process.env.DEVICE_CODEC_HOST || '0.0.0.0';
+  private readonly SCRIPT_TIMEOUT = Number(process.env.CODEC_SCRIPT_TIMEOUT || 50);
+  private readonly DEVICE_CACHE_TTL = 60000; // 1分钟
+  private readonly UDP_SESSION_TTL = Number(process.env.CODEC_UDP_SESSION_TTL || 600) * 1000;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.registerCommandTransports();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DeviceCodecService {
+    if (!DeviceCodecService.instance) {
+      DeviceCodecService.instance = new DeviceCodecService();
+    }
+    return DeviceCodecService.instance;
+  }
+
+  /**
+   * 启动服务：加载已启用的编解码器并创建服务器
+   */
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const codecs = await prisma.deviceCodec.findMany({
+      where: { enabled: true },
+      include: { deviceClass: { select: { protocol: true } } },
+    });
+
+    for (const codec of codecs) {
+      await this.attach(codec, codec.deviceClass.protocol);
+    }
+
+    console.log(`设备编解码服务已启动，已加载 ${this.codecs.size} 个编解码器`);
+  }
+
+  /**
+   * 停止服务：关闭编解码器端口上的服务器
+   */
+  public stop(): void {
+    for (const deviceClassId of Array.from(this.codecs.keys())) {
+      this.detach(deviceClassId);
+    }
+    this.started = false;
+  }
+
+  /**
+   * 获取设备类的编解码器
+   * @param deviceClassId 设备类ID
+   * @returns 编解码器
+   */
+  public async getCodec(deviceClassId: string): Promise<DeviceCodec | null> {
+    return prisma.deviceCodec.findUnique({ where: { deviceClassId } });
+  }
+
+  /**
+   * 创建或更新设备类的编解码器，服务已启动时立即重新加载
+   * @param deviceClassId 设备类ID
+   * @param input 编解码器配置
+   * @returns 编解码器
+   */
+  public async saveCodec(deviceClassId: string, input: DeviceCodecInput): Promise<DeviceCodec> {
+    const codec = await prisma.deviceCodec.upsert({
+      where: { deviceClassId },
+      create: { deviceClassId, ...input },
+      update: input,
+    });
+
+    await this.reload(deviceClassId);
+    return codec;
+  }
+
+  /**
+   * 删除设备类的编解码器
+   * @param deviceClassId 设备类ID
+   */
+  public async deleteCodec(deviceClassId: string): Promise<void> {
+    await prisma.deviceCodec.delete({ where: { deviceClassId } });
+    await this.reload(deviceClassId);
+  }
+
+  /**
+   * 重新加载设备类的编解码器（编解码器变更、设备类接入协议变更或设备类删除后调用）
+   * @param deviceClassId 设备类ID
+   */
+  public async reload(deviceClassId: string): Promise<void> {
+    const codec = await prisma.deviceCodec.findUnique({
+      where: { deviceClassId },
+      include: { deviceClass: { select: { protocol: true } } },
+    });
+
+    // 端口和协议未变时保留服务器，已建立的连接不受影响
+    // 认证钩子增删时TCP服务器的认证方式随之变化，需要重建
+    const previous = this.codecs.get(deviceClassId);
+    const keepServer = !!previous && !!codec?.enabled &&
+      previous.port === codec.port && previous.protocol === codec.deviceClass.protocol &&
+      previous.authenticate === this.definesAuthenticate(codec.script);
+    this.detach(deviceClassId, !keepServer);
+
+    if (this.started && codec?.enabled) {
+      await this.attach(codec, codec.deviceClass.protocol);
+    }
+  }
+
+  /**
+   * 检查端口是否已被同协议的其他编解码器使用
+   * @param port 端口
+   * @param protocol 接入协议
+   * @param deviceClassId 排除的设备类ID
+   */
+  public async isPortInUse(port: number, protocol: CodecProtocol, deviceClassId: string): Promise<boolean> {
+    const count = await prisma.deviceCodec.count({
+      where: {
+        port,
+        deviceClassId: { not: deviceClassId },
+        deviceClass: { protocol },
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 校验编解码脚本能否加载
+   * @param script 编解码脚本
+   * @returns 错误信息，校验通过返回null
+   */
+  public validateScript(script: string): string | null {
+    try {
+      this.compile(script, 'codec-validate');
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * 以十六进制样本测试分帧和解码
+   * @param hex 十六进制样本
+   * @param framing 分帧配置
+   * @param script 编解码脚本
+   * @param context 脚本上下文
+   * @returns 各帧解码结果
+   */
+  public testDecode(hex: string, framing: FramingConfig, script: string, context: CodecScriptContext): CodecTestResult {
+    const sandbox = this.compile(script, 'codec-test');
+
+    let frames: Buffer[];
+    try {
+      frames = splitFrames(framing, Buffer.from(hex, 'hex'));
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error), frames: [] };
+    }
+
+    return {
+      frames: frames.map(frame => {
+        try {
+          return { hex: frame.toString('hex'), result: this.decode(sandbox, frame, context) };
+        } catch (error) {
+          return { hex: frame.toString('hex'), error: error instanceof Error ? error.message : String(error) };
+        }
+      }),
+    };
+  }
+
+  /**
+   * 加载编解码器并在端口上创建服务器
+   * @param codec 编解码器
+   * @param protocol 设备类接入协议
+   */
+  private async attach(codec: DeviceCodec, protocol: ProtocolType): Promise<void> {
+    if (protocol !== ProtocolType.TCP && protocol !== ProtocolType.UDP) {
+      console.warn(`设备类 ${codec.deviceClassId} 的接入协议 ${protocol} 不支持编解码器，已跳过`);
+      return;
+    }
+
+    const framing = framingSchema.safeParse(codec.framing);
+    if (!framing.success) {
+      console.error(`设备类 ${codec.deviceClassId} 的分帧配置无效，已跳过`);
+      return;
+    }
+
+    let context: vm.Context;
+    try {
+      context = this.compile(codec.script, `codec-${codec.deviceClassId}`);
+    } catch (error) {
+      console.error(`设备类 ${codec.deviceClassId} 的编解码脚本加载失败，已跳过:`, error);
+      return;
+    }
+
+    const portKey = `${protocol}:${codec.port}`;
+    const owner = this.ports.get(portKey);
+    if (owner && owner !== codec.deviceClassId) {
+      console.error(`设备类 ${codec.deviceClassId} 的编解码器端口 ${portKey} 已被设备类 ${owner} 使用，已跳过`);
+      return;
+    }
+
+    // 定义了认证钩子时由编解码器认证登录帧，否则沿用JSON认证消息
+    const authenticate = this.hasFunction(context, 'authenticate');
+
+    try {
+      if (protocol === ProtocolType.TCP) {
+        if (!tcpService.getServers().has(codec.port)) {
+          tcpService.createServer({
+            port: codec.port,
+            host: this.HOST,
+            keepAlive: true,
+            noDelay: true,
+            skipAuthentication: authenticate,
+          });
+        }
+      } else if (!udpService.getServers().has(codec.port)) {
+        await udpService.createServer({ port: codec.port, host: this.HOST });
+      }
+    } catch (error) {
+      console.error(`设备类 ${codec.deviceClassId} 的编解码器端口 ${portKey} 监听失败:`, error);
+      return;
+    }
+
+    this.codecs.set(codec.deviceClassId, {
+      deviceClassId: codec.deviceClassId,
+      protocol,
+      port: codec.port,
+      framing: framing.data,
+      context,
+      authenticate,
+    });
+    this.ports.set(portKey, codec.deviceClassId);
+  }
+
+  /**
+   * 卸载编解码器并关闭端口上的服务器
+   * @param deviceClassId 设备类ID
+   * @param closeServer 是否关闭服务器
+   */
+  private detach(deviceClassId: string, closeServer: boolean = true): void {
+    const codec = this.codecs.get(deviceClassId);
+    if (!codec) {
+      return;
+    }
+
+    this.codecs.delete(deviceClassId);
+    this.ports.delete(`${codec.protocol}:${codec.port}`);
+
+    // 分帧配置可能已变化，已建立的连接重新分帧
+    for (const connectionId of Array.from(this.decoders.keys())) {
+      if (tcpService.getConnection(connectionId)?.localPort === codec.port) {
+        this.decoders.delete(connectionId);
+      }
+    }
+
+    if (!closeServer) {
+      return;
+    }
+
+    if (codec.protocol === 'TCP') {
+      tcpService.closeServer(codec.port);
+    } else {
+      udpService.closeServer(codec.port);
+    }
+
+    for (const [deviceId, route] of this.routes.entries()) {
+      if (route.deviceClassId === deviceClassId) {
+        this.routes.delete(deviceId);
+      }
+    }
+
+    for (const key of Array.from(this.endpointDevices.keys())) {
+      if (key.startsWith(`${codec.port}:`)) {
+        this.endpointDevices.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 在独立上下文中加载编解码脚本
+   * @param script 编解码脚本
+   * @param name 上下文名称
+   * @returns 沙箱上下文
+   * @throws CodecScriptError 脚本语法错误、执行超时或未定义decode函数
+   */
+  private compile(script: string, name: string): vm.Context {
+    const context = vm.createContext(Object.create(null), {
+      name,
+      codeGeneration: { strings: false, wasm: false },
+      microtaskMode: 'afterEvaluate',
+    });
+
+    try {
+      new vm.Script(script, { filename: `${name}.js` }).runInContext(context, { timeout: this.SCRIPT_TIMEOUT });
+    } catch (error) {
+      throw new CodecScriptError(`编解码脚本加载失败: ${this.describeError(error)}`);
+    }
+
+    if (!this.hasFunction(context, 'decode')) {
+      throw new CodecScriptError('编解码脚本必须以function声明定义decode函数');
+    }
+
+    return context;
+  }
+
+  /**
+   * 判断脚本是否以function声明定义了指定函数
+   * @param context 沙箱上下文
+   * @param name 函数名
+   */
+  private hasFunction(context: vm.Context, name: 'decode' | 'authenticate'): boolean {
+    return new vm.Script(`typeof ${name} === "function"`).runInContext(context) === true;
+  }
+
+  /**
+   * 判断编解码脚本是否定义了认证钩子，脚本无法加载时视为未定义
+   * @param script 编解码脚本
+   */
+  private definesAuthenticate(script: string): boolean {
+    try {
+      return this.hasFunction(this.compile(script, 'codec-inspect'), 'authenticate');
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 在沙箱中调用脚本入口
+   * @param context 沙箱上下文
+   * @param entry 调用入口
+   * @param input 输入数据
+   * @returns 脚本返回值（JSON数据）
+   * @throws CodecScriptError 脚本抛出异常、执行超时或返回值无法解析
+   */
+  private invoke(context: vm.Context, entry: vm.Script, input: unknown): unknown {
+    context.__input = JSON.stringify(input);
+
+    let output: unknown;
+    try {
+      output = entry.runInContext(context, { timeout: this.SCRIPT_TIMEOUT });
+    } catch (error) {
+      throw new CodecScriptError(`编解码脚本执行失败: ${this.describeError(error)}`);
+    } finally {
+      delete context.__input;
+    }
+
+    if (typeof output !== 'string') {
+      throw new CodecScriptError('编解码脚本返回值无法序列化');
+    }
+
+    // 脚本可能覆盖了沙箱内的JSON，返回值不一定是合法的JSON
+    let parsed: { result?: unknown; error?: unknown } | null;
+    try {
+      parsed = JSON.parse(output);
+    } catch {
+      parsed = null;
+    }
+    if (!parsed || typeof parsed !== 'object') {
+      throw new CodecScriptError('编解码脚本返回值无法解析');
+    }
+
+    if (parsed.error !== undefined) {
+      throw new CodecScriptError(`编解码脚本执行失败: ${parsed.error}`);
+    }
+    return parsed.result;
+  }
+
+  /**
+   * 解码一帧
+   * @param context 沙箱上下文
+   * @param frame 帧
+   * @param scriptContext 脚本上下文
+   * @returns 解码结果，脚本返回null时返回null
+   * @throws CodecScriptError 脚本执行失败或解码结果格式不正确
+   */
+  private decode(context: vm.Context, frame: Buffer, scriptContext: CodecScriptContext): CodecDecodeResult | null {
+    const result = this.invoke(context, DECODE_ENTRY, { bytes: Array.from(frame), context: scriptContext });
+    if (result === null) {
+      return null;
+    }
+
+    const validation = decodeResultSchema.safeParse(result);
+    if (!validation.success) {
+      throw new CodecScriptError(
+        `解码结果格式不正确: ${validation.error.errors.map(issue => `${issue.path.join('.') || 'result'} ${issue.message}`).join('; ')}`
+      );
+    }
+    return validation.data;
+  }
+
+  /**
+   * 编码命令
+   * @param context 沙箱上下文
+   * @param message 命令下行消息
+   * @param scriptContext 脚本上下文
+   * @returns 设备报文
+   * @throws CodecScriptError 脚本执行失败或编码结果格式不正确
+   */
+  private encode(context: vm.Context, message: unknown, scriptContext: CodecScriptContext): Buffer {
+    const result = this.invoke(context, ENCODE_ENTRY, { message, context: scriptContext });
+
+    const validation = encodeResultSchema.safeParse(result);
+    if (!validation.success) {
+      throw new CodecScriptError('编码结果须为字节数组或十六进制字符串');
+    }
+    return typeof validation.data === 'string' ? Buffer.from(validation.data, 'hex') : Buffer.from(validation.data);
+  }
+
+  /**
+   * 以认证钩子解析登录帧
+   * @param context 沙箱上下文
+   * @param frame 帧
+   * @param scriptContext 脚本上下文
+   * @returns 认证信息，不是登录帧时返回null
+   * @throws CodecScriptError 脚本执行失败或认证信息格式不正确
+   */
+  private parseLogin(context: vm.Context, frame: Buffer, scriptContext: CodecScriptContext): CodecAuthResult | null {
+    const result = this.invoke(context, AUTHENTICATE_ENTRY, { bytes: Array.from(frame), context: scriptContext });
+    if (result === null) {
+      return null;
+    }
+
+    const validation = authResultSchema.safeParse(result);
+    if (!validation.success) {
+      throw new CodecScriptError('认证信息须包含deviceId、timestamp和sign');
+    }
+    return validation.data;
+  }
+
+  /**
+   * 认证登录帧：校验设备签名，设备须属于编解码器所属设备类
+   * @param codec 编解码器
+   * @param frame 登录帧
+   * @param endpoint 设备地址
+   * @param connectionId TCP连接ID
+   * @returns 设备ID，认证失败返回null
+   */
+  private async authenticateFrame(
+    codec: LoadedCodec,
+    frame: Buffer,
+    endpoint: { address: string; port: number },
+    connectionId?: string
+  ): Promise<string | null> {
+    let login: CodecAuthResult | null;
+    try {
+      login = this.parseLogin(codec.context, frame, { protocol: codec.protocol, port: codec.port });
+    } catch (error) {
+      console.warn(`设备类 ${codec.deviceClassId} 解析登录帧失败 (${frame.toString('hex')}):`, error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    if (!login) {
+      return null;
+    }
+
+    const verified = await deviceCredentialService.verifySignature(login.deviceId, login.timestamp, login.sign, {
+      protocol: codec.protocol,
+      ipAddress: endpoint.address,
+      clientId: connectionId,
+    });
+    if (!verified) {
+      return null;
+    }
+
+    if ((await this.getDeviceClassId(login.deviceId)) !== codec.deviceClassId) {
+      console.warn(`设备 ${login.deviceId} 不属于设备类 ${codec.deviceClassId}，拒绝登录`);
+      return null;
+    }
+
+    return login.deviceId;
+  }
+
+  /**
+   * 处理编解码器端口上的TCP数据
+   * @param connectionId 连接ID
+   * @param data 数据
+   * @param authenticatedDeviceId 连接已认证的设备ID
+   */
+  private handleTcpData(connectionId: string, data: Buffer, authenticatedDeviceId?: string): void {
+    const connection = tcpService.getConnection(connectionId);
+    const codec = connection ? this.getCodecByPort('TCP', connection.localPort) : undefined;
+    if (!connection || !codec) {
+      return;
+    }
+
+    let decoder = this.decoders.get(connectionId);
+    if (!decoder) {
+      decoder = new FrameDecoder(codec.framing);
+      this.decoders.set(connectionId, decoder);
+    }
+
+    let frames: Buffer[];
+    try {
+      frames = decoder.push(data);
+    } catch (error) {
+      // 数据流已失去同步，断开连接由设备重连
+      console.warn(`TCP连接 ${connectionId} 分帧失败，已断开:`, error instanceof FramingError ? error.message : error);
+      tcpService.closeClient(connectionId);
+      return;
+    }
+
+    for (const frame of frames) {
+      const route: CodecRoute = { deviceClassId: codec.deviceClassId, protocol: 'TCP', port: codec.port, connectionId };
+      const endpoint = { address: connection.remoteAddress, port: connection.remotePort };
+      this.resolveTcpDevice(codec, connectionId, frame, endpoint, authenticatedDeviceId)
+        .then(deviceId => deviceId ? this.handleFrame(codec, frame, route, endpoint, deviceId) : undefined)
+        .catch(error => {
+          console.error(`处理TCP连接 ${connectionId} 报文失败:`, error);
+        });
+    }
+  }
+
+  /**
+   * 确定TCP帧所属的设备：连接已通过JSON认证消息认证时使用认证的设备ID，
+   * 否则首帧交给认证钩子认证，之后的帧等待认证结果
+   * @returns 设备ID，登录帧或未认证时返回null
+   */
+  private async resolveTcpDevice(
+    codec: LoadedCodec,
+    connectionId: string,
+    frame: Buffer,
+    endpoint: { address: string; port: number },
+    authenticatedDeviceId?: string
+  ): Promise<string | null> {
+    if (authenticatedDeviceId) {
+      return authenticatedDeviceId;
+    }
+
+    if (!codec.authenticate) {
+      // 编解码器重新加载前建立的连接
+      console.warn(`TCP连接 ${connectionId} 未认证，已断开`);
+      tcpService.closeClient(connectionId);
+      return null;
+    }
+
+    const pending = this.connectionAuth.get(connectionId);
+    if (pending) {
+      return pending;
+    }
+
+    const auth = this.authenticateFrame(codec, frame, endpoint, connectionId).then(deviceId => {
+      if (!deviceId) {
+        tcpService.closeClient(connectionId);
+      }
+      return deviceId;
+    });
+    this.connectionAuth.set(connectionId, auth);
+
+    // 登录帧不进入解码流程
+    await auth;
+    return null;
+  }
+
+  /**
+   * 处理编解码器端口上的UDP数据报
+   * @param port 服务端口
+   * @param data 数据报
+   * @param rinfo 来源地址
+   */
+  private handleUdpMessage(port: number, data: Buffer, rinfo: { address: string; port: number }): void {
+    const codec = this.getCodecByPort('UDP', port);
+    if (!codec) {
+      return;
+    }
+
+    let frames: Buffer[];
+    try {
+      frames = splitFrames(codec.framing, data);
+    } catch (error) {
+      console.warn(`UDP数据报 ${rinfo.address}:${rinfo.port} 分帧失败:`, error instanceof FramingError ? error.message : error);
+      return;
+    }
+
+    for (const frame of frames) {
+      const route: CodecRoute = {
+        deviceClassId: codec.deviceClassId,
+        protocol: 'UDP',
+        port,
+        address: rinfo.address,
+        remotePort: rinfo.port,
+      };
+      this.resolveUdpDevice(codec, frame, route, rinfo)
+        .then(deviceId => deviceId ? this.handleFrame(codec, frame, route, rinfo, deviceId) : undefined)
+        .catch(error => {
+          console.error(`处理UDP数据报 ${rinfo.address}:${rinfo.port} 失败:`, error);
+        });
+    }
+  }
+
+  /**
+   * 确定UDP帧所属的设备：来源地址已认证时使用认证的设备ID，否则交给认证钩子认证
+   * @returns 设备ID，登录帧或未认证时返回null
+   */
+  private async resolveUdpDevice(
+    codec: LoadedCodec,
+    frame: Buffer,
+    route: CodecRoute & { protocol: 'UDP' },
+    rinfo: { address: string; port: number }
+  ): Promise<string | null> {
+    const key = `${route.port}:${rinfo.address}:${rinfo.port}`;
+    const now = Date.now();
+    const session = this.endpointDevices.get(key);
+    if (session && session.expiresAt > now) {
+      session.expiresAt = now + this.UDP_SESSION_TTL;
+      return session.deviceId;
+    }
+
+    if (!codec.authenticate) {
+      console.warn(`设备类 ${codec.deviceClassId} 的编解码脚本未定义authenticate，UDP报文 ${rinfo.address}:${rinfo.port} 无法认证，已丢弃`);
+      return null;
+    }
+
+    const deviceId = await this.authenticateFrame(codec, frame, rinfo);
+    if (!deviceId) {
+      console.warn(`UDP报文 ${rinfo.address}:${rinfo.port} 未认证，已丢弃`);
+      return null;
+    }
+
+    // 清理过期地址和该设备之前的地址
+    for (const [endpointKey, item] of this.endpointDevices.entries()) {
+      if (item.expiresAt <= now || item.deviceId === deviceId) {
+        this.endpointDevices.delete(endpointKey);
+      }
+    }
+    this.endpointDevices.set(key, { deviceId, expiresAt: now + this.UDP_SESSION_TTL });
+
+    // 登录帧不进入解码流程
+    return null;
+  }
+
+  /**
+   * 解码已认证设备的一帧并交给物模型和命令应答处理
+   * @param codec 编解码器
+   * @param frame 帧
+   * @param route 下行路由
+   * @param endpoint 设备地址
+   * @param deviceId 已认证的设备ID
+   */
+  private async handleFrame(
+    codec: LoadedCodec,
+    frame: Buffer,
+    route: CodecRoute,
+    endpoint: { address: string; port: number },
+    deviceId: string
+  ): Promise<void> {
+    const connectionId = route.protocol === 'TCP' ? route.connectionId : undefined;
+
+    let result: CodecDecodeResult | null;
+    try {
+      result = this.decode(codec.context, frame, { protocol: codec.protocol, port: codec.port, deviceId });
+    } catch (error) {
+      console.warn(`设备类 ${codec.deviceClassId} 解码失败 (${frame.toString('hex')}):`, error instanceof Error ? error.message : error);
+      return;
+    }
+
+    if (!result) {
+      return;
+    }
+
+    // 只接受认证设备本身的报文
+    if (result.deviceId && result.deviceId !== deviceId) {
+      console.warn(`设备 ${deviceId} 上报了其他设备 ${result.deviceId} 的报文，已丢弃`);
+      return;
+    }
+
+    if ((await this.getDeviceClassId(deviceId)) !== codec.deviceClassId) {
+      console.warn(`设备 ${deviceId} 不属于设备类 ${codec.deviceClassId}，已丢弃`);
+      return;
+    }
+
+    this.routes.set(deviceId, route);
+    await this.markActive(deviceId, codec.protocol, endpoint, connectionId);
+
+    const source = codec.protocol;
+    if (result.properties) {
+      await thingModelService.handleDeviceMessage(deviceId, source, {
+        method: ThingMethod.PROPERTY_POST,
+        params: result.properties,
+      });
+    }
+
+    for (const event of result.events || []) {
+      await thingModelService.handleDeviceMessage(deviceId, source, {
+        method: ThingMethod.EVENT_POST,
+        identifier: event.identifier,
+        params: event.params,
+      });
+    }
+
+    if (result.reply) {
+      deviceCommandDispatcher.handleMqttMessage(`devices/${deviceId}/command/reply`, Buffer.from(JSON.stringify(result.reply)));
+    }
+  }
+
+  /**
+   * 按编解码器下发命令
+   * @param deviceId 设备ID
+   * @param route 下行路由
+   * @param payload 命令下行消息
+   * @returns 是否已交给传输层
+   */
+  private async sendCommand(deviceId: string, route: CodecRoute, payload: Buffer): Promise<boolean> {
+    const codec = this.codecs.get(route.deviceClassId);
+    if (!codec) {
+      return false;
+    }
+
+    const message = JSON.parse(payload.toString('utf8'));
+    const frame = encodeFrame(codec.framing, this.encode(codec.context, message, {
+      protocol: codec.protocol,
+      port: codec.port,
+      deviceId,
+    }));
+
+    if (route.protocol === 'TCP') {
+      if (!tcpService.getConnection(route.connectionId)) {
+        return false;
+      }
+      // write返回false仅表示数据已进入发送缓冲区，不代表发送失败
+      tcpService.sendToClient(route.connectionId, frame);
+      return true;
+    }
+
+    return udpService.sendFromServer(route.port, frame, route.remotePort, route.address);
+  }
+
+  /**
+   * 设备上报时更新连接状态，未在线时置为在线
+   * @param deviceId 设备ID
+   * @param protocol 接入协议
+   * @param endpoint 设备地址
+   * @param connectionId TCP连接ID，连接关闭时设备离线
+   */
+  private async markActive(
+    deviceId: string,
+    protocol: CodecProtocol,
+    endpoint: { address: string; port: number },
+    connectionId?: string
+  ): Promise<void> {
+    const connectionProtocol = protocol === 'TCP' ? DeviceProtocol.TCP : DeviceProtocol.UDP;
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+    if (connection?.status === DeviceConnectionStatus.ONLINE && connection.protocol === connectionProtocol) {
+      await deviceConnectionService.updateDeviceActivity(deviceId);
+      return;
+    }
+
+    await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.ONLINE, connectionProtocol, {
+      clientId: connectionId,
+      address: endpoint.address,
+      port: endpoint.port,
+    });
+  }
+
+  /**
+   * 获取设备所属设备类ID
+   * @param deviceId 设备ID
+   * @returns 设备类ID，设备不存在时返回null
+   */
+  private async getDeviceClassId(deviceId: string): Promise<string | null> {
+    const cached = this.deviceClassCache.get(deviceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.deviceClassId;
+    }
+
+    try {
+      const device = await prisma.device.findUnique({ where: { id: deviceId }, select: { deviceClassId: true } });
+      if (!device) {
+        return null;
+      }
+
+      this.deviceClassCache.set(deviceId, { deviceClassId: device.deviceClassId, expiresAt: Date.now() + this.DEVICE_CACHE_TTL });
+      return device.deviceClassId;
+    } catch {
+      // 设备ID格式无效
+      return null;
+    }
+  }
+
+  /**
+   * 按端口获取编解码器
+   * @param protocol 接入协议
+   * @param port 端口
+   */
+  private getCodecByPort(protocol: CodecProtocol, port: number): LoadedCodec | undefined {
+    const deviceClassId = this.ports.get(`${protocol}:${port}`);
+    return deviceClassId ? this.codecs.get(deviceClassId) : undefined;
+  }
+
+  /**
+   * 注册TCP/UDP命令下发通道：经编解码器上报的设备按编解码器下发，其他设备使用原有通道
+   */
+  private registerCommandTransports(): void {
+    for (const protocol of [ProtocolType.TCP, ProtocolType.UDP]) {
+      const fallback = deviceCommandDispatcher.getRegisteredTransport(protocol);
+
+      deviceCommandDispatcher.registerTransport(protocol, async (deviceId, payload) => {
+        const route = this.routes.get(deviceId);
+        if (route) {
+          return this.sendCommand(deviceId, route, payload);
+        }
+        return fallback ? fallback(deviceId, payload) : false;
+      });
+    }
+  }
+
+  /**
+   * 设置事件监听器：编解码器端口上的TCP数据、UDP数据报和连接关闭
+   */
+  private setupEventListeners(): void {
+    tcpService.on('data', (connectionId: string, data: Buffer, deviceId?: string) => {
+      this.handleTcpData(connectionId, data, deviceId);
+    });
+
+    tcpService.on('socket_close', (connectionId: string) => {
+      this.decoders.delete(connectionId);
+      this.connectionAuth.delete(connectionId);
+      for (const [deviceId, route] of this.routes.entries()) {
+        if (route.protocol === 'TCP' && route.connectionId === connectionId) {
+          this.routes.delete(deviceId);
+        }
+      }
+    });
+
+    udpService.on('message', (port: number, msg: Buffer, rinfo: { address: string; port: number }) => {
+      this.handleUdpMessage(port, msg, rinfo);
+    });
+  }
+
+  /**
+   * 获取异常描述（沙箱内的异常不是宿主的Error实例，按结构判断）
+   * @param error 异常
+   */
+  private describeError(error: unknown): string {
+    if ((error as { code?: string })?.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      return `执行超过 ${this.SCRIPT_TIMEOUT}ms`;
+    }
+    if (error && typeof (error as { message?: unknown }).message === 'string') {
+      return (error as { message: string }).message;
+    }
+    return typeof error === 'string' ? error : '脚本抛出了异常';
+  }
+}
+
+// 导出单例实例
+export const deviceCodecService = DeviceCodecService.getInstance();
+
+export default deviceCodecService;
@@ -0,0 +1,515 @@
+/**
+ * 设备命令下发服务 - 实现设备命令的可靠下发、应答跟踪、超时和重试
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备类接入协议下发命令（MQTT/TCP，其他协议可注册下发通道）
+ * 2. 按消息ID（命令ID）关联设备应答，推进命令状态 SENT → RECEIVED → EXECUTED/FAILED
+ * 3. 应答超时按退避策略重发，超过最大重试次数或执行超时后置为失败
+ * 4. 命令状态变更事件，由通知服务推送DEVICE_COMMAND_RESPONSE通知
+ *
+ * 下行消息格式：{ "messageId": 命令ID, "type": 命令类型, "params": 命令内容, "timestamp": 毫秒时间戳 }
+ * - MQTT：发布到 devices/{deviceId}/command
+ * - TCP：以换行结尾的JSON发送到设备已认证的连接
+ * - UDP：无法认证来源，仅经编解码器认证的设备支持下发（通道由编解码服务注册）
+ * - CoAP：以Observe通知发送给观察 /devices/{deviceId}/command 的设备（通道由CoAP服务注册）
+ * - 网关子设备：不论设备类协议，经父网关发布到 gateways/{gatewayId}/sub/{deviceId}/command
+ *
+ * 设备应答格式：{ "messageId": 命令ID, "status": "RECEIVED" | "EXECUTED" | "FAILED", "data": 响应内容, "message": 失败原因 }
+ * - MQTT：发布到 devices/{deviceId}/command/reply（网关子设备为 gateways/{gatewayId}/sub/{deviceId}/command/reply）
+ * - TCP：在已认证的连接上发送以换行结尾的JSON消息 { "method": "command.reply", ...应答字段 }，设备ID以认证结果为准
+ * - CoAP：POST /devices/{deviceId}/command/reply
+ */
+
+import { EventEmitter } from 'events';
+import { CommandStatus, DeviceCommand, DeviceType, ProtocolType } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import mqttClient from './mqtt-client';
+import { tcpService, TcpLineBuffer } from './tcp-udp-service';
+import { thingModelService } from './thing-model-service';
+
+/**
+ * 命令下发选项
+ */
+export interface CommandDispatchOptions {
+  // 最大重试次数
+  maxRetries?: number;
+  // 等待设备接收应答的超时时间（毫秒），每次重试按2倍退避
+  ackTimeout?: number;
+  // 设备接收后等待执行结果的超时时间（毫秒）
+  executionTimeout?: number;
+}
+
+/**
+ * 设备命令应答
+ */
+export interface CommandReply {
+  // 消息ID（命令ID）
+  messageId: string;
+  // 命令状态
+  status: 'RECEIVED' | 'EXECUTED' | 'FAILED';
+  // 响应内容
+  data?: any;
+  // 失败原因
+  message?: string;
+}
+
+/**
+ * 命令下发通道，返回是否已交给传输层
+ */
+export type CommandTransport = (deviceId: string, payload: Buffer) => Promise<boolean>;
+
+/**
+ * 待应答命令
+ */
+interface PendingCommand {
+  // 命令ID
+  commandId: string;
+  // 设备ID
+  deviceId: string;
+  // 下发负载
+  payload: Buffer;
+  // 已发送次数
+  attempts: number;
+  // 当前阶段：等待接收应答/等待执行结果
+  phase: 'ack' | 'execution';
+  // 超时定时器
+  timer: NodeJS.Timeout | null;
+  // 下发选项
+  options: Required<CommandDispatchOptions>;
+}
+
+// 命令终态
+const FINAL_STATUSES: CommandStatus[] = [CommandStatus.EXECUTED, CommandStatus.FAILED];
+
+/**
+ * 设备命令下发服务类
+ * 事件：
+ * - command_status (command) 命令状态变更后触发
+ */
+export class DeviceCommandDispatcher extends EventEmitter {
+  private static instance: DeviceCommandDispatcher;
+  private pending: Map<string, PendingCommand> = new Map();
+  private transports: Map<ProtocolType, CommandTransport> = new Map();
+  // 设备已认证的TCP连接
+  private tcpRoutes: Map<string, string> = new Map();
+  private tcpLines = new TcpLineBuffer();
+  private readonly defaultOptions: Required<CommandDispatchOptions> = {
+    maxRetries: parseInt(process.env.COMMAND_MAX_RETRIES || '3') || 3,
+    ackTimeout: parseInt(process.env.COMMAND_ACK_TIMEOUT || '10000') || 10000,
+    executionTimeout: parseInt(process.env.COMMAND_EXECUTION_TIMEOUT || '60000') || 60000,
+  };
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.registerDefaultTransports();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DeviceCommandDispatcher {
+    if (!DeviceCommandDispatcher.instance) {
+      DeviceCommandDispatcher.instance = new DeviceCommandDispatcher();
+    }
+    return DeviceCommandDispatcher.instance;
+  }
+
+  /**
+   * 注册协议的命令下发通道
+   * @param protocol 接入协议
+   * @param transport 下发通道
+   */
+  public registerTransport(protocol: ProtocolType, transport: CommandTransport): void {
+    this.transports.set(protocol, transport);
+  }
+
+  /**
+   * 获取协议已注册的命令下发通道
+   * @param protocol 接入协议
+   * @returns 下发通道，未注册时返回undefined
+   */
+  public getRegisteredTransport(protocol: ProtocolType): CommandTransport | undefined {
+    return this.transports.get(protocol);
+  }
+
+  /**
+   * 下发命令，首次发送完成后返回，后续应答、超时和重试在后台处理
+   * @param commandId 命令ID
+   * @param options 下发选项
+   */
+  public async dispatch(commandId: string, options: CommandDispatchOptions = {}): Promise<void> {
+    const command = await deviceService.getDeviceCommandById(commandId);
+    if (!command) {
+      throw new Error(`Device command ${commandId} not found`);
+    }
+
+    if (FINAL_STATUSES.includes(command.status) || this.pending.has(commandId)) {
+      return;
+    }
+
+    const pending: PendingCommand = {
+      commandId,
+      deviceId: command.deviceId,
+      payload: Buffer.from(JSON.stringify({
+        messageId: command.id,
+        type: command.type,
+        params: command.content,
+        timestamp: Date.now(),
+      })),
+      attempts: 0,
+      phase: 'ack',
+      timer: null,
+      options: {
+        ...this.defaultOptions,
+        ...Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined)),
+      },
+    };
+
+    this.pending.set(commandId, pending);
+    await this.send(pending);
+  }
+
+  /**
+   * 处理设备命令应答
+   * 未在跟踪中的命令（如服务重启前下发的命令）按数据库状态处理
+   * @param deviceId 设备ID
+   * @param reply 命令应答
+   */
+  public async handleReply(deviceId: string, reply: CommandReply): Promise<void> {
+    const pending = this.pending.get(reply.messageId);
+    if (pending && pending.deviceId !== deviceId) {
+      console.warn(`设备 ${deviceId} 应答了不属于自己的命令 ${reply.messageId}`);
+      return;
+    }
+
+    if (!pending) {
+      const command = await deviceService.getDeviceCommandById(reply.messageId);
+      if (!command || command.deviceId !== deviceId || FINAL_STATUSES.includes(command.status)) {
+        return;
+      }
+    }
+
+    if (reply.status === CommandStatus.RECEIVED) {
+      if (pending) {
+        if (pending.phase === 'execution') {
+          return;
+        }
+        this.clearTimer(pending);
+        pending.phase = 'execution';
+        pending.timer = setTimeout(() => {
+          this.fail(pending.commandId, '命令执行超时');
+        }, pending.options.executionTimeout);
+      }
+      await this.updateStatus(reply.messageId, CommandStatus.RECEIVED);
+      return;
+    }
+
+    if (pending) {
+      this.clearTimer(pending);
+      this.pending.delete(reply.messageId);
+    }
+
+    if (reply.status === CommandStatus.EXECUTED) {
+      const command = await this.updateStatus(reply.messageId, CommandStatus.EXECUTED, reply.data);
+      if (command) {
+        await thingModelService.checkDeviceCommandResponse(deviceId, command.type, reply.data);
+      }
+      return;
+    }
+
+    await this.updateStatus(reply.messageId, CommandStatus.FAILED, {
+      error: reply.message || '设备执行命令失败',
+      ...(reply.data !== undefined ? { data: reply.data } : {}),
+    });
+  }
+
+  /**
+   * 处理MQTT命令应答，非应答主题忽略
+   * 网关代理的子设备应答转换为子设备主题后同样由此处理
+   * @param topic MQTT主题：devices/{deviceId}/command/reply
+   * @param payload 负载
+   * @returns 是否为命令应答主题
+   */
+  public handleMqttMessage(topic: string, payload: Buffer): boolean {
+    const match = topic.match(/^devices\/([^\/]+)\/command\/reply$/);
+    if (!match) return false;
+
+    const reply = this.parseReply(this.parseJson(payload));
+    if (reply) {
+      this.handleReply(match[1], reply).catch(error => {
+        console.error(`处理设备 ${match[1]} 命令应答失败:`, error);
+      });
+    }
+    return true;
+  }
+
+  /**
+   * 停止跟踪命令（命令状态已被手动置为终态时调用）
+   * @param commandId 命令ID
+   */
+  public release(commandId: string): void {
+    const pending = this.pending.get(commandId);
+    if (pending) {
+      this.clearTimer(pending);
+      this.pending.delete(commandId);
+    }
+  }
+
+  /**
+   * 获取待应答命令数量
+   */
+  public getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * 发送命令，发送失败或应答超时后按退避策略重试
+   * @param pending 待应答命令
+   */
+  private async send(pending: PendingCommand): Promise<void> {
+    if (!this.pending.has(pending.commandId)) {
+      return;
+    }
+
+    if (pending.attempts > pending.options.maxRetries) {
+      await this.fail(pending.commandId, `命令下发${pending.attempts}次均未收到设备应答`);
+      return;
+    }
+
+    const transport = await this.getTransport(pending.deviceId);
+    if (!transport) {
+      await this.fail(pending.commandId, '设备接入协议不支持命令下发');
+      return;
+    }
+
+    pending.attempts++;
+
+    try {
+      if (!(await transport(pending.deviceId, pending.payload))) {
+        console.warn(`命令 ${pending.commandId} 第${pending.attempts}次下发失败: 设备未连接`);
+      }
+    } catch (error) {
+      console.warn(`命令 ${pending.commandId} 第${pending.attempts}次下发失败:`, error);
+    }
+
+    // 等待时间按2倍退避
+    const wait = pending.options.ackTimeout * Math.pow(2, pending.attempts - 1);
+    pending.timer = setTimeout(() => {
+      pending.timer = null;
+      this.send(pending).catch(error => {
+        console.error(`重发命令 ${pending.commandId} 失败:`, error);
+      });
+    }, wait);
+  }
+
+  /**
+   * 将命令置为失败并停止跟踪
+   * @param commandId 命令ID
+   * @param reason 失败原因
+   */
+  private async fail(commandId: string, reason: string): Promise<void> {
+    const pending = this.pending.get(commandId);
+    if (pending) {
+      this.clearTimer(pending);
+      this.pending.delete(commandId);
+    }
+
+    await this.updateStatus(commandId, CommandStatus.FAILED, { error: reason });
+  }
+
+  /**
+   * 更新命令状态并触发状态变更事件
+   * @param commandId 命令ID
+   * @param status 命令状态
+   * @param responseContent 响应内容
+   * @returns 更新后的命令
+   */
+  private async updateStatus(
+    commandId: string,
+    status: 'RECEIVED' | 'EXECUTED' | 'FAILED',
+    responseContent?: any
+  ): Promise<DeviceCommand | null> {
+    try {
+      const command = await deviceService.updateDeviceCommandStatus(commandId, status, responseContent);
+      this.emit('command_status', command);
+      return command;
+    } catch (error) {
+      console.error(`更新命令 ${commandId} 状态为 ${status} 失败:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 获取设备的命令下发通道
+   * @param deviceId 设备ID
+   * @returns 下发通道，设备不存在或协议不支持时返回null
+   */
+  private async getTransport(deviceId: string): Promise<CommandTransport | null> {
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      select: {
+        parentId: true,
+        deviceClass: {
+          select: { protocol: true, type: true },
+        },
+      },
+    });
+
+    if (!device) {
+      return null;
+    }
+
+    // 网关子设备经父网关转发
+    if (device.deviceClass.type === DeviceType.GATEWAY_CHILD && device.parentId) {
+      const gatewayId = device.parentId;
+      return async (childId, payload) => {
+        if (!mqttClient.isClientConnected()) {
+          return false;
+        }
+        return mqttClient.publish(`gateways/${gatewayId}/sub/${childId}/command`, payload, { qos: 1 });
+      };
+    }
+
+    return this.transports.get(device.deviceClass.protocol) || null;
+  }
+
+  /**
+   * 注册MQTT/TCP下发通道
+   */
+  private registerDefaultTransports(): void {
+    this.registerTransport(ProtocolType.MQTT, async (deviceId, payload) => {
+      if (!mqttClient.isClientConnected()) {
+        return false;
+      }
+      return mqttClient.publish(`devices/${deviceId}/command`, payload, { qos: 1 });
+    });
+
+    this.registerTransport(ProtocolType.TCP, async (deviceId, payload) => {
+      const connectionId = this.tcpRoutes.get(deviceId);
+      if (!connectionId || !tcpService.getConnections().has(connectionId)) {
+        return false;
+      }
+      // write返回false仅表示数据已进入发送缓冲区，不代表发送失败
+      tcpService.sendToClient(connectionId, Buffer.concat([payload, Buffer.from('\n')]));
+      return true;
+    });
+  }
+
+  /**
+   * 设置事件监听器：记录设备已认证的TCP连接，接收设备应答
+   */
+  private setupEventListeners(): void {
+    mqttClient.on('connect', () => {
+      mqttClient.subscribe('devices/+/command/reply', { qos: 1 }).catch(error => {
+        console.error(`Error subscribing to command replies: ${error}`);
+      });
+    });
+
+    mqttClient.on('message', (topic: string, payload: Buffer) => {
+      this.handleMqttMessage(topic, payload);
+    });
+
+    tcpService.on('authenticated', (connectionId: string, deviceId: string) => {
+      this.tcpRoutes.set(deviceId, connectionId);
+    });
+
+    tcpService.on('data', (connectionId: string, data: Buffer, deviceId?: string) => {
+      // 未认证的连接无法确认设备身份，不接受应答
+      if (!deviceId) return;
+
+      for (const line of this.tcpLines.push(connectionId, data)) {
+        const body = this.parseJson(line);
+        if (!body) continue;
+        // 已认证的连接只接受本设备的消息
+        if (body.deviceId !== undefined && body.deviceId !== deviceId) continue;
+
+        this.tcpRoutes.set(deviceId, connectionId);
+        this.handleRawReply(deviceId, body);
+      }
+    });
+
+    tcpService.on('socket_close', (connectionId: string) => {
+      this.tcpLines.clear(connectionId);
+      for (const [deviceId, routeConnectionId] of this.tcpRoutes.entries()) {
+        if (routeConnectionId === connectionId) {
+          this.tcpRoutes.delete(deviceId);
+        }
+      }
+    });
+  }
+
+  /**
+   * 处理TCP上报的命令应答
+   * @param deviceId 连接认证的设备ID
+   * @param body JSON消息
+   */
+  private handleRawReply(deviceId: string, body: Record<string, any>): void {
+    if (body.method !== 'command.reply') {
+      return;
+    }
+
+    const reply = this.parseReply(body);
+    if (reply) {
+      this.handleReply(deviceId, reply).catch(error => {
+        console.error(`处理设备 ${deviceId} 命令应答失败:`, error);
+      });
+    }
+  }
+
+  /**
+   * 解析命令应答
+   * @param body JSON消息
+   * @returns 命令应答，格式不正确时返回null
+   */
+  private parseReply(body: Record<string, any> | null): CommandReply | null {
+    if (!body || typeof body.messageId !== 'string') {
+      return null;
+    }
+
+    if (!['RECEIVED', 'EXECUTED', 'FAILED'].includes(body.status)) {
+      return null;
+    }
+
+    return {
+      messageId: body.messageId,
+      status: body.status,
+      data: body.data,
+      message: typeof body.message === 'string' ? body.message : undefined,
+    };
+  }
+
+  /**
+   * 解析JSON负载
+   * @param payload 负载
+   * @returns JSON对象，解析失败返回null
+   */
+  private parseJson(payload: Buffer): Record<string, any> | null {
+    try {
+      const value = JSON.parse(payload.toString('utf8'));
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 清除超时定时器
+   * @param pending 待应答命令
+   */
+  private clearTimer(pending: PendingCommand): void {
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+      pending.timer = null;
+    }
+  }
+}
+
+// 导出单例实例
+export const deviceCommandDispatcher = DeviceCommandDispatcher.getInstance();
+
+export default deviceCommandDispatcher;
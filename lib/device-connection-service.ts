@@ -10,8 +10,8 @@
  */
 
 import { EventEmitter } from 'events';
-import { PrismaClient, Device, DeviceConnectionLog, ConnectionProtocol } from '@prisma/client';
-import { prisma } from './db-prisma';
+import { Device, DeviceStatus } from '@prisma/client';
+import prisma from './db-prisma';
 import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
 import { websocketService } from './websocket-service';
 import mqttClient from './mqtt-client';
@@ -37,6 +37,7 @@ export enum DeviceProtocol {
   HTTP = 'HTTP',
   WEBSOCKET = 'WEBSOCKET',
   COAP = 'COAP',
+  MODBUS = 'MODBUS',
   UNKNOWN = 'UNKNOWN'
 }
 
@@ -46,8 +47,8 @@ export enum DeviceProtocol {
 export interface DeviceConnectionInfo {
   // 设备ID
   deviceId: string;
-  // 设备标识符
-  deviceIdentifier: string;
+  // 设备名称
+  deviceName: string;
   // 连接状态
   status: DeviceConnectionStatus;
   // 连接协议
@@ -129,7 +130,7 @@ export class DeviceConnectionService extends EventEmitter {
     // 创建新的连接信息
     const connectionData: DeviceConnectionInfo = {
       deviceId,
-      deviceIdentifier: device.identifier,
+      deviceName: device.name,
       status,
       protocol,
       lastActivityAt: now,
@@ -170,11 +171,11 @@ export class DeviceConnectionService extends EventEmitter {
     // 保存连接信息
     this.deviceConnections.set(deviceId, connectionData);
 
-    // 记录连接日志
-    await this.logConnectionStatus(deviceId, status, protocol, connectionData);
-
-    // 更新设备状态
-    await this.updateDeviceStatus(deviceId, status);
+    // 状态变化时记录连接日志并更新设备状态
+    if (!existingConnection || existingConnection.status !== status) {
+      await this.logConnectionStatus(deviceId, status, protocol, connectionData);
+      await this.updateDeviceStatus(deviceId, status, now);
+    }
 
     // 触发状态变更事件
     this.emitStatusChange(deviceId, connectionData, existingConnection);
@@ -251,6 +252,7 @@ export class DeviceConnectionService extends EventEmitter {
       [DeviceProtocol.HTTP]: 0,
       [DeviceProtocol.WEBSOCKET]: 0,
       [DeviceProtocol.COAP]: 0,
+      [DeviceProtocol.MODBUS]: 0,
       [DeviceProtocol.UNKNOWN]: 0
     };
 
@@ -399,27 +401,21 @@ export class DeviceConnectionService extends EventEmitter {
       }
     });
 
-    // 监听TCP连接事件
-    tcpService.on('connection', async (connectionId, socket) => {
-      // 从连接中提取设备标识符
-      const deviceIdentifier = this.extractDeviceIdentifierFromSocket(socket);
-      if (deviceIdentifier) {
-        // 查找设备
-        const device = await this.getDeviceByIdentifier(deviceIdentifier);
-        if (device) {
-          // 设置设备为在线状态
-          await this.setDeviceStatus(
-            device.id,
-            DeviceConnectionStatus.ONLINE,
-            DeviceProtocol.TCP,
-            {
-              clientId: connectionId,
-              address: socket.remoteAddress,
-              port: socket.remotePort
-            }
-          );
+    // 监听TCP连接认证通过事件
+    tcpService.on('authenticated', async (connectionId: string, deviceId: string) => {
+      const connection = tcpService.getConnections().get(connectionId);
+
+      // 设置设备为在线状态
+      await this.setDeviceStatus(
+        deviceId,
+        DeviceConnectionStatus.ONLINE,
+        DeviceProtocol.TCP,
+        {
+          clientId: connectionId,
+          address: connection?.remoteAddress,
+          port: connection?.remotePort
         }
-      }
+      );
     });
 
     tcpService.on('socket_close', async (connectionId) => {
@@ -439,11 +435,11 @@ export class DeviceConnectionService extends EventEmitter {
 
     // 监听WebSocket连接事件
     websocketService.on('connection', async (client) => {
-      // 从WebSocket连接中提取设备标识符
-      const deviceIdentifier = this.extractDeviceIdentifierFromWebSocket(client);
-      if (deviceIdentifier) {
+      // 握手时已认证的设备ID
+      const deviceId = this.extractDeviceIdFromWebSocket(client);
+      if (deviceId) {
         // 查找设备
-        const device = await this.getDeviceByIdentifier(deviceIdentifier);
+        const device = await this.getDeviceById(deviceId);
         if (device) {
           // 设置设备为在线状态
           await this.setDeviceStatus(
@@ -560,26 +556,13 @@ export class DeviceConnectionService extends EventEmitter {
   }
 
   /**
-   * 从Socket中提取设备标识符
-   * @param socket TCP Socket
-   * @returns 设备标识符
-   */
-  private extractDeviceIdentifierFromSocket(socket: any): string | null {
-    // 这里需要根据实际协议实现提取设备标识符的逻辑
-    // 例如，可能从首次通信的数据中提取，或者从连接地址中提取
-    return null;
-  }
-
-  /**
-   * 从WebSocket中提取设备标识符
+   * 从WebSocket中提取已认证的设备ID
    * @param client WebSocket客户端
-   * @returns 设备标识符
+   * @returns 设备ID，用户连接返回null
    */
-  private extractDeviceIdentifierFromWebSocket(client: any): string | null {
-    // 从WebSocket握手请求中提取设备标识符
-    // 例如，可能从查询参数或认证信息中提取
-    const query = client.handshake.query;
-    return query.deviceId || null;
+  private extractDeviceIdFromWebSocket(client: any): string | null {
+    // 设备ID由设备命名空间认证中间件在签名校验通过后写入，不信任查询参数
+    return client.data?.deviceId || null;
   }
 
   /**
@@ -596,48 +579,20 @@ export class DeviceConnectionService extends EventEmitter {
     connectionInfo: DeviceConnectionInfo
   ): Promise<void> {
     try {
-      // 转换协议枚举
-      let dbProtocol: ConnectionProtocol;
-      switch (protocol) {
-        case DeviceProtocol.MQTT:
-          dbProtocol = ConnectionProtocol.MQTT;
-          break;
-        case DeviceProtocol.TCP:
-          dbProtocol = ConnectionProtocol.TCP;
-          break;
-        case DeviceProtocol.UDP:
-          dbProtocol = ConnectionProtocol.UDP;
-          break;
-        case DeviceProtocol.HTTP:
-          dbProtocol = ConnectionProtocol.HTTP;
-          break;
-        case DeviceProtocol.WEBSOCKET:
-          dbProtocol = ConnectionProtocol.WEBSOCKET;
-          break;
-        case DeviceProtocol.COAP:
-          dbProtocol = ConnectionProtocol.COAP;
-          break;
-        default:
-          dbProtocol = ConnectionProtocol.UNKNOWN;
+      // 上线和离线写入设备连接记录
+      if (status === DeviceConnectionStatus.ONLINE || status === DeviceConnectionStatus.OFFLINE) {
+        const metadata = connectionInfo.metadata || {};
+        await prisma.deviceConnection.create({
+          data: {
+            deviceId,
+            connectionType: status === DeviceConnectionStatus.ONLINE ? 'CONNECT' : 'DISCONNECT',
+            ipAddress: connectionInfo.address,
+            connectionTime: (status === DeviceConnectionStatus.ONLINE ? connectionInfo.connectedAt : connectionInfo.disconnectedAt) || new Date(),
+            reason: metadata.cleanupReason || metadata.offlineReason || null,
+          }
+        });
       }
 
-      // 创建连接日志
-      await prisma.deviceConnectionLog.create({
-        data: {
-          deviceId,
-          status: status,
-          protocol: dbProtocol,
-          clientId: connectionInfo.clientId,
-          ipAddress: connectionInfo.address,
-          port: connectionInfo.port,
-          connectedAt: connectionInfo.connectedAt,
-          disconnectedAt: connectionInfo.disconnectedAt,
-          connectionDuration: connectionInfo.connectionDuration,
-          sessionId: connectionInfo.sessionId,
-          metadata: connectionInfo.metadata
-        }
-      });
-
       // 记录审计日志
       const level = status === DeviceConnectionStatus.ONLINE ? AuditLogLevel.INFO : AuditLogLevel.WARNING;
       const description = status === DeviceConnectionStatus.ONLINE 
@@ -668,15 +623,21 @@ export class DeviceConnectionService extends EventEmitter {
    * 更新设备状态
    * @param deviceId 设备ID
    * @param status 连接状态
+   * @param time 状态变更时间
    */
-  private async updateDeviceStatus(deviceId: string, status: DeviceConnectionStatus): Promise<void> {
+  private async updateDeviceStatus(deviceId: string, status: DeviceConnectionStatus, time: Date): Promise<void> {
+    // 不活跃只是内存中的连接状态，不改变设备状态
+    if (status === DeviceConnectionStatus.INACTIVE) {
+      return;
+    }
+
     try {
-      // 更新设备状态
       await prisma.device.update({
         where: { id: deviceId },
         data: {
-          status: status,
-          lastOnlineAt: status === DeviceConnectionStatus.ONLINE ? new Date() : undefined
+          status: status as DeviceStatus,
+          ...(status === DeviceConnectionStatus.ONLINE ? { lastConnected: time } : {}),
+          ...(status === DeviceConnectionStatus.OFFLINE ? { lastDisconnected: time } : {}),
         }
       });
     } catch (error) {
@@ -745,22 +706,6 @@ export class DeviceConnectionService extends EventEmitter {
       return null;
     }
   }
-
-  /**
-   * 根据标识符获取设备
-   * @param identifier 设备标识符
-   * @returns 设备信息
-   */
-  private async getDeviceByIdentifier(identifier: string): Promise<Device | null> {
-    try {
-      return await prisma.device.findFirst({
-        where: { identifier }
-      });
-    } catch (error) {
-      console.error(`Error getting device by identifier: ${error}`);
-      return null;
-    }
-  }
 }
 
 // 导出单例实例
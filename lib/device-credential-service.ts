@@ -0,0 +1,552 @@
+/**
+ * 设备凭证服务 - 实现设备密钥/证书的签发、轮换和设备接入认证
+ *
+ * 该服务实现了以下功能：
+ * 1. 设备创建时签发设备密钥，密钥通过SensitiveDataService加密存储，明文仅在签发时返回一次
+ * 2. 支持登记X.509客户端证书，按SHA-256指纹匹配设备（可通过DEVICE_CA_CERT限定签发CA）
+ * 3. 凭证轮换，轮换后旧凭证立即失效
+ * 4. MQTT连接、TCP握手和WebSocket握手的HMAC签名认证
+ * 5. 认证失败记录SUSPICIOUS_ACTIVITY审计事件，短时间内多次失败升级为告警
+ *
+ * 签名算法：sign = HMAC-SHA256(设备密钥, "deviceId={设备ID}&timestamp={毫秒时间戳}")，十六进制小写
+ *
+ * MQTT：clientId 为设备ID，username 为 "{设备ID}&{时间戳}"，password 为签名
+ * TCP：连接后首行发送 { "method": "auth", "deviceId": 设备ID, "timestamp": 时间戳, "sign": 签名 }，
+ *      TLS连接可直接使用已登记的客户端证书认证
+ * WebSocket：握手auth参数 { deviceId, timestamp, sign }
+ * HTTP：POST /api/ingest/{deviceId}/token 提交 { timestamp, sign } 换取访问令牌，上报时以 Authorization: Bearer {令牌} 携带；
+ *       令牌绑定凭证版本，凭证轮换后失效
+ *
+ * TCP认证器由服务启动时调用 registerTcpAuthenticator() 注册
+ * 访问令牌密钥取 DEVICE_TOKEN_SECRET，未配置时由 JWT_SECRET 派生；生产环境两者均未配置时启动失败
+ */
+
+import crypto from 'crypto';
+import { TLSSocket } from 'tls';
+import jwt from 'jsonwebtoken';
+import { DeviceCredential, DeviceCredentialType, Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import { cryptoService, HashAlgorithm } from './crypto-service';
+import { sensitiveDataService } from './sensitive-data-service';
+import { tcpService } from './tcp-udp-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 设备认证上下文
+ */
+export interface DeviceAuthContext {
+  // 接入协议
+  protocol: 'MQTT' | 'TCP' | 'UDP' | 'WEBSOCKET' | 'COAP' | 'HTTP';
+  // 客户端地址
+  ipAddress?: string;
+  // 客户端ID
+  clientId?: string;
+}
+
+/**
+ * 签发的设备凭证
+ */
+export interface IssuedCredential {
+  // 凭证类型
+  type: DeviceCredentialType;
+  // 凭证版本号
+  version: number;
+  // 设备密钥明文，仅签发时返回
+  secret?: string;
+  // 证书指纹
+  fingerprint?: string | null;
+  // 证书有效期截止时间
+  certificateExpiresAt?: Date | null;
+}
+
+/**
+ * 解析后的客户端证书
+ */
+export interface ParsedCertificate {
+  // PEM格式证书
+  pem: string;
+  // SHA-256指纹（十六进制小写）
+  fingerprint: string;
+  // 证书主题
+  subject: string;
+  // 有效期截止时间
+  expiresAt: Date;
+}
+
+/**
+ * 设备访问令牌
+ */
+export interface DeviceAccessToken {
+  // 令牌
+  token: string;
+  // 有效期（秒）
+  expiresIn: number;
+}
+
+/**
+ * 设备凭证信息（不含密钥和证书内容）
+ */
+export type DeviceCredentialInfo = Omit<DeviceCredential, 'secret' | 'certificate'>;
+
+/**
+ * 设备凭证服务类
+ */
+export class DeviceCredentialService {
+  private static instance: DeviceCredentialService;
+  private caCertificate: crypto.X509Certificate | null = null;
+  private failures: Map<string, number[]> = new Map();
+  private readonly MAX_CLOCK_SKEW = Number(process.env.DEVICE_AUTH_MAX_SKEW || 300) * 1000; // 默认5分钟
+  private readonly FAILURE_WINDOW = 600000; // 10分钟
+  private readonly FAILURE_ALERT_THRESHOLD = Number(process.env.DEVICE_AUTH_FAILURE_THRESHOLD || 5);
+  // 设备访问令牌密钥，与用户JWT密钥区分，用户令牌不能用于设备接入，反之亦然
+  private readonly accessTokenSecret: string;
+  private tcpAuthenticatorRegistered = false;
+  private readonly ACCESS_TOKEN_TTL = Number(process.env.DEVICE_TOKEN_TTL || 86400); // 秒，默认24小时
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    if (process.env.DEVICE_CA_CERT) {
+      try {
+        this.caCertificate = new crypto.X509Certificate(process.env.DEVICE_CA_CERT);
+      } catch (error) {
+        console.error('DEVICE_CA_CERT不是有效的X.509证书，已忽略:', error);
+      }
+    }
+
+    if (process.env.DEVICE_TOKEN_SECRET) {
+      this.accessTokenSecret = process.env.DEVICE_TOKEN_SECRET;
+    } else if (process.env.JWT_SECRET) {
+      this.accessTokenSecret = `${process.env.JWT_SECRET}:device`;
+    } else if (process.env.NODE_ENV === 'production' && process.env.NEXT_PHASE !== 'phase-production-build') {
+      // 构建阶段会加载路由模块，此时不签发令牌，不要求配置密钥
+      throw new Error('生产环境必须配置DEVICE_TOKEN_SECRET或JWT_SECRET');
+    } else {
+      // 未配置密钥时使用进程内随机密钥，重启后已签发的令牌失效
+      console.warn('未配置DEVICE_TOKEN_SECRET，使用随机生成的设备访问令牌密钥');
+      this.accessTokenSecret = cryptoService.generateKey(32).toString('hex');
+    }
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DeviceCredentialService {
+    if (!DeviceCredentialService.instance) {
+      DeviceCredentialService.instance = new DeviceCredentialService();
+    }
+    return DeviceCredentialService.instance;
+  }
+
+  /**
+   * 签发设备密钥，已有凭证时替换为新密钥（版本号加1）
+   * @param deviceId 设备ID
+   * @param client 数据库客户端，在事务中签发时传入事务客户端
+   * @returns 签发的凭证，包含密钥明文
+   */
+  public async issueSecret(deviceId: string, client: Prisma.TransactionClient = prisma): Promise<IssuedCredential> {
+    const secret = cryptoService.generateRandomString(32);
+    const data = {
+      type: DeviceCredentialType.SECRET,
+      secret: sensitiveDataService.encryptSensitiveData(secret),
+      certificate: null,
+      fingerprint: null,
+      certificateExpiresAt: null,
+    };
+
+    const credential = await client.deviceCredential.upsert({
+      where: { deviceId },
+      create: { deviceId, ...data },
+      update: { ...data, version: { increment: 1 }, rotatedAt: new Date() },
+    });
+
+    return { type: credential.type, version: credential.version, secret };
+  }
+
+  /**
+   * 登记设备客户端证书，已有凭证时替换（版本号加1）
+   * @param deviceId 设备ID
+   * @param certificate 解析后的证书
+   * @param client 数据库客户端，在事务中登记时传入事务客户端
+   * @returns 签发的凭证
+   */
+  public async registerCertificate(
+    deviceId: string,
+    certificate: ParsedCertificate,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<IssuedCredential> {
+    const data = {
+      type: DeviceCredentialType.CERTIFICATE,
+      secret: null,
+      certificate: certificate.pem,
+      fingerprint: certificate.fingerprint,
+      certificateExpiresAt: certificate.expiresAt,
+    };
+
+    const credential = await client.deviceCredential.upsert({
+      where: { deviceId },
+      create: { deviceId, ...data },
+      update: { ...data, version: { increment: 1 }, rotatedAt: new Date() },
+    });
+
+    return {
+      type: credential.type,
+      version: credential.version,
+      fingerprint: credential.fingerprint,
+      certificateExpiresAt: credential.certificateExpiresAt,
+    };
+  }
+
+  /**
+   * 获取设备凭证信息
+   * @param deviceId 设备ID
+   * @returns 凭证信息（不含密钥和证书内容），未签发时返回null
+   */
+  public async getCredential(deviceId: string): Promise<DeviceCredentialInfo | null> {
+    return prisma.deviceCredential.findUnique({
+      where: { deviceId },
+      omit: { secret: true, certificate: true },
+    });
+  }
+
+  /**
+   * 判断证书指纹是否已被其他设备使用
+   * @param fingerprint 证书指纹
+   * @param deviceId 当前设备ID，新建设备时不传
+   * @returns 是否已被使用
+   */
+  public async isFingerprintInUse(fingerprint: string, deviceId?: string): Promise<boolean> {
+    const credential = await prisma.deviceCredential.findUnique({
+      where: { fingerprint },
+      select: { deviceId: true },
+    });
+    return !!credential && credential.deviceId !== deviceId;
+  }
+
+  /**
+   * 解析客户端证书：须为有效期内的X.509证书，配置了DEVICE_CA_CERT时须由该CA签发
+   * @param pem PEM格式证书
+   * @returns 解析后的证书，无效时返回null
+   */
+  public parseCertificate(pem: string): ParsedCertificate | null {
+    let certificate: crypto.X509Certificate;
+    try {
+      certificate = new crypto.X509Certificate(pem);
+    } catch {
+      return null;
+    }
+
+    const now = Date.now();
+    const expiresAt = new Date(certificate.validTo);
+    if (new Date(certificate.validFrom).getTime() > now || expiresAt.getTime() <= now) {
+      return null;
+    }
+
+    if (this.caCertificate && !this.isIssuedByCa(certificate)) {
+      return null;
+    }
+
+    return {
+      pem: certificate.toString(),
+      fingerprint: this.getFingerprint(certificate),
+      subject: certificate.subject,
+      expiresAt,
+    };
+  }
+
+  /**
+   * 计算设备签名
+   * @param deviceId 设备ID
+   * @param timestamp 毫秒时间戳
+   * @param secret 设备密钥
+   * @returns 签名（十六进制小写）
+   */
+  public sign(deviceId: string, timestamp: number | string, secret: string): string {
+    return cryptoService.hmac(`deviceId=${deviceId}&timestamp=${timestamp}`, secret, HashAlgorithm.SHA256);
+  }
+
+  /**
+   * 校验设备签名
+   * @param deviceId 设备ID
+   * @param timestamp 毫秒时间戳
+   * @param sign 签名
+   * @param context 认证上下文
+   * @returns 是否认证通过，失败时记录审计事件
+   */
+  public async verifySignature(
+    deviceId: unknown,
+    timestamp: unknown,
+    sign: unknown,
+    context: DeviceAuthContext
+  ): Promise<boolean> {
+    if (typeof deviceId !== 'string' || !deviceId || typeof sign !== 'string' || !sign) {
+      await this.recordFailure(typeof deviceId === 'string' ? deviceId : undefined, '缺少认证参数', context);
+      return false;
+    }
+
+    const ts = Number(timestamp);
+    if (!Number.isFinite(ts) || Math.abs(Date.now() - ts) > this.MAX_CLOCK_SKEW) {
+      await this.recordFailure(deviceId, '时间戳无效或已过期', context);
+      return false;
+    }
+
+    const credential = await this.findCredential(deviceId);
+    if (!credential || credential.type !== DeviceCredentialType.SECRET || !credential.secret) {
+      await this.recordFailure(deviceId, '设备不存在或未签发密钥', context);
+      return false;
+    }
+
+    const secret = sensitiveDataService.decryptSensitiveData(credential.secret);
+    const expected = Buffer.from(this.sign(deviceId, String(timestamp), secret), 'hex');
+    const actual = Buffer.from(sign.toLowerCase(), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      await this.recordFailure(deviceId, '签名错误', context);
+      return false;
+    }
+
+    await this.recordSuccess(deviceId);
+    return true;
+  }
+
+  /**
+   * 按客户端证书认证设备
+   * @param certificate 客户端证书
+   * @param context 认证上下文
+   * @returns 设备ID，认证失败时返回null
+   */
+  public async verifyCertificate(certificate: crypto.X509Certificate, context: DeviceAuthContext): Promise<string | null> {
+    const fingerprint = this.getFingerprint(certificate);
+    const credential = await prisma.deviceCredential.findUnique({ where: { fingerprint } });
+
+    if (!credential || credential.type !== DeviceCredentialType.CERTIFICATE) {
+      await this.recordFailure(undefined, '客户端证书未登记', { ...context, clientId: context.clientId || fingerprint });
+      return null;
+    }
+
+    if (credential.certificateExpiresAt && credential.certificateExpiresAt.getTime() <= Date.now()) {
+      await this.recordFailure(credential.deviceId, '客户端证书已过期', context);
+      return null;
+    }
+
+    if (this.caCertificate && !this.isIssuedByCa(certificate)) {
+      await this.recordFailure(credential.deviceId, '客户端证书不是由受信任的CA签发', context);
+      return null;
+    }
+
+    await this.recordSuccess(credential.deviceId);
+    return credential.deviceId;
+  }
+
+  /**
+   * MQTT连接认证
+   * @param clientId 客户端ID，须为设备ID
+   * @param username 用户名，格式为 "{设备ID}&{时间戳}"
+   * @param password 密码，即签名
+   * @param context 认证上下文
+   * @returns 设备ID，认证失败时返回null
+   */
+  public async authenticateMqtt(
+    clientId: string,
+    username: string | undefined,
+    password: string | Buffer | undefined,
+    context: Omit<DeviceAuthContext, 'protocol' | 'clientId'> = {}
+  ): Promise<string | null> {
+    const authContext: DeviceAuthContext = { ...context, protocol: 'MQTT', clientId };
+    const [deviceId, timestamp] = (username || '').split('&');
+
+    if (!deviceId || deviceId !== clientId) {
+      await this.recordFailure(deviceId || clientId, '客户端ID与用户名中的设备ID不一致', authContext);
+      return null;
+    }
+
+    const sign = Buffer.isBuffer(password) ? password.toString('utf8') : password;
+    return (await this.verifySignature(deviceId, timestamp, sign, authContext)) ? deviceId : null;
+  }
+
+  /**
+   * 签发设备访问令牌（须先通过签名认证），令牌绑定当前凭证版本
+   * @param deviceId 设备ID
+   * @returns 访问令牌
+   */
+  public async issueAccessToken(deviceId: string): Promise<DeviceAccessToken> {
+    const credential = await this.findCredential(deviceId);
+    if (!credential) {
+      throw new Error(`Device ${deviceId} has no credential`);
+    }
+
+    const token = jwt.sign({ typ: 'device', ver: credential.version }, this.accessTokenSecret, {
+      subject: deviceId,
+      expiresIn: this.ACCESS_TOKEN_TTL,
+    });
+
+    return { token, expiresIn: this.ACCESS_TOKEN_TTL };
+  }
+
+  /**
+   * 校验设备访问令牌
+   * @param deviceId 设备ID，须与令牌签发的设备一致
+   * @param token 访问令牌
+   * @param context 认证上下文
+   * @returns 是否认证通过，失败时记录审计事件
+   */
+  public async verifyAccessToken(deviceId: string, token: unknown, context: DeviceAuthContext): Promise<boolean> {
+    if (typeof token !== 'string' || !token) {
+      await this.recordFailure(deviceId, '缺少访问令牌', context);
+      return false;
+    }
+
+    let payload: jwt.JwtPayload;
+    try {
+      payload = jwt.verify(token, this.accessTokenSecret, { subject: deviceId, algorithms: ['HS256'] }) as jwt.JwtPayload;
+    } catch {
+      await this.recordFailure(deviceId, '访问令牌无效或已过期', context);
+      return false;
+    }
+
+    const credential = payload.typ === 'device' ? await this.findCredential(deviceId) : null;
+    if (!credential || credential.version !== payload.ver) {
+      await this.recordFailure(deviceId, '访问令牌已失效', context);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 注册TCP连接认证：TLS连接优先使用客户端证书，否则要求首行发送认证消息
+   * 须在启动TCP服务前调用，重复调用无副作用
+   */
+  public registerTcpAuthenticator(): void {
+    if (this.tcpAuthenticatorRegistered) {
+      return;
+    }
+    this.tcpAuthenticatorRegistered = true;
+
+    tcpService.setAuthenticator(async (connectionId, socket, line) => {
+      const context: DeviceAuthContext = { protocol: 'TCP', ipAddress: socket.remoteAddress, clientId: connectionId };
+
+      if (!line) {
+        const certificate = socket instanceof TLSSocket ? socket.getPeerX509Certificate() : undefined;
+        return certificate ? this.verifyCertificate(certificate, context) : null;
+      }
+
+      let body: any;
+      try {
+        body = JSON.parse(line.toString('utf8'));
+      } catch {
+        body = null;
+      }
+
+      if (!body || body.method !== 'auth') {
+        await this.recordFailure(undefined, '首条消息不是认证消息', context);
+        socket.write(JSON.stringify({ method: 'auth_reply', code: 400, message: 'Authentication required' }) + '\n');
+        return null;
+      }
+
+      const verified = await this.verifySignature(body.deviceId, body.timestamp, body.sign, context);
+      socket.write(JSON.stringify(
+        verified
+          ? { method: 'auth_reply', code: 0 }
+          : { method: 'auth_reply', code: 401, message: 'Authentication failed' }
+      ) + '\n');
+
+      return verified ? body.deviceId : null;
+    });
+  }
+
+  /**
+   * 获取设备凭证
+   * @param deviceId 设备ID
+   * @returns 设备凭证，设备ID格式无效或不存在时返回null
+   */
+  private async findCredential(deviceId: string): Promise<DeviceCredential | null> {
+    try {
+      return await prisma.deviceCredential.findUnique({ where: { deviceId } });
+    } catch {
+      // 非UUID格式的设备ID
+      return null;
+    }
+  }
+
+  /**
+   * 计算证书SHA-256指纹
+   * @param certificate 证书
+   * @returns 指纹（十六进制小写）
+   */
+  private getFingerprint(certificate: crypto.X509Certificate): string {
+    return cryptoService.hash(certificate.raw, HashAlgorithm.SHA256);
+  }
+
+  /**
+   * 判断证书是否由配置的CA签发
+   * @param certificate 证书
+   * @returns 是否由CA签发
+   */
+  private isIssuedByCa(certificate: crypto.X509Certificate): boolean {
+    if (!this.caCertificate) {
+      return false;
+    }
+    return certificate.checkIssued(this.caCertificate) && certificate.verify(this.caCertificate.publicKey);
+  }
+
+  /**
+   * 认证成功：清除失败计数并更新最后认证时间
+   * @param deviceId 设备ID
+   */
+  private async recordSuccess(deviceId: string): Promise<void> {
+    this.failures.delete(deviceId);
+
+    try {
+      await prisma.deviceCredential.update({
+        where: { deviceId },
+        data: { lastUsedAt: new Date() },
+      });
+    } catch (error) {
+      console.error(`更新设备 ${deviceId} 凭证使用时间失败:`, error);
+    }
+  }
+
+  /**
+   * 认证失败：记录可疑活动审计事件，窗口期内同一设备或地址多次失败时升级为错误级别（触发安全告警）
+   * @param deviceId 设备ID
+   * @param reason 失败原因
+   * @param context 认证上下文
+   */
+  private async recordFailure(deviceId: string | undefined, reason: string, context: DeviceAuthContext): Promise<void> {
+    const key = deviceId || context.ipAddress || 'unknown';
+    const now = Date.now();
+    const attempts = (this.failures.get(key) || []).filter(time => now - time < this.FAILURE_WINDOW);
+    attempts.push(now);
+    this.failures.set(key, attempts);
+
+    // 清理过期的失败记录，避免无效设备ID导致内存增长
+    if (this.failures.size > 10000) {
+      for (const [failureKey, times] of this.failures.entries()) {
+        if (now - times[times.length - 1] >= this.FAILURE_WINDOW) {
+          this.failures.delete(failureKey);
+        }
+      }
+    }
+
+    await auditLogService.logSecurityEvent(
+      AuditEventType.SUSPICIOUS_ACTIVITY,
+      attempts.length >= this.FAILURE_ALERT_THRESHOLD ? AuditLogLevel.ERROR : AuditLogLevel.WARNING,
+      `Device authentication failed (${context.protocol}): ${reason}`,
+      undefined,
+      context.ipAddress,
+      {
+        deviceId,
+        protocol: context.protocol,
+        clientId: context.clientId,
+        reason,
+        recentFailures: attempts.length,
+      }
+    );
+  }
+}
+
+// 导出单例实例
+export const deviceCredentialService = DeviceCredentialService.getInstance();
+
+export default deviceCredentialService;
@@ -0,0 +1,686 @@
+/**
+ * 设备批量导入导出服务 - 以CSV/XLSX文件批量创建设备和导出设备清单
+ *
+ * 该服务实现了以下功能：
+ * 1. 按表头将列映射到设备字段，支持中英文列名，也可通过映射关系自定义：
+ *    name/名称、alias/别名、deviceClass/设备类（ID或名称）、organization/组织（ID或编码）、
+ *    parent/父设备（ID、已有设备名称或同一文件中的设备名称，须为网关，设备须为网关子设备类）、isPublic/是否公开、isFeatured/重点关注
+ *    config.{键}：设备配置，支持多级键（如 config.mqtt.qos）
+ *    property.{标识符}：按物模型校验的可写属性初始值，写入设备影子的期望状态，设备上线后下发
+ * 2. 试运行：逐行校验必填字段、设备类和组织引用及访问权限、父设备、组织内设备名称重复和物模型属性，返回逐行错误报告
+ * 3. 正式导入：全部行校验通过后在一个事务内创建设备、签发设备密钥和写入设备影子，任一行失败则整体回滚
+ * 4. 导出：按设备列表相同的筛选条件导出CSV/XLSX，导出文件可修改后直接重新导入
+ */
+
+import { Device, DeviceClass, DeviceType, Organization, Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import { getAccessibleOrganizationIds } from './api-middleware';
+import { deviceCredentialService, IssuedCredential } from './device-credential-service';
+import { thingModelService, ThingMethod, ThingModel } from './thing-model-service';
+import { SpreadsheetFormat, buildSpreadsheet, parseSpreadsheet } from './spreadsheet-parser';
+
+/**
+ * 设备字段
+ */
+export type DeviceImportField = 'name' | 'alias' | 'deviceClass' | 'organization' | 'parent' | 'isPublic' | 'isFeatured';
+
+/**
+ * 列映射：键为表头，值为设备字段、config.{键} 或 property.{标识符}，为null时忽略该列
+ */
+export type DeviceImportMapping = Record<string, string | null>;
+
+/**
+ * 导入错误（文件无法解析、行数超限、校验未通过等）
+ */
+export class DeviceImportError extends Error {
+  constructor(message: string, public readonly report?: DeviceImportReport) {
+    super(message);
+    this.name = 'DeviceImportError';
+  }
+}
+
+/**
+ * 行校验结果
+ */
+export interface DeviceImportRowResult {
+  // 表格行号（表头为第1行）
+  row: number;
+  name: string;
+  errors: string[];
+}
+
+/**
+ * 导入校验报告
+ */
+export interface DeviceImportReport {
+  // 数据行数（不含空行）
+  total: number;
+  valid: number;
+  invalid: number;
+  // 各列的映射结果
+  columns: Array<{ header: string; field: string | null }>;
+  // 有错误的行
+  errors: DeviceImportRowResult[];
+}
+
+/**
+ * 导入结果
+ */
+export interface DeviceImportResult extends DeviceImportReport {
+  // 创建的设备及签发的凭证，设备密钥明文仅在此返回一次
+  created: Array<{ row: number; id: string; name: string; credential: IssuedCredential }>;
+}
+
+/**
+ * 导入选项
+ */
+export interface DeviceImportOptions {
+  // 自定义列映射
+  mapping?: DeviceImportMapping;
+  // 未填写组织列时使用的组织ID
+  organizationId?: string;
+}
+
+/**
+ * 已校验的导入行
+ */
+interface ImportRow {
+  row: number;
+  name: string;
+  alias: string | null;
+  deviceClassId: string;
+  organizationId: string;
+  // 已有的父设备ID
+  parentId: string | null;
+  // 同一文件中的父设备名称
+  parentName: string | null;
+  isPublic: boolean;
+  isFeatured: boolean;
+  config: Record<string, unknown>;
+  properties: Record<string, unknown>;
+}
+
+// 设备字段的列名（不区分大小写）
+const FIELD_HEADERS: Record<DeviceImportField, string[]> = {
+  name: ['name', '名称', '设备名称'],
+  alias: ['alias', '别名', '设备别名'],
+  deviceClass: ['deviceclass', 'deviceclassid', '设备类', '设备类id'],
+  organization: ['organization', 'organizationid', '组织', '组织id', '组织编码'],
+  parent: ['parent', 'parentid', '父设备', '父设备id'],
+  isPublic: ['ispublic', '是否公开'],
+  isFeatured: ['isfeatured', '重点关注'],
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TRUE_VALUES = ['true', '1', 'yes', 'y', '是'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', '否', ''];
+
+class DeviceImportService {
+  private static instance: DeviceImportService;
+  private readonly MAX_ROWS = Number(process.env.DEVICE_IMPORT_MAX_ROWS || 1000);
+  private readonly MAX_EXPORT_ROWS = Number(process.env.DEVICE_EXPORT_MAX_ROWS || 10000);
+  // 导入事务超时（毫秒），数百台设备需要较长时间
+  private readonly TRANSACTION_TIMEOUT = 120000;
+
+  // 私有构造函数，防止直接实例化
+  private constructor() {}
+
+  /**
+   * 获取服务实例（单例模式）
+   * @returns DeviceImportService实例
+   */
+  public static getInstance(): DeviceImportService {
+    if (!DeviceImportService.instance) {
+      DeviceImportService.instance = new DeviceImportService();
+    }
+    return DeviceImportService.instance;
+  }
+
+  /**
+   * 试运行：解析并校验导入文件，不写入数据
+   * @param data 文件内容
+   * @param format 文件格式
+   * @param user 当前用户
+   * @param options 导入选项
+   * @returns 校验报告
+   */
+  public async dryRun(data: Buffer, format: SpreadsheetFormat, user: any, options: DeviceImportOptions = {}): Promise<DeviceImportReport> {
+    const { report } = await this.validate(data, format, user, options);
+    return report;
+  }
+
+  /**
+   * 导入设备：全部行校验通过后在一个事务内创建
+   * @param data 文件内容
+   * @param format 文件格式
+   * @param user 当前用户
+   * @param options 导入选项
+   * @returns 导入结果，校验未通过时抛出DeviceImportError（附校验报告）
+   */
+  public async import(data: Buffer, format: SpreadsheetFormat, user: any, options: DeviceImportOptions = {}): Promise<DeviceImportResult> {
+    const { report, rows } = await this.validate(data, format, user, options);
+    if (report.invalid > 0) {
+      throw new DeviceImportError(`${report.invalid}行数据校验未通过，未导入任何设备`, report);
+    }
+
+    const created = await prisma.$transaction(async tx => {
+      const results: DeviceImportResult['created'] = [];
+      const createdIds = new Map<string, string>();
+
+      for (const row of rows) {
+        const device = await tx.device.create({
+          data: {
+            name: row.name,
+            alias: row.alias,
+            isPublic: row.isPublic,
+            isFeatured: row.isFeatured,
+            config: row.config as Prisma.InputJsonObject,
+            deviceClass: { connect: { id: row.deviceClassId } },
+            organization: { connect: { id: row.organizationId } },
+            ...(row.parentId ? { parent: { connect: { id: row.parentId } } } : {}),
+          },
+        });
+        createdIds.set(this.nameKey(row.organizationId, row.name), device.id);
+
+        const credential = await deviceCredentialService.issueSecret(device.id, tx);
+
+        if (Object.keys(row.properties).length > 0) {
+          const timestamp = new Date().toISOString();
+          await tx.deviceShadow.create({
+            data: {
+              deviceId: device.id,
+              desired: row.properties as Prisma.InputJsonObject,
+              metadata: { desired: Object.fromEntries(Object.keys(row.properties).map(key => [key, timestamp])) },
+              desiredVersion: 1,
+            },
+          });
+        }
+
+        results.push({ row: row.row, id: device.id, name: device.name, credential });
+      }
+
+      // 父设备在同一文件中时，全部创建后再关联
+      for (const row of rows) {
+        if (row.parentName) {
+          await tx.device.update({
+            where: { id: createdIds.get(this.nameKey(row.organizationId, row.name)) },
+            data: { parentId: createdIds.get(this.nameKey(row.organizationId, row.parentName)) },
+          });
+        }
+      }
+
+      return results;
+    }, { timeout: this.TRANSACTION_TIMEOUT });
+
+    return { ...report, created };
+  }
+
+  /**
+   * 导出设备
+   * @param where 筛选条件（见deviceService.buildListFilter）
+   * @param format 文件格式
+   * @returns 文件内容和导出行数，超过导出上限时抛出DeviceImportError
+   */
+  public async export(where: Prisma.DeviceWhereInput, format: SpreadsheetFormat): Promise<{ data: Buffer; count: number }> {
+    const total = await prisma.device.count({ where });
+    if (total > this.MAX_EXPORT_ROWS) {
+      throw new DeviceImportError(`导出设备数量（${total}）超过上限${this.MAX_EXPORT_ROWS}，请缩小筛选范围`);
+    }
+
+    const devices = await prisma.device.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      include: {
+        deviceClass: { select: { name: true } },
+        organization: { select: { code: true, name: true } },
+        parent: { select: { name: true } },
+        shadow: { select: { desired: true } },
+      },
+    });
+
+    // 配置和期望属性的键作为动态列
+    const configKeys = new Set<string>();
+    const propertyKeys = new Set<string>();
+    for (const device of devices) {
+      for (const key of Object.keys(this.flatten(device.config))) configKeys.add(key);
+      for (const key of Object.keys(this.asObject(device.shadow?.desired))) propertyKeys.add(key);
+    }
+
+    // 导入时忽略的只读列：id、设备类名称、组织名称、状态、时间
+    const header = [
+      'id', 'name', 'alias', 'deviceClass', 'deviceClassName', 'organization', 'organizationName', 'parent',
+      'isPublic', 'isFeatured', 'status', 'lastConnected', 'createdAt',
+      ...[...configKeys].sort().map(key => `config.${key}`),
+      ...[...propertyKeys].sort().map(key => `property.${key}`),
+    ];
+
+    const rows = devices.map(device => {
+      const config = this.flatten(device.config);
+      const desired = this.asObject(device.shadow?.desired);
+      return [
+        device.id,
+        device.name,
+        device.alias || '',
+        device.deviceClassId,
+        device.deviceClass.name,
+        device.organization.code,
+        device.organization.name,
+        device.parentId || '',
+        String(device.isPublic),
+        String(device.isFeatured),
+        device.status,
+        device.lastConnected?.toISOString() || '',
+        device.createdAt.toISOString(),
+        ...[...configKeys].sort().map(key => this.formatValue(config[key])),
+        ...[...propertyKeys].sort().map(key => this.formatValue(desired[key])),
+      ];
+    });
+
+    return { data: buildSpreadsheet([header, ...rows], format, 'Devices'), count: devices.length };
+  }
+
+  /**
+   * 解析文件并逐行校验
+   */
+  private async validate(
+    data: Buffer,
+    format: SpreadsheetFormat,
+    user: any,
+    options: DeviceImportOptions
+  ): Promise<{ report: DeviceImportReport; rows: ImportRow[] }> {
+    const [header, ...records] = parseSpreadsheet(data, format);
+    if (!header || header.every(cell => !cell.trim())) {
+      throw new DeviceImportError('文件中没有表头');
+    }
+
+    const columns = header.map(cell => ({ header: cell.trim(), field: this.mapColumn(cell.trim(), options.mapping) }));
+    for (const required of ['name', 'deviceClass'] as const) {
+      if (!columns.some(column => column.field === required)) {
+        throw new DeviceImportError(`缺少必填列: ${FIELD_HEADERS[required][0]}`);
+      }
+    }
+    if (!options.organizationId && !columns.some(column => column.field === 'organization')) {
+      throw new DeviceImportError(`缺少必填列: ${FIELD_HEADERS.organization[0]}（或指定默认组织）`);
+    }
+
+    // 跳过空行，保留表格行号
+    const lines = records
+      .map((cells, index) => ({ row: index + 2, cells }))
+      .filter(line => line.cells.some(cell => cell.trim() !== ''));
+    if (lines.length === 0) {
+      throw new DeviceImportError('文件中没有设备数据');
+    }
+    if (lines.length > this.MAX_ROWS) {
+      throw new DeviceImportError(`单次最多导入${this.MAX_ROWS}台设备，文件包含${lines.length}行`);
+    }
+
+    const value = (cells: string[], field: string): string => {
+      const index = columns.findIndex(column => column.field === field);
+      return index >= 0 ? (cells[index] || '').trim() : '';
+    };
+
+    // 批量查询引用的设备类、组织和已有设备，避免逐行查询
+    const references = await this.loadReferences(lines.map(line => ({
+      deviceClass: value(line.cells, 'deviceClass'),
+      organization: value(line.cells, 'organization') || options.organizationId || '',
+      parent: value(line.cells, 'parent'),
+      name: value(line.cells, 'name'),
+    })));
+    const allowedOrgIds = await getAccessibleOrganizationIds(user);
+
+    // 同一文件内的设备名称，按组织区分
+    const fileNames = new Map<string, number>();
+    const rows: ImportRow[] = [];
+    const errors: DeviceImportRowResult[] = [];
+
+    for (const line of lines) {
+      const rowErrors: string[] = [];
+      const name = value(line.cells, 'name');
+      const alias = value(line.cells, 'alias');
+
+      if (!name) {
+        rowErrors.push('设备名称不能为空');
+      } else if (name.length > 100) {
+        rowErrors.push('设备名称不能超过100个字符');
+      }
+      if (alias.length > 100) {
+        rowErrors.push('设备别名不能超过100个字符');
+      }
+
+      // 组织
+      const organizationRef = value(line.cells, 'organization') || options.organizationId || '';
+      const organization = this.findOrganization(references.organizations, organizationRef);
+      if (!organizationRef) {
+        rowErrors.push('组织不能为空');
+      } else if (!organization) {
+        rowErrors.push(`组织不存在: ${organizationRef}`);
+      } else if (allowedOrgIds && !allowedOrgIds.includes(organization.id)) {
+        rowErrors.push(`无权在组织 ${organization.name} 下创建设备`);
+      }
+
+      // 设备类须属于设备所在组织或为公开设备类
+      const deviceClassRef = value(line.cells, 'deviceClass');
+      let deviceClass: DeviceClass | null = null;
+      if (!deviceClassRef) {
+        rowErrors.push('设备类不能为空');
+      } else {
+        // 同名时优先使用本组织的设备类
+        const matched = references.deviceClasses.filter(item =>
+          (item.id === deviceClassRef || item.name === deviceClassRef) &&
+          (item.isPublic || item.organizationId === organization?.id)
+        );
+        const ownClasses = matched.filter(item => item.organizationId === organization?.id);
+        const candidates = ownClasses.length > 0 ? ownClasses : matched;
+        if (candidates.length === 0) {
+          rowErrors.push(`设备类不存在: ${deviceClassRef}`);
+        } else if (candidates.length > 1) {
+          rowErrors.push(`设备类名称不唯一，请使用设备类ID: ${deviceClassRef}`);
+        } else {
+          deviceClass = candidates[0];
+        }
+      }
+
+      // 组织内设备名称不能重复
+      let parentId: string | null = null;
+      let parentName: string | null = null;
+      if (name && organization) {
+        const key = this.nameKey(organization.id, name);
+        if (fileNames.has(key)) {
+          rowErrors.push(`与第${fileNames.get(key)}行设备名称重复`);
+        } else {
+          fileNames.set(key, line.row);
+        }
+        if (references.devices.some(device => device.organizationId === organization.id && device.name === name)) {
+          rowErrors.push(`组织内已存在同名设备: ${name}`);
+        }
+
+        // 父设备：已有设备（ID或名称）或同一文件中的设备
+        const parentRef = value(line.cells, 'parent');
+        if (parentRef) {
+          const existing = references.devices.filter(device =>
+            device.organizationId === organization.id && (device.id === parentRef || device.name === parentRef)
+          );
+          const inFile = lines.some(other => other !== line &&
+            value(other.cells, 'name') === parentRef &&
+            this.findOrganization(references.organizations, value(other.cells, 'organization') || options.organizationId || '')?.id === organization.id
+          );
+          if (parentRef === name) {
+            rowErrors.push('父设备不能是设备本身');
+          } else if (existing.length === 1 && !inFile) {
+            parentId = existing[0].id;
+            if (existing[0].deviceClass.type === DeviceType.GATEWAY_CHILD) {
+              rowErrors.push(`父设备不是网关: ${parentRef}`);
+            }
+          } else if (existing.length === 0 && inFile) {
+            parentName = parentRef;
+          } else if (existing.length === 0) {
+            rowErrors.push(`父设备不存在: ${parentRef}`);
+          } else {
+            rowErrors.push(`父设备名称不唯一，请使用父设备ID: ${parentRef}`);
+          }
+          if (deviceClass && deviceClass.type !== DeviceType.GATEWAY_CHILD) {
+            rowErrors.push('设备不是网关子设备，不能设置父设备');
+          }
+        }
+      }
+
+      const isPublic = this.parseBoolean(value(line.cells, 'isPublic'), 'isPublic', rowErrors);
+      const isFeatured = this.parseBoolean(value(line.cells, 'isFeatured'), 'isFeatured', rowErrors);
+
+      // 设备配置和物模型属性
+      const config: Record<string, unknown> = {};
+      const properties: Record<string, unknown> = {};
+      const model = deviceClass ? thingModelService.parseThingModel(deviceClass.thingModel) : null;
+      columns.forEach((column, index) => {
+        const raw = (line.cells[index] || '').trim();
+        if (!column.field || raw === '') return;
+        if (column.field.startsWith('config.')) {
+          this.setPath(config, column.field.slice('config.'.length), this.parseConfigValue(raw));
+        } else if (column.field.startsWith('property.')) {
+          const identifier = column.field.slice('property.'.length);
+          properties[identifier] = this.parsePropertyValue(model, identifier, raw);
+        }
+      });
+
+      if (Object.keys(properties).length > 0 && deviceClass) {
+        if (!model) {
+          rowErrors.push('设备类未定义物模型，不能设置属性');
+        } else {
+          const result = thingModelService.validateProperties(model, properties, ThingMethod.PROPERTY_SET);
+          rowErrors.push(...result.violations.map(violation => `属性 ${violation.path}: ${violation.message}`));
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push({ row: line.row, name, errors: rowErrors });
+        continue;
+      }
+
+      rows.push({
+        row: line.row,
+        name,
+        alias: alias || null,
+        deviceClassId: deviceClass!.id,
+        organizationId: organization!.id,
+        parentId,
+        parentName,
+        isPublic,
+        isFeatured,
+        config,
+        properties,
+      });
+    }
+
+    // 同一文件中的父设备须为网关，且不能形成循环引用（如A的父设备为B、B的父设备为A）
+    const rowsByName = new Map(rows.map(row => [this.nameKey(row.organizationId, row.name), row]));
+    const parentRow = (row: ImportRow) =>
+      row.parentName ? rowsByName.get(this.nameKey(row.organizationId, row.parentName)) : undefined;
+    const classTypes = new Map(references.deviceClasses.map(item => [item.id, item.type]));
+    const invalidRows = new Set<ImportRow>();
+    for (const row of rows) {
+      const inFileParent = parentRow(row);
+      if (inFileParent && classTypes.get(inFileParent.deviceClassId) === DeviceType.GATEWAY_CHILD) {
+        invalidRows.add(row);
+        errors.push({ row: row.row, name: row.name, errors: [`父设备不是网关: ${row.parentName}`] });
+        continue;
+      }
+
+      const chain = [row];
+      let parent = parentRow(row);
+      while (parent && !chain.includes(parent)) {
+        chain.push(parent);
+        parent = parentRow(parent);
+      }
+      if (parent === row) {
+        invalidRows.add(row);
+        errors.push({ row: row.row, name: row.name, errors: [`父设备循环引用: ${[...chain, row].map(item => item.name).join(' → ')}`] });
+      }
+    }
+
+    // 父设备在同一文件中但校验未通过时，子设备也无法导入；逐层传递直到没有新的无效行
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const validNames = new Set(rows.filter(row => !invalidRows.has(row)).map(row => this.nameKey(row.organizationId, row.name)));
+      for (const row of rows) {
+        if (!invalidRows.has(row) && row.parentName && !validNames.has(this.nameKey(row.organizationId, row.parentName))) {
+          invalidRows.add(row);
+          errors.push({ row: row.row, name: row.name, errors: [`父设备 ${row.parentName} 校验未通过`] });
+          changed = true;
+        }
+      }
+    }
+    for (const row of invalidRows) {
+      rows.splice(rows.indexOf(row), 1);
+    }
+    errors.sort((a, b) => a.row - b.row);
+
+    return {
+      report: {
+        total: lines.length,
+        valid: rows.length,
+        invalid: errors.length,
+        columns,
+        errors,
+      },
+      rows,
+    };
+  }
+
+  /**
+   * 查询导入行引用的设备类、组织，以及相关组织内的已有设备（用于名称重复和父设备校验）
+   */
+  private async loadReferences(lines: Array<{ deviceClass: string; organization: string; parent: string; name: string }>): Promise<{
+    deviceClasses: DeviceClass[];
+    organizations: Organization[];
+    devices: Array<Pick<Device, 'id' | 'name' | 'organizationId'> & { deviceClass: Pick<DeviceClass, 'type'> }>;
+  }> {
+    const distinct = (values: string[]) => [...new Set(values.filter(Boolean))];
+    const classRefs = distinct(lines.map(line => line.deviceClass));
+    const orgRefs = distinct(lines.map(line => line.organization));
+    const deviceRefs = distinct(lines.flatMap(line => [line.parent, line.name]));
+
+    const [deviceClasses, organizations] = await Promise.all([
+      prisma.deviceClass.findMany({
+        where: { OR: [{ id: { in: classRefs.filter(ref => UUID_PATTERN.test(ref)) } }, { name: { in: classRefs } }] },
+      }),
+      prisma.organization.findMany({
+        where: { OR: [{ id: { in: orgRefs.filter(ref => UUID_PATTERN.test(ref)) } }, { code: { in: orgRefs } }] },
+      }),
+    ]);
+
+    const devices = organizations.length === 0 ? [] : await prisma.device.findMany({
+      where: {
+        organizationId: { in: organizations.map(organization => organization.id) },
+        OR: [{ id: { in: deviceRefs.filter(ref => UUID_PATTERN.test(ref)) } }, { name: { in: deviceRefs } }],
+      },
+      select: { id: true, name: true, organizationId: true, deviceClass: { select: { type: true } } },
+    });
+
+    return { deviceClasses, organizations, devices };
+  }
+
+  /**
+   * 表头映射为设备字段：优先使用自定义映射，其次按列名识别，config./property. 前缀原样保留
+   */
+  private mapColumn(header: string, mapping?: DeviceImportMapping): string | null {
+    if (mapping && header in mapping) {
+      return mapping[header];
+    }
+
+    const normalized = header.toLowerCase().replace(/[\s_]/g, '');
+    for (const [field, headers] of Object.entries(FIELD_HEADERS)) {
+      if (headers.includes(normalized)) {
+        return field;
+      }
+    }
+
+    const prefixed = header.match(/^(config|property)\.(.+)$/i);
+    return prefixed ? `${prefixed[1].toLowerCase()}.${prefixed[2]}` : null;
+  }
+
+  private findOrganization(organizations: Organization[], ref: string): Organization | undefined {
+    return organizations.find(organization => organization.id === ref || organization.code === ref);
+  }
+
+  private parseBoolean(raw: string, field: string, errors: string[]): boolean {
+    const normalized = raw.toLowerCase();
+    if (TRUE_VALUES.includes(normalized)) {
+      return true;
+    }
+    if (!FALSE_VALUES.includes(normalized)) {
+      errors.push(`${field} 须为 true/false`);
+    }
+    return false;
+  }
+
+  /**
+   * 配置值：布尔、数值和JSON按类型解析，其余为字符串
+   */
+  private parseConfigValue(raw: string): unknown {
+    if (raw === 'true' || raw === 'false') {
+      return raw === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(raw) && Number.isFinite(Number(raw))) {
+      return Number(raw);
+    }
+    if (raw.startsWith('{') || raw.startsWith('[')) {
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    }
+    return raw;
+  }
+
+  /**
+   * 属性值按物模型数据类型解析，无法解析时保留原文由物模型校验报错
+   */
+  private parsePropertyValue(model: ThingModel | null, identifier: string, raw: string): unknown {
+    const property = model?.properties.find(item => item.identifier === identifier);
+    switch (property?.dataType.type) {
+      case 'int':
+      case 'float':
+      case 'double':
+        return raw !== '' && Number.isFinite(Number(raw)) ? Number(raw) : raw;
+      case 'bool':
+        return TRUE_VALUES.includes(raw.toLowerCase()) ? true : FALSE_VALUES.includes(raw.toLowerCase()) ? false : raw;
+      case 'struct':
+      case 'array':
+        return this.parseConfigValue(raw);
+      default:
+        return raw;
+    }
+  }
+
+  /**
+   * 按点分隔的键设置嵌套值
+   */
+  private setPath(target: Record<string, unknown>, path: string, value: unknown): void {
+    const keys = path.split('.');
+    let current = target;
+    for (const key of keys.slice(0, -1)) {
+      if (!current[key] || typeof current[key] !== 'object' || Array.isArray(current[key])) {
+        current[key] = {};
+      }
+      current = current[key] as Record<string, unknown>;
+    }
+    current[keys[keys.length - 1]] = value;
+  }
+
+  /**
+   * 将嵌套对象展开为点分隔的键，数组保持为JSON值
+   */
+  private flatten(value: unknown, prefix = ''): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(this.asObject(value))) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (item && typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length > 0) {
+        Object.assign(result, this.flatten(item, path));
+      } else {
+        result[path] = item;
+      }
+    }
+    return result;
+  }
+
+  private asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+
+  private formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  private nameKey(organizationId: string, name: string): string {
+    return `${organizationId}\n${name}`;
+  }
+}
+
+// 导出单例实例
+export const deviceImportService = DeviceImportService.getInstance();
+export default deviceImportService;
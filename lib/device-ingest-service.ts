@@ -0,0 +1,392 @@
+/**
+ * 设备HTTP接入服务 - 为无法保持长连接的设备提供HTTP上报通道
+ *
+ * 该服务实现了以下功能：
+ * 1. 设备认证：签名（见device-credential-service）换取设备访问令牌，上报时以 Authorization: Bearer {令牌} 携带，不接受用户JWT
+ * 2. 属性上报：POST /api/ingest/{deviceId}/telemetry
+ *    单条：{ "properties": { "temperature": 25.3 }, "timestamp"?: 1718000000000 }
+ *    批量：{ "readings": [单条, ...] } 或直接提交数组，用于设备断网后补传带采集时间的历史数据
+ * 3. 事件上报：POST /api/ingest/{deviceId}/events
+ *    单条：{ "identifier": "overheat", "params"?: {...}, "timestamp"?: 1718000000000 }
+ *    批量：{ "events": [单条, ...] } 或直接提交数组
+ * 4. 时间戳支持毫秒时间戳和ISO 8601字符串，未提供时为接收时间；批量数据按采集时间排序后进入物模型处理流程
+ * 5. 请求体大小限制（INGEST_MAX_PAYLOAD_SIZE，默认64KB）和按设备的请求频率限制（INGEST_RATE_LIMIT，默认每分钟60次）
+ *    签名换取令牌单独限制认证失败次数（INGEST_AUTH_FAILURE_LIMIT，默认每分钟10次），不占用上报的请求频率
+ * 6. 上报时更新DeviceConnectionService中的设备状态，长时间无上报由心跳检测置为不活跃
+ */
+
+import { z } from 'zod';
+import { deviceCredentialService } from './device-credential-service';
+import { deviceConnectionService, DeviceConnectionStatus, DeviceProtocol } from './device-connection-service';
+import { thingModelService, ThingMethod, ThingModelViolation } from './thing-model-service';
+
+/**
+ * 接入请求错误，携带HTTP状态码
+ */
+export class IngestError extends Error {
+  constructor(message: string, public readonly status: number, public readonly retryAfter?: number) {
+    super(message);
+    this.name = 'IngestError';
+  }
+}
+
+/**
+ * 上报结果
+ */
+export interface IngestResult {
+  // 接收的条数
+  received: number;
+  // 未通过物模型校验的条目（数据仍会保存并标记异常）
+  anomalies: Array<{
+    // 条目在请求中的序号
+    index: number;
+    // 违规项
+    violations: ThingModelViolation[];
+  }>;
+}
+
+/**
+ * 请求频率计数
+ */
+interface RateRecord {
+  // 窗口内请求次数
+  count: number;
+  // 窗口重置时间（毫秒时间戳）
+  resetTime: number;
+}
+
+/**
+ * 请求来源
+ */
+export interface IngestContext {
+  // 客户端IP
+  ipAddress?: string;
+}
+
+// 时间戳：毫秒时间戳或ISO 8601字符串
+const timestampSchema = z.union([
+  z.number().int().positive(),
+  z.string().datetime({ offset: true }),
+]);
+
+const readingSchema = z.object({
+  properties: z.record(z.any()).refine(value => Object.keys(value).length > 0, '属性不能为空'),
+  timestamp: timestampSchema.optional(),
+});
+
+const eventSchema = z.object({
+  identifier: z.string().min(1, '事件标识符不能为空').max(100),
+  params: z.record(z.any()).default({}),
+  timestamp: timestampSchema.optional(),
+});
+
+class DeviceIngestService {
+  private static instance: DeviceIngestService;
+  private rateRecords: Map<string, RateRecord> = new Map();
+  private authFailures: Map<string, RateRecord> = new Map();
+  private lastCleanup = Date.now();
+  private readonly MAX_PAYLOAD_SIZE = Number(process.env.INGEST_MAX_PAYLOAD_SIZE || 64 * 1024);
+  private readonly RATE_LIMIT = Number(process.env.INGEST_RATE_LIMIT || 60); // 每设备每分钟请求数
+  private readonly RATE_WINDOW = 60 * 1000;
+  private readonly AUTH_FAILURE_LIMIT = Number(process.env.INGEST_AUTH_FAILURE_LIMIT || 10); // 每设备每分钟签名认证失败次数
+  private readonly MAX_BATCH_SIZE = Number(process.env.INGEST_MAX_BATCH || 100);
+  private readonly MAX_PAST = 7 * 24 * 60 * 60 * 1000; // 补传数据最早可追溯7天
+  private readonly MAX_FUTURE = 5 * 60 * 1000; // 允许设备时钟超前5分钟
+
+  // 单条、{ readings: [...] } 和数组统一转换为数组后校验
+  private readonly telemetrySchema = z.preprocess(
+    body => this.toBatch(body, 'readings'),
+    z.array(readingSchema).min(1, '上报数据不能为空').max(this.MAX_BATCH_SIZE, `单次最多上报${this.MAX_BATCH_SIZE}条`)
+  );
+
+  // 单条、{ events: [...] } 和数组统一转换为数组后校验
+  private readonly eventsSchema = z.preprocess(
+    body => this.toBatch(body, 'events'),
+    z.array(eventSchema).min(1, '上报数据不能为空').max(this.MAX_BATCH_SIZE, `单次最多上报${this.MAX_BATCH_SIZE}条`)
+  );
+
+  // 私有构造函数，防止直接实例化
+  private constructor() {}
+
+  /**
+   * 获取服务实例（单例模式）
+   * @returns DeviceIngestService实例
+   */
+  public static getInstance(): DeviceIngestService {
+    if (!DeviceIngestService.instance) {
+      DeviceIngestService.instance = new DeviceIngestService();
+    }
+    return DeviceIngestService.instance;
+  }
+
+  /**
+   * 校验请求携带的设备访问令牌，失败时抛出401错误
+   * @param deviceId 设备ID
+   * @param authorization Authorization请求头
+   * @param context 请求来源
+   */
+  public async authenticate(deviceId: string, authorization: string | null, context: IngestContext): Promise<void> {
+    const token = authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : undefined;
+    const valid = await deviceCredentialService.verifyAccessToken(deviceId, token, {
+      protocol: 'HTTP',
+      ipAddress: context.ipAddress,
+    });
+    if (!valid) {
+      throw new IngestError('设备认证失败', 401);
+    }
+  }
+
+  /**
+   * 检查设备请求频率，超过限制时抛出429错误
+   * @param deviceId 设备ID
+   */
+  public checkRateLimit(deviceId: string): void {
+    const now = Date.now();
+    this.cleanupRateRecords(now);
+
+    let record = this.rateRecords.get(deviceId);
+    if (!record || now > record.resetTime) {
+      record = { count: 0, resetTime: now + this.RATE_WINDOW };
+      this.rateRecords.set(deviceId, record);
+    }
+
+    record.count++;
+    if (record.count > this.RATE_LIMIT) {
+      throw new IngestError('请求过于频繁，请稍后再试', 429, Math.ceil((record.resetTime - now) / 1000));
+    }
+  }
+
+  /**
+   * 检查设备签名认证失败次数，超过限制时抛出429错误
+   * 只统计失败的认证，签名正确的设备不受影响，也不占用上报的请求频率
+   * @param deviceId 设备ID
+   */
+  public checkAuthFailures(deviceId: string): void {
+    const now = Date.now();
+    this.cleanupRateRecords(now);
+
+    const record = this.authFailures.get(deviceId);
+    if (record && now <= record.resetTime && record.count >= this.AUTH_FAILURE_LIMIT) {
+      throw new IngestError('认证失败次数过多，请稍后再试', 429, Math.ceil((record.resetTime - now) / 1000));
+    }
+  }
+
+  /**
+   * 记录一次设备签名认证失败
+   * @param deviceId 设备ID
+   */
+  public recordAuthFailure(deviceId: string): void {
+    const now = Date.now();
+    let record = this.authFailures.get(deviceId);
+    if (!record || now > record.resetTime) {
+      record = { count: 0, resetTime: now + this.RATE_WINDOW };
+      this.authFailures.set(deviceId, record);
+    }
+    record.count++;
+  }
+
+  /**
+   * 读取请求体并解析JSON，超过大小限制时抛出413错误
+   * 按流读取，不依赖Content-Length，超限后立即停止读取
+   * @param request 请求
+   * @returns 解析后的JSON
+   */
+  public async readBody(request: Request): Promise<unknown> {
+    const declared = Number(request.headers.get('content-length'));
+    if (declared > this.MAX_PAYLOAD_SIZE) {
+      throw new IngestError(`请求体不能超过${this.MAX_PAYLOAD_SIZE}字节`, 413);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    if (request.body) {
+      const reader = request.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > this.MAX_PAYLOAD_SIZE) {
+          await reader.cancel();
+          throw new IngestError(`请求体不能超过${this.MAX_PAYLOAD_SIZE}字节`, 413);
+        }
+        chunks.push(Buffer.from(value));
+      }
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new IngestError('请求体不是有效的JSON', 400);
+    }
+  }
+
+  /**
+   * 处理属性上报
+   * @param deviceId 设备ID
+   * @param body 请求体
+   * @param context 请求来源
+   * @returns 上报结果
+   */
+  public async ingestTelemetry(deviceId: string, body: unknown, context: IngestContext): Promise<IngestResult> {
+    const validation = this.telemetrySchema.safeParse(body);
+    if (!validation.success) {
+      throw new IngestError(this.describeValidationError(validation.error), 400);
+    }
+
+    const readings = validation.data.map((reading, index) => ({
+      index,
+      params: reading.properties,
+      time: this.resolveTimestamp(reading.timestamp, index),
+    }));
+
+    await this.markActive(deviceId, context);
+
+    const anomalies: IngestResult['anomalies'] = [];
+    for (const reading of this.sortByTime(readings)) {
+      const result = await thingModelService.handleDeviceMessage(deviceId, 'HTTP', {
+        method: ThingMethod.PROPERTY_POST,
+        params: reading.params,
+        timestamp: reading.time,
+      });
+      if (!result.valid) {
+        anomalies.push({ index: reading.index, violations: result.violations });
+      }
+    }
+
+    return { received: readings.length, anomalies: anomalies.sort((a, b) => a.index - b.index) };
+  }
+
+  /**
+   * 处理事件上报
+   * @param deviceId 设备ID
+   * @param body 请求体
+   * @param context 请求来源
+   * @returns 上报结果
+   */
+  public async ingestEvents(deviceId: string, body: unknown, context: IngestContext): Promise<IngestResult> {
+    const validation = this.eventsSchema.safeParse(body);
+    if (!validation.success) {
+      throw new IngestError(this.describeValidationError(validation.error), 400);
+    }
+
+    const events = validation.data.map((event, index) => ({
+      index,
+      identifier: event.identifier,
+      params: event.params,
+      time: this.resolveTimestamp(event.timestamp, index),
+    }));
+
+    await this.markActive(deviceId, context);
+
+    const anomalies: IngestResult['anomalies'] = [];
+    for (const event of this.sortByTime(events)) {
+      const result = await thingModelService.handleDeviceMessage(deviceId, 'HTTP', {
+        method: ThingMethod.EVENT_POST,
+        identifier: event.identifier,
+        params: event.params,
+        timestamp: event.time,
+      });
+      if (!result.valid) {
+        anomalies.push({ index: event.index, violations: result.violations });
+      }
+    }
+
+    return { received: events.length, anomalies: anomalies.sort((a, b) => a.index - b.index) };
+  }
+
+  /**
+   * 解析采集时间，超出允许范围时抛出400错误
+   * @param timestamp 毫秒时间戳或ISO 8601字符串
+   * @param index 条目序号，用于错误信息
+   * @returns 采集时间，未提供时返回undefined（使用接收时间）
+   */
+  private resolveTimestamp(timestamp: number | string | undefined, index: number): Date | undefined {
+    if (timestamp === undefined) {
+      return undefined;
+    }
+
+    const time = new Date(timestamp);
+    const now = Date.now();
+    if (isNaN(time.getTime()) || time.getTime() < now - this.MAX_PAST || time.getTime() > now + this.MAX_FUTURE) {
+      throw new IngestError(`第${index + 1}条数据的时间戳超出允许范围（最早7天前，最晚不超过当前时间5分钟）`, 400);
+    }
+    return time;
+  }
+
+  /**
+   * 按采集时间排序，未提供时间的条目视为当前时间，保持同一时间条目的原始顺序
+   */
+  private sortByTime<T extends { index: number; time?: Date }>(items: T[]): T[] {
+    const now = Date.now();
+    return [...items].sort((a, b) => ((a.time?.getTime() ?? now) - (b.time?.getTime() ?? now)) || a.index - b.index);
+  }
+
+  /**
+   * 上报时更新设备连接状态：已通过HTTP在线时仅刷新活动时间，否则置为在线
+   */
+  private async markActive(deviceId: string, context: IngestContext): Promise<void> {
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+    if (connection?.status === DeviceConnectionStatus.ONLINE && connection.protocol === DeviceProtocol.HTTP) {
+      await deviceConnectionService.updateDeviceActivity(deviceId, { address: context.ipAddress });
+      return;
+    }
+
+    // 状态更新失败不影响本次上报
+    try {
+      await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.ONLINE, DeviceProtocol.HTTP, {
+        address: context.ipAddress,
+      });
+    } catch (error) {
+      console.error(`更新HTTP设备 ${deviceId} 在线状态失败:`, error);
+    }
+  }
+
+  /**
+   * 清理已过期的频率计数，避免已停止上报的设备长期占用内存
+   */
+  private cleanupRateRecords(now: number): void {
+    if (now - this.lastCleanup < this.RATE_WINDOW) {
+      return;
+    }
+    this.lastCleanup = now;
+    for (const records of [this.rateRecords, this.authFailures]) {
+      for (const [deviceId, record] of records) {
+        if (now > record.resetTime) {
+          records.delete(deviceId);
+        }
+      }
+    }
+  }
+
+  /**
+   * 将请求体统一为数组：数组原样返回，含批量字段时取批量字段，否则视为单条
+   */
+  private toBatch(body: unknown, key: string): unknown {
+    if (Array.isArray(body)) {
+      return body;
+    }
+    if (body && typeof body === 'object' && key in body) {
+      return (body as Record<string, unknown>)[key];
+    }
+    return [body];
+  }
+
+  /**
+   * 将校验错误转换为可读的错误信息，指明出错的条目和字段
+   */
+  private describeValidationError(error: z.ZodError): string {
+    const issue = error.errors[0];
+    if (!issue) {
+      return '请求数据无效';
+    }
+    const [index, ...field] = issue.path;
+    if (typeof index !== 'number') {
+      return issue.message;
+    }
+    return `第${index + 1}条数据${field.length > 0 ? `的${field.join('.')}` : ''}: ${issue.message}`;
+  }
+}
+
+// 导出单例实例
+export const deviceIngestService = DeviceIngestService.getInstance();
+export default deviceIngestService;
@@ -7,14 +7,21 @@
  * 3. 通知模板管理
  * 4. 通知发送记录
  * 5. 通知规则配置
+ * 6. 设备告警推送：携带联动摄像头，供视频墙弹出告警画面
+ * 7. 设备数据异常通知：上报数据或命令响应不符合物模型
+ * 8. 设备命令响应通知：命令下发后的状态变更
  */
 
 import { EventEmitter } from 'events';
-import { PrismaClient, Device, User, Organization } from '@prisma/client';
-import { prisma } from './db-prisma';
+import { PrismaClient, Device, DeviceAlarm, DeviceCommand, AlarmLevel, User, Organization, VideoHealthState } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
 import { websocketService } from './websocket-service';
 import { deviceConnectionService, DeviceConnectionStatus, DeviceConnectionInfo } from './device-connection-service';
 import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+import { streamHealthMonitor, StreamHealthStatus } from './stream-health-monitor';
+import { thingModelService, DeviceDataAnomaly } from './thing-model-service';
+import { deviceCommandDispatcher } from './device-command-dispatcher';
 
 /**
  * 通知类型
@@ -27,6 +34,8 @@ export enum NotificationType {
   DEVICE_ALARM = 'DEVICE_ALARM',
   DEVICE_COMMAND_RESPONSE = 'DEVICE_COMMAND_RESPONSE',
   DEVICE_DATA_ANOMALY = 'DEVICE_DATA_ANOMALY',
+  CAMERA_OFFLINE = 'CAMERA_OFFLINE',
+  CAMERA_ONLINE = 'CAMERA_ONLINE',
   SYSTEM_ERROR = 'SYSTEM_ERROR'
 }
 
@@ -87,6 +96,8 @@ export interface NotificationMessage {
   priority: NotificationPriority;
   // 设备ID
   deviceId?: string;
+  // 视频配置ID
+  videoConfigId?: string;
   // 设备标识符
   deviceIdentifier?: string;
   // 设备名称
@@ -105,6 +116,30 @@ export interface NotificationMessage {
   readBy?: string;
 }
 
+/**
+ * 设备告警推送消息（/alerts命名空间的newAlert和alertConfirmed事件）
+ */
+export interface DeviceAlarmAlert {
+  // 告警ID
+  id: string;
+  // 告警级别
+  level: AlarmLevel;
+  // 告警内容
+  content: string;
+  // 告警时间
+  createdAt: Date;
+  // 是否已确认
+  isConfirmed: boolean;
+  // 设备ID
+  deviceId: string;
+  // 设备名称
+  deviceName: string;
+  // 组织ID
+  organizationId: string;
+  // 联动摄像头的视频配置ID（仅包含启用的视频配置）
+  videoConfigIds: string[];
+}
+
 /**
  * 设备在线离线通知服务类
  */
@@ -236,6 +271,234 @@ export class DeviceNotificationService extends EventEmitter {
     }
   }
 
+  /**
+   * 发送摄像头状态变更通知
+   * 离线时发送摄像头离线告警，从离线恢复时发送恢复通知
+   * @param status 视频流健康状态
+   * @param previousState 变更前的健康状态
+   */
+  public async sendCameraStatusNotification(
+    status: StreamHealthStatus,
+    previousState: VideoHealthState
+  ): Promise<void> {
+    try {
+      let notificationType: NotificationType;
+      if (status.state === VideoHealthState.OFFLINE) {
+        notificationType = NotificationType.CAMERA_OFFLINE;
+      } else if (previousState === VideoHealthState.OFFLINE && status.state === VideoHealthState.ONLINE) {
+        notificationType = NotificationType.CAMERA_ONLINE;
+      } else {
+        return; // 降级等状态只推送实时状态，不发送通知
+      }
+
+      const configs = this.getNotificationConfigs(status.organizationId);
+      const matchingConfig = configs.find(config =>
+        config.type === notificationType && config.enabled
+      );
+
+      if (!matchingConfig) {
+        return;
+      }
+
+      const time = status.checkedAt.toLocaleString();
+      const message: NotificationMessage = {
+        id: this.generateNotificationId(),
+        type: notificationType,
+        title: notificationType === NotificationType.CAMERA_OFFLINE
+          ? `摄像头离线: ${status.name}`
+          : `摄像头恢复在线: ${status.name}`,
+        content: notificationType === NotificationType.CAMERA_OFFLINE
+          ? `摄像头 ${status.name}(${status.cameraCode}) 于 ${time} 离线。原因: ${status.message}`
+          : `摄像头 ${status.name}(${status.cameraCode}) 于 ${time} 恢复在线。`,
+        timestamp: new Date(),
+        priority: matchingConfig.priority,
+        videoConfigId: status.videoConfigId,
+        organizationId: status.organizationId,
+        data: {
+          state: status.state,
+          previousState,
+          bitrate: status.bitrate,
+          frameRate: status.frameRate,
+          consecutiveFailures: status.consecutiveFailures,
+        }
+      };
+
+      await this.sendNotification(message, matchingConfig.channels);
+      await this.logNotification(message);
+    } catch (error) {
+      console.error(`Error sending camera status notification: ${error}`);
+    }
+  }
+
+  /**
+   * 发送设备告警通知
+   * 向/alerts命名空间推送告警及联动摄像头，并按通知配置发送到其他渠道
+   * @param alarm 设备告警
+   */
+  public async sendDeviceAlarmNotification(alarm: DeviceAlarm): Promise<void> {
+    try {
+      const device = await this.getDeviceWithOrganization(alarm.deviceId);
+      if (!device) {
+        console.error(`Device with ID ${alarm.deviceId} not found`);
+        return;
+      }
+
+      websocketService.sendAlert(await this.buildAlarmAlert(alarm, device));
+
+      const configs = this.getNotificationConfigs(device.organizationId);
+      const matchingConfig = configs.find(config =>
+        config.type === NotificationType.DEVICE_ALARM && config.enabled
+      );
+
+      if (!matchingConfig) {
+        return;
+      }
+
+      const message: NotificationMessage = {
+        id: this.generateNotificationId(),
+        type: NotificationType.DEVICE_ALARM,
+        title: this.generateNotificationTitle(NotificationType.DEVICE_ALARM, device),
+        content: `设备 ${device.name} 于 ${alarm.createdAt.toLocaleString()} 产生${alarm.level}级告警: ${alarm.content}`,
+        timestamp: new Date(),
+        priority: matchingConfig.priority,
+        deviceId: device.id,
+        deviceName: device.name,
+        organizationId: device.organizationId,
+        organizationName: device.organization?.name,
+        data: {
+          alarmId: alarm.id,
+          level: alarm.level,
+        }
+      };
+
+      await this.sendNotification(message, matchingConfig.channels);
+      await this.logNotification(message);
+    } catch (error) {
+      console.error(`Error sending device alarm notification: ${error}`);
+    }
+  }
+
+  /**
+   * 发送设备数据异常通知
+   * @param anomaly 设备数据异常
+   */
+  public async sendDeviceDataAnomalyNotification(anomaly: DeviceDataAnomaly): Promise<void> {
+    try {
+      const device = await this.getDeviceWithOrganization(anomaly.deviceId);
+      if (!device) {
+        return;
+      }
+
+      const configs = this.getNotificationConfigs(device.organizationId);
+      const matchingConfig = configs.find(config =>
+        config.type === NotificationType.DEVICE_DATA_ANOMALY && config.enabled
+      );
+
+      if (!matchingConfig) {
+        return;
+      }
+
+      const details = anomaly.violations
+        .map(violation => `${violation.path}: ${violation.message}`)
+        .join('; ');
+
+      const message: NotificationMessage = {
+        id: this.generateNotificationId(),
+        type: NotificationType.DEVICE_DATA_ANOMALY,
+        title: this.generateNotificationTitle(NotificationType.DEVICE_DATA_ANOMALY, device),
+        content: `设备 ${device.name} 于 ${anomaly.timestamp.toLocaleString()} 通过${anomaly.source}上报的${anomaly.identifier || anomaly.method}数据不符合物模型${anomaly.rejected ? '，已拒绝' : ''}: ${details}`,
+        timestamp: new Date(),
+        priority: matchingConfig.priority,
+        deviceId: device.id,
+        deviceName: device.name,
+        organizationId: device.organizationId,
+        organizationName: device.organization?.name,
+        data: {
+          source: anomaly.source,
+          method: anomaly.method,
+          identifier: anomaly.identifier,
+          violations: anomaly.violations,
+          rejected: anomaly.rejected,
+        }
+      };
+
+      await this.sendNotification(message, matchingConfig.channels);
+      await this.logNotification(message);
+    } catch (error) {
+      console.error(`Error sending device data anomaly notification: ${error}`);
+    }
+  }
+
+  /**
+   * 发送设备命令响应通知
+   * @param command 状态变更后的设备命令
+   */
+  public async sendDeviceCommandNotification(command: DeviceCommand): Promise<void> {
+    try {
+      const device = await this.getDeviceWithOrganization(command.deviceId);
+      if (!device) {
+        return;
+      }
+
+      const configs = this.getNotificationConfigs(device.organizationId);
+      const matchingConfig = configs.find(config =>
+        config.type === NotificationType.DEVICE_COMMAND_RESPONSE && config.enabled
+      );
+
+      if (!matchingConfig) {
+        return;
+      }
+
+      const statusText: Record<string, string> = {
+        SENT: '已发送',
+        RECEIVED: '已接收',
+        EXECUTED: '已执行',
+        FAILED: '执行失败',
+      };
+
+      const message: NotificationMessage = {
+        id: this.generateNotificationId(),
+        type: NotificationType.DEVICE_COMMAND_RESPONSE,
+        title: this.generateNotificationTitle(NotificationType.DEVICE_COMMAND_RESPONSE, device),
+        content: `设备 ${device.name} 的 ${command.type} 命令${statusText[command.status] || command.status}`,
+        timestamp: new Date(),
+        priority: matchingConfig.priority,
+        deviceId: device.id,
+        deviceName: device.name,
+        organizationId: device.organizationId,
+        organizationName: device.organization?.name,
+        data: {
+          commandId: command.id,
+          type: command.type,
+          status: command.status,
+          responseContent: command.responseContent,
+        }
+      };
+
+      await this.sendNotification(message, matchingConfig.channels);
+      await this.logNotification(message);
+    } catch (error) {
+      console.error(`Error sending device command notification: ${error}`);
+    }
+  }
+
+  /**
+   * 推送设备告警已确认
+   * @param alarm 已确认的设备告警
+   */
+  public async sendDeviceAlarmConfirmed(alarm: DeviceAlarm): Promise<void> {
+    try {
+      const device = await this.getDeviceWithOrganization(alarm.deviceId);
+      if (!device) {
+        return;
+      }
+
+      websocketService.sendAlertConfirmed(await this.buildAlarmAlert(alarm, device));
+    } catch (error) {
+      console.error(`Error sending device alarm confirmation: ${error}`);
+    }
+  }
+
   /**
    * 发送通知
    * @param message 通知消息
@@ -319,6 +582,30 @@ export class DeviceNotificationService extends EventEmitter {
     deviceConnectionService.on('device_error', (deviceId, connectionInfo) => {
       this.sendDeviceStatusNotification(deviceId, DeviceConnectionStatus.ERROR, connectionInfo);
     });
+
+    // 监听设备告警事件
+    deviceService.on('alarm_created', (alarm: DeviceAlarm) => {
+      this.sendDeviceAlarmNotification(alarm);
+    });
+
+    deviceService.on('alarm_confirmed', (alarm: DeviceAlarm) => {
+      this.sendDeviceAlarmConfirmed(alarm);
+    });
+
+    // 监听物模型数据异常事件
+    thingModelService.on('data_anomaly', (anomaly: DeviceDataAnomaly) => {
+      this.sendDeviceDataAnomalyNotification(anomaly);
+    });
+
+    // 监听设备命令状态变更事件
+    deviceCommandDispatcher.on('command_status', (command: DeviceCommand) => {
+      this.sendDeviceCommandNotification(command);
+    });
+
+    // 监听视频流健康状态变更事件
+    streamHealthMonitor.on('state_change', (status: StreamHealthStatus, previousState: VideoHealthState) => {
+      this.sendCameraStatusNotification(status, previousState);
+    });
   }
 
   /**
@@ -369,6 +656,18 @@ export class DeviceNotificationService extends EventEmitter {
         priority: NotificationPriority.MEDIUM,
         enabled: true
       },
+      {
+        type: NotificationType.CAMERA_OFFLINE,
+        channels: [NotificationChannel.WEBSOCKET, NotificationChannel.EMAIL],
+        priority: NotificationPriority.HIGH,
+        enabled: true
+      },
+      {
+        type: NotificationType.CAMERA_ONLINE,
+        channels: [NotificationChannel.WEBSOCKET],
+        priority: NotificationPriority.LOW,
+        enabled: true
+      },
       {
         type: NotificationType.SYSTEM_ERROR,
         channels: [NotificationChannel.WEBSOCKET, NotificationChannel.EMAIL],
@@ -481,6 +780,7 @@ export class DeviceNotificationService extends EventEmitter {
         {
           notificationType: message.type,
           notificationId: message.id,
+          videoConfigId: message.videoConfigId,
           deviceName: message.deviceName,
           organizationId: message.organizationId,
           organizationName: message.organizationName,
@@ -557,6 +857,34 @@ export class DeviceNotificationService extends EventEmitter {
     }
   }
 
+  /**
+   * 构建设备告警推送消息
+   * @param alarm 设备告警
+   * @param device 设备信息
+   * @returns 告警推送消息
+   */
+  private async buildAlarmAlert(alarm: DeviceAlarm, device: Device): Promise<DeviceAlarmAlert> {
+    const links = await prisma.deviceVideoLink.findMany({
+      where: {
+        deviceId: device.id,
+        videoConfig: { status: true },
+      },
+      select: { videoConfigId: true },
+    });
+
+    return {
+      id: alarm.id,
+      level: alarm.level,
+      content: alarm.content,
+      createdAt: alarm.createdAt,
+      isConfirmed: alarm.isConfirmed,
+      deviceId: device.id,
+      deviceName: device.name,
+      organizationId: device.organizationId,
+      videoConfigIds: links.map(link => link.videoConfigId),
+    };
+  }
+
   /**
    * 获取设备信息（包含组织信息）
    * @param deviceId 设备ID
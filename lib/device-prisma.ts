@@ -1,11 +1,20 @@
+import { EventEmitter } from 'events';
 import prisma from './db-prisma';
-import { Device, DeviceClass, DeviceCommand, DeviceEvent, DeviceAlarm, DeviceConnection, Prisma } from '@prisma/client';
+import { Device, DeviceClass, DeviceCommand, DeviceEvent, DeviceAlarm, DeviceConnection, DeviceStatus, Prisma } from '@prisma/client';
+
+/**
+ * 设备列表筛选条件
+ */
+export type DeviceListFilter = { where: Prisma.DeviceWhereInput } | { error: string; status: number };
 
 /**
  * 设备服务类
  * 提供设备相关的数据库操作方法
+ * 事件：
+ * - alarm_created(alarm)：新建设备告警
+ * - alarm_confirmed(alarm)：设备告警已确认
  */
-export class DeviceService {
+export class DeviceService extends EventEmitter {
   /**
    * 获取所有设备列表
    * @param organizationId 组织ID，用于筛选特定组织的设备
@@ -64,6 +73,56 @@ export class DeviceService {
     }
   }
 
+  /**
+   * 按设备列表的查询参数构建筛选条件：organizationId、deviceClassId、parentId、status、search
+   * 非系统管理员只能查询自己所在组织及其子组织的设备
+   * @param searchParams 查询参数
+   * @param allowedOrgIds 当前用户可访问的组织ID，null表示不限制（系统管理员）
+   * @returns 筛选条件，参数无效或无权访问时返回错误和状态码
+   */
+  buildListFilter(searchParams: URLSearchParams, allowedOrgIds: string[] | null): DeviceListFilter {
+    const organizationId = searchParams.get('organizationId');
+    const deviceClassId = searchParams.get('deviceClassId');
+    const parentId = searchParams.get('parentId');
+    const status = searchParams.get('status');
+    const search = searchParams.get('search');
+
+    const where: Prisma.DeviceWhereInput = {};
+
+    if (deviceClassId) {
+      where.deviceClassId = deviceClassId;
+    }
+
+    if (parentId) {
+      where.parentId = parentId;
+    }
+
+    if (status) {
+      if (!Object.values(DeviceStatus).includes(status as DeviceStatus)) {
+        return { error: '无效的设备状态', status: 400 };
+      }
+      where.status = status as DeviceStatus;
+    }
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { alias: { contains: search, mode: 'insensitive' } },
+      ];
+    }
+
+    if (organizationId) {
+      if (allowedOrgIds && !allowedOrgIds.includes(organizationId)) {
+        return { error: '无权查看此组织的设备', status: 403 };
+      }
+      where.organizationId = organizationId;
+    } else if (allowedOrgIds) {
+      where.organizationId = { in: allowedOrgIds };
+    }
+
+    return { where };
+  }
+
   /**
    * 根据ID获取设备详情
    * @param id 设备ID
@@ -122,15 +181,55 @@ export class DeviceService {
     }
   }
 
+  /**
+   * 检查设备是否是另一个设备的后代（含设备自身），用于防止父设备形成循环引用
+   * @param deviceId 设备ID
+   * @param potentialAncestorId 潜在祖先设备ID
+   * @returns 是否是后代
+   */
+  async isDescendantDevice(deviceId: string, potentialAncestorId: string): Promise<boolean> {
+    try {
+      const visited = new Set<string>();
+      let currentId: string | null = deviceId;
+
+      while (currentId && !visited.has(currentId)) {
+        if (currentId === potentialAncestorId) {
+          return true;
+        }
+        visited.add(currentId);
+
+        const device: { parentId: string | null } | null = await prisma.device.findUnique({
+          where: { id: currentId },
+          select: { parentId: true },
+        });
+        currentId = device?.parentId ?? null;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('检查设备父子关系失败:', error);
+      throw new Error('检查设备父子关系失败');
+    }
+  }
+
   /**
    * 删除设备
+   * 同时删除设备的命令、事件、告警和连接记录，子设备解除与该设备的关联
    * @param id 设备ID
    * @returns 删除的设备
    */
   async deleteDevice(id: string): Promise<Device> {
     try {
-      return await prisma.device.delete({
-        where: { id },
+      return await prisma.$transaction(async (tx) => {
+        await tx.device.updateMany({ where: { parentId: id }, data: { parentId: null } });
+        await tx.deviceCommand.deleteMany({ where: { deviceId: id } });
+        await tx.deviceEvent.deleteMany({ where: { deviceId: id } });
+        await tx.deviceAlarm.deleteMany({ where: { deviceId: id } });
+        await tx.deviceConnection.deleteMany({ where: { deviceId: id } });
+
+        return tx.device.delete({
+          where: { id },
+        });
       });
     } catch (error) {
       console.error(`删除设备 ${id} 失败:`, error);
@@ -208,6 +307,22 @@ export class DeviceService {
     }
   }
 
+  /**
+   * 获取设备的连接记录总数
+   * @param deviceId 设备ID
+   * @returns 连接记录总数
+   */
+  async countDeviceConnections(deviceId: string): Promise<number> {
+    try {
+      return await prisma.deviceConnection.count({
+        where: { deviceId },
+      });
+    } catch (error) {
+      console.error(`获取设备 ${deviceId} 连接记录总数失败:`, error);
+      throw new Error('获取设备连接记录总数失败');
+    }
+  }
+
   /**
    * 获取设备的命令记录
    * @param deviceId 设备ID
@@ -220,11 +335,15 @@ export class DeviceService {
       skip?: number;
       take?: number;
       orderBy?: Prisma.DeviceCommandOrderByWithRelationInput;
+      where?: Prisma.DeviceCommandWhereInput;
     }
   ): Promise<DeviceCommand[]> {
     try {
       return await prisma.deviceCommand.findMany({
-        where: { deviceId },
+        where: {
+          deviceId,
+          ...(options?.where || {}),
+        },
         skip: options?.skip,
         take: options?.take,
         orderBy: options?.orderBy || { createdAt: 'desc' },
@@ -235,6 +354,45 @@ export class DeviceService {
     }
   }
 
+  /**
+   * 获取设备的命令记录总数
+   * @param deviceId 设备ID
+   * @param where 查询条件
+   * @returns 命令记录总数
+   */
+  async countDeviceCommands(
+    deviceId: string,
+    where?: Prisma.DeviceCommandWhereInput
+  ): Promise<number> {
+    try {
+      return await prisma.deviceCommand.count({
+        where: {
+          deviceId,
+          ...where,
+        },
+      });
+    } catch (error) {
+      console.error(`获取设备 ${deviceId} 命令记录总数失败:`, error);
+      throw new Error('获取设备命令记录总数失败');
+    }
+  }
+
+  /**
+   * 根据ID获取设备命令
+   * @param id 命令ID
+   * @returns 设备命令
+   */
+  async getDeviceCommandById(id: string): Promise<DeviceCommand | null> {
+    try {
+      return await prisma.deviceCommand.findUnique({
+        where: { id },
+      });
+    } catch (error) {
+      console.error(`获取命令 ${id} 失败:`, error);
+      throw new Error('获取设备命令失败');
+    }
+  }
+
   /**
    * 创建设备命令
    * @param data 命令数据
@@ -314,6 +472,29 @@ export class DeviceService {
     }
   }
 
+  /**
+   * 获取设备的告警记录总数
+   * @param deviceId 设备ID
+   * @param where 查询条件
+   * @returns 告警记录总数
+   */
+  async countDeviceAlarms(
+    deviceId: string,
+    where?: Prisma.DeviceAlarmWhereInput
+  ): Promise<number> {
+    try {
+      return await prisma.deviceAlarm.count({
+        where: {
+          deviceId,
+          ...where,
+        },
+      });
+    } catch (error) {
+      console.error(`获取设备 ${deviceId} 告警记录总数失败:`, error);
+      throw new Error('获取设备告警记录总数失败');
+    }
+  }
+
   /**
    * 创建设备告警
    * @param data 告警数据
@@ -323,9 +504,11 @@ export class DeviceService {
     data: Prisma.DeviceAlarmCreateInput
   ): Promise<DeviceAlarm> {
     try {
-      return await prisma.deviceAlarm.create({
+      const alarm = await prisma.deviceAlarm.create({
         data,
       });
+      this.emit('alarm_created', alarm);
+      return alarm;
     } catch (error) {
       console.error('创建设备告警失败:', error);
       throw new Error('创建设备告警失败');
@@ -343,7 +526,7 @@ export class DeviceService {
     userId: string
   ): Promise<DeviceAlarm> {
     try {
-      return await prisma.deviceAlarm.update({
+      const alarm = await prisma.deviceAlarm.update({
         where: { id },
         data: {
           isConfirmed: true,
@@ -351,11 +534,208 @@ export class DeviceService {
           confirmedAt: new Date(),
         },
       });
+      this.emit('alarm_confirmed', alarm);
+      return alarm;
     } catch (error) {
       console.error(`确认告警 ${id} 失败:`, error);
       throw new Error('确认告警失败');
     }
   }
+
+  /**
+   * 获取设备的事件记录
+   * @param deviceId 设备ID
+   * @param options 查询选项
+   * @returns 事件记录列表
+   */
+  async getDeviceEvents(
+    deviceId: string,
+    options?: {
+      skip?: number;
+      take?: number;
+      orderBy?: Prisma.DeviceEventOrderByWithRelationInput;
+      where?: Prisma.DeviceEventWhereInput;
+    }
+  ): Promise<DeviceEvent[]> {
+    try {
+      return await prisma.deviceEvent.findMany({
+        where: {
+          deviceId,
+          ...(options?.where || {}),
+        },
+        skip: options?.skip,
+        take: options?.take,
+        orderBy: options?.orderBy || { createdAt: 'desc' },
+      });
+    } catch (error) {
+      console.error(`获取设备 ${deviceId} 事件记录失败:`, error);
+      throw new Error('获取设备事件记录失败');
+    }
+  }
+
+  /**
+   * 获取设备的事件记录总数
+   * @param deviceId 设备ID
+   * @param where 查询条件
+   * @returns 事件记录总数
+   */
+  async countDeviceEvents(
+    deviceId: string,
+    where?: Prisma.DeviceEventWhereInput
+  ): Promise<number> {
+    try {
+      return await prisma.deviceEvent.count({
+        where: {
+          deviceId,
+          ...where,
+        },
+      });
+    } catch (error) {
+      console.error(`获取设备 ${deviceId} 事件记录总数失败:`, error);
+      throw new Error('获取设备事件记录总数失败');
+    }
+  }
+
+  /**
+   * 创建设备事件
+   * @param data 事件数据
+   * @returns 创建的事件
+   */
+  async createDeviceEvent(
+    data: Prisma.DeviceEventCreateInput
+  ): Promise<DeviceEvent> {
+    try {
+      return await prisma.deviceEvent.create({
+        data,
+      });
+    } catch (error) {
+      console.error('创建设备事件失败:', error);
+      throw new Error('创建设备事件失败');
+    }
+  }
+
+  /**
+   * 获取设备类列表
+   * @param organizationId 组织ID
+   * @param options 查询选项
+   * @returns 设备类列表
+   */
+  async getAllDeviceClasses(
+    organizationId?: string,
+    options?: {
+      skip?: number;
+      take?: number;
+      orderBy?: Prisma.DeviceClassOrderByWithRelationInput;
+      where?: Prisma.DeviceClassWhereInput;
+    }
+  ): Promise<DeviceClass[]> {
+    try {
+      return await prisma.deviceClass.findMany({
+        where: {
+          ...(organizationId ? { organizationId } : {}),
+          ...(options?.where || {}),
+        },
+        skip: options?.skip,
+        take: options?.take,
+        orderBy: options?.orderBy || { name: 'asc' },
+      });
+    } catch (error) {
+      console.error('获取设备类列表失败:', error);
+      throw new Error('获取设备类列表失败');
+    }
+  }
+
+  /**
+   * 获取设备类总数
+   * @param organizationId 组织ID
+   * @param where 查询条件
+   * @returns 设备类总数
+   */
+  async countDeviceClasses(
+    organizationId?: string,
+    where?: Prisma.DeviceClassWhereInput
+  ): Promise<number> {
+    try {
+      return await prisma.deviceClass.count({
+        where: {
+          ...(organizationId ? { organizationId } : {}),
+          ...where,
+        },
+      });
+    } catch (error) {
+      console.error('获取设备类总数失败:', error);
+      throw new Error('获取设备类总数失败');
+    }
+  }
+
+  /**
+   * 根据ID获取设备类
+   * @param id 设备类ID
+   * @returns 设备类
+   */
+  async getDeviceClassById(id: string): Promise<DeviceClass | null> {
+    try {
+      return await prisma.deviceClass.findUnique({
+        where: { id },
+      });
+    } catch (error) {
+      console.error(`获取设备类 ${id} 失败:`, error);
+      throw new Error('获取设备类失败');
+    }
+  }
+
+  /**
+   * 创建设备类
+   * @param data 设备类数据
+   * @returns 创建的设备类
+   */
+  async createDeviceClass(data: Prisma.DeviceClassCreateInput): Promise<DeviceClass> {
+    try {
+      return await prisma.deviceClass.create({
+        data,
+      });
+    } catch (error) {
+      console.error('创建设备类失败:', error);
+      throw new Error('创建设备类失败');
+    }
+  }
+
+  /**
+   * 更新设备类
+   * @param id 设备类ID
+   * @param data 更新的设备类数据
+   * @returns 更新后的设备类
+   */
+  async updateDeviceClass(
+    id: string,
+    data: Prisma.DeviceClassUpdateInput
+  ): Promise<DeviceClass> {
+    try {
+      return await prisma.deviceClass.update({
+        where: { id },
+        data,
+      });
+    } catch (error) {
+      console.error(`更新设备类 ${id} 失败:`, error);
+      throw new Error('更新设备类失败');
+    }
+  }
+
+  /**
+   * 删除设备类
+   * @param id 设备类ID
+   * @returns 删除的设备类
+   */
+  async deleteDeviceClass(id: string): Promise<DeviceClass> {
+    try {
+      return await prisma.deviceClass.delete({
+        where: { id },
+      });
+    } catch (error) {
+      console.error(`删除设备类 ${id} 失败:`, error);
+      throw new Error('删除设备类失败');
+    }
+  }
 }
 
 // 导出设备服务实例
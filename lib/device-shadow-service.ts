@@ -0,0 +1,564 @@
+/**
+ * 设备影子服务 - 实现设备上报状态与期望状态的同步
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备保存影子文档：reported（设备上报状态）、desired（期望状态）及各自的版本号
+ * 2. 根据设备属性上报更新reported（被标记为数据异常的属性不写入），根据用户属性设置更新desired（值为null时删除该属性）
+ * 3. 计算delta（desired中与reported不一致的属性），以property.set命令下发给设备
+ * 4. 设备重新上线时自动下发delta，弥补离线期间错过的属性设置
+ * 5. 影子变更通过WebSocket推送，并支持通过WebSocket读取和修改影子
+ *
+ * WebSocket（/devices命名空间）：
+ * - shadow:get (deviceId) 读取影子，结果以shadow事件返回
+ * - shadow:update ({ deviceId, desired, version }) 修改期望状态，结果以shadow事件返回
+ * - shadowUpdate 影子变更推送（已订阅该设备的客户端）
+ */
+
+import { EventEmitter } from 'events';
+import { CommandStatus, DeviceCommand, DeviceShadow, Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import { canAccessOrganization } from './api-middleware';
+import { PermissionService } from './permission-service';
+import { websocketService } from './websocket-service';
+import { deviceConnectionService } from './device-connection-service';
+import { deviceCommandDispatcher } from './device-command-dispatcher';
+import { thingModelService, ThingMethod, ThingModelValidationResult, ThingModelViolation } from './thing-model-service';
+
+/**
+ * 影子状态
+ */
+export type ShadowState = Record<string, any>;
+
+/**
+ * 影子元数据：各属性最后更新时间
+ */
+export interface ShadowMetadata {
+  reported: Record<string, string>;
+  desired: Record<string, string>;
+}
+
+/**
+ * 设备影子文档
+ */
+export interface DeviceShadowDocument {
+  // 设备ID
+  deviceId: string;
+  // 设备上报状态
+  reported: ShadowState;
+  // 期望状态
+  desired: ShadowState;
+  // 期望状态中与上报状态不一致的属性
+  delta: ShadowState;
+  // 各属性最后更新时间
+  metadata: ShadowMetadata;
+  // 上报状态版本号
+  reportedVersion: number;
+  // 期望状态版本号
+  desiredVersion: number;
+  // 最后更新时间，影子尚未创建时为null
+  updatedAt: Date | null;
+}
+
+/**
+ * 期望状态更新选项
+ */
+export interface DesiredUpdateOptions {
+  // 期望状态版本号，与当前版本不一致时拒绝更新
+  version?: number;
+  // 是否立即下发delta，默认true
+  sync?: boolean;
+}
+
+/**
+ * 正在下发的delta
+ */
+interface DeltaSync {
+  // 命令ID
+  commandId: string;
+  // 下发的属性
+  params: ShadowState;
+}
+
+// 并发更新冲突时的最大重试次数
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * 设备影子服务类
+ * 事件：
+ * - shadow_updated (shadow) 影子变更后触发
+ * - delta_sync (deviceId, command) delta下发后触发
+ */
+export class DeviceShadowService extends EventEmitter {
+  private static instance: DeviceShadowService;
+  // 每台设备同时只有一条delta命令在下发
+  private syncing: Map<string, DeltaSync> = new Map();
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DeviceShadowService {
+    if (!DeviceShadowService.instance) {
+      DeviceShadowService.instance = new DeviceShadowService();
+    }
+    return DeviceShadowService.instance;
+  }
+
+  /**
+   * 获取设备影子，影子尚未创建时返回空文档
+   * @param deviceId 设备ID
+   * @returns 设备影子文档
+   */
+  public async getShadow(deviceId: string): Promise<DeviceShadowDocument> {
+    const shadow = await prisma.deviceShadow.findUnique({
+      where: { deviceId },
+    });
+
+    return shadow ? this.toDocument(shadow) : this.emptyDocument(deviceId);
+  }
+
+  /**
+   * 更新设备上报状态，属性值均未变化时不写入
+   * @param deviceId 设备ID
+   * @param properties 上报的属性值
+   * @param timestamp 上报时间
+   * @returns 设备影子文档（上报不校验版本号，始终返回文档）
+   */
+  public async updateReported(
+    deviceId: string,
+    properties: ShadowState,
+    timestamp: Date = new Date()
+  ): Promise<DeviceShadowDocument | null> {
+    return this.mutate(deviceId, current => {
+      const changed = Object.entries(properties).filter(([key, value]) =>
+        value !== undefined && !this.isEqual(current.reported[key], value)
+      );
+      if (changed.length === 0) {
+        return null;
+      }
+
+      const reported = { ...current.reported };
+      const metadata = { ...current.metadata.reported };
+      for (const [key, value] of changed) {
+        if (value === null) {
+          delete reported[key];
+          delete metadata[key];
+        } else {
+          reported[key] = value;
+          metadata[key] = timestamp.toISOString();
+        }
+      }
+
+      return {
+        reported,
+        metadata: { ...current.metadata, reported: metadata },
+        reportedVersion: current.reportedVersion + 1,
+      };
+    });
+  }
+
+  /**
+   * 更新设备期望状态，属性值为null时删除该属性
+   * @param deviceId 设备ID
+   * @param properties 期望的属性值
+   * @param options 更新选项
+   * @returns 设备影子文档，版本号不一致时返回null
+   */
+  public async updateDesired(
+    deviceId: string,
+    properties: ShadowState,
+    options: DesiredUpdateOptions = {}
+  ): Promise<DeviceShadowDocument | null> {
+    const timestamp = new Date().toISOString();
+
+    const shadow = await this.mutate(deviceId, current => {
+      const desired = { ...current.desired };
+      const metadata = { ...current.metadata.desired };
+      for (const [key, value] of Object.entries(properties)) {
+        if (value === undefined) continue;
+        if (value === null) {
+          delete desired[key];
+          delete metadata[key];
+        } else {
+          desired[key] = value;
+          metadata[key] = timestamp;
+        }
+      }
+
+      return {
+        desired,
+        metadata: { ...current.metadata, desired: metadata },
+        desiredVersion: current.desiredVersion + 1,
+      };
+    }, options.version);
+
+    if (shadow && options.sync !== false && Object.keys(shadow.delta).length > 0) {
+      this.syncDelta(deviceId).catch(error => {
+        console.error(`下发设备 ${deviceId} 影子delta失败:`, error);
+      });
+    }
+
+    return shadow;
+  }
+
+  /**
+   * 校验期望状态是否符合物模型的可写属性定义，删除属性（值为null）不校验
+   * @param deviceId 设备ID
+   * @param properties 期望的属性值
+   * @returns 校验结果
+   */
+  public async validateDesired(deviceId: string, properties: ShadowState): Promise<ThingModelValidationResult> {
+    const params = Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== null));
+    if (Object.keys(params).length === 0) {
+      return { valid: true, violations: [] };
+    }
+
+    return thingModelService.validateDeviceCommand(deviceId, ThingMethod.PROPERTY_SET, params);
+  }
+
+  /**
+   * 计算delta：期望状态中与上报状态不一致的属性
+   * @param reported 上报状态
+   * @param desired 期望状态
+   * @returns delta
+   */
+  public computeDelta(reported: ShadowState, desired: ShadowState): ShadowState {
+    return Object.fromEntries(
+      Object.entries(desired).filter(([key, value]) => !this.isEqual(reported[key], value))
+    );
+  }
+
+  /**
+   * 以property.set命令下发delta，已有delta命令在下发时不重复下发
+   * @param deviceId 设备ID
+   * @returns 下发的命令，无需下发时返回null
+   */
+  public async syncDelta(deviceId: string): Promise<DeviceCommand | null> {
+    if (this.syncing.has(deviceId)) {
+      return null;
+    }
+
+    const { delta } = await this.getShadow(deviceId);
+    if (Object.keys(delta).length === 0 || this.syncing.has(deviceId)) {
+      return null;
+    }
+
+    // 先占位，防止创建命令期间重复下发
+    const sync: DeltaSync = { commandId: '', params: delta };
+    this.syncing.set(deviceId, sync);
+
+    let command: DeviceCommand;
+    try {
+      command = await deviceService.createDeviceCommand({
+        type: ThingMethod.PROPERTY_SET,
+        content: delta as Prisma.InputJsonObject,
+        device: { connect: { id: deviceId } },
+      });
+      sync.commandId = command.id;
+      await deviceCommandDispatcher.dispatch(command.id);
+    } catch (error) {
+      this.syncing.delete(deviceId);
+      throw error;
+    }
+
+    this.emit('delta_sync', deviceId, command);
+    return command;
+  }
+
+  /**
+   * 读取-修改-写入影子，以两个版本号做乐观锁，并发冲突时重试
+   * @param deviceId 设备ID
+   * @param mutator 根据当前文档返回需要更新的字段，返回null表示无需更新
+   * @param expectedDesiredVersion 期望状态版本号，与当前版本不一致时返回null
+   * @returns 更新后的设备影子文档
+   */
+  private async mutate(
+    deviceId: string,
+    mutator: (current: DeviceShadowDocument) => Prisma.DeviceShadowUpdateManyMutationInput | null,
+    expectedDesiredVersion?: number
+  ): Promise<DeviceShadowDocument | null> {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      const current = await prisma.deviceShadow.upsert({
+        where: { deviceId },
+        create: { deviceId },
+        update: {},
+      });
+
+      if (expectedDesiredVersion !== undefined && current.desiredVersion !== expectedDesiredVersion) {
+        return null;
+      }
+
+      const data = mutator(this.toDocument(current));
+      if (!data) {
+        return this.toDocument(current);
+      }
+
+      const { count } = await prisma.deviceShadow.updateMany({
+        where: {
+          deviceId,
+          reportedVersion: current.reportedVersion,
+          desiredVersion: current.desiredVersion,
+        },
+        data,
+      });
+
+      if (count === 1) {
+        const shadow = await this.getShadow(deviceId);
+        this.emit('shadow_updated', shadow);
+        websocketService.sendShadowUpdate(deviceId, shadow);
+        return shadow;
+      }
+    }
+
+    throw new Error(`更新设备 ${deviceId} 影子失败: 并发冲突`);
+  }
+
+  /**
+   * delta命令结束后：执行成功则继续下发期间新产生的delta，失败则等待设备下次上线
+   * @param command 设备命令
+   */
+  private async handleCommandStatus(command: DeviceCommand): Promise<void> {
+    const sync = this.syncing.get(command.deviceId);
+    if (!sync || sync.commandId !== command.id) {
+      return;
+    }
+
+    if (command.status !== CommandStatus.EXECUTED && command.status !== CommandStatus.FAILED) {
+      return;
+    }
+
+    this.syncing.delete(command.deviceId);
+
+    if (command.status === CommandStatus.EXECUTED) {
+      // 设备可能尚未上报新属性值，已下发且值未变化的属性不再重复下发
+      const { delta } = await this.getShadow(command.deviceId);
+      const pending = Object.entries(delta).filter(([key, value]) => !this.isEqual(sync.params[key], value));
+      if (pending.length > 0) {
+        await this.syncDelta(command.deviceId);
+      }
+    }
+  }
+
+  /**
+   * 处理WebSocket影子读写请求
+   * @param socket 设备命名空间连接
+   */
+  private registerSocketHandlers(socket: any): void {
+    socket.on('shadow:get', async (deviceId: string) => {
+      try {
+        if (!(await this.canAccessDevice(socket, deviceId, 'device:view'))) {
+          socket.emit('error', { message: '没有权限查看该设备影子' });
+          return;
+        }
+
+        socket.emit('shadow', await this.getShadow(deviceId));
+      } catch (error) {
+        console.error('获取设备影子错误:', error);
+        socket.emit('error', { message: '获取设备影子失败' });
+      }
+    });
+
+    socket.on('shadow:update', async (payload: { deviceId: string; desired: ShadowState; version?: number }) => {
+      try {
+        const { deviceId, desired, version } = payload || ({} as any);
+        if (typeof desired !== 'object' || desired === null || Array.isArray(desired)) {
+          socket.emit('error', { message: '期望状态必须为对象' });
+          return;
+        }
+        if (version !== undefined && !Number.isInteger(version)) {
+          socket.emit('error', { message: '版本号必须为整数' });
+          return;
+        }
+
+        if (!(await this.canAccessDevice(socket, deviceId, 'device:edit'))) {
+          socket.emit('error', { message: '没有权限修改该设备影子' });
+          return;
+        }
+
+        const validation = await this.validateDesired(deviceId, desired);
+        if (!validation.valid) {
+          socket.emit('error', { message: '期望状态不符合物模型定义', violations: validation.violations });
+          return;
+        }
+
+        const shadow = await this.updateDesired(deviceId, desired, { version });
+        if (!shadow) {
+          socket.emit('error', { message: '设备影子版本冲突，请获取最新版本后重试' });
+          return;
+        }
+
+        socket.emit('shadow', shadow);
+      } catch (error) {
+        console.error('修改设备影子错误:', error);
+        socket.emit('error', { message: '修改设备影子失败' });
+      }
+    });
+  }
+
+  /**
+   * 检查WebSocket用户是否有权限访问设备
+   * @param socket 设备命名空间连接
+   * @param deviceId 设备ID
+   * @param permission 权限编码
+   * @returns 是否有权限
+   */
+  private async canAccessDevice(socket: any, deviceId: string, permission: string): Promise<boolean> {
+    if (typeof deviceId !== 'string' || !deviceId) {
+      return false;
+    }
+
+    const permissionService = new PermissionService();
+    if (!(await permissionService.hasPermission(socket.data.userId, permission))) {
+      return false;
+    }
+
+    const device = await deviceService.getDeviceById(deviceId);
+    return !!device && (await canAccessOrganization(socket.data.user, device.organizationId));
+  }
+
+  /**
+   * 设置事件监听器：属性上报、设备上线、命令状态变更和WebSocket连接
+   */
+  private setupEventListeners(): void {
+    thingModelService.on('property_report', (
+      deviceId: string,
+      params: ShadowState,
+      flagged: boolean,
+      timestamp: Date | undefined,
+      violations: ThingModelViolation[] = []
+    ) => {
+      // 异常值不覆盖上报状态
+      const properties = flagged ? this.omitViolatedProperties(params, violations) : params;
+      if (Object.keys(properties).length === 0) {
+        return;
+      }
+
+      this.updateReported(deviceId, properties).catch(error => {
+        console.error(`更新设备 ${deviceId} 影子上报状态失败:`, error);
+      });
+    });
+
+    deviceConnectionService.on('device_online', (deviceId: string) => {
+      this.syncDelta(deviceId).catch(error => {
+        console.error(`设备 ${deviceId} 上线后下发影子delta失败:`, error);
+      });
+    });
+
+    deviceCommandDispatcher.on('command_status', (command: DeviceCommand) => {
+      this.handleCommandStatus(command).catch(error => {
+        console.error(`处理设备 ${command.deviceId} 影子命令状态失败:`, error);
+      });
+    });
+
+    websocketService.on('connection', (socket: any) => {
+      this.registerSocketHandlers(socket);
+    });
+  }
+
+  /**
+   * 转换为影子文档
+   * @param shadow 影子记录
+   * @returns 设备影子文档
+   */
+  private toDocument(shadow: DeviceShadow): DeviceShadowDocument {
+    const reported = this.toState(shadow.reported);
+    const desired = this.toState(shadow.desired);
+    const metadata = this.toState(shadow.metadata);
+
+    return {
+      deviceId: shadow.deviceId,
+      reported,
+      desired,
+      delta: this.computeDelta(reported, desired),
+      metadata: {
+        reported: this.toState(metadata.reported),
+        desired: this.toState(metadata.desired),
+      },
+      reportedVersion: shadow.reportedVersion,
+      desiredVersion: shadow.desiredVersion,
+      updatedAt: shadow.updatedAt,
+    };
+  }
+
+  /**
+   * 创建空影子文档
+   * @param deviceId 设备ID
+   * @returns 设备影子文档
+   */
+  private emptyDocument(deviceId: string): DeviceShadowDocument {
+    return {
+      deviceId,
+      reported: {},
+      desired: {},
+      delta: {},
+      metadata: { reported: {}, desired: {} },
+      reportedVersion: 0,
+      desiredVersion: 0,
+      updatedAt: null,
+    };
+  }
+
+  /**
+   * 去除违规项涉及的属性，违规路径以属性标识符开头（如 temp、config.mode、list[0]）
+   * @param params 上报的属性值
+   * @param violations 违规项
+   * @returns 未违规的属性值，整体违规（路径为params）时返回空对象
+   */
+  private omitViolatedProperties(params: ShadowState, violations: ThingModelViolation[]): ShadowState {
+    const identifiers = new Set(violations.map(violation => violation.path.split(/[.\[]/)[0]));
+    if (identifiers.has('params')) {
+      return {};
+    }
+    return Object.fromEntries(Object.entries(params).filter(([key]) => !identifiers.has(key)));
+  }
+
+  /**
+   * 将JSON值转换为状态对象
+   * @param value JSON值
+   * @returns 状态对象，非对象时返回空对象
+   */
+  private toState(value: unknown): ShadowState {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as ShadowState : {};
+  }
+
+  /**
+   * 比较两个JSON值是否相等（对象不区分属性顺序）
+   * @param a 值a
+   * @param b 值b
+   * @returns 是否相等
+   */
+  private isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+      return true;
+    }
+
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+      return false;
+    }
+
+    if (Array.isArray(a) !== Array.isArray(b)) {
+      return false;
+    }
+
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    if (aKeys.length !== bKeys.length) {
+      return false;
+    }
+
+    return aKeys.every(key => this.isEqual((a as any)[key], (b as any)[key]));
+  }
+}
+
+// 导出单例实例
+export const deviceShadowService = DeviceShadowService.getInstance();
+
+export default deviceShadowService;
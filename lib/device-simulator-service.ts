@@ -0,0 +1,1224 @@
+/**
+ * 设备模拟器服务 - 在平台进程内模拟成批设备接入，用于压力测试和演示
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备类创建模拟会话，自动创建或复用该设备类下的模拟设备（设备配置 { "simulator": true }），每次启动时重新签发设备密钥
+ * 2. 模拟设备经由真实的网络接入通道连接平台：
+ *    MQTT：连接MQTT Broker（SIMULATOR_MQTT_URL，默认内置Broker），签名认证，订阅命令主题
+ *    TCP：连接目标端口（默认设备类编解码器端口），首行发送认证消息，按行收发JSON物模型消息
+ *    UDP：向目标端口发送JSON登录报文（此后每60秒重发）和JSON物模型消息，从同一套接字接收命令；目标编解码器的authenticate须能解析该登录报文
+ *    HTTP：以签名换取访问令牌后调用 /api/ingest（SIMULATOR_HTTP_BASE，默认本机服务），HTTP设备无下行通道，不应答命令
+ * 3. 属性按波形生成：正弦（sine）、随机游走（randomWalk）、阶跃（step）；未配置时按设备类物模型的数值、布尔和枚举属性生成默认波形
+ * 4. 事件按每次上报的触发概率随机上报
+ * 5. 应答命令：收到命令立即应答RECEIVED，延迟后按失败率应答EXECUTED或FAILED，property.set命令更新模拟属性值
+ * 6. 故障注入：断开连接（disconnect）、发送畸形报文（malformed）、心跳丢失（heartbeat_loss，保持连接但停止一切上报）
+ * 7. 统计会话和各模拟设备的连接状态、收发消息数和错误
+ *
+ * 生产环境（NODE_ENV=production）默认禁用，需设置 DEVICE_SIMULATOR=true 启用
+ */
+
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import * as net from 'net';
+import * as mqtt from 'mqtt';
+import { z } from 'zod';
+import { Device, DeviceClass, Prisma, ProtocolType } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import { deviceCredentialService } from './device-credential-service';
+import { deviceCodecService } from './device-codec-service';
+import { thingModelService, ThingModel } from './thing-model-service';
+
+/**
+ * 模拟设备接入协议
+ */
+export type SimulatorProtocol = 'MQTT' | 'TCP' | 'UDP' | 'HTTP';
+
+/**
+ * 模拟器错误（配置无效、设备类不支持等），由API返回400
+ */
+export class SimulatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulatorError';
+  }
+}
+
+// 单个会话最多模拟的设备数
+const MAX_DEVICES = Number(process.env.SIMULATOR_MAX_DEVICES || 500);
+
+const SIMULATOR_PROTOCOLS = ['MQTT', 'TCP', 'UDP', 'HTTP'] as const;
+
+// 数值精度（小数位数）
+const decimalsSchema = z.number().int().min(0).max(6).default(2);
+
+/**
+ * 波形验证模式
+ * sine：offset + amplitude × sin(2π × t / period)，叠加 ±noise 的随机噪声，各设备相位随机
+ * randomWalk：从start开始每次上报随机变化 ±step，限制在min~max之间
+ * step：每隔interval毫秒依次切换values中的值
+ */
+export const waveformSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('sine'),
+    offset: z.number().default(0),
+    amplitude: z.number().default(1),
+    period: z.number().int().min(1000, '周期不能小于1秒').default(60000),
+    noise: z.number().min(0).default(0),
+    decimals: decimalsSchema,
+  }),
+  z.object({
+    type: z.literal('randomWalk'),
+    start: z.number().default(0),
+    step: z.number().positive('步长必须大于0').default(1),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    decimals: decimalsSchema,
+  }),
+  z.object({
+    type: z.literal('step'),
+    values: z.array(z.union([z.number(), z.string(), z.boolean()])).min(1, '阶跃值不能为空'),
+    interval: z.number().int().min(1000, '切换间隔不能小于1秒').default(60000),
+  }),
+]).refine(
+  data => data.type !== 'randomWalk' || data.min === undefined || data.max === undefined || data.min <= data.max,
+  { message: '最小值不能大于最大值', path: ['min'] }
+);
+
+export type Waveform = z.infer<typeof waveformSchema>;
+
+/**
+ * 模拟会话配置验证模式
+ */
+export const simulationSchema = z.object({
+  deviceClassId: z.string().uuid('请输入有效的设备类ID'),
+  // 模拟设备所属组织，默认为设备类所属组织
+  organizationId: z.string().uuid('请输入有效的组织ID').optional(),
+  // 接入协议，默认为设备类接入协议
+  protocol: z.enum(SIMULATOR_PROTOCOLS).optional(),
+  count: z.number().int().min(1, '设备数量不能小于1').max(MAX_DEVICES, `设备数量不能超过${MAX_DEVICES}`),
+  // 上报周期（毫秒）
+  interval: z.number().int().min(1000, '上报周期不能小于1秒').max(3600000, '上报周期不能大于1小时').default(10000),
+  // TCP/UDP目标地址，端口默认为设备类编解码器端口
+  target: z.object({
+    host: z.string().min(1).default('127.0.0.1'),
+    port: z.number().int().min(1).max(65535).optional(),
+  }).default({}),
+  // 属性波形，键为属性标识符，未配置时按物模型生成
+  properties: z.record(waveformSchema).optional(),
+  // 事件及每次上报时的触发概率
+  events: z.array(z.object({
+    identifier: z.string().min(1, '事件标识符不能为空'),
+    params: z.record(z.any()).default({}),
+    probability: z.number().min(0).max(1),
+  })).default([]),
+  // 命令应答行为
+  commands: z.object({
+    // 执行耗时（毫秒）
+    delay: z.number().int().min(0).max(60000).default(500),
+    // 执行失败的概率
+    failureRate: z.number().min(0).max(1).default(0),
+  }).default({}),
+});
+
+export type SimulationConfig = z.infer<typeof simulationSchema>;
+
+/**
+ * 故障注入验证模式
+ * disconnect：断开连接，duration后重连（UDP/HTTP无连接，等同于停止上报）
+ * malformed：每台设备发送count条畸形报文（交替发送无效JSON和不符合物模型的数据）
+ * heartbeat_loss：保持连接但在duration内停止一切上报和应答，用于验证不活跃检测
+ */
+export const faultSchema = z.object({
+  type: z.enum(['disconnect', 'malformed', 'heartbeat_loss']),
+  // 目标设备，未指定时按ratio从会话设备中随机选取
+  deviceIds: z.array(z.string().uuid()).optional(),
+  ratio: z.number().min(0).max(1).default(1),
+  duration: z.number().int().min(1000, '持续时间不能小于1秒').max(3600000, '持续时间不能大于1小时').default(30000),
+  count: z.number().int().min(1).max(100).default(1),
+});
+
+export type SimulatorFault = z.infer<typeof faultSchema>;
+
+/**
+ * 消息统计
+ */
+export interface SimulatorStats {
+  // 发送的上报消息数（属性、事件和畸形报文）
+  messagesSent: number;
+  // 收到的命令数
+  commandsReceived: number;
+  // 发送的命令应答数
+  repliesSent: number;
+  // 连接和发送错误数
+  errors: number;
+}
+
+/**
+ * 模拟设备状态
+ */
+export interface SimulatedDeviceInfo extends SimulatorStats {
+  deviceId: string;
+  name: string;
+  connected: boolean;
+  // 当前故障
+  fault: 'disconnect' | 'heartbeat_loss' | null;
+  faultUntil: Date | null;
+  lastReportAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * 模拟会话信息
+ */
+export interface SimulationInfo {
+  id: string;
+  deviceClassId: string;
+  deviceClassName: string;
+  organizationId: string;
+  protocol: SimulatorProtocol;
+  count: number;
+  interval: number;
+  // 实际使用的属性波形
+  properties: Record<string, Waveform>;
+  startedAt: Date;
+  // 已连接的设备数
+  connected: number;
+  // 处于故障中的设备数
+  faulted: number;
+  stats: SimulatorStats;
+}
+
+/**
+ * 模拟会话
+ */
+interface Simulation {
+  id: string;
+  config: SimulationConfig;
+  protocol: SimulatorProtocol;
+  deviceClass: DeviceClass;
+  organizationId: string;
+  properties: Record<string, Waveform>;
+  target: { host: string; port: number } | null;
+  devices: VirtualDevice[];
+  startedAt: Date;
+}
+
+/**
+ * 设备侧上行消息
+ */
+type UplinkMessage =
+  | { kind: 'property'; params: Record<string, unknown> }
+  | { kind: 'event'; identifier: string; params: Record<string, unknown> }
+  | { kind: 'reply'; messageId: string; status: 'RECEIVED' | 'EXECUTED' | 'FAILED'; data?: unknown; message?: string };
+
+/**
+ * 模拟设备接入通道
+ */
+interface SimulatorLink {
+  // 建立连接（HTTP为换取访问令牌）
+  connect(): Promise<void>;
+  // 发送上行消息
+  send(message: UplinkMessage): Promise<void>;
+  // 发送畸形报文
+  sendMalformed(payload: Buffer): Promise<void>;
+  // 断开连接，不发送正常断开报文
+  close(): void;
+  isConnected(): boolean;
+}
+
+/**
+ * 模拟设备身份
+ */
+interface DeviceIdentity {
+  deviceId: string;
+  secret: string;
+}
+
+/**
+ * 生成签名认证参数
+ */
+function signAuth(identity: DeviceIdentity): { timestamp: number; sign: string } {
+  const timestamp = Date.now();
+  return { timestamp, sign: deviceCredentialService.sign(identity.deviceId, timestamp, identity.secret) };
+}
+
+/**
+ * 转换为与MQTT主题同格式的JSON物模型消息（TCP/UDP）
+ */
+function toRawMessage(deviceId: string, message: UplinkMessage): Record<string, unknown> {
+  switch (message.kind) {
+    case 'property':
+      return { deviceId, method: 'property.post', params: message.params };
+    case 'event':
+      return { deviceId, method: 'event.post', identifier: message.identifier, params: message.params };
+    case 'reply':
+      return { deviceId, method: 'command.reply', messageId: message.messageId, status: message.status, data: message.data, message: message.message };
+  }
+}
+
+/**
+ * MQTT接入通道
+ */
+class MqttLink implements SimulatorLink {
+  private client: mqtt.MqttClient | null = null;
+
+  constructor(
+    private readonly identity: DeviceIdentity,
+    private readonly url: string,
+    private readonly onCommand: (payload: Buffer) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  public connect(): Promise<void> {
+    const { timestamp, sign } = signAuth(this.identity);
+    const deviceId = this.identity.deviceId;
+
+    return new Promise((resolve, reject) => {
+      const client = mqtt.connect(this.url, {
+        clientId: deviceId,
+        username: `${deviceId}&${timestamp}`,
+        password: sign,
+        reconnectPeriod: 0,
+        connectTimeout: 10000,
+      });
+      this.client = client;
+
+      client.once('connect', () => {
+        client.subscribe(`devices/${deviceId}/command`, { qos: 1 }, error => (error ? reject(error) : resolve()));
+      });
+      client.once('error', error => {
+        client.end(true);
+        reject(error);
+      });
+      client.on('message', (_topic, payload) => this.onCommand(payload));
+      client.on('close', () => {
+        if (this.client === client) {
+          this.client = null;
+          this.onClose();
+        }
+      });
+    });
+  }
+
+  public async send(message: UplinkMessage): Promise<void> {
+    const deviceId = this.identity.deviceId;
+    switch (message.kind) {
+      case 'property':
+        return this.publish(`devices/${deviceId}/thing/property/post`, JSON.stringify({ params: message.params }));
+      case 'event':
+        return this.publish(`devices/${deviceId}/thing/event/${message.identifier}/post`, JSON.stringify({ params: message.params }));
+      case 'reply': {
+        const { kind, ...reply } = message;
+        return this.publish(`devices/${deviceId}/command/reply`, JSON.stringify(reply));
+      }
+    }
+  }
+
+  public sendMalformed(payload: Buffer): Promise<void> {
+    return this.publish(`devices/${this.identity.deviceId}/thing/property/post`, payload);
+  }
+
+  public close(): void {
+    const client = this.client;
+    this.client = null;
+    // 直接关闭底层连接，模拟设备异常掉线（Broker会发布遗嘱、判定非正常断开）
+    client?.stream?.destroy();
+    client?.end(true);
+  }
+
+  public isConnected(): boolean {
+    return this.client?.connected === true;
+  }
+
+  private async publish(topic: string, payload: string | Buffer): Promise<void> {
+    if (!this.client?.connected) {
+      throw new Error('MQTT未连接');
+    }
+    await this.client.publishAsync(topic, payload, { qos: 0 });
+  }
+}
+
+/**
+ * TCP接入通道：按行收发JSON
+ */
+class TcpLink implements SimulatorLink {
+  private socket: net.Socket | null = null;
+  private buffer = '';
+
+  constructor(
+    private readonly identity: DeviceIdentity,
+    private readonly target: { host: string; port: number },
+    private readonly onCommand: (payload: Buffer) => void,
+    private readonly onClose: () => void
+  ) {}
+
+  public connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = net.connect(this.target.port, this.target.host);
+      socket.setTimeout(10000);
+      this.socket = socket;
+      this.buffer = '';
+
+      socket.once('connect', () => {
+        socket.setTimeout(0);
+        socket.setNoDelay(true);
+        const { timestamp, sign } = signAuth(this.identity);
+        socket.write(`${JSON.stringify({ method: 'auth', deviceId: this.identity.deviceId, timestamp, sign })}\n`);
+        resolve();
+      });
+      socket.once('timeout', () => socket.destroy(new Error('连接超时')));
+      socket.on('error', error => reject(error));
+      socket.on('data', data => this.handleData(data));
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = null;
+          this.onClose();
+        }
+      });
+    });
+  }
+
+  public async send(message: UplinkMessage): Promise<void> {
+    this.write(Buffer.from(`${JSON.stringify(toRawMessage(this.identity.deviceId, message))}\n`));
+  }
+
+  public async sendMalformed(payload: Buffer): Promise<void> {
+    this.write(Buffer.concat([payload, Buffer.from('\n')]));
+  }
+
+  public close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null && !this.socket.connecting && !this.socket.destroyed;
+  }
+
+  private write(data: Buffer): void {
+    if (!this.isConnected()) {
+      throw new Error('TCP未连接');
+    }
+    this.socket!.write(data);
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer += data.toString('utf8');
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) {
+        this.onCommand(Buffer.from(line));
+      }
+    }
+  }
+}
+
+/**
+ * UDP接入通道：每台设备使用独立套接字，平台按来源地址认证设备并下发命令
+ */
+class UdpLink implements SimulatorLink {
+  private socket: dgram.Socket | null = null;
+  // 最近一次发送登录报文的时间，平台重启后登录会话丢失，需定期重发
+  private loggedInAt = 0;
+  private readonly LOGIN_INTERVAL = 60000;
+
+  constructor(
+    private readonly identity: DeviceIdentity,
+    private readonly target: { host: string; port: number },
+    private readonly onCommand: (payload: Buffer) => void
+  ) {}
+
+  public connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket(net.isIPv6(this.target.host) ? 'udp6' : 'udp4');
+      socket.on('message', msg => this.onCommand(msg));
+      socket.once('error', reject);
+      socket.bind(0, () => {
+        socket.removeListener('error', reject);
+        socket.on('error', () => {});
+        this.socket = socket;
+        this.login().then(resolve, reject);
+      });
+    });
+  }
+
+  public async send(message: UplinkMessage): Promise<void> {
+    await this.ensureLogin();
+    await this.sendDatagram(Buffer.from(JSON.stringify(toRawMessage(this.identity.deviceId, message))));
+  }
+
+  public async sendMalformed(payload: Buffer): Promise<void> {
+    await this.ensureLogin();
+    await this.sendDatagram(payload);
+  }
+
+  public close(): void {
+    this.socket?.close();
+    this.socket = null;
+    this.loggedInAt = 0;
+  }
+
+  public isConnected(): boolean {
+    return this.socket !== null;
+  }
+
+  private async ensureLogin(): Promise<void> {
+    if (Date.now() - this.loggedInAt >= this.LOGIN_INTERVAL) {
+      await this.login();
+    }
+  }
+
+  private async login(): Promise<void> {
+    const { timestamp, sign } = signAuth(this.identity);
+    await this.sendDatagram(Buffer.from(JSON.stringify({ method: 'auth', deviceId: this.identity.deviceId, timestamp, sign })));
+    this.loggedInAt = Date.now();
+  }
+
+  private sendDatagram(data: Buffer): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new Error('UDP套接字已关闭'));
+    }
+    return new Promise((resolve, reject) => {
+      socket.send(data, this.target.port, this.target.host, error => (error ? reject(error) : resolve()));
+    });
+  }
+}
+
+/**
+ * HTTP接入通道：调用设备HTTP接入接口，无下行通道
+ */
+class HttpLink implements SimulatorLink {
+  private token: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(private readonly identity: DeviceIdentity, private readonly baseUrl: string) {}
+
+  public async connect(): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/ingest/${this.identity.deviceId}/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(signAuth(this.identity)),
+    });
+    if (!response.ok) {
+      throw new Error(`获取访问令牌失败: HTTP ${response.status}`);
+    }
+    const { data } = await response.json();
+    this.token = data.token;
+    // 提前1分钟刷新令牌
+    this.tokenExpiresAt = Date.now() + (data.expiresIn - 60) * 1000;
+  }
+
+  public async send(message: UplinkMessage): Promise<void> {
+    switch (message.kind) {
+      case 'property':
+        return this.post('telemetry', JSON.stringify({ properties: message.params }));
+      case 'event':
+        return this.post('events', JSON.stringify({ identifier: message.identifier, params: message.params }));
+      case 'reply':
+        return;
+    }
+  }
+
+  public sendMalformed(payload: Buffer): Promise<void> {
+    return this.post('telemetry', payload.toString('utf8'), true);
+  }
+
+  public close(): void {
+    this.token = null;
+  }
+
+  public isConnected(): boolean {
+    return this.token !== null;
+  }
+
+  /**
+   * 提交上报，令牌过期或失效时重新获取
+   * @param malformed 畸形报文，平台返回400属于预期结果
+   */
+  private async post(resource: string, body: string, malformed = false): Promise<void> {
+    if (!this.token || Date.now() > this.tokenExpiresAt) {
+      await this.connect();
+    }
+
+    const request = () => fetch(`${this.baseUrl}/api/ingest/${this.identity.deviceId}/${resource}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+      body,
+    });
+
+    let response = await request();
+    if (response.status === 401) {
+      await this.connect();
+      response = await request();
+    }
+    if (!response.ok && !(malformed && response.status === 400)) {
+      throw new Error(`上报失败: HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * 模拟设备：按周期生成属性并上报、应答命令、执行注入的故障
+ */
+class VirtualDevice {
+  public readonly stats: SimulatorStats = { messagesSent: 0, commandsReceived: 0, repliesSent: 0, errors: 0 };
+  public fault: 'disconnect' | 'heartbeat_loss' | null = null;
+  public faultUntil: Date | null = null;
+  public lastReportAt: Date | null = null;
+  public lastError: string | null = null;
+
+  private link: SimulatorLink;
+  private reportTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private faultTimer: NodeJS.Timeout | null = null;
+  private pendingTimers: Set<NodeJS.Timeout> = new Set();
+  private running = false;
+  // 各属性的相位（正弦、阶跃）和当前值（随机游走、property.set设置的值）
+  private phases: Map<string, number> = new Map();
+  private values: Map<string, unknown> = new Map();
+
+  constructor(
+    public readonly device: Device,
+    secret: string,
+    private readonly simulation: Simulation,
+    private readonly options: { mqttUrl: string; httpBaseUrl: string; reconnectDelay: number }
+  ) {
+    const identity = { deviceId: device.id, secret };
+    const onCommand = (payload: Buffer) => this.handleCommand(payload);
+    const onClose = () => this.handleClose();
+
+    switch (simulation.protocol) {
+      case 'MQTT':
+        this.link = new MqttLink(identity, options.mqttUrl, onCommand, onClose);
+        break;
+      case 'TCP':
+        this.link = new TcpLink(identity, simulation.target!, onCommand, onClose);
+        break;
+      case 'UDP':
+        this.link = new UdpLink(identity, simulation.target!, onCommand);
+        break;
+      case 'HTTP':
+        this.link = new HttpLink(identity, options.httpBaseUrl);
+        break;
+    }
+
+    for (const [property, waveform] of Object.entries(simulation.properties)) {
+      if (waveform.type === 'sine') {
+        this.phases.set(property, Math.random() * waveform.period);
+      } else if (waveform.type === 'step') {
+        this.phases.set(property, Math.random() * waveform.interval * waveform.values.length);
+      } else {
+        this.values.set(property, waveform.start);
+      }
+    }
+  }
+
+  /**
+   * 启动设备，startDelay内随机错开连接，避免所有设备同时接入
+   */
+  public start(startDelay: number): void {
+    this.running = true;
+    this.schedule(() => this.connect(), Math.random() * startDelay);
+  }
+
+  public stop(): void {
+    this.running = false;
+    this.clearTimers();
+    this.link.close();
+  }
+
+  public isConnected(): boolean {
+    return this.link.isConnected();
+  }
+
+  /**
+   * 注入故障
+   */
+  public injectFault(fault: SimulatorFault): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (fault.type === 'malformed') {
+      for (let i = 0; i < fault.count; i++) {
+        this.sendMalformed(i);
+      }
+      return;
+    }
+
+    this.clearFault();
+    this.fault = fault.type;
+    this.faultUntil = new Date(Date.now() + fault.duration);
+
+    if (fault.type === 'disconnect') {
+      this.stopReporting();
+      if (this.reconnectTimer) {
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = null;
+      }
+      this.link.close();
+    }
+
+    this.faultTimer = setTimeout(() => {
+      const type = this.fault;
+      this.faultTimer = null;
+      this.fault = null;
+      this.faultUntil = null;
+      if (type === 'disconnect' && this.running) {
+        this.connect();
+      }
+    }, fault.duration);
+  }
+
+  public toInfo(): SimulatedDeviceInfo {
+    return {
+      deviceId: this.device.id,
+      name: this.device.name,
+      connected: this.isConnected(),
+      fault: this.fault,
+      faultUntil: this.faultUntil,
+      lastReportAt: this.lastReportAt,
+      lastError: this.lastError,
+      ...this.stats,
+    };
+  }
+
+  private async connect(): Promise<void> {
+    if (!this.running || this.fault === 'disconnect') {
+      return;
+    }
+
+    try {
+      await this.link.connect();
+      this.lastError = null;
+      this.startReporting();
+    } catch (error) {
+      this.recordError(error);
+      this.link.close();
+      this.scheduleReconnect();
+    }
+  }
+
+  private handleClose(): void {
+    this.stopReporting();
+    if (this.running && this.fault !== 'disconnect') {
+      this.recordError(new Error('连接已断开'));
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.options.reconnectDelay);
+  }
+
+  private startReporting(): void {
+    this.stopReporting();
+    this.report();
+    this.reportTimer = setInterval(() => this.report(), this.simulation.config.interval);
+  }
+
+  private stopReporting(): void {
+    if (this.reportTimer) {
+      clearInterval(this.reportTimer);
+      this.reportTimer = null;
+    }
+  }
+
+  /**
+   * 上报属性，并按概率上报事件
+   */
+  private async report(): Promise<void> {
+    if (this.fault || !this.link.isConnected()) {
+      return;
+    }
+
+    const params: Record<string, unknown> = {};
+    for (const [property, waveform] of Object.entries(this.simulation.properties)) {
+      params[property] = this.sample(property, waveform);
+    }
+
+    if (Object.keys(params).length > 0) {
+      await this.send({ kind: 'property', params });
+    }
+
+    for (const event of this.simulation.config.events) {
+      if (Math.random() < event.probability) {
+        await this.send({ kind: 'event', identifier: event.identifier, params: event.params });
+      }
+    }
+
+    this.lastReportAt = new Date();
+  }
+
+  /**
+   * 按波形生成属性值
+   */
+  private sample(property: string, waveform: Waveform): unknown {
+    const now = Date.now();
+    switch (waveform.type) {
+      case 'sine': {
+        // property.set设置的值仅上报一次，之后继续按波形变化
+        if (this.values.has(property)) {
+          const value = this.values.get(property);
+          this.values.delete(property);
+          return value;
+        }
+        const t = now - this.simulation.startedAt.getTime() + (this.phases.get(property) || 0);
+        const value = waveform.offset
+          + waveform.amplitude * Math.sin((2 * Math.PI * t) / waveform.period)
+          + waveform.noise * (Math.random() * 2 - 1);
+        return round(value, waveform.decimals);
+      }
+      case 'randomWalk': {
+        const current = Number(this.values.get(property) ?? waveform.start);
+        let value = current + waveform.step * (Math.random() * 2 - 1);
+        if (waveform.min !== undefined) value = Math.max(waveform.min, value);
+        if (waveform.max !== undefined) value = Math.min(waveform.max, value);
+        value = round(value, waveform.decimals);
+        this.values.set(property, value);
+        return value;
+      }
+      case 'step': {
+        if (this.values.has(property)) {
+          const value = this.values.get(property);
+          this.values.delete(property);
+          return value;
+        }
+        const index = Math.floor((now + (this.phases.get(property) || 0)) / waveform.interval) % waveform.values.length;
+        return waveform.values[index];
+      }
+    }
+  }
+
+  /**
+   * 处理下发的命令：立即应答RECEIVED，延迟后应答执行结果
+   */
+  private handleCommand(payload: Buffer): void {
+    let command: { messageId?: unknown; type?: unknown; params?: unknown };
+    try {
+      command = JSON.parse(payload.toString('utf8'));
+    } catch {
+      return;
+    }
+    if (!command || typeof command.messageId !== 'string') {
+      return;
+    }
+
+    this.stats.commandsReceived++;
+    // 心跳丢失期间设备无响应
+    if (this.fault) {
+      return;
+    }
+
+    const messageId = command.messageId;
+    this.reply({ kind: 'reply', messageId, status: 'RECEIVED' });
+
+    this.schedule(() => {
+      if (this.fault) {
+        return;
+      }
+      if (Math.random() < this.simulation.config.commands.failureRate) {
+        this.reply({ kind: 'reply', messageId, status: 'FAILED', message: '模拟执行失败' });
+        return;
+      }
+
+      const params = command.params && typeof command.params === 'object' ? command.params as Record<string, unknown> : {};
+      if (command.type === 'property.set') {
+        for (const [property, value] of Object.entries(params)) {
+          this.values.set(property, value);
+        }
+      }
+      this.reply({ kind: 'reply', messageId, status: 'EXECUTED', data: command.type === 'property.set' ? params : { simulated: true } });
+    }, this.simulation.config.commands.delay);
+  }
+
+  private async reply(message: UplinkMessage): Promise<void> {
+    try {
+      await this.link.send(message);
+      this.stats.repliesSent++;
+    } catch (error) {
+      this.recordError(error);
+    }
+  }
+
+  /**
+   * 发送畸形报文：交替发送截断的JSON和不符合物模型的数据
+   */
+  private async sendMalformed(index: number): Promise<void> {
+    const property = Object.keys(this.simulation.properties)[0] || 'value';
+    const payload = index % 2 === 0
+      ? Buffer.from('{"params":{"')
+      : Buffer.from(JSON.stringify(
+        this.simulation.protocol === 'HTTP'
+          ? { properties: { [property]: 'malformed' } }
+          : this.simulation.protocol === 'MQTT'
+            ? { params: { [property]: 'malformed' } }
+            : { deviceId: this.device.id, method: 'property.post', params: { [property]: 'malformed' } }
+      ));
+
+    try {
+      await this.link.sendMalformed(payload);
+      this.stats.messagesSent++;
+    } catch (error) {
+      this.recordError(error);
+    }
+  }
+
+  private async send(message: UplinkMessage): Promise<void> {
+    try {
+      await this.link.send(message);
+      this.stats.messagesSent++;
+    } catch (error) {
+      this.recordError(error);
+    }
+  }
+
+  private recordError(error: unknown): void {
+    this.stats.errors++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  private schedule(callback: () => void, delay: number): void {
+    const timer = setTimeout(() => {
+      this.pendingTimers.delete(timer);
+      callback();
+    }, delay);
+    this.pendingTimers.add(timer);
+  }
+
+  private clearFault(): void {
+    if (this.faultTimer) {
+      clearTimeout(this.faultTimer);
+      this.faultTimer = null;
+    }
+    this.fault = null;
+    this.faultUntil = null;
+  }
+
+  private clearTimers(): void {
+    this.stopReporting();
+    this.clearFault();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    for (const timer of this.pendingTimers) {
+      clearTimeout(timer);
+    }
+    this.pendingTimers.clear();
+  }
+}
+
+/**
+ * 按小数位数取整
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+class DeviceSimulatorService {
+  private static instance: DeviceSimulatorService;
+  private simulations: Map<string, Simulation> = new Map();
+  private readonly MQTT_URL = process.env.SIMULATOR_MQTT_URL || `mqtt://127.0.0.1:${process.env.MQTT_BROKER_PORT || 1883}`;
+  private readonly HTTP_BASE_URL = process.env.SIMULATOR_HTTP_BASE || `http://127.0.0.1:${process.env.PORT || 3000}`;
+  private readonly RECONNECT_DELAY = 5000;
+
+  // 私有构造函数，防止直接实例化
+  private constructor() {}
+
+  /**
+   * 获取服务实例（单例模式）
+   * @returns DeviceSimulatorService实例
+   */
+  public static getInstance(): DeviceSimulatorService {
+    if (!DeviceSimulatorService.instance) {
+      DeviceSimulatorService.instance = new DeviceSimulatorService();
+    }
+    return DeviceSimulatorService.instance;
+  }
+
+  /**
+   * 模拟器是否启用
+   */
+  public isEnabled(): boolean {
+    return process.env.DEVICE_SIMULATOR === 'true' || process.env.NODE_ENV !== 'production';
+  }
+
+  /**
+   * 启动模拟会话
+   * @param config 会话配置
+   * @returns 会话信息
+   */
+  public async startSimulation(config: SimulationConfig): Promise<SimulationInfo> {
+    const deviceClass = await deviceService.getDeviceClassById(config.deviceClassId);
+    if (!deviceClass) {
+      throw new SimulatorError('设备类不存在');
+    }
+
+    const protocol = config.protocol || this.resolveProtocol(deviceClass.protocol);
+    const target = protocol === 'TCP' || protocol === 'UDP' ? await this.resolveTarget(deviceClass, config) : null;
+    const properties = config.properties || this.defaultWaveforms(thingModelService.parseThingModel(deviceClass.thingModel));
+    if (Object.keys(properties).length === 0 && config.events.length === 0) {
+      throw new SimulatorError('设备类物模型未定义可模拟的属性，请配置属性波形或事件');
+    }
+
+    const simulation: Simulation = {
+      id: crypto.randomUUID(),
+      config,
+      protocol,
+      deviceClass,
+      organizationId: config.organizationId || deviceClass.organizationId,
+      properties,
+      target,
+      devices: [],
+      startedAt: new Date(),
+    };
+
+    const devices = await this.provisionDevices(simulation);
+    for (const { device, secret } of devices) {
+      simulation.devices.push(new VirtualDevice(device, secret, simulation, {
+        mqttUrl: this.MQTT_URL,
+        httpBaseUrl: this.HTTP_BASE_URL,
+        reconnectDelay: this.RECONNECT_DELAY,
+      }));
+    }
+
+    this.simulations.set(simulation.id, simulation);
+    for (const device of simulation.devices) {
+      device.start(Math.min(config.interval, 10000));
+    }
+
+    console.log(`设备模拟会话已启动: ${simulation.id}，${deviceClass.name} × ${devices.length}（${protocol}）`);
+    return this.toInfo(simulation);
+  }
+
+  /**
+   * 停止模拟会话
+   * @param id 会话ID
+   * @param removeDevices 是否删除模拟设备
+   * @returns 是否存在该会话
+   */
+  public async stopSimulation(id: string, removeDevices = false): Promise<boolean> {
+    const simulation = this.simulations.get(id);
+    if (!simulation) {
+      return false;
+    }
+
+    this.simulations.delete(id);
+    for (const device of simulation.devices) {
+      device.stop();
+    }
+
+    if (removeDevices) {
+      for (const { device } of simulation.devices) {
+        await deviceService.deleteDevice(device.id);
+      }
+    }
+
+    console.log(`设备模拟会话已停止: ${id}`);
+    return true;
+  }
+
+  /**
+   * 停止所有模拟会话
+   */
+  public async stopAll(): Promise<void> {
+    for (const id of [...this.simulations.keys()]) {
+      await this.stopSimulation(id);
+    }
+  }
+
+  /**
+   * 获取所有模拟会话
+   */
+  public getSimulations(): SimulationInfo[] {
+    return [...this.simulations.values()].map(simulation => this.toInfo(simulation));
+  }
+
+  /**
+   * 获取模拟会话及其设备状态
+   * @param id 会话ID
+   */
+  public getSimulation(id: string): (SimulationInfo & { devices: SimulatedDeviceInfo[] }) | null {
+    const simulation = this.simulations.get(id);
+    if (!simulation) {
+      return null;
+    }
+    return { ...this.toInfo(simulation), devices: simulation.devices.map(device => device.toInfo()) };
+  }
+
+  /**
+   * 向模拟会话注入故障
+   * @param id 会话ID
+   * @param fault 故障
+   * @returns 受影响的设备ID，会话不存在时返回null
+   */
+  public injectFault(id: string, fault: SimulatorFault): string[] | null {
+    const simulation = this.simulations.get(id);
+    if (!simulation) {
+      return null;
+    }
+
+    let targets: VirtualDevice[];
+    if (fault.deviceIds) {
+      const unknown = fault.deviceIds.filter(deviceId => !simulation.devices.some(device => device.device.id === deviceId));
+      if (unknown.length > 0) {
+        throw new SimulatorError(`设备不属于该模拟会话: ${unknown.join(', ')}`);
+      }
+      targets = simulation.devices.filter(device => fault.deviceIds!.includes(device.device.id));
+    } else {
+      const count = Math.round(simulation.devices.length * fault.ratio);
+      targets = [...simulation.devices].sort(() => Math.random() - 0.5).slice(0, count);
+    }
+
+    for (const device of targets) {
+      device.injectFault(fault);
+    }
+
+    console.log(`模拟会话 ${id} 注入故障 ${fault.type}，影响设备 ${targets.length} 台`);
+    return targets.map(device => device.device.id);
+  }
+
+  /**
+   * 设备类接入协议对应的模拟协议
+   */
+  private resolveProtocol(protocol: ProtocolType): SimulatorProtocol {
+    if ((SIMULATOR_PROTOCOLS as readonly string[]).includes(protocol)) {
+      return protocol as SimulatorProtocol;
+    }
+    throw new SimulatorError(`模拟器不支持${protocol}接入协议，请指定MQTT、TCP、UDP或HTTP`);
+  }
+
+  /**
+   * TCP/UDP目标地址：未指定端口时使用设备类编解码器端口
+   */
+  private async resolveTarget(deviceClass: DeviceClass, config: SimulationConfig): Promise<{ host: string; port: number }> {
+    const port = config.target.port ?? (await deviceCodecService.getCodec(deviceClass.id))?.port;
+    if (!port) {
+      throw new SimulatorError('设备类未配置编解码器，请指定TCP/UDP目标端口');
+    }
+    return { host: config.target.host, port };
+  }
+
+  /**
+   * 按物模型生成默认波形：数值属性在取值范围内按正弦变化，布尔和枚举属性依次切换
+   */
+  private defaultWaveforms(model: ThingModel | null): Record<string, Waveform> {
+    const waveforms: Record<string, Waveform> = {};
+    for (const property of model?.properties || []) {
+      const { dataType } = property;
+      switch (dataType.type) {
+        case 'int':
+        case 'float':
+        case 'double': {
+          const min = dataType.min ?? 0;
+          const max = dataType.max ?? Math.max(min + 100, 100);
+          waveforms[property.identifier] = {
+            type: 'sine',
+            offset: (min + max) / 2,
+            // 留出余量，叠加噪声后不超出取值范围
+            amplitude: ((max - min) / 2) * 0.8,
+            period: 300000,
+            noise: ((max - min) / 2) * 0.1,
+            decimals: dataType.type === 'int' ? 0 : 2,
+          };
+          break;
+        }
+        case 'bool':
+          waveforms[property.identifier] = { type: 'step', values: [false, true], interval: 60000 };
+          break;
+        case 'enum': {
+          const values = Object.keys(dataType.values || {});
+          if (values.length > 0) {
+            waveforms[property.identifier] = { type: 'step', values, interval: 60000 };
+          }
+          break;
+        }
+      }
+    }
+    return waveforms;
+  }
+
+  /**
+   * 准备模拟设备：复用设备类下未被其他会话使用的模拟设备，不足时创建，并重新签发设备密钥
+   */
+  private async provisionDevices(simulation: Simulation): Promise<Array<{ device: Device; secret: string }>> {
+    const { deviceClass, organizationId, config } = simulation;
+    const inUse = new Set(
+      [...this.simulations.values()].flatMap(other => other.devices.map(device => device.device.id))
+    );
+
+    const existing = await prisma.device.findMany({
+      where: {
+        deviceClassId: deviceClass.id,
+        organizationId,
+        config: { path: ['simulator'], equals: true },
+      },
+      orderBy: { name: 'asc' },
+    });
+    const devices = existing.filter(device => !inUse.has(device.id)).slice(0, config.count);
+
+    const names = new Set(existing.map(device => device.name));
+    for (let index = 1; devices.length < config.count; index++) {
+      const name = `${deviceClass.name}-SIM-${String(index).padStart(4, '0')}`;
+      if (names.has(name)) continue;
+      devices.push(await deviceService.createDevice({
+        name,
+        config: { simulator: true } as Prisma.InputJsonObject,
+        deviceClass: { connect: { id: deviceClass.id } },
+        organization: { connect: { id: organizationId } },
+      }));
+    }
+
+    const provisioned: Array<{ device: Device; secret: string }> = [];
+    for (const device of devices) {
+      const credential = await deviceCredentialService.issueSecret(device.id);
+      provisioned.push({ device, secret: credential.secret! });
+    }
+    return provisioned;
+  }
+
+  private toInfo(simulation: Simulation): SimulationInfo {
+    const stats: SimulatorStats = { messagesSent: 0, commandsReceived: 0, repliesSent: 0, errors: 0 };
+    let connected = 0;
+    let faulted = 0;
+    for (const device of simulation.devices) {
+      stats.messagesSent += device.stats.messagesSent;
+      stats.commandsReceived += device.stats.commandsReceived;
+      stats.repliesSent += device.stats.repliesSent;
+      stats.errors += device.stats.errors;
+      if (device.isConnected()) connected++;
+      if (device.fault) faulted++;
+    }
+
+    return {
+      id: simulation.id,
+      deviceClassId: simulation.deviceClass.id,
+      deviceClassName: simulation.deviceClass.name,
+      organizationId: simulation.organizationId,
+      protocol: simulation.protocol,
+      count: simulation.devices.length,
+      interval: simulation.config.interval,
+      properties: simulation.properties,
+      startedAt: simulation.startedAt,
+      connected,
+      faulted,
+      stats,
+    };
+  }
+}
+
+// 导出单例实例
+export const deviceSimulatorService = DeviceSimulatorService.getInstance();
+export default deviceSimulatorService;
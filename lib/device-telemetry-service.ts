@@ -0,0 +1,404 @@
+/**
+ * 设备遥测服务 - 实现设备属性数据的时序存储、降采样和查询
+ *
+ * 该服务实现了以下功能：
+ * 1. 将DeviceTelemetry表转换为TimescaleDB超表
+ * 2. 创建1分钟/1小时/1天连续聚合及刷新策略（实时聚合，包含尚未物化的最新数据）
+ * 3. 原始数据及各级聚合数据的保留策略
+ * 4. 批量写入设备上报的属性数据（按批量大小或时间间隔刷新）
+ * 5. 原始数据及降采样数据查询（avg/min/max/last）
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import { thingModelService } from './thing-model-service';
+
+/**
+ * 遥测聚合方式
+ */
+export type TelemetryAggregation = 'avg' | 'min' | 'max' | 'last';
+
+/**
+ * 遥测查询参数
+ */
+export interface TelemetryQuery {
+  // 设备ID
+  deviceId: string;
+  // 属性标识符
+  property: string;
+  // 开始时间（包含）
+  from: Date;
+  // 结束时间（不包含）
+  to: Date;
+  // 时间间隔：raw 或 数字+单位（m/h/d），如 5m、1h、1d
+  interval: string;
+  // 聚合方式
+  agg: TelemetryAggregation;
+}
+
+/**
+ * 遥测数据点
+ */
+export interface TelemetryPoint {
+  // 时间（降采样时为时间桶起点）
+  time: Date;
+  // 数值
+  value: number | null;
+  // 非数值型属性的原始值（仅原始数据查询）
+  raw?: Prisma.JsonValue;
+}
+
+/**
+ * 连续聚合定义
+ */
+interface ContinuousAggregate {
+  // 视图名称
+  view: string;
+  // 时间桶大小
+  bucket: string;
+  // 时间桶毫秒数
+  bucketMs: number;
+  // 刷新窗口起点偏移（须小于原始数据保留时间）
+  startOffset: string;
+  // 刷新窗口终点偏移
+  endOffset: string;
+  // 刷新间隔
+  scheduleInterval: string;
+  // 保留天数，0表示永久保留
+  retentionDays: number;
+}
+
+// 单次查询最多返回的数据点数
+export const MAX_TELEMETRY_POINTS = 10000;
+
+// 原始数据保留天数，不少于4天，保证连续聚合刷新窗口内的原始数据未被删除
+const RAW_RETENTION_DAYS = Math.max(4, parseInt(process.env.TELEMETRY_RETENTION_DAYS || '7') || 7);
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const CONTINUOUS_AGGREGATES: ContinuousAggregate[] = [
+  {
+    view: 'device_telemetry_1m',
+    bucket: '1 minute',
+    bucketMs: MINUTE_MS,
+    startOffset: '1 hour',
+    endOffset: '1 minute',
+    scheduleInterval: '1 minute',
+    retentionDays: parseInt(process.env.TELEMETRY_1M_RETENTION_DAYS || '30') || 30,
+  },
+  {
+    view: 'device_telemetry_1h',
+    bucket: '1 hour',
+    bucketMs: HOUR_MS,
+    startOffset: '2 days',
+    endOffset: '1 hour',
+    scheduleInterval: '1 hour',
+    retentionDays: parseInt(process.env.TELEMETRY_1H_RETENTION_DAYS || '365') || 365,
+  },
+  {
+    view: 'device_telemetry_1d',
+    bucket: '1 day',
+    bucketMs: DAY_MS,
+    startOffset: '3 days',
+    endOffset: '1 day',
+    scheduleInterval: '1 day',
+    retentionDays: 0,
+  },
+];
+
+// 各聚合方式对连续聚合列的再聚合表达式
+const AGGREGATION_EXPRESSIONS: Record<TelemetryAggregation, string> = {
+  avg: 'sum(avg_value * sample_count) / NULLIF(sum(sample_count), 0)',
+  min: 'min(min_value)',
+  max: 'max(max_value)',
+  last: 'last(last_value, bucket)',
+};
+
+const INTERVAL_UNITS: Record<string, { ms: number; name: string }> = {
+  m: { ms: MINUTE_MS, name: 'minutes' },
+  h: { ms: HOUR_MS, name: 'hours' },
+  d: { ms: DAY_MS, name: 'days' },
+};
+
+/**
+ * 设备遥测服务类
+ */
+export class DeviceTelemetryService {
+  private static instance: DeviceTelemetryService;
+  private buffer: Prisma.DeviceTelemetryCreateManyInput[] = [];
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing = false;
+  private started = false;
+  private readonly batchSize = parseInt(process.env.TELEMETRY_BATCH_SIZE || '500') || 500;
+  private readonly flushInterval = parseInt(process.env.TELEMETRY_FLUSH_INTERVAL || '1000') || 1000;
+  private readonly maxBufferSize = parseInt(process.env.TELEMETRY_MAX_BUFFER || '50000') || 50000;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    thingModelService.on('property_report', (deviceId: string, params: Record<string, any>, flagged: boolean, time?: Date) => {
+      if (this.started) {
+        this.record(deviceId, params, time);
+      }
+    });
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): DeviceTelemetryService {
+    if (!DeviceTelemetryService.instance) {
+      DeviceTelemetryService.instance = new DeviceTelemetryService();
+    }
+    return DeviceTelemetryService.instance;
+  }
+
+  /**
+   * 启动遥测服务：初始化超表、连续聚合和保留策略，开始接收设备属性上报
+   */
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+
+    try {
+      await this.ensureSchema();
+    } catch (error) {
+      // TimescaleDB不可用时仍写入普通表，降采样查询不可用
+      console.error('初始化遥测超表失败:', error);
+    }
+
+    this.started = true;
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, this.flushInterval);
+  }
+
+  /**
+   * 停止遥测服务并写入缓冲区中的剩余数据
+   */
+  public async stop(): Promise<void> {
+    this.started = false;
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * 记录设备属性数据，写入缓冲区等待批量写入
+   * @param deviceId 设备ID
+   * @param properties 属性值
+   * @param time 采集时间
+   */
+  public record(deviceId: string, properties: Record<string, any>, time: Date = new Date()): void {
+    for (const [property, value] of Object.entries(properties)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+
+      const numeric = typeof value === 'number' && Number.isFinite(value)
+        ? value
+        : typeof value === 'boolean' ? (value ? 1 : 0) : null;
+
+      this.buffer.push({
+        time,
+        deviceId,
+        property,
+        numeric,
+        value: numeric === null ? (value as Prisma.InputJsonValue) : undefined,
+      });
+    }
+
+    if (this.buffer.length > this.maxBufferSize) {
+      const dropped = this.buffer.length - this.maxBufferSize;
+      this.buffer.splice(0, dropped);
+      console.warn(`遥测缓冲区已满，丢弃最早的 ${dropped} 条数据`);
+    }
+
+    if (this.buffer.length >= this.batchSize) {
+      this.flush();
+    }
+  }
+
+  /**
+   * 将缓冲区数据批量写入数据库，写入失败的数据保留在缓冲区等待下次重试
+   */
+  public async flush(): Promise<void> {
+    if (this.flushing || this.buffer.length === 0) {
+      return;
+    }
+
+    this.flushing = true;
+    try {
+      while (this.buffer.length > 0) {
+        const batch = this.buffer.slice(0, this.batchSize);
+        try {
+          await prisma.deviceTelemetry.createMany({
+            data: batch,
+            skipDuplicates: true,
+          });
+          this.buffer.splice(0, batch.length);
+        } catch (error) {
+          console.error('批量写入遥测数据失败:', error);
+          break;
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  /**
+   * 根据时间范围解析查询间隔，未指定时按时间范围自动选择
+   * @param from 开始时间
+   * @param to 结束时间
+   * @param interval 指定的间隔
+   * @returns 间隔及其毫秒数（原始数据为0）
+   */
+  public resolveInterval(from: Date, to: Date, interval?: string): { interval: string; intervalMs: number } {
+    if (!interval) {
+      const range = to.getTime() - from.getTime();
+      if (range <= HOUR_MS) {
+        interval = 'raw';
+      } else if (range <= DAY_MS) {
+        interval = '1m';
+      } else if (range <= 60 * DAY_MS) {
+        interval = '1h';
+      } else {
+        interval = '1d';
+      }
+    }
+
+    if (interval === 'raw') {
+      return { interval, intervalMs: 0 };
+    }
+
+    const { amount, unit } = this.parseInterval(interval);
+    return { interval, intervalMs: amount * INTERVAL_UNITS[unit].ms };
+  }
+
+  /**
+   * 查询设备遥测数据
+   * 原始数据直接查询超表；降采样数据从与间隔单位对应的连续聚合中按间隔再聚合
+   * @param query 查询参数
+   * @returns 数据点列表
+   */
+  public async queryTelemetry(query: TelemetryQuery): Promise<TelemetryPoint[]> {
+    if (query.interval === 'raw') {
+      const rows = await prisma.deviceTelemetry.findMany({
+        where: {
+          deviceId: query.deviceId,
+          property: query.property,
+          time: { gte: query.from, lt: query.to },
+        },
+        orderBy: { time: 'asc' },
+        take: MAX_TELEMETRY_POINTS,
+      });
+
+      return rows.map(row => ({
+        time: row.time,
+        value: row.numeric,
+        ...(row.value !== null ? { raw: row.value } : {}),
+      }));
+    }
+
+    const { amount, unit } = this.parseInterval(query.interval);
+    const source = this.getAggregateForUnit(unit);
+    const bucketInterval = `${amount} ${INTERVAL_UNITS[unit].name}`;
+
+    const rows = await prisma.$queryRaw<{ time: Date; value: number | null }[]>`
+      SELECT time_bucket(${bucketInterval}::interval, bucket) AS time,
+             ${Prisma.raw(AGGREGATION_EXPRESSIONS[query.agg])}::double precision AS value
+      FROM ${Prisma.raw(source.view)}
+      WHERE device_id = ${query.deviceId}::uuid
+        AND property = ${query.property}
+        AND bucket >= ${query.from}
+        AND bucket < ${query.to}
+      GROUP BY 1
+      ORDER BY 1
+      LIMIT ${MAX_TELEMETRY_POINTS}
+    `;
+
+    return rows.map(row => ({
+      time: row.time,
+      value: row.value,
+    }));
+  }
+
+  /**
+   * 初始化超表、连续聚合、刷新策略和保留策略（可重复执行）
+   */
+  private async ensureSchema(): Promise<void> {
+    await prisma.$executeRawUnsafe(
+      `SELECT create_hypertable('"DeviceTelemetry"', 'time', chunk_time_interval => INTERVAL '1 day', if_not_exists => TRUE, migrate_data => TRUE)`
+    );
+
+    await prisma.$executeRawUnsafe(
+      `SELECT add_retention_policy('"DeviceTelemetry"', INTERVAL '${RAW_RETENTION_DAYS} days', if_not_exists => TRUE)`
+    );
+
+    for (const aggregate of CONTINUOUS_AGGREGATES) {
+      await prisma.$executeRawUnsafe(`
+        CREATE MATERIALIZED VIEW IF NOT EXISTS ${aggregate.view}
+        WITH (timescaledb.continuous, timescaledb.materialized_only = false) AS
+        SELECT time_bucket(INTERVAL '${aggregate.bucket}', "time") AS bucket,
+               "deviceId" AS device_id,
+               property,
+               avg("numeric") AS avg_value,
+               min("numeric") AS min_value,
+               max("numeric") AS max_value,
+               last("numeric", "time") AS last_value,
+               count("numeric") AS sample_count
+        FROM "DeviceTelemetry"
+        WHERE "numeric" IS NOT NULL
+        GROUP BY bucket, "deviceId", property
+        WITH NO DATA
+      `);
+
+      await prisma.$executeRawUnsafe(
+        `SELECT add_continuous_aggregate_policy('${aggregate.view}', start_offset => INTERVAL '${aggregate.startOffset}', end_offset => INTERVAL '${aggregate.endOffset}', schedule_interval => INTERVAL '${aggregate.scheduleInterval}', if_not_exists => TRUE)`
+      );
+
+      if (aggregate.retentionDays > 0) {
+        await prisma.$executeRawUnsafe(
+          `SELECT add_retention_policy('${aggregate.view}', INTERVAL '${aggregate.retentionDays} days', if_not_exists => TRUE)`
+        );
+      }
+    }
+
+    console.log('遥测超表及连续聚合初始化完成');
+  }
+
+  /**
+   * 解析间隔字符串
+   * @param interval 间隔，如 5m、1h、1d
+   * @returns 数量和单位
+   */
+  private parseInterval(interval: string): { amount: number; unit: string } {
+    const match = interval.match(/^(\d+)([mhd])$/);
+    if (!match || parseInt(match[1]) <= 0) {
+      throw new Error(`Invalid telemetry interval: ${interval}`);
+    }
+    return { amount: parseInt(match[1]), unit: match[2] };
+  }
+
+  /**
+   * 获取间隔单位对应的连续聚合
+   * @param unit 间隔单位
+   * @returns 连续聚合定义
+   */
+  private getAggregateForUnit(unit: string): ContinuousAggregate {
+    const bucketMs = INTERVAL_UNITS[unit].ms;
+    return CONTINUOUS_AGGREGATES.find(aggregate => aggregate.bucketMs === bucketMs)!;
+  }
+}
+
+// 导出单例实例
+export const deviceTelemetryService = DeviceTelemetryService.getInstance();
+
+export default deviceTelemetryService;
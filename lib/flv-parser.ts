@@ -0,0 +1,280 @@
+/**
+ * FLV解析工具 - 将FLV字节流切分为文件头和标签
+ *
+ * 该模块实现了以下功能：
+ * 1. FLV文件头识别
+ * 2. 按标签切分FLV字节流（支持任意分片输入）
+ * 3. 关键帧与音视频序列头识别
+ * 4. 脚本数据（AMF0 onMetaData）与AVC解码配置解析
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * FLV标签类型
+ */
+export enum FlvTagType {
+  AUDIO = 8,
+  VIDEO = 9,
+  SCRIPT = 18
+}
+
+/**
+ * FLV标签
+ */
+export interface FlvTag {
+  // 标签类型
+  type: FlvTagType;
+  // 时间戳（毫秒）
+  timestamp: number;
+  // 标签数据（不含标签头）
+  data: Buffer;
+  // 完整标签字节（含标签头和PreviousTagSize）
+  raw: Buffer;
+}
+
+// FLV文件头长度（9字节文件头 + 4字节PreviousTagSize0）
+export const FLV_HEADER_SIZE = 13;
+// FLV标签头长度
+const FLV_TAG_HEADER_SIZE = 11;
+
+/**
+ * FLV字节流解析器
+ * 事件：
+ * - header(buffer)：解析到FLV文件头
+ * - tag(tag)：解析到完整标签
+ * - error(error)：数据格式错误
+ */
+export class FlvParser extends EventEmitter {
+  private buffer: Buffer = Buffer.alloc(0);
+  private headerParsed: boolean = false;
+
+  /**
+   * 写入一段FLV数据
+   * @param chunk 数据分片
+   */
+  public push(chunk: Buffer): void {
+    this.buffer = this.buffer.length === 0 ? chunk : Buffer.concat([this.buffer, chunk]);
+
+    if (!this.headerParsed) {
+      if (this.buffer.length < FLV_HEADER_SIZE) {
+        return;
+      }
+
+      if (this.buffer.toString('ascii', 0, 3) !== 'FLV') {
+        this.emit('error', new Error('Invalid FLV header'));
+        this.buffer = Buffer.alloc(0);
+        return;
+      }
+
+      const header = this.buffer.subarray(0, FLV_HEADER_SIZE);
+      this.buffer = this.buffer.subarray(FLV_HEADER_SIZE);
+      this.headerParsed = true;
+      this.emit('header', Buffer.from(header));
+    }
+
+    while (this.buffer.length >= FLV_TAG_HEADER_SIZE) {
+      const dataSize = this.buffer.readUIntBE(1, 3);
+      const totalSize = FLV_TAG_HEADER_SIZE + dataSize + 4;
+
+      if (this.buffer.length < totalSize) {
+        return;
+      }
+
+      const raw = Buffer.from(this.buffer.subarray(0, totalSize));
+      this.buffer = this.buffer.subarray(totalSize);
+
+      // 时间戳：低24位 + 扩展高8位
+      const timestamp = (raw[7] << 24) | raw.readUIntBE(4, 3);
+
+      const tag: FlvTag = {
+        type: raw[0] & 0x1f,
+        timestamp: timestamp >>> 0,
+        data: raw.subarray(FLV_TAG_HEADER_SIZE, FLV_TAG_HEADER_SIZE + dataSize),
+        raw,
+      };
+
+      this.emit('tag', tag);
+    }
+  }
+
+  /**
+   * 重置解析状态
+   */
+  public reset(): void {
+    this.buffer = Buffer.alloc(0);
+    this.headerParsed = false;
+  }
+}
+
+/**
+ * 判断是否为视频关键帧
+ * @param tag FLV标签
+ * @returns 是否为关键帧
+ */
+export function isKeyframe(tag: FlvTag): boolean {
+  return tag.type === FlvTagType.VIDEO && tag.data.length > 0 && (tag.data[0] >> 4) === 1;
+}
+
+/**
+ * 判断是否为音视频序列头（AVC/HEVC decoder configuration 或 AAC AudioSpecificConfig）
+ * @param tag FLV标签
+ * @returns 是否为序列头
+ */
+export function isSequenceHeader(tag: FlvTag): boolean {
+  if (tag.data.length < 2) {
+    return false;
+  }
+
+  if (tag.type === FlvTagType.VIDEO) {
+    const codecId = tag.data[0] & 0x0f;
+    // 7: AVC，12: HEVC（国内常用扩展）
+    return (codecId === 7 || codecId === 12) && tag.data[1] === 0;
+  }
+
+  if (tag.type === FlvTagType.AUDIO) {
+    // 10: AAC
+    return (tag.data[0] >> 4) === 10 && tag.data[1] === 0;
+  }
+
+  return false;
+}
+
+/**
+ * FLV视频编码ID对应的编码名称
+ */
+export const FLV_VIDEO_CODECS: Record<number, string> = {
+  2: 'H.263',
+  3: 'Screen Video',
+  4: 'VP6',
+  5: 'VP6 Alpha',
+  7: 'H.264',
+  12: 'H.265'
+};
+
+/**
+ * FLV音频格式ID对应的编码名称
+ */
+export const FLV_AUDIO_CODECS: Record<number, string> = {
+  0: 'PCM',
+  1: 'ADPCM',
+  2: 'MP3',
+  3: 'PCM',
+  7: 'G.711A',
+  8: 'G.711U',
+  10: 'AAC',
+  11: 'Speex'
+};
+
+/**
+ * 解析AMF0编码的值
+ * @param data 数据
+ * @param offset 起始偏移
+ * @returns 解析出的值及结束偏移
+ */
+function readAmf0Value(data: Buffer, offset: number): { value: any; offset: number } {
+  const marker = data[offset++];
+
+  switch (marker) {
+    case 0: // number
+      return { value: data.readDoubleBE(offset), offset: offset + 8 };
+    case 1: // boolean
+      return { value: data[offset] !== 0, offset: offset + 1 };
+    case 2: { // string
+      const length = data.readUInt16BE(offset);
+      return { value: data.toString('utf8', offset + 2, offset + 2 + length), offset: offset + 2 + length };
+    }
+    case 3: // object
+    case 8: { // ECMA array
+      if (marker === 8) {
+        offset += 4; // 数组长度仅为参考值，以结束标记为准
+      }
+      const value: Record<string, any> = {};
+      while (offset + 3 <= data.length) {
+        const keyLength = data.readUInt16BE(offset);
+        if (keyLength === 0 && data[offset + 2] === 9) {
+          offset += 3;
+          break;
+        }
+        const key = data.toString('utf8', offset + 2, offset + 2 + keyLength);
+        const item = readAmf0Value(data, offset + 2 + keyLength);
+        value[key] = item.value;
+        offset = item.offset;
+      }
+      return { value, offset };
+    }
+    case 5: // null
+    case 6: // undefined
+      return { value: null, offset };
+    case 10: { // strict array
+      const count = data.readUInt32BE(offset);
+      offset += 4;
+      const value: any[] = [];
+      for (let i = 0; i < count; i++) {
+        const item = readAmf0Value(data, offset);
+        value.push(item.value);
+        offset = item.offset;
+      }
+      return { value, offset };
+    }
+    case 11: // date
+      return { value: new Date(data.readDoubleBE(offset)), offset: offset + 10 };
+    case 12: { // long string
+      const length = data.readUInt32BE(offset);
+      return { value: data.toString('utf8', offset + 4, offset + 4 + length), offset: offset + 4 + length };
+    }
+    default:
+      throw new Error(`Unsupported AMF0 marker: ${marker}`);
+  }
+}
+
+/**
+ * 解析脚本标签中的onMetaData元数据
+ * @param tag FLV标签
+ * @returns 元数据对象，非onMetaData标签或解析失败时返回null
+ */
+export function parseMetadata(tag: FlvTag): Record<string, any> | null {
+  if (tag.type !== FlvTagType.SCRIPT) {
+    return null;
+  }
+
+  try {
+    let offset = 0;
+    let name: string | null = null;
+
+    // FFmpeg等工具可能在onMetaData前写入@setDataFrame
+    while (offset < tag.data.length) {
+      const item = readAmf0Value(tag.data, offset);
+      offset = item.offset;
+
+      if (name === 'onMetaData') {
+        return item.value && typeof item.value === 'object' ? item.value : null;
+      }
+      name = typeof item.value === 'string' ? item.value : null;
+    }
+  } catch (error) {
+    // 元数据损坏时忽略
+  }
+
+  return null;
+}
+
+/**
+ * 从AVC序列头标签中提取第一个SPS
+ * @param tag AVC序列头标签
+ * @returns SPS数据（不含起始码），不存在时返回null
+ */
+export function extractAvcSps(tag: FlvTag): Buffer | null {
+  // 5字节视频标签头后为AVCDecoderConfigurationRecord
+  const record = tag.data.subarray(5);
+  if (record.length < 8 || (record[5] & 0x1f) === 0) {
+    return null;
+  }
+
+  const length = record.readUInt16BE(6);
+  if (record.length < 8 + length) {
+    return null;
+  }
+
+  return Buffer.from(record.subarray(8, 8 + length));
+}
@@ -0,0 +1,602 @@
+/**
+ * 网关服务 - 实现网关与子设备的拓扑管理和消息代理
+ *
+ * 该服务实现了以下功能：
+ * 1. 网关通过MQTT注册、查询、添加和移除子设备
+ * 2. 网关代理的子设备物模型消息和命令应答归属到对应子设备
+ * 3. 子设备上下线由网关上报，网关离线时其子设备级联离线
+ * 4. 设备拓扑树查询
+ *
+ * 拓扑管理（网关发布，平台应答到 {主题}/reply）：
+ * - gateways/{gatewayId}/topo/register { requestId, devices: [{ name, deviceClassId, alias, config }] } 注册新的子设备
+ * - gateways/{gatewayId}/topo/add { requestId, devices: [子设备ID] } 挂载已有设备为子设备
+ * - gateways/{gatewayId}/topo/remove { requestId, devices: [子设备ID] } 移除子设备
+ * - gateways/{gatewayId}/topo/get { requestId } 查询子设备
+ * 应答格式：{ "requestId": 请求ID, "success": 是否全部成功, "data": 子设备列表, "errors": 失败项 }
+ *
+ * 子设备消息代理（网关发布）：
+ * - gateways/{gatewayId}/sub/{deviceId}/status 子设备上下线：online/offline
+ * - gateways/{gatewayId}/sub/{deviceId}/thing/... 子设备物模型消息，格式同 devices/{deviceId}/thing/...
+ * - gateways/{gatewayId}/sub/{deviceId}/command/reply 子设备命令应答，格式同 devices/{deviceId}/command/reply
+ */
+
+import { EventEmitter } from 'events';
+import { Device, DeviceStatus, DeviceType, Prisma, ProtocolType } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import mqttClient from './mqtt-client';
+import { websocketService } from './websocket-service';
+import { thingModelService } from './thing-model-service';
+import { deviceCommandDispatcher } from './device-command-dispatcher';
+import {
+  deviceConnectionService,
+  DeviceConnectionStatus,
+  DeviceProtocol,
+} from './device-connection-service';
+
+/**
+ * 子设备注册信息
+ */
+export interface ChildDeviceRegistration {
+  // 设备名称
+  name: string;
+  // 设备类ID，须为网关子设备类
+  deviceClassId: string;
+  // 设备别名
+  alias?: string;
+  // 设备配置
+  config?: Record<string, any>;
+}
+
+/**
+ * 拓扑操作失败项
+ */
+export interface TopologyError {
+  // 设备ID或设备名称
+  device: string;
+  // 失败原因
+  message: string;
+}
+
+/**
+ * 拓扑操作结果
+ */
+export interface TopologyResult {
+  // 操作成功的子设备
+  devices: Device[];
+  // 失败项
+  errors: TopologyError[];
+}
+
+/**
+ * 拓扑树节点
+ */
+export interface TopologyNode {
+  // 设备ID
+  id: string;
+  // 设备名称
+  name: string;
+  // 设备别名
+  alias: string | null;
+  // 设备状态
+  status: DeviceStatus;
+  // 实时连接状态，未跟踪连接时为null
+  connectionStatus: DeviceConnectionStatus | null;
+  // 组织ID
+  organizationId: string;
+  // 设备类
+  deviceClass: {
+    id: string;
+    name: string;
+    type: DeviceType;
+    protocol: ProtocolType;
+  };
+  // 最后连接时间
+  lastConnected: Date | null;
+  // 子设备
+  children: TopologyNode[];
+}
+
+// 子设备归属缓存时间（毫秒）
+const PARENT_CACHE_TTL = 60000;
+
+/**
+ * 网关服务类
+ * 事件：
+ * - topology_change (gatewayId) 网关子设备变更后触发
+ */
+export class GatewayService extends EventEmitter {
+  private static instance: GatewayService;
+  // 子设备ID -> 父网关ID
+  private parentCache: Map<string, { parentId: string | null; expiresAt: number }> = new Map();
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): GatewayService {
+    if (!GatewayService.instance) {
+      GatewayService.instance = new GatewayService();
+    }
+    return GatewayService.instance;
+  }
+
+  /**
+   * 获取网关设备，网关子设备不能作为网关
+   * @param gatewayId 网关ID
+   * @returns 网关设备，不存在或不是网关时返回null
+   */
+  public async getGateway(gatewayId: string) {
+    const gateway = await prisma.device.findUnique({
+      where: { id: gatewayId },
+      include: { deviceClass: true },
+    });
+
+    return gateway && gateway.deviceClass.type !== DeviceType.GATEWAY_CHILD ? gateway : null;
+  }
+
+  /**
+   * 获取网关的子设备
+   * @param gatewayId 网关ID
+   * @returns 子设备列表
+   */
+  public async getChildren(gatewayId: string): Promise<Device[]> {
+    return prisma.device.findMany({
+      where: { parentId: gatewayId },
+      include: { deviceClass: true },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * 注册新的子设备，网关下已有同名同类子设备时直接返回该设备
+   * @param gatewayId 网关ID
+   * @param registrations 子设备注册信息
+   * @returns 拓扑操作结果
+   */
+  public async registerChildren(
+    gatewayId: string,
+    registrations: ChildDeviceRegistration[]
+  ): Promise<TopologyResult> {
+    const result: TopologyResult = { devices: [], errors: [] };
+    const gateway = await this.getGateway(gatewayId);
+    if (!gateway) {
+      return { devices: [], errors: [{ device: gatewayId, message: '网关不存在' }] };
+    }
+
+    for (const registration of registrations) {
+      const deviceClass = await deviceService.getDeviceClassById(registration.deviceClassId);
+      if (!deviceClass || (deviceClass.organizationId !== gateway.organizationId && !deviceClass.isPublic)) {
+        result.errors.push({ device: registration.name, message: '设备类不存在' });
+        continue;
+      }
+      if (deviceClass.type !== DeviceType.GATEWAY_CHILD) {
+        result.errors.push({ device: registration.name, message: '设备类不是网关子设备类' });
+        continue;
+      }
+
+      const existing = await prisma.device.findFirst({
+        where: { parentId: gatewayId, name: registration.name, deviceClassId: deviceClass.id },
+      });
+      if (existing) {
+        result.devices.push(existing);
+        continue;
+      }
+
+      const device = await deviceService.createDevice({
+        name: registration.name,
+        alias: registration.alias,
+        config: (registration.config || {}) as Prisma.InputJsonObject,
+        deviceClass: { connect: { id: deviceClass.id } },
+        organization: { connect: { id: gateway.organizationId } },
+        parent: { connect: { id: gatewayId } },
+      });
+      result.devices.push(device);
+    }
+
+    this.handleTopologyChange(gatewayId, result);
+    return result;
+  }
+
+  /**
+   * 将已有设备挂载为网关子设备
+   * 子设备须为网关子设备类且与网关属于同一组织，已挂载到其他网关时须先移除
+   * @param gatewayId 网关ID
+   * @param deviceIds 子设备ID列表
+   * @returns 拓扑操作结果
+   */
+  public async addChildren(gatewayId: string, deviceIds: string[]): Promise<TopologyResult> {
+    const result: TopologyResult = { devices: [], errors: [] };
+    const gateway = await this.getGateway(gatewayId);
+    if (!gateway) {
+      return { devices: [], errors: [{ device: gatewayId, message: '网关不存在' }] };
+    }
+
+    for (const deviceId of deviceIds) {
+      const device = await prisma.device.findUnique({
+        where: { id: deviceId },
+        include: { deviceClass: true },
+      });
+
+      if (!device || device.organizationId !== gateway.organizationId) {
+        result.errors.push({ device: deviceId, message: '设备不存在' });
+      } else if (device.deviceClass.type !== DeviceType.GATEWAY_CHILD) {
+        result.errors.push({ device: deviceId, message: '设备不是网关子设备' });
+      } else if (device.parentId && device.parentId !== gatewayId) {
+        result.errors.push({ device: deviceId, message: '设备已挂载到其他网关' });
+      } else {
+        result.devices.push(
+          device.parentId === gatewayId
+            ? device
+            : await deviceService.updateDevice(deviceId, { parent: { connect: { id: gatewayId } } })
+        );
+      }
+    }
+
+    this.handleTopologyChange(gatewayId, result);
+    return result;
+  }
+
+  /**
+   * 校验设备能否挂载到父设备，规则与添加子设备一致：父设备须为同一组织的网关，设备须为网关子设备类
+   * @param parentId 父设备ID
+   * @param organizationId 设备所属组织ID
+   * @param deviceType 设备所属设备类的类型
+   * @returns 错误信息，校验通过时返回null
+   */
+  public async validateParent(parentId: string, organizationId: string, deviceType: DeviceType): Promise<string | null> {
+    const parent = await prisma.device.findUnique({
+      where: { id: parentId },
+      include: { deviceClass: true },
+    });
+
+    if (!parent || parent.organizationId !== organizationId) {
+      return '父设备不存在';
+    }
+    if (parent.deviceClass.type === DeviceType.GATEWAY_CHILD) {
+      return '父设备不是网关';
+    }
+    if (deviceType !== DeviceType.GATEWAY_CHILD) {
+      return '设备不是网关子设备，不能设置父设备';
+    }
+    return null;
+  }
+
+  /**
+   * 移除网关子设备，经该网关在线的子设备同时置为离线
+   * @param gatewayId 网关ID
+   * @param deviceIds 子设备ID列表
+   * @returns 拓扑操作结果
+   */
+  public async removeChildren(gatewayId: string, deviceIds: string[]): Promise<TopologyResult> {
+    const result: TopologyResult = { devices: [], errors: [] };
+
+    for (const deviceId of deviceIds) {
+      const device = await prisma.device.findUnique({ where: { id: deviceId } });
+      if (!device || device.parentId !== gatewayId) {
+        result.errors.push({ device: deviceId, message: '设备不是该网关的子设备' });
+        continue;
+      }
+
+      result.devices.push(await deviceService.updateDevice(deviceId, { parent: { disconnect: true } }));
+
+      const connection = deviceConnectionService.getDeviceConnection(deviceId);
+      if (connection?.status === DeviceConnectionStatus.ONLINE && connection.metadata?.gatewayId === gatewayId) {
+        await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.OFFLINE, connection.protocol, {
+          metadata: { ...connection.metadata, offlineReason: 'removed_from_gateway' },
+        });
+      }
+    }
+
+    this.handleTopologyChange(gatewayId, result);
+    return result;
+  }
+
+  /**
+   * 判断设备是否为网关的子设备
+   * @param deviceId 子设备ID
+   * @param gatewayId 网关ID
+   * @returns 是否为子设备
+   */
+  public async isChildOf(deviceId: string, gatewayId: string): Promise<boolean> {
+    const cached = this.parentCache.get(deviceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.parentId === gatewayId;
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      select: { parentId: true },
+    });
+
+    const parentId = device?.parentId || null;
+    this.parentCache.set(deviceId, { parentId, expiresAt: Date.now() + PARENT_CACHE_TTL });
+    return parentId === gatewayId;
+  }
+
+  /**
+   * 清除子设备归属缓存，设备父网关变更后调用
+   */
+  public invalidateCache(): void {
+    this.parentCache.clear();
+  }
+
+  /**
+   * 获取设备拓扑树
+   * 未指定根设备时以带有子设备的顶层设备（网关）为根
+   * @param organizationIds 可访问的组织ID，null表示不限制
+   * @param rootId 根设备ID
+   * @returns 拓扑树
+   */
+  public async getTopology(organizationIds: string[] | null, rootId?: string): Promise<TopologyNode[]> {
+    const devices = await prisma.device.findMany({
+      where: organizationIds === null ? {} : { organizationId: { in: organizationIds } },
+      select: {
+        id: true,
+        name: true,
+        alias: true,
+        status: true,
+        organizationId: true,
+        parentId: true,
+        lastConnected: true,
+        deviceClass: {
+          select: { id: true, name: true, type: true, protocol: true },
+        },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    type TopologyDevice = (typeof devices)[number];
+    const deviceMap = new Map<string, TopologyDevice>(devices.map(device => [device.id, device]));
+    const childrenMap = new Map<string, TopologyDevice[]>();
+    for (const device of devices) {
+      if (device.parentId && deviceMap.has(device.parentId)) {
+        const siblings = childrenMap.get(device.parentId) || [];
+        siblings.push(device);
+        childrenMap.set(device.parentId, siblings);
+      }
+    }
+
+    // 按已访问节点构建，避免错误数据形成环时无限递归
+    const visited = new Set<string>();
+    const buildNode = (device: TopologyDevice): TopologyNode => {
+      visited.add(device.id);
+      const { parentId, ...node } = device;
+      return {
+        ...node,
+        connectionStatus: deviceConnectionService.getDeviceConnection(device.id)?.status || null,
+        children: (childrenMap.get(device.id) || [])
+          .filter(child => !visited.has(child.id))
+          .map(buildNode),
+      };
+    };
+
+    if (rootId) {
+      const root = deviceMap.get(rootId);
+      return root ? [buildNode(root)] : [];
+    }
+
+    return devices
+      .filter(device => (!device.parentId || !deviceMap.has(device.parentId)) && childrenMap.has(device.id))
+      .map(buildNode);
+  }
+
+  /**
+   * 网关离线时将其在线的子设备级联置为离线
+   * @param gatewayId 网关ID
+   */
+  private async cascadeOffline(gatewayId: string): Promise<void> {
+    const children = await prisma.device.findMany({
+      where: { parentId: gatewayId },
+      select: { id: true, status: true },
+    });
+
+    for (const child of children) {
+      const connection = deviceConnectionService.getDeviceConnection(child.id);
+      const online = connection
+        ? connection.status !== DeviceConnectionStatus.OFFLINE
+        : child.status === DeviceStatus.ONLINE;
+      if (!online) continue;
+
+      try {
+        await deviceConnectionService.setDeviceStatus(
+          child.id,
+          DeviceConnectionStatus.OFFLINE,
+          connection?.protocol || DeviceProtocol.MQTT,
+          {
+            metadata: { ...connection?.metadata, gatewayId, offlineReason: 'gateway_offline' },
+          }
+        );
+      } catch (error) {
+        console.error(`网关 ${gatewayId} 离线后设置子设备 ${child.id} 离线失败:`, error);
+      }
+    }
+  }
+
+  /**
+   * 处理网关拓扑管理请求并应答
+   * @param gatewayId 网关ID
+   * @param action 操作：register/add/remove/get
+   * @param payload 负载
+   */
+  private async handleTopologyRequest(gatewayId: string, action: string, payload: Buffer): Promise<void> {
+    const body = this.parseJson(payload) || {};
+    const requestId = body.requestId;
+    const devices: any[] = Array.isArray(body.devices) ? body.devices : [];
+
+    let result: TopologyResult;
+    switch (action) {
+      case 'register':
+        result = await this.registerChildren(
+          gatewayId,
+          devices.filter(item => item && typeof item.name === 'string' && typeof item.deviceClassId === 'string')
+        );
+        break;
+      case 'add':
+        result = await this.addChildren(gatewayId, devices.filter(item => typeof item === 'string'));
+        break;
+      case 'remove':
+        result = await this.removeChildren(gatewayId, devices.filter(item => typeof item === 'string'));
+        break;
+      case 'get':
+        result = (await this.getGateway(gatewayId))
+          ? { devices: await this.getChildren(gatewayId), errors: [] }
+          : { devices: [], errors: [{ device: gatewayId, message: '网关不存在' }] };
+        break;
+      default:
+        return;
+    }
+
+    await mqttClient.publish(
+      `gateways/${gatewayId}/topo/${action}/reply`,
+      JSON.stringify({
+        requestId,
+        success: result.errors.length === 0,
+        data: result.devices.map(device => ({ id: device.id, name: device.name, deviceClassId: device.deviceClassId })),
+        errors: result.errors,
+      }),
+      { qos: 1 }
+    );
+  }
+
+  /**
+   * 处理网关代理的子设备消息，转换为子设备主题后交由物模型服务和命令下发服务处理
+   * @param gatewayId 网关ID
+   * @param deviceId 子设备ID
+   * @param path 子设备主题路径
+   * @param payload 负载
+   */
+  private async handleChildMessage(gatewayId: string, deviceId: string, path: string, payload: Buffer): Promise<void> {
+    // 平台下发给子设备的命令主题同样匹配订阅，忽略
+    if (path !== 'status' && !/^(thing\/|command\/reply$)/.test(path)) {
+      return;
+    }
+
+    if (!(await this.isChildOf(deviceId, gatewayId))) {
+      console.warn(`网关 ${gatewayId} 代理了不属于自己的子设备 ${deviceId}`);
+      return;
+    }
+
+    await deviceConnectionService.updateDeviceActivity(gatewayId);
+
+    if (path === 'status') {
+      const status = payload.toString();
+      if (status === 'online' || status === 'offline') {
+        await deviceConnectionService.setDeviceStatus(
+          deviceId,
+          status === 'online' ? DeviceConnectionStatus.ONLINE : DeviceConnectionStatus.OFFLINE,
+          DeviceProtocol.MQTT,
+          { metadata: { gatewayId } }
+        );
+      }
+      return;
+    }
+
+    // 未上报上线的子设备在首次发送消息时视为上线
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+    if (connection?.status !== DeviceConnectionStatus.ONLINE) {
+      await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.ONLINE, DeviceProtocol.MQTT, {
+        metadata: { gatewayId },
+      });
+    } else {
+      await deviceConnectionService.updateDeviceActivity(deviceId);
+    }
+
+    const deviceTopic = `devices/${deviceId}/${path}`;
+    if (!thingModelService.handleMqttMessage(deviceTopic, payload)) {
+      deviceCommandDispatcher.handleMqttMessage(deviceTopic, payload);
+    }
+  }
+
+  /**
+   * 拓扑变更后清除缓存、触发事件并推送给订阅网关的客户端
+   * @param gatewayId 网关ID
+   * @param result 拓扑操作结果
+   */
+  private handleTopologyChange(gatewayId: string, result: TopologyResult): void {
+    if (result.devices.length === 0) {
+      return;
+    }
+
+    this.invalidateCache();
+    this.emit('topology_change', gatewayId);
+    websocketService.broadcastToRoom(`device:${gatewayId}`, 'topologyChange', {
+      gatewayId,
+      timestamp: new Date(),
+    });
+  }
+
+  /**
+   * 设置事件监听器：网关MQTT消息和网关离线
+   */
+  private setupEventListeners(): void {
+    mqttClient.on('connect', () => {
+      this.setupMqttSubscriptions();
+    });
+
+    mqttClient.on('message', (topic: string, payload: Buffer) => {
+      const topologyMatch = topic.match(/^gateways\/([^\/]+)\/topo\/([^\/]+)$/);
+      if (topologyMatch) {
+        this.handleTopologyRequest(topologyMatch[1], topologyMatch[2], payload).catch(error => {
+          console.error(`处理网关 ${topologyMatch[1]} 拓扑请求失败:`, error);
+        });
+        return;
+      }
+
+      const childMatch = topic.match(/^gateways\/([^\/]+)\/sub\/([^\/]+)\/(.+)$/);
+      if (childMatch) {
+        this.handleChildMessage(childMatch[1], childMatch[2], childMatch[3], payload).catch(error => {
+          console.error(`处理网关 ${childMatch[1]} 子设备 ${childMatch[2]} 消息失败:`, error);
+        });
+      }
+    });
+
+    deviceConnectionService.on('device_offline', (deviceId: string) => {
+      this.cascadeOffline(deviceId).catch(error => {
+        console.error(`网关 ${deviceId} 子设备级联离线失败:`, error);
+      });
+    });
+  }
+
+  /**
+   * 设置MQTT订阅
+   */
+  private async setupMqttSubscriptions(): Promise<void> {
+    if (!mqttClient.isClientConnected()) {
+      return;
+    }
+
+    try {
+      await mqttClient.subscribe('gateways/+/topo/+', { qos: 1 });
+      await mqttClient.subscribe('gateways/+/sub/#', { qos: 1 });
+    } catch (error) {
+      console.error(`Error setting up gateway MQTT subscriptions: ${error}`);
+    }
+  }
+
+  /**
+   * 解析JSON负载
+   * @param payload 负载
+   * @returns JSON对象，解析失败返回null
+   */
+  private parseJson(payload: Buffer): Record<string, any> | null {
+    try {
+      const value = JSON.parse(payload.toString('utf8'));
+      return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// 导出单例实例
+export const gatewayService = GatewayService.getInstance();
+
+export default gatewayService;
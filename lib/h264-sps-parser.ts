@@ -0,0 +1,228 @@
+/**
+ * H.264 SPS解析工具 - 从序列参数集中读取分辨率和帧率
+ *
+ * 该模块实现了以下功能：
+ * 1. 去除防竞争字节（emulation prevention bytes）
+ * 2. 指数哥伦布编码读取
+ * 3. 解析档次、级别、分辨率（含裁剪）及VUI中的帧率
+ */
+
+/**
+ * SPS解析结果
+ */
+export interface H264SpsInfo {
+  // 档次
+  profile: number;
+  // 级别
+  level: number;
+  // 宽度（像素）
+  width: number;
+  // 高度（像素）
+  height: number;
+  // 帧率（VUI中未携带时为空）
+  frameRate?: number;
+}
+
+// 带色度格式等扩展字段的档次
+const HIGH_PROFILES = [100, 110, 122, 244, 44, 83, 86, 118, 128, 138, 139, 134, 135];
+
+/**
+ * 按位读取器
+ */
+class BitReader {
+  private position: number = 0;
+
+  constructor(private readonly data: Buffer) {}
+
+  public readBit(): number {
+    if (this.position >= this.data.length * 8) {
+      throw new Error('SPS data exhausted');
+    }
+    const bit = (this.data[this.position >> 3] >> (7 - (this.position & 7))) & 1;
+    this.position++;
+    return bit;
+  }
+
+  public readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      value = value * 2 + this.readBit();
+    }
+    return value;
+  }
+
+  public readUE(): number {
+    let leadingZeros = 0;
+    while (this.readBit() === 0) {
+      leadingZeros++;
+      if (leadingZeros > 31) {
+        throw new Error('Invalid Exp-Golomb code');
+      }
+    }
+    return Math.pow(2, leadingZeros) - 1 + this.readBits(leadingZeros);
+  }
+
+  public readSE(): number {
+    const value = this.readUE();
+    return value % 2 === 0 ? -(value / 2) : (value + 1) / 2;
+  }
+}
+
+/**
+ * 去除防竞争字节（00 00 03 -> 00 00）
+ * @param data NAL单元数据
+ * @returns RBSP数据
+ */
+function toRbsp(data: Buffer): Buffer {
+  const bytes: number[] = [];
+  let zeros = 0;
+
+  for (const byte of data) {
+    if (zeros >= 2 && byte === 3) {
+      zeros = 0;
+      continue;
+    }
+    bytes.push(byte);
+    zeros = byte === 0 ? zeros + 1 : 0;
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * 跳过缩放矩阵
+ * @param reader 位读取器
+ * @param size 矩阵大小
+ */
+function skipScalingList(reader: BitReader, size: number): void {
+  let lastScale = 8;
+  let nextScale = 8;
+  for (let i = 0; i < size; i++) {
+    if (nextScale !== 0) {
+      nextScale = (lastScale + reader.readSE() + 256) % 256;
+    }
+    lastScale = nextScale === 0 ? lastScale : nextScale;
+  }
+}
+
+/**
+ * 解析H.264 SPS
+ * @param sps SPS NAL单元（含NAL头，不含起始码）
+ * @returns 解析结果，数据无效时返回null
+ */
+export function parseH264Sps(sps: Buffer): H264SpsInfo | null {
+  if (sps.length < 4 || (sps[0] & 0x1f) !== 7) {
+    return null;
+  }
+
+  try {
+    const reader = new BitReader(toRbsp(sps.subarray(1)));
+
+    const profile = reader.readBits(8);
+    reader.readBits(8); // constraint flags
+    const level = reader.readBits(8);
+    reader.readUE(); // seq_parameter_set_id
+
+    let chromaFormat = 1;
+    if (HIGH_PROFILES.includes(profile)) {
+      chromaFormat = reader.readUE();
+      if (chromaFormat === 3) {
+        reader.readBit(); // separate_colour_plane_flag
+      }
+      reader.readUE(); // bit_depth_luma_minus8
+      reader.readUE(); // bit_depth_chroma_minus8
+      reader.readBit(); // qpprime_y_zero_transform_bypass_flag
+      if (reader.readBit()) {
+        const count = chromaFormat !== 3 ? 8 : 12;
+        for (let i = 0; i < count; i++) {
+          if (reader.readBit()) {
+            skipScalingList(reader, i < 6 ? 16 : 64);
+          }
+        }
+      }
+    }
+
+    reader.readUE(); // log2_max_frame_num_minus4
+    const pocType = reader.readUE();
+    if (pocType === 0) {
+      reader.readUE(); // log2_max_pic_order_cnt_lsb_minus4
+    } else if (pocType === 1) {
+      reader.readBit(); // delta_pic_order_always_zero_flag
+      reader.readSE(); // offset_for_non_ref_pic
+      reader.readSE(); // offset_for_top_to_bottom_field
+      const cycle = reader.readUE();
+      for (let i = 0; i < cycle; i++) {
+        reader.readSE();
+      }
+    }
+
+    reader.readUE(); // max_num_ref_frames
+    reader.readBit(); // gaps_in_frame_num_value_allowed_flag
+    const widthInMbs = reader.readUE() + 1;
+    const heightInMapUnits = reader.readUE() + 1;
+    const frameMbsOnly = reader.readBit();
+    if (!frameMbsOnly) {
+      reader.readBit(); // mb_adaptive_frame_field_flag
+    }
+    reader.readBit(); // direct_8x8_inference_flag
+
+    let cropLeft = 0;
+    let cropRight = 0;
+    let cropTop = 0;
+    let cropBottom = 0;
+    if (reader.readBit()) {
+      cropLeft = reader.readUE();
+      cropRight = reader.readUE();
+      cropTop = reader.readUE();
+      cropBottom = reader.readUE();
+    }
+
+    const cropUnitX = chromaFormat === 1 || chromaFormat === 2 ? 2 : 1;
+    const cropUnitY = (chromaFormat === 1 ? 2 : 1) * (2 - frameMbsOnly);
+
+    const info: H264SpsInfo = {
+      profile,
+      level,
+      width: widthInMbs * 16 - cropUnitX * (cropLeft + cropRight),
+      height: (2 - frameMbsOnly) * heightInMapUnits * 16 - cropUnitY * (cropTop + cropBottom),
+    };
+
+    // VUI中的时间信息
+    try {
+      if (reader.readBit()) {
+        if (reader.readBit()) {
+          if (reader.readBits(8) === 255) {
+            reader.readBits(16); // sar_width
+            reader.readBits(16); // sar_height
+          }
+        }
+        if (reader.readBit()) {
+          reader.readBit(); // overscan_appropriate_flag
+        }
+        if (reader.readBit()) {
+          reader.readBits(4); // video_format + video_full_range_flag
+          if (reader.readBit()) {
+            reader.readBits(24); // colour primaries / transfer / matrix
+          }
+        }
+        if (reader.readBit()) {
+          reader.readUE();
+          reader.readUE();
+        }
+        if (reader.readBit()) {
+          const unitsInTick = reader.readBits(32);
+          const timeScale = reader.readBits(32);
+          if (unitsInTick > 0) {
+            info.frameRate = Math.round((timeScale / (2 * unitsInTick)) * 100) / 100;
+          }
+        }
+      }
+    } catch (error) {
+      // VUI不完整时仅返回分辨率
+    }
+
+    return info;
+  } catch (error) {
+    return null;
+  }
+}
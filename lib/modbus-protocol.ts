@@ -0,0 +1,517 @@
+/**
+ * Modbus协议工具 - Modbus TCP和RTU帧的编码与解析
+ *
+ * 该模块实现了以下功能：
+ * 1. 构造读线圈/离散输入/保持寄存器/输入寄存器、写单个/多个线圈和寄存器的请求PDU
+ * 2. Modbus TCP帧（MBAP报文头）和RTU帧（CRC16校验）的封装，以及从字节流中切分响应帧
+ * 3. 解析响应PDU，异常响应转换为ModbusError
+ * 4. 按数据类型和字节序在寄存器数据与数值之间转换
+ *
+ * 字节序以32位值的4个字节ABCD（大端）表示寄存器内和寄存器间的排列：
+ * ABCD 大端、DCBA 小端、BADC 寄存器内字节交换、CDAB 寄存器交换（64位值按同样规则扩展）
+ */
+
+/**
+ * 功能码
+ */
+export enum ModbusFunctionCode {
+  READ_COILS = 0x01,
+  READ_DISCRETE_INPUTS = 0x02,
+  READ_HOLDING_REGISTERS = 0x03,
+  READ_INPUT_REGISTERS = 0x04,
+  WRITE_SINGLE_COIL = 0x05,
+  WRITE_SINGLE_REGISTER = 0x06,
+  WRITE_MULTIPLE_COILS = 0x0f,
+  WRITE_MULTIPLE_REGISTERS = 0x10,
+}
+
+/**
+ * 寄存器数据类型
+ */
+export type ModbusDataType = 'bool' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'int64' | 'uint64' | 'float64';
+
+/**
+ * 寄存器字节序
+ */
+export type ModbusByteOrder = 'ABCD' | 'CDAB' | 'BADC' | 'DCBA';
+
+/**
+ * Modbus帧
+ */
+export interface ModbusFrame {
+  // 事务标识（仅Modbus TCP）
+  transactionId?: number;
+  // 单元标识
+  unitId: number;
+  // 协议数据单元（功能码 + 数据）
+  pdu: Buffer;
+}
+
+// 单次请求的数量上限
+export const MAX_READ_REGISTERS = 125;
+export const MAX_READ_BITS = 2000;
+export const MAX_WRITE_REGISTERS = 123;
+export const MAX_WRITE_BITS = 1968;
+
+// MBAP报文头长度
+const MBAP_HEADER_LENGTH = 7;
+// PDU最大长度
+const MAX_PDU_LENGTH = 253;
+
+// 异常码说明
+const EXCEPTION_MESSAGES: Record<number, string> = {
+  0x01: '非法功能码',
+  0x02: '非法数据地址',
+  0x03: '非法数据值',
+  0x04: '从站设备故障',
+  0x05: '请求已确认，正在处理',
+  0x06: '从站设备忙',
+  0x08: '存储奇偶性差错',
+  0x0a: '网关路径不可用',
+  0x0b: '网关目标设备无响应',
+};
+
+/**
+ * Modbus错误，异常响应时包含异常码
+ */
+export class ModbusError extends Error {
+  constructor(message: string, public readonly exceptionCode?: number) {
+    super(message);
+    this.name = 'ModbusError';
+  }
+}
+
+/**
+ * 获取数据类型占用的寄存器数（bool在线圈/离散输入中占1位，在寄存器中占1个寄存器）
+ * @param dataType 数据类型
+ */
+export function registerCount(dataType: ModbusDataType): number {
+  switch (dataType) {
+    case 'int32':
+    case 'uint32':
+    case 'float32':
+      return 2;
+    case 'int64':
+    case 'uint64':
+    case 'float64':
+      return 4;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * 判断功能码是否读取位数据（线圈/离散输入）
+ * @param functionCode 功能码
+ */
+export function isBitFunction(functionCode: ModbusFunctionCode): boolean {
+  return functionCode === ModbusFunctionCode.READ_COILS || functionCode === ModbusFunctionCode.READ_DISCRETE_INPUTS;
+}
+
+/**
+ * 构造读请求PDU（功能码1~4）
+ * @param functionCode 功能码
+ * @param address 起始地址
+ * @param quantity 数量
+ */
+export function buildReadRequest(functionCode: ModbusFunctionCode, address: number, quantity: number): Buffer {
+  const max = isBitFunction(functionCode) ? MAX_READ_BITS : MAX_READ_REGISTERS;
+  if (quantity < 1 || quantity > max) {
+    throw new ModbusError(`读取数量 ${quantity} 超出范围 1~${max}`);
+  }
+  checkAddress(address, quantity);
+
+  const pdu = Buffer.alloc(5);
+  pdu.writeUInt8(functionCode, 0);
+  pdu.writeUInt16BE(address, 1);
+  pdu.writeUInt16BE(quantity, 3);
+  return pdu;
+}
+
+/**
+ * 构造写单个线圈请求PDU（功能码5）
+ * @param address 线圈地址
+ * @param value 线圈状态
+ */
+export function buildWriteSingleCoil(address: number, value: boolean): Buffer {
+  checkAddress(address, 1);
+
+  const pdu = Buffer.alloc(5);
+  pdu.writeUInt8(ModbusFunctionCode.WRITE_SINGLE_COIL, 0);
+  pdu.writeUInt16BE(address, 1);
+  pdu.writeUInt16BE(value ? 0xff00 : 0x0000, 3);
+  return pdu;
+}
+
+/**
+ * 构造写单个寄存器请求PDU（功能码6）
+ * @param address 寄存器地址
+ * @param data 寄存器数据（2字节）
+ */
+export function buildWriteSingleRegister(address: number, data: Buffer): Buffer {
+  checkAddress(address, 1);
+  if (data.length !== 2) {
+    throw new ModbusError('写单个寄存器的数据须为2字节');
+  }
+
+  const pdu = Buffer.alloc(5);
+  pdu.writeUInt8(ModbusFunctionCode.WRITE_SINGLE_REGISTER, 0);
+  pdu.writeUInt16BE(address, 1);
+  data.copy(pdu, 3);
+  return pdu;
+}
+
+/**
+ * 构造写多个线圈请求PDU（功能码15）
+ * @param address 起始地址
+ * @param values 线圈状态列表
+ */
+export function buildWriteMultipleCoils(address: number, values: boolean[]): Buffer {
+  if (values.length < 1 || values.length > MAX_WRITE_BITS) {
+    throw new ModbusError(`写入线圈数量 ${values.length} 超出范围 1~${MAX_WRITE_BITS}`);
+  }
+  checkAddress(address, values.length);
+
+  const byteCount = Math.ceil(values.length / 8);
+  const pdu = Buffer.alloc(6 + byteCount);
+  pdu.writeUInt8(ModbusFunctionCode.WRITE_MULTIPLE_COILS, 0);
+  pdu.writeUInt16BE(address, 1);
+  pdu.writeUInt16BE(values.length, 3);
+  pdu.writeUInt8(byteCount, 5);
+  values.forEach((value, index) => {
+    if (value) {
+      pdu[6 + (index >> 3)] |= 1 << (index & 7);
+    }
+  });
+  return pdu;
+}
+
+/**
+ * 构造写多个寄存器请求PDU（功能码16）
+ * @param address 起始地址
+ * @param data 寄存器数据（偶数字节）
+ */
+export function buildWriteMultipleRegisters(address: number, data: Buffer): Buffer {
+  const quantity = data.length / 2;
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_WRITE_REGISTERS) {
+    throw new ModbusError(`写入寄存器数量 ${quantity} 超出范围 1~${MAX_WRITE_REGISTERS}`);
+  }
+  checkAddress(address, quantity);
+
+  const pdu = Buffer.alloc(6 + data.length);
+  pdu.writeUInt8(ModbusFunctionCode.WRITE_MULTIPLE_REGISTERS, 0);
+  pdu.writeUInt16BE(address, 1);
+  pdu.writeUInt16BE(quantity, 3);
+  pdu.writeUInt8(data.length, 5);
+  data.copy(pdu, 6);
+  return pdu;
+}
+
+/**
+ * 计算Modbus CRC16校验值
+ * @param data 数据
+ */
+export function crc16(data: Buffer): number {
+  let crc = 0xffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+/**
+ * 封装Modbus TCP帧
+ * @param transactionId 事务标识
+ * @param unitId 单元标识
+ * @param pdu 协议数据单元
+ */
+export function encodeTcpFrame(transactionId: number, unitId: number, pdu: Buffer): Buffer {
+  const header = Buffer.alloc(MBAP_HEADER_LENGTH);
+  header.writeUInt16BE(transactionId & 0xffff, 0);
+  header.writeUInt16BE(0, 2);
+  header.writeUInt16BE(pdu.length + 1, 4);
+  header.writeUInt8(unitId, 6);
+  return Buffer.concat([header, pdu]);
+}
+
+/**
+ * 封装RTU帧（CRC低字节在前）
+ * @param unitId 从站地址
+ * @param pdu 协议数据单元
+ */
+export function encodeRtuFrame(unitId: number, pdu: Buffer): Buffer {
+  const frame = Buffer.alloc(pdu.length + 3);
+  frame.writeUInt8(unitId, 0);
+  pdu.copy(frame, 1);
+  frame.writeUInt16LE(crc16(frame.subarray(0, pdu.length + 1)), pdu.length + 1);
+  return frame;
+}
+
+/**
+ * 从字节流中读取一个Modbus TCP帧
+ * @param buffer 已接收的数据
+ * @returns 帧和帧长度，数据不足时返回null
+ * @throws ModbusError 报文头无效
+ */
+export function readTcpFrame(buffer: Buffer): { frame: ModbusFrame; length: number } | null {
+  if (buffer.length < MBAP_HEADER_LENGTH) {
+    return null;
+  }
+
+  const protocolId = buffer.readUInt16BE(2);
+  const length = buffer.readUInt16BE(4);
+  if (protocolId !== 0 || length < 2 || length > MAX_PDU_LENGTH + 1) {
+    throw new ModbusError('Modbus TCP报文头无效');
+  }
+
+  const total = MBAP_HEADER_LENGTH - 1 + length;
+  if (buffer.length < total) {
+    return null;
+  }
+
+  return {
+    frame: {
+      transactionId: buffer.readUInt16BE(0),
+      unitId: buffer.readUInt8(6),
+      pdu: Buffer.from(buffer.subarray(MBAP_HEADER_LENGTH, total)),
+    },
+    length: total,
+  };
+}
+
+/**
+ * 从字节流中读取一个RTU响应帧（RTU帧没有长度字段，按功能码推算响应长度）
+ * @param buffer 已接收的数据
+ * @returns 帧和帧长度，数据不足时返回null
+ * @throws ModbusError CRC校验失败或功能码不支持
+ */
+export function readRtuResponseFrame(buffer: Buffer): { frame: ModbusFrame; length: number } | null {
+  if (buffer.length < 3) {
+    return null;
+  }
+
+  const functionCode = buffer.readUInt8(1);
+  let total: number;
+  if (functionCode & 0x80) {
+    total = 5;
+  } else if (functionCode >= ModbusFunctionCode.READ_COILS && functionCode <= ModbusFunctionCode.READ_INPUT_REGISTERS) {
+    total = 5 + buffer.readUInt8(2);
+  } else if (
+    functionCode === ModbusFunctionCode.WRITE_SINGLE_COIL ||
+    functionCode === ModbusFunctionCode.WRITE_SINGLE_REGISTER ||
+    functionCode === ModbusFunctionCode.WRITE_MULTIPLE_COILS ||
+    functionCode === ModbusFunctionCode.WRITE_MULTIPLE_REGISTERS
+  ) {
+    total = 8;
+  } else {
+    throw new ModbusError(`不支持的功能码 ${functionCode}`);
+  }
+
+  if (buffer.length < total) {
+    return null;
+  }
+
+  if (crc16(buffer.subarray(0, total - 2)) !== buffer.readUInt16LE(total - 2)) {
+    throw new ModbusError('RTU帧CRC校验失败');
+  }
+
+  return {
+    frame: {
+      unitId: buffer.readUInt8(0),
+      pdu: Buffer.from(buffer.subarray(1, total - 2)),
+    },
+    length: total,
+  };
+}
+
+/**
+ * 解析读响应PDU
+ * @param pdu 响应PDU
+ * @param functionCode 请求功能码
+ * @param quantity 请求数量
+ * @returns 数据字节（寄存器为大端字节，位数据为打包的字节）
+ * @throws ModbusError 异常响应或响应格式错误
+ */
+export function parseReadResponse(pdu: Buffer, functionCode: ModbusFunctionCode, quantity: number): Buffer {
+  checkResponse(pdu, functionCode);
+
+  const expected = isBitFunction(functionCode) ? Math.ceil(quantity / 8) : quantity * 2;
+  if (pdu.length < 2 || pdu.readUInt8(1) !== expected || pdu.length !== expected + 2) {
+    throw new ModbusError(`响应数据长度错误，应为${expected}字节`);
+  }
+
+  return pdu.subarray(2);
+}
+
+/**
+ * 解析写响应PDU
+ * @param pdu 响应PDU
+ * @param request 请求PDU
+ * @throws ModbusError 异常响应或响应与请求不一致
+ */
+export function parseWriteResponse(pdu: Buffer, request: Buffer): void {
+  const functionCode = request.readUInt8(0);
+  checkResponse(pdu, functionCode);
+
+  // 写响应回显地址和数量（或写入值）
+  if (pdu.length !== 5 || !pdu.subarray(1, 5).equals(request.subarray(1, 5))) {
+    throw new ModbusError('写响应与请求不一致');
+  }
+}
+
+/**
+ * 展开位数据
+ * @param data 打包的字节（低位在前）
+ * @param quantity 位数
+ */
+export function unpackBits(data: Buffer, quantity: number): boolean[] {
+  const bits: boolean[] = [];
+  for (let i = 0; i < quantity; i++) {
+    bits.push((data[i >> 3] & (1 << (i & 7))) !== 0);
+  }
+  return bits;
+}
+
+/**
+ * 将寄存器数据转换为数值
+ * @param data 寄存器数据（registerCount(dataType) * 2 字节，按设备字节序）
+ * @param dataType 数据类型
+ * @param byteOrder 字节序
+ */
+export function decodeRegisterValue(data: Buffer, dataType: ModbusDataType, byteOrder: ModbusByteOrder): number | boolean {
+  const bytes = reorder(data, byteOrder);
+
+  switch (dataType) {
+    case 'bool':
+      return bytes.readUInt16BE(0) !== 0;
+    case 'int16':
+      return bytes.readInt16BE(0);
+    case 'uint16':
+      return bytes.readUInt16BE(0);
+    case 'int32':
+      return bytes.readInt32BE(0);
+    case 'uint32':
+      return bytes.readUInt32BE(0);
+    case 'float32':
+      return bytes.readFloatBE(0);
+    case 'int64':
+      return Number(bytes.readBigInt64BE(0));
+    case 'uint64':
+      return Number(bytes.readBigUInt64BE(0));
+    case 'float64':
+      return bytes.readDoubleBE(0);
+  }
+}
+
+/**
+ * 将数值转换为寄存器数据
+ * @param value 数值（整数类型须已取整）
+ * @param dataType 数据类型
+ * @param byteOrder 字节序
+ * @returns 寄存器数据（按设备字节序）
+ * @throws ModbusError 数值超出数据类型范围
+ */
+export function encodeRegisterValue(value: number | boolean, dataType: ModbusDataType, byteOrder: ModbusByteOrder): Buffer {
+  const bytes = Buffer.alloc(registerCount(dataType) * 2);
+  const numeric = typeof value === 'boolean' ? Number(value) : value;
+
+  try {
+    switch (dataType) {
+      case 'bool':
+        bytes.writeUInt16BE(numeric ? 1 : 0, 0);
+        break;
+      case 'int16':
+        bytes.writeInt16BE(numeric, 0);
+        break;
+      case 'uint16':
+        bytes.writeUInt16BE(numeric, 0);
+        break;
+      case 'int32':
+        bytes.writeInt32BE(numeric, 0);
+        break;
+      case 'uint32':
+        bytes.writeUInt32BE(numeric, 0);
+        break;
+      case 'float32':
+        bytes.writeFloatBE(numeric, 0);
+        break;
+      case 'int64':
+        bytes.writeBigInt64BE(BigInt(numeric), 0);
+        break;
+      case 'uint64':
+        bytes.writeBigUInt64BE(BigInt(numeric), 0);
+        break;
+      case 'float64':
+        bytes.writeDoubleBE(numeric, 0);
+        break;
+    }
+  } catch {
+    throw new ModbusError(`数值 ${value} 超出${dataType}类型范围`);
+  }
+
+  return reorder(bytes, byteOrder);
+}
+
+/**
+ * 获取异常码说明
+ * @param exceptionCode 异常码
+ */
+export function describeException(exceptionCode: number): string {
+  return EXCEPTION_MESSAGES[exceptionCode] || `异常码 ${exceptionCode}`;
+}
+
+/**
+ * 校验地址范围
+ * @param address 起始地址
+ * @param quantity 数量
+ */
+function checkAddress(address: number, quantity: number): void {
+  if (!Number.isInteger(address) || address < 0 || address + quantity > 0x10000) {
+    throw new ModbusError(`地址 ${address} 超出范围`);
+  }
+}
+
+/**
+ * 检查响应功能码，异常响应抛出ModbusError
+ * @param pdu 响应PDU
+ * @param functionCode 请求功能码
+ */
+function checkResponse(pdu: Buffer, functionCode: number): void {
+  if (pdu.length < 1) {
+    throw new ModbusError('响应为空');
+  }
+
+  const responseCode = pdu.readUInt8(0);
+  if (responseCode === (functionCode | 0x80)) {
+    const exceptionCode = pdu.length > 1 ? pdu.readUInt8(1) : 0;
+    throw new ModbusError(`从站返回异常: ${describeException(exceptionCode)}`, exceptionCode);
+  }
+  if (responseCode !== functionCode) {
+    throw new ModbusError(`响应功能码 ${responseCode} 与请求功能码 ${functionCode} 不一致`);
+  }
+}
+
+/**
+ * 在设备字节序与大端字节序之间转换（各字节序变换均为自身的逆变换）
+ * @param data 数据（偶数字节）
+ * @param byteOrder 字节序
+ */
+function reorder(data: Buffer, byteOrder: ModbusByteOrder): Buffer {
+  const result = Buffer.from(data);
+  const swapWords = byteOrder === 'CDAB' || byteOrder === 'DCBA';
+  const swapBytes = byteOrder === 'BADC' || byteOrder === 'DCBA';
+
+  if (swapWords) {
+    const words = data.length / 2;
+    for (let i = 0; i < words; i++) {
+      data.copy(result, i * 2, (words - 1 - i) * 2, (words - i) * 2);
+    }
+  }
+  if (swapBytes) {
+    result.swap16();
+  }
+  return result;
+}
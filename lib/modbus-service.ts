@@ -0,0 +1,1021 @@
+/**
+ * Modbus主站服务 - 以Modbus TCP或RTU over TCP轮询现场设备
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备类配置寄存器映射：物模型属性对应的功能码、地址、数据类型、缩放系数、偏移量和字节序
+ * 2. 按设备配置轮询计划：从站地址、单元标识、传输模式、轮询周期和响应超时
+ * 3. 经TcpService建立到从站（或串口服务器）的长连接，同一连接上的多个从站依次请求
+ * 4. 连续地址的寄存器合并为一次读取，轮询结果以属性上报进入物模型校验和遥测流程
+ * 5. property.set命令按寄存器映射写单个/多个寄存器或线圈，执行结果作为命令应答
+ * 6. 轮询成功时设备置为在线，通信失败时置为ERROR并记录错误
+ *
+ * 寄存器映射中 functionCode 为读取所用功能码：1 线圈、2 离散输入、3 保持寄存器、4 输入寄存器
+ * 属性值 = 寄存器原始值 × scale + offset，写入时反向换算；仅线圈和保持寄存器可配置为可写
+ */
+
+import * as net from 'net';
+import { z } from 'zod';
+import { ModbusPollSchedule, ModbusRegisterMap, ModbusTransportMode, Prisma, ProtocolType } from '@prisma/client';
+import prisma from './db-prisma';
+import { tcpService } from './tcp-udp-service';
+import {
+  MAX_READ_BITS,
+  MAX_READ_REGISTERS,
+  ModbusByteOrder,
+  ModbusDataType,
+  ModbusError,
+  ModbusFunctionCode,
+  buildReadRequest,
+  buildWriteSingleCoil,
+  buildWriteSingleRegister,
+  buildWriteMultipleRegisters,
+  decodeRegisterValue,
+  encodeRegisterValue,
+  encodeRtuFrame,
+  encodeTcpFrame,
+  isBitFunction,
+  parseReadResponse,
+  parseWriteResponse,
+  readRtuResponseFrame,
+  readTcpFrame,
+  registerCount,
+  unpackBits,
+} from './modbus-protocol';
+import { thingModelService, ThingMethod } from './thing-model-service';
+import { deviceCommandDispatcher, CommandReply } from './device-command-dispatcher';
+import { deviceConnectionService, DeviceConnectionStatus, DeviceProtocol } from './device-connection-service';
+
+// 寄存器定义验证模式
+const registerSchema = z.object({
+  // 物模型属性标识符
+  property: z.string().min(1, '属性标识符不能为空').max(64),
+  functionCode: z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4)]),
+  address: z.number().int().min(0).max(65535),
+  dataType: z.enum(['bool', 'int16', 'uint16', 'int32', 'uint32', 'float32', 'int64', 'uint64', 'float64']).default('uint16'),
+  scale: z.number().refine(value => value !== 0, '缩放系数不能为0').default(1),
+  offset: z.number().default(0),
+  byteOrder: z.enum(['ABCD', 'CDAB', 'BADC', 'DCBA']).default('ABCD'),
+  writable: z.boolean().default(false),
+}).superRefine((register, ctx) => {
+  if (isBitFunction(register.functionCode) && register.dataType !== 'bool') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '线圈和离散输入的数据类型须为bool', path: ['dataType'] });
+  }
+  if (register.address + registerCount(register.dataType) > 0x10000) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '寄存器地址超出范围', path: ['address'] });
+  }
+  if (register.writable && register.functionCode !== ModbusFunctionCode.READ_COILS &&
+      register.functionCode !== ModbusFunctionCode.READ_HOLDING_REGISTERS) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '仅线圈和保持寄存器可写', path: ['writable'] });
+  }
+});
+
+// 寄存器映射验证模式
+export const registerMapSchema = z.array(registerSchema)
+  .min(1, '寄存器映射不能为空')
+  .max(500, '寄存器映射最多500项')
+  .superRefine((registers, ctx) => {
+    const properties = new Set<string>();
+    registers.forEach((register, index) => {
+      if (properties.has(register.property)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `属性 ${register.property} 重复`, path: [index, 'property'] });
+      }
+      properties.add(register.property);
+    });
+  });
+
+/**
+ * 寄存器定义
+ */
+export type ModbusRegister = z.infer<typeof registerSchema>;
+
+/**
+ * 轮询计划配置
+ */
+export interface ModbusPollInput {
+  // 从站地址
+  host: string;
+  // 从站端口
+  port: number;
+  // 单元标识
+  unitId: number;
+  // 传输模式
+  mode: ModbusTransportMode;
+  // 轮询周期（毫秒）
+  pollInterval: number;
+  // 响应超时时间（毫秒）
+  timeout: number;
+  // 是否启用
+  enabled: boolean;
+}
+
+/**
+ * 单次轮询结果
+ */
+export interface ModbusPollResult {
+  // 读取到的属性值
+  values: Record<string, number | boolean>;
+  // 读取失败的寄存器块及原因
+  errors: string[];
+  // 轮询时间
+  polledAt: Date;
+}
+
+/**
+ * 设备轮询状态
+ */
+export interface ModbusPollStatus {
+  // 是否在轮询
+  running: boolean;
+  // 从站连接是否已建立
+  connected: boolean;
+  // 连续失败次数
+  failures: number;
+  // 最近一次轮询结果
+  lastResult: ModbusPollResult | null;
+}
+
+/**
+ * 读取块：同一功能码下合并读取的连续地址
+ */
+interface ReadBlock {
+  functionCode: ModbusFunctionCode;
+  address: number;
+  quantity: number;
+  registers: ModbusRegister[];
+}
+
+/**
+ * 设备轮询任务
+ */
+interface Poller {
+  deviceId: string;
+  deviceClassId: string;
+  schedule: ModbusPollSchedule;
+  timer: NodeJS.Timeout | null;
+  polling: boolean;
+  failures: number;
+  lastResult: ModbusPollResult | null;
+  // 已持久化的错误和时间，避免每次轮询都写数据库
+  persistedError: string | null;
+  persistedAt: number;
+}
+
+/**
+ * 待响应的请求
+ */
+interface PendingRequest {
+  unitId: number;
+  transactionId: number;
+  resolve: (pdu: Buffer) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+// 合并读取时允许跳过的最大地址间隔
+const MAX_REGISTER_GAP = 8;
+const MAX_BIT_GAP = 64;
+
+/**
+ * 从站连接，同一时刻只有一个请求在等待响应（RTU over TCP的串口链路不支持并发请求）
+ */
+class ModbusConnection {
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private queue: Promise<unknown> = Promise.resolve();
+  private current: PendingRequest | null = null;
+  private transactionId = 0;
+
+  constructor(
+    public readonly host: string,
+    public readonly port: number,
+    public readonly mode: ModbusTransportMode
+  ) {}
+
+  /**
+   * 连接是否已建立
+   */
+  public isConnected(): boolean {
+    return !!this.socket && !this.socket.destroyed;
+  }
+
+  /**
+   * 发送请求并等待响应，请求按调用顺序依次执行
+   * @param unitId 单元标识
+   * @param pdu 请求PDU
+   * @param timeout 响应超时时间（毫秒）
+   * @returns 响应PDU
+   */
+  public request(unitId: number, pdu: Buffer, timeout: number): Promise<Buffer> {
+    const run = this.queue.then(() => this.execute(unitId, pdu, timeout));
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 关闭连接，等待中的请求失败
+   */
+  public close(): void {
+    const socket = this.socket;
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+    socket?.destroy();
+    this.fail(new ModbusError('从站连接已关闭'));
+  }
+
+  /**
+   * 执行请求
+   * @param unitId 单元标识
+   * @param pdu 请求PDU
+   * @param timeout 响应超时时间（毫秒）
+   */
+  private async execute(unitId: number, pdu: Buffer, timeout: number): Promise<Buffer> {
+    const socket = await this.connect(timeout);
+
+    return new Promise<Buffer>((resolve, reject) => {
+      this.transactionId = (this.transactionId + 1) & 0xffff;
+      const transactionId = this.transactionId;
+
+      const timer = setTimeout(() => {
+        if (this.current?.transactionId === transactionId) {
+          this.current = null;
+          // RTU帧无事务标识，丢弃可能残留的迟到响应
+          if (this.mode === ModbusTransportMode.RTU_OVER_TCP) {
+            this.buffer = Buffer.alloc(0);
+          }
+          reject(new ModbusError(`从站 ${unitId} 响应超时`));
+        }
+      }, timeout);
+
+      this.current = { unitId, transactionId, resolve, reject, timer };
+      if (this.mode === ModbusTransportMode.RTU_OVER_TCP) {
+        this.buffer = Buffer.alloc(0);
+      }
+
+      socket.write(this.mode === ModbusTransportMode.TCP
+        ? encodeTcpFrame(transactionId, unitId, pdu)
+        : encodeRtuFrame(unitId, pdu));
+    });
+  }
+
+  /**
+   * 获取已建立的连接，未连接时建立连接
+   * @param timeout 连接超时时间（毫秒）
+   */
+  private async connect(timeout: number): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return this.socket;
+    }
+
+    const socket = await tcpService.createClient({
+      host: this.host,
+      port: this.port,
+      timeout,
+      noDelay: true,
+      keepAlive: true,
+    });
+
+    // 超时仅用于建立连接，连接在轮询间隔内保持
+    socket.setTimeout(0);
+    socket.on('data', (data: Buffer) => this.handleData(data));
+    socket.on('close', () => {
+      if (this.socket === socket) {
+        this.socket = null;
+        this.buffer = Buffer.alloc(0);
+        this.fail(new ModbusError('从站连接已断开'));
+      }
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+    return socket;
+  }
+
+  /**
+   * 处理从站数据，切分响应帧并完成对应请求
+   * @param data 数据
+   */
+  private handleData(data: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, data]) : data;
+
+    try {
+      let result: ReturnType<typeof readTcpFrame>;
+      while (this.buffer.length > 0 && (result = this.mode === ModbusTransportMode.TCP
+        ? readTcpFrame(this.buffer)
+        : readRtuResponseFrame(this.buffer)) !== null) {
+        this.buffer = this.buffer.subarray(result.length);
+
+        const current = this.current;
+        // 忽略已超时请求的迟到响应
+        if (!current || current.unitId !== result.frame.unitId ||
+            (result.frame.transactionId !== undefined && result.frame.transactionId !== current.transactionId)) {
+          continue;
+        }
+
+        clearTimeout(current.timer);
+        this.current = null;
+        current.resolve(result.frame.pdu);
+      }
+    } catch (error) {
+      this.buffer = Buffer.alloc(0);
+      this.fail(error as Error);
+      // Modbus TCP报文头无效说明数据流已失去同步，重新建立连接
+      if (this.mode === ModbusTransportMode.TCP) {
+        this.close();
+      }
+    }
+  }
+
+  /**
+   * 使等待中的请求失败
+   * @param error 错误
+   */
+  private fail(error: Error): void {
+    const current = this.current;
+    if (current) {
+      clearTimeout(current.timer);
+      this.current = null;
+      current.reject(error);
+    }
+  }
+}
+
+/**
+ * Modbus主站服务类
+ */
+export class ModbusService {
+  private static instance: ModbusService;
+  private started = false;
+  // 轮询任务：设备ID -> 任务
+  private pollers: Map<string, Poller> = new Map();
+  // 从站连接：传输模式:地址:端口 -> 连接
+  private connections: Map<string, ModbusConnection> = new Map();
+  // 寄存器映射缓存：设备类ID -> 寄存器定义和读取块
+  private registerMaps: Map<string, { registers: ModbusRegister[]; blocks: ReadBlock[] } | null> = new Map();
+  // 执行中的命令ID，命令重发时不重复写入
+  private executingCommands: Set<string> = new Set();
+  private readonly PERSIST_INTERVAL = 60000; // 1分钟
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.registerCommandTransport();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): ModbusService {
+    if (!ModbusService.instance) {
+      ModbusService.instance = new ModbusService();
+    }
+    return ModbusService.instance;
+  }
+
+  /**
+   * 启动服务：加载已启用的轮询计划
+   */
+  public async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    const schedules = await prisma.modbusPollSchedule.findMany({
+      where: { enabled: true, device: { deviceClass: { protocol: ProtocolType.MODBUS } } },
+      include: { device: { select: { deviceClassId: true } } },
+    });
+
+    for (const schedule of schedules) {
+      this.attach(schedule, schedule.device.deviceClassId);
+    }
+
+    console.log(`Modbus主站服务已启动，已加载 ${this.pollers.size} 个轮询计划`);
+  }
+
+  /**
+   * 停止服务：停止轮询并关闭从站连接
+   */
+  public stop(): void {
+    for (const deviceId of Array.from(this.pollers.keys())) {
+      this.detach(deviceId);
+    }
+    for (const connection of this.connections.values()) {
+      connection.close();
+    }
+    this.connections.clear();
+    this.started = false;
+  }
+
+  /**
+   * 获取设备类的寄存器映射
+   * @param deviceClassId 设备类ID
+   */
+  public async getRegisterMap(deviceClassId: string): Promise<ModbusRegisterMap | null> {
+    return prisma.modbusRegisterMap.findUnique({ where: { deviceClassId } });
+  }
+
+  /**
+   * 创建或更新设备类的寄存器映射，该设备类的轮询任务随即使用新映射
+   * @param deviceClassId 设备类ID
+   * @param registers 寄存器定义列表
+   */
+  public async saveRegisterMap(deviceClassId: string, registers: ModbusRegister[]): Promise<ModbusRegisterMap> {
+    const registerMap = await prisma.modbusRegisterMap.upsert({
+      where: { deviceClassId },
+      create: { deviceClassId, registers: registers as Prisma.InputJsonArray },
+      update: { registers: registers as Prisma.InputJsonArray },
+    });
+
+    this.registerMaps.delete(deviceClassId);
+    return registerMap;
+  }
+
+  /**
+   * 删除设备类的寄存器映射
+   * @param deviceClassId 设备类ID
+   */
+  public async deleteRegisterMap(deviceClassId: string): Promise<void> {
+    await prisma.modbusRegisterMap.delete({ where: { deviceClassId } });
+    this.registerMaps.delete(deviceClassId);
+  }
+
+  /**
+   * 获取设备的轮询计划
+   * @param deviceId 设备ID
+   */
+  public async getPollSchedule(deviceId: string): Promise<ModbusPollSchedule | null> {
+    return prisma.modbusPollSchedule.findUnique({ where: { deviceId } });
+  }
+
+  /**
+   * 创建或更新设备的轮询计划，服务已启动时立即按新计划轮询
+   * @param deviceId 设备ID
+   * @param input 轮询计划配置
+   */
+  public async savePollSchedule(deviceId: string, input: ModbusPollInput): Promise<ModbusPollSchedule> {
+    const schedule = await prisma.modbusPollSchedule.upsert({
+      where: { deviceId },
+      create: { deviceId, ...input },
+      update: { ...input, lastError: null },
+    });
+
+    await this.reloadDevice(deviceId);
+    return schedule;
+  }
+
+  /**
+   * 删除设备的轮询计划
+   * @param deviceId 设备ID
+   */
+  public async deletePollSchedule(deviceId: string): Promise<void> {
+    await prisma.modbusPollSchedule.delete({ where: { deviceId } });
+    await this.reloadDevice(deviceId);
+  }
+
+  /**
+   * 重新加载设备的轮询计划（轮询计划变更、设备更换设备类或设备删除后调用）
+   * @param deviceId 设备ID
+   */
+  public async reloadDevice(deviceId: string): Promise<void> {
+    this.detach(deviceId);
+
+    if (!this.started) {
+      return;
+    }
+
+    const schedule = await prisma.modbusPollSchedule.findUnique({
+      where: { deviceId },
+      include: { device: { select: { deviceClassId: true, deviceClass: { select: { protocol: true } } } } },
+    });
+
+    if (schedule?.enabled && schedule.device.deviceClass.protocol === ProtocolType.MODBUS) {
+      this.attach(schedule, schedule.device.deviceClassId);
+    }
+  }
+
+  /**
+   * 重新加载设备类下所有设备的轮询计划（设备类接入协议变更或设备类删除后调用）
+   * @param deviceClassId 设备类ID
+   */
+  public async reloadDeviceClass(deviceClassId: string): Promise<void> {
+    this.registerMaps.delete(deviceClassId);
+
+    const schedules = await prisma.modbusPollSchedule.findMany({
+      where: { device: { deviceClassId } },
+      select: { deviceId: true },
+    });
+
+    const deviceIds = new Set(schedules.map(schedule => schedule.deviceId));
+    for (const poller of this.pollers.values()) {
+      if (poller.deviceClassId === deviceClassId) {
+        deviceIds.add(poller.deviceId);
+      }
+    }
+
+    for (const deviceId of deviceIds) {
+      await this.reloadDevice(deviceId);
+    }
+  }
+
+  /**
+   * 获取设备的轮询状态
+   * @param deviceId 设备ID
+   */
+  public getPollStatus(deviceId: string): ModbusPollStatus {
+    const poller = this.pollers.get(deviceId);
+    const connection = poller ? this.connections.get(this.getConnectionKey(poller.schedule)) : undefined;
+
+    return {
+      running: !!poller,
+      connected: !!connection?.isConnected(),
+      failures: poller?.failures || 0,
+      lastResult: poller?.lastResult || null,
+    };
+  }
+
+  /**
+   * 立即轮询设备（轮询计划未启用时也可手动轮询）
+   * @param deviceId 设备ID
+   * @returns 轮询结果
+   * @throws ModbusError 设备未配置轮询计划或设备类未配置寄存器映射
+   */
+  public async pollNow(deviceId: string): Promise<ModbusPollResult> {
+    const poller = this.pollers.get(deviceId);
+    if (poller) {
+      return this.poll(poller);
+    }
+
+    const schedule = await prisma.modbusPollSchedule.findUnique({
+      where: { deviceId },
+      include: { device: { select: { deviceClassId: true } } },
+    });
+    if (!schedule) {
+      throw new ModbusError('设备未配置Modbus轮询计划');
+    }
+
+    try {
+      return await this.poll(this.createPoller(schedule, schedule.device.deviceClassId));
+    } finally {
+      this.releaseConnection(this.getConnectionKey(schedule));
+    }
+  }
+
+  /**
+   * 按寄存器映射写入属性值，写入后立即轮询以上报最新值
+   * @param deviceId 设备ID
+   * @param properties 属性值
+   * @returns 已写入的属性值
+   * @throws ModbusError 属性未映射到可写寄存器、属性值无效或通信失败
+   */
+  public async writeProperties(deviceId: string, properties: Record<string, unknown>): Promise<Record<string, number | boolean>> {
+    const poller = this.pollers.get(deviceId);
+    if (!poller) {
+      throw new ModbusError('设备未在轮询');
+    }
+
+    const registerMap = await this.loadRegisterMap(poller.deviceClassId);
+    if (!registerMap) {
+      throw new ModbusError('设备类未配置Modbus寄存器映射');
+    }
+
+    // 写入前校验全部属性，避免部分写入
+    const requests = Object.entries(properties).map(([property, value]) => {
+      const register = registerMap.registers.find(item => item.property === property);
+      if (!register?.writable) {
+        throw new ModbusError(`属性 ${property} 未映射到可写寄存器`);
+      }
+      return { property, value: this.toWriteValue(register, value), pdu: this.buildWriteRequest(register, value) };
+    });
+
+    if (requests.length === 0) {
+      throw new ModbusError('未指定要设置的属性');
+    }
+
+    const { schedule } = poller;
+    const connection = this.getConnection(schedule);
+    const written: Record<string, number | boolean> = {};
+    for (const request of requests) {
+      const response = await connection.request(schedule.unitId, request.pdu, schedule.timeout);
+      parseWriteResponse(response, request.pdu);
+      written[request.property] = request.value;
+    }
+
+    this.schedule(poller, 0);
+    return written;
+  }
+
+  /**
+   * 创建轮询任务并开始轮询
+   * @param schedule 轮询计划
+   * @param deviceClassId 设备类ID
+   */
+  private attach(schedule: ModbusPollSchedule, deviceClassId: string): void {
+    const poller = this.createPoller(schedule, deviceClassId);
+    this.pollers.set(schedule.deviceId, poller);
+
+    // 首次轮询随机延迟，避免大量设备同时轮询
+    this.schedule(poller, Math.floor(Math.random() * Math.min(schedule.pollInterval, 5000)));
+  }
+
+  /**
+   * 停止设备的轮询任务，设备离线；从站连接不再被使用时关闭
+   * @param deviceId 设备ID
+   */
+  private detach(deviceId: string): void {
+    const poller = this.pollers.get(deviceId);
+    if (!poller) {
+      return;
+    }
+
+    if (poller.timer) {
+      clearTimeout(poller.timer);
+    }
+    this.pollers.delete(deviceId);
+
+    this.releaseConnection(this.getConnectionKey(poller.schedule));
+
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+    if (connection?.protocol === DeviceProtocol.MODBUS && connection.status !== DeviceConnectionStatus.OFFLINE) {
+      deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.OFFLINE, DeviceProtocol.MODBUS, {
+        address: poller.schedule.host,
+        port: poller.schedule.port,
+      }).catch(error => {
+        console.error(`设置设备 ${deviceId} 离线失败:`, error);
+      });
+    }
+  }
+
+  /**
+   * 创建轮询任务
+   * @param schedule 轮询计划
+   * @param deviceClassId 设备类ID
+   */
+  private createPoller(schedule: ModbusPollSchedule, deviceClassId: string): Poller {
+    return {
+      deviceId: schedule.deviceId,
+      deviceClassId,
+      schedule,
+      timer: null,
+      polling: false,
+      failures: 0,
+      lastResult: null,
+      persistedError: schedule.lastError,
+      persistedAt: schedule.lastPolledAt?.getTime() || 0,
+    };
+  }
+
+  /**
+   * 安排下一次轮询（上一次轮询结束后才开始计时，轮询不会重叠）
+   * @param poller 轮询任务
+   * @param delay 延迟（毫秒）
+   */
+  private schedule(poller: Poller, delay: number): void {
+    if (poller.timer) {
+      clearTimeout(poller.timer);
+    }
+
+    poller.timer = setTimeout(async () => {
+      poller.timer = null;
+      if (this.pollers.get(poller.deviceId) !== poller || poller.polling) {
+        return;
+      }
+
+      try {
+        await this.poll(poller);
+      } catch (error) {
+        console.error(`轮询设备 ${poller.deviceId} 失败:`, error);
+      }
+
+      if (this.pollers.get(poller.deviceId) === poller && !poller.timer) {
+        this.schedule(poller, poller.schedule.pollInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * 轮询设备：依次读取各寄存器块，上报属性值并更新连接状态
+   * 从站异常响应只影响对应寄存器块，连接和超时错误中止本次轮询
+   * @param poller 轮询任务
+   */
+  private async poll(poller: Poller): Promise<ModbusPollResult> {
+    const registerMap = await this.loadRegisterMap(poller.deviceClassId);
+    if (!registerMap) {
+      throw new ModbusError('设备类未配置Modbus寄存器映射');
+    }
+
+    poller.polling = true;
+    const { schedule } = poller;
+    const connection = this.getConnection(schedule);
+    const result: ModbusPollResult = { values: {}, errors: [], polledAt: new Date() };
+
+    try {
+      for (const block of registerMap.blocks) {
+        try {
+          const response = await connection.request(
+            schedule.unitId,
+            buildReadRequest(block.functionCode, block.address, block.quantity),
+            schedule.timeout
+          );
+          Object.assign(result.values, this.decodeBlock(block, parseReadResponse(response, block.functionCode, block.quantity)));
+        } catch (error) {
+          result.errors.push(`功能码${block.functionCode} 地址${block.address}~${block.address + block.quantity - 1}: ${(error as Error).message}`);
+          if (!(error instanceof ModbusError && error.exceptionCode !== undefined)) {
+            break;
+          }
+        }
+      }
+    } finally {
+      poller.polling = false;
+    }
+
+    poller.lastResult = result;
+
+    if (Object.keys(result.values).length > 0) {
+      thingModelService.handleDeviceMessage(poller.deviceId, 'MODBUS', {
+        method: ThingMethod.PROPERTY_POST,
+        params: result.values,
+      }).catch(error => {
+        console.error(`处理设备 ${poller.deviceId} Modbus轮询数据失败:`, error);
+      });
+    }
+
+    const lastError = result.errors.length > 0 ? result.errors.join('; ') : null;
+    poller.failures = lastError ? poller.failures + 1 : 0;
+    // 手动轮询未启用的计划或轮询期间计划已停止时，不改变设备连接状态
+    if (this.pollers.get(poller.deviceId) === poller) {
+      await this.updateConnectionStatus(poller, lastError);
+    }
+    await this.persistState(poller, lastError, result.polledAt);
+
+    return result;
+  }
+
+  /**
+   * 解析读取块中各寄存器的属性值
+   * @param block 读取块
+   * @param data 响应数据
+   */
+  private decodeBlock(block: ReadBlock, data: Buffer): Record<string, number | boolean> {
+    const values: Record<string, number | boolean> = {};
+    const bits = isBitFunction(block.functionCode) ? unpackBits(data, block.quantity) : null;
+
+    for (const register of block.registers) {
+      const index = register.address - block.address;
+      if (bits) {
+        values[register.property] = bits[index];
+        continue;
+      }
+
+      const raw = decodeRegisterValue(
+        data.subarray(index * 2, (index + registerCount(register.dataType)) * 2),
+        register.dataType as ModbusDataType,
+        register.byteOrder as ModbusByteOrder
+      );
+      values[register.property] = typeof raw === 'boolean' || (register.scale === 1 && register.offset === 0)
+        ? raw
+        // 消除缩放计算的浮点误差
+        : parseFloat((raw * register.scale + register.offset).toPrecision(12));
+    }
+
+    return values;
+  }
+
+  /**
+   * 将属性值换算为写入寄存器的原始值
+   * @param register 寄存器定义
+   * @param value 属性值
+   * @throws ModbusError 属性值类型无效
+   */
+  private toWriteValue(register: ModbusRegister, value: unknown): number | boolean {
+    if (register.dataType === 'bool') {
+      if (typeof value !== 'boolean' && value !== 0 && value !== 1) {
+        throw new ModbusError(`属性 ${register.property} 的值须为布尔值`);
+      }
+      return Boolean(value);
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new ModbusError(`属性 ${register.property} 的值须为数值`);
+    }
+    return value;
+  }
+
+  /**
+   * 构造属性写入请求：线圈用功能码5，单寄存器用功能码6，多寄存器用功能码16
+   * @param register 寄存器定义
+   * @param value 属性值
+   * @throws ModbusError 属性值超出数据类型范围
+   */
+  private buildWriteRequest(register: ModbusRegister, value: unknown): Buffer {
+    const writeValue = this.toWriteValue(register, value);
+
+    if (register.functionCode === ModbusFunctionCode.READ_COILS) {
+      return buildWriteSingleCoil(register.address, writeValue as boolean);
+    }
+
+    let raw: number | boolean = writeValue;
+    if (typeof writeValue === 'number') {
+      raw = (writeValue - register.offset) / register.scale;
+      if (!register.dataType.startsWith('float')) {
+        raw = Math.round(raw);
+      }
+    }
+
+    const data = encodeRegisterValue(raw, register.dataType as ModbusDataType, register.byteOrder as ModbusByteOrder);
+    return data.length === 2
+      ? buildWriteSingleRegister(register.address, data)
+      : buildWriteMultipleRegisters(register.address, data);
+  }
+
+  /**
+   * 加载设备类的寄存器映射，并合并连续地址为读取块
+   * @param deviceClassId 设备类ID
+   * @returns 寄存器定义和读取块，未配置或配置无效时返回null
+   */
+  private async loadRegisterMap(deviceClassId: string): Promise<{ registers: ModbusRegister[]; blocks: ReadBlock[] } | null> {
+    if (this.registerMaps.has(deviceClassId)) {
+      return this.registerMaps.get(deviceClassId)!;
+    }
+
+    const registerMap = await prisma.modbusRegisterMap.findUnique({ where: { deviceClassId } });
+    const parsed = registerMap ? registerMapSchema.safeParse(registerMap.registers) : null;
+    if (parsed && !parsed.success) {
+      console.error(`设备类 ${deviceClassId} 的Modbus寄存器映射无效:`, parsed.error.errors);
+    }
+
+    const loaded = parsed?.success
+      ? { registers: parsed.data, blocks: this.buildReadBlocks(parsed.data) }
+      : null;
+    this.registerMaps.set(deviceClassId, loaded);
+    return loaded;
+  }
+
+  /**
+   * 按功能码分组，将地址连续或间隔较小的寄存器合并为读取块
+   * @param registers 寄存器定义列表
+   */
+  private buildReadBlocks(registers: ModbusRegister[]): ReadBlock[] {
+    const blocks: ReadBlock[] = [];
+    const sorted = [...registers].sort((a, b) => a.functionCode - b.functionCode || a.address - b.address);
+
+    let block: ReadBlock | null = null;
+    for (const register of sorted) {
+      const functionCode = register.functionCode as ModbusFunctionCode;
+      const bitFunction = isBitFunction(functionCode);
+      const end = register.address + (bitFunction ? 1 : registerCount(register.dataType));
+      const maxQuantity = bitFunction ? MAX_READ_BITS : MAX_READ_REGISTERS;
+      const maxGap = bitFunction ? MAX_BIT_GAP : MAX_REGISTER_GAP;
+
+      if (block && block.functionCode === functionCode &&
+          register.address - (block.address + block.quantity) <= maxGap &&
+          Math.max(end, block.address + block.quantity) - block.address <= maxQuantity) {
+        block.quantity = Math.max(end, block.address + block.quantity) - block.address;
+        block.registers.push(register);
+        continue;
+      }
+
+      block = { functionCode, address: register.address, quantity: end - register.address, registers: [register] };
+      blocks.push(block);
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 按轮询结果更新设备连接状态：成功时在线，失败时为ERROR
+   * @param poller 轮询任务
+   * @param lastError 错误信息
+   */
+  private async updateConnectionStatus(poller: Poller, lastError: string | null): Promise<void> {
+    const { deviceId, schedule } = poller;
+    const status = lastError ? DeviceConnectionStatus.ERROR : DeviceConnectionStatus.ONLINE;
+    const connection = deviceConnectionService.getDeviceConnection(deviceId);
+
+    try {
+      if (connection?.status === status && connection.protocol === DeviceProtocol.MODBUS) {
+        await deviceConnectionService.updateDeviceActivity(deviceId, { error: lastError || undefined });
+        return;
+      }
+
+      await deviceConnectionService.setDeviceStatus(deviceId, status, DeviceProtocol.MODBUS, {
+        address: schedule.host,
+        port: schedule.port,
+        metadata: { unitId: schedule.unitId, mode: schedule.mode, error: lastError || undefined },
+      });
+    } catch (error) {
+      console.error(`更新设备 ${deviceId} 连接状态失败:`, error);
+    }
+  }
+
+  /**
+   * 保存最后轮询时间和错误，错误变化时立即保存，否则按间隔保存
+   * @param poller 轮询任务
+   * @param lastError 错误信息
+   * @param polledAt 轮询时间
+   */
+  private async persistState(poller: Poller, lastError: string | null, polledAt: Date): Promise<void> {
+    if (lastError === poller.persistedError && polledAt.getTime() - poller.persistedAt < this.PERSIST_INTERVAL) {
+      return;
+    }
+
+    try {
+      await prisma.modbusPollSchedule.update({
+        where: { deviceId: poller.deviceId },
+        data: {
+          lastError,
+          ...(lastError ? {} : { lastPolledAt: polledAt }),
+        },
+      });
+      poller.persistedError = lastError;
+      poller.persistedAt = polledAt.getTime();
+    } catch (error) {
+      console.error(`保存设备 ${poller.deviceId} 轮询状态失败:`, error);
+    }
+  }
+
+  /**
+   * 获取轮询计划对应的从站连接，不存在时创建
+   * @param schedule 轮询计划
+   */
+  private getConnection(schedule: ModbusPollSchedule): ModbusConnection {
+    const key = this.getConnectionKey(schedule);
+    let connection = this.connections.get(key);
+    if (!connection) {
+      connection = new ModbusConnection(schedule.host, schedule.port, schedule.mode);
+      this.connections.set(key, connection);
+    }
+    return connection;
+  }
+
+  /**
+   * 从站连接不再被轮询任务使用时关闭
+   * @param key 连接的键
+   */
+  private releaseConnection(key: string): void {
+    const inUse = Array.from(this.pollers.values()).some(poller => this.getConnectionKey(poller.schedule) === key);
+    if (!inUse) {
+      this.connections.get(key)?.close();
+      this.connections.delete(key);
+    }
+  }
+
+  /**
+   * 获取从站连接的键，同一地址和传输模式的设备共用连接
+   * @param schedule 轮询计划
+   */
+  private getConnectionKey(schedule: ModbusPollSchedule): string {
+    return `${schedule.mode}:${schedule.host}:${schedule.port}`;
+  }
+
+  /**
+   * 注册Modbus命令下发通道：property.set命令写入寄存器，执行结果作为命令应答
+   */
+  private registerCommandTransport(): void {
+    deviceCommandDispatcher.registerTransport(ProtocolType.MODBUS, async (deviceId, payload) => {
+      if (!this.pollers.has(deviceId)) {
+        return false;
+      }
+
+      const message = JSON.parse(payload.toString('utf8'));
+      if (!this.executingCommands.has(message.messageId)) {
+        this.executingCommands.add(message.messageId);
+        this.executeCommand(deviceId, message).finally(() => {
+          this.executingCommands.delete(message.messageId);
+        });
+      }
+      return true;
+    });
+  }
+
+  /**
+   * 执行命令并应答
+   * @param deviceId 设备ID
+   * @param message 命令下行消息
+   */
+  private async executeCommand(deviceId: string, message: { messageId: string; type: string; params: any }): Promise<void> {
+    let reply: CommandReply;
+
+    if (message.type !== ThingMethod.PROPERTY_SET) {
+      reply = { messageId: message.messageId, status: 'FAILED', message: `Modbus设备仅支持${ThingMethod.PROPERTY_SET}命令` };
+    } else {
+      try {
+        const written = await this.writeProperties(deviceId, message.params || {});
+        reply = { messageId: message.messageId, status: 'EXECUTED', data: written };
+      } catch (error) {
+        reply = { messageId: message.messageId, status: 'FAILED', message: (error as Error).message };
+      }
+    }
+
+    try {
+      await deviceCommandDispatcher.handleReply(deviceId, reply);
+    } catch (error) {
+      console.error(`处理设备 ${deviceId} Modbus命令应答失败:`, error);
+    }
+  }
+}
+
+// 导出单例实例
+export const modbusService = ModbusService.getInstance();
+
+export default modbusService;
@@ -0,0 +1,449 @@
+/**
+ * 内置MQTT Broker服务 - 在平台进程内提供MQTT Broker，适用于小规模部署和测试
+ *
+ * 该服务实现了以下功能：
+ * 1. 基于aedes提供MQTT Broker（MQTT_BROKER_PORT，默认1883）
+ * 2. 设备按设备凭证认证（签名方式见device-credential-service），平台内部客户端使用进程内随机凭证
+ * 3. 主题ACL：设备只能发布和订阅 devices/{设备ID}/#，网关设备另可访问 gateways/{设备ID}/#
+ * 4. 设备客户端连接和断开时直接更新DeviceConnectionService中的设备状态
+ * 5. 按客户端统计收发消息数和负载字节数
+ * 6. 启动后平台MQTT客户端自动连接到内置Broker，物模型、命令、影子等服务无需额外配置
+ */
+
+import * as net from 'net';
+import { Aedes, AuthenticateError, Client, PublishPacket } from 'aedes';
+import prisma from './db-prisma';
+import mqttClient from './mqtt-client';
+import { cryptoService } from './crypto-service';
+import { deviceCredentialService } from './device-credential-service';
+import { deviceConnectionService, DeviceConnectionStatus, DeviceProtocol } from './device-connection-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 客户端统计信息
+ */
+export interface MqttBrokerClientStats {
+  // 客户端ID
+  clientId: string;
+  // 设备ID，平台内部客户端为null
+  deviceId: string | null;
+  // 设备所属组织ID
+  organizationId: string | null;
+  // 客户端地址
+  address?: string;
+  // 连接时间
+  connectedAt: Date;
+  // 最后活动时间
+  lastActivityAt: Date;
+  // 接收消息数（客户端发布）
+  messagesReceived: number;
+  // 发送消息数（投递给客户端）
+  messagesSent: number;
+  // 接收负载字节数
+  bytesReceived: number;
+  // 发送负载字节数
+  bytesSent: number;
+}
+
+/**
+ * 客户端会话
+ */
+interface BrokerSession {
+  // aedes客户端
+  client: Client;
+  // 统计信息
+  stats: MqttBrokerClientStats;
+}
+
+// CONNACK返回码：服务不可用、用户名或密码错误
+const SERVER_UNAVAILABLE = 3;
+const BAD_USERNAME_OR_PASSWORD = 4;
+
+/**
+ * 内置MQTT Broker服务类
+ */
+export class MqttBrokerService {
+  private static instance: MqttBrokerService;
+  private broker: Aedes | null = null;
+  private server: net.Server | null = null;
+  // 认证通过的客户端连接 -> 设备ID（平台内部客户端为null），按连接对象区分同一客户端ID的新旧连接
+  private authenticated: WeakMap<Client, string | null> = new WeakMap();
+  // 客户端ID -> 最近一次认证通过的连接，旧连接断开时以此判断客户端ID是否已被新连接接管
+  private owners: Map<string, Client> = new Map();
+  private sessions: Map<string, BrokerSession> = new Map();
+  private readonly internalUsername = `platform-${cryptoService.generateRandomString(8)}`;
+  private readonly internalPassword = cryptoService.generateRandomString(32);
+  private readonly PORT = Number(process.env.MQTT_BROKER_PORT || 1883);
+  private readonly HOST = process.env.MQTT_BROKER_HOST || '0.0.0.0';
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): MqttBrokerService {
+    if (!MqttBrokerService.instance) {
+      MqttBrokerService.instance = new MqttBrokerService();
+    }
+    return MqttBrokerService.instance;
+  }
+
+  /**
+   * 启动内置Broker，并将平台MQTT客户端连接到内置Broker
+   */
+  public async start(): Promise<void> {
+    if (this.broker) {
+      return;
+    }
+
+    const broker = await Aedes.createBroker({
+      id: 'iot-platform',
+      authenticate: (client, username, password, done) => {
+        this.authenticate(client, username, password)
+          .then(success => {
+            if (success) {
+              done(null, true);
+            } else {
+              const error = new Error('Bad username or password') as AuthenticateError;
+              error.returnCode = BAD_USERNAME_OR_PASSWORD;
+              done(error, null);
+            }
+          })
+          .catch(error => {
+            console.error(`MQTT客户端 ${client.id} 认证异常:`, error);
+            const authError = new Error('Server unavailable') as AuthenticateError;
+            authError.returnCode = SERVER_UNAVAILABLE;
+            done(authError, null);
+          });
+      },
+      authorizePublish: (client, packet, callback) => {
+        if (!client || this.isTopicAllowed(client, packet.topic)) {
+          callback(null);
+          return;
+        }
+
+        this.recordAclViolation(client, 'publish', packet.topic);
+        callback(new Error('Publish not authorized'));
+      },
+      authorizeSubscribe: (client, subscription, callback) => {
+        if (this.isTopicAllowed(client, subscription.topic)) {
+          callback(null, subscription);
+          return;
+        }
+
+        // 返回null时SUBACK中该订阅为失败（0x80），不断开连接
+        this.recordAclViolation(client, 'subscribe', subscription.topic);
+        callback(null, null);
+      },
+      authorizeForward: (client, packet) => {
+        this.countSent(client.id, packet);
+        return packet;
+      },
+    });
+
+    this.setupEventListeners(broker);
+
+    const server = net.createServer(broker.handle);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.PORT, this.HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.broker = broker;
+    this.server = server;
+    console.log(`内置MQTT Broker已启动: ${this.HOST}:${this.PORT}`);
+
+    await mqttClient.connect({
+      brokerUrl: `mqtt://127.0.0.1:${this.PORT}`,
+      clientId: this.internalUsername,
+      username: this.internalUsername,
+      password: this.internalPassword,
+    });
+  }
+
+  /**
+   * 停止内置Broker
+   */
+  public async stop(): Promise<void> {
+    if (!this.broker) {
+      return;
+    }
+
+    await mqttClient.disconnect();
+
+    const broker = this.broker;
+    const server = this.server;
+    this.broker = null;
+    this.server = null;
+
+    await new Promise<void>(resolve => broker.close(() => resolve()));
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    this.authenticated = new WeakMap();
+    this.owners.clear();
+    this.sessions.clear();
+    console.log('内置MQTT Broker已停止');
+  }
+
+  /**
+   * 内置Broker是否运行中
+   */
+  public isRunning(): boolean {
+    return !!this.broker;
+  }
+
+  /**
+   * 获取监听端口
+   */
+  public getPort(): number {
+    return this.PORT;
+  }
+
+  /**
+   * 获取各客户端统计信息
+   * @returns 客户端统计列表
+   */
+  public getClientStats(): MqttBrokerClientStats[] {
+    return Array.from(this.sessions.values(), session => ({ ...session.stats }));
+  }
+
+  /**
+   * 认证客户端：平台内部客户端、MQTT_USERNAME/MQTT_PASSWORD配置的超级用户或设备凭证
+   * @param client 客户端
+   * @param username 用户名
+   * @param password 密码
+   * @returns 是否认证通过
+   */
+  private async authenticate(client: Client, username?: string, password?: Buffer): Promise<boolean> {
+    const passwordText = password?.toString('utf8');
+
+    if (username === this.internalUsername && passwordText === this.internalPassword) {
+      this.setAuthenticated(client, null);
+      return true;
+    }
+
+    if (
+      process.env.MQTT_USERNAME &&
+      process.env.MQTT_PASSWORD &&
+      username === process.env.MQTT_USERNAME &&
+      passwordText === process.env.MQTT_PASSWORD
+    ) {
+      this.setAuthenticated(client, null);
+      return true;
+    }
+
+    const deviceId = await deviceCredentialService.authenticateMqtt(client.id, username, password, {
+      ipAddress: this.getAddress(client),
+    });
+    if (!deviceId) {
+      return false;
+    }
+
+    this.setAuthenticated(client, deviceId);
+    return true;
+  }
+
+  /**
+   * 记录认证通过的连接，并由该连接接管客户端ID
+   * aedes在认证通过后才关闭同一客户端ID的旧连接，旧连接的断开事件早于新连接的clientReady
+   * @param client 客户端
+   * @param deviceId 设备ID，平台内部客户端为null
+   */
+  private setAuthenticated(client: Client, deviceId: string | null): void {
+    this.authenticated.set(client, deviceId);
+    this.owners.set(client.id, client);
+  }
+
+  /**
+   * 判断客户端是否可以访问主题
+   * 平台客户端不受限制；设备只能访问 devices/{设备ID}/# 和 gateways/{设备ID}/#，且前两级不能为通配符
+   * @param client 客户端
+   * @param topic 主题或订阅过滤器
+   * @returns 是否允许
+   */
+  private isTopicAllowed(client: Client, topic: string): boolean {
+    if (!this.authenticated.has(client)) {
+      return false;
+    }
+
+    const deviceId = this.authenticated.get(client);
+    if (deviceId === null) {
+      return true;
+    }
+
+    const [root, id] = topic.split('/');
+    return (root === 'devices' || root === 'gateways') && id === deviceId;
+  }
+
+  /**
+   * 记录主题越权访问
+   * @param client 客户端
+   * @param action 操作
+   * @param topic 主题
+   */
+  private recordAclViolation(client: Client, action: 'publish' | 'subscribe', topic: string): void {
+    auditLogService.logSecurityEvent(
+      AuditEventType.SUSPICIOUS_ACTIVITY,
+      AuditLogLevel.WARNING,
+      `MQTT ${action} denied by topic ACL`,
+      undefined,
+      this.getAddress(client),
+      {
+        clientId: client.id,
+        deviceId: this.authenticated.get(client),
+        action,
+        topic,
+      }
+    ).catch(console.error);
+  }
+
+  /**
+   * 设置Broker事件监听器：连接状态和消息统计
+   * @param broker Broker实例
+   */
+  private setupEventListeners(broker: Aedes): void {
+    broker.on('clientReady', client => {
+      this.handleClientReady(client).catch(error => {
+        console.error(`处理MQTT客户端 ${client.id} 连接失败:`, error);
+      });
+    });
+
+    broker.on('clientDisconnect', client => {
+      this.handleClientDisconnect(client).catch(error => {
+        console.error(`处理MQTT客户端 ${client.id} 断开失败:`, error);
+      });
+    });
+
+    broker.on('publish', (packet, client) => {
+      if (!client) return;
+
+      const session = this.sessions.get(client.id);
+      if (session?.client === client) {
+        session.stats.messagesReceived++;
+        session.stats.bytesReceived += this.getPayloadSize(packet);
+        session.stats.lastActivityAt = new Date();
+      }
+    });
+
+    broker.on('clientError', (client, error) => {
+      console.warn(`MQTT客户端 ${client.id} 错误: ${error.message}`);
+    });
+  }
+
+  /**
+   * 客户端连接完成：记录会话，设备客户端设置为在线
+   * @param client 客户端
+   */
+  private async handleClientReady(client: Client): Promise<void> {
+    const deviceId = this.authenticated.get(client) ?? null;
+    const now = new Date();
+    const device = deviceId
+      ? await prisma.device.findUnique({ where: { id: deviceId }, select: { organizationId: true } })
+      : null;
+
+    // 同一客户端ID重复连接时，旧连接由aedes关闭，会话以新连接为准
+    this.sessions.set(client.id, {
+      client,
+      stats: {
+        clientId: client.id,
+        deviceId,
+        organizationId: device?.organizationId ?? null,
+        address: this.getAddress(client),
+        connectedAt: now,
+        lastActivityAt: now,
+        messagesReceived: 0,
+        messagesSent: 0,
+        bytesReceived: 0,
+        bytesSent: 0,
+      },
+    });
+
+    if (deviceId && device) {
+      await deviceConnectionService.setDeviceStatus(deviceId, DeviceConnectionStatus.ONLINE, DeviceProtocol.MQTT, {
+        clientId: client.id,
+        address: this.getAddress(client),
+        port: (client.conn as net.Socket).remotePort,
+      });
+    }
+  }
+
+  /**
+   * 客户端断开：清理会话，设备客户端设置为离线
+   * 客户端ID已被新连接接管时只清理旧会话，不更新设备状态
+   * @param client 客户端
+   */
+  private async handleClientDisconnect(client: Client): Promise<void> {
+    this.authenticated.delete(client);
+
+    const session = this.sessions.get(client.id);
+    if (session?.client === client) {
+      this.sessions.delete(client.id);
+    }
+
+    if (this.owners.get(client.id) !== client) {
+      // 已被同一客户端ID的新连接取代
+      return;
+    }
+    this.owners.delete(client.id);
+
+    if (!session || session.client !== client) {
+      return;
+    }
+
+    if (session.stats.deviceId) {
+      await deviceConnectionService.setDeviceStatus(session.stats.deviceId, DeviceConnectionStatus.OFFLINE, DeviceProtocol.MQTT, {
+        clientId: client.id,
+        metadata: {
+          messagesReceived: session.stats.messagesReceived,
+          messagesSent: session.stats.messagesSent,
+          bytesReceived: session.stats.bytesReceived,
+          bytesSent: session.stats.bytesSent,
+        },
+      });
+    }
+  }
+
+  /**
+   * 统计投递给客户端的消息
+   * @param clientId 客户端ID
+   * @param packet 消息
+   */
+  private countSent(clientId: string, packet: PublishPacket): void {
+    const session = this.sessions.get(clientId);
+    if (session) {
+      session.stats.messagesSent++;
+      session.stats.bytesSent += this.getPayloadSize(packet);
+    }
+  }
+
+  /**
+   * 获取消息负载字节数
+   * @param packet 消息
+   * @returns 字节数
+   */
+  private getPayloadSize(packet: PublishPacket): number {
+    return typeof packet.payload === 'string' ? Buffer.byteLength(packet.payload) : packet.payload.length;
+  }
+
+  /**
+   * 获取客户端地址
+   * @param client 客户端
+   * @returns 远程地址
+   */
+  private getAddress(client: Client): string | undefined {
+    return (client.conn as net.Socket).remoteAddress;
+  }
+}
+
+// 导出单例实例
+export const mqttBrokerService = MqttBrokerService.getInstance();
+
+export default mqttBrokerService;
@@ -0,0 +1,557 @@
+/**
+ * ONVIF云台控制服务 - 通过ONVIF PTZ SOAP接口控制摄像头云台
+ *
+ * 该服务实现了以下功能：
+ * 1. 能力检测：通过设备服务和媒体服务获取PTZ服务地址、媒体配置令牌及云台能力
+ * 2. 云台控制：连续移动、变倍、停止
+ * 3. 预置位：查询、调用和保存预置位
+ * 4. WS-Security：使用UsernameToken摘要认证
+ * 5. 操作审计：所有云台操作记录审计日志
+ */
+
+import { Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import { cryptoService, HashAlgorithm } from './crypto-service';
+import { sensitiveDataService } from './sensitive-data-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 云台操作类型
+ */
+export enum PtzAction {
+  MOVE = 'move',
+  ZOOM = 'zoom',
+  STOP = 'stop',
+  GOTO_PRESET = 'gotoPreset',
+  SAVE_PRESET = 'savePreset'
+}
+
+/**
+ * 云台能力
+ */
+export interface PtzCapabilities {
+  // PTZ服务地址
+  ptzUrl: string;
+  // 媒体配置令牌
+  profileToken: string;
+  // 是否支持平移
+  pan: boolean;
+  // 是否支持俯仰
+  tilt: boolean;
+  // 是否支持变倍
+  zoom: boolean;
+  // 是否支持预置位
+  presets: boolean;
+  // 最大预置位数量
+  maxPresets?: number;
+}
+
+/**
+ * 云台操作命令
+ * 速度取值范围 -1 ~ 1
+ */
+export interface PtzCommand {
+  action: PtzAction;
+  // 水平速度，正数向右
+  pan?: number;
+  // 垂直速度，正数向上
+  tilt?: number;
+  // 变倍速度，正数放大
+  zoom?: number;
+  // 连续移动超时（秒），超时后摄像头自动停止
+  timeout?: number;
+  // 预置位令牌
+  presetToken?: string;
+  // 预置位名称
+  presetName?: string;
+}
+
+/**
+ * 预置位
+ */
+export interface PtzPreset {
+  token: string;
+  name: string;
+}
+
+/**
+ * 云台操作结果
+ */
+export interface PtzResult {
+  success: boolean;
+  // 保存预置位时返回的预置位令牌
+  presetToken?: string;
+}
+
+/**
+ * ONVIF连接信息
+ */
+interface OnvifTarget {
+  id: string;
+  name: string;
+  onvifUrl: string;
+  username: string | null;
+  password: string | null;
+  capabilities: PtzCapabilities | null;
+}
+
+/**
+ * XML元素
+ */
+interface XmlElement {
+  attributes: string;
+  content: string;
+}
+
+// ONVIF命名空间
+const NAMESPACES = [
+  'xmlns:s="http://www.w3.org/2003/05/soap-envelope"',
+  'xmlns:tds="http://www.onvif.org/ver10/device/wsdl"',
+  'xmlns:trt="http://www.onvif.org/ver10/media/wsdl"',
+  'xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl"',
+  'xmlns:tt="http://www.onvif.org/ver10/schema"',
+].join(' ');
+
+/**
+ * ONVIF云台控制服务类
+ */
+export class OnvifPtzService {
+  private static instance: OnvifPtzService;
+  private readonly REQUEST_TIMEOUT = Number(process.env.ONVIF_REQUEST_TIMEOUT || 5000); // 5秒
+  private readonly DEFAULT_MOVE_TIMEOUT = 10; // 连续移动默认10秒后自动停止，防止停止指令丢失
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): OnvifPtzService {
+    if (!OnvifPtzService.instance) {
+      OnvifPtzService.instance = new OnvifPtzService();
+    }
+    return OnvifPtzService.instance;
+  }
+
+  /**
+   * 校验云台操作命令
+   * @param command 云台操作命令
+   * @returns 错误信息，校验通过时返回null
+   */
+  public validateCommand(command: PtzCommand): string | null {
+    if (!command || !Object.values(PtzAction).includes(command.action)) {
+      return 'Invalid PTZ action';
+    }
+
+    for (const key of ['pan', 'tilt', 'zoom'] as const) {
+      const value = command[key];
+      if (value !== undefined && (typeof value !== 'number' || !isFinite(value) || value < -1 || value > 1)) {
+        return `${key} must be a number between -1 and 1`;
+      }
+    }
+
+    if (command.timeout !== undefined && (typeof command.timeout !== 'number' || command.timeout <= 0 || command.timeout > 60)) {
+      return 'timeout must be between 0 and 60 seconds';
+    }
+
+    switch (command.action) {
+      case PtzAction.MOVE:
+        if (!command.pan && !command.tilt) {
+          return 'pan or tilt velocity is required';
+        }
+        break;
+      case PtzAction.ZOOM:
+        if (!command.zoom) {
+          return 'zoom velocity is required';
+        }
+        break;
+      case PtzAction.GOTO_PRESET:
+        if (!command.presetToken) {
+          return 'presetToken is required';
+        }
+        break;
+      case PtzAction.SAVE_PRESET:
+        if (!command.presetToken && !command.presetName) {
+          return 'presetName or presetToken is required';
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * 检测摄像头云台能力并保存到视频配置
+   * @param videoConfigId 视频配置ID
+   * @param userId 操作用户ID
+   * @returns 云台能力，未配置ONVIF地址时返回null
+   */
+  public async discover(videoConfigId: string, userId: string): Promise<PtzCapabilities | null> {
+    const target = await this.getTarget(videoConfigId);
+    if (!target) {
+      return null;
+    }
+
+    const capabilitiesXml = await this.request(target, target.onvifUrl, '<tds:GetCapabilities><tds:Category>All</tds:Category></tds:GetCapabilities>');
+    const ptzXAddr = this.getText(this.getElement(capabilitiesXml, 'PTZ')?.content || '', 'XAddr');
+    const mediaXAddr = this.getText(this.getElement(capabilitiesXml, 'Media')?.content || '', 'XAddr');
+
+    let capabilities: PtzCapabilities | null = null;
+
+    if (ptzXAddr && mediaXAddr) {
+      const ptzUrl = this.resolveServiceUrl(target.onvifUrl, ptzXAddr);
+      const mediaUrl = this.resolveServiceUrl(target.onvifUrl, mediaXAddr);
+      const profilesXml = await this.request(target, mediaUrl, '<trt:GetProfiles/>');
+
+      // 使用第一个带云台配置的媒体配置
+      const profile = this.getElements(profilesXml, 'Profiles')
+        .find(element => this.getElement(element.content, 'PTZConfiguration'));
+      const ptzConfiguration = profile && this.getElement(profile.content, 'PTZConfiguration');
+      const profileToken = profile && this.getAttribute(profile.attributes, 'token');
+
+      if (ptzConfiguration && profileToken) {
+        const hasPanTilt = !!this.getElement(ptzConfiguration.content, 'DefaultContinuousPanTiltVelocitySpace');
+        capabilities = {
+          ptzUrl,
+          profileToken,
+          pan: hasPanTilt,
+          tilt: hasPanTilt,
+          zoom: !!this.getElement(ptzConfiguration.content, 'DefaultContinuousZoomVelocitySpace'),
+          presets: true,
+        };
+
+        // 预置位数量为可选信息，获取失败不影响检测结果
+        try {
+          const nodesXml = await this.request(target, ptzUrl, '<tptz:GetNodes/>');
+          const maxPresets = Number(this.getText(nodesXml, 'MaximumNumberOfPresets'));
+          if (maxPresets >= 0) {
+            capabilities.presets = maxPresets > 0;
+            capabilities.maxPresets = maxPresets;
+          }
+        } catch (error) {
+          console.warn(`获取云台节点信息失败 ${videoConfigId}:`, error);
+        }
+      }
+    }
+
+    await prisma.videoConfig.update({
+      where: { id: videoConfigId },
+      data: { ptzCapabilities: capabilities ? (capabilities as unknown as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+
+    await auditLogService.log({
+      userId,
+      eventType: AuditEventType.CONFIG_CHANGE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'VideoConfig',
+      resourceId: videoConfigId,
+      description: capabilities
+        ? `Detected PTZ capabilities of video stream: ${target.name}`
+        : `Video stream has no PTZ capability: ${target.name}`,
+      details: capabilities ? { ...capabilities } : undefined,
+    });
+
+    return capabilities;
+  }
+
+  /**
+   * 获取预置位列表
+   * @param videoConfigId 视频配置ID
+   * @returns 预置位列表，不支持云台时返回null
+   */
+  public async getPresets(videoConfigId: string): Promise<PtzPreset[] | null> {
+    const target = await this.getTarget(videoConfigId);
+    if (!target?.capabilities?.presets) {
+      return null;
+    }
+
+    const { ptzUrl, profileToken } = target.capabilities;
+    const xml = await this.request(target, ptzUrl, `<tptz:GetPresets><tptz:ProfileToken>${this.escape(profileToken)}</tptz:ProfileToken></tptz:GetPresets>`);
+
+    return this.getElements(xml, 'Preset').map(element => ({
+      token: this.getAttribute(element.attributes, 'token') || '',
+      name: this.unescape(this.getText(element.content, 'Name') || ''),
+    })).filter(preset => preset.token);
+  }
+
+  /**
+   * 执行云台操作并记录审计日志
+   * @param videoConfigId 视频配置ID
+   * @param command 云台操作命令（需先通过validateCommand校验）
+   * @param userId 操作用户ID
+   * @returns 操作结果，不支持云台时返回null
+   */
+  public async control(videoConfigId: string, command: PtzCommand, userId: string): Promise<PtzResult | null> {
+    const target = await this.getTarget(videoConfigId);
+    if (!target?.capabilities) {
+      return null;
+    }
+
+    const details = {
+      action: command.action,
+      pan: command.pan,
+      tilt: command.tilt,
+      zoom: command.zoom,
+      presetToken: command.presetToken,
+      presetName: command.presetName,
+    };
+
+    try {
+      const result = await this.execute(target, target.capabilities, command);
+
+      await auditLogService.log({
+        userId,
+        eventType: AuditEventType.VIDEO_PTZ_CONTROL,
+        level: AuditLogLevel.INFO,
+        resourceType: 'VideoConfig',
+        resourceId: videoConfigId,
+        description: `PTZ ${command.action} on video stream: ${target.name}`,
+        details: { ...details, presetToken: result.presetToken ?? command.presetToken },
+      });
+
+      return result;
+    } catch (error) {
+      await auditLogService.log({
+        userId,
+        eventType: AuditEventType.VIDEO_PTZ_CONTROL,
+        level: AuditLogLevel.WARNING,
+        resourceType: 'VideoConfig',
+        resourceId: videoConfigId,
+        description: `PTZ ${command.action} failed on video stream: ${target.name}`,
+        details: { ...details, error: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 发送云台操作请求
+   * @param target ONVIF连接信息
+   * @param capabilities 云台能力
+   * @param command 云台操作命令
+   */
+  private async execute(target: OnvifTarget, capabilities: PtzCapabilities, command: PtzCommand): Promise<PtzResult> {
+    const { ptzUrl } = capabilities;
+    const profile = `<tptz:ProfileToken>${this.escape(capabilities.profileToken)}</tptz:ProfileToken>`;
+
+    switch (command.action) {
+      case PtzAction.MOVE:
+      case PtzAction.ZOOM: {
+        const velocity = command.action === PtzAction.MOVE
+          ? `<tt:PanTilt x="${capabilities.pan ? command.pan || 0 : 0}" y="${capabilities.tilt ? command.tilt || 0 : 0}"/>`
+          : `<tt:Zoom x="${command.zoom}"/>`;
+        if (command.action === PtzAction.ZOOM && !capabilities.zoom) {
+          throw new Error('Camera does not support zoom');
+        }
+        const timeout = command.timeout || this.DEFAULT_MOVE_TIMEOUT;
+        await this.request(target, ptzUrl, `<tptz:ContinuousMove>${profile}<tptz:Velocity>${velocity}</tptz:Velocity><tptz:Timeout>PT${timeout}S</tptz:Timeout></tptz:ContinuousMove>`);
+        return { success: true };
+      }
+
+      case PtzAction.STOP:
+        await this.request(target, ptzUrl, `<tptz:Stop>${profile}<tptz:PanTilt>true</tptz:PanTilt><tptz:Zoom>true</tptz:Zoom></tptz:Stop>`);
+        return { success: true };
+
+      case PtzAction.GOTO_PRESET:
+        await this.request(target, ptzUrl, `<tptz:GotoPreset>${profile}<tptz:PresetToken>${this.escape(command.presetToken!)}</tptz:PresetToken></tptz:GotoPreset>`);
+        return { success: true };
+
+      case PtzAction.SAVE_PRESET: {
+        const name = command.presetName ? `<tptz:PresetName>${this.escape(command.presetName)}</tptz:PresetName>` : '';
+        const token = command.presetToken ? `<tptz:PresetToken>${this.escape(command.presetToken)}</tptz:PresetToken>` : '';
+        const xml = await this.request(target, ptzUrl, `<tptz:SetPreset>${profile}${name}${token}</tptz:SetPreset>`);
+        return { success: true, presetToken: this.getText(xml, 'PresetToken') || command.presetToken };
+      }
+
+      default:
+        throw new Error(`Unsupported PTZ action: ${command.action}`);
+    }
+  }
+
+  /**
+   * 获取视频配置的ONVIF连接信息
+   * @param videoConfigId 视频配置ID
+   * @returns 连接信息，未配置ONVIF地址时返回null
+   */
+  private async getTarget(videoConfigId: string): Promise<OnvifTarget | null> {
+    const videoConfig = await prisma.videoConfig.findUnique({
+      where: { id: videoConfigId },
+      select: {
+        id: true,
+        name: true,
+        onvifUrl: true,
+        onvifUsername: true,
+        onvifPassword: true,
+        ptzCapabilities: true,
+      },
+    });
+
+    if (!videoConfig?.onvifUrl) {
+      return null;
+    }
+
+    return {
+      id: videoConfig.id,
+      name: videoConfig.name,
+      onvifUrl: videoConfig.onvifUrl,
+      username: videoConfig.onvifUsername,
+      password: videoConfig.onvifPassword ? sensitiveDataService.decryptSensitiveData(videoConfig.onvifPassword) : null,
+      capabilities: videoConfig.ptzCapabilities as unknown as PtzCapabilities | null,
+    };
+  }
+
+  /**
+   * 发送ONVIF SOAP请求
+   * @param target ONVIF连接信息
+   * @param url 服务地址
+   * @param body SOAP消息体
+   * @returns 响应XML
+   */
+  private async request(target: OnvifTarget, url: string, body: string): Promise<string> {
+    const envelope = `<?xml version="1.0" encoding="UTF-8"?>`
+      + `<s:Envelope ${NAMESPACES}><s:Header>${this.buildSecurityHeader(target)}</s:Header>`
+      + `<s:Body>${body}</s:Body></s:Envelope>`;
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/soap+xml; charset=utf-8' },
+        body: envelope,
+        signal: AbortSignal.timeout(this.REQUEST_TIMEOUT),
+      });
+    } catch (error) {
+      throw new Error(`ONVIF request failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const xml = await response.text();
+    const fault = this.getElement(xml, 'Fault');
+    if (fault || !response.ok) {
+      const reason = fault && (this.getText(fault.content, 'Text') || this.getText(fault.content, 'faultstring'));
+      throw new Error(`ONVIF request failed: ${reason ? this.unescape(reason) : `HTTP ${response.status}`}`);
+    }
+
+    return xml;
+  }
+
+  /**
+   * 构建WS-Security UsernameToken摘要认证头
+   * PasswordDigest = Base64(SHA1(Nonce + Created + Password))
+   * @param target ONVIF连接信息
+   */
+  private buildSecurityHeader(target: OnvifTarget): string {
+    if (!target.username) {
+      return '';
+    }
+
+    const nonce = cryptoService.generateKey(16);
+    const created = new Date().toISOString();
+    const digest = Buffer.from(
+      cryptoService.hash(Buffer.concat([nonce, Buffer.from(created + (target.password || ''))]), HashAlgorithm.SHA1),
+      'hex'
+    ).toString('base64');
+
+    return '<wsse:Security s:mustUnderstand="1"'
+      + ' xmlns:wsse="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-secext-1.0.xsd"'
+      + ' xmlns:wsu="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-wssecurity-utility-1.0.xsd">'
+      + '<wsse:UsernameToken>'
+      + `<wsse:Username>${this.escape(target.username)}</wsse:Username>`
+      + '<wsse:Password Type="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-username-token-profile-1.0#PasswordDigest">'
+      + `${digest}</wsse:Password>`
+      + '<wsse:Nonce EncodingType="http://docs.oasis-open.org/wss/2004/01/oasis-200401-wss-soap-message-security-1.0#Base64Binary">'
+      + `${nonce.toString('base64')}</wsse:Nonce>`
+      + `<wsu:Created>${created}</wsu:Created>`
+      + '</wsse:UsernameToken></wsse:Security>';
+  }
+
+  /**
+   * 解析服务地址
+   * 摄像头返回的地址常为内网地址，统一使用配置的ONVIF地址的主机和端口
+   * @param onvifUrl 配置的ONVIF设备服务地址
+   * @param xAddr 摄像头返回的服务地址
+   */
+  private resolveServiceUrl(onvifUrl: string, xAddr: string): string {
+    try {
+      const base = new URL(onvifUrl);
+      const service = new URL(xAddr.trim());
+      return `${base.origin}${service.pathname}${service.search}`;
+    } catch {
+      return xAddr.trim();
+    }
+  }
+
+  /**
+   * 查找所有指定本地名的元素（忽略命名空间前缀）
+   * @param xml XML文本
+   * @param name 元素本地名
+   */
+  private getElements(xml: string, name: string): XmlElement[] {
+    const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(\\s[^>]*?)?(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${name}>)`, 'g');
+    const elements: XmlElement[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(xml))) {
+      elements.push({ attributes: match[1] || '', content: match[2] || '' });
+    }
+
+    return elements;
+  }
+
+  /**
+   * 查找第一个指定本地名的元素
+   * @param xml XML文本
+   * @param name 元素本地名
+   */
+  private getElement(xml: string, name: string): XmlElement | undefined {
+    return this.getElements(xml, name)[0];
+  }
+
+  /**
+   * 获取第一个指定本地名元素的文本
+   * @param xml XML文本
+   * @param name 元素本地名
+   */
+  private getText(xml: string, name: string): string | undefined {
+    return this.getElement(xml, name)?.content.trim();
+  }
+
+  /**
+   * 获取属性值
+   * @param attributes 属性文本
+   * @param name 属性名
+   */
+  private getAttribute(attributes: string, name: string): string | undefined {
+    const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+    return match ? this.unescape(match[1]) : undefined;
+  }
+
+  /**
+   * XML转义
+   */
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  /**
+   * XML反转义
+   */
+  private unescape(value: string): string {
+    return value
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&amp;/g, '&');
+  }
+}
+
+// 导出单例实例
+export const onvifPtzService = OnvifPtzService.getInstance();
+
+export default onvifPtzService;
@@ -0,0 +1,971 @@
+/**
+ * OTA升级服务 - 实现固件包管理和分批升级活动
+ *
+ * 该服务实现了以下功能：
+ * 1. 按设备类存储固件包，使用CryptoService计算SHA-256校验和
+ * 2. 升级活动按累计百分比分批发布，每批全部结束后自动发布下一批
+ * 3. 设备通过带签名令牌的HTTP地址下载固件（支持Range断点续传），签名密钥取 OTA_TOKEN_SECRET 或 JWT_SECRET，生产环境均未配置时启动失败
+ * 4. 设备通过MQTT上报升级进度，超时未完成的任务置为失败
+ * 5. 已结束任务的失败率超过阈值时自动暂停活动
+ * 6. 固件上传删除、活动状态变更、批次发布及每台设备的升级结果均记录审计日志
+ *
+ * 升级通知（平台发布到 devices/{deviceId}/ota/upgrade）：
+ * { "taskId": 任务ID, "version": 固件版本, "url": 下载地址, "size": 字节数, "checksum": 校验和, "algorithm": "sha256" }
+ *
+ * 取消通知（平台发布到 devices/{deviceId}/ota/cancel）：{ "taskId": 任务ID }
+ *
+ * 进度上报（设备发布到 devices/{deviceId}/ota/progress）：
+ * { "taskId": 任务ID, "status": "DOWNLOADING" | "UPGRADING" | "SUCCEEDED" | "FAILED", "progress": 0-100, "message": 失败原因, "fromVersion": 升级前版本 }
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { EventEmitter } from 'events';
+import { FirmwarePackage, OtaCampaign, OtaCampaignStatus, OtaTask, OtaTaskStatus, Prisma } from '@prisma/client';
+import prisma from './db-prisma';
+import mqttClient from './mqtt-client';
+import { cryptoService, HashAlgorithm } from './crypto-service';
+import { websocketService } from './websocket-service';
+import { deviceConnectionService } from './device-connection-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 操作人信息（用于审计），系统自动操作时为空
+ */
+export interface OtaActor {
+  userId?: string;
+  username?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * 固件包上传信息
+ */
+export interface FirmwareUpload {
+  // 设备类ID
+  deviceClassId: string;
+  // 固件版本
+  version: string;
+  // 原始文件名
+  fileName: string;
+  // 文件内容
+  data: Buffer;
+  // 描述
+  description?: string | null;
+}
+
+/**
+ * 升级活动创建信息
+ */
+export interface CampaignCreateInput {
+  // 活动名称
+  name: string;
+  // 描述
+  description?: string | null;
+  // 固件包ID
+  firmwareId: string;
+  // 组织ID
+  organizationId: string;
+  // 目标设备ID，须为固件包所属设备类的设备
+  deviceIds: string[];
+  // 分批发布的累计百分比，最后一批须为100
+  rolloutStages: number[];
+  // 失败率阈值（0-1）
+  failureThreshold?: number;
+}
+
+/**
+ * 设备上报的升级进度
+ */
+export interface OtaProgressReport {
+  // 任务ID
+  taskId: string;
+  // 任务状态
+  status: 'DOWNLOADING' | 'UPGRADING' | 'SUCCEEDED' | 'FAILED';
+  // 进度（0-100）
+  progress?: number;
+  // 失败原因
+  message?: string;
+  // 升级前版本
+  fromVersion?: string;
+}
+
+/**
+ * 升级活动统计
+ */
+export interface CampaignStats {
+  // 任务总数
+  total: number;
+  // 各状态任务数
+  byStatus: Record<OtaTaskStatus, number>;
+  // 已发布批次的失败率（已结束任务中失败的比例）
+  failureRate: number;
+}
+
+// 进行中的任务状态
+const ACTIVE_TASK_STATUSES: OtaTaskStatus[] = [
+  OtaTaskStatus.NOTIFIED,
+  OtaTaskStatus.DOWNLOADING,
+  OtaTaskStatus.UPGRADING,
+];
+
+// 已结束的任务状态
+const FINISHED_TASK_STATUSES: OtaTaskStatus[] = [OtaTaskStatus.SUCCEEDED, OtaTaskStatus.FAILED];
+
+/**
+ * OTA升级服务类
+ * 事件：
+ * - task_progress (task) 升级任务状态或进度变更后触发
+ * - campaign_status (campaign) 升级活动状态或批次变更后触发
+ */
+export class OtaService extends EventEmitter {
+  private static instance: OtaService;
+  private checkTimer: NodeJS.Timeout | null = null;
+  private readonly secret: string;
+  private readonly STORAGE_DIR = process.env.FIRMWARE_DIR || path.join(process.cwd(), 'storage', 'firmware');
+  private readonly BASE_URL = process.env.OTA_BASE_URL || process.env.NEXT_PUBLIC_FRONTEND_URL || 'http://localhost:3000';
+  private readonly TASK_TIMEOUT = Number(process.env.OTA_TASK_TIMEOUT || 3600) * 1000; // 默认1小时
+  private readonly DOWNLOAD_TOKEN_TTL = Number(process.env.OTA_DOWNLOAD_TOKEN_TTL || 86400) * 1000; // 默认24小时
+  private readonly MIN_FAILURE_SAMPLES = Number(process.env.OTA_MIN_FAILURE_SAMPLES || 5);
+  private readonly CHECK_INTERVAL = Number(process.env.OTA_CHECK_INTERVAL || 60000); // 60秒
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.secret = process.env.OTA_TOKEN_SECRET || process.env.JWT_SECRET || '';
+
+    if (!this.secret && process.env.NODE_ENV === 'production' && process.env.NEXT_PHASE !== 'phase-production-build') {
+      // 构建阶段会加载路由模块，此时不签发令牌，不要求配置密钥
+      throw new Error('生产环境必须配置OTA_TOKEN_SECRET或JWT_SECRET');
+    }
+
+    if (!this.secret) {
+      // 未配置密钥时使用进程内随机密钥，重启后已签发的下载地址失效
+      console.warn('未配置OTA_TOKEN_SECRET，使用随机生成的固件下载令牌密钥');
+      this.secret = cryptoService.generateKey(32).toString('hex');
+    }
+
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): OtaService {
+    if (!OtaService.instance) {
+      OtaService.instance = new OtaService();
+    }
+    return OtaService.instance;
+  }
+
+  /**
+   * 启动超时检查：通知设备失败的任务重新通知，超时未完成的任务置为失败
+   */
+  public start(): void {
+    if (this.checkTimer) {
+      return;
+    }
+
+    this.checkTimer = setInterval(() => {
+      this.checkRunningCampaigns().catch(error => {
+        console.error('检查OTA升级活动失败:', error);
+      });
+    }, this.CHECK_INTERVAL);
+  }
+
+  /**
+   * 停止超时检查
+   */
+  public stop(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  /**
+   * 上传固件包，计算校验和并保存文件
+   * @param upload 固件包上传信息
+   * @param actor 操作人
+   * @returns 固件包
+   */
+  public async createFirmware(upload: FirmwareUpload, actor: OtaActor = {}): Promise<FirmwarePackage> {
+    const id = crypto.randomUUID();
+    const dir = path.join(this.STORAGE_DIR, upload.deviceClassId);
+    const filePath = path.join(dir, `${id}.bin`);
+    const checksum = cryptoService.hash(upload.data, HashAlgorithm.SHA256);
+
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(filePath, upload.data);
+
+    let firmware: FirmwarePackage;
+    try {
+      firmware = await prisma.firmwarePackage.create({
+        data: {
+          id,
+          version: upload.version,
+          fileName: upload.fileName,
+          filePath,
+          fileSize: upload.data.length,
+          checksum,
+          checksumAlgorithm: HashAlgorithm.SHA256,
+          description: upload.description,
+          deviceClass: { connect: { id: upload.deviceClassId } },
+        },
+      });
+    } catch (error) {
+      await fs.rm(filePath, { force: true });
+      throw error;
+    }
+
+    await this.audit(actor, AuditEventType.OTA_FIRMWARE, AuditLogLevel.INFO, 'FirmwarePackage', firmware.id,
+      `Uploaded firmware ${firmware.version} (${firmware.fileSize} bytes)`,
+      { deviceClassId: upload.deviceClassId, checksum });
+
+    return firmware;
+  }
+
+  /**
+   * 获取设备类的固件包
+   * @param deviceClassId 设备类ID
+   * @returns 固件包列表（不含存储路径），按创建时间倒序
+   */
+  public async getFirmwares(deviceClassId: string) {
+    return prisma.firmwarePackage.findMany({
+      where: { deviceClassId },
+      omit: { filePath: true },
+      include: { _count: { select: { campaigns: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * 获取固件包详情
+   * @param id 固件包ID
+   * @returns 固件包，包含设备类和升级活动数量
+   */
+  public async getFirmwareById(id: string) {
+    return prisma.firmwarePackage.findUnique({
+      where: { id },
+      include: {
+        deviceClass: true,
+        _count: { select: { campaigns: true } },
+      },
+    });
+  }
+
+  /**
+   * 删除固件包及其文件，已被升级活动引用的固件包由调用方拒绝删除
+   * @param id 固件包ID
+   * @param actor 操作人
+   */
+  public async deleteFirmware(id: string, actor: OtaActor = {}): Promise<void> {
+    const firmware = await prisma.firmwarePackage.delete({ where: { id } });
+    await fs.rm(firmware.filePath, { force: true });
+
+    await this.audit(actor, AuditEventType.OTA_FIRMWARE, AuditLogLevel.WARNING, 'FirmwarePackage', id,
+      `Deleted firmware ${firmware.version}`, { deviceClassId: firmware.deviceClassId });
+  }
+
+  /**
+   * 创建升级活动，目标设备随机分配到各发布批次
+   * @param input 升级活动创建信息
+   * @param actor 操作人
+   * @returns 升级活动
+   */
+  public async createCampaign(input: CampaignCreateInput, actor: OtaActor = {}): Promise<OtaCampaign> {
+    const deviceIds = this.shuffle([...new Set(input.deviceIds)]);
+    const stageEnds = input.rolloutStages.map(percent => Math.ceil((deviceIds.length * percent) / 100));
+
+    const campaign = await prisma.$transaction(async tx => {
+      const created = await tx.otaCampaign.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          rolloutStages: input.rolloutStages,
+          failureThreshold: input.failureThreshold,
+          firmware: { connect: { id: input.firmwareId } },
+          organization: { connect: { id: input.organizationId } },
+        },
+      });
+
+      await tx.otaTask.createMany({
+        data: deviceIds.map((deviceId, index) => ({
+          campaignId: created.id,
+          deviceId,
+          stage: stageEnds.findIndex(end => index < end),
+        })),
+      });
+
+      return created;
+    });
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.INFO, 'OtaCampaign', campaign.id,
+      `Created OTA campaign: ${campaign.name}`,
+      { firmwareId: input.firmwareId, deviceCount: deviceIds.length, rolloutStages: input.rolloutStages });
+
+    return campaign;
+  }
+
+  /**
+   * 获取升级活动详情
+   * @param id 升级活动ID
+   * @returns 升级活动，包含固件包
+   */
+  public async getCampaignById(id: string) {
+    return prisma.otaCampaign.findUnique({
+      where: { id },
+      include: { firmware: true },
+    });
+  }
+
+  /**
+   * 获取升级活动统计
+   * @param campaign 升级活动
+   * @returns 升级活动统计
+   */
+  public async getCampaignStats(campaign: OtaCampaign): Promise<CampaignStats> {
+    const groups = await prisma.otaTask.groupBy({
+      by: ['status'],
+      where: { campaignId: campaign.id },
+      _count: { _all: true },
+    });
+
+    const byStatus = Object.fromEntries(Object.values(OtaTaskStatus).map(status => [status, 0])) as Record<OtaTaskStatus, number>;
+    for (const group of groups) {
+      byStatus[group.status] = group._count._all;
+    }
+
+    const { finished, failed } = await this.getReleasedCounts(campaign);
+
+    return {
+      total: Object.values(byStatus).reduce((sum, count) => sum + count, 0),
+      byStatus,
+      failureRate: finished > 0 ? failed / finished : 0,
+    };
+  }
+
+  /**
+   * 启动升级活动并发布第一批
+   * @param id 升级活动ID
+   * @param actor 操作人
+   * @returns 升级活动，状态不是草稿时返回null
+   */
+  public async startCampaign(id: string, actor: OtaActor = {}): Promise<OtaCampaign | null> {
+    const campaign = await this.transition(id, [OtaCampaignStatus.DRAFT], {
+      status: OtaCampaignStatus.RUNNING,
+      currentStage: 0,
+      startedAt: new Date(),
+    });
+    if (!campaign) {
+      return null;
+    }
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.INFO, 'OtaCampaign', id,
+      `Started OTA campaign: ${campaign.name}`);
+
+    await this.releaseStage(campaign);
+    await this.evaluateCampaign(id);
+    return campaign;
+  }
+
+  /**
+   * 暂停升级活动，已通知的设备继续升级，不再通知新设备
+   * @param id 升级活动ID
+   * @param actor 操作人
+   * @param reason 暂停原因
+   * @returns 升级活动，状态不是进行中时返回null
+   */
+  public async pauseCampaign(id: string, actor: OtaActor = {}, reason?: string): Promise<OtaCampaign | null> {
+    const campaign = await this.transition(id, [OtaCampaignStatus.RUNNING], {
+      status: OtaCampaignStatus.PAUSED,
+      pauseReason: reason || null,
+    });
+    if (!campaign) {
+      return null;
+    }
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.WARNING, 'OtaCampaign', id,
+      `Paused OTA campaign: ${campaign.name}`, reason ? { reason } : undefined);
+
+    return campaign;
+  }
+
+  /**
+   * 恢复升级活动，继续通知当前批次尚未通知的设备
+   * @param id 升级活动ID
+   * @param actor 操作人
+   * @returns 升级活动，状态不是已暂停时返回null
+   */
+  public async resumeCampaign(id: string, actor: OtaActor = {}): Promise<OtaCampaign | null> {
+    const campaign = await this.transition(id, [OtaCampaignStatus.PAUSED], {
+      status: OtaCampaignStatus.RUNNING,
+      pauseReason: null,
+    });
+    if (!campaign) {
+      return null;
+    }
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.INFO, 'OtaCampaign', id,
+      `Resumed OTA campaign: ${campaign.name}`);
+
+    await this.releaseStage(campaign);
+    await this.evaluateCampaign(id);
+    return campaign;
+  }
+
+  /**
+   * 取消升级活动，未结束的任务置为已取消并通知设备
+   * @param id 升级活动ID
+   * @param actor 操作人
+   * @returns 升级活动，已完成或已取消时返回null
+   */
+  public async cancelCampaign(id: string, actor: OtaActor = {}): Promise<OtaCampaign | null> {
+    const campaign = await this.transition(
+      id,
+      [OtaCampaignStatus.DRAFT, OtaCampaignStatus.RUNNING, OtaCampaignStatus.PAUSED],
+      { status: OtaCampaignStatus.CANCELLED, completedAt: new Date() }
+    );
+    if (!campaign) {
+      return null;
+    }
+
+    const activeTasks = await prisma.otaTask.findMany({
+      where: { campaignId: id, status: { in: ACTIVE_TASK_STATUSES } },
+      select: { id: true, deviceId: true },
+    });
+
+    await prisma.otaTask.updateMany({
+      where: { campaignId: id, status: { in: [OtaTaskStatus.PENDING, ...ACTIVE_TASK_STATUSES] } },
+      data: { status: OtaTaskStatus.CANCELLED, finishedAt: new Date() },
+    });
+
+    for (const task of activeTasks) {
+      await this.publish(`devices/${task.deviceId}/ota/cancel`, { taskId: task.id });
+    }
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.WARNING, 'OtaCampaign', id,
+      `Cancelled OTA campaign: ${campaign.name}`, { cancelledActiveTasks: activeTasks.length });
+
+    return campaign;
+  }
+
+  /**
+   * 删除升级活动，仅草稿、已完成和已取消的活动可删除
+   * @param id 升级活动ID
+   * @param actor 操作人
+   * @returns 是否已删除
+   */
+  public async deleteCampaign(id: string, actor: OtaActor = {}): Promise<boolean> {
+    const { count } = await prisma.otaCampaign.deleteMany({
+      where: {
+        id,
+        status: { in: [OtaCampaignStatus.DRAFT, OtaCampaignStatus.COMPLETED, OtaCampaignStatus.CANCELLED] },
+      },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await this.audit(actor, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.WARNING, 'OtaCampaign', id,
+      'Deleted OTA campaign');
+    return true;
+  }
+
+  /**
+   * 处理设备上报的升级进度
+   * @param deviceId 设备ID
+   * @param report 升级进度
+   */
+  public async handleProgress(deviceId: string, report: OtaProgressReport): Promise<void> {
+    const task = await prisma.otaTask.findUnique({
+      where: { id: report.taskId },
+      include: { campaign: true },
+    });
+
+    if (!task || task.deviceId !== deviceId) {
+      console.warn(`设备 ${deviceId} 上报了不属于自己的升级任务 ${report.taskId}`);
+      return;
+    }
+
+    if (!ACTIVE_TASK_STATUSES.includes(task.status)) {
+      return;
+    }
+
+    const finished = report.status === OtaTaskStatus.SUCCEEDED || report.status === OtaTaskStatus.FAILED;
+    const data: Prisma.OtaTaskUpdateManyMutationInput = {
+      status: report.status,
+      progress: report.status === OtaTaskStatus.SUCCEEDED
+        ? 100
+        : Math.max(0, Math.min(100, Math.round(report.progress ?? task.progress))),
+    };
+
+    if (report.fromVersion && !task.fromVersion) {
+      data.fromVersion = report.fromVersion;
+    }
+    if (report.status === OtaTaskStatus.FAILED) {
+      data.errorMessage = report.message || '设备升级失败';
+    }
+    if (finished) {
+      data.finishedAt = new Date();
+    }
+
+    const updated = await this.updateTask(task.id, data);
+    if (!updated) {
+      return;
+    }
+
+    if (finished) {
+      await this.audit({}, AuditEventType.OTA_TASK,
+        report.status === OtaTaskStatus.FAILED ? AuditLogLevel.WARNING : AuditLogLevel.INFO,
+        'OtaTask', task.id,
+        `Device firmware upgrade ${report.status === OtaTaskStatus.FAILED ? 'failed' : 'succeeded'}`,
+        { deviceId, campaignId: task.campaignId, errorMessage: data.errorMessage });
+
+      await this.evaluateCampaign(task.campaignId);
+    }
+  }
+
+  /**
+   * 设备开始下载固件时将任务标记为下载中
+   * @param taskId 任务ID
+   */
+  public async markDownloading(taskId: string): Promise<void> {
+    const task = await prisma.otaTask.findUnique({ where: { id: taskId } });
+    if (task?.status === OtaTaskStatus.NOTIFIED) {
+      await this.updateTask(taskId, { status: OtaTaskStatus.DOWNLOADING });
+    }
+  }
+
+  /**
+   * 获取下载任务对应的固件包，任务须处于进行中且令牌有效
+   * @param taskId 任务ID
+   * @param token 下载令牌
+   * @returns 固件包，令牌无效或任务已结束时返回null
+   */
+  public async getDownloadFirmware(taskId: string, token: string | null): Promise<FirmwarePackage | null> {
+    if (!this.verifyDownloadToken(token, taskId)) {
+      return null;
+    }
+
+    const task = await prisma.otaTask.findUnique({
+      where: { id: taskId },
+      include: { campaign: { include: { firmware: true } } },
+    });
+
+    if (!task || !ACTIVE_TASK_STATUSES.includes(task.status)) {
+      return null;
+    }
+
+    return task.campaign.firmware;
+  }
+
+  /**
+   * 发布当前批次：通知已发布批次中尚未通知的设备
+   * @param campaign 升级活动
+   */
+  private async releaseStage(campaign: OtaCampaign): Promise<void> {
+    const firmware = await prisma.firmwarePackage.findUnique({ where: { id: campaign.firmwareId } });
+    if (!firmware) {
+      return;
+    }
+
+    const tasks = await prisma.otaTask.findMany({
+      where: { campaignId: campaign.id, stage: { lte: campaign.currentStage }, status: OtaTaskStatus.PENDING },
+    });
+
+    let notified = 0;
+    for (const task of tasks) {
+      if (await this.notifyDevice(task, firmware)) {
+        notified++;
+      }
+    }
+
+    if (tasks.length > 0) {
+      await this.audit({}, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.INFO, 'OtaCampaign', campaign.id,
+        `Released stage ${campaign.currentStage + 1} of OTA campaign: ${campaign.name}`,
+        { stage: campaign.currentStage, pendingTasks: tasks.length, notifiedTasks: notified });
+    }
+  }
+
+  /**
+   * 通知设备升级
+   * @param task 升级任务
+   * @param firmware 固件包
+   * @returns 是否已发布通知
+   */
+  private async notifyDevice(task: OtaTask, firmware: FirmwarePackage): Promise<boolean> {
+    const published = await this.publish(`devices/${task.deviceId}/ota/upgrade`, {
+      taskId: task.id,
+      version: firmware.version,
+      url: `${this.BASE_URL}/api/ota/tasks/${task.id}/firmware?token=${this.issueDownloadToken(task.id)}`,
+      size: firmware.fileSize,
+      checksum: firmware.checksum,
+      algorithm: firmware.checksumAlgorithm,
+    });
+
+    if (published && task.status === OtaTaskStatus.PENDING) {
+      await this.updateTask(task.id, { status: OtaTaskStatus.NOTIFIED, notifiedAt: new Date() }, [OtaTaskStatus.PENDING]);
+    }
+
+    return published;
+  }
+
+  /**
+   * 评估升级活动：失败率超过阈值时自动暂停，当前批次全部结束时发布下一批或完成活动
+   * @param campaignId 升级活动ID
+   */
+  private async evaluateCampaign(campaignId: string): Promise<void> {
+    const campaign = await prisma.otaCampaign.findUnique({ where: { id: campaignId } });
+    if (!campaign || campaign.status !== OtaCampaignStatus.RUNNING) {
+      return;
+    }
+
+    const { total, finished, failed } = await this.getReleasedCounts(campaign);
+
+    // 已结束任务达到最小样本数（或当前已发布的全部任务）后才判断失败率
+    if (finished > 0 && finished >= Math.min(this.MIN_FAILURE_SAMPLES, total)) {
+      const failureRate = failed / finished;
+      if (failureRate > campaign.failureThreshold) {
+        await this.pauseCampaign(campaignId, {},
+          `失败率 ${(failureRate * 100).toFixed(1)}% 超过阈值 ${(campaign.failureThreshold * 100).toFixed(1)}%`);
+        return;
+      }
+    }
+
+    if (finished < total) {
+      return;
+    }
+
+    const stages = campaign.rolloutStages as number[];
+    if (campaign.currentStage < stages.length - 1) {
+      // 以当前批次序号为条件更新，避免并发评估重复发布
+      const next = await this.transition(campaignId, [OtaCampaignStatus.RUNNING], {
+        currentStage: campaign.currentStage + 1,
+      }, campaign.currentStage);
+      if (next) {
+        await this.releaseStage(next);
+        await this.evaluateCampaign(campaignId);
+      }
+      return;
+    }
+
+    const completed = await this.transition(campaignId, [OtaCampaignStatus.RUNNING], {
+      status: OtaCampaignStatus.COMPLETED,
+      completedAt: new Date(),
+    }, campaign.currentStage);
+    if (completed) {
+      await this.audit({}, AuditEventType.OTA_CAMPAIGN, AuditLogLevel.INFO, 'OtaCampaign', campaignId,
+        `Completed OTA campaign: ${campaign.name}`, { total, failed });
+    }
+  }
+
+  /**
+   * 统计已发布批次的任务
+   * @param campaign 升级活动
+   * @returns 任务总数、已结束数和失败数
+   */
+  private async getReleasedCounts(campaign: OtaCampaign): Promise<{ total: number; finished: number; failed: number }> {
+    const groups = await prisma.otaTask.groupBy({
+      by: ['status'],
+      where: { campaignId: campaign.id, stage: { lte: campaign.currentStage } },
+      _count: { _all: true },
+    });
+
+    let total = 0;
+    let finished = 0;
+    let failed = 0;
+    for (const group of groups) {
+      // 活动取消后的任务不计入
+      if (group.status === OtaTaskStatus.CANCELLED) continue;
+      total += group._count._all;
+      if (FINISHED_TASK_STATUSES.includes(group.status)) {
+        finished += group._count._all;
+      }
+      if (group.status === OtaTaskStatus.FAILED) {
+        failed += group._count._all;
+      }
+    }
+
+    return { total, finished, failed };
+  }
+
+  /**
+   * 检查进行中的活动：重新通知此前未能通知的设备，超时未完成的任务置为失败
+   */
+  private async checkRunningCampaigns(): Promise<void> {
+    const campaigns = await prisma.otaCampaign.findMany({
+      where: { status: OtaCampaignStatus.RUNNING },
+    });
+
+    for (const campaign of campaigns) {
+      await this.releaseStage(campaign);
+
+      const expired = await prisma.otaTask.findMany({
+        where: {
+          campaignId: campaign.id,
+          status: { in: ACTIVE_TASK_STATUSES },
+          notifiedAt: { lt: new Date(Date.now() - this.TASK_TIMEOUT) },
+        },
+      });
+
+      for (const task of expired) {
+        const updated = await this.updateTask(task.id, {
+          status: OtaTaskStatus.FAILED,
+          errorMessage: '升级超时',
+          finishedAt: new Date(),
+        }, ACTIVE_TASK_STATUSES);
+
+        if (updated) {
+          await this.audit({}, AuditEventType.OTA_TASK, AuditLogLevel.WARNING, 'OtaTask', task.id,
+            'Device firmware upgrade timed out', { deviceId: task.deviceId, campaignId: campaign.id });
+        }
+      }
+
+      await this.evaluateCampaign(campaign.id);
+    }
+  }
+
+  /**
+   * 设备上线后重新通知尚未开始下载的升级任务
+   * @param deviceId 设备ID
+   */
+  private async renotifyDevice(deviceId: string): Promise<void> {
+    const tasks = await prisma.otaTask.findMany({
+      where: {
+        deviceId,
+        status: OtaTaskStatus.NOTIFIED,
+        campaign: { status: OtaCampaignStatus.RUNNING },
+      },
+      include: { campaign: { include: { firmware: true } } },
+    });
+
+    for (const { campaign, ...task } of tasks) {
+      await this.notifyDevice(task, campaign.firmware);
+    }
+  }
+
+  /**
+   * 按状态条件更新升级活动
+   * @param id 升级活动ID
+   * @param from 允许的当前状态
+   * @param data 更新数据
+   * @param currentStage 要求的当前批次序号
+   * @returns 更新后的升级活动，条件不满足时返回null
+   */
+  private async transition(
+    id: string,
+    from: OtaCampaignStatus[],
+    data: Prisma.OtaCampaignUpdateManyMutationInput,
+    currentStage?: number
+  ): Promise<OtaCampaign | null> {
+    const { count } = await prisma.otaCampaign.updateMany({
+      where: { id, status: { in: from }, ...(currentStage !== undefined ? { currentStage } : {}) },
+      data,
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const campaign = await prisma.otaCampaign.findUnique({ where: { id } });
+    if (campaign) {
+      this.emit('campaign_status', campaign);
+    }
+    return campaign;
+  }
+
+  /**
+   * 按状态条件更新升级任务，并推送给订阅该设备的客户端
+   * @param id 任务ID
+   * @param data 更新数据
+   * @param from 允许的当前状态，默认为进行中的状态
+   * @returns 更新后的任务，条件不满足时返回null
+   */
+  private async updateTask(
+    id: string,
+    data: Prisma.OtaTaskUpdateManyMutationInput,
+    from: OtaTaskStatus[] = ACTIVE_TASK_STATUSES
+  ): Promise<OtaTask | null> {
+    const { count } = await prisma.otaTask.updateMany({
+      where: { id, status: { in: from } },
+      data,
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const task = await prisma.otaTask.findUnique({ where: { id } });
+    if (task) {
+      this.emit('task_progress', task);
+      websocketService.broadcastToRoom(`device:${task.deviceId}`, 'otaProgress', task);
+    }
+    return task;
+  }
+
+  /**
+   * 发布MQTT消息
+   * @param topic 主题
+   * @param message 消息
+   * @returns 是否发布成功
+   */
+  private async publish(topic: string, message: Record<string, any>): Promise<boolean> {
+    if (!mqttClient.isClientConnected()) {
+      return false;
+    }
+
+    try {
+      return await mqttClient.publish(topic, JSON.stringify(message), { qos: 1 });
+    } catch (error) {
+      console.error(`发布OTA消息到 ${topic} 失败:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * 签发固件下载令牌
+   * 令牌格式：base64url(载荷JSON).HMAC-SHA256签名
+   * @param taskId 任务ID
+   * @returns 下载令牌
+   */
+  private issueDownloadToken(taskId: string): string {
+    const encoded = Buffer.from(JSON.stringify({
+      t: taskId,
+      e: Date.now() + this.DOWNLOAD_TOKEN_TTL,
+    })).toString('base64url');
+    return `${encoded}.${cryptoService.hmac(encoded, this.secret)}`;
+  }
+
+  /**
+   * 校验固件下载令牌
+   * @param token 下载令牌
+   * @param taskId 任务ID
+   * @returns 是否有效
+   */
+  private verifyDownloadToken(token: string | null, taskId: string): boolean {
+    if (!token) {
+      return false;
+    }
+
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      return false;
+    }
+
+    const expected = Buffer.from(cryptoService.hmac(encoded, this.secret), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return false;
+    }
+
+    try {
+      const data = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      return data.t === taskId && typeof data.e === 'number' && data.e >= Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 记录审计日志
+   */
+  private async audit(
+    actor: OtaActor,
+    eventType: AuditEventType,
+    level: AuditLogLevel,
+    resourceType: string,
+    resourceId: string,
+    description: string,
+    details?: Record<string, any>
+  ): Promise<void> {
+    await auditLogService.log({
+      userId: actor.userId,
+      username: actor.username,
+      eventType,
+      level,
+      resourceType,
+      resourceId,
+      description,
+      details,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+  }
+
+  /**
+   * 随机打乱数组（Fisher-Yates）
+   * @param items 数组
+   * @returns 打乱后的数组
+   */
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = crypto.randomInt(i + 1);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * 设置事件监听器：设备升级进度上报和设备上线
+   */
+  private setupEventListeners(): void {
+    mqttClient.on('connect', () => {
+      mqttClient.subscribe('devices/+/ota/progress', { qos: 1 }).catch(error => {
+        console.error(`Error subscribing to OTA progress: ${error}`);
+      });
+    });
+
+    mqttClient.on('message', (topic: string, payload: Buffer) => {
+      const match = topic.match(/^devices\/([^\/]+)\/ota\/progress$/);
+      if (!match) return;
+
+      const report = this.parseProgress(payload);
+      if (report) {
+        this.handleProgress(match[1], report).catch(error => {
+          console.error(`处理设备 ${match[1]} 升级进度失败:`, error);
+        });
+      }
+    });
+
+    deviceConnectionService.on('device_online', (deviceId: string) => {
+      this.renotifyDevice(deviceId).catch(error => {
+        console.error(`设备 ${deviceId} 上线后重新通知升级失败:`, error);
+      });
+    });
+  }
+
+  /**
+   * 解析升级进度上报
+   * @param payload 负载
+   * @returns 升级进度，格式不正确时返回null
+   */
+  private parseProgress(payload: Buffer): OtaProgressReport | null {
+    try {
+      const body = JSON.parse(payload.toString('utf8'));
+      if (!body || typeof body.taskId !== 'string') {
+        return null;
+      }
+      if (!['DOWNLOADING', 'UPGRADING', 'SUCCEEDED', 'FAILED'].includes(body.status)) {
+        return null;
+      }
+
+      return {
+        taskId: body.taskId,
+        status: body.status,
+        progress: typeof body.progress === 'number' ? body.progress : undefined,
+        message: typeof body.message === 'string' ? body.message : undefined,
+        fromVersion: typeof body.fromVersion === 'string' ? body.fromVersion : undefined,
+      };
+    } catch {
+      return null;
+    }
+  }
+}
+
+// 导出单例实例
+export const otaService = OtaService.getInstance();
+
+export default otaService;
@@ -0,0 +1,287 @@
+/**
+ * 报文分帧工具 - 将TCP字节流或UDP数据报切分为设备报文帧
+ *
+ * 该模块实现了以下功能：
+ * 1. 长度前缀分帧：帧前为1/2/4字节长度字段
+ * 2. 分隔符分帧：以指定字节序列结尾（如 0d0a）
+ * 3. 定长分帧：每帧固定字节数
+ * 4. 自定义帧头分帧：可选起始标志，长度字段位于帧头任意偏移处，起始标志不匹配时自动重新同步
+ * 5. 按分帧方式封装下行报文
+ */
+
+import { z } from 'zod';
+
+/**
+ * 字节序
+ */
+export type ByteOrder = 'BE' | 'LE';
+
+/**
+ * 分帧配置
+ * - none：每个数据块（UDP数据报/TCP读取的数据）即为一帧
+ * - length-prefix：帧 = 长度字段 + 负载，输出负载
+ * - delimiter：帧 = 负载 + 分隔符，输出负载
+ * - fixed-length：每帧固定length字节
+ * - custom-header：帧长 = lengthOffset + lengthBytes + 长度字段值 + lengthAdjustment，输出含帧头的完整帧
+ */
+export type FramingConfig = z.infer<typeof framingSchema>;
+
+// 十六进制字节序列
+const hexBytesSchema = z.string().regex(/^([0-9a-fA-F]{2}){1,8}$/, '须为1~8字节的十六进制字符串');
+
+// 长度字段字节数
+const lengthBytesSchema = z.union([z.literal(1), z.literal(2), z.literal(4)]);
+
+// 单帧最大长度，默认64KB
+const maxFrameLengthSchema = z.number().int().positive().max(1024 * 1024).default(64 * 1024);
+
+// 分帧配置验证模式
+export const framingSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('none'),
+    maxFrameLength: maxFrameLengthSchema,
+  }),
+  z.object({
+    type: z.literal('length-prefix'),
+    lengthBytes: lengthBytesSchema,
+    byteOrder: z.enum(['BE', 'LE']).default('BE'),
+    // 长度值是否包含长度字段本身
+    includesPrefix: z.boolean().default(false),
+    maxFrameLength: maxFrameLengthSchema,
+  }),
+  z.object({
+    type: z.literal('delimiter'),
+    delimiter: hexBytesSchema,
+    maxFrameLength: maxFrameLengthSchema,
+  }),
+  z.object({
+    type: z.literal('fixed-length'),
+    length: z.number().int().positive().max(65535),
+    maxFrameLength: maxFrameLengthSchema,
+  }),
+  z.object({
+    type: z.literal('custom-header'),
+    magic: hexBytesSchema.optional(),
+    lengthOffset: z.number().int().min(0).max(64),
+    lengthBytes: lengthBytesSchema,
+    byteOrder: z.enum(['BE', 'LE']).default('BE'),
+    // 帧长修正值，可为负数（如长度字段值包含帧头时）
+    lengthAdjustment: z.number().int().min(-65535).max(65535).default(0),
+    maxFrameLength: maxFrameLengthSchema,
+  }),
+]);
+
+/**
+ * 分帧错误，数据流已无法继续切分
+ */
+export class FramingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FramingError';
+  }
+}
+
+/**
+ * 读取长度字段
+ * @param data 数据
+ * @param offset 偏移
+ * @param bytes 字节数
+ * @param byteOrder 字节序
+ */
+function readLength(data: Buffer, offset: number, bytes: 1 | 2 | 4, byteOrder: ByteOrder): number {
+  if (bytes === 1) return data.readUInt8(offset);
+  if (bytes === 2) return byteOrder === 'BE' ? data.readUInt16BE(offset) : data.readUInt16LE(offset);
+  return byteOrder === 'BE' ? data.readUInt32BE(offset) : data.readUInt32LE(offset);
+}
+
+/**
+ * 写入长度字段
+ * @param value 长度值
+ * @param bytes 字节数
+ * @param byteOrder 字节序
+ */
+function writeLength(value: number, bytes: 1 | 2 | 4, byteOrder: ByteOrder): Buffer {
+  if (value >= Math.pow(2, bytes * 8)) {
+    throw new FramingError(`报文长度 ${value} 超出${bytes}字节长度字段范围`);
+  }
+
+  const buffer = Buffer.alloc(bytes);
+  if (bytes === 1) buffer.writeUInt8(value);
+  else if (bytes === 2) byteOrder === 'BE' ? buffer.writeUInt16BE(value) : buffer.writeUInt16LE(value);
+  else byteOrder === 'BE' ? buffer.writeUInt32BE(value) : buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+/**
+ * 分帧器，按连接保存未成帧的数据（支持任意分片和粘包输入）
+ */
+export class FrameDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly config: FramingConfig) {}
+
+  /**
+   * 输入数据，返回已完整接收的帧
+   * @param chunk 数据
+   * @returns 帧列表
+   * @throws FramingError 帧长度超过上限或长度字段无效
+   */
+  public push(chunk: Buffer): Buffer[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+    const frames: Buffer[] = [];
+
+    try {
+      let frame: Buffer | null;
+      while (this.buffer.length > 0 && (frame = this.next()) !== null) {
+        frames.push(frame);
+      }
+    } catch (error) {
+      this.reset();
+      throw error;
+    }
+
+    // 残留数据超过帧长上限说明数据流已失去同步
+    if (this.buffer.length > this.config.maxFrameLength) {
+      this.reset();
+      throw new FramingError(`帧长度超过上限 ${this.config.maxFrameLength} 字节`);
+    }
+
+    return frames;
+  }
+
+  /**
+   * 丢弃未成帧的数据
+   */
+  public reset(): void {
+    this.buffer = Buffer.alloc(0);
+  }
+
+  /**
+   * 从缓冲区取出下一帧
+   * @returns 帧，数据不足时返回null
+   */
+  private next(): Buffer | null {
+    const config = this.config;
+
+    switch (config.type) {
+      case 'none':
+        return this.take(this.buffer.length, 0, this.buffer.length);
+
+      case 'length-prefix': {
+        if (this.buffer.length < config.lengthBytes) return null;
+        const value = readLength(this.buffer, 0, config.lengthBytes, config.byteOrder);
+        const total = config.includesPrefix ? value : value + config.lengthBytes;
+        if (total < config.lengthBytes) {
+          throw new FramingError(`长度字段值 ${value} 无效`);
+        }
+        this.checkLength(total);
+        if (this.buffer.length < total) return null;
+        return this.take(total, config.lengthBytes, total);
+      }
+
+      case 'delimiter': {
+        const delimiter = Buffer.from(config.delimiter, 'hex');
+        const index = this.buffer.indexOf(delimiter);
+        if (index < 0) return null;
+        return this.take(index + delimiter.length, 0, index);
+      }
+
+      case 'fixed-length':
+        if (this.buffer.length < config.length) return null;
+        return this.take(config.length, 0, config.length);
+
+      case 'custom-header': {
+        if (config.magic && !this.syncToMagic(Buffer.from(config.magic, 'hex'))) return null;
+
+        const headerLength = config.lengthOffset + config.lengthBytes;
+        if (this.buffer.length < headerLength) return null;
+
+        const value = readLength(this.buffer, config.lengthOffset, config.lengthBytes, config.byteOrder);
+        const total = headerLength + value + config.lengthAdjustment;
+        if (total < headerLength) {
+          throw new FramingError(`长度字段值 ${value} 无效`);
+        }
+        this.checkLength(total);
+        if (this.buffer.length < total) return null;
+        return this.take(total, 0, total);
+      }
+    }
+  }
+
+  /**
+   * 丢弃起始标志之前的数据
+   * @param magic 起始标志
+   * @returns 缓冲区是否以完整的起始标志开头
+   */
+  private syncToMagic(magic: Buffer): boolean {
+    const index = this.buffer.indexOf(magic);
+    if (index < 0) {
+      // 保留末尾可能是起始标志前半部分的数据
+      this.buffer = this.buffer.subarray(Math.max(0, this.buffer.length - magic.length + 1));
+      return false;
+    }
+
+    this.buffer = this.buffer.subarray(index);
+    return true;
+  }
+
+  /**
+   * 校验帧长度
+   * @param length 帧长度
+   */
+  private checkLength(length: number): void {
+    if (length > this.config.maxFrameLength) {
+      throw new FramingError(`帧长度 ${length} 超过上限 ${this.config.maxFrameLength} 字节`);
+    }
+  }
+
+  /**
+   * 从缓冲区移除一帧并返回其中的负载
+   * @param consumed 移除的字节数
+   * @param start 负载起始偏移
+   * @param end 负载结束偏移
+   */
+  private take(consumed: number, start: number, end: number): Buffer {
+    const frame = Buffer.from(this.buffer.subarray(start, end));
+    this.buffer = this.buffer.subarray(consumed);
+    return frame;
+  }
+}
+
+/**
+ * 按分帧方式封装下行报文
+ * 自定义帧头分帧时报文须已包含帧头，原样发送
+ * @param config 分帧配置
+ * @param payload 报文负载
+ * @returns 完整帧
+ * @throws FramingError 报文长度不符合分帧配置
+ */
+export function encodeFrame(config: FramingConfig, payload: Buffer): Buffer {
+  switch (config.type) {
+    case 'length-prefix': {
+      const length = payload.length + (config.includesPrefix ? config.lengthBytes : 0);
+      return Buffer.concat([writeLength(length, config.lengthBytes, config.byteOrder), payload]);
+    }
+    case 'delimiter':
+      return Buffer.concat([payload, Buffer.from(config.delimiter, 'hex')]);
+    case 'fixed-length':
+      if (payload.length > config.length) {
+        throw new FramingError(`报文长度 ${payload.length} 超过定长 ${config.length} 字节`);
+      }
+      // 不足定长时补0
+      return Buffer.concat([payload, Buffer.alloc(config.length - payload.length)]);
+    default:
+      return payload;
+  }
+}
+
+/**
+ * 将数据切分为帧（用于UDP数据报和测试解码，数据末尾不完整的帧丢弃）
+ * @param config 分帧配置
+ * @param data 数据
+ * @returns 帧列表
+ * @throws FramingError 帧长度超过上限或长度字段无效
+ */
+export function splitFrames(config: FramingConfig, data: Buffer): Buffer[] {
+  return new FrameDecoder(config).push(data);
+}
@@ -0,0 +1,478 @@
+/**
+ * 表格文件解析器 - 读写CSV和XLSX文件（首个工作表），用于设备批量导入导出
+ *
+ * 该模块实现了以下功能：
+ * 1. CSV（RFC 4180）解析：双引号转义、字段内换行、CRLF/LF换行、UTF-8 BOM
+ * 2. CSV生成：带UTF-8 BOM以便Excel正确识别中文，以公式字符开头的内容加单引号前缀，防止公式注入
+ * 3. XLSX解析：读取ZIP容器（存储和Deflate压缩，不支持ZIP64），解析共享字符串和首个工作表的单元格
+ * 4. XLSX生成：单个工作表，单元格均为内联字符串
+ *
+ * 解析结果为字符串二维数组，空单元格为空字符串，每行补齐到表头列数
+ */
+
+import * as zlib from 'zlib';
+
+/**
+ * 表格文件格式
+ */
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+/**
+ * 表格解析错误
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+// 单个ZIP条目解压后的大小上限，防止压缩炸弹
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024;
+
+// ZIP记录签名
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+// 需要加前缀的公式起始字符
+const FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+/**
+ * 按文件名或内容识别格式：XLSX为ZIP容器（以PK开头）
+ * @param fileName 文件名
+ * @param data 文件内容
+ */
+export function detectFormat(fileName: string, data: Buffer): SpreadsheetFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || (data.length >= 4 && data.readUInt32LE(0) === LOCAL_FILE_HEADER)) {
+    return 'xlsx';
+  }
+  if (extension === 'csv' || extension === 'txt') {
+    return 'csv';
+  }
+  return null;
+}
+
+/**
+ * 解析表格文件
+ * @param data 文件内容
+ * @param format 文件格式
+ * @returns 行数据
+ */
+export function parseSpreadsheet(data: Buffer, format: SpreadsheetFormat): string[][] {
+  const rows = format === 'xlsx' ? parseXlsx(data) : parseCsv(data.toString('utf8'));
+  const width = rows.length > 0 ? rows[0].length : 0;
+  return rows.map(row => (row.length < width ? [...row, ...new Array(width - row.length).fill('')] : row));
+}
+
+/**
+ * 生成表格文件
+ * @param rows 行数据，首行为表头
+ * @param format 文件格式
+ * @param sheetName 工作表名称（XLSX）
+ */
+export function buildSpreadsheet(rows: string[][], format: SpreadsheetFormat, sheetName = 'Sheet1'): Buffer {
+  return format === 'xlsx' ? buildXlsx(rows, sheetName) : Buffer.from(`\uFEFF${serializeCsv(rows)}`, 'utf8');
+}
+
+/**
+ * 解析CSV文本
+ * @param text CSV文本
+ * @returns 行数据，忽略末尾空行
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          quoted = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new SpreadsheetError('CSV格式错误：引号未闭合');
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * 生成CSV文本
+ * @param rows 行数据
+ */
+export function serializeCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeCsvField(value: string): string {
+  // 负数不视为公式
+  if (FORMULA_PREFIXES.includes(value[0]) && !/^-\d+(\.\d+)?$/.test(value)) {
+    value = `'${value}`;
+  }
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 解析XLSX文件的首个工作表
+ * @param data 文件内容
+ * @returns 行数据
+ */
+export function parseXlsx(data: Buffer): string[][] {
+  const entries = readZip(data);
+  const read = (name: string): string | null => {
+    const entry = entries.get(name);
+    return entry ? entry().toString('utf8') : null;
+  };
+
+  const sharedStrings = parseSharedStrings(read('xl/sharedStrings.xml'));
+  const sheet = read(resolveFirstSheet(read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels')));
+  if (!sheet) {
+    throw new SpreadsheetError('XLSX文件中没有工作表');
+  }
+
+  const rows: string[][] = [];
+  const rowPattern = /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+  const cellPattern = /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+  let rowMatch: RegExpExecArray | null;
+  let nextRow = 0;
+
+  while ((rowMatch = rowPattern.exec(sheet))) {
+    const rowNumber = Number(attribute(rowMatch[1], 'r')) || nextRow + 1;
+    nextRow = rowNumber;
+    const cells: string[] = [];
+    let nextColumn = 0;
+    let cellMatch: RegExpExecArray | null;
+
+    cellPattern.lastIndex = 0;
+    while ((cellMatch = cellPattern.exec(rowMatch[2] || ''))) {
+      const reference = attribute(cellMatch[1], 'r');
+      const column = reference ? columnIndex(reference) : nextColumn;
+      nextColumn = column + 1;
+      const value = cellValue(attribute(cellMatch[1], 't'), cellMatch[2] || '', sharedStrings);
+      while (cells.length < column) cells.push('');
+      cells[column] = value;
+    }
+
+    // 按行号补齐中间的空行，保持行号与表格一致
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+
+  // 去除末尾空行
+  while (rows.length > 0 && rows[rows.length - 1].every(cell => cell === '')) {
+    rows.pop();
+  }
+  return rows;
+}
+
+/**
+ * 生成单工作表的XLSX文件
+ * @param rows 行数据
+ * @param sheetName 工作表名称
+ */
+export function buildXlsx(rows: string[][], sheetName = 'Sheet1'): Buffer {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndex) => {
+      const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const files: Array<[string, string]> = [
+    ['[Content_Types].xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'],
+    ['_rels/.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'],
+    ['xl/workbook.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      `<sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets>` +
+      '</workbook>'],
+    ['xl/_rels/workbook.xml.rels',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'],
+    ['xl/worksheets/sheet1.xml',
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      `<sheetData>${sheetRows.join('')}</sheetData>` +
+      '</worksheet>'],
+  ];
+
+  return writeZip(files.map(([name, content]) => ({ name, data: Buffer.from(content, 'utf8') })));
+}
+
+/**
+ * 读取ZIP中央目录，返回按文件名延迟解压的条目
+ */
+function readZip(data: Buffer): Map<string, () => Buffer> {
+  // 从末尾查找中央目录结束记录（其后最多有65535字节注释）
+  let end = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new SpreadsheetError('不是有效的XLSX文件');
+  }
+
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new SpreadsheetError('不支持ZIP64格式的XLSX文件');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new SpreadsheetError('XLSX文件目录已损坏');
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    entries.set(name, () => {
+      if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new SpreadsheetError('XLSX文件已损坏');
+      }
+      const start = localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+      const compressed = data.subarray(start, start + compressedSize);
+      if (method === 0) {
+        return compressed;
+      }
+      if (method !== 8) {
+        throw new SpreadsheetError(`不支持的压缩方式: ${method}`);
+      }
+      try {
+        return zlib.inflateRawSync(compressed, { maxOutputLength: MAX_ENTRY_SIZE });
+      } catch {
+        throw new SpreadsheetError('XLSX文件解压失败或内容过大');
+      }
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * 生成ZIP文件（Deflate压缩）
+ */
+function writeZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8');
+    const compressed = zlib.deflateRawSync(file.data);
+    const crc = zlib.crc32(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    local.writeUInt16LE(20, 4);       // 解压所需版本
+    local.writeUInt16LE(0x0800, 6);   // 文件名为UTF-8
+    local.writeUInt16LE(8, 8);        // Deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    central.writeUInt16LE(20, 4);     // 创建版本
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * 解析共享字符串表，富文本按各段文本拼接
+ */
+function parseSharedStrings(xml: string | null): string[] {
+  if (!xml) {
+    return [];
+  }
+  const strings: string[] = [];
+  const itemPattern = /<(?:\w+:)?si\b[^>]*>([\s\S]*?)<\/(?:\w+:)?si>|<(?:\w+:)?si\b[^>]*\/>/g;
+  let match: RegExpExecArray | null;
+  while ((match = itemPattern.exec(xml))) {
+    strings.push(textContent(match[1] || ''));
+  }
+  return strings;
+}
+
+/**
+ * 按工作簿关系查找首个工作表的路径
+ */
+function resolveFirstSheet(workbook: string | null, relationships: string | null): string {
+  const fallback = 'xl/worksheets/sheet1.xml';
+  const sheet = workbook?.match(/<(?:\w+:)?sheet\b([^>]*)\/?>/);
+  const id = sheet ? attribute(sheet[1], 'r:id') : null;
+  if (!id || !relationships) {
+    return fallback;
+  }
+
+  const relationshipPattern = /<(?:\w+:)?Relationship\b([^>]*)\/?>/g;
+  let match: RegExpExecArray | null;
+  while ((match = relationshipPattern.exec(relationships))) {
+    if (attribute(match[1], 'Id') === id) {
+      const target = attribute(match[1], 'Target') || '';
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * 获取单元格文本：共享字符串、内联字符串、布尔值，其余取原始值
+ */
+function cellValue(type: string | null, content: string, sharedStrings: string[]): string {
+  if (type === 'inlineStr') {
+    return textContent(content);
+  }
+
+  const value = content.match(/<(?:\w+:)?v\b[^>]*>([\s\S]*?)<\/(?:\w+:)?v>/);
+  const raw = value ? decodeXml(value[1]) : '';
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'b':
+      return raw === '1' ? 'true' : 'false';
+    default:
+      return raw;
+  }
+}
+
+/**
+ * 拼接元素内所有文本节点（<t>），忽略拼音注音（<rPh>）
+ */
+function textContent(xml: string): string {
+  const withoutPhonetic = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+  let text = '';
+  const textPattern = /<(?:\w+:)?t\b[^>]*>([\s\S]*?)<\/(?:\w+:)?t>/g;
+  let match: RegExpExecArray | null;
+  while ((match = textPattern.exec(withoutPhonetic))) {
+    text += decodeXml(match[1]);
+  }
+  return text;
+}
+
+function attribute(attributes: string, name: string): string | null {
+  const match = attributes.match(new RegExp(`(?:^|\\s)${name.replace(':', '\\:')}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * 单元格引用（如AB12）的列序号，从0开始
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * 列序号对应的列名（0 -> A，26 -> AA）
+ */
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function decodeXml(value: string): string {
+  return value.replace(/&(?:#x([0-9a-fA-F]+)|#(\d+)|(lt|gt|amp|quot|apos));/g, (_, hex, decimal, name) => {
+    if (hex) return String.fromCodePoint(parseInt(hex, 16));
+    if (decimal) return String.fromCodePoint(parseInt(decimal, 10));
+    return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[name as 'lt'];
+  });
+}
+
+function escapeXml(value: string): string {
+  return value
+    // XML 1.0不允许的控制字符
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
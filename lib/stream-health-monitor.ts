@@ -0,0 +1,428 @@
+/**
+ * 视频流健康监测服务 - 周期性探测所有启用的视频流并维护在线状态
+ *
+ * 该服务实现了以下功能：
+ * 1. 定时探测：按间隔探测所有启用的视频配置，限制并发数
+ * 2. 状态判定：在线、降级（帧率/码率过低或首帧过慢）、离线（连续失败）
+ * 3. 状态历史：每次检测写入健康检测记录，状态变化时更新视频配置
+ * 4. 事件通知：状态变化时触发state_change事件，供通知服务生成摄像头离线告警
+ * 5. 实时推送：通过WebSocket向组织推送视频流状态
+ */
+
+import { EventEmitter } from 'events';
+import { StreamType, VideoHealthState } from '@prisma/client';
+import prisma from './db-prisma';
+import { streamProbeService, StreamProbeResult, ProbeProtocol } from './stream-probe-service';
+import { streamIngestService, IngestSessionState } from './stream-ingest-service';
+import { websocketService } from './websocket-service';
+
+/**
+ * 视频流健康状态
+ */
+export interface StreamHealthStatus {
+  // 视频配置ID
+  videoConfigId: string;
+  // 视频名称
+  name: string;
+  // 摄像头编号
+  cameraCode: string;
+  // 组织ID
+  organizationId: string;
+  // 健康状态
+  state: VideoHealthState;
+  // 码率（kbps）
+  bitrate?: number;
+  // 帧率
+  frameRate?: number;
+  // 首帧耗时（毫秒）
+  timeToFirstFrame?: number;
+  // 检测说明
+  message: string;
+  // 检测时间
+  checkedAt: Date;
+  // 进入当前状态的时间
+  since: Date;
+  // 连续失败次数
+  consecutiveFailures: number;
+}
+
+/**
+ * 健康检测记录查询选项
+ */
+export interface HealthHistoryOptions {
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+}
+
+/**
+ * 待检测的视频配置
+ */
+interface MonitoredStream {
+  id: string;
+  name: string;
+  cameraCode: string;
+  organizationId: string;
+  streamUrl: string;
+  streamType: StreamType;
+  healthState: VideoHealthState;
+}
+
+/**
+ * 视频流健康监测服务类
+ * 事件：
+ * - status(status)：每次检测完成
+ * - state_change(status, previousState)：健康状态变化
+ */
+export class StreamHealthMonitor extends EventEmitter {
+  private static instance: StreamHealthMonitor;
+  private statuses: Map<string, StreamHealthStatus> = new Map();
+  // 接入网关会话的上次累计字节数，用于计算码率
+  private ingestBytes: Map<string, { bytes: number; at: number }> = new Map();
+  private checkInterval: NodeJS.Timeout | null = null;
+  private checking: boolean = false;
+  private lastPurgeAt: number = 0;
+  private readonly CHECK_INTERVAL = Number(process.env.STREAM_HEALTH_INTERVAL || 60000); // 60秒
+  private readonly PROBE_TIMEOUT = Number(process.env.STREAM_HEALTH_PROBE_TIMEOUT || 8000); // 8秒
+  private readonly CONCURRENCY = Number(process.env.STREAM_HEALTH_CONCURRENCY || 4);
+  private readonly OFFLINE_THRESHOLD = 2; // 连续失败2次视为离线
+  private readonly MIN_FRAME_RATE = Number(process.env.STREAM_HEALTH_MIN_FPS || 5);
+  private readonly MIN_BITRATE = Number(process.env.STREAM_HEALTH_MIN_BITRATE || 32); // kbps
+  private readonly SLOW_FIRST_FRAME = 5000; // 首帧超过5秒视为降级
+  private readonly HISTORY_RETENTION = Number(process.env.STREAM_HEALTH_RETENTION_DAYS || 7) * 24 * 60 * 60 * 1000;
+  private readonly PURGE_INTERVAL = 60 * 60 * 1000; // 每小时清理一次过期记录
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamHealthMonitor {
+    if (!StreamHealthMonitor.instance) {
+      StreamHealthMonitor.instance = new StreamHealthMonitor();
+    }
+    return StreamHealthMonitor.instance;
+  }
+
+  /**
+   * 启动监测
+   */
+  public start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.checkAll();
+    }, this.CHECK_INTERVAL);
+
+    // 启动后立即执行一次
+    setTimeout(() => this.checkAll(), 0);
+    console.log(`视频流健康监测已启动，间隔 ${this.CHECK_INTERVAL}ms`);
+  }
+
+  /**
+   * 停止监测
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * 是否正在运行
+   */
+  public isRunning(): boolean {
+    return this.checkInterval !== null;
+  }
+
+  /**
+   * 获取视频流当前健康状态
+   * @param videoConfigId 视频配置ID
+   * @returns 健康状态
+   */
+  public getStatus(videoConfigId: string): StreamHealthStatus | undefined {
+    return this.statuses.get(videoConfigId);
+  }
+
+  /**
+   * 获取健康状态列表
+   * @param organizationId 组织ID，不传时返回全部
+   * @returns 健康状态列表
+   */
+  public getStatuses(organizationId?: string): StreamHealthStatus[] {
+    const statuses = Array.from(this.statuses.values());
+    return organizationId
+      ? statuses.filter(status => status.organizationId === organizationId)
+      : statuses;
+  }
+
+  /**
+   * 获取健康检测记录
+   * @param videoConfigId 视频配置ID
+   * @param options 查询选项
+   * @returns 检测记录，按时间倒序
+   */
+  public async getHistory(videoConfigId: string, options: HealthHistoryOptions = {}) {
+    return prisma.videoHealthLog.findMany({
+      where: {
+        videoConfigId,
+        checkedAt: {
+          gte: options.startTime,
+          lte: options.endTime,
+        },
+      },
+      orderBy: { checkedAt: 'desc' },
+      take: Math.min(options.limit || 100, 1000),
+    });
+  }
+
+  /**
+   * 检测所有启用的视频流
+   */
+  public async checkAll(): Promise<void> {
+    // 上一轮尚未完成时跳过
+    if (this.checking) {
+      return;
+    }
+    this.checking = true;
+
+    try {
+      const streams: MonitoredStream[] = await prisma.videoConfig.findMany({
+        where: { status: true },
+        select: {
+          id: true,
+          name: true,
+          cameraCode: true,
+          organizationId: true,
+          streamUrl: true,
+          streamType: true,
+          healthState: true,
+        },
+      });
+
+      // 移除已停用或删除的视频流
+      const ids = new Set(streams.map(stream => stream.id));
+      for (const id of this.statuses.keys()) {
+        if (!ids.has(id)) {
+          this.statuses.delete(id);
+          this.ingestBytes.delete(id);
+        }
+      }
+
+      // 按并发数分批探测
+      const queue = [...streams];
+      const workers = Array.from({ length: Math.min(this.CONCURRENCY, queue.length) }, async () => {
+        let stream: MonitoredStream | undefined;
+        while ((stream = queue.shift())) {
+          await this.checkStream(stream);
+        }
+      });
+      await Promise.all(workers);
+
+      await this.purgeHistory();
+    } catch (error) {
+      console.error('Error checking video stream health:', error);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * 立即检测指定视频流
+   * @param videoConfigId 视频配置ID
+   * @returns 检测后的健康状态，视频配置不存在或已停用时返回null
+   */
+  public async checkStreamById(videoConfigId: string): Promise<StreamHealthStatus | null> {
+    const stream = await prisma.videoConfig.findFirst({
+      where: { id: videoConfigId, status: true },
+      select: {
+        id: true,
+        name: true,
+        cameraCode: true,
+        organizationId: true,
+        streamUrl: true,
+        streamType: true,
+        healthState: true,
+      },
+    });
+
+    return stream ? this.checkStream(stream) : null;
+  }
+
+  /**
+   * 检测单个视频流
+   * @param stream 视频配置
+   * @returns 检测后的健康状态
+   */
+  private async checkStream(stream: MonitoredStream): Promise<StreamHealthStatus | null> {
+    try {
+      const previous = this.statuses.get(stream.id);
+      const previousState = previous?.state ?? stream.healthState;
+      const result = this.checkIngestSession(stream.id) || await streamProbeService.probe(
+        stream.streamUrl,
+        stream.streamType,
+        this.PROBE_TIMEOUT
+      );
+      const now = new Date();
+
+      let state: VideoHealthState;
+      let message = result.message;
+      let consecutiveFailures = 0;
+
+      if (result.success) {
+        const issues = this.getDegradedReasons(result);
+        state = issues.length > 0 ? VideoHealthState.DEGRADED : VideoHealthState.ONLINE;
+        if (issues.length > 0) {
+          message = issues.join('; ');
+        }
+      } else {
+        consecutiveFailures = (previous?.consecutiveFailures || 0) + 1;
+        // 偶发失败不立即判定离线，状态未知或已离线时直接判定
+        state = consecutiveFailures >= this.OFFLINE_THRESHOLD
+          || previousState === VideoHealthState.UNKNOWN
+          || previousState === VideoHealthState.OFFLINE
+          ? VideoHealthState.OFFLINE
+          : previousState;
+      }
+
+      const status: StreamHealthStatus = {
+        videoConfigId: stream.id,
+        name: stream.name,
+        cameraCode: stream.cameraCode,
+        organizationId: stream.organizationId,
+        state,
+        bitrate: result.info?.bitrate ?? (result.success ? previous?.bitrate : undefined),
+        frameRate: result.info?.frameRate ?? (result.success ? previous?.frameRate : undefined),
+        timeToFirstFrame: result.info?.timeToFirstFrame,
+        message,
+        checkedAt: now,
+        since: previous && previous.state === state ? previous.since : now,
+        consecutiveFailures,
+      };
+
+      this.statuses.set(stream.id, status);
+
+      await prisma.videoHealthLog.create({
+        data: {
+          videoConfigId: stream.id,
+          state,
+          bitrate: status.bitrate,
+          frameRate: status.frameRate,
+          timeToFirstFrame: status.timeToFirstFrame,
+          message: status.message.slice(0, 500),
+          checkedAt: now,
+        },
+      });
+
+      if (state !== previousState) {
+        await prisma.videoConfig.updateMany({
+          where: { id: stream.id },
+          data: { healthState: state, healthChangedAt: now },
+        });
+        this.emit('state_change', status, previousState);
+      }
+
+      this.emit('status', status);
+      websocketService.sendVideoStatus(status);
+
+      return status;
+    } catch (error) {
+      console.error(`Error checking health of video stream ${stream.id}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 接入网关正在拉流时直接使用会话统计，避免对摄像头建立额外连接
+   * @param videoConfigId 视频配置ID
+   * @returns 检测结果，无运行中的会话时返回null
+   */
+  private checkIngestSession(videoConfigId: string): StreamProbeResult | null {
+    const session = streamIngestService.getSession(videoConfigId);
+    if (!session || session.state !== IngestSessionState.RUNNING) {
+      this.ingestBytes.delete(videoConfigId);
+      return null;
+    }
+
+    const now = Date.now();
+    const last = this.ingestBytes.get(videoConfigId);
+    this.ingestBytes.set(videoConfigId, { bytes: session.bytesIn, at: now });
+
+    // 首次观察到该会话时无法计算码率，改为实际探测
+    if (!last || now <= last.at) {
+      return null;
+    }
+
+    if (session.bytesIn <= last.bytes) {
+      return { success: false, message: 'Ingest session received no data since last check' };
+    }
+
+    return {
+      success: true,
+      message: 'Ingest session is receiving data',
+      info: {
+        protocol: session.streamType === StreamType.RTMP
+          ? ProbeProtocol.RTMP
+          : session.streamType === StreamType.HLS ? ProbeProtocol.HLS : ProbeProtocol.RTSP,
+        hasAudio: false,
+        bitrate: Math.round(((session.bytesIn - last.bytes) * 8) / (now - last.at)),
+      },
+    };
+  }
+
+  /**
+   * 判断降级原因
+   * @param result 探测结果
+   * @returns 降级原因列表，为空表示正常
+   */
+  private getDegradedReasons(result: StreamProbeResult): string[] {
+    const info = result.info;
+    const reasons: string[] = [];
+
+    if (!info) {
+      return reasons;
+    }
+    if (info.frameRate !== undefined && info.frameRate < this.MIN_FRAME_RATE) {
+      reasons.push(`Low frame rate: ${info.frameRate} fps`);
+    }
+    if (info.bitrate !== undefined && info.bitrate < this.MIN_BITRATE) {
+      reasons.push(`Low bitrate: ${info.bitrate} kbps`);
+    }
+    if (info.timeToFirstFrame !== undefined && info.timeToFirstFrame > this.SLOW_FIRST_FRAME) {
+      reasons.push(`Slow first frame: ${info.timeToFirstFrame} ms`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * 清理过期的健康检测记录
+   */
+  private async purgeHistory(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPurgeAt < this.PURGE_INTERVAL) {
+      return;
+    }
+    this.lastPurgeAt = now;
+
+    try {
+      await prisma.videoHealthLog.deleteMany({
+        where: { checkedAt: { lt: new Date(now - this.HISTORY_RETENTION) } },
+      });
+    } catch (error) {
+      console.error('Error purging video health history:', error);
+    }
+  }
+}
+
+// 导出单例实例
+export const streamHealthMonitor = StreamHealthMonitor.getInstance();
+export default streamHealthMonitor;
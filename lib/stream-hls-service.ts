@@ -0,0 +1,409 @@
+/**
+ * HLS输出服务 - 将接入网关的直播流切片为HLS（m3u8 + TS/fMP4片段）
+ *
+ * 该服务实现了以下功能：
+ * 1. 按需切片：首个HLS播放会话请求播放列表时，订阅接入网关并启动FFmpeg切片进程
+ * 2. 片段格式：默认输出MPEG-TS片段，可通过STREAM_HLS_SEGMENT_TYPE=fmp4输出fMP4片段
+ * 3. 播放会话：携带播放令牌打开主播放列表时创建会话，后续播放列表和片段请求凭会话ID访问
+ * 4. 空闲回收：会话超过一段时间没有请求后过期，没有会话的切片进程自动停止并清理片段
+ *
+ * 播放令牌仅在打开主播放列表时校验，与HTTP-FLV/WS-FLV只在建立连接时校验一致；
+ * HLS播放器会持续刷新播放列表，因此播放会话以最后一次请求时间滑动续期
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { cryptoService } from './crypto-service';
+import { streamIngestService, LiveViewer } from './stream-ingest-service';
+
+/**
+ * HLS片段格式
+ */
+export enum HlsSegmentType {
+  MPEGTS = 'mpegts',
+  FMP4 = 'fmp4'
+}
+
+/**
+ * HLS片段文件
+ */
+export interface HlsSegmentFile {
+  filePath: string;
+  contentType: string;
+}
+
+/**
+ * 切片任务内部状态
+ */
+interface HlsPackager {
+  streamId: string;
+  dir: string;
+  process: ChildProcess;
+  // 取消订阅接入网关
+  release: (() => void) | null;
+  stopping: boolean;
+}
+
+/**
+ * HLS播放会话
+ */
+interface HlsViewerSession {
+  streamId: string;
+  // 最后一次请求时间（毫秒时间戳）
+  lastSeen: number;
+}
+
+// 主播放列表和媒体播放列表文件名
+const MASTER_PLAYLIST = 'index.m3u8';
+const MEDIA_PLAYLIST = 'live.m3u8';
+// 允许访问的片段文件名，防止路径穿越
+const SEGMENT_FILE_PATTERN = /^(seg-\d+\.(ts|m4s)|init\.mp4)$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4',
+};
+
+/**
+ * HLS输出服务类
+ */
+export class StreamHlsService {
+  private static instance: StreamHlsService;
+  private packagers: Map<string, HlsPackager> = new Map();
+  private sessions: Map<string, HlsViewerSession> = new Map();
+  private cleanupTimer: NodeJS.Timeout | null = null;
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly STORAGE_DIR = process.env.HLS_DIR || path.join(process.cwd(), 'storage', 'hls');
+  private readonly SEGMENT_TYPE = process.env.STREAM_HLS_SEGMENT_TYPE === HlsSegmentType.FMP4 ? HlsSegmentType.FMP4 : HlsSegmentType.MPEGTS;
+  private readonly SEGMENT_SECONDS = Number(process.env.STREAM_HLS_SEGMENT_SECONDS || 2);
+  private readonly PLAYLIST_SIZE = 6; // 播放列表保留的片段数
+  private readonly SESSION_TIMEOUT = 30000; // 播放会话30秒无请求后过期
+  private readonly PLAYLIST_TIMEOUT = 15000; // 等待首个片段生成的超时时间
+  private readonly MAX_STDIN_BUFFER = 4 * 1024 * 1024;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamHlsService {
+    if (!StreamHlsService.instance) {
+      StreamHlsService.instance = new StreamHlsService();
+    }
+    return StreamHlsService.instance;
+  }
+
+  /**
+   * 获取视频配置的HLS主播放列表路径
+   * @param streamId 视频配置ID
+   * @returns 主播放列表路径
+   */
+  public getPlaylistPath(streamId: string): string {
+    return `/api/streams/${streamId}/hls/${MASTER_PLAYLIST}`;
+  }
+
+  /**
+   * 判断文件名是否为主播放列表
+   * @param fileName 文件名
+   */
+  public isMasterPlaylist(fileName: string): boolean {
+    return fileName === MASTER_PLAYLIST;
+  }
+
+  /**
+   * 判断文件名是否为媒体播放列表
+   * @param fileName 文件名
+   */
+  public isMediaPlaylist(fileName: string): boolean {
+    return fileName === MEDIA_PLAYLIST;
+  }
+
+  /**
+   * 创建HLS播放会话并生成主播放列表
+   * 调用前需已校验播放令牌
+   * @param streamId 视频配置ID
+   * @returns 主播放列表内容
+   */
+  public openSession(streamId: string): string {
+    const sessionId = cryptoService.generateRandomString(24);
+    this.sessions.set(sessionId, { streamId, lastSeen: Date.now() });
+    this.startCleanup();
+
+    return [
+      '#EXTM3U',
+      `#EXT-X-VERSION:${this.SEGMENT_TYPE === HlsSegmentType.FMP4 ? 7 : 3}`,
+      '#EXT-X-STREAM-INF:BANDWIDTH=2000000',
+      `${MEDIA_PLAYLIST}?sid=${sessionId}`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * 校验播放会话并续期
+   * @param streamId 视频配置ID
+   * @param sessionId 会话ID
+   * @returns 会话是否有效
+   */
+  public touchSession(streamId: string, sessionId: string | null): boolean {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || session.streamId !== streamId || Date.now() - session.lastSeen > this.SESSION_TIMEOUT) {
+      return false;
+    }
+
+    session.lastSeen = Date.now();
+    return true;
+  }
+
+  /**
+   * 获取媒体播放列表
+   * 切片进程未运行时启动，等待首个片段生成；片段地址附加会话ID
+   * @param streamId 视频配置ID
+   * @param sessionId 会话ID
+   * @returns 媒体播放列表内容
+   */
+  public async getMediaPlaylist(streamId: string, sessionId: string): Promise<string> {
+    const packager = await this.ensurePackager(streamId);
+    const playlistPath = path.join(packager.dir, MEDIA_PLAYLIST);
+    const deadline = Date.now() + this.PLAYLIST_TIMEOUT;
+
+    while (true) {
+      try {
+        const content = await fs.readFile(playlistPath, 'utf8');
+        return this.rewritePlaylist(content, sessionId);
+      } catch (error) {
+        if (this.packagers.get(streamId) !== packager) {
+          throw new Error('HLS packager stopped');
+        }
+        if (Date.now() >= deadline) {
+          throw new Error('Timed out waiting for HLS playlist');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 250));
+      }
+    }
+  }
+
+  /**
+   * 获取HLS片段文件
+   * @param streamId 视频配置ID
+   * @param fileName 片段文件名
+   * @returns 片段文件，文件名非法或不存在时返回null
+   */
+  public async getSegmentFile(streamId: string, fileName: string): Promise<HlsSegmentFile | null> {
+    const packager = this.packagers.get(streamId);
+    if (!packager || !SEGMENT_FILE_PATTERN.test(fileName)) {
+      return null;
+    }
+
+    const filePath = path.join(packager.dir, fileName);
+    try {
+      await fs.access(filePath);
+    } catch {
+      return null;
+    }
+
+    return { filePath, contentType: CONTENT_TYPES[path.extname(fileName)] };
+  }
+
+  /**
+   * 停止视频配置的HLS输出并使其播放会话失效
+   * 在视频配置停用或删除时调用
+   * @param streamId 视频配置ID
+   */
+  public stopStream(streamId: string): void {
+    for (const [sessionId, session] of this.sessions) {
+      if (session.streamId === streamId) {
+        this.sessions.delete(sessionId);
+      }
+    }
+
+    const packager = this.packagers.get(streamId);
+    if (packager) {
+      this.stopPackager(packager);
+    }
+  }
+
+  /**
+   * 启动切片任务（已运行时直接返回）
+   * 先启动FFmpeg再订阅接入网关，并发请求共用同一个切片任务
+   * @param streamId 视频配置ID
+   * @returns 切片任务
+   */
+  private async ensurePackager(streamId: string): Promise<HlsPackager> {
+    const existing = this.packagers.get(streamId);
+    if (existing) {
+      return existing;
+    }
+
+    const dir = path.join(this.STORAGE_DIR, streamId);
+    // 清理上次遗留的片段，避免播放器读到旧的播放列表
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+
+    // 异步操作期间可能已有其他请求启动了切片任务
+    const started = this.packagers.get(streamId);
+    if (started) {
+      return started;
+    }
+
+    const child = spawn(this.FFMPEG_PATH, this.buildFfmpegArgs(dir), { stdio: ['pipe', 'ignore', 'pipe'] });
+    const packager: HlsPackager = { streamId, dir, process: child, release: null, stopping: false };
+    this.packagers.set(streamId, packager);
+
+    // 输入源断开后FFmpeg进程可能已退出，忽略写入错误
+    child.stdin!.on('error', () => undefined);
+    child.stderr!.on('data', (chunk: Buffer) => {
+      console.error(`[ffmpeg hls ${streamId}] ${chunk.toString().trim()}`);
+    });
+    child.on('error', (error) => {
+      console.error(`HLS切片任务 ${streamId} 启动FFmpeg失败:`, error);
+    });
+    child.on('close', () => this.stopPackager(packager));
+
+    const viewer: LiveViewer = {
+      id: streamIngestService.generateViewerId('hls'),
+      write: (chunk) => {
+        const stdin = child.stdin;
+        if (!packager.stopping && stdin && stdin.writable && stdin.writableLength <= this.MAX_STDIN_BUFFER) {
+          stdin.write(chunk);
+        }
+      },
+      // 接入网关停止拉流时结束切片，下次请求播放列表时重新启动
+      close: () => this.stopPackager(packager),
+      isCongested: () => (child.stdin?.writableLength || 0) > this.MAX_STDIN_BUFFER,
+    };
+
+    try {
+      const release = await streamIngestService.subscribe(streamId, viewer);
+      // 订阅期间切片任务可能已被停止
+      if (packager.stopping) {
+        release();
+      } else {
+        packager.release = release;
+      }
+    } catch (error) {
+      this.stopPackager(packager);
+      throw error;
+    }
+
+    return packager;
+  }
+
+  /**
+   * 停止切片任务并删除片段
+   * @param packager 切片任务
+   */
+  private stopPackager(packager: HlsPackager): void {
+    if (packager.stopping) {
+      return;
+    }
+    packager.stopping = true;
+
+    if (packager.release) {
+      packager.release();
+      packager.release = null;
+    }
+    packager.process.stdin?.end();
+    packager.process.kill('SIGTERM');
+
+    if (this.packagers.get(packager.streamId) === packager) {
+      this.packagers.delete(packager.streamId);
+    }
+
+    fs.rm(packager.dir, { recursive: true, force: true }).catch((error) => {
+      console.error(`删除HLS片段目录 ${packager.dir} 失败:`, error);
+    });
+  }
+
+  /**
+   * 构建FFmpeg参数
+   * 接入网关输出的FLV已是H.264/AAC，直接复制到HLS片段
+   * @param dir 片段目录
+   * @returns FFmpeg参数
+   */
+  private buildFfmpegArgs(dir: string): string[] {
+    const extension = this.SEGMENT_TYPE === HlsSegmentType.FMP4 ? 'm4s' : 'ts';
+
+    return [
+      '-hide_banner',
+      '-loglevel', 'error',
+      '-f', 'flv',
+      '-i', 'pipe:0',
+      '-c', 'copy',
+      '-f', 'hls',
+      '-hls_time', String(this.SEGMENT_SECONDS),
+      '-hls_list_size', String(this.PLAYLIST_SIZE),
+      '-hls_flags', 'delete_segments+independent_segments+temp_file',
+      '-hls_segment_type', this.SEGMENT_TYPE,
+      ...(this.SEGMENT_TYPE === HlsSegmentType.FMP4 ? ['-hls_fmp4_init_filename', 'init.mp4'] : []),
+      '-hls_segment_filename', path.join(dir, `seg-%d.${extension}`),
+      path.join(dir, MEDIA_PLAYLIST),
+    ];
+  }
+
+  /**
+   * 为播放列表中的片段和初始化片段地址附加会话ID
+   * @param content 播放列表内容
+   * @param sessionId 会话ID
+   * @returns 改写后的播放列表
+   */
+  private rewritePlaylist(content: string, sessionId: string): string {
+    return content
+      .split('\n')
+      .map((line) => {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('#EXT-X-MAP:')) {
+          return trimmed.replace(/URI="([^"]+)"/, (_, uri) => `URI="${path.basename(uri)}?sid=${sessionId}"`);
+        }
+        if (trimmed && !trimmed.startsWith('#')) {
+          return `${path.basename(trimmed)}?sid=${sessionId}`;
+        }
+        return line;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 启动过期会话清理
+   * 清理过期的播放会话，并停止没有播放会话的切片任务
+   */
+  private startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+
+    this.cleanupTimer = setInterval(() => {
+      const now = Date.now();
+      const activeStreams = new Set<string>();
+
+      for (const [sessionId, session] of this.sessions) {
+        if (now - session.lastSeen > this.SESSION_TIMEOUT) {
+          this.sessions.delete(sessionId);
+        } else {
+          activeStreams.add(session.streamId);
+        }
+      }
+
+      for (const packager of Array.from(this.packagers.values())) {
+        if (!activeStreams.has(packager.streamId)) {
+          this.stopPackager(packager);
+        }
+      }
+
+      if (this.sessions.size === 0 && this.packagers.size === 0 && this.cleanupTimer) {
+        clearInterval(this.cleanupTimer);
+        this.cleanupTimer = null;
+      }
+    }, this.SESSION_TIMEOUT / 3);
+    this.cleanupTimer.unref();
+  }
+}
+
+// 导出单例实例
+export const streamHlsService = StreamHlsService.getInstance();
+
+export default streamHlsService;
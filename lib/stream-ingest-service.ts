@@ -0,0 +1,726 @@
+/**
+ * 视频流接入网关服务 - 拉取摄像头流并转封装为HTTP-FLV/WS-FLV
+ *
+ * 该服务实现了以下功能：
+ * 1. 按需拉流：首个观看者到达时启动FFmpeg拉流进程
+ * 2. 转封装：RTSP/RTMP/HTTP/HLS/WebSocket源统一转封装为FLV输出，浏览器不直接访问摄像头地址
+ * 3. 多观看者分发：缓存FLV头和音视频序列头，新观看者从关键帧开始播放
+ * 4. 空闲回收：最后一个观看者离开后延迟停止拉流
+ * 5. 异常重启：拉流进程异常退出时按退避策略自动重启
+ * 6. WS-FLV：独立监听端口（STREAM_WS_PORT，默认8081）处理WebSocket升级请求，路径与HTTP-FLV相同
+ * 7. 播放鉴权：HTTP-FLV和WS-FLV连接均需携带有效的播放令牌
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { createServer, IncomingMessage, Server as HttpServer } from 'http';
+import { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { StreamType } from '@prisma/client';
+import prisma from './db-prisma';
+import { cryptoService } from './crypto-service';
+import { streamTokenService } from './stream-token-service';
+import { FlvParser, FlvTag, FlvTagType, isKeyframe, isSequenceHeader } from './flv-parser';
+
+/**
+ * 拉流会话状态
+ */
+export enum IngestSessionState {
+  STARTING = 'STARTING',
+  RUNNING = 'RUNNING',
+  RESTARTING = 'RESTARTING',
+  STOPPING = 'STOPPING',
+  STOPPED = 'STOPPED'
+}
+
+/**
+ * 直播观看者
+ * 由HTTP-FLV或WS-FLV连接实现
+ */
+export interface LiveViewer {
+  // 观看者ID
+  id: string;
+  // 写入FLV数据
+  write: (chunk: Buffer) => void;
+  // 关闭连接
+  close: () => void;
+  // 发送缓冲是否拥塞（拥塞时丢弃数据并从下一个关键帧重新同步）
+  isCongested?: () => boolean;
+}
+
+/**
+ * 拉流会话信息
+ */
+export interface IngestSessionInfo {
+  // 视频配置ID
+  streamId: string;
+  // 视频流类型
+  streamType: StreamType;
+  // 会话状态
+  state: IngestSessionState;
+  // 启动时间
+  startedAt: Date;
+  // 当前观看者数量
+  viewerCount: number;
+  // 接收的字节数
+  bytesIn: number;
+  // 重启次数
+  restarts: number;
+}
+
+/**
+ * 观看者内部状态
+ */
+interface ViewerEntry {
+  viewer: LiveViewer;
+  // 是否已发送FLV文件头
+  headerSent: boolean;
+  // 是否已从关键帧开始同步
+  synced: boolean;
+}
+
+/**
+ * 拉流会话内部状态
+ */
+interface IngestSession {
+  streamId: string;
+  sourceUrl: string;
+  streamType: StreamType;
+  state: IngestSessionState;
+  process: ChildProcess | null;
+  // WebSocket源连接，数据转发到FFmpeg标准输入
+  source: WebSocket | null;
+  parser: FlvParser;
+  flvHeader: Buffer | null;
+  metadataTag: Buffer | null;
+  videoSequenceHeader: Buffer | null;
+  audioSequenceHeader: Buffer | null;
+  viewers: Map<string, ViewerEntry>;
+  startedAt: Date;
+  bytesIn: number;
+  restarts: number;
+  idleTimer: NodeJS.Timeout | null;
+  restartTimer: NodeJS.Timeout | null;
+}
+
+// 直播路径，形如 /api/streams/{id}/live
+const LIVE_PATH_PATTERN = /^\/api\/streams\/([^\/]+)\/live\/?$/;
+
+/**
+ * 视频流接入网关服务类
+ */
+export class StreamIngestService extends EventEmitter {
+  private static instance: StreamIngestService;
+  private sessions: Map<string, IngestSession> = new Map();
+  private wss: WebSocketServer | null = null;
+  private httpServer: HttpServer | null = null;
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly IDLE_TIMEOUT = Number(process.env.STREAM_IDLE_TIMEOUT || 15000); // 最后一个观看者离开后15秒停止拉流
+  private readonly RESTART_DELAY = 2000; // 重启基础延迟2秒
+  private readonly MAX_RESTARTS = 5;
+  private readonly SOURCE_TIMEOUT = 10000000; // 源读写超时10秒（微秒）
+  private readonly WS_PORT = Number(process.env.STREAM_WS_PORT || 8081);
+  private readonly WS_HOST = process.env.STREAM_WS_HOST || '0.0.0.0';
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamIngestService {
+    if (!StreamIngestService.instance) {
+      StreamIngestService.instance = new StreamIngestService();
+    }
+    return StreamIngestService.instance;
+  }
+
+  /**
+   * 获取视频配置的直播播放路径
+   * @param streamId 视频配置ID
+   * @returns 直播路径
+   */
+  public getLivePath(streamId: string): string {
+    return `/api/streams/${streamId}/live`;
+  }
+
+  /**
+   * 订阅直播流
+   * 如果拉流会话不存在则按需启动
+   * @param streamId 视频配置ID
+   * @param viewer 观看者
+   * @returns 取消订阅函数
+   */
+  public async subscribe(streamId: string, viewer: LiveViewer): Promise<() => void> {
+    let session = this.sessions.get(streamId);
+
+    if (!session) {
+      const videoConfig = await prisma.videoConfig.findUnique({
+        where: { id: streamId },
+      });
+
+      if (!videoConfig) {
+        throw new Error('Video configuration not found');
+      }
+
+      if (!videoConfig.status) {
+        throw new Error('Video stream is disabled');
+      }
+
+      // 异步加载期间可能已有其他观看者创建了会话
+      session = this.sessions.get(streamId) || this.createSession(videoConfig.id, videoConfig.streamUrl, videoConfig.streamType);
+    }
+
+    // 有新观看者到达，取消空闲回收
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+
+    const entry: ViewerEntry = { viewer, headerSent: false, synced: false };
+    session.viewers.set(viewer.id, entry);
+    this.emit('viewer_join', streamId, viewer.id, session.viewers.size);
+
+    const current = session;
+    return () => this.unsubscribe(current, viewer.id);
+  }
+
+  /**
+   * 停止拉流会话并关闭所有观看者
+   * @param streamId 视频配置ID
+   * @returns 是否存在该会话
+   */
+  public stopSession(streamId: string): boolean {
+    const session = this.sessions.get(streamId);
+    if (!session) {
+      return false;
+    }
+
+    for (const { viewer } of session.viewers.values()) {
+      this.closeViewer(viewer);
+    }
+    session.viewers.clear();
+
+    this.terminateSession(session);
+    return true;
+  }
+
+  /**
+   * 获取所有拉流会话信息
+   * @returns 会话信息列表
+   */
+  public getSessions(): IngestSessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => this.toSessionInfo(session));
+  }
+
+  /**
+   * 获取单个拉流会话信息
+   * @param streamId 视频配置ID
+   * @returns 会话信息
+   */
+  public getSession(streamId: string): IngestSessionInfo | undefined {
+    const session = this.sessions.get(streamId);
+    return session ? this.toSessionInfo(session) : undefined;
+  }
+
+  /**
+   * 启动WS-FLV服务
+   * Next.js不暴露其HTTP服务器，WS-FLV在独立端口监听，仅接受直播路径的WebSocket升级请求
+   */
+  public async startWebSocketServer(): Promise<void> {
+    if (this.httpServer) {
+      return;
+    }
+
+    const server = createServer((req, res) => {
+      res.writeHead(426, { 'Content-Type': 'text/plain', Upgrade: 'websocket' });
+      res.end('WebSocket upgrade required');
+    });
+    this.attachWebSocketServer(server);
+
+    // 未匹配直播路径的升级请求没有其他处理器，直接关闭
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex) => {
+      const { pathname } = new URL(request.url || '/', 'http://localhost');
+      if (!LIVE_PATH_PATTERN.test(pathname)) {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.WS_PORT, this.WS_HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = server;
+    console.log(`WS-FLV服务已启动: ${this.WS_HOST}:${this.WS_PORT}`);
+  }
+
+  /**
+   * 获取WS-FLV监听端口
+   * @returns 端口，未启动时返回null
+   */
+  public getWebSocketPort(): number | null {
+    return this.httpServer ? this.WS_PORT : null;
+  }
+
+  /**
+   * 挂载WS-FLV服务到HTTP服务器
+   * 仅处理 /api/streams/{id}/live 路径的升级请求，其余请求交给其他处理器（如Socket.IO）
+   * 升级请求需携带有效的播放令牌（?token=），否则返回401
+   * @param server HTTP服务器实例
+   */
+  public attachWebSocketServer(server: HttpServer): void {
+    if (this.wss) {
+      console.warn('WS-FLV服务已挂载');
+      return;
+    }
+
+    this.wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname, searchParams } = new URL(request.url || '/', 'http://localhost');
+      const match = LIVE_PATH_PATTERN.exec(pathname);
+      if (!match) {
+        return;
+      }
+
+      if (!streamTokenService.verify(searchParams.get('token'), match[1])) {
+        socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+        return;
+      }
+
+      this.wss!.handleUpgrade(request, socket, head, (ws) => {
+        this.handleWebSocketViewer(match[1], ws, request);
+      });
+    });
+
+    console.log('WS-FLV服务已挂载');
+  }
+
+  /**
+   * 关闭所有拉流会话和WS-FLV服务
+   */
+  public shutdown(): void {
+    for (const streamId of Array.from(this.sessions.keys())) {
+      this.stopSession(streamId);
+    }
+
+    if (this.wss) {
+      this.wss.close();
+      this.wss = null;
+    }
+
+    if (this.httpServer) {
+      this.httpServer.close();
+      this.httpServer = null;
+    }
+  }
+
+  /**
+   * 处理WS-FLV观看者连接
+   * @param streamId 视频配置ID
+   * @param ws WebSocket连接
+   * @param request 升级请求
+   */
+  private async handleWebSocketViewer(streamId: string, ws: WebSocket, request: IncomingMessage): Promise<void> {
+    const viewer: LiveViewer = {
+      id: this.generateViewerId('ws'),
+      write: (chunk) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(chunk);
+        }
+      },
+      close: () => ws.close(),
+      // 发送缓冲超过4MB视为拥塞
+      isCongested: () => ws.bufferedAmount > 4 * 1024 * 1024,
+    };
+
+    try {
+      const unsubscribe = await this.subscribe(streamId, viewer);
+      ws.on('close', unsubscribe);
+      ws.on('error', unsubscribe);
+    } catch (error) {
+      console.error(`WS-FLV订阅失败 ${streamId} (${request.socket.remoteAddress}):`, error);
+      ws.close(1011, error instanceof Error ? error.message : 'Failed to open live stream');
+    }
+  }
+
+  /**
+   * 生成观看者ID
+   * @param prefix 前缀（http/ws）
+   * @returns 观看者ID
+   */
+  public generateViewerId(prefix: string): string {
+    return `${prefix}-viewer-${Date.now()}-${cryptoService.generateRandomString(8)}`;
+  }
+
+  /**
+   * 创建并启动拉流会话
+   * @param streamId 视频配置ID
+   * @param sourceUrl 源地址
+   * @param streamType 视频流类型
+   * @returns 拉流会话
+   */
+  private createSession(streamId: string, sourceUrl: string, streamType: StreamType): IngestSession {
+    const session: IngestSession = {
+      streamId,
+      sourceUrl,
+      streamType,
+      state: IngestSessionState.STARTING,
+      process: null,
+      source: null,
+      parser: new FlvParser(),
+      flvHeader: null,
+      metadataTag: null,
+      videoSequenceHeader: null,
+      audioSequenceHeader: null,
+      viewers: new Map(),
+      startedAt: new Date(),
+      bytesIn: 0,
+      restarts: 0,
+      idleTimer: null,
+      restartTimer: null,
+    };
+
+    session.parser.on('header', (header: Buffer) => {
+      session.flvHeader = header;
+    });
+    session.parser.on('tag', (tag: FlvTag) => this.handleTag(session, tag));
+    session.parser.on('error', (error: Error) => {
+      console.error(`拉流会话 ${streamId} FLV解析错误:`, error);
+    });
+
+    this.sessions.set(streamId, session);
+    this.spawnProcess(session);
+    this.emit('session_start', streamId);
+
+    return session;
+  }
+
+  /**
+   * 启动FFmpeg拉流进程
+   * @param session 拉流会话
+   */
+  private spawnProcess(session: IngestSession): void {
+    const fromWebSocket = session.streamType === StreamType.WEBSOCKET;
+    const args = this.buildFfmpegArgs(session.sourceUrl, session.streamType);
+    const child = spawn(this.FFMPEG_PATH, args, { stdio: [fromWebSocket ? 'pipe' : 'ignore', 'pipe', 'pipe'] });
+    session.process = child;
+
+    if (fromWebSocket) {
+      // 源断开后FFmpeg进程可能已退出，忽略写入错误
+      child.stdin!.on('error', () => undefined);
+      session.source = this.openWebSocketSource(session, child);
+    }
+
+    child.stdout!.on('data', (chunk: Buffer) => {
+      if (session.state === IngestSessionState.STARTING || session.state === IngestSessionState.RESTARTING) {
+        session.state = IngestSessionState.RUNNING;
+        this.emit('session_running', session.streamId);
+      }
+      session.bytesIn += chunk.length;
+      session.parser.push(chunk);
+    });
+
+    child.stderr!.on('data', (chunk: Buffer) => {
+      console.error(`[ffmpeg ${session.streamId}] ${chunk.toString().trim()}`);
+    });
+
+    child.on('error', (error) => {
+      console.error(`拉流会话 ${session.streamId} 启动FFmpeg失败:`, error);
+    });
+
+    child.on('close', (code) => {
+      if (session.process !== child) {
+        return;
+      }
+      session.process = null;
+      this.closeSource(session);
+      this.handleProcessExit(session, code);
+    });
+  }
+
+  /**
+   * 连接WebSocket源，将收到的FLV数据写入FFmpeg标准输入
+   * 源断开时结束标准输入，FFmpeg退出后按重启策略重新连接
+   * @param session 拉流会话
+   * @param child FFmpeg进程
+   * @returns WebSocket连接
+   */
+  private openWebSocketSource(session: IngestSession, child: ChildProcess): WebSocket {
+    const ws = new WebSocket(session.sourceUrl);
+    ws.binaryType = 'nodebuffer';
+
+    ws.on('message', (data: Buffer) => {
+      if (child.stdin && child.stdin.writable) {
+        child.stdin.write(data);
+      }
+    });
+    ws.on('close', () => child.stdin?.end());
+    ws.on('error', (error) => {
+      console.error(`拉流会话 ${session.streamId} WebSocket源连接错误:`, error);
+    });
+
+    return ws;
+  }
+
+  /**
+   * 关闭WebSocket源连接
+   * @param session 拉流会话
+   */
+  private closeSource(session: IngestSession): void {
+    if (session.source) {
+      session.source.removeAllListeners('close');
+      session.source.on('error', () => undefined);
+      session.source.terminate();
+      session.source = null;
+    }
+  }
+
+  /**
+   * 构建FFmpeg参数
+   * 视频默认直接复制（H.264），音频统一转为AAC以兼容FLV
+   * WebSocket源由服务端连接后通过标准输入传入FLV数据
+   * @param sourceUrl 源地址
+   * @param streamType 视频流类型
+   * @returns FFmpeg参数
+   */
+  private buildFfmpegArgs(sourceUrl: string, streamType: StreamType): string[] {
+    let inputArgs: string[];
+    switch (streamType) {
+      case StreamType.WEBSOCKET:
+        inputArgs = ['-f', 'flv', '-i', 'pipe:0'];
+        break;
+      case StreamType.RTSP:
+        inputArgs = ['-rw_timeout', String(this.SOURCE_TIMEOUT), '-rtsp_transport', 'tcp', '-i', sourceUrl];
+        break;
+      default:
+        inputArgs = ['-rw_timeout', String(this.SOURCE_TIMEOUT), '-i', sourceUrl];
+    }
+
+    return [
+      '-hide_banner',
+      '-loglevel', 'error',
+      ...inputArgs,
+      '-c:v', process.env.STREAM_INGEST_VIDEO_CODEC || 'copy',
+      '-c:a', 'aac',
+      '-f', 'flv',
+      'pipe:1',
+    ];
+  }
+
+  /**
+   * 处理FFmpeg进程退出
+   * @param session 拉流会话
+   * @param code 退出码
+   */
+  private handleProcessExit(session: IngestSession, code: number | null): void {
+    if (session.state === IngestSessionState.STOPPING || session.state === IngestSessionState.STOPPED) {
+      return;
+    }
+
+    // 没有观看者时直接结束会话
+    if (session.viewers.size === 0) {
+      this.terminateSession(session);
+      return;
+    }
+
+    if (session.restarts >= this.MAX_RESTARTS) {
+      console.error(`拉流会话 ${session.streamId} 重启次数超过上限，停止拉流`);
+      this.emit('session_failed', session.streamId, code);
+      this.stopSession(session.streamId);
+      return;
+    }
+
+    session.restarts++;
+    session.state = IngestSessionState.RESTARTING;
+    this.emit('session_restart', session.streamId, session.restarts, code);
+
+    // 源重新建立后需要重新发送序列头并从关键帧同步
+    session.parser.reset();
+    session.metadataTag = null;
+    session.videoSequenceHeader = null;
+    session.audioSequenceHeader = null;
+    for (const entry of session.viewers.values()) {
+      entry.synced = false;
+    }
+
+    session.restartTimer = setTimeout(() => {
+      session.restartTimer = null;
+      if (session.state === IngestSessionState.RESTARTING) {
+        this.spawnProcess(session);
+      }
+    }, this.RESTART_DELAY * session.restarts);
+  }
+
+  /**
+   * 处理FLV标签并分发给观看者
+   * @param session 拉流会话
+   * @param tag FLV标签
+   */
+  private handleTag(session: IngestSession, tag: FlvTag): void {
+    // 缓存初始化数据，供新观看者使用
+    if (tag.type === FlvTagType.SCRIPT) {
+      session.metadataTag = tag.raw;
+    } else if (isSequenceHeader(tag)) {
+      if (tag.type === FlvTagType.VIDEO) {
+        session.videoSequenceHeader = tag.raw;
+      } else {
+        session.audioSequenceHeader = tag.raw;
+      }
+    }
+
+    // 收到正常数据说明源已恢复，重置重启计数
+    if (session.restarts > 0 && isKeyframe(tag)) {
+      session.restarts = 0;
+    }
+
+    const hasVideo = session.videoSequenceHeader !== null;
+
+    for (const entry of session.viewers.values()) {
+      if (entry.viewer.isCongested && entry.viewer.isCongested()) {
+        entry.synced = false;
+        continue;
+      }
+
+      if (!entry.synced) {
+        // 纯音频流从任意音频帧开始，含视频的流从关键帧开始
+        const canStart = hasVideo ? isKeyframe(tag) : tag.type === FlvTagType.AUDIO;
+        if (!canStart) {
+          continue;
+        }
+
+        this.sendInitSegment(session, entry);
+        entry.synced = true;
+
+        // 序列头已作为初始化数据发送，避免重复
+        if (isSequenceHeader(tag)) {
+          continue;
+        }
+      }
+
+      try {
+        entry.viewer.write(tag.raw);
+      } catch (error) {
+        console.error(`向观看者 ${entry.viewer.id} 写入数据失败:`, error);
+      }
+    }
+  }
+
+  /**
+   * 向观看者发送初始化数据（FLV头、元数据和序列头）
+   * @param session 拉流会话
+   * @param entry 观看者
+   */
+  private sendInitSegment(session: IngestSession, entry: ViewerEntry): void {
+    const parts: Buffer[] = [];
+
+    if (!entry.headerSent && session.flvHeader) {
+      parts.push(session.flvHeader);
+      entry.headerSent = true;
+    }
+    if (session.metadataTag) parts.push(session.metadataTag);
+    if (session.videoSequenceHeader) parts.push(session.videoSequenceHeader);
+    if (session.audioSequenceHeader) parts.push(session.audioSequenceHeader);
+
+    if (parts.length > 0) {
+      entry.viewer.write(Buffer.concat(parts));
+    }
+  }
+
+  /**
+   * 取消订阅
+   * @param session 拉流会话
+   * @param viewerId 观看者ID
+   */
+  private unsubscribe(session: IngestSession, viewerId: string): void {
+    if (!session.viewers.delete(viewerId)) {
+      return;
+    }
+
+    this.emit('viewer_leave', session.streamId, viewerId, session.viewers.size);
+
+    // 最后一个观看者离开后延迟停止拉流，避免频繁切换画面时反复拉流
+    if (session.viewers.size === 0 && !session.idleTimer) {
+      session.idleTimer = setTimeout(() => {
+        session.idleTimer = null;
+        if (session.viewers.size === 0) {
+          this.terminateSession(session);
+        }
+      }, this.IDLE_TIMEOUT);
+    }
+  }
+
+  /**
+   * 终止拉流会话
+   * @param session 拉流会话
+   */
+  private terminateSession(session: IngestSession): void {
+    session.state = IngestSessionState.STOPPING;
+
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+    if (session.restartTimer) {
+      clearTimeout(session.restartTimer);
+      session.restartTimer = null;
+    }
+
+    if (session.process) {
+      session.process.kill('SIGTERM');
+      session.process = null;
+    }
+    this.closeSource(session);
+
+    session.parser.removeAllListeners();
+    session.state = IngestSessionState.STOPPED;
+
+    if (this.sessions.get(session.streamId) === session) {
+      this.sessions.delete(session.streamId);
+    }
+
+    this.emit('session_stop', session.streamId);
+  }
+
+  /**
+   * 关闭观看者连接
+   * @param viewer 观看者
+   */
+  private closeViewer(viewer: LiveViewer): void {
+    try {
+      viewer.close();
+    } catch (error) {
+      console.error(`关闭观看者 ${viewer.id} 失败:`, error);
+    }
+  }
+
+  /**
+   * 转换会话信息
+   * @param session 拉流会话
+   * @returns 会话信息
+   */
+  private toSessionInfo(session: IngestSession): IngestSessionInfo {
+    return {
+      streamId: session.streamId,
+      streamType: session.streamType,
+      state: session.state,
+      startedAt: session.startedAt,
+      viewerCount: session.viewers.size,
+      bytesIn: session.bytesIn,
+      restarts: session.restarts,
+    };
+  }
+}
+
+// 导出单例实例
+export const streamIngestService = StreamIngestService.getInstance();
+
+export default streamIngestService;
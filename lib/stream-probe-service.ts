@@ -0,0 +1,1337 @@
+/**
+ * 视频流探测服务 - 实际连接视频流地址并读取音视频参数
+ *
+ * 该服务实现了以下功能：
+ * 1. HTTP-FLV / WS-FLV：读取FLV文件头、onMetaData元数据和音视频序列头
+ * 2. HLS：读取播放列表，下载分片并解析TS的PAT/PMT与SPS
+ * 3. RTSP：完成DESCRIBE/SETUP/PLAY握手（支持Basic/Digest认证），解析SDP并等待首个关键帧
+ * 4. RTMP：通过FFmpeg拉流并转封装为FLV后分析
+ * 5. 统计视频编码、分辨率、帧率、码率、音频及首帧耗时
+ */
+
+import { spawn } from 'child_process';
+import net from 'net';
+import tls from 'tls';
+import { WebSocket } from 'ws';
+import { StreamType } from '@prisma/client';
+import { cryptoService, HashAlgorithm } from './crypto-service';
+import {
+  FlvParser,
+  FlvTag,
+  FlvTagType,
+  FLV_AUDIO_CODECS,
+  FLV_VIDEO_CODECS,
+  extractAvcSps,
+  isKeyframe,
+  isSequenceHeader,
+  parseMetadata
+} from './flv-parser';
+import { parseH264Sps } from './h264-sps-parser';
+
+/**
+ * 探测使用的传输协议
+ */
+export enum ProbeProtocol {
+  HTTP_FLV = 'HTTP-FLV',
+  WS_FLV = 'WS-FLV',
+  HLS = 'HLS',
+  RTSP = 'RTSP',
+  RTMP = 'RTMP'
+}
+
+/**
+ * 视频流探测信息
+ */
+export interface StreamProbeInfo {
+  // 传输协议
+  protocol: ProbeProtocol;
+  // 视频编码
+  videoCodec?: string;
+  // 宽度（像素）
+  width?: number;
+  // 高度（像素）
+  height?: number;
+  // 帧率
+  frameRate?: number;
+  // 码率（kbps）
+  bitrate?: number;
+  // 是否包含音频
+  hasAudio: boolean;
+  // 音频编码
+  audioCodec?: string;
+  // 建立连接耗时（毫秒）
+  connectTime?: number;
+  // 首帧耗时（毫秒，从发起连接到收到首个关键帧）
+  timeToFirstFrame?: number;
+}
+
+/**
+ * 视频流探测结果
+ */
+export interface StreamProbeResult {
+  success: boolean;
+  message: string;
+  info?: StreamProbeInfo;
+}
+
+/**
+ * RTSP响应
+ */
+interface RtspResponse {
+  statusCode: number;
+  statusText: string;
+  headers: Record<string, string>;
+  authenticate: string[];
+  body: string;
+}
+
+/**
+ * SDP媒体描述
+ */
+interface SdpTrack {
+  media: string;
+  codec?: string;
+  clockRate: number;
+  control?: string;
+  fmtp: Record<string, string>;
+  frameRate?: number;
+  width?: number;
+  height?: number;
+}
+
+// 采样帧数：收到首个关键帧后继续读取的帧数，用于计算帧率和码率
+const SAMPLE_FRAMES = 50;
+// 采样时长（毫秒）
+const SAMPLE_DURATION = 2000;
+// HLS分片最多读取的字节数
+const MAX_SEGMENT_BYTES = 2 * 1024 * 1024;
+
+// RTP静态负载类型
+const RTP_STATIC_CODECS: Record<number, { codec: string; clockRate: number }> = {
+  0: { codec: 'PCMU', clockRate: 8000 },
+  8: { codec: 'PCMA', clockRate: 8000 },
+  14: { codec: 'MPA', clockRate: 90000 },
+  26: { codec: 'JPEG', clockRate: 90000 },
+  32: { codec: 'MPV', clockRate: 90000 },
+};
+
+// RTP/SDP编码名称
+const SDP_CODEC_NAMES: Record<string, string> = {
+  'H264': 'H.264',
+  'H265': 'H.265',
+  'MPEG4-GENERIC': 'AAC',
+  'MP4A-LATM': 'AAC',
+  'PCMA': 'G.711A',
+  'PCMU': 'G.711U',
+  'MPA': 'MP3',
+  'JPEG': 'MJPEG',
+  'MPV': 'MPEG-2',
+  'MP4V-ES': 'MPEG-4',
+  'OPUS': 'Opus',
+};
+
+// TS流类型
+const TS_STREAM_TYPES: Record<number, { media: 'video' | 'audio'; codec: string }> = {
+  0x01: { media: 'video', codec: 'MPEG-1' },
+  0x02: { media: 'video', codec: 'MPEG-2' },
+  0x10: { media: 'video', codec: 'MPEG-4' },
+  0x1b: { media: 'video', codec: 'H.264' },
+  0x24: { media: 'video', codec: 'H.265' },
+  0x03: { media: 'audio', codec: 'MP3' },
+  0x04: { media: 'audio', codec: 'MP3' },
+  0x0f: { media: 'audio', codec: 'AAC' },
+  0x11: { media: 'audio', codec: 'AAC' },
+  0x81: { media: 'audio', codec: 'AC-3' },
+};
+
+// HLS CODECS属性前缀
+const HLS_CODEC_NAMES: Record<string, { media: 'video' | 'audio'; codec: string }> = {
+  'avc1': { media: 'video', codec: 'H.264' },
+  'avc3': { media: 'video', codec: 'H.264' },
+  'hvc1': { media: 'video', codec: 'H.265' },
+  'hev1': { media: 'video', codec: 'H.265' },
+  'mp4a': { media: 'audio', codec: 'AAC' },
+  'ac-3': { media: 'audio', codec: 'AC-3' },
+  'ec-3': { media: 'audio', codec: 'E-AC-3' },
+};
+
+/**
+ * 四舍五入保留两位小数
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 判断H.264/H.265 RTP负载是否包含关键帧，并返回其中的SPS
+ * @param codec 编码名称
+ * @param payload RTP负载
+ * @returns 是否关键帧及SPS
+ */
+function inspectRtpPayload(codec: string | undefined, payload: Buffer): { keyframe: boolean; sps?: Buffer } {
+  if (payload.length < 2) {
+    return { keyframe: false };
+  }
+
+  if (codec === 'H.264') {
+    const type = payload[0] & 0x1f;
+
+    if (type === 24) {
+      // STAP-A：聚合包
+      let keyframe = false;
+      let sps: Buffer | undefined;
+      let offset = 1;
+      while (offset + 2 < payload.length) {
+        const size = payload.readUInt16BE(offset);
+        const nal = payload.subarray(offset + 2, offset + 2 + size);
+        const nalType = nal[0] & 0x1f;
+        if (nalType === 5 || nalType === 7) {
+          keyframe = true;
+        }
+        if (nalType === 7) {
+          sps = Buffer.from(nal);
+        }
+        offset += 2 + size;
+      }
+      return { keyframe, sps };
+    }
+
+    if (type === 28) {
+      // FU-A：分片包，只看起始分片
+      return { keyframe: (payload[1] & 0x80) !== 0 && (payload[1] & 0x1f) === 5 };
+    }
+
+    return {
+      keyframe: type === 5 || type === 7,
+      sps: type === 7 ? Buffer.from(payload) : undefined,
+    };
+  }
+
+  if (codec === 'H.265') {
+    let type = (payload[0] >> 1) & 0x3f;
+    if (type === 49) {
+      // FU：分片包
+      if (payload.length < 3 || (payload[2] & 0x80) === 0) {
+        return { keyframe: false };
+      }
+      type = payload[2] & 0x3f;
+    }
+    // 48: AP聚合包通常携带VPS/SPS/PPS；16-21: IRAP帧；32-34: 参数集
+    return { keyframe: type === 48 || (type >= 16 && type <= 21) || (type >= 32 && type <= 34) };
+  }
+
+  // 其他编码以首个数据包作为首帧
+  return { keyframe: true };
+}
+
+/**
+ * FLV流分析器
+ * 累计读取FLV数据，记录元数据、编码信息和帧时间戳
+ */
+class FlvProbeAnalyzer {
+  private parser = new FlvParser();
+  private metadata: Record<string, any> | null = null;
+  private videoTimestamps: number[] = [];
+  private sampleBytes: number = 0;
+  private audioSeen: boolean = false;
+  private audioCodecId: number | null = null;
+  private videoCodecId: number | null = null;
+  private spsInfo: ReturnType<typeof parseH264Sps> = null;
+  private connectedAt: number | null = null;
+  private firstFrameAt: number | null = null;
+  public error: Error | null = null;
+
+  constructor(private readonly protocol: ProbeProtocol, private readonly startedAt: number) {
+    this.parser.on('tag', (tag: FlvTag) => this.handleTag(tag));
+    this.parser.on('error', (error: Error) => {
+      this.error = error;
+    });
+  }
+
+  /**
+   * 标记连接已建立
+   */
+  public markConnected(): void {
+    if (this.connectedAt === null) {
+      this.connectedAt = Date.now();
+    }
+  }
+
+  /**
+   * 写入一段FLV数据
+   * @param chunk 数据分片
+   */
+  public push(chunk: Buffer): void {
+    this.markConnected();
+    this.parser.push(chunk);
+  }
+
+  /**
+   * 是否已收到首个关键帧
+   */
+  public get hasFirstFrame(): boolean {
+    return this.firstFrameAt !== null;
+  }
+
+  /**
+   * 是否已完成采样
+   */
+  public get done(): boolean {
+    if (this.error) {
+      return true;
+    }
+    if (this.firstFrameAt === null) {
+      return false;
+    }
+    const span = this.videoTimestamps.length > 1
+      ? this.videoTimestamps[this.videoTimestamps.length - 1] - this.videoTimestamps[0]
+      : 0;
+    return this.videoTimestamps.length >= SAMPLE_FRAMES
+      || span >= SAMPLE_DURATION
+      || Date.now() - this.firstFrameAt >= SAMPLE_DURATION;
+  }
+
+  /**
+   * 处理FLV标签
+   */
+  private handleTag(tag: FlvTag): void {
+    if (tag.type === FlvTagType.SCRIPT) {
+      this.metadata = this.metadata || parseMetadata(tag);
+      return;
+    }
+
+    if (tag.type === FlvTagType.AUDIO) {
+      this.audioSeen = true;
+      this.audioCodecId = tag.data.length > 0 ? tag.data[0] >> 4 : this.audioCodecId;
+      if (this.firstFrameAt !== null) {
+        this.sampleBytes += tag.data.length;
+      }
+      return;
+    }
+
+    if (tag.type !== FlvTagType.VIDEO || tag.data.length === 0) {
+      return;
+    }
+
+    this.videoCodecId = tag.data[0] & 0x0f;
+
+    if (isSequenceHeader(tag)) {
+      if (this.videoCodecId === 7 && !this.spsInfo) {
+        const sps = extractAvcSps(tag);
+        this.spsInfo = sps ? parseH264Sps(sps) : null;
+      }
+      return;
+    }
+
+    if (this.firstFrameAt === null) {
+      if (!isKeyframe(tag)) {
+        return;
+      }
+      this.firstFrameAt = Date.now();
+    }
+
+    this.videoTimestamps.push(tag.timestamp);
+    this.sampleBytes += tag.data.length;
+  }
+
+  /**
+   * 汇总探测信息
+   */
+  public getInfo(): StreamProbeInfo {
+    const metadata = this.metadata || {};
+    const info: StreamProbeInfo = {
+      protocol: this.protocol,
+      hasAudio: this.audioSeen || metadata.hasAudio === true || typeof metadata.audiocodecid === 'number',
+    };
+
+    const videoCodecId = this.videoCodecId ?? (typeof metadata.videocodecid === 'number' ? metadata.videocodecid : null);
+    if (videoCodecId !== null) {
+      info.videoCodec = FLV_VIDEO_CODECS[videoCodecId] || `FLV codec ${videoCodecId}`;
+    }
+
+    const audioCodecId = this.audioCodecId ?? (typeof metadata.audiocodecid === 'number' ? metadata.audiocodecid : null);
+    if (info.hasAudio && audioCodecId !== null) {
+      info.audioCodec = FLV_AUDIO_CODECS[audioCodecId] || `FLV codec ${audioCodecId}`;
+    }
+
+    info.width = this.spsInfo?.width || (metadata.width > 0 ? Math.round(metadata.width) : undefined);
+    info.height = this.spsInfo?.height || (metadata.height > 0 ? Math.round(metadata.height) : undefined);
+
+    // 优先使用实测帧率，其次为元数据或SPS中声明的帧率
+    const count = this.videoTimestamps.length;
+    const span = count > 1 ? this.videoTimestamps[count - 1] - this.videoTimestamps[0] : 0;
+    if (span > 0) {
+      info.frameRate = round(((count - 1) * 1000) / span);
+      info.bitrate = Math.round((this.sampleBytes * 8) / span);
+    } else if (metadata.framerate > 0) {
+      info.frameRate = round(metadata.framerate);
+    } else if (this.spsInfo?.frameRate) {
+      info.frameRate = this.spsInfo.frameRate;
+    }
+
+    if (this.connectedAt !== null) {
+      info.connectTime = this.connectedAt - this.startedAt;
+    }
+    if (this.firstFrameAt !== null) {
+      info.timeToFirstFrame = this.firstFrameAt - this.startedAt;
+    }
+
+    return info;
+  }
+}
+
+/**
+ * TS分片分析器
+ * 解析PAT/PMT获取音视频流类型，从视频PES中读取SPS、关键帧和PTS
+ */
+class TsProbeAnalyzer {
+  private leftover: Buffer = Buffer.alloc(0);
+  private pmtPid: number | null = null;
+  private videoPid: number | null = null;
+  private pes: Buffer[] = [];
+  private ptsList: number[] = [];
+  public videoCodec?: string;
+  public audioCodec?: string;
+  public hasAudio: boolean = false;
+  public keyframeSeen: boolean = false;
+  public spsInfo: ReturnType<typeof parseH264Sps> = null;
+
+  /**
+   * 是否已完成采样
+   */
+  public get done(): boolean {
+    return this.keyframeSeen && this.ptsList.length >= SAMPLE_FRAMES;
+  }
+
+  /**
+   * 写入一段TS数据
+   * @param chunk 数据分片
+   */
+  public push(chunk: Buffer): void {
+    let data = this.leftover.length > 0 ? Buffer.concat([this.leftover, chunk]) : chunk;
+    let offset = 0;
+
+    while (offset + 188 <= data.length) {
+      if (data[offset] !== 0x47) {
+        // 失去同步，寻找下一个同步字节
+        offset++;
+        continue;
+      }
+      this.handlePacket(data.subarray(offset, offset + 188));
+      offset += 188;
+    }
+
+    this.leftover = Buffer.from(data.subarray(offset));
+  }
+
+  /**
+   * 结束分析，处理最后一个PES
+   */
+  public flush(): void {
+    this.handlePes();
+  }
+
+  /**
+   * 计算帧率
+   */
+  public get frameRate(): number | undefined {
+    if (this.ptsList.length < 2) {
+      return undefined;
+    }
+    const sorted = [...this.ptsList].sort((a, b) => a - b);
+    const span = sorted[sorted.length - 1] - sorted[0];
+    return span > 0 ? round(((sorted.length - 1) * 90000) / span) : undefined;
+  }
+
+  /**
+   * 处理单个TS包
+   */
+  private handlePacket(packet: Buffer): void {
+    const pid = ((packet[1] & 0x1f) << 8) | packet[2];
+    const unitStart = (packet[1] & 0x40) !== 0;
+    const adaptation = (packet[3] >> 4) & 0x03;
+
+    if ((adaptation & 0x01) === 0) {
+      return;
+    }
+
+    let offset = 4;
+    if (adaptation & 0x02) {
+      offset += 1 + packet[4];
+    }
+    if (offset >= packet.length) {
+      return;
+    }
+    const payload = packet.subarray(offset);
+
+    if (pid === 0 && unitStart) {
+      this.handlePat(payload);
+    } else if (pid === this.pmtPid && unitStart) {
+      this.handlePmt(payload);
+    } else if (pid === this.videoPid) {
+      if (unitStart) {
+        this.handlePes();
+      }
+      this.pes.push(Buffer.from(payload));
+    }
+  }
+
+  /**
+   * 解析PAT，取第一个节目的PMT PID
+   */
+  private handlePat(payload: Buffer): void {
+    const table = payload.subarray(1 + payload[0]);
+    const sectionLength = ((table[1] & 0x0f) << 8) | table[2];
+    const end = Math.min(3 + sectionLength - 4, table.length);
+
+    for (let offset = 8; offset + 4 <= end; offset += 4) {
+      const programNumber = table.readUInt16BE(offset);
+      if (programNumber !== 0) {
+        this.pmtPid = ((table[offset + 2] & 0x1f) << 8) | table[offset + 3];
+        return;
+      }
+    }
+  }
+
+  /**
+   * 解析PMT，识别音视频流
+   */
+  private handlePmt(payload: Buffer): void {
+    const table = payload.subarray(1 + payload[0]);
+    const sectionLength = ((table[1] & 0x0f) << 8) | table[2];
+    const programInfoLength = ((table[10] & 0x0f) << 8) | table[11];
+    const end = Math.min(3 + sectionLength - 4, table.length);
+
+    for (let offset = 12 + programInfoLength; offset + 5 <= end;) {
+      const streamType = table[offset];
+      const pid = ((table[offset + 1] & 0x1f) << 8) | table[offset + 2];
+      const infoLength = ((table[offset + 3] & 0x0f) << 8) | table[offset + 4];
+      const stream = TS_STREAM_TYPES[streamType];
+
+      if (stream?.media === 'video' && this.videoPid === null) {
+        this.videoPid = pid;
+        this.videoCodec = stream.codec;
+      } else if (stream?.media === 'audio' && !this.hasAudio) {
+        this.hasAudio = true;
+        this.audioCodec = stream.codec;
+      }
+
+      offset += 5 + infoLength;
+    }
+  }
+
+  /**
+   * 处理一个完整的视频PES
+   */
+  private handlePes(): void {
+    if (this.pes.length === 0) {
+      return;
+    }
+
+    const pes = Buffer.concat(this.pes);
+    this.pes = [];
+
+    if (pes.length < 9 || pes[0] !== 0 || pes[1] !== 0 || pes[2] !== 1) {
+      return;
+    }
+
+    // PTS
+    if ((pes[7] & 0x80) && pes.length >= 14) {
+      const pts = (pes[9] & 0x0e) * 536870912 // 2^29
+        + pes[10] * 4194304 // 2^22
+        + (pes[11] >> 1) * 32768 // 2^15
+        + pes[12] * 128
+        + (pes[13] >> 1);
+      this.ptsList.push(pts);
+    }
+
+    const es = pes.subarray(9 + pes[8]);
+    this.scanNalUnits(es);
+  }
+
+  /**
+   * 扫描ES中的NAL单元
+   */
+  private scanNalUnits(es: Buffer): void {
+    const starts: number[] = [];
+    for (let i = 0; i + 3 < es.length; i++) {
+      if (es[i] === 0 && es[i + 1] === 0 && es[i + 2] === 1) {
+        starts.push(i + 3);
+        i += 2;
+      }
+    }
+
+    starts.forEach((start, index) => {
+      if (this.videoCodec === 'H.264') {
+        const type = es[start] & 0x1f;
+        if (type === 5) {
+          this.keyframeSeen = true;
+        } else if (type === 7 && !this.spsInfo) {
+          let end = index + 1 < starts.length ? starts[index + 1] - 3 : es.length;
+          // 四字节起始码的前导0
+          while (end > start && es[end - 1] === 0) {
+            end--;
+          }
+          this.spsInfo = parseH264Sps(es.subarray(start, end));
+        }
+      } else if (this.videoCodec === 'H.265') {
+        const type = (es[start] >> 1) & 0x3f;
+        if (type >= 16 && type <= 21) {
+          this.keyframeSeen = true;
+        }
+      } else {
+        this.keyframeSeen = true;
+      }
+    });
+  }
+}
+
+/**
+ * 视频流探测服务类
+ */
+export class StreamProbeService {
+  private static instance: StreamProbeService;
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly DEFAULT_TIMEOUT = Number(process.env.STREAM_PROBE_TIMEOUT || 10000); // 默认探测超时10秒
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {}
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamProbeService {
+    if (!StreamProbeService.instance) {
+      StreamProbeService.instance = new StreamProbeService();
+    }
+    return StreamProbeService.instance;
+  }
+
+  /**
+   * 探测视频流
+   * @param url 视频流地址
+   * @param type 视频流类型
+   * @param timeout 超时时间（毫秒）
+   * @returns 探测结果
+   */
+  public async probe(url: string, type: StreamType, timeout: number = this.DEFAULT_TIMEOUT): Promise<StreamProbeResult> {
+    try {
+      switch (type) {
+        case StreamType.WEBSOCKET:
+          return await this.probeWsFlv(url, timeout);
+        case StreamType.HTTP:
+          return this.isHlsUrl(url)
+            ? await this.probeHls(url, timeout)
+            : await this.probeHttpFlv(url, timeout);
+        case StreamType.RTSP:
+          return await this.probeRtsp(url, timeout);
+        case StreamType.RTMP:
+          return await this.probeRtmp(url, timeout);
+        case StreamType.HLS:
+          return await this.probeHls(url, timeout);
+        default:
+          return { success: false, message: `Unsupported stream type: ${type}` };
+      }
+    } catch (error) {
+      console.error('Error probing video stream:', error);
+      return {
+        success: false,
+        message: `Stream probe failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * 判断地址是否为HLS播放列表
+   * @param url 视频流地址
+   */
+  public isHlsUrl(url: string): boolean {
+    try {
+      return new URL(url).pathname.toLowerCase().endsWith('.m3u8');
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * 通用FLV探测流程
+   * @param protocol 传输协议
+   * @param timeout 超时时间
+   * @param open 打开数据源，返回关闭函数
+   */
+  private probeFlvSource(
+    protocol: ProbeProtocol,
+    timeout: number,
+    open: (analyzer: FlvProbeAnalyzer, finish: (error?: Error) => void) => () => void
+  ): Promise<StreamProbeResult> {
+    const analyzer = new FlvProbeAnalyzer(protocol, Date.now());
+
+    return new Promise((resolve) => {
+      let settled = false;
+      let close: (() => void) | null = null;
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        close?.();
+
+        const info = analyzer.getInfo();
+        const failure = analyzer.error || (analyzer.hasFirstFrame ? null : error || new Error('No video frame received'));
+        resolve(failure
+          ? { success: false, message: `Stream probe failed: ${failure.message}`, info }
+          : { success: true, message: 'Stream is playable', info });
+      };
+
+      const timer = setTimeout(() => finish(new Error(`No video frame received within ${timeout}ms`)), timeout);
+      close = open(analyzer, finish);
+      if (settled) {
+        close();
+      }
+    });
+  }
+
+  /**
+   * 探测HTTP-FLV流
+   */
+  private probeHttpFlv(url: string, timeout: number): Promise<StreamProbeResult> {
+    return this.probeFlvSource(ProbeProtocol.HTTP_FLV, timeout, (analyzer, finish) => {
+      const controller = new AbortController();
+
+      fetch(url, { signal: controller.signal })
+        .then(async (response) => {
+          if (!response.ok || !response.body) {
+            finish(new Error(`HTTP ${response.status} ${response.statusText}`));
+            return;
+          }
+
+          analyzer.markConnected();
+          const reader = response.body.getReader();
+          while (!analyzer.done) {
+            const { done, value } = await reader.read();
+            if (done) {
+              break;
+            }
+            analyzer.push(Buffer.from(value));
+          }
+          finish(new Error('Stream ended before first frame'));
+        })
+        .catch((error) => finish(error));
+
+      return () => controller.abort();
+    });
+  }
+
+  /**
+   * 探测WS-FLV流
+   */
+  private probeWsFlv(url: string, timeout: number): Promise<StreamProbeResult> {
+    return this.probeFlvSource(ProbeProtocol.WS_FLV, timeout, (analyzer, finish) => {
+      const socket = new WebSocket(url, { handshakeTimeout: timeout });
+      socket.binaryType = 'nodebuffer';
+
+      socket.on('open', () => analyzer.markConnected());
+      socket.on('message', (data) => {
+        analyzer.push(Buffer.isBuffer(data) ? data : Buffer.from(data as ArrayBuffer));
+        if (analyzer.done) {
+          finish();
+        }
+      });
+      socket.on('error', (error) => finish(error));
+      socket.on('close', () => finish(new Error('Connection closed before first frame')));
+
+      return () => socket.terminate();
+    });
+  }
+
+  /**
+   * 探测RTMP流（通过FFmpeg转封装为FLV）
+   */
+  private probeRtmp(url: string, timeout: number): Promise<StreamProbeResult> {
+    return this.probeFlvSource(ProbeProtocol.RTMP, timeout, (analyzer, finish) => {
+      let stderr = '';
+      const child = spawn(this.FFMPEG_PATH, [
+        '-hide_banner',
+        '-loglevel', 'error',
+        '-rw_timeout', String(timeout * 1000),
+        '-i', url,
+        '-c', 'copy',
+        '-f', 'flv',
+        'pipe:1',
+      ], { stdio: ['ignore', 'pipe', 'pipe'] });
+
+      child.stdout?.on('data', (chunk: Buffer) => {
+        analyzer.push(chunk);
+        if (analyzer.done) {
+          finish();
+        }
+      });
+      child.stderr?.on('data', (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString()).slice(-500);
+      });
+      child.on('error', (error) => finish(error));
+      child.on('exit', (code) => {
+        finish(new Error(stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`));
+      });
+
+      return () => {
+        if (child.exitCode === null) {
+          child.kill('SIGKILL');
+        }
+      };
+    });
+  }
+
+  /**
+   * 探测HLS流
+   */
+  private async probeHls(url: string, timeout: number): Promise<StreamProbeResult> {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeout);
+    const info: StreamProbeInfo = { protocol: ProbeProtocol.HLS, hasAudio: false };
+
+    const fetchText = async (target: string) => {
+      const response = await fetch(target, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+      return response.text();
+    };
+
+    try {
+      let playlistUrl = url;
+      let playlist = await fetchText(url);
+      info.connectTime = Date.now() - startedAt;
+
+      if (!playlist.trimStart().startsWith('#EXTM3U')) {
+        return { success: false, message: 'Stream probe failed: Invalid HLS playlist', info };
+      }
+
+      // 主播放列表：取第一个码流
+      if (playlist.includes('#EXT-X-STREAM-INF')) {
+        const lines = playlist.split(/\r?\n/);
+        const index = lines.findIndex((line) => line.startsWith('#EXT-X-STREAM-INF'));
+        const attributes = this.parseHlsAttributes(lines[index].slice(lines[index].indexOf(':') + 1));
+        const variant = lines.slice(index + 1).find((line) => line.trim() && !line.startsWith('#'));
+
+        if (!variant) {
+          return { success: false, message: 'Stream probe failed: HLS master playlist has no variants', info };
+        }
+
+        const resolution = /^(\d+)x(\d+)$/.exec(attributes['RESOLUTION'] || '');
+        if (resolution) {
+          info.width = Number(resolution[1]);
+          info.height = Number(resolution[2]);
+        }
+        if (attributes['FRAME-RATE']) {
+          info.frameRate = round(Number(attributes['FRAME-RATE']));
+        }
+        for (const codec of (attributes['CODECS'] || '').split(',')) {
+          const entry = HLS_CODEC_NAMES[codec.trim().split('.')[0]];
+          if (entry?.media === 'video') {
+            info.videoCodec = entry.codec;
+          } else if (entry?.media === 'audio') {
+            info.hasAudio = true;
+            info.audioCodec = entry.codec;
+          }
+        }
+
+        playlistUrl = new URL(variant.trim(), url).toString();
+        playlist = await fetchText(playlistUrl);
+      }
+
+      // 媒体播放列表：直播从倒数第三个分片开始播放
+      const lines = playlist.split(/\r?\n/);
+      const segments: { uri: string; duration: number }[] = [];
+      let duration = 0;
+      for (const line of lines) {
+        if (line.startsWith('#EXTINF:')) {
+          duration = parseFloat(line.slice(8));
+        } else if (line.trim() && !line.startsWith('#')) {
+          segments.push({ uri: line.trim(), duration });
+        }
+      }
+
+      if (segments.length === 0) {
+        return { success: false, message: 'Stream probe failed: HLS playlist has no segments', info };
+      }
+
+      const isLive = !playlist.includes('#EXT-X-ENDLIST');
+      const segment = isLive ? segments[Math.max(0, segments.length - 3)] : segments[0];
+      const response = await fetch(new URL(segment.uri, playlistUrl), { signal: controller.signal });
+      if (!response.ok || !response.body) {
+        throw new Error(`Segment HTTP ${response.status} ${response.statusText}`);
+      }
+
+      // fMP4分片只依据CODECS属性，TS分片进一步解析
+      const analyzer = playlist.includes('#EXT-X-MAP') ? null : new TsProbeAnalyzer();
+      const reader = response.body.getReader();
+      let bytes = 0;
+
+      while (bytes < MAX_SEGMENT_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        bytes += value.length;
+
+        if (!analyzer) {
+          info.timeToFirstFrame = Date.now() - startedAt;
+          break;
+        }
+
+        analyzer.push(Buffer.from(value));
+        if (analyzer.keyframeSeen && info.timeToFirstFrame === undefined) {
+          info.timeToFirstFrame = Date.now() - startedAt;
+        }
+        if (analyzer.done) {
+          break;
+        }
+      }
+      await reader.cancel().catch(() => undefined);
+
+      if (analyzer) {
+        analyzer.flush();
+        if (analyzer.keyframeSeen && info.timeToFirstFrame === undefined) {
+          info.timeToFirstFrame = Date.now() - startedAt;
+        }
+        info.videoCodec = analyzer.videoCodec || info.videoCodec;
+        info.hasAudio = info.hasAudio || analyzer.hasAudio;
+        info.audioCodec = analyzer.audioCodec || info.audioCodec;
+        info.width = analyzer.spsInfo?.width || info.width;
+        info.height = analyzer.spsInfo?.height || info.height;
+        info.frameRate = info.frameRate || analyzer.frameRate || analyzer.spsInfo?.frameRate;
+      }
+
+      const contentLength = Number(response.headers.get('content-length'));
+      if (segment.duration > 0 && contentLength > 0) {
+        info.bitrate = Math.round((contentLength * 8) / segment.duration / 1000);
+      }
+
+      if (info.timeToFirstFrame === undefined) {
+        return { success: false, message: 'Stream probe failed: No video frame found in HLS segment', info };
+      }
+
+      return { success: true, message: 'Stream is playable', info };
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `No video frame received within ${timeout}ms`
+        : error instanceof Error ? error.message : 'Unknown error';
+      return { success: false, message: `Stream probe failed: ${message}`, info };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * 解析HLS属性列表
+   * @param text 属性文本，如 BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.42e01e,mp4a.40.2"
+   */
+  private parseHlsAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text)) !== null) {
+      attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+    }
+
+    return attributes;
+  }
+
+  /**
+   * 解析SDP媒体描述
+   * @param sdp SDP文本
+   */
+  private parseSdp(sdp: string): SdpTrack[] {
+    const tracks: SdpTrack[] = [];
+    let current: (SdpTrack & { payloadType: number }) | null = null;
+
+    for (const line of sdp.split(/\r?\n/)) {
+      if (line.startsWith('m=')) {
+        const [media, , , payloadType] = line.slice(2).split(' ');
+        const staticCodec = RTP_STATIC_CODECS[Number(payloadType)];
+        current = {
+          media,
+          payloadType: Number(payloadType),
+          codec: staticCodec ? SDP_CODEC_NAMES[staticCodec.codec] : undefined,
+          clockRate: staticCodec?.clockRate || 90000,
+          fmtp: {},
+        };
+        tracks.push(current);
+        continue;
+      }
+
+      if (!current || !line.startsWith('a=')) {
+        continue;
+      }
+
+      const separator = line.indexOf(':');
+      const name = line.slice(2, separator === -1 ? undefined : separator);
+      const value = separator === -1 ? '' : line.slice(separator + 1).trim();
+
+      switch (name) {
+        case 'rtpmap': {
+          const match = /^(\d+)\s+([^\/]+)\/(\d+)/.exec(value);
+          if (match && Number(match[1]) === current.payloadType) {
+            const codec = match[2].toUpperCase();
+            current.codec = SDP_CODEC_NAMES[codec] || codec;
+            current.clockRate = Number(match[3]);
+          }
+          break;
+        }
+        case 'fmtp':
+          for (const pair of value.slice(value.indexOf(' ') + 1).split(';')) {
+            const index = pair.indexOf('=');
+            if (index > 0) {
+              current.fmtp[pair.slice(0, index).trim().toLowerCase()] = pair.slice(index + 1).trim();
+            }
+          }
+          break;
+        case 'control':
+          current.control = value;
+          break;
+        case 'framerate':
+        case 'x-framerate':
+          current.frameRate = round(Number(value));
+          break;
+        case 'x-dimensions': {
+          const [width, height] = value.split(',').map(Number);
+          current.width = width;
+          current.height = height;
+          break;
+        }
+      }
+    }
+
+    return tracks;
+  }
+
+  /**
+   * 生成RTSP认证头
+   * @param challenges WWW-Authenticate头
+   * @param method 请求方法
+   * @param uri 请求地址
+   * @param username 用户名
+   * @param password 密码
+   */
+  private buildRtspAuthorization(
+    challenges: string[],
+    method: string,
+    uri: string,
+    username: string,
+    password: string
+  ): string | null {
+    const digest = challenges.find((challenge) => /^Digest\s/i.test(challenge));
+
+    if (digest) {
+      const params: Record<string, string> = {};
+      const pattern = /(\w+)=("([^"]*)"|[^,\s]*)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(digest)) !== null) {
+        params[match[1].toLowerCase()] = match[3] ?? match[2];
+      }
+
+      const ha1 = cryptoService.hash(`${username}:${params.realm}:${password}`, HashAlgorithm.MD5);
+      const ha2 = cryptoService.hash(`${method}:${uri}`, HashAlgorithm.MD5);
+      const qop = params.qop?.split(',').map((item) => item.trim()).includes('auth') ? 'auth' : null;
+      const fields = [
+        `username="${username}"`,
+        `realm="${params.realm}"`,
+        `nonce="${params.nonce}"`,
+        `uri="${uri}"`,
+      ];
+
+      if (qop) {
+        const cnonce = cryptoService.generateRandomString(16);
+        const nc = '00000001';
+        const response = cryptoService.hash(`${ha1}:${params.nonce}:${nc}:${cnonce}:${qop}:${ha2}`, HashAlgorithm.MD5);
+        fields.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`, `response="${response}"`);
+      } else {
+        fields.push(`response="${cryptoService.hash(`${ha1}:${params.nonce}:${ha2}`, HashAlgorithm.MD5)}"`);
+      }
+      if (params.opaque) {
+        fields.push(`opaque="${params.opaque}"`);
+      }
+
+      return `Digest ${fields.join(', ')}`;
+    }
+
+    if (challenges.some((challenge) => /^Basic\s/i.test(challenge))) {
+      return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * 探测RTSP流
+   * 依次发送DESCRIBE、SETUP、PLAY，通过TCP交织方式接收RTP数据
+   */
+  private probeRtsp(url: string, timeout: number): Promise<StreamProbeResult> {
+    const startedAt = Date.now();
+    const target = new URL(url);
+    const secure = target.protocol === 'rtsps:';
+    const host = target.hostname;
+    const port = Number(target.port) || (secure ? 322 : 554);
+    const username = decodeURIComponent(target.username);
+    const password = decodeURIComponent(target.password);
+    target.username = '';
+    target.password = '';
+    const requestUrl = target.toString();
+
+    const info: StreamProbeInfo = { protocol: ProbeProtocol.RTSP, hasAudio: false };
+
+    return new Promise((resolve) => {
+      let settled = false;
+      let buffer = Buffer.alloc(0);
+      let cseq = 0;
+      let authorization: ((method: string, uri: string) => string | null) | null = null;
+      let pending: { resolve: (response: RtspResponse) => void; reject: (error: Error) => void } | null = null;
+      let onRtp: ((channel: number, packet: Buffer) => void) | null = null;
+
+      const socket = secure
+        ? tls.connect({ host, port, servername: host, rejectUnauthorized: false })
+        : net.connect({ host, port });
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        socket.destroy();
+        pending?.reject(error || new Error('Probe finished'));
+
+        resolve(error
+          ? { success: false, message: `Stream probe failed: ${error.message}`, info }
+          : { success: true, message: 'Stream is playable', info });
+      };
+
+      const timer = setTimeout(() => {
+        finish(new Error(info.timeToFirstFrame === undefined
+          ? `No video frame received within ${timeout}ms`
+          : 'Timed out while sampling stream'));
+      }, timeout);
+
+      const request = (method: string, uri: string, headers: Record<string, string> = {}) => {
+        return new Promise<RtspResponse>((resolveResponse, rejectResponse) => {
+          pending = { resolve: resolveResponse, reject: rejectResponse };
+          const lines = [
+            `${method} ${uri} RTSP/1.0`,
+            `CSeq: ${++cseq}`,
+            'User-Agent: zhunwang-iot-probe',
+          ];
+          const auth = authorization?.(method, uri);
+          if (auth) {
+            lines.push(`Authorization: ${auth}`);
+          }
+          for (const [key, value] of Object.entries(headers)) {
+            lines.push(`${key}: ${value}`);
+          }
+          socket.write(lines.join('\r\n') + '\r\n\r\n');
+        });
+      };
+
+      socket.on('data', (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        while (buffer.length > 0) {
+          // 交织的RTP/RTCP数据：$ + 通道 + 长度
+          if (buffer[0] === 0x24) {
+            if (buffer.length < 4) {
+              return;
+            }
+            const length = buffer.readUInt16BE(2);
+            if (buffer.length < 4 + length) {
+              return;
+            }
+            const channel = buffer[1];
+            const packet = buffer.subarray(4, 4 + length);
+            buffer = buffer.subarray(4 + length);
+            onRtp?.(channel, packet);
+            continue;
+          }
+
+          const headerEnd = buffer.indexOf('\r\n\r\n');
+          if (headerEnd === -1) {
+            return;
+          }
+
+          const lines = buffer.toString('utf8', 0, headerEnd).split('\r\n');
+          const headers: Record<string, string> = {};
+          const authenticate: string[] = [];
+          for (const line of lines.slice(1)) {
+            const index = line.indexOf(':');
+            const key = line.slice(0, index).trim().toLowerCase();
+            const value = line.slice(index + 1).trim();
+            headers[key] = value;
+            if (key === 'www-authenticate') {
+              authenticate.push(value);
+            }
+          }
+
+          const contentLength = Number(headers['content-length'] || 0);
+          if (buffer.length < headerEnd + 4 + contentLength) {
+            return;
+          }
+
+          const body = buffer.toString('utf8', headerEnd + 4, headerEnd + 4 + contentLength);
+          buffer = buffer.subarray(headerEnd + 4 + contentLength);
+
+          const status = /^RTSP\/1\.\d\s+(\d+)\s*(.*)$/.exec(lines[0]);
+          const callback = pending;
+          pending = null;
+          if (!status) {
+            callback?.reject(new Error(`Invalid RTSP response: ${lines[0]}`));
+            continue;
+          }
+          callback?.resolve({
+            statusCode: Number(status[1]),
+            statusText: status[2],
+            headers,
+            authenticate,
+            body,
+          });
+        }
+      });
+
+      socket.on('error', (error) => finish(error));
+      socket.on('close', () => finish(new Error('Connection closed by server')));
+
+      const handshake = async () => {
+        let describe = await request('DESCRIBE', requestUrl, { Accept: 'application/sdp' });
+        info.connectTime = Date.now() - startedAt;
+
+        if (describe.statusCode === 401 && username) {
+          const challenges = describe.authenticate;
+          authorization = (method, uri) => this.buildRtspAuthorization(challenges, method, uri, username, password);
+          describe = await request('DESCRIBE', requestUrl, { Accept: 'application/sdp' });
+        }
+
+        if (describe.statusCode !== 200) {
+          throw new Error(`DESCRIBE ${describe.statusCode} ${describe.statusText}`);
+        }
+
+        const tracks = this.parseSdp(describe.body);
+        const video = tracks.find((track) => track.media === 'video');
+        const audio = tracks.find((track) => track.media === 'audio');
+
+        if (audio) {
+          info.hasAudio = true;
+          info.audioCodec = audio.codec;
+        }
+        if (!video) {
+          throw new Error('No video track in SDP');
+        }
+
+        info.videoCodec = video.codec;
+        info.width = video.width;
+        info.height = video.height;
+        info.frameRate = video.frameRate;
+
+        const spropSets = video.fmtp['sprop-parameter-sets'];
+        if (video.codec === 'H.264' && spropSets) {
+          const spsInfo = parseH264Sps(Buffer.from(spropSets.split(',')[0], 'base64'));
+          if (spsInfo) {
+            info.width = spsInfo.width;
+            info.height = spsInfo.height;
+            info.frameRate = info.frameRate || spsInfo.frameRate;
+          }
+        }
+
+        // 解析控制地址
+        const base = describe.headers['content-base'] || describe.headers['content-location'] || requestUrl;
+        const resolveControl = (control?: string) => {
+          if (!control || control === '*') {
+            return base;
+          }
+          if (/^rtsps?:\/\//i.test(control)) {
+            return control;
+          }
+          return base.endsWith('/') ? `${base}${control}` : `${base}/${control}`;
+        };
+
+        const setup = await request('SETUP', resolveControl(video.control), {
+          Transport: 'RTP/AVP/TCP;unicast;interleaved=0-1',
+        });
+        if (setup.statusCode !== 200) {
+          throw new Error(`SETUP ${setup.statusCode} ${setup.statusText}`);
+        }
+        const session = (setup.headers['session'] || '').split(';')[0];
+
+        // 采样RTP数据：首个关键帧计为首帧，之后统计帧率和码率
+        const timestamps = new Set<number>();
+        let firstTimestamp: number | null = null;
+        let lastTimestamp = 0;
+        let sampleBytes = 0;
+        let sampleStartedAt = 0;
+
+        onRtp = (channel, packet) => {
+          if (channel !== 0 || packet.length < 12) {
+            return;
+          }
+
+          const csrcCount = packet[0] & 0x0f;
+          let headerLength = 12 + csrcCount * 4;
+          if ((packet[0] & 0x10) && packet.length >= headerLength + 4) {
+            headerLength += 4 + packet.readUInt16BE(headerLength + 2) * 4;
+          }
+          const timestamp = packet.readUInt32BE(4);
+          const payload = packet.subarray(headerLength);
+
+          if (info.timeToFirstFrame === undefined) {
+            const inspection = inspectRtpPayload(video.codec, payload);
+            if (inspection.sps && !info.width) {
+              const spsInfo = parseH264Sps(inspection.sps);
+              info.width = spsInfo?.width;
+              info.height = spsInfo?.height;
+            }
+            if (!inspection.keyframe) {
+              return;
+            }
+            info.timeToFirstFrame = Date.now() - startedAt;
+            sampleStartedAt = Date.now();
+            firstTimestamp = timestamp;
+          }
+
+          timestamps.add(timestamp);
+          lastTimestamp = timestamp;
+          sampleBytes += payload.length;
+
+          const elapsed = Date.now() - sampleStartedAt;
+          if (timestamps.size >= SAMPLE_FRAMES || elapsed >= SAMPLE_DURATION) {
+            const span = (lastTimestamp - (firstTimestamp as number)) >>> 0;
+            if (span > 0 && timestamps.size > 1) {
+              info.frameRate = round(((timestamps.size - 1) * video.clockRate) / span);
+            }
+            if (elapsed > 0) {
+              info.bitrate = Math.round((sampleBytes * 8) / elapsed);
+            }
+            onRtp = null;
+            request('TEARDOWN', base, { Session: session }).catch(() => undefined);
+            finish();
+          }
+        };
+
+        const play = await request('PLAY', base, { Session: session, Range: 'npt=0.000-' });
+        if (play.statusCode !== 200) {
+          throw new Error(`PLAY ${play.statusCode} ${play.statusText}`);
+        }
+      };
+
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        handshake().catch((error) => finish(error));
+      });
+    });
+  }
+}
+
+// 导出单例实例
+export const streamProbeService = StreamProbeService.getInstance();
+export default streamProbeService;
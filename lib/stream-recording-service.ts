@@ -0,0 +1,940 @@
+/**
+ * 视频录像服务 - 按录像计划录制摄像头视频流并管理录像片段
+ *
+ * 该服务实现了以下功能：
+ * 1. 录像模式：连续录像、按时间段录像、告警触发录像
+ * 2. 片段存储：FFmpeg按固定时长切分MP4片段写入本地磁盘，并建立录像索引
+ * 3. 告警录像：持续预录并缓存最近片段，设备告警时保留告警前后的片段
+ * 4. 保留策略：按录像计划的保留天数定期清理过期片段
+ * 5. 录像查询：按时间范围查询录像片段，供回放时间轴使用
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WebSocket } from 'ws';
+import { DeviceAlarm, Prisma, RecordingMode, RecordingPlan, StreamType, VideoRecording } from '@prisma/client';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import { streamIngestService, LiveViewer } from './stream-ingest-service';
+
+/**
+ * 录像时间段
+ */
+export interface RecordingScheduleWindow {
+  // 生效的星期（0为周日），不传表示每天
+  days?: number[];
+  // 开始时间，格式HH:mm
+  start: string;
+  // 结束时间，格式HH:mm，早于开始时间表示跨天
+  end: string;
+}
+
+/**
+ * 录像计划参数
+ */
+export interface RecordingPlanInput {
+  mode: RecordingMode;
+  schedule?: RecordingScheduleWindow[] | null;
+  preAlarmSeconds?: number;
+  postAlarmSeconds?: number;
+  segmentSeconds?: number;
+  retentionDays?: number;
+  alarmDeviceIds?: string[];
+  enabled?: boolean;
+}
+
+/**
+ * 录像查询选项
+ */
+export interface RecordingQueryOptions {
+  startTime?: Date;
+  endTime?: Date;
+  limit?: number;
+}
+
+/**
+ * 录像任务信息
+ */
+export interface RecorderInfo {
+  // 视频配置ID
+  videoConfigId: string;
+  // 录像模式
+  mode: RecordingMode;
+  // 启动时间
+  startedAt: Date;
+  // 已完成的片段数
+  segmentCount: number;
+  // 进行中的告警录像数
+  activeAlarms: number;
+}
+
+/**
+ * 带视频流信息的录像计划
+ */
+type PlanWithStream = RecordingPlan & {
+  videoConfig: {
+    streamUrl: string;
+    streamType: StreamType;
+  };
+};
+
+/**
+ * 告警录像时间窗口
+ */
+interface AlarmWindow {
+  alarmId: string;
+  from: number;
+  until: number;
+}
+
+/**
+ * 已完成的录像片段
+ */
+interface CompletedSegment {
+  fileName: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  fileSize: number;
+}
+
+/**
+ * 录像任务内部状态
+ */
+interface Recorder {
+  videoConfigId: string;
+  plan: PlanWithStream;
+  dir: string;
+  process: ChildProcess;
+  // 释放输入源（接入网关订阅或WebSocket连接）
+  releaseSource: (() => void) | null;
+  stopping: boolean;
+  killTimer: NodeJS.Timeout | null;
+  startedAt: Date;
+  segmentCount: number;
+  // FFmpeg片段列表输出的未完整行
+  pendingOutput: string;
+  // 告警录像时间窗口
+  alarmWindows: AlarmWindow[];
+  // 告警录像模式下尚未确定是否保留的片段
+  buffered: CompletedSegment[];
+}
+
+// 时间段格式 HH:mm
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 视频录像服务类
+ * 事件：
+ * - recorder_start(videoConfigId, mode)：录像任务启动
+ * - recorder_stop(videoConfigId, code)：录像任务结束
+ * - segment(recording)：录像片段已入库
+ * - alarm_recording(videoConfigId, alarmId)：告警触发录像
+ */
+export class StreamRecordingService extends EventEmitter {
+  private static instance: StreamRecordingService;
+  private recorders: Map<string, Recorder> = new Map();
+  private checkInterval: NodeJS.Timeout | null = null;
+  private reconciling: boolean = false;
+  private lastPurgeAt: number = 0;
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly STORAGE_DIR = process.env.RECORDING_DIR || path.join(process.cwd(), 'storage', 'recordings');
+  private readonly CHECK_INTERVAL = Number(process.env.RECORDING_CHECK_INTERVAL || 30000); // 30秒
+  private readonly DEFAULT_RETENTION_DAYS = Number(process.env.RECORDING_RETENTION_DAYS || 7);
+  private readonly PURGE_INTERVAL = 60 * 60 * 1000; // 每小时清理一次过期录像
+  private readonly STOP_TIMEOUT = 10000; // 停止录像后10秒未退出则强制结束
+  private readonly SOURCE_TIMEOUT = 10000000; // 源读写超时10秒（微秒）
+  private readonly MAX_STDIN_BUFFER = 4 * 1024 * 1024;
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamRecordingService {
+    if (!StreamRecordingService.instance) {
+      StreamRecordingService.instance = new StreamRecordingService();
+    }
+    return StreamRecordingService.instance;
+  }
+
+  /**
+   * 设置事件监听器
+   */
+  private setupEventListeners(): void {
+    deviceService.on('alarm_created', (alarm: DeviceAlarm) => {
+      this.handleAlarm(alarm);
+    });
+  }
+
+  /**
+   * 启动录像调度
+   */
+  public start(): void {
+    if (this.checkInterval) {
+      return;
+    }
+
+    this.checkInterval = setInterval(() => {
+      this.reconcile();
+    }, this.CHECK_INTERVAL);
+
+    // 启动后立即执行一次
+    setTimeout(() => this.reconcile(), 0);
+    console.log(`视频录像调度已启动，录像目录 ${this.STORAGE_DIR}`);
+  }
+
+  /**
+   * 停止录像调度及所有录像任务
+   */
+  public stop(): void {
+    if (this.checkInterval) {
+      clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+
+    for (const recorder of Array.from(this.recorders.values())) {
+      this.stopRecorder(recorder);
+    }
+  }
+
+  /**
+   * 是否正在录像
+   * @param videoConfigId 视频配置ID
+   */
+  public isRecording(videoConfigId: string): boolean {
+    return this.recorders.has(videoConfigId);
+  }
+
+  /**
+   * 获取录像任务信息
+   * @param videoConfigId 视频配置ID
+   * @returns 录像任务信息，未在录像时返回undefined
+   */
+  public getRecorder(videoConfigId: string): RecorderInfo | undefined {
+    const recorder = this.recorders.get(videoConfigId);
+    if (!recorder) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    return {
+      videoConfigId,
+      mode: recorder.plan.mode,
+      startedAt: recorder.startedAt,
+      segmentCount: recorder.segmentCount,
+      activeAlarms: recorder.alarmWindows.filter(window => window.until > now).length,
+    };
+  }
+
+  /**
+   * 获取录像计划
+   * @param videoConfigId 视频配置ID
+   */
+  public async getPlan(videoConfigId: string): Promise<RecordingPlan | null> {
+    return prisma.recordingPlan.findUnique({
+      where: { videoConfigId },
+    });
+  }
+
+  /**
+   * 校验录像计划参数
+   * @param input 录像计划参数
+   * @returns 错误信息，校验通过时返回null
+   */
+  public validatePlan(input: RecordingPlanInput): string | null {
+    if (!input || !Object.values(RecordingMode).includes(input.mode)) {
+      return 'Invalid recording mode';
+    }
+
+    const positive: (keyof RecordingPlanInput)[] = ['preAlarmSeconds', 'postAlarmSeconds', 'segmentSeconds', 'retentionDays'];
+    for (const key of positive) {
+      const value = input[key];
+      if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0)) {
+        return `${key} must be a non-negative integer`;
+      }
+    }
+    if (input.segmentSeconds !== undefined && (input.segmentSeconds < 5 || input.segmentSeconds > 3600)) {
+      return 'segmentSeconds must be between 5 and 3600';
+    }
+    if (input.retentionDays !== undefined && input.retentionDays < 1) {
+      return 'retentionDays must be at least 1';
+    }
+
+    if (input.mode === RecordingMode.SCHEDULE) {
+      if (!Array.isArray(input.schedule) || input.schedule.length === 0) {
+        return 'Schedule is required for scheduled recording';
+      }
+      for (const window of input.schedule) {
+        if (!window || !TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end) || window.start === window.end) {
+          return 'Schedule window must have distinct start and end in HH:mm format';
+        }
+        if (window.days !== undefined
+          && (!Array.isArray(window.days) || window.days.some(day => !Number.isInteger(day) || day < 0 || day > 6))) {
+          return 'Schedule days must be integers between 0 and 6';
+        }
+      }
+    }
+
+    if (input.mode === RecordingMode.ALARM) {
+      if (!Array.isArray(input.alarmDeviceIds) || input.alarmDeviceIds.length === 0) {
+        return 'Alarm devices are required for alarm-triggered recording';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 保存录像计划并立即生效
+   * @param videoConfigId 视频配置ID
+   * @param input 录像计划参数（需先通过validatePlan校验）
+   * @returns 录像计划
+   */
+  public async savePlan(videoConfigId: string, input: RecordingPlanInput): Promise<RecordingPlan> {
+    const data = {
+      mode: input.mode,
+      schedule: input.schedule ? (input.schedule as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      preAlarmSeconds: input.preAlarmSeconds,
+      postAlarmSeconds: input.postAlarmSeconds,
+      segmentSeconds: input.segmentSeconds,
+      retentionDays: input.retentionDays,
+      alarmDeviceIds: input.alarmDeviceIds || [],
+      enabled: input.enabled,
+    };
+
+    const plan = await prisma.recordingPlan.upsert({
+      where: { videoConfigId },
+      create: { ...data, videoConfigId },
+      update: data,
+    });
+
+    await this.reconcile();
+    return plan;
+  }
+
+  /**
+   * 删除录像计划并停止录像，已有录像按默认保留天数清理
+   * @param videoConfigId 视频配置ID
+   * @returns 是否存在该计划
+   */
+  public async deletePlan(videoConfigId: string): Promise<boolean> {
+    const { count } = await prisma.recordingPlan.deleteMany({
+      where: { videoConfigId },
+    });
+
+    const recorder = this.recorders.get(videoConfigId);
+    if (recorder) {
+      this.stopRecorder(recorder);
+    }
+
+    return count > 0;
+  }
+
+  /**
+   * 按时间范围查询录像片段
+   * @param videoConfigId 视频配置ID
+   * @param options 查询选项
+   * @returns 与时间范围有交集的录像片段，按开始时间正序
+   */
+  public async getRecordings(videoConfigId: string, options: RecordingQueryOptions = {}): Promise<VideoRecording[]> {
+    return prisma.videoRecording.findMany({
+      where: {
+        videoConfigId,
+        startTime: options.endTime ? { lt: options.endTime } : undefined,
+        endTime: options.startTime ? { gt: options.startTime } : undefined,
+      },
+      orderBy: { startTime: 'asc' },
+      take: Math.min(options.limit || 500, 2000),
+    });
+  }
+
+  /**
+   * 获取录像片段及其文件路径
+   * @param videoConfigId 视频配置ID
+   * @param recordingId 录像片段ID
+   * @returns 录像片段和文件路径，不存在时返回null
+   */
+  public async getRecordingFile(videoConfigId: string, recordingId: string): Promise<{ recording: VideoRecording; filePath: string } | null> {
+    const recording = await prisma.videoRecording.findFirst({
+      where: { id: recordingId, videoConfigId },
+    });
+
+    if (!recording) {
+      return null;
+    }
+
+    return {
+      recording,
+      filePath: this.getFilePath(videoConfigId, recording.fileName),
+    };
+  }
+
+  /**
+   * 删除视频配置的全部录像文件（视频配置删除后调用，录像索引随视频配置级联删除）
+   * @param videoConfigId 视频配置ID
+   */
+  public async removeVideoRecordings(videoConfigId: string): Promise<void> {
+    const recorder = this.recorders.get(videoConfigId);
+    if (recorder) {
+      this.stopRecorder(recorder);
+    }
+
+    try {
+      await fs.rm(path.join(this.STORAGE_DIR, videoConfigId), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`Error removing recordings of video ${videoConfigId}:`, error);
+    }
+  }
+
+  /**
+   * 按录像计划启动或停止录像任务
+   */
+  public async reconcile(): Promise<void> {
+    // 上一轮尚未完成时跳过
+    if (this.reconciling) {
+      return;
+    }
+    this.reconciling = true;
+
+    try {
+      const plans: PlanWithStream[] = await prisma.recordingPlan.findMany({
+        where: { enabled: true, videoConfig: { status: true } },
+        include: {
+          videoConfig: {
+            select: { streamUrl: true, streamType: true },
+          },
+        },
+      });
+
+      const now = new Date();
+      const wanted = new Map<string, PlanWithStream>();
+      for (const plan of plans) {
+        if (this.shouldRecord(plan, now)) {
+          wanted.set(plan.videoConfigId, plan);
+        }
+      }
+
+      // 停止不再需要或计划、视频流已变更的录像任务
+      for (const recorder of Array.from(this.recorders.values())) {
+        const plan = wanted.get(recorder.videoConfigId);
+        if (!plan
+          || plan.updatedAt.getTime() !== recorder.plan.updatedAt.getTime()
+          || plan.videoConfig.streamUrl !== recorder.plan.videoConfig.streamUrl
+          || plan.videoConfig.streamType !== recorder.plan.videoConfig.streamType) {
+          this.stopRecorder(recorder);
+        }
+      }
+
+      for (const plan of wanted.values()) {
+        if (!this.recorders.has(plan.videoConfigId)) {
+          await this.startRecorder(plan);
+        }
+      }
+
+      await this.purgeExpired();
+    } catch (error) {
+      console.error('Error reconciling video recordings:', error);
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  /**
+   * 判断当前是否需要录像
+   * 告警触发录像需要持续预录，以便保留告警前的片段
+   * @param plan 录像计划
+   * @param now 当前时间
+   */
+  private shouldRecord(plan: RecordingPlan, now: Date): boolean {
+    switch (plan.mode) {
+      case RecordingMode.CONTINUOUS:
+      case RecordingMode.ALARM:
+        return true;
+      case RecordingMode.SCHEDULE:
+        return this.isWithinSchedule(plan.schedule as RecordingScheduleWindow[] | null, now);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 判断时间是否在录像时间段内
+   * @param schedule 录像时间段
+   * @param now 当前时间
+   */
+  private isWithinSchedule(schedule: RecordingScheduleWindow[] | null, now: Date): boolean {
+    if (!Array.isArray(schedule)) {
+      return false;
+    }
+
+    const toMinutes = (time: string) => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const day = now.getDay();
+    const previousDay = (day + 6) % 7;
+
+    return schedule.some((window) => {
+      const start = toMinutes(window.start);
+      const end = toMinutes(window.end);
+      const onDay = (d: number) => !window.days || window.days.includes(d);
+
+      if (start < end) {
+        return onDay(day) && minutes >= start && minutes < end;
+      }
+
+      // 跨天时间段：开始时间之后属于当天，结束时间之前属于前一天的时间段
+      return (onDay(day) && minutes >= start) || (onDay(previousDay) && minutes < end);
+    });
+  }
+
+  /**
+   * 启动录像任务
+   * RTSP/RTMP经接入网关订阅（与直播共用一路摄像头连接），WebSocket由服务端转发，HTTP由FFmpeg直接拉取
+   * @param plan 录像计划
+   */
+  private async startRecorder(plan: PlanWithStream): Promise<void> {
+    const dir = path.join(this.STORAGE_DIR, plan.videoConfigId);
+    await fs.mkdir(dir, { recursive: true });
+
+    const { streamUrl, streamType } = plan.videoConfig;
+    const fromStdin = streamType !== StreamType.HTTP;
+    const child = spawn(this.FFMPEG_PATH, this.buildFfmpegArgs(plan, dir, fromStdin), {
+      stdio: [fromStdin ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+    });
+
+    const recorder: Recorder = {
+      videoConfigId: plan.videoConfigId,
+      plan,
+      dir,
+      process: child,
+      releaseSource: null,
+      stopping: false,
+      killTimer: null,
+      startedAt: new Date(),
+      segmentCount: 0,
+      pendingOutput: '',
+      alarmWindows: [],
+      buffered: [],
+    };
+    this.recorders.set(plan.videoConfigId, recorder);
+
+    child.stdout!.on('data', (chunk: Buffer) => this.handleOutput(recorder, chunk));
+    child.stderr!.on('data', (chunk: Buffer) => {
+      console.error(`[ffmpeg record ${plan.videoConfigId}] ${chunk.toString().trim()}`);
+    });
+    child.on('error', (error) => {
+      console.error(`录像任务 ${plan.videoConfigId} 启动FFmpeg失败:`, error);
+    });
+    child.on('close', (code) => this.handleProcessExit(recorder, code));
+
+    if (fromStdin) {
+      // 输入源断开后FFmpeg进程可能已退出，忽略写入错误
+      child.stdin!.on('error', () => undefined);
+      try {
+        const release = streamType === StreamType.WEBSOCKET
+          ? this.openWebSocketSource(recorder, streamUrl)
+          : await this.openIngestSource(recorder);
+
+        // 订阅期间录像任务可能已被停止
+        if (recorder.stopping) {
+          release();
+          return;
+        }
+        recorder.releaseSource = release;
+      } catch (error) {
+        console.error(`录像任务 ${plan.videoConfigId} 打开视频流失败:`, error);
+        this.stopRecorder(recorder);
+        return;
+      }
+    }
+
+    this.emit('recorder_start', plan.videoConfigId, plan.mode);
+  }
+
+  /**
+   * 通过接入网关订阅视频流
+   * @param recorder 录像任务
+   * @returns 取消订阅函数
+   */
+  private async openIngestSource(recorder: Recorder): Promise<() => void> {
+    const viewer: LiveViewer = {
+      id: streamIngestService.generateViewerId('record'),
+      write: (chunk) => this.writeInput(recorder, chunk),
+      // 接入网关停止拉流时结束录像，由下一轮调度重新启动
+      close: () => this.stopRecorder(recorder),
+      isCongested: () => (recorder.process.stdin?.writableLength || 0) > this.MAX_STDIN_BUFFER,
+    };
+
+    return streamIngestService.subscribe(recorder.videoConfigId, viewer);
+  }
+
+  /**
+   * 连接WS-FLV视频流
+   * @param recorder 录像任务
+   * @param url WebSocket地址
+   * @returns 关闭连接函数
+   */
+  private openWebSocketSource(recorder: Recorder, url: string): () => void {
+    const ws = new WebSocket(url);
+    ws.binaryType = 'nodebuffer';
+
+    ws.on('message', (data: Buffer) => this.writeInput(recorder, data));
+    ws.on('close', () => this.stopRecorder(recorder));
+    ws.on('error', (error) => {
+      console.error(`录像任务 ${recorder.videoConfigId} WebSocket连接错误:`, error);
+    });
+
+    return () => ws.close();
+  }
+
+  /**
+   * 向FFmpeg写入视频流数据
+   * @param recorder 录像任务
+   * @param chunk FLV数据
+   */
+  private writeInput(recorder: Recorder, chunk: Buffer): void {
+    const stdin = recorder.process.stdin;
+    if (!recorder.stopping && stdin && stdin.writable && stdin.writableLength <= this.MAX_STDIN_BUFFER) {
+      stdin.write(chunk);
+    }
+  }
+
+  /**
+   * 构建FFmpeg参数
+   * 视频直接复制，音频转为AAC，按片段时长切分为MP4文件，完成的片段通过标准输出以CSV列表输出
+   * @param plan 录像计划
+   * @param dir 录像目录
+   * @param fromStdin 是否从标准输入读取FLV
+   */
+  private buildFfmpegArgs(plan: PlanWithStream, dir: string, fromStdin: boolean): string[] {
+    const inputArgs = fromStdin
+      ? ['-f', 'flv', '-i', 'pipe:0']
+      : ['-rw_timeout', String(this.SOURCE_TIMEOUT), '-i', plan.videoConfig.streamUrl];
+
+    return [
+      '-hide_banner',
+      '-loglevel', 'error',
+      ...inputArgs,
+      '-c:v', 'copy',
+      '-c:a', 'aac',
+      '-f', 'segment',
+      '-segment_time', String(plan.segmentSeconds),
+      '-segment_format', 'mp4',
+      '-segment_format_options', 'movflags=+faststart',
+      '-segment_list', 'pipe:1',
+      '-segment_list_type', 'csv',
+      '-reset_timestamps', '1',
+      '-strftime', '1',
+      path.join(dir, '%Y%m%d-%H%M%S.mp4'),
+    ];
+  }
+
+  /**
+   * 解析FFmpeg输出的片段列表（每行：文件名,开始秒数,结束秒数）
+   * @param recorder 录像任务
+   * @param chunk 输出数据
+   */
+  private handleOutput(recorder: Recorder, chunk: Buffer): void {
+    const lines = (recorder.pendingOutput + chunk.toString()).split('\n');
+    recorder.pendingOutput = lines.pop() || '';
+
+    for (const line of lines) {
+      const [fileName, start, end] = line.trim().split(',');
+      const duration = Number(end) - Number(start);
+      if (fileName && duration > 0) {
+        this.handleSegment(recorder, path.basename(fileName), duration);
+      }
+    }
+  }
+
+  /**
+   * 处理完成的录像片段
+   * @param recorder 录像任务
+   * @param fileName 文件名
+   * @param duration 时长（秒）
+   */
+  private async handleSegment(recorder: Recorder, fileName: string, duration: number): Promise<void> {
+    try {
+      const stat = await fs.stat(path.join(recorder.dir, fileName));
+      const endTime = new Date();
+      const segment: CompletedSegment = {
+        fileName,
+        startTime: new Date(endTime.getTime() - Math.round(duration * 1000)),
+        endTime,
+        duration,
+        fileSize: stat.size,
+      };
+      recorder.segmentCount++;
+
+      if (recorder.plan.mode !== RecordingMode.ALARM) {
+        await this.saveSegment(recorder, segment, null);
+        return;
+      }
+
+      const window = this.findAlarmWindow(recorder, segment);
+      if (window) {
+        await this.saveSegment(recorder, segment, window.alarmId);
+      } else if (recorder.stopping) {
+        // 录像任务已停止，后续告警不会再命中该片段
+        await this.removeFile(path.join(recorder.dir, fileName));
+      } else {
+        recorder.buffered.push(segment);
+      }
+
+      await this.pruneBuffer(recorder);
+    } catch (error) {
+      console.error(`Error handling recording segment ${fileName} of video ${recorder.videoConfigId}:`, error);
+    }
+  }
+
+  /**
+   * 录像片段入库
+   * @param recorder 录像任务
+   * @param segment 录像片段
+   * @param alarmId 触发录像的告警ID
+   */
+  private async saveSegment(recorder: Recorder, segment: CompletedSegment, alarmId: string | null): Promise<void> {
+    const recording = await prisma.videoRecording.create({
+      data: {
+        videoConfigId: recorder.videoConfigId,
+        mode: recorder.plan.mode,
+        startTime: segment.startTime,
+        endTime: segment.endTime,
+        duration: segment.duration,
+        fileName: segment.fileName,
+        fileSize: segment.fileSize,
+        alarmId,
+      },
+    });
+
+    this.emit('segment', recording);
+  }
+
+  /**
+   * 查找与片段有交集的告警录像时间窗口
+   * @param recorder 录像任务
+   * @param segment 录像片段
+   */
+  private findAlarmWindow(recorder: Recorder, segment: CompletedSegment): AlarmWindow | undefined {
+    const start = segment.startTime.getTime();
+    const end = segment.endTime.getTime();
+    return recorder.alarmWindows.find(window => window.from < end && window.until > start);
+  }
+
+  /**
+   * 删除超出告警前保留时长的缓存片段，并清理已结束的告警窗口
+   * @param recorder 录像任务
+   */
+  private async pruneBuffer(recorder: Recorder): Promise<void> {
+    const now = Date.now();
+    const keepFrom = now - recorder.plan.preAlarmSeconds * 1000;
+
+    const expired = recorder.buffered.filter(segment => segment.endTime.getTime() < keepFrom);
+    recorder.buffered = recorder.buffered.filter(segment => segment.endTime.getTime() >= keepFrom);
+    recorder.alarmWindows = recorder.alarmWindows.filter(
+      window => window.until > now - recorder.plan.segmentSeconds * 1000
+    );
+
+    await Promise.all(expired.map(segment => this.removeFile(path.join(recorder.dir, segment.fileName))));
+  }
+
+  /**
+   * 处理设备告警，为关联的告警录像任务保留告警前后的片段
+   * @param alarm 设备告警
+   */
+  private async handleAlarm(alarm: DeviceAlarm): Promise<void> {
+    const alarmAt = alarm.createdAt.getTime();
+
+    for (const recorder of this.recorders.values()) {
+      const plan = recorder.plan;
+      if (plan.mode !== RecordingMode.ALARM || !plan.alarmDeviceIds.includes(alarm.deviceId)) {
+        continue;
+      }
+
+      const window: AlarmWindow = {
+        alarmId: alarm.id,
+        from: alarmAt - plan.preAlarmSeconds * 1000,
+        until: alarmAt + plan.postAlarmSeconds * 1000,
+      };
+      recorder.alarmWindows.push(window);
+
+      // 告警前已完成的片段立即入库
+      const matched = recorder.buffered.filter(segment => this.findAlarmWindow(recorder, segment) === window);
+      recorder.buffered = recorder.buffered.filter(segment => !matched.includes(segment));
+
+      try {
+        for (const segment of matched) {
+          await this.saveSegment(recorder, segment, alarm.id);
+        }
+      } catch (error) {
+        console.error(`Error saving alarm recording of video ${recorder.videoConfigId}:`, error);
+      }
+
+      this.emit('alarm_recording', recorder.videoConfigId, alarm.id);
+    }
+  }
+
+  /**
+   * 停止录像任务
+   * 结束输入让FFmpeg写完当前片段后退出
+   * @param recorder 录像任务
+   */
+  private stopRecorder(recorder: Recorder): void {
+    if (recorder.stopping) {
+      return;
+    }
+    recorder.stopping = true;
+
+    if (this.recorders.get(recorder.videoConfigId) === recorder) {
+      this.recorders.delete(recorder.videoConfigId);
+    }
+
+    if (recorder.releaseSource) {
+      const release = recorder.releaseSource;
+      recorder.releaseSource = null;
+      release();
+    }
+
+    const child = recorder.process;
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    if (child.stdin) {
+      child.stdin.end();
+    } else {
+      child.kill('SIGINT');
+    }
+
+    recorder.killTimer = setTimeout(() => {
+      child.kill('SIGKILL');
+    }, this.STOP_TIMEOUT);
+  }
+
+  /**
+   * 处理FFmpeg进程退出
+   * @param recorder 录像任务
+   * @param code 退出码
+   */
+  private handleProcessExit(recorder: Recorder, code: number | null): void {
+    if (recorder.killTimer) {
+      clearTimeout(recorder.killTimer);
+      recorder.killTimer = null;
+    }
+
+    if (!recorder.stopping) {
+      // 异常退出，由下一轮调度重新启动
+      console.error(`录像任务 ${recorder.videoConfigId} FFmpeg异常退出，退出码 ${code}`);
+      this.stopRecorder(recorder);
+    }
+
+    // 录像结束后未被告警命中的缓存片段不再保留
+    const buffered = recorder.buffered;
+    recorder.buffered = [];
+    Promise.all(buffered.map(segment => this.removeFile(path.join(recorder.dir, segment.fileName))))
+      .catch(error => console.error('Error removing buffered recordings:', error));
+
+    this.emit('recorder_stop', recorder.videoConfigId, code);
+  }
+
+  /**
+   * 清理过期录像
+   */
+  private async purgeExpired(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastPurgeAt < this.PURGE_INTERVAL) {
+      return;
+    }
+    this.lastPurgeAt = now;
+
+    try {
+      const plans = await prisma.recordingPlan.findMany({
+        select: { videoConfigId: true, retentionDays: true },
+      });
+
+      for (const plan of plans) {
+        await this.deleteRecordings({
+          videoConfigId: plan.videoConfigId,
+          startTime: { lt: new Date(now - plan.retentionDays * DAY_MS) },
+        });
+      }
+
+      // 已删除录像计划的视频按默认保留天数清理
+      await this.deleteRecordings({
+        videoConfig: { recordingPlan: { is: null } },
+        startTime: { lt: new Date(now - this.DEFAULT_RETENTION_DAYS * DAY_MS) },
+      });
+    } catch (error) {
+      console.error('Error purging expired recordings:', error);
+    }
+  }
+
+  /**
+   * 分批删除录像文件及索引
+   * @param where 查询条件
+   */
+  private async deleteRecordings(where: Prisma.VideoRecordingWhereInput): Promise<void> {
+    const BATCH_SIZE = 500;
+
+    for (;;) {
+      const batch = await prisma.videoRecording.findMany({
+        where,
+        select: { id: true, videoConfigId: true, fileName: true },
+        take: BATCH_SIZE,
+      });
+
+      if (batch.length === 0) {
+        return;
+      }
+
+      await Promise.all(batch.map(recording => this.removeFile(this.getFilePath(recording.videoConfigId, recording.fileName))));
+      await prisma.videoRecording.deleteMany({
+        where: { id: { in: batch.map(recording => recording.id) } },
+      });
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * 获取录像文件路径
+   * @param videoConfigId 视频配置ID
+   * @param fileName 文件名
+   */
+  private getFilePath(videoConfigId: string, fileName: string): string {
+    return path.join(this.STORAGE_DIR, videoConfigId, path.basename(fileName));
+  }
+
+  /**
+   * 删除文件，文件不存在时忽略
+   * @param filePath 文件路径
+   */
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error removing recording file ${filePath}:`, error);
+      }
+    }
+  }
+}
+
+// 导出单例实例
+export const streamRecordingService = StreamRecordingService.getInstance();
+
+export default streamRecordingService;
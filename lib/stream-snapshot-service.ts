@@ -0,0 +1,454 @@
+/**
+ * 视频截图服务 - 服务端抓取视频帧并保存为JPEG
+ *
+ * 该服务实现了以下功能：
+ * 1. 手动截图：抓取视频流当前画面保存到本地磁盘，记录截图用户和时间
+ * 2. 封面刷新：定时为启用的视频流截图并更新视频封面
+ * 3. 连接复用：接入网关正在拉流时直接使用网关数据，不对摄像头建立额外连接
+ * 4. 截图管理：查询截图记录、读取截图文件、清理旧的定时截图
+ */
+
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WebSocket } from 'ws';
+import { StreamType, VideoHealthState, VideoSnapshot } from '@prisma/client';
+import prisma from './db-prisma';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+import { streamIngestService, IngestSessionState, LiveViewer } from './stream-ingest-service';
+
+/**
+ * 截图源视频配置
+ */
+interface SnapshotSource {
+  id: string;
+  name: string;
+  streamUrl: string;
+  streamType: StreamType;
+}
+
+/**
+ * 视频截图服务类
+ * 事件：
+ * - snapshot(snapshot)：截图已保存
+ */
+export class StreamSnapshotService extends EventEmitter {
+  private static instance: StreamSnapshotService;
+  // 同一视频流进行中的抓帧，并发请求共用结果
+  private pendingGrabs: Map<string, Promise<Buffer>> = new Map();
+  private refreshInterval: NodeJS.Timeout | null = null;
+  private refreshing: boolean = false;
+  private readonly FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly STORAGE_DIR = process.env.SNAPSHOT_DIR || path.join(process.cwd(), 'storage', 'snapshots');
+  private readonly COVER_INTERVAL = Number(process.env.SNAPSHOT_COVER_INTERVAL || 600000); // 10分钟
+  private readonly CONCURRENCY = Number(process.env.SNAPSHOT_CONCURRENCY || 2);
+  private readonly GRAB_TIMEOUT = 15000; // 抓帧超时15秒
+  private readonly SOURCE_TIMEOUT = 10000000; // 源读写超时10秒（微秒）
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamSnapshotService {
+    if (!StreamSnapshotService.instance) {
+      StreamSnapshotService.instance = new StreamSnapshotService();
+    }
+    return StreamSnapshotService.instance;
+  }
+
+  /**
+   * 启动封面定时刷新
+   */
+  public start(): void {
+    if (this.refreshInterval) {
+      return;
+    }
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshCovers();
+    }, this.COVER_INTERVAL);
+
+    // 启动后立即执行一次
+    setTimeout(() => this.refreshCovers(), 0);
+    console.log(`视频封面定时刷新已启动，间隔 ${this.COVER_INTERVAL}ms`);
+  }
+
+  /**
+   * 停止封面定时刷新
+   */
+  public stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * 获取截图访问地址
+   * @param videoConfigId 视频配置ID
+   * @param snapshotId 截图ID
+   */
+  public getSnapshotUrl(videoConfigId: string, snapshotId: string): string {
+    return `/api/streams/${videoConfigId}/snapshot/${snapshotId}`;
+  }
+
+  /**
+   * 截取视频流当前画面并更新封面
+   * @param videoConfigId 视频配置ID
+   * @param userId 截图用户ID，定时截图时为null
+   * @returns 截图记录，视频配置不存在或已停用时返回null
+   */
+  public async capture(videoConfigId: string, userId: string | null): Promise<VideoSnapshot | null> {
+    const source = await prisma.videoConfig.findFirst({
+      where: { id: videoConfigId, status: true },
+      select: { id: true, name: true, streamUrl: true, streamType: true },
+    });
+
+    if (!source) {
+      return null;
+    }
+
+    const image = await this.grabFrame(source);
+    const createdAt = new Date();
+    const fileName = `${createdAt.getTime()}.jpg`;
+    const dir = path.join(this.STORAGE_DIR, videoConfigId);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(path.join(dir, fileName), image);
+
+    const size = this.readJpegSize(image);
+    const snapshot = await prisma.videoSnapshot.create({
+      data: {
+        videoConfigId,
+        fileName,
+        fileSize: image.length,
+        width: size?.width,
+        height: size?.height,
+        isScheduled: userId === null,
+        createdBy: userId,
+        createdAt,
+      },
+    });
+
+    await prisma.videoConfig.updateMany({
+      where: { id: videoConfigId },
+      data: { cover: this.getSnapshotUrl(videoConfigId, snapshot.id) },
+    });
+
+    if (userId) {
+      await auditLogService.log({
+        userId,
+        eventType: AuditEventType.DATA_CREATE,
+        level: AuditLogLevel.INFO,
+        resourceType: 'VideoSnapshot',
+        resourceId: snapshot.id,
+        description: `Captured snapshot of video stream: ${source.name}`,
+        details: { videoConfigId },
+      });
+    }
+
+    this.emit('snapshot', snapshot);
+    return snapshot;
+  }
+
+  /**
+   * 获取视频截图记录
+   * @param videoConfigId 视频配置ID
+   * @param limit 最大条数
+   * @returns 截图记录，按时间倒序
+   */
+  public async getSnapshots(videoConfigId: string, limit: number = 50) {
+    return prisma.videoSnapshot.findMany({
+      where: { videoConfigId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(limit, 500),
+      include: {
+        creator: {
+          select: { id: true, username: true, name: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * 获取截图记录及其文件路径
+   * @param videoConfigId 视频配置ID
+   * @param snapshotId 截图ID
+   * @returns 截图记录和文件路径，不存在时返回null
+   */
+  public async getSnapshotFile(videoConfigId: string, snapshotId: string): Promise<{ snapshot: VideoSnapshot; filePath: string } | null> {
+    const snapshot = await prisma.videoSnapshot.findFirst({
+      where: { id: snapshotId, videoConfigId },
+    });
+
+    if (!snapshot) {
+      return null;
+    }
+
+    return {
+      snapshot,
+      filePath: path.join(this.STORAGE_DIR, videoConfigId, path.basename(snapshot.fileName)),
+    };
+  }
+
+  /**
+   * 删除视频配置的全部截图文件（视频配置删除后调用，截图记录随视频配置级联删除）
+   * @param videoConfigId 视频配置ID
+   */
+  public async removeVideoSnapshots(videoConfigId: string): Promise<void> {
+    try {
+      await fs.rm(path.join(this.STORAGE_DIR, videoConfigId), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`Error removing snapshots of video ${videoConfigId}:`, error);
+    }
+  }
+
+  /**
+   * 刷新所有启用且未离线的视频封面
+   */
+  public async refreshCovers(): Promise<void> {
+    // 上一轮尚未完成时跳过
+    if (this.refreshing) {
+      return;
+    }
+    this.refreshing = true;
+
+    try {
+      const videoConfigs = await prisma.videoConfig.findMany({
+        where: { status: true, healthState: { not: VideoHealthState.OFFLINE } },
+        select: { id: true },
+      });
+
+      // 按并发数分批截图
+      const queue = videoConfigs.map(videoConfig => videoConfig.id);
+      const workers = Array.from({ length: Math.min(this.CONCURRENCY, queue.length) }, async () => {
+        let id: string | undefined;
+        while ((id = queue.shift())) {
+          await this.refreshCover(id);
+        }
+      });
+      await Promise.all(workers);
+    } catch (error) {
+      console.error('Error refreshing video covers:', error);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * 刷新单个视频封面，并删除该视频之前的定时截图
+   * @param videoConfigId 视频配置ID
+   */
+  private async refreshCover(videoConfigId: string): Promise<void> {
+    try {
+      const snapshot = await this.capture(videoConfigId, null);
+      if (!snapshot) {
+        return;
+      }
+
+      const previous = await prisma.videoSnapshot.findMany({
+        where: { videoConfigId, isScheduled: true, id: { not: snapshot.id } },
+        select: { id: true, fileName: true },
+      });
+
+      if (previous.length > 0) {
+        await Promise.all(previous.map(item => this.removeFile(path.join(this.STORAGE_DIR, videoConfigId, item.fileName))));
+        await prisma.videoSnapshot.deleteMany({
+          where: { id: { in: previous.map(item => item.id) } },
+        });
+      }
+    } catch (error) {
+      console.error(`Error refreshing cover of video ${videoConfigId}:`, error);
+    }
+  }
+
+  /**
+   * 抓取一帧画面
+   * @param source 视频配置
+   * @returns JPEG图片数据
+   */
+  private grabFrame(source: SnapshotSource): Promise<Buffer> {
+    const pending = this.pendingGrabs.get(source.id);
+    if (pending) {
+      return pending;
+    }
+
+    const grab = this.runFfmpeg(source).finally(() => {
+      this.pendingGrabs.delete(source.id);
+    });
+    this.pendingGrabs.set(source.id, grab);
+    return grab;
+  }
+
+  /**
+   * 启动FFmpeg抓取一帧并输出JPEG
+   * 接入网关正在拉流时订阅网关数据，WebSocket流由服务端转发，其余由FFmpeg直接拉取
+   * @param source 视频配置
+   * @returns JPEG图片数据
+   */
+  private runFfmpeg(source: SnapshotSource): Promise<Buffer> {
+    const session = streamIngestService.getSession(source.id);
+    const fromIngest = session?.state === IngestSessionState.RUNNING;
+    const fromStdin = fromIngest || source.streamType === StreamType.WEBSOCKET;
+
+    const inputArgs = fromStdin
+      ? ['-f', 'flv', '-i', 'pipe:0']
+      : [
+        ...(source.streamType === StreamType.RTSP ? ['-rtsp_transport', 'tcp'] : []),
+        '-rw_timeout', String(this.SOURCE_TIMEOUT),
+        '-i', source.streamUrl,
+      ];
+
+    const child = spawn(this.FFMPEG_PATH, [
+      '-hide_banner',
+      '-loglevel', 'error',
+      ...inputArgs,
+      '-frames:v', '1',
+      '-q:v', '3',
+      '-c:v', 'mjpeg',
+      '-f', 'image2',
+      'pipe:1',
+    ], { stdio: [fromStdin ? 'pipe' : 'ignore', 'pipe', 'pipe'] });
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let stderr = '';
+      let release: (() => void) | null = null;
+      let settled = false;
+
+      const finish = (error: Error | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (release) {
+          release();
+          release = null;
+        }
+        if (error) {
+          reject(error);
+        } else {
+          resolve(Buffer.concat(chunks));
+        }
+      };
+
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        finish(new Error('Snapshot timed out'));
+      }, this.GRAB_TIMEOUT);
+
+      child.stdout!.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr!.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      child.on('error', (error) => finish(error));
+      child.on('close', (code) => {
+        if (chunks.length > 0) {
+          finish(null);
+        } else {
+          finish(new Error(stderr.trim().split('\n').pop() || `FFmpeg exited with code ${code}`));
+        }
+      });
+
+      if (!fromStdin) {
+        return;
+      }
+
+      // 抓到画面后FFmpeg会提前退出，忽略之后的写入错误
+      child.stdin!.on('error', () => undefined);
+      const write = (chunk: Buffer) => {
+        if (!settled && child.stdin!.writable) {
+          child.stdin!.write(chunk);
+        }
+      };
+      const end = () => {
+        if (child.stdin!.writable) {
+          child.stdin!.end();
+        }
+      };
+
+      if (fromIngest) {
+        const viewer: LiveViewer = {
+          id: streamIngestService.generateViewerId('snapshot'),
+          write,
+          close: end,
+        };
+        streamIngestService.subscribe(source.id, viewer)
+          .then((unsubscribe) => {
+            if (settled) {
+              unsubscribe();
+            } else {
+              release = unsubscribe;
+            }
+          })
+          .catch((error) => {
+            child.kill('SIGKILL');
+            finish(error);
+          });
+      } else {
+        const ws = new WebSocket(source.streamUrl);
+        ws.binaryType = 'nodebuffer';
+        ws.on('message', (data: Buffer) => write(data));
+        ws.on('close', end);
+        ws.on('error', (error) => {
+          child.kill('SIGKILL');
+          finish(error);
+        });
+        release = () => ws.close();
+      }
+    });
+  }
+
+  /**
+   * 读取JPEG图片尺寸（SOF段）
+   * @param image JPEG图片数据
+   * @returns 宽高，无法解析时返回null
+   */
+  private readJpegSize(image: Buffer): { width: number; height: number } | null {
+    let offset = 2;
+
+    while (offset + 9 < image.length) {
+      if (image[offset] !== 0xFF) {
+        offset++;
+        continue;
+      }
+
+      const marker = image[offset + 1];
+      // SOF0~SOF15，排除DHT(C4)、JPG(C8)、DAC(CC)
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC) {
+        return {
+          height: image.readUInt16BE(offset + 5),
+          width: image.readUInt16BE(offset + 7),
+        };
+      }
+
+      offset += 2 + image.readUInt16BE(offset + 2);
+    }
+
+    return null;
+  }
+
+  /**
+   * 删除文件，文件不存在时忽略
+   * @param filePath 文件路径
+   */
+  private async removeFile(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Error removing snapshot file ${filePath}:`, error);
+      }
+    }
+  }
+}
+
+// 导出单例实例
+export const streamSnapshotService = StreamSnapshotService.getInstance();
+
+export default streamSnapshotService;
@@ -0,0 +1,185 @@
+/**
+ * 视频播放令牌服务 - 签发和校验带有效期的视频流播放令牌
+ *
+ * 该服务实现了以下功能：
+ * 1. 令牌签发：令牌绑定用户、视频配置和过期时间，使用HMAC签名
+ * 2. 令牌校验：接入网关打开直播连接、播放录像片段时校验签名、视频配置（及录像片段）和有效期
+ * 3. 签发审计：每次签发令牌都记录审计日志
+ *
+ * 令牌格式：base64url(载荷JSON).HMAC-SHA256签名
+ * 令牌仅在建立直播连接时校验，已建立的连接在令牌过期后不会被断开
+ * 录像令牌绑定录像片段，只能播放该片段，不能用于直播；录像播放的每次Range请求都校验令牌，有效期较长
+ * 签名密钥取 STREAM_TOKEN_SECRET 或 JWT_SECRET；生产环境两者均未配置时启动失败
+ */
+
+import crypto from 'crypto';
+import { cryptoService } from './crypto-service';
+import { auditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+
+/**
+ * 播放令牌载荷
+ */
+export interface PlaybackTokenPayload {
+  // 视频配置ID
+  videoConfigId: string;
+  // 用户ID
+  userId: string;
+  // 录像片段ID，直播令牌不含
+  recordingId?: string;
+  // 过期时间（毫秒时间戳）
+  expiresAt: number;
+}
+
+/**
+ * 签发的播放令牌
+ */
+export interface PlaybackToken {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * 令牌签发的请求信息（用于审计）
+ */
+export interface TokenRequestInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * 视频播放令牌服务类
+ */
+export class StreamTokenService {
+  private static instance: StreamTokenService;
+  private readonly secret: string;
+  private readonly TOKEN_TTL = Number(process.env.STREAM_TOKEN_TTL || 300) * 1000; // 默认5分钟
+  private readonly RECORDING_TOKEN_TTL = Number(process.env.STREAM_RECORDING_TOKEN_TTL || 3600) * 1000; // 默认1小时
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    this.secret = process.env.STREAM_TOKEN_SECRET || process.env.JWT_SECRET || '';
+
+    if (!this.secret && process.env.NODE_ENV === 'production' && process.env.NEXT_PHASE !== 'phase-production-build') {
+      // 构建阶段会加载路由模块，此时不签发令牌，不要求配置密钥
+      throw new Error('生产环境必须配置STREAM_TOKEN_SECRET或JWT_SECRET');
+    }
+
+    if (!this.secret) {
+      // 未配置密钥时使用进程内随机密钥，重启后已签发的令牌失效
+      console.warn('未配置STREAM_TOKEN_SECRET，使用随机生成的播放令牌密钥');
+      this.secret = cryptoService.generateKey(32).toString('hex');
+    }
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): StreamTokenService {
+    if (!StreamTokenService.instance) {
+      StreamTokenService.instance = new StreamTokenService();
+    }
+    return StreamTokenService.instance;
+  }
+
+  /**
+   * 签发播放令牌并记录审计日志
+   * @param videoConfigId 视频配置ID
+   * @param userId 用户ID
+   * @param requestInfo 请求信息
+   * @param recordingId 录像片段ID，签发录像令牌时传入
+   * @returns 播放令牌
+   */
+  public async issue(
+    videoConfigId: string,
+    userId: string,
+    requestInfo: TokenRequestInfo = {},
+    recordingId?: string
+  ): Promise<PlaybackToken> {
+    const payload: PlaybackTokenPayload = {
+      videoConfigId,
+      userId,
+      recordingId,
+      expiresAt: Date.now() + (recordingId ? this.RECORDING_TOKEN_TTL : this.TOKEN_TTL),
+    };
+
+    const encoded = Buffer.from(JSON.stringify({
+      s: payload.videoConfigId,
+      u: payload.userId,
+      r: payload.recordingId,
+      e: payload.expiresAt,
+      // 随机数保证每次签发的令牌不同
+      n: cryptoService.generateRandomString(8),
+    })).toString('base64url');
+    const token = `${encoded}.${this.sign(encoded)}`;
+
+    await auditLogService.log({
+      userId,
+      eventType: AuditEventType.VIDEO_TOKEN_ISSUED,
+      level: AuditLogLevel.INFO,
+      resourceType: 'VideoConfig',
+      resourceId: videoConfigId,
+      description: 'Issued video playback token',
+      ipAddress: requestInfo.ipAddress,
+      userAgent: requestInfo.userAgent,
+      details: {
+        ...(recordingId ? { recordingId } : {}),
+        expiresAt: new Date(payload.expiresAt).toISOString(),
+        // 只记录令牌哈希，不记录完整令牌
+        tokenHash: cryptoService.hash(token).substring(0, 16),
+      },
+    });
+
+    return { token, expiresAt: new Date(payload.expiresAt) };
+  }
+
+  /**
+   * 校验播放令牌
+   * @param token 播放令牌
+   * @param videoConfigId 请求的视频配置ID
+   * @param recordingId 请求的录像片段ID，校验直播令牌时不传
+   * @returns 令牌载荷，签名无效、视频配置或录像片段不匹配、已过期时返回null
+   */
+  public verify(token: string | null | undefined, videoConfigId: string, recordingId?: string): PlaybackTokenPayload | null {
+    if (!token) {
+      return null;
+    }
+
+    const [encoded, signature] = token.split('.');
+    if (!encoded || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(encoded), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      if (data.s !== videoConfigId || data.r !== recordingId || typeof data.e !== 'number' || data.e < Date.now()) {
+        return null;
+      }
+
+      return { videoConfigId: data.s, userId: data.u, recordingId: data.r, expiresAt: data.e };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 计算签名
+   * @param data 待签名数据
+   * @returns HMAC签名
+   */
+  private sign(data: string): string {
+    return cryptoService.hmac(data, this.secret);
+  }
+}
+
+// 导出单例实例
+export const streamTokenService = StreamTokenService.getInstance();
+
+export default streamTokenService;
@@ -11,6 +11,7 @@
  */
 
 import * as net from 'net';
+import * as tls from 'tls';
 import * as dgram from 'dgram';
 import { EventEmitter } from 'events';
 import { cryptoService } from './crypto-service';
@@ -36,8 +37,19 @@ export interface TcpServerOptions {
   maxConnections?: number;
   // 是否允许半打开连接
   allowHalfOpen?: boolean;
+  // TLS配置，设置后创建TLS服务器（requestCert为true时请求客户端证书）
+  tls?: tls.TlsOptions;
+  // 跳过连接认证，由上层协议自行认证（如编解码器的认证钩子）
+  skipAuthentication?: boolean;
 }
 
+/**
+ * TCP连接认证函数
+ * 连接建立时以 line 为 null 调用一次（可用于TLS客户端证书认证），未通过时再以客户端发送的首行数据调用
+ * 返回设备ID表示认证通过，首行认证返回null时关闭连接
+ */
+export type TcpAuthenticator = (connectionId: string, socket: net.Socket, line: Buffer | null) => Promise<string | null>;
+
 /**
  * TCP客户端配置选项
  */
@@ -116,6 +128,57 @@ export interface ConnectionInfo {
   bytesSent: number;
 }
 
+/**
+ * TCP按行分帧缓冲
+ * 按连接拼接收到的数据，以换行切分出完整消息，末尾未结束的部分留待下次数据到达；连接关闭时需调用clear
+ */
+export class TcpLineBuffer {
+  private buffers: Map<string, Buffer> = new Map();
+
+  /**
+   * @param maxLineSize 单行最大字节数，超过仍未收到换行时丢弃已缓存的数据
+   */
+  constructor(private readonly maxLineSize: number = 64 * 1024) {}
+
+  /**
+   * 追加数据并取出完整的行（不含换行符）
+   * @param connectionId 连接ID
+   * @param data 收到的数据
+   * @returns 完整的行
+   */
+  public push(connectionId: string, data: Buffer): Buffer[] {
+    const pending = this.buffers.get(connectionId);
+    let buffer = pending ? Buffer.concat([pending, data]) : data;
+    const lines: Buffer[] = [];
+
+    let index = buffer.indexOf(0x0a);
+    while (index >= 0) {
+      lines.push(buffer.subarray(0, index));
+      buffer = buffer.subarray(index + 1);
+      index = buffer.indexOf(0x0a);
+    }
+
+    if (buffer.length > this.maxLineSize) {
+      console.warn(`TCP连接 ${connectionId} 单行数据超过${this.maxLineSize}字节，已丢弃`);
+      this.buffers.delete(connectionId);
+    } else if (buffer.length > 0) {
+      this.buffers.set(connectionId, Buffer.from(buffer));
+    } else {
+      this.buffers.delete(connectionId);
+    }
+
+    return lines;
+  }
+
+  /**
+   * 清除连接的缓存数据
+   * @param connectionId 连接ID
+   */
+  public clear(connectionId: string): void {
+    this.buffers.delete(connectionId);
+  }
+}
+
 /**
  * TCP服务类
  */
@@ -124,6 +187,15 @@ export class TcpService extends EventEmitter {
   private servers: Map<number, net.Server> = new Map();
   private clients: Map<string, net.Socket> = new Map();
   private connections: Map<string, ConnectionInfo> = new Map();
+  private authenticator: TcpAuthenticator | null = null;
+  // 等待认证的服务端连接及其已接收但未处理的数据
+  private pendingAuth: Map<string, Buffer> = new Map();
+  // 正在执行认证的连接
+  private verifying: Set<string> = new Set();
+  // 已认证的服务端连接对应的设备ID
+  private authenticatedDevices: Map<string, string> = new Map();
+  private readonly AUTH_TIMEOUT = 10000; // 10秒内未完成认证则断开
+  private readonly MAX_AUTH_LINE = 4096;
 
   /**
    * 私有构造函数，防止直接实例化
@@ -154,17 +226,17 @@ export class TcpService extends EventEmitter {
     }
 
     // 创建服务器
-    const server = net.createServer({
-      allowHalfOpen: options.allowHalfOpen,
-    });
+    const server = options.tls
+      ? tls.createServer({ ...options.tls, allowHalfOpen: options.allowHalfOpen })
+      : net.createServer({ allowHalfOpen: options.allowHalfOpen });
 
     // 设置最大连接数
     if (options.maxConnections) {
       server.maxConnections = options.maxConnections;
     }
 
-    // 监听连接事件
-    server.on('connection', (socket) => this.handleConnection(socket, options));
+    // 监听连接事件，TLS服务器在握手完成后处理
+    server.on(options.tls ? 'secureConnection' : 'connection', (socket: net.Socket) => this.handleConnection(socket, options));
 
     // 监听错误事件
     server.on('error', (error) => {
@@ -344,6 +416,32 @@ export class TcpService extends EventEmitter {
     return new Map(this.connections);
   }
 
+  /**
+   * 获取单个连接信息
+   * @param connectionId 连接ID
+   * @returns 连接信息，连接不存在时返回undefined
+   */
+  public getConnection(connectionId: string): ConnectionInfo | undefined {
+    return this.connections.get(connectionId);
+  }
+
+  /**
+   * 设置服务端连接认证函数，设置后新连接须认证通过才会触发data事件
+   * @param authenticator 认证函数，为null时取消认证
+   */
+  public setAuthenticator(authenticator: TcpAuthenticator | null): void {
+    this.authenticator = authenticator;
+  }
+
+  /**
+   * 获取已认证连接对应的设备ID
+   * @param connectionId 连接ID
+   * @returns 设备ID，未认证时返回undefined
+   */
+  public getConnectionDevice(connectionId: string): string | undefined {
+    return this.authenticatedDevices.get(connectionId);
+  }
+
   /**
    * 处理新的TCP连接
    * @param socket 客户端Socket
@@ -367,6 +465,13 @@ export class TcpService extends EventEmitter {
     // 保存连接信息
     this.saveClientConnection(connectionId, socket);
 
+    const authenticator = options.skipAuthentication ? null : this.authenticator;
+
+    // 需要认证时，认证通过前的数据暂存
+    if (authenticator) {
+      this.pendingAuth.set(connectionId, Buffer.alloc(0));
+    }
+
     // 设置事件监听器
     this.setupClientEventListeners(connectionId, socket);
 
@@ -379,6 +484,101 @@ export class TcpService extends EventEmitter {
     
     // 触发连接事件
     this.emit('connection', connectionId, socket);
+
+    if (authenticator) {
+      this.startAuthentication(connectionId, socket, authenticator);
+    }
+  }
+
+  /**
+   * 开始连接认证：先尝试连接级认证（如TLS客户端证书），未通过时等待首行认证消息
+   * @param connectionId 连接ID
+   * @param socket 客户端Socket
+   * @param authenticator 认证函数
+   */
+  private startAuthentication(connectionId: string, socket: net.Socket, authenticator: TcpAuthenticator): void {
+    const timer = setTimeout(() => {
+      if (this.pendingAuth.has(connectionId)) {
+        this.logEvent('auth_timeout', false, { connectionId, remoteAddress: socket.remoteAddress });
+        socket.destroy();
+      }
+    }, this.AUTH_TIMEOUT);
+    timer.unref();
+
+    this.verifying.add(connectionId);
+    authenticator(connectionId, socket, null)
+      .catch(() => null)
+      .then(deviceId => {
+        this.verifying.delete(connectionId);
+        if (!this.pendingAuth.has(connectionId)) {
+          return;
+        }
+
+        if (deviceId) {
+          this.completeAuthentication(connectionId, deviceId);
+        } else {
+          this.processAuthData(connectionId, socket, authenticator);
+        }
+      });
+  }
+
+  /**
+   * 处理认证前收到的数据：取首行交给认证函数，认证失败时关闭连接
+   * @param connectionId 连接ID
+   * @param socket 客户端Socket
+   * @param authenticator 认证函数
+   */
+  private processAuthData(connectionId: string, socket: net.Socket, authenticator: TcpAuthenticator): void {
+    const buffer = this.pendingAuth.get(connectionId);
+    if (!buffer || this.verifying.has(connectionId)) {
+      return;
+    }
+
+    const index = buffer.indexOf(0x0a);
+    if (index < 0) {
+      if (buffer.length > this.MAX_AUTH_LINE) {
+        this.logEvent('auth', false, { connectionId, remoteAddress: socket.remoteAddress }, new Error('Authentication message too long'));
+        socket.destroy();
+      }
+      return;
+    }
+
+    this.verifying.add(connectionId);
+    this.pendingAuth.set(connectionId, buffer.subarray(index + 1));
+
+    authenticator(connectionId, socket, buffer.subarray(0, index))
+      .catch(() => null)
+      .then(deviceId => {
+        this.verifying.delete(connectionId);
+        if (!this.pendingAuth.has(connectionId)) {
+          return;
+        }
+
+        if (deviceId) {
+          this.completeAuthentication(connectionId, deviceId);
+        } else {
+          this.pendingAuth.delete(connectionId);
+          socket.end();
+        }
+      });
+  }
+
+  /**
+   * 认证通过：绑定设备并转发认证期间收到的剩余数据
+   * @param connectionId 连接ID
+   * @param deviceId 设备ID
+   */
+  private completeAuthentication(connectionId: string, deviceId: string): void {
+    const rest = this.pendingAuth.get(connectionId);
+    this.pendingAuth.delete(connectionId);
+    this.authenticatedDevices.set(connectionId, deviceId);
+
+    this.logEvent('auth', true, { connectionId, deviceId });
+    this.emit('authenticated', connectionId, deviceId);
+
+    if (rest && rest.length > 0) {
+      this.emit('data', connectionId, rest, deviceId);
+    }
   }
 
   /**
@@ -419,8 +619,16 @@ export class TcpService extends EventEmitter {
         connectionInfo.bytesReceived += data.length;
       }
 
-      // 触发数据事件
-      this.emit('data', connectionId, data);
+      // 认证通过前的数据交给认证流程处理
+      const pending = this.pendingAuth.get(connectionId);
+      if (pending && this.authenticator) {
+        this.pendingAuth.set(connectionId, Buffer.concat([pending, data]));
+        this.processAuthData(connectionId, socket, this.authenticator);
+        return;
+      }
+
+      // 触发数据事件，已认证的连接附带设备ID
+      this.emit('data', connectionId, data, this.authenticatedDevices.get(connectionId));
     });
 
     // 监听关闭事件
@@ -428,6 +636,9 @@ export class TcpService extends EventEmitter {
       // 清理连接信息
       this.clients.delete(connectionId);
       this.connections.delete(connectionId);
+      this.pendingAuth.delete(connectionId);
+      this.verifying.delete(connectionId);
+      this.authenticatedDevices.delete(connectionId);
 
       this.logEvent('socket_close', true, { connectionId, hadError });
       
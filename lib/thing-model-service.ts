@@ -0,0 +1,883 @@
+/**
+ * 物模型服务 - 实现设备类物模型定义及设备上下行数据校验
+ *
+ * 该服务实现了以下功能：
+ * 1. 物模型定义（属性、事件、服务）及其结构校验
+ * 2. 设备上报属性、事件的校验（MQTT/TCP/UDP/CoAP/Modbus/HTTP）
+ * 3. 下发命令（属性设置、服务调用）输入参数校验
+ * 4. 服务调用响应输出参数校验
+ * 5. 违反物模型的数据按策略拒绝或标记为数据异常
+ *
+ * 设备上行消息格式：
+ * - MQTT主题 devices/{deviceId}/thing/property/post，负载 { "params": { 属性标识符: 值 } }
+ * - MQTT主题 devices/{deviceId}/thing/event/{identifier}/post，负载 { "params": { 参数标识符: 值 } }
+ * - 已认证TCP连接上以换行分隔的JSON消息 { "deviceId": "...", "method": "property.post" | "event.post", "identifier": "...", "params": {...} }，
+ *   设备ID以连接认证的设备为准；UDP报文无法认证，须经编解码器（认证钩子）接入
+ * - CoAP POST 与MQTT主题同名的URI路径，负载同MQTT
+ * - HTTP POST /api/ingest/{deviceId}/telemetry 和 /api/ingest/{deviceId}/events，支持批量和带时间戳的上报
+ *
+ * 下行命令约定：命令类型为 property.set 时命令内容为待设置的属性，其他命令类型为服务标识符，命令内容为服务输入参数
+ */
+
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import prisma from './db-prisma';
+import deviceService from './device-prisma';
+import mqttClient from './mqtt-client';
+import { tcpService, TcpLineBuffer } from './tcp-udp-service';
+
+/**
+ * 物模型数据类型
+ */
+export type ThingDataTypeName = 'int' | 'float' | 'double' | 'bool' | 'text' | 'enum' | 'date' | 'struct' | 'array';
+
+/**
+ * 物模型数据类型定义
+ */
+export interface ThingDataType {
+  // 数据类型
+  type: ThingDataTypeName;
+  // 最小值（int/float/double）
+  min?: number;
+  // 最大值（int/float/double）
+  max?: number;
+  // 步长（int/float/double）
+  step?: number;
+  // 单位
+  unit?: string;
+  // 最大长度（text）
+  length?: number;
+  // 枚举值及说明（enum/bool）
+  values?: Record<string, string>;
+  // 结构体成员（struct）
+  fields?: ThingParam[];
+  // 元素类型（array）
+  item?: ThingDataType;
+  // 最大元素个数（array）
+  size?: number;
+}
+
+/**
+ * 物模型参数定义
+ */
+export interface ThingParam {
+  // 标识符
+  identifier: string;
+  // 名称
+  name: string;
+  // 数据类型
+  dataType: ThingDataType;
+  // 是否必填，默认必填
+  required?: boolean;
+}
+
+/**
+ * 物模型属性定义
+ */
+export interface ThingProperty extends ThingParam {
+  // 读写类型：只读/读写
+  accessMode: 'r' | 'rw';
+}
+
+/**
+ * 物模型事件定义
+ */
+export interface ThingEventDefinition {
+  // 标识符
+  identifier: string;
+  // 名称
+  name: string;
+  // 事件类型：信息/告警/故障
+  type: 'info' | 'alert' | 'fault';
+  // 输出参数
+  outputParams: ThingParam[];
+}
+
+/**
+ * 物模型服务定义
+ */
+export interface ThingServiceDefinition {
+  // 标识符
+  identifier: string;
+  // 名称
+  name: string;
+  // 调用方式：同步/异步
+  callType: 'sync' | 'async';
+  // 输入参数
+  inputParams: ThingParam[];
+  // 输出参数
+  outputParams: ThingParam[];
+}
+
+/**
+ * 物模型
+ */
+export interface ThingModel {
+  // 属性
+  properties: ThingProperty[];
+  // 事件
+  events: ThingEventDefinition[];
+  // 服务
+  services: ThingServiceDefinition[];
+  // 违反物模型的上报数据处理策略：reject 拒绝，flag 接收并标记为数据异常，默认 reject
+  anomalyPolicy?: 'reject' | 'flag';
+}
+
+/**
+ * 物模型方法
+ */
+export enum ThingMethod {
+  PROPERTY_POST = 'property.post',
+  PROPERTY_SET = 'property.set',
+  EVENT_POST = 'event.post',
+}
+
+/**
+ * 设备物模型消息
+ */
+export interface ThingMessage {
+  // 方法
+  method: ThingMethod;
+  // 事件标识符（event.post）
+  identifier?: string;
+  // 参数
+  params: Record<string, any>;
+  // 采集时间，未提供时为接收时间（HTTP批量上报的历史数据）
+  timestamp?: Date;
+}
+
+/**
+ * 物模型校验违规项
+ */
+export interface ThingModelViolation {
+  // 违规字段路径
+  path: string;
+  // 违规说明
+  message: string;
+}
+
+/**
+ * 物模型校验结果
+ */
+export interface ThingModelValidationResult {
+  // 是否通过校验
+  valid: boolean;
+  // 违规项
+  violations: ThingModelViolation[];
+}
+
+/**
+ * 设备数据异常
+ */
+export interface DeviceDataAnomaly {
+  // 设备ID
+  deviceId: string;
+  // 数据来源
+  source: 'MQTT' | 'TCP' | 'UDP' | 'COAP' | 'MODBUS' | 'HTTP' | 'COMMAND';
+  // 方法或命令类型
+  method: string;
+  // 事件或服务标识符
+  identifier?: string;
+  // 违规项
+  violations: ThingModelViolation[];
+  // 是否已拒绝
+  rejected: boolean;
+  // 原始数据
+  payload?: any;
+  // 发生时间
+  timestamp: Date;
+}
+
+// 标识符格式：字母开头，字母、数字、下划线组成
+const identifierSchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]{0,49}$/, '标识符须以字母开头，由字母、数字、下划线组成，最长50个字符');
+
+// 物模型数据类型验证模式
+const thingDataTypeSchema: z.ZodType<ThingDataType> = z.lazy(() =>
+  z.object({
+    type: z.enum(['int', 'float', 'double', 'bool', 'text', 'enum', 'date', 'struct', 'array']),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    step: z.number().positive().optional(),
+    unit: z.string().max(20).optional(),
+    length: z.number().int().positive().max(10240).optional(),
+    values: z.record(z.string()).optional(),
+    fields: z.array(thingParamSchema).optional(),
+    item: thingDataTypeSchema.optional(),
+    size: z.number().int().positive().max(512).optional(),
+  }).superRefine((dataType, ctx) => {
+    if (dataType.min !== undefined && dataType.max !== undefined && dataType.min > dataType.max) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '最小值不能大于最大值' });
+    }
+    if (dataType.type === 'enum' && (!dataType.values || Object.keys(dataType.values).length === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '枚举类型必须定义枚举值' });
+    }
+    if (dataType.type === 'struct' && (!dataType.fields || dataType.fields.length === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '结构体类型必须定义成员' });
+    }
+    if (dataType.type === 'array' && !dataType.item) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: '数组类型必须定义元素类型' });
+    }
+  })
+);
+
+// 物模型参数验证模式
+const thingParamSchema: z.ZodType<ThingParam> = z.lazy(() =>
+  z.object({
+    identifier: identifierSchema,
+    name: z.string().min(1, '名称不能为空').max(50),
+    dataType: thingDataTypeSchema,
+    required: z.boolean().optional(),
+  })
+);
+
+/**
+ * 检查标识符是否重复
+ * @param items 带标识符的定义列表
+ * @param ctx zod上下文
+ * @param path 路径
+ */
+function checkUniqueIdentifiers(items: { identifier: string }[], ctx: z.RefinementCtx, path: string): void {
+  const seen = new Set<string>();
+  items.forEach((item, index) => {
+    if (seen.has(item.identifier)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `标识符重复: ${item.identifier}`,
+        path: [path, index, 'identifier'],
+      });
+    }
+    seen.add(item.identifier);
+  });
+}
+
+// 物模型验证模式
+export const thingModelSchema = z.object({
+  properties: z.array(
+    z.object({
+      identifier: identifierSchema,
+      name: z.string().min(1, '名称不能为空').max(50),
+      dataType: thingDataTypeSchema,
+      required: z.boolean().optional(),
+      accessMode: z.enum(['r', 'rw']),
+    })
+  ).max(500).default([]),
+  events: z.array(
+    z.object({
+      identifier: identifierSchema,
+      name: z.string().min(1, '名称不能为空').max(50),
+      type: z.enum(['info', 'alert', 'fault']),
+      outputParams: z.array(thingParamSchema).default([]),
+    })
+  ).max(100).default([]),
+  services: z.array(
+    z.object({
+      identifier: identifierSchema,
+      name: z.string().min(1, '名称不能为空').max(50),
+      callType: z.enum(['sync', 'async']).default('async'),
+      inputParams: z.array(thingParamSchema).default([]),
+      outputParams: z.array(thingParamSchema).default([]),
+    })
+  ).max(100).default([]),
+  anomalyPolicy: z.enum(['reject', 'flag']).optional(),
+}).superRefine((model, ctx) => {
+  checkUniqueIdentifiers(model.properties, ctx, 'properties');
+  checkUniqueIdentifiers(model.events, ctx, 'events');
+  checkUniqueIdentifiers(model.services, ctx, 'services');
+
+  if (model.services.some(service => service.identifier === ThingMethod.PROPERTY_SET)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `服务标识符不能为 ${ThingMethod.PROPERTY_SET}`, path: ['services'] });
+  }
+});
+
+// 设备物模型缓存时间（毫秒）
+const MODEL_CACHE_TTL = 60000;
+
+// 文本类型默认最大长度
+const DEFAULT_TEXT_LENGTH = 10240;
+
+/**
+ * 物模型服务类
+ * 事件：
+ * - property_report (deviceId, params, flagged, timestamp?, violations) 设备属性上报通过校验或被标记后触发，timestamp为上报携带的采集时间，violations为被标记数据的违规项
+ * - event_report (event, flagged) 设备事件上报并记录后触发
+ * - data_anomaly (anomaly) 设备数据违反物模型时触发
+ */
+export class ThingModelService extends EventEmitter {
+  private static instance: ThingModelService;
+  private modelCache: Map<string, { model: ThingModel | null; expiresAt: number }> = new Map();
+  private tcpLines = new TcpLineBuffer();
+
+  /**
+   * 私有构造函数，防止直接实例化
+   */
+  private constructor() {
+    super();
+    this.setupEventListeners();
+  }
+
+  /**
+   * 获取单例实例
+   */
+  public static getInstance(): ThingModelService {
+    if (!ThingModelService.instance) {
+      ThingModelService.instance = new ThingModelService();
+    }
+    return ThingModelService.instance;
+  }
+
+  /**
+   * 解析物模型定义
+   * @param value 设备类的thingModel字段
+   * @returns 物模型，未定义或格式错误时返回null
+   */
+  public parseThingModel(value: unknown): ThingModel | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+
+    const result = thingModelSchema.safeParse(value);
+    if (!result.success) {
+      console.error('物模型定义格式错误:', result.error.errors);
+      return null;
+    }
+
+    return result.data;
+  }
+
+  /**
+   * 获取设备的物模型
+   * @param deviceId 设备ID
+   * @returns 物模型，设备类未定义物模型时返回null
+   */
+  public async getDeviceThingModel(deviceId: string): Promise<ThingModel | null> {
+    const cached = this.modelCache.get(deviceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.model;
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: deviceId },
+      select: {
+        deviceClass: {
+          select: { thingModel: true },
+        },
+      },
+    });
+
+    const model = device ? this.parseThingModel(device.deviceClass.thingModel) : null;
+    this.modelCache.set(deviceId, { model, expiresAt: Date.now() + MODEL_CACHE_TTL });
+    return model;
+  }
+
+  /**
+   * 清除物模型缓存，设备类物模型变更或设备更换设备类后调用
+   */
+  public invalidateCache(): void {
+    this.modelCache.clear();
+  }
+
+  /**
+   * 校验上报或设置的属性
+   * @param model 物模型
+   * @param params 属性值
+   * @param method 方法：属性上报或属性设置
+   * @returns 校验结果
+   */
+  public validateProperties(
+    model: ThingModel,
+    params: unknown,
+    method: ThingMethod.PROPERTY_POST | ThingMethod.PROPERTY_SET
+  ): ThingModelValidationResult {
+    const violations: ThingModelViolation[] = [];
+
+    if (!this.isPlainObject(params)) {
+      violations.push({ path: 'params', message: '属性必须为对象' });
+      return { valid: false, violations };
+    }
+
+    if (Object.keys(params).length === 0) {
+      violations.push({ path: 'params', message: '属性不能为空' });
+    }
+
+    for (const [identifier, value] of Object.entries(params)) {
+      const property = model.properties.find(item => item.identifier === identifier);
+      if (!property) {
+        violations.push({ path: identifier, message: `未定义的属性: ${identifier}` });
+        continue;
+      }
+
+      if (method === ThingMethod.PROPERTY_SET && property.accessMode !== 'rw') {
+        violations.push({ path: identifier, message: `属性 ${identifier} 为只读属性` });
+        continue;
+      }
+
+      this.validateValue(property.dataType, value, identifier, violations);
+    }
+
+    return { valid: violations.length === 0, violations };
+  }
+
+  /**
+   * 校验上报的事件
+   * @param model 物模型
+   * @param identifier 事件标识符
+   * @param params 事件输出参数
+   * @returns 校验结果
+   */
+  public validateEvent(model: ThingModel, identifier: string | undefined, params: unknown): ThingModelValidationResult {
+    const event = model.events.find(item => item.identifier === identifier);
+    if (!event) {
+      return { valid: false, violations: [{ path: 'identifier', message: `未定义的事件: ${identifier}` }] };
+    }
+
+    return this.validateParams(event.outputParams, params);
+  }
+
+  /**
+   * 校验下发的命令
+   * @param model 物模型
+   * @param type 命令类型：property.set 或服务标识符
+   * @param content 命令内容
+   * @returns 校验结果
+   */
+  public validateCommand(model: ThingModel, type: string, content: unknown): ThingModelValidationResult {
+    if (type === ThingMethod.PROPERTY_SET) {
+      return this.validateProperties(model, content, ThingMethod.PROPERTY_SET);
+    }
+
+    const service = model.services.find(item => item.identifier === type);
+    if (!service) {
+      return { valid: false, violations: [{ path: 'type', message: `未定义的服务: ${type}` }] };
+    }
+
+    return this.validateParams(service.inputParams, content);
+  }
+
+  /**
+   * 校验服务调用的响应
+   * @param model 物模型
+   * @param type 命令类型
+   * @param responseContent 响应内容
+   * @returns 校验结果
+   */
+  public validateCommandResponse(model: ThingModel, type: string, responseContent: unknown): ThingModelValidationResult {
+    const service = model.services.find(item => item.identifier === type);
+    if (!service) {
+      return { valid: true, violations: [] };
+    }
+
+    return this.validateParams(service.outputParams, responseContent);
+  }
+
+  /**
+   * 按设备物模型校验下发的命令，设备类未定义物模型时不校验
+   * @param deviceId 设备ID
+   * @param type 命令类型
+   * @param content 命令内容
+   * @returns 校验结果
+   */
+  public async validateDeviceCommand(deviceId: string, type: string, content: unknown): Promise<ThingModelValidationResult> {
+    const model = await this.getDeviceThingModel(deviceId);
+    if (!model) {
+      return { valid: true, violations: [] };
+    }
+
+    return this.validateCommand(model, type, content);
+  }
+
+  /**
+   * 按设备物模型校验命令响应，不符合时标记为数据异常
+   * 响应已由设备返回，无法拒绝，只做标记
+   * @param deviceId 设备ID
+   * @param type 命令类型
+   * @param responseContent 响应内容
+   * @returns 校验结果
+   */
+  public async checkDeviceCommandResponse(
+    deviceId: string,
+    type: string,
+    responseContent: unknown
+  ): Promise<ThingModelValidationResult> {
+    const model = await this.getDeviceThingModel(deviceId);
+    if (!model || responseContent === undefined || responseContent === null) {
+      return { valid: true, violations: [] };
+    }
+
+    const result = this.validateCommandResponse(model, type, responseContent);
+    if (!result.valid) {
+      this.reportAnomaly({
+        deviceId,
+        source: 'COMMAND',
+        method: type,
+        identifier: type,
+        violations: result.violations,
+        rejected: false,
+        payload: responseContent,
+        timestamp: new Date(),
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * 处理设备上报的物模型消息
+   * 按物模型校验，违规数据按anomalyPolicy拒绝或标记为数据异常；通过校验的事件记录到设备事件
+   * @param deviceId 设备ID
+   * @param source 数据来源
+   * @param message 物模型消息
+   * @returns 校验结果
+   */
+  public async handleDeviceMessage(
+    deviceId: string,
+    source: DeviceDataAnomaly['source'],
+    message: ThingMessage
+  ): Promise<ThingModelValidationResult> {
+    const model = await this.getDeviceThingModel(deviceId);
+
+    let result: ThingModelValidationResult = { valid: true, violations: [] };
+    if (model) {
+      result = message.method === ThingMethod.EVENT_POST
+        ? this.validateEvent(model, message.identifier, message.params)
+        : this.validateProperties(model, message.params, ThingMethod.PROPERTY_POST);
+    }
+
+    const flagged = !result.valid;
+    if (flagged) {
+      const rejected = model?.anomalyPolicy !== 'flag';
+      this.reportAnomaly({
+        deviceId,
+        source,
+        method: message.method,
+        identifier: message.identifier,
+        violations: result.violations,
+        rejected,
+        payload: message.params,
+        timestamp: new Date(),
+      });
+
+      if (rejected) {
+        return result;
+      }
+    }
+
+    if (message.method === ThingMethod.PROPERTY_POST) {
+      this.emit('property_report', deviceId, message.params, flagged, message.timestamp, result.violations);
+      return result;
+    }
+
+    const definition = model?.events.find(item => item.identifier === message.identifier);
+    const event = await deviceService.createDeviceEvent({
+      identifier: message.identifier || 'unknown',
+      name: definition?.name || message.identifier || 'unknown',
+      type: definition?.type || 'info',
+      params: this.isPlainObject(message.params) ? message.params : {},
+      createdAt: message.timestamp,
+      device: { connect: { id: deviceId } },
+    });
+    this.emit('event_report', event, flagged);
+
+    return result;
+  }
+
+  /**
+   * 上报数据异常
+   * @param anomaly 数据异常
+   */
+  public reportAnomaly(anomaly: DeviceDataAnomaly): void {
+    console.warn(
+      `设备 ${anomaly.deviceId} 数据不符合物模型 (${anomaly.source} ${anomaly.method}):`,
+      anomaly.violations.map(violation => `${violation.path}: ${violation.message}`).join('; ')
+    );
+    this.emit('data_anomaly', anomaly);
+  }
+
+  /**
+   * 校验参数列表
+   * @param definitions 参数定义
+   * @param values 参数值
+   * @param path 路径前缀
+   * @returns 校验结果
+   */
+  private validateParams(definitions: ThingParam[], values: unknown, path: string = ''): ThingModelValidationResult {
+    const violations: ThingModelViolation[] = [];
+    this.collectParamViolations(definitions, values, path, violations);
+    return { valid: violations.length === 0, violations };
+  }
+
+  /**
+   * 收集参数列表的违规项
+   * @param definitions 参数定义
+   * @param values 参数值
+   * @param path 路径前缀
+   * @param violations 违规项列表
+   */
+  private collectParamViolations(
+    definitions: ThingParam[],
+    values: unknown,
+    path: string,
+    violations: ThingModelViolation[]
+  ): void {
+    if (values === undefined || values === null) {
+      values = {};
+    }
+
+    if (!this.isPlainObject(values)) {
+      violations.push({ path: path || 'params', message: '参数必须为对象' });
+      return;
+    }
+
+    for (const key of Object.keys(values)) {
+      if (!definitions.some(definition => definition.identifier === key)) {
+        violations.push({ path: this.joinPath(path, key), message: `未定义的参数: ${key}` });
+      }
+    }
+
+    for (const definition of definitions) {
+      const fieldPath = this.joinPath(path, definition.identifier);
+      const value = values[definition.identifier];
+
+      if (value === undefined || value === null) {
+        if (definition.required !== false) {
+          violations.push({ path: fieldPath, message: `缺少参数: ${definition.identifier}` });
+        }
+        continue;
+      }
+
+      this.validateValue(definition.dataType, value, fieldPath, violations);
+    }
+  }
+
+  /**
+   * 校验单个值是否符合数据类型
+   * @param dataType 数据类型定义
+   * @param value 值
+   * @param path 路径
+   * @param violations 违规项列表
+   */
+  private validateValue(dataType: ThingDataType, value: unknown, path: string, violations: ThingModelViolation[]): void {
+    switch (dataType.type) {
+      case 'int':
+      case 'float':
+      case 'double': {
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+          violations.push({ path, message: '必须为数值' });
+          return;
+        }
+        if (dataType.type === 'int' && !Number.isInteger(value)) {
+          violations.push({ path, message: '必须为整数' });
+          return;
+        }
+        if (dataType.min !== undefined && value < dataType.min) {
+          violations.push({ path, message: `不能小于 ${dataType.min}${dataType.unit || ''}` });
+        }
+        if (dataType.max !== undefined && value > dataType.max) {
+          violations.push({ path, message: `不能大于 ${dataType.max}${dataType.unit || ''}` });
+        }
+        return;
+      }
+      case 'bool':
+        if (typeof value !== 'boolean' && value !== 0 && value !== 1) {
+          violations.push({ path, message: '必须为布尔值或0/1' });
+        }
+        return;
+      case 'text':
+        if (typeof value !== 'string') {
+          violations.push({ path, message: '必须为字符串' });
+          return;
+        }
+        if (value.length > (dataType.length || DEFAULT_TEXT_LENGTH)) {
+          violations.push({ path, message: `长度不能超过 ${dataType.length || DEFAULT_TEXT_LENGTH}` });
+        }
+        return;
+      case 'enum':
+        if ((typeof value !== 'number' && typeof value !== 'string') || !(String(value) in (dataType.values || {}))) {
+          violations.push({ path, message: `必须为枚举值 ${Object.keys(dataType.values || {}).join('/')}` });
+        }
+        return;
+      case 'date':
+        if (
+          !(typeof value === 'number' && Number.isFinite(value)) &&
+          !(typeof value === 'string' && !Number.isNaN(Date.parse(value)))
+        ) {
+          violations.push({ path, message: '必须为毫秒时间戳或ISO日期字符串' });
+        }
+        return;
+      case 'struct':
+        this.collectParamViolations(dataType.fields || [], value, path, violations);
+        return;
+      case 'array':
+        if (!Array.isArray(value)) {
+          violations.push({ path, message: '必须为数组' });
+          return;
+        }
+        if (dataType.size !== undefined && value.length > dataType.size) {
+          violations.push({ path, message: `元素个数不能超过 ${dataType.size}` });
+        }
+        if (dataType.item) {
+          value.forEach((item, index) => this.validateValue(dataType.item!, item, `${path}[${index}]`, violations));
+        }
+        return;
+    }
+  }
+
+  /**
+   * 处理物模型MQTT消息，非物模型主题忽略
+   * 网关代理的子设备消息转换为子设备主题后同样由此处理，CoAP上报按URI路径转换为主题后同样由此处理
+   * @param topic MQTT主题：devices/{deviceId}/thing/...
+   * @param payload 负载
+   * @param source 数据来源
+   * @returns 是否为物模型主题
+   */
+  public handleMqttMessage(topic: string, payload: Buffer, source: DeviceDataAnomaly['source'] = 'MQTT'): boolean {
+    const parsed = this.parseMqttTopic(topic);
+    if (!parsed) return false;
+
+    const body = this.parseJson(payload);
+    if (!body) {
+      this.reportAnomaly({
+        deviceId: parsed.deviceId,
+        source,
+        method: parsed.method,
+        identifier: parsed.identifier,
+        violations: [{ path: 'payload', message: '负载不是有效的JSON' }],
+        rejected: true,
+        timestamp: new Date(),
+      });
+      return true;
+    }
+
+    this.handleDeviceMessage(parsed.deviceId, source, {
+      method: parsed.method,
+      identifier: parsed.identifier,
+      params: body.params,
+    }).catch(error => {
+      console.error(`处理设备 ${parsed.deviceId} ${source}物模型消息失败:`, error);
+    });
+    return true;
+  }
+
+  /**
+   * 设置事件监听器
+   */
+  private setupEventListeners(): void {
+    mqttClient.on('connect', () => {
+      this.setupMqttSubscriptions();
+    });
+
+    mqttClient.on('message', (topic: string, payload: Buffer) => {
+      this.handleMqttMessage(topic, payload);
+    });
+
+    tcpService.on('data', (connectionId: string, data: Buffer, deviceId?: string) => {
+      // 未认证连接的消息忽略，不缓存
+      if (!deviceId) return;
+
+      for (const line of this.tcpLines.push(connectionId, data)) {
+        this.handleRawMessage(line, deviceId);
+      }
+    });
+
+    tcpService.on('socket_close', (connectionId: string) => {
+      this.tcpLines.clear(connectionId);
+    });
+  }
+
+  /**
+   * 设置MQTT订阅
+   */
+  private async setupMqttSubscriptions(): Promise<void> {
+    if (!mqttClient.isClientConnected()) {
+      return;
+    }
+
+    try {
+      await mqttClient.subscribe('devices/+/thing/#', { qos: 1 });
+    } catch (error) {
+      console.error(`Error setting up thing model MQTT subscriptions: ${error}`);
+    }
+  }
+
+  /**
+   * 处理已认证TCP连接上报的JSON物模型消息，非物模型消息和未认证连接的消息忽略
+   * @param data 一行消息
+   * @param authenticatedDeviceId 连接已认证的设备ID，消息中的设备ID须与之一致
+   */
+  private handleRawMessage(data: Buffer, authenticatedDeviceId?: string): void {
+    if (!authenticatedDeviceId) {
+      return;
+    }
+
+    const body = this.parseJson(data);
+    if (!body || (body.deviceId !== undefined && body.deviceId !== authenticatedDeviceId)) {
+      return;
+    }
+
+    if (body.method !== ThingMethod.PROPERTY_POST && body.method !== ThingMethod.EVENT_POST) {
+      return;
+    }
+
+    this.handleDeviceMessage(authenticatedDeviceId, 'TCP', {
+      method: body.method,
+      identifier: typeof body.identifier === 'string' ? body.identifier : undefined,
+      params: body.params,
+    }).catch(error => {
+      console.error(`处理设备 ${authenticatedDeviceId} TCP物模型消息失败:`, error);
+    });
+  }
+
+  /**
+   * 解析物模型MQTT主题
+   * @param topic MQTT主题
+   * @returns 设备ID、方法和事件标识符
+   */
+  private parseMqttTopic(topic: string): { deviceId: string; method: ThingMethod; identifier?: string } | null {
+    const propertyMatch = topic.match(/^devices\/([^\/]+)\/thing\/property\/post$/);
+    if (propertyMatch) {
+      return { deviceId: propertyMatch[1], method: ThingMethod.PROPERTY_POST };
+    }
+
+    const eventMatch = topic.match(/^devices\/([^\/]+)\/thing\/event\/([^\/]+)\/post$/);
+    if (eventMatch) {
+      return { deviceId: eventMatch[1], method: ThingMethod.EVENT_POST, identifier: eventMatch[2] };
+    }
+
+    return null;
+  }
+
+  /**
+   * 解析JSON负载
+   * @param payload 负载
+   * @returns JSON对象，解析失败返回null
+   */
+  private parseJson(payload: Buffer): Record<string, any> | null {
+    try {
+      const value = JSON.parse(payload.toString('utf8'));
+      return this.isPlainObject(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 判断是否为普通对象
+   * @param value 值
+   */
+  private isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * 拼接参数路径
+   * @param prefix 路径前缀
+   * @param key 参数标识符
+   */
+  private joinPath(prefix: string, key: string): string {
+    return prefix ? `${prefix}.${key}` : key;
+  }
+}
+
+// 导出单例实例
+export const thingModelService = ThingModelService.getInstance();
+
+export default thingModelService;
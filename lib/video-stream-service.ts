@@ -1,15 +1,29 @@
 /**
  * 视频流服务
  * 基于EasyPlayer-pro实现视频流处理，支持WebSocket和HTTP方式
+ * 所有视频流经接入网关（stream-ingest-service）转封装为FLV后播放，播放地址携带签名令牌，摄像头源地址不返回给浏览器
+ * 同时提供HLS输出（stream-hls-service），供无法运行EasyPlayer-pro的客户端回退使用
  */
 
-import { PrismaClient, StreamType } from '@prisma/client';
+import { Prisma, PrismaClient, StreamType } from '@prisma/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { AuditLogService, AuditEventType, AuditLogLevel } from './audit-log-service';
+import { streamIngestService } from './stream-ingest-service';
+import { streamHlsService } from './stream-hls-service';
+import { streamProbeService, StreamProbeResult } from './stream-probe-service';
+import { streamRecordingService } from './stream-recording-service';
+import { streamSnapshotService } from './stream-snapshot-service';
+import { sensitiveDataService } from './sensitive-data-service';
+import { streamTokenService, TokenRequestInfo } from './stream-token-service';
 
 const prisma = new PrismaClient();
 const auditLog = AuditLogService.getInstance();
 
+// 摄像头源地址和ONVIF密码不返回给前端
+const omitSecrets = { streamUrl: true, onvifPassword: true } as const;
+// 配置管理需要编辑源地址
+const omitManageSecrets = { onvifPassword: true } as const;
+
 /**
  * 视频流服务类
  * 提供视频流配置管理和处理功能
@@ -31,7 +45,11 @@ export class VideoStreamService {
           streamType: data.streamType as StreamType,
           status: data.status ?? true,
           organizationId: data.organizationId,
+          onvifUrl: data.onvifUrl || null,
+          onvifUsername: data.onvifUsername || null,
+          onvifPassword: data.onvifPassword ? sensitiveDataService.encryptSensitiveData(data.onvifPassword) : null,
         },
+        omit: omitSecrets,
       });
 
       await auditLog.log({
@@ -53,9 +71,10 @@ export class VideoStreamService {
   /**
    * 获取视频配置列表
    * @param organizationId 组织ID
+   * @param includeSource 是否包含摄像头源地址（仅用于配置管理）
    * @returns 视频配置列表
    */
-  async getVideoConfigs(organizationId: string) {
+  async getVideoConfigs(organizationId: string, includeSource: boolean = false) {
     try {
       const videoConfigs = await prisma.videoConfig.findMany({
         where: {
@@ -64,6 +83,7 @@ export class VideoStreamService {
         orderBy: {
           updatedAt: 'desc',
         },
+        omit: includeSource ? omitManageSecrets : omitSecrets,
       });
 
       return videoConfigs;
@@ -84,6 +104,7 @@ export class VideoStreamService {
         where: {
           id,
         },
+        omit: omitSecrets,
       });
 
       if (!videoConfig) {
@@ -116,9 +137,14 @@ export class VideoStreamService {
           streamUrl: data.streamUrl,
           streamType: data.streamType as StreamType,
           status: data.status,
+          ...this.buildOnvifData(data),
         },
+        omit: omitSecrets,
       });
 
+      // 源地址或类型可能已变化，停止正在运行的拉流会话，下次播放时按新配置重新拉流
+      streamIngestService.stopSession(id);
+
       await auditLog.log({
         userId,
         eventType: AuditEventType.DEVICE_UPDATE,
@@ -135,6 +161,34 @@ export class VideoStreamService {
     }
   }
 
+  /**
+   * 构建ONVIF配置更新数据
+   * 未传入的字段保持不变，密码为空时不修改；清空ONVIF地址时同时清除云台能力
+   * @param data 更新数据
+   */
+  private buildOnvifData(data: any): Prisma.VideoConfigUpdateInput {
+    const onvifData: Prisma.VideoConfigUpdateInput = {};
+
+    if (data.onvifUrl !== undefined) {
+      onvifData.onvifUrl = data.onvifUrl || null;
+      if (!data.onvifUrl) {
+        onvifData.onvifUsername = null;
+        onvifData.onvifPassword = null;
+        onvifData.ptzCapabilities = Prisma.DbNull;
+      }
+    }
+
+    if (data.onvifUrl && data.onvifUsername !== undefined) {
+      onvifData.onvifUsername = data.onvifUsername || null;
+    }
+
+    if (data.onvifUrl && data.onvifPassword) {
+      onvifData.onvifPassword = sensitiveDataService.encryptSensitiveData(data.onvifPassword);
+    }
+
+    return onvifData;
+  }
+
   /**
    * 删除视频配置
    * @param id 视频配置ID
@@ -148,6 +202,12 @@ export class VideoStreamService {
         },
       });
 
+      streamIngestService.stopSession(id);
+      streamHlsService.stopStream(id);
+      // 录像和截图记录随视频配置级联删除，这里删除文件
+      await streamRecordingService.removeVideoRecordings(id);
+      await streamSnapshotService.removeVideoSnapshots(id);
+
       await auditLog.log({
         userId,
         eventType: AuditEventType.DEVICE_DELETE,
@@ -179,8 +239,14 @@ export class VideoStreamService {
         data: {
           status,
         },
+        omit: omitSecrets,
       });
 
+      if (!status) {
+        streamIngestService.stopSession(id);
+        streamHlsService.stopStream(id);
+      }
+
       await auditLog.log({
         userId,
         eventType: status ? AuditEventType.DEVICE_ONLINE : AuditEventType.DEVICE_OFFLINE,
@@ -197,16 +263,119 @@ export class VideoStreamService {
     }
   }
 
+  /**
+   * 获取视频配置的联动设备
+   * 返回同组织的全部设备，并标记是否已与该摄像头联动
+   * @param id 视频配置ID
+   * @returns 设备列表，视频配置不存在时返回null
+   */
+  async getDeviceLinks(id: string) {
+    try {
+      const videoConfig = await prisma.videoConfig.findUnique({
+        where: {
+          id,
+        },
+        select: {
+          organizationId: true,
+          deviceLinks: { select: { deviceId: true } },
+        },
+      });
+
+      if (!videoConfig) {
+        return null;
+      }
+
+      const linkedIds = new Set(videoConfig.deviceLinks.map(link => link.deviceId));
+      const devices = await prisma.device.findMany({
+        where: {
+          organizationId: videoConfig.organizationId,
+        },
+        select: {
+          id: true,
+          name: true,
+          alias: true,
+          status: true,
+        },
+        orderBy: {
+          name: 'asc',
+        },
+      });
+
+      return devices.map(device => ({ ...device, linked: linkedIds.has(device.id) }));
+    } catch (error) {
+      console.error('Error getting video device links:', error);
+      throw new Error('Failed to get video device links');
+    }
+  }
+
+  /**
+   * 设置视频配置的联动设备
+   * 联动设备产生告警时，视频墙自动弹出该摄像头画面
+   * @param id 视频配置ID
+   * @param deviceIds 联动设备ID列表（替换现有联动）
+   * @param userId 操作用户ID
+   * @returns 联动设备ID列表，视频配置不存在时返回null
+   */
+  async setDeviceLinks(id: string, deviceIds: string[], userId: string) {
+    const videoConfig = await prisma.videoConfig.findUnique({
+      where: {
+        id,
+      },
+      select: {
+        name: true,
+        organizationId: true,
+      },
+    });
+
+    if (!videoConfig) {
+      return null;
+    }
+
+    const uniqueIds = Array.from(new Set(deviceIds));
+    // 只能联动同组织的设备
+    const devices = await prisma.device.findMany({
+      where: {
+        id: { in: uniqueIds },
+        organizationId: videoConfig.organizationId,
+      },
+      select: { id: true },
+    });
+
+    if (devices.length !== uniqueIds.length) {
+      throw new Error('Devices not found in the organization of the video configuration');
+    }
+
+    await prisma.$transaction([
+      prisma.deviceVideoLink.deleteMany({
+        where: { videoConfigId: id },
+      }),
+      prisma.deviceVideoLink.createMany({
+        data: uniqueIds.map(deviceId => ({ deviceId, videoConfigId: id })),
+      }),
+    ]);
+
+    await auditLog.log({
+      userId,
+      eventType: AuditEventType.DEVICE_UPDATE,
+      level: AuditLogLevel.INFO,
+      resourceType: 'VideoConfig',
+      resourceId: id,
+      description: `Updated linked devices of video configuration: ${videoConfig.name}`,
+      details: { deviceIds: uniqueIds },
+    });
+
+    return uniqueIds;
+  }
+
   /**
    * 测试视频流地址
+   * 先校验地址格式，再实际连接视频流读取编码、分辨率、帧率等参数
    * @param url 视频流地址
    * @param type 视频流类型
    * @returns 测试结果
    */
-  async testVideoStream(url: string, type: StreamType) {
+  async testVideoStream(url: string, type: StreamType): Promise<StreamProbeResult> {
     try {
-      // 这里只进行简单的URL格式验证
-      // 实际测试需要在前端进行，使用EasyPlayer-pro
       if (!url) {
         return { success: false, message: 'Stream URL is required' };
       }
@@ -227,7 +396,19 @@ export class VideoStreamService {
         return { success: false, message: 'HTTP URL must start with http:// or https://' };
       }
 
-      return { success: true, message: 'Stream URL format is valid' };
+      if (type === StreamType.RTSP && !url.startsWith('rtsp://') && !url.startsWith('rtsps://')) {
+        return { success: false, message: 'RTSP URL must start with rtsp:// or rtsps://' };
+      }
+
+      if (type === StreamType.RTMP && !url.startsWith('rtmp://') && !url.startsWith('rtmps://')) {
+        return { success: false, message: 'RTMP URL must start with rtmp:// or rtmps://' };
+      }
+
+      if (type === StreamType.HLS && !streamProbeService.isHlsUrl(url)) {
+        return { success: false, message: 'HLS URL must be an http(s) .m3u8 playlist' };
+      }
+
+      return await streamProbeService.probe(url, type);
     } catch (error) {
       console.error('Error testing video stream:', error);
       return { success: false, message: 'Failed to test video stream' };
@@ -236,20 +417,35 @@ export class VideoStreamService {
 
   /**
    * 获取视频流配置信息（供前端使用）
+   * 签发绑定用户和视频配置的播放令牌，返回接入网关的HTTP-FLV地址、WS-FLV端口和HLS回退地址
    * @param id 视频配置ID
-   * @returns 视频流配置信息
+   * @param userId 用户ID
+   * @param requestInfo 请求信息（用于审计）
+   * @returns 视频流配置信息，视频配置不存在或已停用时返回null
    */
-  async getStreamConfig(id: string) {
+  async getStreamConfig(id: string, userId: string, requestInfo: TokenRequestInfo = {}) {
     try {
-      const videoConfig = await this.getVideoConfig(id);
-      
-      if (!videoConfig.status) {
-        throw new Error('Video stream is disabled');
+      const videoConfig = await prisma.videoConfig.findUnique({
+        where: {
+          id,
+        },
+        omit: omitSecrets,
+      });
+
+      if (!videoConfig || !videoConfig.status) {
+        return null;
       }
 
+      const { token, expiresAt } = await streamTokenService.issue(videoConfig.id, userId, requestInfo);
+      const query = `?token=${encodeURIComponent(token)}`;
+
       return {
-        url: videoConfig.streamUrl,
-        type: videoConfig.streamType,
+        url: `${streamIngestService.getLivePath(videoConfig.id)}${query}`,
+        type: StreamType.HTTP,
+        hlsUrl: `${streamHlsService.getPlaylistPath(videoConfig.id)}${query}`,
+        // WS-FLV端口，客户端以 ws://{主机}:{wsPort}{url} 连接，未启动时为null
+        wsPort: streamIngestService.getWebSocketPort(),
+        expiresAt,
         name: videoConfig.name,
         cameraCode: videoConfig.cameraCode,
         config: {
@@ -266,6 +462,29 @@ export class VideoStreamService {
       throw new Error('Failed to get stream configuration');
     }
   }
+
+  /**
+   * 获取录像片段播放地址
+   * 签发绑定用户、视频配置和录像片段的录像令牌
+   * @param id 视频配置ID
+   * @param recordingId 录像片段ID
+   * @param userId 用户ID
+   * @param requestInfo 请求信息（用于审计）
+   * @returns 录像播放地址和令牌过期时间，录像片段不存在时返回null
+   */
+  async getRecordingPlayback(id: string, recordingId: string, userId: string, requestInfo: TokenRequestInfo = {}) {
+    const file = await streamRecordingService.getRecordingFile(id, recordingId);
+    if (!file) {
+      return null;
+    }
+
+    const { token, expiresAt } = await streamTokenService.issue(id, userId, requestInfo, recordingId);
+
+    return {
+      url: `/api/streams/${id}/recordings/${recordingId}?token=${encodeURIComponent(token)}`,
+      expiresAt,
+    };
+  }
 }
 
 // 导出单例实例
@@ -1,15 +1,30 @@
+import { EventEmitter } from 'events';
 import { Server as SocketIOServer } from 'socket.io';
-import { Server as HttpServer } from 'http';
+import { createServer, Server as HttpServer } from 'http';
 import { AuthService } from './auth';
 import { PermissionService } from './permission-service';
+import { canAccessOrganization, getAccessibleOrganizationIds } from './api-middleware';
+import prisma from './db-prisma';
+import { deviceCredentialService } from './device-credential-service';
+
+// 已配置的命名空间
+const NAMESPACES = ['/devices', '/alerts', '/notifications', '/videos'];
 
 /**
  * WebSocket服务类
  * 提供WebSocket服务器的创建和管理功能
+ * Next.js不暴露其HTTP服务器，服务启动时由start()在独立端口（WEBSOCKET_PORT，默认3001）监听，
+ * 浏览器按页面主机名和该端口连接（见next.config.ts中的NEXT_PUBLIC_WEBSOCKET_PORT）
+ * 事件：
+ * - connection(socket)：设备命名空间新连接，设备客户端的socket.data.deviceId为已认证的设备ID
+ * - disconnect(socket)：设备命名空间连接断开
  */
-export class WebSocketService {
+export class WebSocketService extends EventEmitter {
   private io: SocketIOServer | null = null;
+  private httpServer: HttpServer | null = null;
   private static instance: WebSocketService | null = null;
+  private readonly PORT = Number(process.env.WEBSOCKET_PORT || 3001);
+  private readonly HOST = process.env.WEBSOCKET_HOST || '0.0.0.0';
   private roomPermissions: Map<string, string> = new Map();
 
   /**
@@ -49,6 +64,41 @@ export class WebSocketService {
     console.log('WebSocket服务已初始化');
   }
 
+  /**
+   * 在独立端口启动WebSocket服务
+   */
+  async start(): Promise<void> {
+    if (this.io) {
+      return;
+    }
+
+    // Socket.IO只处理/api/ws路径，其余请求返回404
+    const server = createServer((req, res) => {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found');
+    });
+    this.init(server);
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.PORT, this.HOST, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = server;
+    console.log(`WebSocket服务已启动: ${this.HOST}:${this.PORT}`);
+  }
+
+  /**
+   * 获取WebSocket监听端口
+   * @returns 端口，未在独立端口启动时返回null
+   */
+  getPort(): number | null {
+    return this.httpServer ? this.PORT : null;
+  }
+
   /**
    * 配置Socket.IO命名空间
    */
@@ -59,9 +109,10 @@ export class WebSocketService {
 
     // 设备数据命名空间
     const deviceNamespace = this.io.of('/devices');
-    deviceNamespace.use(this.authMiddleware);
+    deviceNamespace.use(this.deviceAuthMiddleware);
     deviceNamespace.on('connection', (socket) => {
       console.log(`设备命名空间新连接: ${socket.id}`);
+      this.emit('connection', socket);
 
       // 订阅设备数据
       socket.on('subscribe', async (deviceId: string) => {
@@ -71,7 +122,8 @@ export class WebSocketService {
           const permissionService = new PermissionService();
           const hasPermission = await permissionService.hasPermission(userId, 'device:view');
 
-          if (hasPermission) {
+          // 设备房间推送影子、OTA进度和命令应答，只能订阅自己所在组织及其子组织的设备
+          if (hasPermission && await this.canAccessDevice(socket.data.user, deviceId)) {
             const roomName = `device:${deviceId}`;
             socket.join(roomName);
             console.log(`用户 ${userId} 订阅了设备 ${deviceId}`);
@@ -96,6 +148,7 @@ export class WebSocketService {
       // 断开连接
       socket.on('disconnect', () => {
         console.log(`设备命名空间连接断开: ${socket.id}`);
+        this.emit('disconnect', socket);
       });
     });
 
@@ -113,13 +166,15 @@ export class WebSocketService {
           const permissionService = new PermissionService();
           const hasPermission = await permissionService.hasPermission(userId, 'alert:view');
 
-          if (hasPermission) {
-            let roomName = 'alerts:all';
-            
-            if (filter.organizationId) {
-              roomName = `alerts:org:${filter.organizationId}`;
-            }
-            
+          // 组织告警只能订阅自己所在组织及其子组织的，全部告警仅系统管理员可订阅
+          const organizationId = filter?.organizationId;
+          const canSubscribe = hasPermission && (organizationId
+            ? await canAccessOrganization(socket.data.user, organizationId)
+            : (await getAccessibleOrganizationIds(socket.data.user)) === null);
+
+          if (canSubscribe) {
+            const roomName = organizationId ? `alerts:org:${organizationId}` : 'alerts:all';
+
             socket.join(roomName);
             console.log(`用户 ${userId} 订阅了告警 ${roomName}`);
             socket.emit('subscribed', { filter });
@@ -164,6 +219,64 @@ export class WebSocketService {
         console.log(`通知命名空间连接断开: ${socket.id}`);
       });
     });
+
+    // 视频监控命名空间
+    const videoNamespace = this.io.of('/videos');
+    videoNamespace.use(this.authMiddleware);
+    videoNamespace.on('connection', (socket) => {
+      console.log(`视频命名空间新连接: ${socket.id}`);
+
+      // 订阅组织下的视频流状态
+      socket.on('subscribe', async (filter: { organizationId: string }) => {
+        try {
+          const userId = socket.data.userId;
+          // 检查用户是否有权限查看视频
+          const permissionService = new PermissionService();
+          const hasPermission = await permissionService.hasPermission(userId, 'video:view');
+
+          // 只能订阅自己所在组织及其子组织的视频状态
+          if (hasPermission && filter?.organizationId && await canAccessOrganization(socket.data.user, filter.organizationId)) {
+            const roomName = `videos:org:${filter.organizationId}`;
+            socket.join(roomName);
+            console.log(`用户 ${userId} 订阅了视频状态 ${roomName}`);
+            socket.emit('subscribed', { filter });
+          } else {
+            socket.emit('error', { message: '没有权限订阅视频状态' });
+          }
+        } catch (error) {
+          console.error('视频状态订阅错误:', error);
+          socket.emit('error', { message: '订阅视频状态失败' });
+        }
+      });
+
+      // 断开连接
+      socket.on('disconnect', () => {
+        console.log(`视频命名空间连接断开: ${socket.id}`);
+      });
+    });
+  }
+
+  /**
+   * 检查用户是否可以访问设备
+   * @param user 当前用户
+   * @param deviceId 设备ID
+   * @returns 设备存在且属于用户可访问的组织时返回true
+   */
+  private async canAccessDevice(user: any, deviceId: string): Promise<boolean> {
+    if (!user || typeof deviceId !== 'string') {
+      return false;
+    }
+
+    try {
+      const device = await prisma.device.findUnique({
+        where: { id: deviceId },
+        select: { organizationId: true },
+      });
+      return !!device && (await canAccessOrganization(user, device.organizationId));
+    } catch {
+      // 设备ID格式无效
+      return false;
+    }
   }
 
   /**
@@ -198,6 +311,35 @@ export class WebSocketService {
     }
   };
 
+  /**
+   * 设备命名空间认证中间件
+   * 握手auth参数包含deviceId时按设备签名认证，否则按用户JWT令牌认证
+   */
+  private deviceAuthMiddleware = async (socket: any, next: (err?: Error) => void) => {
+    const auth = socket.handshake.auth || {};
+    if (auth.deviceId === undefined) {
+      return this.authMiddleware(socket, next);
+    }
+
+    try {
+      const verified = await deviceCredentialService.verifySignature(auth.deviceId, auth.timestamp, auth.sign, {
+        protocol: 'WEBSOCKET',
+        ipAddress: socket.handshake.address,
+        clientId: socket.id,
+      });
+
+      if (!verified) {
+        return next(new Error('设备认证失败'));
+      }
+
+      socket.data.deviceId = auth.deviceId;
+      next();
+    } catch (error) {
+      console.error('WebSocket设备认证错误:', error);
+      return next(new Error('认证失败'));
+    }
+  };
+
   /**
    * 发送设备数据更新
    * @param deviceId 设备ID
@@ -217,6 +359,24 @@ export class WebSocketService {
     });
   }
 
+  /**
+   * 发送设备影子更新
+   * @param deviceId 设备ID
+   * @param shadow 设备影子文档
+   */
+  sendShadowUpdate(deviceId: string, shadow: any): void {
+    if (!this.io) {
+      return;
+    }
+
+    const roomName = `device:${deviceId}`;
+    this.io.of('/devices').to(roomName).emit('shadowUpdate', {
+      deviceId,
+      timestamp: new Date().toISOString(),
+      shadow,
+    });
+  }
+
   /**
    * 发送设备状态变更
    * @param deviceId 设备ID
@@ -256,6 +416,25 @@ export class WebSocketService {
     }
   }
 
+  /**
+   * 发送告警确认通知
+   * 推送到与新告警相同的频道，其他客户端据此清除告警提示
+   * @param alert 告警信息
+   */
+  sendAlertConfirmed(alert: any): void {
+    if (!this.io) {
+      console.warn('WebSocket服务未初始化');
+      return;
+    }
+
+    this.io.of('/alerts').to('alerts:all').emit('alertConfirmed', alert);
+
+    if (alert.organizationId) {
+      const orgRoomName = `alerts:org:${alert.organizationId}`;
+      this.io.of('/alerts').to(orgRoomName).emit('alertConfirmed', alert);
+    }
+  }
+
   /**
    * 发送用户通知
    * @param userId 用户ID
@@ -284,6 +463,35 @@ export class WebSocketService {
     this.io.of('/notifications').emit('systemNotification', notification);
   }
 
+  /**
+   * 发送视频流健康状态
+   * @param status 视频流健康状态，需包含organizationId
+   */
+  sendVideoStatus(status: { videoConfigId: string; organizationId: string; [key: string]: any }): void {
+    if (!this.io) {
+      return;
+    }
+
+    const roomName = `videos:org:${status.organizationId}`;
+    this.io.of('/videos').to(roomName).emit('videoStatus', status);
+  }
+
+  /**
+   * 向各命名空间中的指定房间广播消息
+   * @param room 房间名
+   * @param event 事件名
+   * @param data 消息数据
+   */
+  broadcastToRoom(room: string, event: string, data: any): void {
+    if (!this.io) {
+      return;
+    }
+
+    for (const namespace of NAMESPACES) {
+      this.io.of(namespace).to(room).emit(event, data);
+    }
+  }
+
   /**
    * 获取命名空间连接数
    * @param namespace 命名空间
@@ -324,4 +532,9 @@ export class WebSocketService {
       console.log('WebSocket服务已关闭');
     }
   }
-} 
\ No newline at end of file
+}
+
+// 导出单例实例
+export const websocketService = WebSocketService.getInstance();
+
+export default websocketService;
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // 浏览器连接的WebSocket端口，与服务端WEBSOCKET_PORT一致
+    NEXT_PUBLIC_WEBSOCKET_PORT: process.env.WEBSOCKET_PORT || '3001',
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,256 @@
+// 准望物联监测平台本地模拟Modbus从站脚本
+// 支持Modbus TCP和RTU over TCP，实现功能码1/2/3/4/5/6/15/16，用于测试Modbus轮询和属性设置
+//
+// 用法：
+//   node scripts/mock-modbus-slave.js [--port 5020] [--unit 1] [--rtu] [--delay 0]
+// 参数：
+//   --unit   响应的单元标识，可重复指定多个（模拟串口服务器下的多个从站），默认1
+//   --rtu    使用RTU over TCP（默认Modbus TCP）
+//   --delay  响应延迟（毫秒），大于平台响应超时时可测试通信失败
+// 模拟数据：
+//   输入寄存器 0      温度 ×10（int16），按正弦变化
+//   输入寄存器 1      湿度 ×10（uint16），按正弦变化
+//   输入寄存器 2~3    累计电量（float32，ABCD）
+//   离散输入 0        门磁状态，每30秒翻转
+//   保持寄存器 0      温度设定值 ×10（int16），初始250
+//   保持寄存器 1      运行模式（uint16），初始1
+//   线圈 0            继电器状态
+// 写入操作会打印到控制台
+const net = require('net');
+
+const REGISTER_COUNT = 10000;
+
+// 异常码
+const ILLEGAL_FUNCTION = 0x01;
+const ILLEGAL_DATA_ADDRESS = 0x02;
+const ILLEGAL_DATA_VALUE = 0x03;
+
+function parseArgs() {
+  const options = { port: 5020, units: [], rtu: false, delay: 0 };
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--port':
+        options.port = Number(argv[++i]);
+        break;
+      case '--unit':
+        options.units.push(Number(argv[++i]));
+        break;
+      case '--rtu':
+        options.rtu = true;
+        break;
+      case '--delay':
+        options.delay = Number(argv[++i]);
+        break;
+      default:
+        console.warn(`未知参数: ${argv[i]}`);
+    }
+  }
+  if (options.units.length === 0) {
+    options.units.push(1);
+  }
+  return options;
+}
+
+// 从站数据区，多个单元标识共用
+const state = {
+  coils: new Uint8Array(REGISTER_COUNT),
+  discreteInputs: new Uint8Array(REGISTER_COUNT),
+  holdingRegisters: new Uint16Array(REGISTER_COUNT),
+  inputRegisters: new Uint16Array(REGISTER_COUNT),
+  energy: 0,
+  startedAt: Date.now(),
+};
+
+state.holdingRegisters[0] = 250;
+state.holdingRegisters[1] = 1;
+
+// 按时间刷新模拟数据
+function refreshInputs() {
+  const seconds = (Date.now() - state.startedAt) / 1000;
+  const temperature = Math.round((25 + 5 * Math.sin(seconds / 60)) * 10);
+  const humidity = Math.round((50 + 10 * Math.sin(seconds / 90)) * 10);
+  state.inputRegisters[0] = temperature & 0xffff;
+  state.inputRegisters[1] = humidity;
+
+  state.energy += 0.01;
+  const energy = Buffer.alloc(4);
+  energy.writeFloatBE(state.energy);
+  state.inputRegisters[2] = energy.readUInt16BE(0);
+  state.inputRegisters[3] = energy.readUInt16BE(2);
+
+  state.discreteInputs[0] = Math.floor(seconds / 30) % 2;
+}
+
+function crc16(data) {
+  let crc = 0xffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1;
+    }
+  }
+  return crc;
+}
+
+function exception(functionCode, code) {
+  return Buffer.from([functionCode | 0x80, code]);
+}
+
+function inRange(address, quantity, max) {
+  return quantity >= 1 && quantity <= max && address + quantity <= REGISTER_COUNT;
+}
+
+function readBits(bits, functionCode, address, quantity) {
+  if (!inRange(address, quantity, 2000)) return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+  const byteCount = Math.ceil(quantity / 8);
+  const response = Buffer.alloc(2 + byteCount);
+  response[0] = functionCode;
+  response[1] = byteCount;
+  for (let i = 0; i < quantity; i++) {
+    if (bits[address + i]) response[2 + (i >> 3)] |= 1 << (i & 7);
+  }
+  return response;
+}
+
+function readRegisters(registers, functionCode, address, quantity) {
+  if (!inRange(address, quantity, 125)) return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+  const response = Buffer.alloc(2 + quantity * 2);
+  response[0] = functionCode;
+  response[1] = quantity * 2;
+  for (let i = 0; i < quantity; i++) {
+    response.writeUInt16BE(registers[address + i], 2 + i * 2);
+  }
+  return response;
+}
+
+// 处理请求PDU，返回响应PDU
+function handlePdu(pdu, unitId) {
+  refreshInputs();
+  const functionCode = pdu[0];
+  if (pdu.length < 5) return exception(functionCode, ILLEGAL_DATA_VALUE);
+  const address = pdu.readUInt16BE(1);
+  const value = pdu.readUInt16BE(3);
+
+  switch (functionCode) {
+    case 0x01:
+      return readBits(state.coils, functionCode, address, value);
+    case 0x02:
+      return readBits(state.discreteInputs, functionCode, address, value);
+    case 0x03:
+      return readRegisters(state.holdingRegisters, functionCode, address, value);
+    case 0x04:
+      return readRegisters(state.inputRegisters, functionCode, address, value);
+    case 0x05:
+      if (!inRange(address, 1, 1)) return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+      if (value !== 0xff00 && value !== 0x0000) return exception(functionCode, ILLEGAL_DATA_VALUE);
+      state.coils[address] = value === 0xff00 ? 1 : 0;
+      console.log(`[写线圈] 单元${unitId} 地址${address} = ${state.coils[address] === 1}`);
+      return Buffer.from(pdu.subarray(0, 5));
+    case 0x06:
+      if (!inRange(address, 1, 1)) return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+      state.holdingRegisters[address] = value;
+      console.log(`[写寄存器] 单元${unitId} 地址${address} = ${value}`);
+      return Buffer.from(pdu.subarray(0, 5));
+    case 0x0f: {
+      if (!inRange(address, value, 1968) || pdu.length < 6 + Math.ceil(value / 8)) {
+        return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+      }
+      for (let i = 0; i < value; i++) {
+        state.coils[address + i] = (pdu[6 + (i >> 3)] >> (i & 7)) & 1;
+      }
+      console.log(`[写多个线圈] 单元${unitId} 地址${address} 数量${value}`);
+      return Buffer.from(pdu.subarray(0, 5));
+    }
+    case 0x10: {
+      if (!inRange(address, value, 123) || pdu.length < 6 + value * 2) {
+        return exception(functionCode, ILLEGAL_DATA_ADDRESS);
+      }
+      const values = [];
+      for (let i = 0; i < value; i++) {
+        state.holdingRegisters[address + i] = pdu.readUInt16BE(6 + i * 2);
+        values.push(state.holdingRegisters[address + i]);
+      }
+      console.log(`[写多个寄存器] 单元${unitId} 地址${address} = [${values.join(', ')}]`);
+      return Buffer.from(pdu.subarray(0, 5));
+    }
+    default:
+      return exception(functionCode, ILLEGAL_FUNCTION);
+  }
+}
+
+// 从TCP流中切分Modbus TCP请求帧
+function readTcpRequest(buffer) {
+  if (buffer.length < 7) return null;
+  const length = buffer.readUInt16BE(4);
+  if (buffer.length < 6 + length) return null;
+  return {
+    length: 6 + length,
+    transactionId: buffer.readUInt16BE(0),
+    unitId: buffer[6],
+    pdu: buffer.subarray(7, 6 + length),
+  };
+}
+
+// 从TCP流中切分RTU请求帧，CRC错误时返回invalid
+function readRtuRequest(buffer) {
+  if (buffer.length < 8) return null;
+  const functionCode = buffer[1];
+  const total = functionCode === 0x0f || functionCode === 0x10 ? 9 + buffer[6] : 8;
+  if (buffer.length < total) return null;
+  const invalid = crc16(buffer.subarray(0, total - 2)) !== buffer.readUInt16LE(total - 2);
+  return { length: total, unitId: buffer[0], pdu: buffer.subarray(1, total - 2), invalid };
+}
+
+function encodeResponse(options, request, pdu) {
+  if (options.rtu) {
+    const frame = Buffer.alloc(pdu.length + 3);
+    frame[0] = request.unitId;
+    pdu.copy(frame, 1);
+    frame.writeUInt16LE(crc16(frame.subarray(0, pdu.length + 1)), pdu.length + 1);
+    return frame;
+  }
+  const header = Buffer.alloc(7);
+  header.writeUInt16BE(request.transactionId, 0);
+  header.writeUInt16BE(pdu.length + 1, 4);
+  header[6] = request.unitId;
+  return Buffer.concat([header, pdu]);
+}
+
+function main() {
+  const options = parseArgs();
+
+  const server = net.createServer(socket => {
+    const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+    console.log(`[连接] ${peer}`);
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', data => {
+      buffer = Buffer.concat([buffer, data]);
+      let request;
+      while ((request = options.rtu ? readRtuRequest(buffer) : readTcpRequest(buffer))) {
+        buffer = buffer.subarray(request.length);
+        // 非本从站的请求和CRC错误的RTU帧不响应
+        if (request.invalid || !options.units.includes(request.unitId)) continue;
+
+        const response = encodeResponse(options, request, handlePdu(Buffer.from(request.pdu), request.unitId));
+        setTimeout(() => {
+          if (!socket.destroyed) socket.write(response);
+        }, options.delay);
+      }
+    });
+
+    socket.on('close', () => console.log(`[断开] ${peer}`));
+    socket.on('error', () => {});
+  });
+
+  server.listen(options.port, () => {
+    console.log(`Modbus模拟从站（${options.rtu ? 'RTU over TCP' : 'Modbus TCP'}）: 127.0.0.1:${options.port}`);
+    console.log(`单元标识: ${options.units.join(', ')}${options.delay ? ` 响应延迟: ${options.delay}ms` : ''}`);
+  });
+}
+
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+
+main();
@@ -0,0 +1,260 @@
+// 准望物联监测平台本地模拟ONVIF云台脚本
+// 实现设备服务、媒体服务和PTZ服务的常用接口，用于测试云台控制
+//
+// 用法：
+//   node scripts/mock-onvif-server.js [--port 8899] [--username admin] [--password admin]
+// 设备服务地址：
+//   http://127.0.0.1:8899/onvif/device_service
+// 云台动作会打印到控制台，并模拟当前位置变化
+const crypto = require('crypto');
+const http = require('http');
+
+const PROFILE_TOKEN = 'Profile_1';
+const MAX_PRESETS = 16;
+
+function parseArgs() {
+  const options = { port: 8899, username: 'admin', password: 'admin' };
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--port':
+        options.port = Number(argv[++i]);
+        break;
+      case '--username':
+        options.username = argv[++i];
+        break;
+      case '--password':
+        options.password = argv[++i];
+        break;
+      default:
+        console.warn(`未知参数: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+// 云台状态
+const state = {
+  position: { x: 0, y: 0, zoom: 0 },
+  velocity: { x: 0, y: 0, zoom: 0 },
+  moveStartedAt: 0,
+  stopTimer: null,
+  presets: new Map([['1', { name: '默认位置', position: { x: 0, y: 0, zoom: 0 } }]]),
+  nextPresetToken: 2,
+};
+
+function clamp(value, min, max) {
+  return Math.min(Math.max(value, min), max);
+}
+
+// 按速度和运动时长计算当前位置，每秒移动速度的一半
+function settlePosition() {
+  if (!state.moveStartedAt) return;
+  const seconds = (Date.now() - state.moveStartedAt) / 1000;
+  state.position = {
+    x: clamp(state.position.x + state.velocity.x * seconds * 0.5, -1, 1),
+    y: clamp(state.position.y + state.velocity.y * seconds * 0.5, -1, 1),
+    zoom: clamp(state.position.zoom + state.velocity.zoom * seconds * 0.5, 0, 1),
+  };
+  state.moveStartedAt = Date.now();
+}
+
+function stopMove() {
+  settlePosition();
+  state.velocity = { x: 0, y: 0, zoom: 0 };
+  state.moveStartedAt = 0;
+  clearTimeout(state.stopTimer);
+}
+
+function formatPosition() {
+  const { x, y, zoom } = state.position;
+  return `pan=${x.toFixed(2)} tilt=${y.toFixed(2)} zoom=${zoom.toFixed(2)}`;
+}
+
+// 读取第一个指定本地名的元素
+function getElement(xml, name) {
+  const match = new RegExp(`<(?:[\\w-]+:)?${name}(\\s[^>]*?)?(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${name}>)`).exec(xml);
+  return match ? { attributes: match[1] || '', content: (match[2] || '').trim() } : null;
+}
+
+function getAttribute(attributes, name) {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes || '');
+  return match ? match[1] : null;
+}
+
+function escapeXml(value) {
+  return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// 校验WS-Security UsernameToken摘要
+function authenticate(xml, options) {
+  const username = getElement(xml, 'Username');
+  const password = getElement(xml, 'Password');
+  const nonce = getElement(xml, 'Nonce');
+  const created = getElement(xml, 'Created');
+  if (!username || !password || !nonce || !created || username.content !== options.username) {
+    return false;
+  }
+
+  const digest = crypto.createHash('sha1')
+    .update(Buffer.concat([Buffer.from(nonce.content, 'base64'), Buffer.from(created.content + options.password)]))
+    .digest('base64');
+  return digest === password.content;
+}
+
+function envelope(body) {
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<s:Envelope xmlns:s="http://www.w3.org/2003/05/soap-envelope"'
+    + ' xmlns:tds="http://www.onvif.org/ver10/device/wsdl"'
+    + ' xmlns:trt="http://www.onvif.org/ver10/media/wsdl"'
+    + ' xmlns:tptz="http://www.onvif.org/ver20/ptz/wsdl"'
+    + ' xmlns:tt="http://www.onvif.org/ver10/schema">'
+    + `<s:Body>${body}</s:Body></s:Envelope>`;
+}
+
+function fault(reason) {
+  return envelope('<s:Fault><s:Code><s:Value>s:Sender</s:Value></s:Code>'
+    + `<s:Reason><s:Text xml:lang="en">${escapeXml(reason)}</s:Text></s:Reason></s:Fault>`);
+}
+
+// 处理SOAP操作，返回响应体；返回null表示操作不支持
+function handleOperation(operation, xml, baseUrl) {
+  switch (operation) {
+    case 'GetCapabilities':
+      return '<tds:GetCapabilitiesResponse><tds:Capabilities>'
+        + `<tt:Device><tt:XAddr>${baseUrl}/onvif/device_service</tt:XAddr></tt:Device>`
+        + `<tt:Media><tt:XAddr>${baseUrl}/onvif/media_service</tt:XAddr></tt:Media>`
+        + `<tt:PTZ><tt:XAddr>${baseUrl}/onvif/ptz_service</tt:XAddr></tt:PTZ>`
+        + '</tds:Capabilities></tds:GetCapabilitiesResponse>';
+
+    case 'GetProfiles':
+      return '<trt:GetProfilesResponse>'
+        + `<trt:Profiles token="${PROFILE_TOKEN}" fixed="true"><tt:Name>MainStream</tt:Name>`
+        + '<tt:PTZConfiguration token="PTZConfig_1"><tt:Name>PTZ</tt:Name><tt:NodeToken>PTZNode_1</tt:NodeToken>'
+        + '<tt:DefaultContinuousPanTiltVelocitySpace>http://www.onvif.org/ver10/tptz/PanTiltSpaces/VelocityGenericSpace</tt:DefaultContinuousPanTiltVelocitySpace>'
+        + '<tt:DefaultContinuousZoomVelocitySpace>http://www.onvif.org/ver10/tptz/ZoomSpaces/VelocityGenericSpace</tt:DefaultContinuousZoomVelocitySpace>'
+        + '</tt:PTZConfiguration></trt:Profiles>'
+        + '</trt:GetProfilesResponse>';
+
+    case 'GetNodes':
+      return '<tptz:GetNodesResponse><tptz:PTZNode token="PTZNode_1"><tt:Name>PTZ</tt:Name>'
+        + `<tt:MaximumNumberOfPresets>${MAX_PRESETS}</tt:MaximumNumberOfPresets>`
+        + '<tt:HomeSupported>false</tt:HomeSupported>'
+        + '</tptz:PTZNode></tptz:GetNodesResponse>';
+
+    case 'GetPresets': {
+      const presets = Array.from(state.presets.entries()).map(([token, preset]) =>
+        `<tptz:Preset token="${escapeXml(token)}"><tt:Name>${escapeXml(preset.name)}</tt:Name></tptz:Preset>`
+      ).join('');
+      return `<tptz:GetPresetsResponse>${presets}</tptz:GetPresetsResponse>`;
+    }
+
+    case 'ContinuousMove': {
+      const panTilt = getElement(xml, 'PanTilt');
+      const zoom = getElement(xml, 'Zoom');
+      const timeout = /PT(\d+(?:\.\d+)?)S/.exec(getElement(xml, 'Timeout')?.content || '');
+      settlePosition();
+      state.velocity = {
+        x: Number(getAttribute(panTilt?.attributes, 'x') || 0),
+        y: Number(getAttribute(panTilt?.attributes, 'y') || 0),
+        zoom: Number(getAttribute(zoom?.attributes, 'x') || 0),
+      };
+      state.moveStartedAt = Date.now();
+      clearTimeout(state.stopTimer);
+      if (timeout) {
+        state.stopTimer = setTimeout(() => {
+          stopMove();
+          console.log(`[PTZ] 超时自动停止 ${formatPosition()}`);
+        }, Number(timeout[1]) * 1000);
+      }
+      console.log(`[PTZ] 连续移动 pan=${state.velocity.x} tilt=${state.velocity.y} zoom=${state.velocity.zoom}`);
+      return '<tptz:ContinuousMoveResponse/>';
+    }
+
+    case 'Stop':
+      stopMove();
+      console.log(`[PTZ] 停止 ${formatPosition()}`);
+      return '<tptz:StopResponse/>';
+
+    case 'GotoPreset': {
+      const token = getElement(xml, 'PresetToken')?.content;
+      const preset = state.presets.get(token);
+      if (!preset) {
+        return false;
+      }
+      stopMove();
+      state.position = { ...preset.position };
+      console.log(`[PTZ] 调用预置位 ${token}（${preset.name}） ${formatPosition()}`);
+      return '<tptz:GotoPresetResponse/>';
+    }
+
+    case 'SetPreset': {
+      let token = getElement(xml, 'PresetToken')?.content;
+      if (!token) {
+        if (state.presets.size >= MAX_PRESETS) {
+          return false;
+        }
+        token = String(state.nextPresetToken++);
+      }
+      settlePosition();
+      const name = getElement(xml, 'PresetName')?.content || `预置位${token}`;
+      state.presets.set(token, { name, position: { ...state.position } });
+      console.log(`[PTZ] 保存预置位 ${token}（${name}） ${formatPosition()}`);
+      return `<tptz:SetPresetResponse><tptz:PresetToken>${escapeXml(token)}</tptz:PresetToken></tptz:SetPresetResponse>`;
+    }
+
+    default:
+      return null;
+  }
+}
+
+function main() {
+  const options = parseArgs();
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405);
+      res.end();
+      return;
+    }
+
+    const chunks = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      const xml = Buffer.concat(chunks).toString('utf8');
+      const send = (status, body) => {
+        res.writeHead(status, { 'Content-Type': 'application/soap+xml; charset=utf-8' });
+        res.end(body);
+      };
+
+      if (!authenticate(xml, options)) {
+        console.warn(`[认证失败] ${req.url}`);
+        send(400, fault('The action requested requires authorization and the sender is not authorized'));
+        return;
+      }
+
+      const body = getElement(xml, 'Body');
+      const operation = body && /<(?:[\w-]+:)?(\w+)/.exec(body.content)?.[1];
+      const baseUrl = `http://${req.headers.host || `127.0.0.1:${options.port}`}`;
+      const result = operation ? handleOperation(operation, body.content, baseUrl) : null;
+
+      if (result === null) {
+        send(400, fault(`Unsupported operation: ${operation}`));
+      } else if (result === false) {
+        send(400, fault(`Invalid arguments for ${operation}`));
+      } else {
+        send(200, envelope(result));
+      }
+    });
+  });
+
+  server.listen(options.port, () => {
+    console.log(`ONVIF模拟设备: http://127.0.0.1:${options.port}/onvif/device_service`);
+    console.log(`用户名: ${options.username} 密码: ${options.password}`);
+  });
+}
+
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+
+main();
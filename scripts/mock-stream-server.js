@@ -0,0 +1,237 @@
+// 准望物联监测平台本地模拟摄像头脚本
+// 循环播放一个短视频文件，分别以RTSP和RTMP方式对外提供，用于测试视频流接入网关
+//
+// 用法：
+//   node scripts/mock-stream-server.js [--file sample.mp4] [--rtsp-port 8554] [--rtmp-port 1935]
+// 播放地址：
+//   rtsp://127.0.0.1:8554/test
+//   rtmp://127.0.0.1:1935/live/test
+// 未指定 --file 时使用FFmpeg内置测试图案和正弦音频
+const { spawn } = require('child_process');
+const dgram = require('dgram');
+const fs = require('fs');
+const net = require('net');
+const os = require('os');
+const path = require('path');
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const children = new Set();
+
+// 启动FFmpeg子进程，脚本退出时一并结束
+function spawnFfmpeg(args) {
+  const child = spawn(FFMPEG_PATH, args, { stdio: ['ignore', 'ignore', 'inherit'] });
+  children.add(child);
+  child.on('exit', () => children.delete(child));
+  return child;
+}
+
+function parseArgs() {
+  const options = { file: null, rtspPort: 8554, rtmpPort: 1935, rtpPort: 50000 };
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--file':
+        options.file = argv[++i];
+        break;
+      case '--rtsp-port':
+        options.rtspPort = Number(argv[++i]);
+        break;
+      case '--rtmp-port':
+        options.rtmpPort = Number(argv[++i]);
+        break;
+      case '--rtp-port':
+        options.rtpPort = Number(argv[++i]);
+        break;
+    }
+  }
+  return options;
+}
+
+// 输入参数：循环读取文件，或使用测试图案
+function inputArgs(file) {
+  if (file) {
+    return ['-re', '-stream_loop', '-1', '-i', file];
+  }
+  return [
+    '-re',
+    '-f', 'lavfi', '-i', 'testsrc=size=640x360:rate=25',
+    '-f', 'lavfi', '-i', 'sine=frequency=440:sample_rate=44100',
+  ];
+}
+
+const videoArgs = ['-c:v', 'libx264', '-preset', 'veryfast', '-tune', 'zerolatency', '-pix_fmt', 'yuv420p', '-g', '50'];
+
+// RTMP：FFmpeg以监听模式作为RTMP服务器，每次只服务一个播放端，断开后重新监听
+function startRtmpServer(options) {
+  const url = `rtmp://0.0.0.0:${options.rtmpPort}/live/test`;
+
+  const run = () => {
+    const child = spawnFfmpeg([
+      '-hide_banner', '-loglevel', 'error',
+      ...inputArgs(options.file),
+      ...videoArgs,
+      '-c:a', 'aac',
+      '-f', 'flv', '-listen', '1', url,
+    ]);
+
+    child.on('exit', (code) => {
+      console.log(`RTMP会话结束(code=${code})，重新监听...`);
+      setTimeout(run, 500);
+    });
+  };
+
+  run();
+  console.log(`RTMP模拟源: rtmp://127.0.0.1:${options.rtmpPort}/live/test`);
+}
+
+// RTSP：FFmpeg输出RTP到本地UDP端口，由本脚本实现最小RTSP服务器，以TCP交织方式转发给播放端
+function startRtspServer(options) {
+  const sdpFile = path.join(os.tmpdir(), `mock-stream-${process.pid}.sdp`);
+  const clients = new Set();
+
+  spawnFfmpeg([
+    '-hide_banner', '-loglevel', 'error',
+    ...inputArgs(options.file),
+    '-an',
+    ...videoArgs,
+    '-f', 'rtp', '-sdp_file', sdpFile,
+    `rtp://127.0.0.1:${options.rtpPort}?rtcpport=${options.rtpPort + 1}`,
+  ]).on('exit', (code) => {
+    console.error(`RTP推流进程退出(code=${code})`);
+    process.exit(1);
+  });
+
+  const rtp = dgram.createSocket('udp4');
+  rtp.bind(options.rtpPort, '127.0.0.1');
+  rtp.on('message', (packet) => {
+    const frame = Buffer.alloc(4 + packet.length);
+    frame[0] = 0x24; // '$'
+    frame[1] = 0; // 通道0：RTP
+    frame.writeUInt16BE(packet.length, 2);
+    packet.copy(frame, 4);
+    for (const client of clients) {
+      if (client.playing && client.socket.writable) {
+        client.socket.write(frame);
+      }
+    }
+  });
+
+  const buildSdp = () => {
+    const sdp = fs.readFileSync(sdpFile, 'utf8')
+      .split(/\r?\n/)
+      .filter((line) => line && !line.startsWith('a=control'))
+      .map((line) => (line.startsWith('c=') ? 'c=IN IP4 0.0.0.0' : line));
+    const mediaIndex = sdp.findIndex((line) => line.startsWith('m='));
+    sdp.splice(mediaIndex, 0, 'a=control:*');
+    sdp.push('a=control:trackID=0');
+    return sdp.join('\r\n') + '\r\n';
+  };
+
+  const server = net.createServer((socket) => {
+    const client = { socket, playing: false };
+    const session = Math.random().toString(16).slice(2, 10);
+    let buffer = '';
+    clients.add(client);
+
+    const reply = (cseq, status, headers = {}, body = '') => {
+      const lines = [`RTSP/1.0 ${status}`, `CSeq: ${cseq}`];
+      for (const [key, value] of Object.entries(headers)) {
+        lines.push(`${key}: ${value}`);
+      }
+      if (body) {
+        lines.push(`Content-Length: ${Buffer.byteLength(body)}`);
+      }
+      socket.write(lines.join('\r\n') + '\r\n\r\n' + body);
+    };
+
+    socket.on('data', (chunk) => {
+      // 播放期间客户端可能发送交织的RTCP数据，直接忽略
+      if (client.playing && chunk[0] === 0x24) {
+        return;
+      }
+      buffer += chunk.toString('latin1');
+
+      let end;
+      while ((end = buffer.indexOf('\r\n\r\n')) !== -1) {
+        const request = buffer.slice(0, end).split('\r\n');
+        buffer = buffer.slice(end + 4);
+
+        const [method, uri] = request[0].split(' ');
+        const headers = {};
+        for (const line of request.slice(1)) {
+          const index = line.indexOf(':');
+          headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        }
+        const cseq = headers.cseq;
+
+        switch (method) {
+          case 'OPTIONS':
+            reply(cseq, '200 OK', { Public: 'OPTIONS, DESCRIBE, SETUP, PLAY, TEARDOWN' });
+            break;
+          case 'DESCRIBE':
+            if (!fs.existsSync(sdpFile)) {
+              reply(cseq, '503 Service Unavailable');
+              break;
+            }
+            reply(cseq, '200 OK', {
+              'Content-Type': 'application/sdp',
+              'Content-Base': uri.endsWith('/') ? uri : `${uri}/`,
+            }, buildSdp());
+            break;
+          case 'SETUP':
+            if (!/RTP\/AVP\/TCP/.test(headers.transport || '')) {
+              reply(cseq, '461 Unsupported Transport');
+              break;
+            }
+            reply(cseq, '200 OK', {
+              Transport: 'RTP/AVP/TCP;unicast;interleaved=0-1',
+              Session: session,
+            });
+            break;
+          case 'PLAY':
+            reply(cseq, '200 OK', { Session: session, Range: 'npt=0.000-' });
+            client.playing = true;
+            break;
+          case 'TEARDOWN':
+            reply(cseq, '200 OK', { Session: session });
+            socket.end();
+            break;
+          default:
+            reply(cseq, '405 Method Not Allowed');
+        }
+      }
+    });
+
+    socket.on('close', () => clients.delete(client));
+    socket.on('error', () => clients.delete(client));
+  });
+
+  server.listen(options.rtspPort, () => {
+    console.log(`RTSP模拟源: rtsp://127.0.0.1:${options.rtspPort}/test`);
+  });
+
+  process.on('exit', () => {
+    try {
+      fs.unlinkSync(sdpFile);
+    } catch (error) {
+      // 忽略
+    }
+  });
+}
+
+function main() {
+  const options = parseArgs();
+  console.log('启动模拟摄像头...');
+  startRtspServer(options);
+  startRtmpServer(options);
+}
+
+process.on('exit', () => {
+  for (const child of children) {
+    child.kill('SIGTERM');
+  }
+});
+process.on('SIGINT', () => process.exit(0));
+process.on('SIGTERM', () => process.exit(0));
+
+main();
@@ -125,6 +125,69 @@ async function createRolesAndPermissions() {
         code: 'DEVICE_VIEW',
         description: '设备查看权限'
       }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '视频查看',
+        code: 'video:view',
+        description: '视频查看、截图和录像回放权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '视频控制',
+        code: 'video:control',
+        description: '摄像头云台控制权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '视频配置管理',
+        code: 'video:manage',
+        description: '视频配置管理、视频流测试和启停权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '告警查看',
+        code: 'alert:view',
+        description: '设备告警实时推送查看权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '告警确认',
+        code: 'alert:confirm',
+        description: '设备告警确认权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '设备查看',
+        code: 'device:view',
+        description: '设备、设备类及设备命令、告警、事件记录查看权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: '设备编辑',
+        code: 'device:edit',
+        description: '设备及设备类创建、编辑、删除和下发命令权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: 'OTA升级查看',
+        code: 'ota:view',
+        description: '固件包、升级活动及设备升级任务查看权限'
+      }
+    }),
+    prisma.permission.create({
+      data: {
+        name: 'OTA升级管理',
+        code: 'ota:manage',
+        description: '固件包上传删除及升级活动创建、启停和取消权限'
+      }
     })
   ]);
 
@@ -186,6 +249,27 @@ async function createRolesAndPermissions() {
     }
   });
 
+  await prisma.rolePermission.create({
+    data: {
+      roleId: normalRole.id,
+      permissionId: permissions[3].id // 视频查看权限
+    }
+  });
+
+  await prisma.rolePermission.create({
+    data: {
+      roleId: normalRole.id,
+      permissionId: permissions[6].id // 告警查看权限
+    }
+  });
+
+  await prisma.rolePermission.create({
+    data: {
+      roleId: normalRole.id,
+      permissionId: permissions[8].id // 设备查看权限（REST API）
+    }
+  });
+
   // 设备用户拥有设备查看权限
   await prisma.rolePermission.create({
     data: {
@@ -194,6 +278,13 @@ async function createRolesAndPermissions() {
     }
   });
 
+  await prisma.rolePermission.create({
+    data: {
+      roleId: deviceRole.id,
+      permissionId: permissions[8].id // 设备查看权限（REST API）
+    }
+  });
+
   return { adminRole, orgAdminRole, normalRole, deviceRole };
 }
 